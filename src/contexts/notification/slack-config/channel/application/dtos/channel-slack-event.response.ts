@@ -0,0 +1,31 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Response to a Slack Events API call. For url_verification only
+ * `challenge` is set, as Slack expects it echoed back.
+ */
+export class SlackEventAckResponse {
+  @ApiPropertyOptional({
+    description: 'Echo of the url_verification challenge',
+    example: '3eZbrw1aBm2rZgRNFdxV2595E9CY3gmdALWMmHkvFXO7tYXAYM8P',
+  })
+  challenge?: string;
+
+  @ApiPropertyOptional({
+    description: 'Type of the received event',
+    example: 'channel_rename',
+  })
+  eventType?: string;
+
+  @ApiPropertyOptional({
+    description: 'Channel the event was about',
+    example: 'C01EXAMPLE001',
+  })
+  channelCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of tenant channel configurations updated',
+    example: 1,
+  })
+  updated?: number;
+}
@@ -2,5 +2,6 @@ export * from './channel-create.request';
 export * from './channel-detail.response';
 export * from './channel-list.response';
 export * from './channel-pagination.dto';
+export * from './channel-slack-event.response';
 export * from './channel-update.request';
 export * from './decorators';
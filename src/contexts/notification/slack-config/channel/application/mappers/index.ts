@@ -1 +1,2 @@
 export * from './snapshot.mapper';
+export * from './slack-channel-event.mapper';
@@ -0,0 +1,75 @@
+import type { SlackEvent } from 'src/shared/infrastructure/slack';
+import { UpsertChannelProps } from '../../domain/props';
+
+/**
+ * Channel change implied by a Slack event
+ */
+export interface SlackChannelChange {
+  /** Slack channel id, which is the channel code */
+  channelId: string;
+  props: Omit<UpsertChannelProps, 'code'>;
+}
+
+/** Events that mean the channel can no longer receive messages */
+const CHANNEL_GONE_EVENTS = new Set([
+  'channel_archive',
+  'group_archive',
+  'channel_deleted',
+  'group_deleted',
+]);
+
+/** Events that mean the bot itself left the channel */
+const BOT_LEFT_EVENTS = new Set(['channel_left', 'group_left']);
+
+/**
+ * Map a Slack event to the channel fields it changes
+ *
+ * Only drift Slack reports is synced: renames, topic and purpose changes,
+ * and the channel becoming unusable (archived, deleted, bot removed), which
+ * disables it. Re-enabling after an unarchive or re-invite stays a manual
+ * decision.
+ *
+ * @param event - Inner event of an event_callback
+ * @param botUserId - The workspace's bot user, to spot the bot leaving
+ * @returns The change, or null when the event does not affect channels
+ */
+export const mapSlackEventToChannelChange = (
+  event: SlackEvent,
+  botUserId?: string,
+): SlackChannelChange | null => {
+  const channelId =
+    typeof event.channel === 'string' ? event.channel : event.channel?.id;
+  if (!channelId) {
+    return null;
+  }
+
+  if (event.type === 'channel_rename' || event.type === 'group_rename') {
+    const name = typeof event.channel === 'object' && event.channel.name;
+    return name ? { channelId, props: { name } } : null;
+  }
+
+  if (CHANNEL_GONE_EVENTS.has(event.type) || BOT_LEFT_EVENTS.has(event.type)) {
+    return { channelId, props: { enabled: false } };
+  }
+
+  if (event.type === 'member_left_channel') {
+    return botUserId && event.user === botUserId
+      ? { channelId, props: { enabled: false } }
+      : null;
+  }
+
+  if (event.type === 'message') {
+    switch (event.subtype) {
+      case 'channel_topic':
+      case 'group_topic':
+        return { channelId, props: { topic: event.topic ?? '' } };
+      case 'channel_purpose':
+      case 'group_purpose':
+        return { channelId, props: { purpose: event.purpose ?? '' } };
+      default:
+        return null;
+    }
+  }
+
+  return null;
+};
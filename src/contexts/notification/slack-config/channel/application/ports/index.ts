@@ -1,5 +1,6 @@
 export * from './channel-query.port';
 export * from './channel-reader.port';
 export * from './channel-writer.port';
+export * from './slack-workspace-directory.port';
 export * from './workspace-reader.port';
 export * from './references';
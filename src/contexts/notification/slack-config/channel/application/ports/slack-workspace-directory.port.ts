@@ -0,0 +1,31 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { WorkspaceReference } from './references';
+
+export const SLACK_WORKSPACE_DIRECTORY_TOKEN =
+  'ISlackWorkspaceDirectory' as const;
+
+/**
+ * A tenant's configuration of a Slack workspace
+ */
+export interface SlackWorkspaceRegistration {
+  tenant: string;
+  workspace: WorkspaceReference;
+}
+
+/**
+ * Slack Workspace Directory Port
+ *
+ * Cross-tenant lookup for inbound Slack calls, which name the workspace
+ * (team id) but not the tenant. Only for callers that authenticate the call
+ * afterwards, e.g. with the returned signing secret.
+ */
+export interface ISlackWorkspaceDirectory {
+  /**
+   * Find every tenant that configured the given workspace
+   * @param workspaceCode - Slack team id, e.g. T01EXAMPLE123
+   * @returns Result containing the enabled registrations, possibly empty
+   */
+  findByWorkspaceCode(
+    workspaceCode: string,
+  ): Promise<Result<SlackWorkspaceRegistration[], DomainError>>;
+}
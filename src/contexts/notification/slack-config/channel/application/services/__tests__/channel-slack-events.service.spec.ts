@@ -0,0 +1,251 @@
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { SlackSignatureUtil } from 'src/shared/security';
+import {
+  IChannelReader,
+  ISlackWorkspaceDirectory,
+  SlackWorkspaceRegistration,
+} from '../../ports';
+import { IUpsertChannelUseCase } from '../../use-cases/contracts';
+import { ChannelSlackEventsService } from '../channel-slack-events.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const NOW_SECONDS = 1_760_000_000;
+const clock: Clock = {
+  now: () => new Date(NOW_SECONDS * 1000),
+  nowIso: () => new Date(NOW_SECONDS * 1000).toISOString(),
+  nowMs: () => NOW_SECONDS * 1000,
+};
+
+const WORKSPACE = 'T01EXAMPLE123';
+const CHANNEL = 'C0123ABCD45';
+const BOT_USER = 'U0BOT00001';
+
+const registration = (
+  tenant: string,
+  signingSecret: string,
+): SlackWorkspaceRegistration => ({
+  tenant,
+  workspace: {
+    code: WORKSPACE,
+    name: 'Acme',
+    signingSecret,
+    botUserId: BOT_USER,
+    enabled: true,
+  },
+});
+
+const callback = (event: Record<string, unknown>) => ({
+  type: 'event_callback',
+  team_id: WORKSPACE,
+  event_id: 'Ev0123ABCD',
+  event,
+});
+
+describe('ChannelSlackEventsService', () => {
+  let registrations: SlackWorkspaceRegistration[];
+  let findById: jest.Mock;
+  let upsert: jest.Mock;
+  let service: ChannelSlackEventsService;
+
+  beforeEach(() => {
+    registrations = [registration('tenant-a', 'secret-a')];
+    findById = jest.fn().mockResolvedValue(
+      ok(
+        Option.some({
+          code: CHANNEL,
+          workspaceCode: WORKSPACE,
+          name: 'alerts',
+          topic: 'Paging',
+          enabled: true,
+        }),
+      ),
+    );
+    upsert = jest.fn().mockResolvedValue(ok({}));
+
+    service = new ChannelSlackEventsService(
+      {
+        findByWorkspaceCode: jest.fn(() => Promise.resolve(ok(registrations))),
+      } as unknown as ISlackWorkspaceDirectory,
+      { findById } as unknown as IChannelReader,
+      { execute: upsert } as unknown as IUpsertChannelUseCase,
+      clock,
+      createMockLogger(),
+    );
+  });
+
+  const receive = (body: unknown, signingSecret = 'secret-a') => {
+    const rawBody = JSON.stringify(body);
+    return service.receive({
+      rawBody,
+      body,
+      signature: SlackSignatureUtil.sign({
+        body: rawBody,
+        signingSecret,
+        timestamp: NOW_SECONDS,
+      }),
+      timestamp: String(NOW_SECONDS),
+    });
+  };
+
+  test('answers the url verification handshake', async () => {
+    await expect(
+      service.receive({
+        rawBody: '',
+        body: { type: 'url_verification', challenge: 'ch4ll3nge' },
+      }),
+    ).resolves.toEqual({ ok: true, value: { challenge: 'ch4ll3nge' } });
+  });
+
+  test('acknowledges envelopes it does not handle and rejects garbage', async () => {
+    await expect(receive({ type: 'app_rate_limited' })).resolves.toEqual({
+      ok: true,
+      value: { eventType: 'app_rate_limited', updated: 0 },
+    });
+
+    const garbage = await receive({ event: {} });
+    expect(!garbage.ok && garbage.error.code).toBe(
+      'CHANNEL.INVALID_SLACK_EVENT',
+    );
+  });
+
+  test('rejects an event for a workspace no tenant configured', async () => {
+    registrations = [];
+
+    const result = await receive(
+      callback({ type: 'channel_archive', channel: CHANNEL }),
+    );
+
+    expect(!result.ok && result.error.code).toBe(
+      'CHANNEL.SLACK_EVENT_WORKSPACE_UNKNOWN',
+    );
+  });
+
+  test('rejects an event no tenant signing secret verifies', async () => {
+    const result = await receive(
+      callback({ type: 'channel_archive', channel: CHANNEL }),
+      'secret-x',
+    );
+
+    expect(!result.ok && result.error.code).toBe(
+      'CHANNEL.SLACK_EVENT_SIGNATURE_INVALID',
+    );
+    expect(findById).not.toHaveBeenCalled();
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  test('renames the configured channel as a system update', async () => {
+    const result = await receive(
+      callback({
+        type: 'channel_rename',
+        channel: { id: CHANNEL, name: 'alerts-prod' },
+      }),
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: { eventType: 'channel_rename', channelCode: CHANNEL, updated: 1 },
+    });
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user: expect.objectContaining({ tenant: 'tenant-a' }) as unknown,
+        code: CHANNEL,
+        props: { name: 'alerts-prod', code: CHANNEL },
+        authorizationReason: 'Channel synced from Slack Events API',
+      }),
+    );
+  });
+
+  test('applies the event only for tenants whose secret signed it', async () => {
+    registrations = [
+      registration('tenant-a', 'secret-a'),
+      registration('tenant-b', 'secret-b'),
+    ];
+
+    await receive(
+      callback({ type: 'channel_archive', channel: CHANNEL }),
+      'secret-b',
+    );
+
+    expect(upsert).toHaveBeenCalledTimes(1);
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user: expect.objectContaining({ tenant: 'tenant-b' }) as unknown,
+        props: { enabled: false, code: CHANNEL },
+      }),
+    );
+  });
+
+  test('changes nothing when Slack retries an event already applied', async () => {
+    const result = await receive(
+      callback({
+        type: 'message',
+        subtype: 'channel_topic',
+        channel: CHANNEL,
+        topic: 'Paging',
+      }),
+    );
+
+    expect(result.ok && result.value.updated).toBe(0);
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  test('leaves channels alone that the tenant did not configure here', async () => {
+    findById.mockResolvedValueOnce(ok(Option.none()));
+    await receive(callback({ type: 'channel_archive', channel: CHANNEL }));
+
+    findById.mockResolvedValueOnce(
+      ok(
+        Option.some({
+          code: CHANNEL,
+          workspaceCode: 'T09OTHER999',
+          enabled: true,
+        }),
+      ),
+    );
+    await receive(callback({ type: 'channel_archive', channel: CHANNEL }));
+
+    expect(findById).toHaveBeenCalledTimes(2);
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  describe('membership', () => {
+    test('disables the channel when the bot is removed from it', async () => {
+      await receive(
+        callback({
+          type: 'member_left_channel',
+          channel: CHANNEL,
+          user: BOT_USER,
+        }),
+      );
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ props: { enabled: false, code: CHANNEL } }),
+      );
+    });
+
+    test('ignores other members leaving', async () => {
+      const result = await receive(
+        callback({
+          type: 'member_left_channel',
+          channel: CHANNEL,
+          user: 'U0ADA00001',
+        }),
+      );
+
+      expect(result.ok && result.value.updated).toBe(0);
+      expect(findById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Channel Slack Events Service
+ *
+ * Entry point for the Slack Events API: keeps channel metadata in line with
+ * what Slack reports.
+ */
+
+// Framework imports
+import { Inject, Injectable } from '@nestjs/common';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import { Result, DomainError, err, ok } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import { createSystemUserToken, SlackSignatureUtil } from 'src/shared/security';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { Option } from 'src/shared/domain/types';
+import {
+  isSlackEventCallback,
+  isSlackUrlVerification,
+} from 'src/shared/infrastructure/slack';
+
+// Domain types and errors
+import { ChannelErrors } from '../../domain/errors';
+import { ChannelCode } from '../../domain/value-objects';
+import { ChannelSnapshotProps, UpsertChannelProps } from '../../domain/props';
+
+// Application layer
+import {
+  CHANNEL_READER_TOKEN,
+  IChannelReader,
+  ISlackWorkspaceDirectory,
+  SLACK_WORKSPACE_DIRECTORY_TOKEN,
+  SlackWorkspaceRegistration,
+} from '../ports';
+import { SlackEventAckResponse } from '../dtos';
+import { mapSlackEventToChannelChange } from '../mappers';
+import { IUpsertChannelUseCase } from '../use-cases/contracts';
+
+/**
+ * Application Service for Slack Events API callbacks
+ *
+ * An event names the Slack workspace, not the tenant, so every tenant that
+ * configured the workspace is a candidate; the event applies to those whose
+ * signing secret verifies the request. Changes go through the regular
+ * upsert use case, so they are recorded as ChannelUpdated like any edit.
+ *
+ * Only channels a tenant already configured are touched, and unchanged
+ * fields are skipped, which also makes Slack's retries harmless.
+ */
+@Injectable()
+export class ChannelSlackEventsService {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(SLACK_WORKSPACE_DIRECTORY_TOKEN)
+    private readonly workspaceDirectory: ISlackWorkspaceDirectory,
+    @Inject(CHANNEL_READER_TOKEN)
+    private readonly channelReader: IChannelReader,
+    private readonly upsertChannelUseCase: IUpsertChannelUseCase,
+    @Inject(CLOCK) private readonly clock: Clock,
+    @Inject(APP_LOGGER) moduleLogger: Logger,
+  ) {
+    this.logger = componentLogger(moduleLogger, 'ChannelSlackEventsService');
+  }
+
+  /**
+   * Answer the url_verification handshake or apply one event callback
+   *
+   * @param input.rawBody - Request body exactly as received, for the signature
+   * @param input.body - The parsed JSON body
+   */
+  async receive(input: {
+    rawBody: string;
+    body: unknown;
+    signature?: string;
+    timestamp?: string;
+  }): Promise<Result<SlackEventAckResponse, DomainError>> {
+    const correlationId = CorrelationUtil.generateForOperation(
+      'channel-slack-event',
+    );
+    const ctx = { method: 'receive', correlationId };
+
+    // The handshake names no workspace to verify against; echoing the
+    // challenge reveals nothing
+    if (isSlackUrlVerification(input.body)) {
+      return ok({ challenge: input.body.challenge });
+    }
+
+    if (!isSlackEventCallback(input.body)) {
+      const type =
+        input.body && typeof input.body === 'object'
+          ? (input.body as Record<string, unknown>).type
+          : undefined;
+      if (typeof type === 'string') {
+        Log.debug(this.logger, 'Ignoring Slack Events API callback', {
+          ...ctx,
+          type,
+        });
+        return ok({ eventType: type, updated: 0 });
+      }
+      return err({
+        ...ChannelErrors.INVALID_SLACK_EVENT,
+        context: { correlationId },
+      });
+    }
+    const { team_id: workspaceCode, event } = input.body;
+
+    const registrationsResult =
+      await this.workspaceDirectory.findByWorkspaceCode(workspaceCode);
+    if (!registrationsResult.ok) {
+      return err(registrationsResult.error);
+    }
+    if (registrationsResult.value.length === 0) {
+      return err({
+        ...ChannelErrors.SLACK_EVENT_WORKSPACE_UNKNOWN,
+        context: { correlationId, workspaceCode },
+      });
+    }
+
+    const verified = registrationsResult.value.filter((registration) =>
+      this.isSignedBy(registration, input),
+    );
+    if (verified.length === 0) {
+      Log.warn(this.logger, 'Rejected Slack event signature', {
+        ...ctx,
+        workspaceCode,
+        eventType: event.type,
+      });
+      return err({
+        ...ChannelErrors.SLACK_EVENT_SIGNATURE_INVALID,
+        context: { correlationId, workspaceCode },
+      });
+    }
+
+    let updated = 0;
+    let channelCode: string | undefined;
+
+    for (const registration of verified) {
+      const change = mapSlackEventToChannelChange(
+        event,
+        registration.workspace.botUserId,
+      );
+      if (!change) {
+        continue;
+      }
+      channelCode = change.channelId;
+
+      const applyResult = await this.applyChange(
+        registration,
+        change.channelId,
+        change.props,
+        correlationId,
+      );
+      if (!applyResult.ok) {
+        return err(applyResult.error);
+      }
+      if (applyResult.value) {
+        updated += 1;
+      }
+    }
+
+    Log.info(this.logger, 'Slack event handled', {
+      ...ctx,
+      workspaceCode,
+      eventType: event.type,
+      channelCode,
+      updated,
+    });
+
+    return ok({ eventType: event.type, channelCode, updated });
+  }
+
+  private isSignedBy(
+    registration: SlackWorkspaceRegistration,
+    input: { rawBody: string; signature?: string; timestamp?: string },
+  ): boolean {
+    const signingSecret = registration.workspace.signingSecret;
+    if (!signingSecret) {
+      return false;
+    }
+    return SlackSignatureUtil.verify({
+      body: input.rawBody,
+      signingSecret,
+      signature: input.signature,
+      timestamp: input.timestamp,
+      now: Math.floor(this.clock.nowMs() / 1000),
+    }).valid;
+  }
+
+  /**
+   * Update one tenant's channel with the fields that differ
+   * @returns Result containing whether the channel was updated
+   */
+  private async applyChange(
+    registration: SlackWorkspaceRegistration,
+    channelId: string,
+    props: Omit<UpsertChannelProps, 'code'>,
+    correlationId: string,
+  ): Promise<Result<boolean, DomainError>> {
+    const codeResult = ChannelCode.create(channelId);
+    if (!codeResult.ok) {
+      return ok(false);
+    }
+
+    const actor: ActorContext = {
+      tenant: registration.tenant,
+      userId: 'system',
+      tenant_userId: 'system',
+    };
+    const snapshotResult = await this.channelReader.findById(
+      actor,
+      codeResult.value,
+    );
+    if (!snapshotResult.ok) {
+      return err(snapshotResult.error);
+    }
+    if (
+      Option.isNone(snapshotResult.value) ||
+      snapshotResult.value.value.workspaceCode !== registration.workspace.code
+    ) {
+      return ok(false);
+    }
+
+    const changes = this.changedFields(snapshotResult.value.value, props);
+    if (Object.keys(changes).length === 0) {
+      return ok(false);
+    }
+
+    const upsertResult = await this.upsertChannelUseCase.execute({
+      user: createSystemUserToken(registration.tenant),
+      code: channelId,
+      props: { ...changes, code: channelId },
+      correlationId,
+      authorizationReason: 'Channel synced from Slack Events API',
+    });
+    if (!upsertResult.ok) {
+      return err(upsertResult.error);
+    }
+
+    return ok(true);
+  }
+
+  private changedFields(
+    snapshot: ChannelSnapshotProps,
+    props: Omit<UpsertChannelProps, 'code'>,
+  ): Omit<UpsertChannelProps, 'code'> {
+    return Object.fromEntries(
+      Object.entries(props).filter(
+        ([field, value]) =>
+          snapshot[field as keyof ChannelSnapshotProps] !== value,
+      ),
+    );
+  }
+}
@@ -1,4 +1,5 @@
 export * from './channel-authorization.adapter';
 export * from './channel-authorization.service';
 export * from './channel-foreign-key-validator.service';
+export * from './channel-slack-events.service';
 export * from './channel.service';
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ChannelModule } from './channel.module';
+import { SlackEventsController } from './interface/http/controllers';
+
+/**
+ * Channel Slack Events Module
+ *
+ * Holds the Slack Events API endpoint apart from ChannelModule so it can be
+ * mounted under /slack, outside the JWT-guarded channel routes.
+ */
+@Module({
+  imports: [ChannelModule],
+  controllers: [SlackEventsController],
+})
+export class ChannelSlackEventsModule {}
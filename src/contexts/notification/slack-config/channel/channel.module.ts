@@ -9,6 +9,7 @@ import {
   ChannelAuthorizationService,
   ChannelAuthorizationAdapter,
   ChannelForeignKeyValidatorService,
+  ChannelSlackEventsService,
 } from './application/services';
 import {
   IUpsertChannelUseCase,
@@ -25,6 +26,7 @@ import {
   ChannelReaderRepository,
   ChannelWriterRepository,
   WorkspaceReaderRepository,
+  SlackWorkspaceDirectoryRepository,
 } from './infrastructure/repositories';
 
 // Tokens for injection - imported directly from port files
@@ -33,6 +35,7 @@ import {
   CHANNEL_WRITER_TOKEN,
   WORKSPACE_REFERENCE_READER_TOKEN,
   CHANNEL_QUERY_TOKEN,
+  SLACK_WORKSPACE_DIRECTORY_TOKEN,
 } from './application/ports';
 @Module({
   imports: [
@@ -66,6 +69,13 @@ import {
     ChannelAuthorizationAdapter,
     ChannelForeignKeyValidatorService,
 
+    // Slack Events API: cross-tenant workspace lookup and entry service
+    {
+      provide: SLACK_WORKSPACE_DIRECTORY_TOKEN,
+      useClass: SlackWorkspaceDirectoryRepository,
+    },
+    ChannelSlackEventsService,
+
     // Use case implementations
     {
       provide: IUpsertChannelUseCase,
@@ -87,6 +97,8 @@ import {
     CHANNEL_QUERY_TOKEN,
     // Bounded Context Reader tokens
     WORKSPACE_REFERENCE_READER_TOKEN,
+    // Slack Events API, for the events endpoint
+    ChannelSlackEventsService,
   ],
 })
 export class ChannelModule {}
@@ -192,6 +192,13 @@ export const ChannelErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'CHANNEL.INVALID_PURPOSE_DATA', ChannelContext>,
+  INVALID_SLACK_EVENT: {
+    code: 'CHANNEL.INVALID_SLACK_EVENT',
+    title: 'Invalid Slack Event',
+    detail: 'The Slack Events API payload is missing or malformed.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'CHANNEL.INVALID_SLACK_EVENT', ChannelContext>,
   INVALID_SUBSCRIBED_EVENTS: {
     code: 'CHANNEL.INVALID_SUBSCRIBED_EVENTS',
     title: 'Value Required',
@@ -283,6 +290,20 @@ export const ChannelErrors = {
     category: 'domain',
     retryable: false,
   } as DomainError<'CHANNEL.PERMISSION_NOT_FOUND', ChannelContext>,
+  SLACK_EVENT_SIGNATURE_INVALID: {
+    code: 'CHANNEL.SLACK_EVENT_SIGNATURE_INVALID',
+    title: 'Invalid Slack Signature',
+    detail: 'The event was not signed with a known workspace signing secret.',
+    category: 'security',
+    retryable: false,
+  } as DomainError<'CHANNEL.SLACK_EVENT_SIGNATURE_INVALID', ChannelContext>,
+  SLACK_EVENT_WORKSPACE_UNKNOWN: {
+    code: 'CHANNEL.SLACK_EVENT_WORKSPACE_UNKNOWN',
+    title: 'Slack Workspace Unknown',
+    detail: 'The event comes from a Slack workspace that is not configured.',
+    category: 'domain',
+    retryable: false,
+  } as DomainError<'CHANNEL.SLACK_EVENT_WORKSPACE_UNKNOWN', ChannelContext>,
   TOO_FEW_SUBSCRIBED_EVENTS: {
     code: 'CHANNEL.TOO_FEW_SUBSCRIBED_EVENTS',
     title: 'Too Few Items',
@@ -5,3 +5,4 @@ export * from './channel-memory-query.repository';
 export * from './channel-memory-reader.repository';
 export * from './channel-memory-writer.repository';
 export * from './workspace-redis.repository';
+export * from './slack-workspace-directory-memory.repository';
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { handleRepositoryError } from 'src/shared/infrastructure/repositories';
+import { Result, DomainError, ok } from 'src/shared/errors';
+import {
+  ISlackWorkspaceDirectory,
+  SlackWorkspaceRegistration,
+} from '../../application/ports';
+import { workspaceStore } from '../../../workspace/infrastructure/stores/workspace.store';
+
+/**
+ * Slack Workspace Directory - In-Memory Implementation
+ *
+ * Scans the workspace projections shared with the workspace projector for
+ * every tenant holding the workspace code.
+ */
+@Injectable()
+export class SlackWorkspaceDirectoryRepository
+  implements ISlackWorkspaceDirectory
+{
+  findByWorkspaceCode(
+    workspaceCode: string,
+  ): Promise<Result<SlackWorkspaceRegistration[], DomainError>> {
+    try {
+      const registrations = workspaceStore
+        .getAll()
+        .map(([, projection]) => projection)
+        .filter(
+          (projection) =>
+            projection.code === workspaceCode &&
+            projection.enabled &&
+            !projection.deletedAt,
+        )
+        .map((projection) => ({
+          tenant: projection.tenant,
+          workspace: {
+            code: projection.code,
+            name: projection.name,
+            botToken: projection.botToken,
+            signingSecret: projection.signingSecret,
+            appId: projection.appId,
+            botUserId: projection.botUserId,
+            defaultChannelId: projection.defaultChannelId,
+            enabled: projection.enabled,
+          },
+        }));
+
+      return Promise.resolve(ok(registrations));
+    } catch (error) {
+      return Promise.resolve(handleRepositoryError(error));
+    }
+  }
+}
@@ -5,6 +5,7 @@ import { Module } from '@nestjs/common';
 import { RouterModule, Routes } from '@nestjs/core';
 import { ChannelModule } from '../../channel.module';
 import { ChannelProjectorModule } from '../../channel-projector.module';
+import { ChannelSlackEventsModule } from '../../channel-slack-events.module';
 /**
  * Channel Router Configuration
  *
@@ -31,6 +32,10 @@ const channelRoutes: Routes = [
             path: 'health',
             module: ChannelProjectorModule,
           },
+          {
+            path: 'slack',
+            module: ChannelSlackEventsModule,
+          },
         ],
       },
     ],
@@ -49,11 +54,13 @@ const channelRoutes: Routes = [
  * - /notification/slack-config/api/v1/channels/:code (GET, PUT)
  * - /notification/slack-config/health/projectors/channel (GET)
  * - /notification/slack-config/health/projectors/channel/metrics (GET)
+ * - /notification/slack-config/slack/events (POST, Slack-signed)
  */
 @Module({
   imports: [
     ChannelModule,
     ChannelProjectorModule,
+    ChannelSlackEventsModule,
     RouterModule.register(channelRoutes),
   ],
   exports: [ChannelModule, ChannelProjectorModule],
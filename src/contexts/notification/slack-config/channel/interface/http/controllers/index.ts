@@ -1,2 +1,3 @@
 export * from './channel-projector-health.controller';
 export * from './channel.controller';
+export * from './slack-events.controller';
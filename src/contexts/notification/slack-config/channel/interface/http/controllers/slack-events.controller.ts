@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Headers,
+  HttpStatus,
+  HttpCode,
+  Req,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiHeader,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { SLACK_SIGNATURE_HEADERS } from 'src/shared/security';
+import { Result, ResultInterceptor, DomainError } from 'src/shared/errors';
+import { ApiCommonErrors } from 'src/shared/interfaces/http';
+import { ChannelSlackEventsService } from '../../../application/services';
+import { SlackEventAckResponse } from '../../../application/dtos';
+
+/**
+ * Slack Events Controller
+ *
+ * Event request URL for the Slack app. Slack authenticates with the
+ * workspace signing secret instead of a JWT, so there is no auth guard here;
+ * the signature is checked in ChannelSlackEventsService.
+ */
+@Controller()
+@ApiTags('Slack Events')
+@UseInterceptors(ResultInterceptor)
+export class SlackEventsController {
+  constructor(
+    private readonly channelSlackEventsService: ChannelSlackEventsService,
+  ) {}
+
+  @Post('events')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Receive Slack Event',
+    description:
+      "Answers the url_verification handshake and receives event callbacks. Verifies X-Slack-Signature with the signing secret of each tenant that configured the workspace, then syncs channel renames, topic and purpose changes into those tenants' channels and disables channels that were archived, deleted or that the bot left. Events about unconfigured channels are acknowledged and ignored.",
+  })
+  @ApiBody({
+    description: 'Events API envelope (url_verification or event_callback)',
+    schema: { type: 'object' },
+  })
+  @ApiHeader({
+    name: SLACK_SIGNATURE_HEADERS.SIGNATURE,
+    description: 'v0 HMAC-SHA256 signature of the request',
+    required: true,
+  })
+  @ApiHeader({
+    name: SLACK_SIGNATURE_HEADERS.TIMESTAMP,
+    description: 'Unix time the request was signed at',
+    required: true,
+  })
+  @ApiOkResponse({
+    description: 'Challenge echoed, or event handled',
+    type: SlackEventAckResponse,
+  })
+  @ApiCommonErrors()
+  async receive(
+    @Req() req: RawBodyRequest<Request>,
+    @Body() body: unknown,
+    @Headers(SLACK_SIGNATURE_HEADERS.SIGNATURE) signature?: string,
+    @Headers(SLACK_SIGNATURE_HEADERS.TIMESTAMP) timestamp?: string,
+  ): Promise<Result<SlackEventAckResponse, DomainError>> {
+    return this.channelSlackEventsService.receive({
+      rawBody: req.rawBody?.toString('utf8') ?? '',
+      body,
+      signature,
+      timestamp,
+    });
+  }
+}
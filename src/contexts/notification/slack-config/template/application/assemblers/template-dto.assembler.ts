@@ -35,7 +35,10 @@ export class TemplateDtoAssembler {
     dto.contentBlocks = domainState.contentBlocks.toArray();
     dto.variables = domainState.variables?.toArray();
     dto.samplePayload = domainState.samplePayload?.value;
+    dto.variablesSchema = domainState.variablesSchema?.value;
     dto.enabled = domainState.enabled.value;
+    dto.publishedVersion = domainState.publishedVersion?.value;
+    dto.latestPublishedVersion = domainState.latestPublishedVersion?.value;
 
     return dto;
   }
@@ -59,6 +62,7 @@ export class TemplateDtoAssembler {
     dto.contentBlocks = domainState.contentBlocks.toArray();
     dto.variables = domainState.variables?.toArray();
     dto.samplePayload = domainState.samplePayload?.value;
+    dto.variablesSchema = domainState.variablesSchema?.value;
     dto.enabled = domainState.enabled.value;
 
     return dto;
@@ -28,11 +28,9 @@ export function ApiTemplateContentBlocks(options: PropOptions = {}) {
 
   return applyDecorators(
     ApiProperty({
-      description: `Slack Block Kit JSON structure defining the visual layout and interactive elements of the message. Supports rich formatting, buttons, and dynamic content replacement.`,
+      description: `Slack Block Kit JSON structure defining the visual layout and interactive elements of the message. Supports rich formatting, buttons, and dynamic content replacement. Each block is checked against Block Kit and Slack's limits when saved, and again once rendered.`,
       example: [
-        '{"type":"section',
-        'text":{"type":"mrkdwn',
-        'text":"*Payment Failed* Transaction {{transactionId}} failed"}}',
+        '{"type":"section","text":{"type":"mrkdwn","text":"*Payment Failed* Transaction {{transactionId}} failed"}}',
       ],
       type: [String],
       isArray: true,
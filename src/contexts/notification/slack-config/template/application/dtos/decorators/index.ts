@@ -3,7 +3,9 @@ export * from './content-blocks.decorator';
 export * from './description.decorator';
 export * from './enabled.decorator';
 export * from './name.decorator';
+export * from './published-version.decorator';
 export * from './sample-payload.decorator';
 export * from './template-list-pagination.decorator';
 export * from './variables.decorator';
+export * from './variables-schema.decorator';
 export * from './workspace-code.decorator';
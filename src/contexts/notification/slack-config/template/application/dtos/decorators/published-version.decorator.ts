@@ -0,0 +1,36 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, Min } from 'class-validator';
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+  description?: string;
+}
+
+/**
+ * Property decorator for a Template published version number
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiTemplatePublishedVersion(options: PropOptions = {}) {
+  const {
+    required = true,
+    description = `Immutable published version of the template. Requests pin the version that was published when they were created, so later edits do not change them.`,
+  } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description,
+      example: 3,
+      type: Number,
+      minimum: 1,
+      required,
+    }),
+    IsInt(),
+    Min(1),
+    required ? IsNotEmpty() : IsOptional(),
+  );
+}
@@ -0,0 +1,38 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsNotEmpty, IsObject } from 'class-validator';
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Template VariablesSchema
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiTemplateVariablesSchema(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description: `JSON Schema (draft-07) of the data requests pass to the template. The root must be an object. Requests whose data does not match are rejected when they are created. GET /{code}/variables-schema/generated suggests one from the sample payload.`,
+      example: {
+        type: 'object',
+        properties: {
+          transactionId: { type: 'string' },
+          amount: { type: 'number', minimum: 0 },
+          customerEmail: { type: 'string', format: 'email' },
+        },
+        required: ['transactionId', 'amount'],
+      },
+      type: 'object',
+      additionalProperties: true,
+    }),
+    IsObject(),
+    required ? IsNotEmpty() : IsOptional(),
+  );
+}
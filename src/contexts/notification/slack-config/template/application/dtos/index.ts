@@ -2,5 +2,11 @@ export * from './template-create.request';
 export * from './template-detail.response';
 export * from './template-list.response';
 export * from './template-pagination.dto';
+export * from './template-preview.request';
+export * from './template-preview.response';
+export * from './template-rollback.request';
 export * from './template-update.request';
+export * from './template-variables-schema.response';
+export * from './template-version.response';
+export * from './template-version-diff.response';
 export * from './decorators';
@@ -10,6 +10,7 @@ import {
   ApiTemplateName,
   ApiTemplateSamplePayload,
   ApiTemplateVariables,
+  ApiTemplateVariablesSchema,
   ApiTemplateWorkspaceCode,
 } from './decorators';
 
@@ -35,6 +36,9 @@ export class CreateTemplateRequest implements CreateTemplateProps {
   @ApiTemplateSamplePayload({ required: false })
   samplePayload?: Record<string, unknown>;
 
+  @ApiTemplateVariablesSchema({ required: false })
+  variablesSchema?: Record<string, unknown>;
+
   @ApiTemplateEnabled()
   enabled: boolean;
 }
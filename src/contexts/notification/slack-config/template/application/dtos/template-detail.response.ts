@@ -7,8 +7,10 @@ import {
   ApiTemplateDescription,
   ApiTemplateEnabled,
   ApiTemplateName,
+  ApiTemplatePublishedVersion,
   ApiTemplateSamplePayload,
   ApiTemplateVariables,
+  ApiTemplateVariablesSchema,
   ApiTemplateWorkspaceCode,
 } from './decorators';
 
@@ -34,6 +36,22 @@ export class DetailTemplateResponse {
   @ApiTemplateSamplePayload({ required: false })
   samplePayload?: Record<string, unknown>;
 
+  @ApiTemplateVariablesSchema({ required: false })
+  variablesSchema?: Record<string, unknown>;
+
   @ApiTemplateEnabled()
   enabled: boolean;
+
+  @ApiTemplatePublishedVersion({
+    required: false,
+    description:
+      'Published version that new requests use. Absent until the template is first published; requests then use the draft.',
+  })
+  publishedVersion?: number;
+
+  @ApiTemplatePublishedVersion({
+    required: false,
+    description: 'Highest published version number',
+  })
+  latestPublishedVersion?: number;
 }
@@ -9,6 +9,7 @@ import {
   ApiTemplateName,
   ApiTemplateSamplePayload,
   ApiTemplateVariables,
+  ApiTemplateVariablesSchema,
   ApiTemplateWorkspaceCode,
 } from './decorators';
 
@@ -34,6 +35,9 @@ export class ListTemplateResponse {
   @ApiTemplateSamplePayload({ required: false })
   samplePayload?: Record<string, unknown>;
 
+  @ApiTemplateVariablesSchema({ required: false })
+  variablesSchema?: Record<string, unknown>;
+
   @ApiTemplateEnabled()
   enabled: boolean;
 }
@@ -0,0 +1,6 @@
+import { ApiTemplateSamplePayload } from './decorators';
+
+export class PreviewTemplateRequest {
+  @ApiTemplateSamplePayload({ required: false })
+  payload?: Record<string, unknown>;
+}
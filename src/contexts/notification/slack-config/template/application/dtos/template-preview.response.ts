@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * A value of the rendered message that Slack would reject or truncate
+ */
+export class TemplatePreviewViolationResponse {
+  @ApiProperty({
+    description: 'Location in the rendered message',
+    example: 'blocks[2].text.text',
+  })
+  path: string;
+
+  @ApiPropertyOptional({
+    description: 'Limit Slack applies, for values that exceed one',
+    example: 3000,
+  })
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Count in the rendered message',
+    example: 3412,
+  })
+  actual?: number;
+
+  @ApiProperty({
+    example: 'Section text has 3412 characters, Slack allows 3000',
+  })
+  message: string;
+}
+
+export class TemplatePreviewResponse {
+  @ApiProperty({ example: 'payment_failure_alert' })
+  code: string;
+
+  @ApiProperty({
+    description: 'Payload the template was rendered with',
+    type: 'object',
+    additionalProperties: true,
+  })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Rendered Block Kit blocks; empty when rendering failed',
+    type: 'array',
+    items: { type: 'object', additionalProperties: true },
+  })
+  blocks: unknown[];
+
+  @ApiProperty({
+    description: 'Plain-text fallback of the rendered blocks',
+    example: 'Payment failed\n*Amount:* $99.99',
+  })
+  text: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the template could not be rendered',
+    example:
+      'render_error:block 1 at fields[1].text: Unknown filter "shout" in {{ x | shout }}',
+  })
+  error?: string;
+
+  @ApiProperty({
+    description: 'Required variables the payload lacks',
+    type: [String],
+    example: ['customerEmail'],
+  })
+  missingVariables: string[];
+
+  @ApiProperty({
+    description:
+      'Declared variables and payload fields the template never reads',
+    type: [String],
+    example: ['errorCode'],
+  })
+  unusedVariables: string[];
+
+  @ApiProperty({ type: [TemplatePreviewViolationResponse] })
+  violations: TemplatePreviewViolationResponse[];
+}
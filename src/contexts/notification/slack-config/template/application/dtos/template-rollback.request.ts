@@ -0,0 +1,8 @@
+import { ApiTemplatePublishedVersion } from './decorators';
+
+export class RollbackTemplateRequest {
+  @ApiTemplatePublishedVersion({
+    description: 'Published version that new requests should use again',
+  })
+  version: number;
+}
@@ -8,6 +8,7 @@ import {
   ApiTemplateName,
   ApiTemplateSamplePayload,
   ApiTemplateVariables,
+  ApiTemplateVariablesSchema,
   ApiTemplateWorkspaceCode,
 } from './decorators';
 
@@ -30,6 +31,9 @@ export class UpdateTemplateRequest {
   @ApiTemplateSamplePayload({ required: false })
   samplePayload?: Record<string, unknown>;
 
+  @ApiTemplateVariablesSchema({ required: false })
+  variablesSchema?: Record<string, unknown>;
+
   @ApiTemplateEnabled({ required: false })
   enabled?: boolean;
 }
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TemplateVariablesSchemaResponse {
+  @ApiProperty({ example: 'payment_failure_alert' })
+  code: string;
+
+  @ApiProperty({
+    description:
+      'JSON Schema inferred from the sample payload. Every field in the sample is required and no formats or bounds are set; review it before saving it as the variables schema.',
+    example: {
+      type: 'object',
+      properties: {
+        transactionId: { type: 'string' },
+        amount: { type: 'number' },
+      },
+      required: ['transactionId', 'amount'],
+    },
+    type: 'object',
+    additionalProperties: true,
+  })
+  variablesSchema: Record<string, unknown>;
+}
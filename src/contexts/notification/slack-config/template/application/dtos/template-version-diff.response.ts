@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Side of a version diff: a published version number or the draft
+ */
+export type TemplateVersionRef = number | 'draft';
+
+const VERSION_REF_SCHEMA = {
+  oneOf: [
+    { type: 'integer', minimum: 1 },
+    { type: 'string', enum: ['draft'] },
+  ],
+};
+
+/**
+ * One field that differs between two template versions
+ */
+export class TemplateFieldChangeResponse {
+  @ApiProperty({
+    description:
+      'Changed field. Content blocks are compared one by one, as contentBlocks[index].',
+    example: 'contentBlocks[1]',
+  })
+  field: string;
+
+  @ApiProperty({
+    description: 'How the field changed',
+    enum: ['added', 'removed', 'changed'],
+    example: 'changed',
+  })
+  change: 'added' | 'removed' | 'changed';
+
+  @ApiPropertyOptional({ description: 'Value in the from version' })
+  before?: unknown;
+
+  @ApiPropertyOptional({ description: 'Value in the to version' })
+  after?: unknown;
+}
+
+export class TemplateVersionDiffResponse {
+  @ApiProperty({ example: 'payment_failure_alert' })
+  code: string;
+
+  @ApiProperty({ ...VERSION_REF_SCHEMA, example: 2 })
+  from: TemplateVersionRef;
+
+  @ApiProperty({ ...VERSION_REF_SCHEMA, example: 'draft' })
+  to: TemplateVersionRef;
+
+  @ApiProperty({ type: [TemplateFieldChangeResponse] })
+  changes: TemplateFieldChangeResponse[];
+}
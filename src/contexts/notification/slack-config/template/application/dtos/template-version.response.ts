@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ApiTemplateCode,
+  ApiTemplateContentBlocks,
+  ApiTemplateDescription,
+  ApiTemplateEnabled,
+  ApiTemplateName,
+  ApiTemplatePublishedVersion,
+  ApiTemplateSamplePayload,
+  ApiTemplateVariables,
+  ApiTemplateVariablesSchema,
+  ApiTemplateWorkspaceCode,
+} from './decorators';
+
+/**
+ * Content of a template as it was published
+ */
+export class TemplateVersionResponse {
+  @ApiTemplateCode()
+  code: string;
+
+  @ApiTemplatePublishedVersion()
+  version: number;
+
+  @ApiTemplateWorkspaceCode()
+  workspaceCode: string;
+
+  @ApiTemplateName()
+  name: string;
+
+  @ApiTemplateDescription({ required: false })
+  description?: string;
+
+  @ApiTemplateContentBlocks()
+  contentBlocks: string[];
+
+  @ApiTemplateVariables({ required: false })
+  variables?: string[];
+
+  @ApiTemplateSamplePayload({ required: false })
+  samplePayload?: Record<string, unknown>;
+
+  @ApiTemplateVariablesSchema({ required: false })
+  variablesSchema?: Record<string, unknown>;
+
+  @ApiTemplateEnabled()
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'When the version was published',
+    example: '2025-03-01T15:30:00.000Z',
+  })
+  publishedAt: string;
+
+  @ApiProperty({
+    description: 'Whether new requests use this version',
+    example: true,
+  })
+  current: boolean;
+}
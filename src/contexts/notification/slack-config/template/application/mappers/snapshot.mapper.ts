@@ -23,6 +23,9 @@ export const mapTemplateSnapshotToDto = (
     contentBlocks: snapshot.contentBlocks,
     variables: snapshot.variables,
     samplePayload: snapshot.samplePayload,
+    variablesSchema: snapshot.variablesSchema,
     enabled: snapshot.enabled,
+    publishedVersion: snapshot.publishedVersion,
+    latestPublishedVersion: snapshot.latestPublishedVersion,
   };
 };
@@ -1,5 +1,6 @@
 export * from './template-query.port';
 export * from './template-reader.port';
+export * from './template-version-query.port';
 export * from './template-writer.port';
 export * from './workspace-reader.port';
 export * from './references';
@@ -0,0 +1,55 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { RepositoryOptions } from 'src/shared/infrastructure/repositories';
+import { ActorContext } from 'src/shared/application/context';
+import { Option } from 'src/shared/domain/types';
+import { TemplateVersionResponse } from '../dtos';
+
+/**
+ * Token for injecting ITemplateVersionQuery port implementation
+ */
+export const TEMPLATE_VERSION_QUERY_TOKEN = 'ITemplateVersionQuery' as const;
+
+/**
+ * Published version as stored by the projections. Whether it is the
+ * current version depends on the template, so callers decide `current`.
+ */
+export type PublishedTemplateVersion = Omit<TemplateVersionResponse, 'current'>;
+
+/**
+ * Template Version Query Port
+ *
+ * Reads the immutable versions written when a template is published.
+ *
+ * @domain Notification Context - Template Version Query Port
+ * @layer Application Ports
+ * @pattern Interface Segregation Principle
+ */
+export interface ITemplateVersionQuery {
+  /**
+   * Find all published versions of a template, oldest first
+   * @param actor - The actor context containing authentication and request metadata
+   * @param code - The unique identifier of the Template
+   * @param options - Optional repository options
+   * @returns A promise resolving to a Result containing the versions (empty when never published)
+   */
+  findVersions(
+    actor: ActorContext,
+    code: string,
+    options?: RepositoryOptions,
+  ): Promise<Result<PublishedTemplateVersion[], DomainError>>;
+
+  /**
+   * Find one published version of a template
+   * @param actor - The actor context containing authentication and request metadata
+   * @param code - The unique identifier of the Template
+   * @param version - The published version number
+   * @param options - Optional repository options
+   * @returns A promise resolving to a Result containing the version or none if it does not exist
+   */
+  findVersion(
+    actor: ActorContext,
+    code: string,
+    version: number,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<PublishedTemplateVersion>, DomainError>>;
+}
@@ -28,6 +28,11 @@ import {
   TemplatePageResponse,
   CreateTemplateRequest,
   UpdateTemplateRequest,
+  TemplateVersionResponse,
+  TemplateVersionDiffResponse,
+  TemplateVersionRef,
+  TemplatePreviewResponse,
+  TemplateVariablesSchemaResponse,
 } from '../dtos';
 
 // Application layer
@@ -39,6 +44,13 @@ import {
   IUpsertTemplateUseCase,
   IGetTemplateUseCase,
   IListTemplateUseCase,
+  IPublishTemplateUseCase,
+  IRollbackTemplateUseCase,
+  IListTemplateVersionsUseCase,
+  IGetTemplateVersionUseCase,
+  IDiffTemplateVersionsUseCase,
+  IPreviewTemplateUseCase,
+  IGenerateTemplateVariablesSchemaUseCase,
 } from '../use-cases/contracts';
 
 /**
@@ -53,6 +65,13 @@ export class TemplateApplicationService {
     private readonly upsertTemplateUseCase: IUpsertTemplateUseCase,
     private readonly getTemplateUseCase: IGetTemplateUseCase,
     private readonly listTemplateUseCase: IListTemplateUseCase,
+    private readonly publishTemplateUseCase: IPublishTemplateUseCase,
+    private readonly rollbackTemplateUseCase: IRollbackTemplateUseCase,
+    private readonly listTemplateVersionsUseCase: IListTemplateVersionsUseCase,
+    private readonly getTemplateVersionUseCase: IGetTemplateVersionUseCase,
+    private readonly diffTemplateVersionsUseCase: IDiffTemplateVersionsUseCase,
+    private readonly previewTemplateUseCase: IPreviewTemplateUseCase,
+    private readonly generateTemplateVariablesSchemaUseCase: IGenerateTemplateVariablesSchemaUseCase,
     @Inject(CLOCK) private readonly clock: Clock,
     @Inject(APP_LOGGER) moduleLogger: Logger,
   ) {
@@ -380,4 +399,293 @@ export class TemplateApplicationService {
       },
     });
   }
+
+  /**
+   * Publish the current draft of a template as its next version
+   */
+  async publishTemplate(
+    user: IUserToken,
+    code: string,
+  ): Promise<Result<DetailTemplateResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'update');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+    const validatedCode = codeValidation.value;
+
+    const authContext = this.createAuthContext(user, 'update');
+    const correlationId =
+      CorrelationUtil.generateForOperation('template-publish');
+
+    return this.authorizeThenExecute<DetailTemplateResponse>({
+      operation: 'update',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'template-publish',
+      doAuthorize: () =>
+        this.templateAuthorizationService.canUpdateTemplate(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.publishTemplateUseCase.execute({
+          user,
+          code: validatedCode,
+          correlationId,
+          authorizationReason: 'publish_template',
+        }),
+      logContext: { code: validatedCode, action: 'publish' },
+    });
+  }
+
+  /**
+   * Make an earlier published version current again
+   */
+  async rollbackTemplate(
+    user: IUserToken,
+    code: string,
+    version: number,
+  ): Promise<Result<DetailTemplateResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'update');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+    const validatedCode = codeValidation.value;
+
+    const authContext = this.createAuthContext(user, 'update');
+    const correlationId =
+      CorrelationUtil.generateForOperation('template-rollback');
+
+    return this.authorizeThenExecute<DetailTemplateResponse>({
+      operation: 'update',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'template-rollback',
+      doAuthorize: () =>
+        this.templateAuthorizationService.canUpdateTemplate(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.rollbackTemplateUseCase.execute({
+          user,
+          code: validatedCode,
+          version,
+          correlationId,
+          authorizationReason: 'rollback_template',
+        }),
+      logContext: { code: validatedCode, action: 'rollback', version },
+    });
+  }
+
+  /**
+   * List the published versions of a template with authorization
+   */
+  async listTemplateVersions(
+    user: IUserToken,
+    code: string,
+  ): Promise<Result<TemplateVersionResponse[], DomainError>> {
+    const codeValidation = this.validateCode(code, 'read');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+    const validatedCode = codeValidation.value;
+
+    const authContext = this.createAuthContext(user, 'read');
+    const correlationId = CorrelationUtil.generateForOperation(
+      'template-versions-list',
+    );
+
+    return this.authorizeThenExecute<TemplateVersionResponse[]>({
+      operation: 'read',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'template-versions-list',
+      doAuthorize: () =>
+        this.templateAuthorizationService.canReadTemplate(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.listTemplateVersionsUseCase.execute({
+          user,
+          code: validatedCode,
+          correlationId,
+        }),
+      logContext: { code: validatedCode },
+    });
+  }
+
+  /**
+   * Get one published version of a template with authorization
+   */
+  async getTemplateVersion(
+    user: IUserToken,
+    code: string,
+    version: number,
+  ): Promise<Result<TemplateVersionResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'read');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+    const validatedCode = codeValidation.value;
+
+    const authContext = this.createAuthContext(user, 'read');
+    const correlationId = CorrelationUtil.generateForOperation(
+      'template-version-read',
+    );
+
+    return this.authorizeThenExecute<TemplateVersionResponse>({
+      operation: 'read',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'template-version-read',
+      doAuthorize: () =>
+        this.templateAuthorizationService.canReadTemplate(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.getTemplateVersionUseCase.execute({
+          user,
+          code: validatedCode,
+          version,
+          correlationId,
+        }),
+      logContext: { code: validatedCode, version },
+    });
+  }
+
+  /**
+   * Compare two versions of a template, either of which may be the draft
+   */
+  async diffTemplateVersions(
+    user: IUserToken,
+    code: string,
+    from: TemplateVersionRef,
+    to: TemplateVersionRef,
+  ): Promise<Result<TemplateVersionDiffResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'read');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+    const validatedCode = codeValidation.value;
+
+    const authContext = this.createAuthContext(user, 'read');
+    const correlationId = CorrelationUtil.generateForOperation(
+      'template-version-diff',
+    );
+
+    return this.authorizeThenExecute<TemplateVersionDiffResponse>({
+      operation: 'read',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'template-version-diff',
+      doAuthorize: () =>
+        this.templateAuthorizationService.canReadTemplate(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.diffTemplateVersionsUseCase.execute({
+          user,
+          code: validatedCode,
+          from,
+          to,
+          correlationId,
+        }),
+      logContext: { code: validatedCode, from, to },
+    });
+  }
+
+  /**
+   * Render the draft of a template against its sample payload or the given one
+   */
+  async previewTemplate(
+    user: IUserToken,
+    code: string,
+    payload?: Record<string, unknown>,
+  ): Promise<Result<TemplatePreviewResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'read');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+    const validatedCode = codeValidation.value;
+
+    const authContext = this.createAuthContext(user, 'read');
+    const correlationId =
+      CorrelationUtil.generateForOperation('template-preview');
+
+    return this.authorizeThenExecute<TemplatePreviewResponse>({
+      operation: 'read',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'template-preview',
+      doAuthorize: () =>
+        this.templateAuthorizationService.canReadTemplate(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.previewTemplateUseCase.execute({
+          user,
+          code: validatedCode,
+          payload,
+          correlationId,
+        }),
+      logContext: { code: validatedCode },
+    });
+  }
+
+  /**
+   * Suggest a variables schema from the sample payload of a template
+   */
+  async generateVariablesSchema(
+    user: IUserToken,
+    code: string,
+  ): Promise<Result<TemplateVariablesSchemaResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'read');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+    const validatedCode = codeValidation.value;
+
+    const authContext = this.createAuthContext(user, 'read');
+    const correlationId = CorrelationUtil.generateForOperation(
+      'template-variables-schema',
+    );
+
+    return this.authorizeThenExecute<TemplateVariablesSchemaResponse>({
+      operation: 'read',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'template-variables-schema',
+      doAuthorize: () =>
+        this.templateAuthorizationService.canReadTemplate(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.generateTemplateVariablesSchemaUseCase.execute({
+          user,
+          code: validatedCode,
+          correlationId,
+        }),
+      logContext: { code: validatedCode },
+    });
+  }
 }
@@ -0,0 +1,172 @@
+import { ok } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+import { Logger } from 'src/shared/logging';
+import { createSystemUserToken } from 'src/shared/security';
+import { DetailTemplateResponse } from '../../dtos';
+import {
+  ITemplateQuery,
+  ITemplateVersionQuery,
+  PublishedTemplateVersion,
+} from '../../ports';
+import { DiffTemplateVersionsUseCase } from '../diff-template-versions.use-case';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const section = (text: string) =>
+  JSON.stringify({ type: 'section', text: { type: 'mrkdwn', text } });
+
+const version1: PublishedTemplateVersion = {
+  code: 'order_shipped',
+  version: 1,
+  workspaceCode: 'acme',
+  name: 'Order shipped',
+  contentBlocks: [section('Order {{orderId}} shipped')],
+  variables: ['orderId'],
+  enabled: true,
+  publishedAt: '2026-03-01T10:00:00.000Z',
+};
+
+const draft: DetailTemplateResponse = {
+  code: 'order_shipped',
+  workspaceCode: 'acme',
+  name: 'Order on its way',
+  contentBlocks: [
+    section('Order {{orderId}} shipped'),
+    section('Track it at {{trackingUrl}}'),
+  ],
+  variables: ['orderId', 'trackingUrl'],
+  description: 'Sent when the carrier picks up the parcel',
+  enabled: true,
+  publishedVersion: 1,
+  latestPublishedVersion: 1,
+};
+
+describe('DiffTemplateVersionsUseCase', () => {
+  const user = createSystemUserToken('tenant-a');
+  let findById: jest.Mock;
+  let findVersion: jest.Mock;
+  let useCase: DiffTemplateVersionsUseCase;
+
+  beforeEach(() => {
+    findById = jest.fn().mockResolvedValue(ok(Option.some(draft)));
+    findVersion = jest.fn().mockResolvedValue(ok(Option.some(version1)));
+    useCase = new DiffTemplateVersionsUseCase(
+      { findById } as unknown as ITemplateQuery,
+      { findVersion } as unknown as ITemplateVersionQuery,
+      createMockLogger(),
+    );
+  });
+
+  test('lists changed fields and content blocks one by one', async () => {
+    const result = await useCase.execute({
+      user,
+      code: 'order_shipped',
+      from: 1,
+      to: 'draft',
+      correlationId: 'corr-1',
+    });
+
+    expect(result.ok && result.value).toEqual({
+      code: 'order_shipped',
+      from: 1,
+      to: 'draft',
+      changes: [
+        {
+          field: 'name',
+          change: 'changed',
+          before: 'Order shipped',
+          after: 'Order on its way',
+        },
+        {
+          field: 'description',
+          change: 'added',
+          after: 'Sent when the carrier picks up the parcel',
+        },
+        {
+          field: 'variables',
+          change: 'changed',
+          before: ['orderId'],
+          after: ['orderId', 'trackingUrl'],
+        },
+        {
+          field: 'contentBlocks[1]',
+          change: 'added',
+          after: section('Track it at {{trackingUrl}}'),
+        },
+      ],
+    });
+    expect(findVersion).toHaveBeenCalledWith(
+      expect.objectContaining({ tenant: 'tenant-a' }),
+      'order_shipped',
+      1,
+      expect.anything(),
+    );
+  });
+
+  test('reports removals when diffing the other way', async () => {
+    const result = await useCase.execute({
+      user,
+      code: 'order_shipped',
+      from: 'draft',
+      to: 1,
+      correlationId: 'corr-1',
+    });
+
+    expect(result.ok && result.value.changes).toContainEqual({
+      field: 'contentBlocks[1]',
+      change: 'removed',
+      before: section('Track it at {{trackingUrl}}'),
+    });
+  });
+
+  test('has no changes between a version and itself', async () => {
+    const result = await useCase.execute({
+      user,
+      code: 'order_shipped',
+      from: 1,
+      to: 1,
+      correlationId: 'corr-1',
+    });
+
+    expect(result.ok && result.value.changes).toEqual([]);
+  });
+
+  test('fails for a version that does not exist', async () => {
+    findVersion.mockResolvedValue(ok(Option.none()));
+
+    const result = await useCase.execute({
+      user,
+      code: 'order_shipped',
+      from: 7,
+      to: 'draft',
+      correlationId: 'corr-1',
+    });
+
+    expect(!result.ok && result.error.code).toBe(
+      'TEMPLATE.TEMPLATE_VERSION_NOT_FOUND',
+    );
+  });
+
+  test('rejects a version that is not a positive integer', async () => {
+    const result = await useCase.execute({
+      user,
+      code: 'order_shipped',
+      from: 0,
+      to: 'draft',
+      correlationId: 'corr-1',
+    });
+
+    expect(!result.ok && result.error.code).toBe(
+      'TEMPLATE.INVALID_PUBLISHED_VERSION',
+    );
+    expect(findById).not.toHaveBeenCalled();
+  });
+});
@@ -15,6 +15,11 @@ import type {
   DetailTemplateResponse,
   TemplatePageResponse,
   ListTemplateFilterRequest,
+  TemplateVersionResponse,
+  TemplateVersionDiffResponse,
+  TemplateVersionRef,
+  TemplatePreviewResponse,
+  TemplateVariablesSchemaResponse,
 } from '../dtos';
 
 export abstract class IUpsertTemplateUseCase {
@@ -41,3 +46,66 @@ export abstract class IListTemplateUseCase {
     correlationId: string;
   }): Promise<Result<TemplatePageResponse, DomainError>>;
 }
+
+export abstract class IPublishTemplateUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    code: string;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailTemplateResponse, DomainError>>;
+}
+
+export abstract class IRollbackTemplateUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    code: string;
+    version: number;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailTemplateResponse, DomainError>>;
+}
+
+export abstract class IListTemplateVersionsUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    code: string;
+    correlationId: string;
+  }): Promise<Result<TemplateVersionResponse[], DomainError>>;
+}
+
+export abstract class IGetTemplateVersionUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    code: string;
+    version: number;
+    correlationId: string;
+  }): Promise<Result<TemplateVersionResponse, DomainError>>;
+}
+
+export abstract class IDiffTemplateVersionsUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    code: string;
+    from: TemplateVersionRef;
+    to: TemplateVersionRef;
+    correlationId: string;
+  }): Promise<Result<TemplateVersionDiffResponse, DomainError>>;
+}
+
+export abstract class IPreviewTemplateUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    code: string;
+    payload?: Record<string, unknown>;
+    correlationId: string;
+  }): Promise<Result<TemplatePreviewResponse, DomainError>>;
+}
+
+export abstract class IGenerateTemplateVariablesSchemaUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    code: string;
+    correlationId: string;
+  }): Promise<Result<TemplateVariablesSchemaResponse, DomainError>>;
+}
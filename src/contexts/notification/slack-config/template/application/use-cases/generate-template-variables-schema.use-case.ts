@@ -0,0 +1,97 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import {
+  Result,
+  ok,
+  err,
+  DomainError,
+  isOk,
+  withContext,
+} from 'src/shared/errors';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { RepositoryOptions } from 'src/shared/infrastructure/repositories/repository.types';
+import { inferJsonSchema } from 'src/shared/infrastructure/validation';
+import { Option } from 'src/shared/domain/types';
+import { ActorContextUtil } from 'src/shared/utilities/actor-context.util';
+import { IUserToken } from 'src/shared/security';
+
+// Application layer
+import { ITemplateQuery, TEMPLATE_QUERY_TOKEN } from '../ports';
+import { TemplateVariablesSchemaResponse } from '../dtos';
+import { IGenerateTemplateVariablesSchemaUseCase } from './contracts';
+import { TemplateErrors } from '../../domain/errors';
+
+/**
+ * Generate Template Variables Schema Use Case
+ *
+ * Suggests a variables schema from the sample payload of the draft. The
+ * template is not changed; saving the schema is a separate update.
+ * Authorization is handled at the service layer.
+ */
+@Injectable()
+export class GenerateTemplateVariablesSchemaUseCase
+  implements IGenerateTemplateVariablesSchemaUseCase
+{
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(TEMPLATE_QUERY_TOKEN)
+    private readonly query: ITemplateQuery,
+    @Inject(APP_LOGGER) moduleLogger: Logger,
+  ) {
+    this.logger = componentLogger(
+      moduleLogger,
+      'GenerateTemplateVariablesSchemaUseCase',
+    );
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    code: string;
+    correlationId: string;
+  }): Promise<Result<TemplateVariablesSchemaResponse, DomainError>> {
+    const { user, code, correlationId } = params;
+    const errorContext = {
+      correlationId,
+      userId: user.sub,
+      operation: 'generate_template_variables_schema',
+      code,
+    };
+
+    const repositoryOptions: RepositoryOptions = {
+      correlationId,
+      requestId: user.sub,
+    };
+
+    const actorResult = ActorContextUtil.fromUserTokenSafe(user);
+    if (!isOk(actorResult)) {
+      return err(withContext(actorResult.error, errorContext));
+    }
+
+    const templateResult = await this.query.findById(
+      actorResult.value,
+      code,
+      repositoryOptions,
+    );
+    if (!isOk(templateResult)) {
+      return err(withContext(templateResult.error, errorContext));
+    }
+    if (Option.isNone(templateResult.value)) {
+      return err(withContext(TemplateErrors.TEMPLATE_NOT_FOUND, errorContext));
+    }
+
+    const { samplePayload } = templateResult.value.value;
+    if (!samplePayload || Object.keys(samplePayload).length === 0) {
+      return err(
+        withContext(TemplateErrors.INVALID_SAMPLE_PAYLOAD, {
+          ...errorContext,
+          reason: 'A sample payload is needed to generate a variables schema',
+        }),
+      );
+    }
+
+    return ok({ code, variablesSchema: { ...inferJsonSchema(samplePayload) } });
+  }
+}
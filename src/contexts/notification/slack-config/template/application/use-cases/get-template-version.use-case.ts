@@ -0,0 +1,113 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import {
+  Result,
+  ok,
+  err,
+  DomainError,
+  isOk,
+  withContext,
+} from 'src/shared/errors';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { RepositoryOptions } from 'src/shared/infrastructure/repositories/repository.types';
+import { Option } from 'src/shared/domain/types';
+import { ActorContextUtil } from 'src/shared/utilities/actor-context.util';
+import { IUserToken } from 'src/shared/security';
+
+// Application layer
+import {
+  ITemplateQuery,
+  ITemplateVersionQuery,
+  TEMPLATE_QUERY_TOKEN,
+  TEMPLATE_VERSION_QUERY_TOKEN,
+} from '../ports';
+import { TemplateVersionResponse } from '../dtos';
+import { IGetTemplateVersionUseCase } from './contracts';
+import { TemplateErrors } from '../../domain/errors';
+
+/**
+ * Get Template Version Use Case
+ *
+ * Returns the content of one published version of a template.
+ * Authorization is handled at the service layer.
+ */
+@Injectable()
+export class GetTemplateVersionUseCase implements IGetTemplateVersionUseCase {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(TEMPLATE_QUERY_TOKEN)
+    private readonly query: ITemplateQuery,
+    @Inject(TEMPLATE_VERSION_QUERY_TOKEN)
+    private readonly versionQuery: ITemplateVersionQuery,
+    @Inject(APP_LOGGER) moduleLogger: Logger,
+  ) {
+    this.logger = componentLogger(moduleLogger, 'GetTemplateVersionUseCase');
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    code: string;
+    version: number;
+    correlationId: string;
+  }): Promise<Result<TemplateVersionResponse, DomainError>> {
+    const { user, code, version, correlationId } = params;
+    const errorContext = {
+      correlationId,
+      userId: user.sub,
+      operation: 'get_template_version',
+      code,
+      version,
+    };
+
+    if (!Number.isInteger(version) || version < 1) {
+      return err(
+        withContext(TemplateErrors.INVALID_PUBLISHED_VERSION, errorContext),
+      );
+    }
+
+    const repositoryOptions: RepositoryOptions = {
+      correlationId,
+      requestId: user.sub,
+    };
+
+    const actorResult = ActorContextUtil.fromUserTokenSafe(user);
+    if (!isOk(actorResult)) {
+      return err(withContext(actorResult.error, errorContext));
+    }
+
+    const templateResult = await this.query.findById(
+      actorResult.value,
+      code,
+      repositoryOptions,
+    );
+    if (!isOk(templateResult)) {
+      return err(withContext(templateResult.error, errorContext));
+    }
+    if (Option.isNone(templateResult.value)) {
+      return err(withContext(TemplateErrors.TEMPLATE_NOT_FOUND, errorContext));
+    }
+
+    const versionResult = await this.versionQuery.findVersion(
+      actorResult.value,
+      code,
+      version,
+      repositoryOptions,
+    );
+    if (!isOk(versionResult)) {
+      return err(withContext(versionResult.error, errorContext));
+    }
+    if (Option.isNone(versionResult.value)) {
+      return err(
+        withContext(TemplateErrors.TEMPLATE_VERSION_NOT_FOUND, errorContext),
+      );
+    }
+
+    return ok({
+      ...versionResult.value.value,
+      current: version === templateResult.value.value.publishedVersion,
+    });
+  }
+}
@@ -1,4 +1,11 @@
 export * from './contracts';
+export * from './diff-template-versions.use-case';
+export * from './generate-template-variables-schema.use-case';
 export * from './get-template.use-case';
+export * from './get-template-version.use-case';
 export * from './list-template.use-case';
+export * from './list-template-versions.use-case';
+export * from './preview-template.use-case';
+export * from './publish-template.use-case';
+export * from './rollback-template.use-case';
 export * from './upsert-template.use-case';
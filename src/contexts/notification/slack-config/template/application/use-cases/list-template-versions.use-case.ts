@@ -0,0 +1,104 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import {
+  Result,
+  ok,
+  err,
+  DomainError,
+  isOk,
+  withContext,
+} from 'src/shared/errors';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { RepositoryOptions } from 'src/shared/infrastructure/repositories/repository.types';
+import { Option } from 'src/shared/domain/types';
+import { ActorContextUtil } from 'src/shared/utilities/actor-context.util';
+import { IUserToken } from 'src/shared/security';
+
+// Application layer
+import {
+  ITemplateQuery,
+  ITemplateVersionQuery,
+  TEMPLATE_QUERY_TOKEN,
+  TEMPLATE_VERSION_QUERY_TOKEN,
+} from '../ports';
+import { TemplateVersionResponse } from '../dtos';
+import { IListTemplateVersionsUseCase } from './contracts';
+import { TemplateErrors } from '../../domain/errors';
+
+/**
+ * List Template Versions Use Case
+ *
+ * Lists the published versions of a template, oldest first, marking the
+ * one new requests use. Authorization is handled at the service layer.
+ */
+@Injectable()
+export class ListTemplateVersionsUseCase
+  implements IListTemplateVersionsUseCase
+{
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(TEMPLATE_QUERY_TOKEN)
+    private readonly query: ITemplateQuery,
+    @Inject(TEMPLATE_VERSION_QUERY_TOKEN)
+    private readonly versionQuery: ITemplateVersionQuery,
+    @Inject(APP_LOGGER) moduleLogger: Logger,
+  ) {
+    this.logger = componentLogger(moduleLogger, 'ListTemplateVersionsUseCase');
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    code: string;
+    correlationId: string;
+  }): Promise<Result<TemplateVersionResponse[], DomainError>> {
+    const { user, code, correlationId } = params;
+    const errorContext = {
+      correlationId,
+      userId: user.sub,
+      operation: 'list_template_versions',
+      code,
+    };
+
+    const repositoryOptions: RepositoryOptions = {
+      correlationId,
+      requestId: user.sub,
+    };
+
+    const actorResult = ActorContextUtil.fromUserTokenSafe(user);
+    if (!isOk(actorResult)) {
+      return err(withContext(actorResult.error, errorContext));
+    }
+
+    const templateResult = await this.query.findById(
+      actorResult.value,
+      code,
+      repositoryOptions,
+    );
+    if (!isOk(templateResult)) {
+      return err(withContext(templateResult.error, errorContext));
+    }
+    if (Option.isNone(templateResult.value)) {
+      return err(withContext(TemplateErrors.TEMPLATE_NOT_FOUND, errorContext));
+    }
+    const { publishedVersion } = templateResult.value.value;
+
+    const versionsResult = await this.versionQuery.findVersions(
+      actorResult.value,
+      code,
+      repositoryOptions,
+    );
+    if (!isOk(versionsResult)) {
+      return err(withContext(versionsResult.error, errorContext));
+    }
+
+    return ok(
+      versionsResult.value.map((version) => ({
+        ...version,
+        current: version.version === publishedVersion,
+      })),
+    );
+  }
+}
@@ -0,0 +1,121 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import {
+  Result,
+  ok,
+  err,
+  DomainError,
+  isOk,
+  withContext,
+} from 'src/shared/errors';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { RepositoryOptions } from 'src/shared/infrastructure/repositories/repository.types';
+import { TemplateRendererService } from 'src/shared/infrastructure';
+import {
+  SLACK_MESSAGE_LIMITS,
+  findBlockKitErrors,
+  toSlackFallbackText,
+} from 'src/shared/infrastructure/slack';
+import { Option } from 'src/shared/domain/types';
+import { ActorContextUtil } from 'src/shared/utilities/actor-context.util';
+import { IUserToken } from 'src/shared/security';
+
+// Application layer
+import { ITemplateQuery, TEMPLATE_QUERY_TOKEN } from '../ports';
+import { TemplatePreviewResponse } from '../dtos';
+import { IPreviewTemplateUseCase } from './contracts';
+import { TemplateErrors } from '../../domain/errors';
+
+/**
+ * Preview Template Use Case
+ *
+ * Renders the draft of a template against its sample payload, or a
+ * supplied one, and reports what would go wrong when sending it, down to
+ * the Block Kit values Slack would reject. Nothing is queued or sent.
+ * Authorization is handled at the service layer.
+ */
+@Injectable()
+export class PreviewTemplateUseCase implements IPreviewTemplateUseCase {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(TEMPLATE_QUERY_TOKEN)
+    private readonly query: ITemplateQuery,
+    private readonly templateRenderer: TemplateRendererService,
+    @Inject(APP_LOGGER) moduleLogger: Logger,
+  ) {
+    this.logger = componentLogger(moduleLogger, 'PreviewTemplateUseCase');
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    code: string;
+    payload?: Record<string, unknown>;
+    correlationId: string;
+  }): Promise<Result<TemplatePreviewResponse, DomainError>> {
+    const { user, code, correlationId } = params;
+    const errorContext = {
+      correlationId,
+      userId: user.sub,
+      operation: 'preview_template',
+      code,
+    };
+
+    const repositoryOptions: RepositoryOptions = {
+      correlationId,
+      requestId: user.sub,
+    };
+
+    const actorResult = ActorContextUtil.fromUserTokenSafe(user);
+    if (!isOk(actorResult)) {
+      return err(withContext(actorResult.error, errorContext));
+    }
+
+    const templateResult = await this.query.findById(
+      actorResult.value,
+      code,
+      repositoryOptions,
+    );
+    if (!isOk(templateResult)) {
+      return err(withContext(templateResult.error, errorContext));
+    }
+    if (Option.isNone(templateResult.value)) {
+      return err(withContext(TemplateErrors.TEMPLATE_NOT_FOUND, errorContext));
+    }
+    const template = templateResult.value.value;
+
+    const payload = params.payload ?? template.samplePayload ?? {};
+    const preview = this.templateRenderer.previewTemplate({
+      template,
+      variables: payload,
+    });
+
+    const blocks =
+      preview.render.ok && Array.isArray(preview.render.value)
+        ? preview.render.value
+        : [];
+    const text = toSlackFallbackText(blocks);
+    const violations = findBlockKitErrors(blocks);
+    if (text.length > SLACK_MESSAGE_LIMITS.messageText) {
+      violations.push({
+        path: 'text',
+        limit: SLACK_MESSAGE_LIMITS.messageText,
+        actual: text.length,
+        message: `Fallback text has ${text.length} characters, Slack truncates it at ${SLACK_MESSAGE_LIMITS.messageText}`,
+      });
+    }
+
+    return ok({
+      code,
+      payload,
+      blocks,
+      text,
+      error: preview.render.ok ? undefined : preview.render.error,
+      missingVariables: preview.missingVariables,
+      unusedVariables: preview.unusedVariables,
+      violations,
+    });
+  }
+}
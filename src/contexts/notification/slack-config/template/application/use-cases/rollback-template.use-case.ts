@@ -0,0 +1,207 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import {
+  UseCaseLoggingUtil,
+  UseCaseLoggingConfig,
+} from 'src/shared/application/utils/use-case-logging.util';
+import { IUserToken } from 'src/shared/security';
+import { Option } from 'src/shared/domain/types';
+import { EventMetadata } from 'src/shared/domain/events';
+
+// Service configuration
+import { SlackConfigServiceConstants } from '../../../service-constants';
+
+// Domain types and errors
+import { TemplateAggregate } from '../../domain/aggregates';
+import { TemplateEntity } from '../../domain/entities';
+import { TemplateCode } from '../../domain/value-objects';
+import { TemplateErrors } from '../../domain/errors';
+
+// Application layer
+import {
+  ITemplateReader,
+  ITemplateWriter,
+  TEMPLATE_READER_TOKEN,
+  TEMPLATE_WRITER_TOKEN,
+} from '../ports';
+import { DetailTemplateResponse } from '../dtos';
+import { TemplateDtoAssembler } from '../assemblers';
+import { IRollbackTemplateUseCase } from './contracts';
+
+/**
+ * Rollback Template Use Case
+ *
+ * Makes an earlier published version the one new requests use again.
+ * The draft and the list of published versions stay as they are.
+ */
+@Injectable()
+export class RollbackTemplateUseCase implements IRollbackTemplateUseCase {
+  private readonly logger: Logger;
+  private readonly loggingConfig: UseCaseLoggingConfig;
+
+  constructor(
+    @Inject(TEMPLATE_READER_TOKEN)
+    private readonly templateReader: ITemplateReader,
+    @Inject(TEMPLATE_WRITER_TOKEN)
+    private readonly templateWriter: ITemplateWriter,
+    @Inject(APP_LOGGER)
+    readonly moduleLogger: Logger,
+    @Inject(CLOCK)
+    private readonly clock: Clock,
+  ) {
+    this.loggingConfig = {
+      serviceName: SlackConfigServiceConstants.SERVICE_NAME,
+      component: 'RollbackTemplateUseCase',
+      domain: 'slack-config',
+      entityType: 'template',
+    };
+    this.logger = componentLogger(moduleLogger, this.loggingConfig.component);
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    code: string;
+    version: number;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailTemplateResponse, DomainError>> {
+    const operation = 'rollback_template';
+    const startTime = this.clock.nowMs();
+
+    const command = {
+      user: params.user,
+      code: params.code,
+      version: params.version,
+      correlationId: params.correlationId,
+      authorizationReason: params.authorizationReason,
+      securityContext: {
+        tenant: params.user.tenant,
+        userId: params.user.sub,
+        roles: params.user.roles,
+      },
+      timestamp: this.clock.now(),
+    };
+
+    const validation = UseCaseLoggingUtil.validateCommand(
+      this.logger,
+      command,
+      {},
+    );
+    if (!validation.ok) {
+      return err(validation.error);
+    }
+
+    const logContext = UseCaseLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      {
+        correlationId: command.correlationId,
+        user: command.user,
+        securityContext: command.securityContext,
+        timestamp: command.timestamp,
+      },
+      {
+        templateCode: command.code,
+        targetVersion: command.version,
+        operationRisk: UseCaseLoggingUtil.assessOperationRisk(operation),
+      },
+    );
+
+    const codeResult = TemplateCode.create(command.code);
+    if (!codeResult.ok) return err(codeResult.error);
+
+    const actor: ActorContext = {
+      tenant: command.user.tenant,
+      userId: command.user.sub,
+      tenant_userId: command.user.tenant_id || '',
+      username: command.user.email,
+      roles: command.user.roles,
+    };
+
+    const snapshotResult = await this.templateReader.findById(
+      actor,
+      codeResult.value,
+    );
+    if (!snapshotResult.ok) {
+      return err(snapshotResult.error);
+    }
+    if (Option.isNone(snapshotResult.value)) {
+      return err({
+        ...TemplateErrors.TEMPLATE_NOT_FOUND,
+        context: { code: command.code, operation },
+      });
+    }
+
+    const entityResult = TemplateEntity.fromSnapshot(
+      snapshotResult.value.value,
+    );
+    if (!entityResult.ok) {
+      return err(entityResult.error);
+    }
+
+    const eventMetadata: EventMetadata = {
+      correlationId: command.correlationId,
+      actor: {
+        ...actor,
+        sessionId: 'rollback-template-use-case',
+      },
+      service: 'notification-service',
+      timestampIso: this.clock.nowIso(),
+      eventVersion: '1.0.0',
+      schemaVersion: '2023.1',
+    };
+
+    const aggregate = TemplateAggregate.reconstitute(
+      entityResult.value,
+      this.clock,
+      eventMetadata,
+    );
+
+    const rollbackResult = aggregate.rollback(command.version);
+    if (!rollbackResult.ok) {
+      UseCaseLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        rollbackResult.error,
+        'MEDIUM',
+      );
+      return err(rollbackResult.error);
+    }
+
+    const saveResult = await this.templateWriter.save(actor, aggregate);
+    if (!saveResult.ok) {
+      UseCaseLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        saveResult.error,
+        'HIGH',
+      );
+      return err(saveResult.error);
+    }
+
+    const dto = TemplateDtoAssembler.toDetailResponse(
+      aggregate.toDomainState(),
+    );
+
+    UseCaseLoggingUtil.logOperationSuccess(this.logger, operation, logContext, {
+      executionTimeMs: this.clock.nowMs() - startTime,
+      aggregateVersion: aggregate.version,
+      eventCount: aggregate.uncommittedEvents?.length ?? 0,
+      businessData: {
+        publishedVersion: dto.publishedVersion,
+        rolledBack: (aggregate.uncommittedEvents?.length ?? 0) > 0,
+      },
+    });
+
+    return ok(dto);
+  }
+}
@@ -3,12 +3,21 @@
 
 // Framework imports
 import { Injectable, Inject } from '@nestjs/common';
-import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { Result, DomainError, ok, err, withContext } from 'src/shared/errors';
 import { ActorContext } from 'src/shared/application/context';
 
 // Shared utilities and infrastructure
 import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
 import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { AjvSchemaValidationService } from 'src/shared/infrastructure/validation';
+import {
+  isTemplatePlaceholder,
+  templateSectionItems,
+} from 'src/shared/infrastructure/templates';
+import {
+  SlackBlockKitError,
+  findBlockKitErrors,
+} from 'src/shared/infrastructure/slack';
 import { Option } from 'src/shared/domain/types';
 import { runUseCaseWithSecurity } from 'src/shared/application/utils';
 import { extractDefinedFields } from 'src/shared/utilities';
@@ -68,6 +77,7 @@ export class UpsertTemplateUseCase implements IUpsertTemplateUseCase {
     readonly moduleLogger: Logger,
     @Inject(CLOCK)
     private readonly clock: Clock,
+    private readonly schemaValidator: AjvSchemaValidationService,
   ) {
     this.loggingConfig = {
       serviceName: SlackConfigServiceConstants.SERVICE_NAME,
@@ -230,6 +240,18 @@ export class UpsertTemplateUseCase implements IUpsertTemplateUseCase {
 
       // Merge/update when existing, otherwise create with props
       runDomain: ({ existing, metadata, clock }) => {
+        // Request data is validated against this schema, so it must compile
+        const schemaR = this.validateVariablesSchema(
+          command.code,
+          rawProps?.variablesSchema,
+        );
+        if (!schemaR.ok) return schemaR;
+        const blocksR = this.validateContentBlocks(
+          command.code,
+          rawProps?.contentBlocks,
+        );
+        if (!blocksR.ok) return blocksR;
+
         if (existing) {
           // UPDATE path - use existing update logic
           return updateTemplateAggregateFromSnapshot(
@@ -283,4 +305,56 @@ export class UpsertTemplateUseCase implements IUpsertTemplateUseCase {
 
     return ok(dto);
   }
+
+  private validateVariablesSchema(
+    code: string,
+    schema: Record<string, unknown> | undefined,
+  ): Result<void, DomainError> {
+    if (schema === undefined) return ok(undefined);
+    const result = this.schemaValidator.validateTemplatePayloadSchema(schema);
+    if (result.isValid) return ok(undefined);
+    return err(
+      withContext(TemplateErrors.INVALID_VARIABLES_SCHEMA, {
+        code,
+        errors: result.errors,
+      }),
+    );
+  }
+
+  /**
+   * Check the Block Kit of content blocks before saving them. Tags and
+   * section objects are left to the check after rendering.
+   */
+  private validateContentBlocks(
+    code: string,
+    contentBlocks: string[] | undefined,
+  ): Result<void, DomainError> {
+    if (contentBlocks === undefined) return ok(undefined);
+    const errors: SlackBlockKitError[] = [];
+    const blocks: unknown[] = [];
+    contentBlocks.forEach((block, i) => {
+      try {
+        blocks.push(JSON.parse(block));
+      } catch (e) {
+        errors.push({
+          path: `contentBlocks[${i}]`,
+          message: `Not valid JSON: ${(e as Error).message}`,
+        });
+      }
+    });
+    if (errors.length === 0) {
+      const blockErrors = findBlockKitErrors(blocks, {
+        isPlaceholder: isTemplatePlaceholder,
+        expandItem: templateSectionItems,
+      });
+      errors.push(
+        ...blockErrors.map((e) => ({
+          ...e,
+          path: e.path.replace(/^blocks/, 'contentBlocks'),
+        })),
+      );
+    }
+    if (errors.length === 0) return ok(undefined);
+    return err(withContext(TemplateErrors.INVALID_BLOCK_KIT, { code, errors }));
+  }
 }
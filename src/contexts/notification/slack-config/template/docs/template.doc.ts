@@ -46,7 +46,11 @@ These templates can include placeholders (variables) for dynamic data, making th
 * Manage template metadata (e.g., name, description, version, and tenant).
 * Store variable definitions and validation rules.
 * Enable/disable templates per tenant for staged rollouts.
-* Emit events when templates are created, updated, or retired.
+* Publish the draft as immutable, numbered versions. Requests pin the version that is current when they are created, and rollback makes an earlier version current again.
+* Describe request data with a JSON Schema of the variables, generated from the sample payload as a starting point. Requests whose data does not match are rejected when they are created.
+* Preview the draft rendered against its sample payload or a supplied one, with missing or unused variables and Block Kit errors, without sending it.
+* Check content blocks against Block Kit and Slack's limits when they are saved, and again once rendered, reporting each error with its path.
+* Emit events when templates are created, updated, published, rolled back, or retired.
 
 ### **Why It Matters**
 
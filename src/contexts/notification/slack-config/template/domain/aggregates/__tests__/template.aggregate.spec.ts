@@ -0,0 +1,130 @@
+import { Clock } from 'src/shared/domain/clock';
+import { EventMetadata } from 'src/shared/domain/events';
+import { TemplateEntity } from '../../entities';
+import { TemplateAggregate } from '../template.aggregate';
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+};
+const metadata = { correlationId: 'corr-1' } as EventMetadata;
+
+function templateAt(versions?: {
+  publishedVersion: number;
+  latestPublishedVersion: number;
+}): TemplateAggregate {
+  const entity = TemplateEntity.fromSnapshot({
+    code: 'order_shipped',
+    workspaceCode: 'acme',
+    name: 'Order shipped',
+    description: 'Tells the customer their order left the warehouse',
+    contentBlocks: [
+      JSON.stringify({
+        type: 'section',
+        text: { type: 'mrkdwn', text: 'Order {{orderId}} shipped' },
+      }),
+    ],
+    variables: ['orderId'],
+    samplePayload: { orderId: 'A-1001' },
+    enabled: true,
+    ...versions,
+    createdAt: NOW,
+    updatedAt: NOW,
+    version: 4,
+  });
+  if (!entity.ok) throw new Error(entity.error.detail);
+  return TemplateAggregate.reconstitute(entity.value, clock, metadata);
+}
+
+describe('TemplateAggregate', () => {
+  describe('publish', () => {
+    test('numbers versions from 1', () => {
+      const aggregate = templateAt();
+
+      expect(aggregate.publish().ok).toBe(true);
+      expect(aggregate.publish().ok).toBe(true);
+
+      expect(aggregate.entity.publishedVersion?.value).toBe(2);
+      expect(aggregate.entity.latestPublishedVersion?.value).toBe(2);
+      expect(aggregate.uncommittedEvents.map((e) => e.type)).toEqual([
+        'NotificationSlackConfigTemplatePublished.v1',
+        'NotificationSlackConfigTemplatePublished.v1',
+      ]);
+    });
+
+    test('continues after the latest version when rolled back', () => {
+      const aggregate = templateAt({
+        publishedVersion: 1,
+        latestPublishedVersion: 3,
+      });
+
+      expect(aggregate.publish().ok).toBe(true);
+
+      expect(aggregate.entity.publishedVersion?.value).toBe(4);
+      expect(aggregate.entity.latestPublishedVersion?.value).toBe(4);
+    });
+
+    test('rejects a stale expected version', () => {
+      const result = templateAt().publish(3);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('TEMPLATE.CONCURRENCY_CONFLICT');
+      }
+    });
+  });
+
+  describe('rollback', () => {
+    test('points new requests at an earlier version', () => {
+      const aggregate = templateAt({
+        publishedVersion: 3,
+        latestPublishedVersion: 3,
+      });
+
+      expect(aggregate.rollback(1).ok).toBe(true);
+
+      expect(aggregate.entity.publishedVersion?.value).toBe(1);
+      expect(aggregate.entity.latestPublishedVersion?.value).toBe(3);
+      expect(aggregate.uncommittedEvents[0].data).toEqual(
+        expect.objectContaining({ publishedVersion: 1, rolledBackFrom: 3 }),
+      );
+    });
+
+    test('rejects a version that was never published', () => {
+      const aggregate = templateAt({
+        publishedVersion: 2,
+        latestPublishedVersion: 2,
+      });
+
+      const result = aggregate.rollback(3);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('TEMPLATE.TEMPLATE_VERSION_NOT_FOUND');
+      }
+      expect(aggregate.uncommittedEvents).toHaveLength(0);
+    });
+
+    test('does nothing for the version already in use', () => {
+      const aggregate = templateAt({
+        publishedVersion: 2,
+        latestPublishedVersion: 3,
+      });
+
+      expect(aggregate.rollback(2).ok).toBe(true);
+
+      expect(aggregate.entity.publishedVersion?.value).toBe(2);
+      expect(aggregate.uncommittedEvents).toHaveLength(0);
+    });
+
+    test('rejects a template that was never published', () => {
+      const result = templateAt().rollback(1);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('TEMPLATE.TEMPLATE_NOT_PUBLISHED');
+      }
+    });
+  });
+});
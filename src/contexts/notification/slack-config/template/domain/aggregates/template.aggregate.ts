@@ -20,8 +20,14 @@ import {
   initialVersion,
   createTemplateVersion,
   TemplateVersion,
+  createTemplatePublishedVersion,
 } from '../value-objects';
-import { TemplateCreatedEvent, TemplateUpdatedEvent } from '../events';
+import {
+  TemplateCreatedEvent,
+  TemplatePublishedEvent,
+  TemplateRolledBackEvent,
+  TemplateUpdatedEvent,
+} from '../events';
 import { TemplateErrors } from '../errors';
 import { TemplateDomainState } from '../state';
 
@@ -142,6 +148,7 @@ export class TemplateAggregate extends AggregateRootBase {
       contentBlocks: entityProps.contentBlocks.toArray(),
       variables: entityProps.variables?.toArray(),
       samplePayload: entityProps.samplePayload?.value,
+      variablesSchema: entityProps.variablesSchema?.value,
       enabled: entityProps.enabled.value,
     });
 
@@ -186,8 +193,10 @@ export class TemplateAggregate extends AggregateRootBase {
   protected when(event: DomainEvent): void {
     switch (event.type) {
       case 'NotificationSlackConfigTemplateCreated.v1':
-      case 'NotificationSlackConfigTemplateUpdated.v1': {
-        // Both events now have the same domain shape - simple merge
+      case 'NotificationSlackConfigTemplateUpdated.v1':
+      case 'NotificationSlackConfigTemplatePublished.v1':
+      case 'NotificationSlackConfigTemplateRolledBack.v1': {
+        // All four events carry the full domain shape - simple merge
         const d = event.data as {
           code: string;
           workspaceCode: string;
@@ -196,7 +205,10 @@ export class TemplateAggregate extends AggregateRootBase {
           contentBlocks: string[];
           variables?: string[];
           samplePayload?: Record<string, unknown>;
+          variablesSchema?: Record<string, unknown>;
           enabled: boolean;
+          publishedVersion?: number;
+          latestPublishedVersion?: number;
         };
 
         // For event replay, we need to reconstruct the full snapshot
@@ -211,7 +223,10 @@ export class TemplateAggregate extends AggregateRootBase {
           contentBlocks: d.contentBlocks,
           variables: d.variables,
           samplePayload: d.samplePayload,
+          variablesSchema: d.variablesSchema,
           enabled: d.enabled,
+          publishedVersion: d.publishedVersion,
+          latestPublishedVersion: d.latestPublishedVersion,
           createdAt: currentSnapshot.createdAt || event.occurredAt,
           updatedAt: event.occurredAt, // Always update the timestamp
           version: currentSnapshot.version + 1 || 1,
@@ -360,6 +375,16 @@ export class TemplateAggregate extends AggregateRootBase {
         return true;
       }
     }
+    if (validatedFields.variablesSchema !== undefined) {
+      if (
+        hasValueChanged(
+          this._entity.variablesSchema,
+          validatedFields.variablesSchema,
+        )
+      ) {
+        return true;
+      }
+    }
     if (validatedFields.enabled !== undefined) {
       if (hasValueChanged(this._entity.enabled, validatedFields.enabled)) {
         return true;
@@ -369,6 +394,45 @@ export class TemplateAggregate extends AggregateRootBase {
     return false;
   }
 
+  /**
+   * Optimistic concurrency check against the current entity version
+   */
+  private checkExpectedVersion(
+    expectedVersion?: number,
+  ): Result<void, DomainError> {
+    if (
+      expectedVersion != null &&
+      expectedVersion !== this._entity.version.value
+    ) {
+      return err({
+        ...TemplateErrors.CONCURRENCY_CONFLICT,
+        context: {
+          expected: expectedVersion,
+          actual: this._entity.version.value,
+          aggregateId: this._entity.code.value,
+        },
+      });
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * Draft fields shared by the full-shape template events
+   */
+  private currentEventPayload() {
+    return {
+      code: this._entity.code.value,
+      workspaceCode: this._entity.workspaceCode.value,
+      name: this._entity.name.value,
+      description: this._entity.description?.value,
+      contentBlocks: this._entity.contentBlocks.toArray(),
+      variables: this._entity.variables?.toArray(),
+      samplePayload: this._entity.samplePayload?.value,
+      variablesSchema: this._entity.variablesSchema?.value,
+      enabled: this._entity.enabled.value,
+    };
+  }
+
   // ======================
   // Business Operations (Event Publishing)
   // ======================
@@ -500,6 +564,16 @@ export class TemplateAggregate extends AggregateRootBase {
       currentEntity = entityResult.value;
     }
 
+    if (validatedFields.variablesSchema !== undefined) {
+      const entityResult = currentEntity.withVariablesSchema(
+        validatedFields.variablesSchema,
+        updatedAt,
+        nextVersion,
+      );
+      if (!entityResult.ok) return err(entityResult.error);
+      currentEntity = entityResult.value;
+    }
+
     if (validatedFields.enabled !== undefined) {
       const entityResult = currentEntity.withEnabled(
         validatedFields.enabled,
@@ -522,7 +596,10 @@ export class TemplateAggregate extends AggregateRootBase {
       contentBlocks: this._entity.contentBlocks.toArray(),
       variables: this._entity.variables?.toArray(),
       samplePayload: this._entity.samplePayload?.value,
+      variablesSchema: this._entity.variablesSchema?.value,
       enabled: this._entity.enabled.value,
+      publishedVersion: this._entity.publishedVersion?.value,
+      latestPublishedVersion: this._entity.latestPublishedVersion?.value,
     });
 
     // Apply as domain event with clean business data
@@ -541,6 +618,115 @@ export class TemplateAggregate extends AggregateRootBase {
     return ok(undefined);
   }
 
+  /**
+   * Publish the current draft as the next immutable version
+   *
+   * The new version becomes the one new requests pin. Earlier versions
+   * stay available for rollback and diffs.
+   *
+   * @param expectedVersion - Optional version for optimistic concurrency control
+   * @returns Result indicating success or failure
+   */
+  public publish(expectedVersion?: number): Result<void, DomainError> {
+    const versionCheck = this.checkExpectedVersion(expectedVersion);
+    if (!versionCheck.ok) return versionCheck;
+
+    const nextResult = createTemplatePublishedVersion(
+      (this._entity.latestPublishedVersion?.value ?? 0) + 1,
+    );
+    if (!nextResult.ok) return err(nextResult.error);
+    const next = nextResult.value.value;
+
+    const updatedAtResult = updatedAtNow(this.clock);
+    if (!updatedAtResult.ok) return err(updatedAtResult.error);
+
+    const publishedEvent = TemplatePublishedEvent.create({
+      ...this.currentEventPayload(),
+      publishedVersion: next,
+      latestPublishedVersion: next,
+    });
+
+    this.apply({
+      type: publishedEvent.eventType,
+      version: Number(publishedEvent.eventVersion),
+      occurredAt: updatedAtResult.value.value,
+      aggregateId: this._entity.code.value,
+      aggregateType: 'Template',
+      data: publishedEvent.payload,
+      metadata: this.eventMetadata,
+    });
+
+    return ok(undefined);
+  }
+
+  /**
+   * Point new requests back at an earlier published version
+   *
+   * The draft is left as is. Rolling back to the version already in use
+   * changes nothing.
+   *
+   * @param version - Published version to use from now on
+   * @param expectedVersion - Optional version for optimistic concurrency control
+   * @returns Result indicating success or failure
+   */
+  public rollback(
+    version: number,
+    expectedVersion?: number,
+  ): Result<void, DomainError> {
+    const versionCheck = this.checkExpectedVersion(expectedVersion);
+    if (!versionCheck.ok) return versionCheck;
+
+    const current = this._entity.publishedVersion?.value;
+    const latest = this._entity.latestPublishedVersion?.value;
+    if (current === undefined || latest === undefined) {
+      return err({
+        ...TemplateErrors.TEMPLATE_NOT_PUBLISHED,
+        context: { code: this._entity.code.value, operation: 'rollback' },
+      });
+    }
+
+    const targetResult = createTemplatePublishedVersion(version);
+    if (!targetResult.ok) return err(targetResult.error);
+    const target = targetResult.value.value;
+
+    if (target > latest) {
+      return err({
+        ...TemplateErrors.TEMPLATE_VERSION_NOT_FOUND,
+        context: {
+          code: this._entity.code.value,
+          version: target,
+          latestPublishedVersion: latest,
+        },
+      });
+    }
+
+    if (target === current) {
+      return ok(undefined);
+    }
+
+    const updatedAtResult = updatedAtNow(this.clock);
+    if (!updatedAtResult.ok) return err(updatedAtResult.error);
+
+    const rolledBackEvent = TemplateRolledBackEvent.create({
+      ...this.currentEventPayload(),
+      publishedVersion: target,
+      latestPublishedVersion: latest,
+      rolledBackFrom: current,
+    });
+
+    this.apply({
+      type: rolledBackEvent.eventType,
+      version: Number(rolledBackEvent.eventVersion),
+      occurredAt: updatedAtResult.value.value,
+      aggregateId: this._entity.code.value,
+      aggregateType: 'Template',
+      data: rolledBackEvent.payload,
+      metadata: this.eventMetadata,
+    });
+
+    return ok(undefined);
+  }
+
   /**
    * Delete the template entity (business operation with event publishing)
    *
@@ -15,8 +15,10 @@ import {
   TemplateDescription,
   TemplateEnabled,
   TemplateName,
+  TemplatePublishedVersion,
   TemplateSamplePayload,
   TemplateVariables,
+  TemplateVariablesSchema,
   TemplateWorkspaceCode,
 } from '../value-objects';
 
@@ -187,10 +189,31 @@ export class TemplateEntity extends EntityIdBase<
     if (!samplePayloadResult.ok) {
       return err(samplePayloadResult.error);
     }
+    const variablesSchemaResult =
+      snapshot.variablesSchema !== undefined
+        ? TemplateVariablesSchema.from(snapshot.variablesSchema)
+        : ok(undefined);
+    if (!variablesSchemaResult.ok) {
+      return err(variablesSchemaResult.error);
+    }
     const enabledResult = TemplateEnabled.from(snapshot.enabled);
     if (!enabledResult.ok) {
       return err(enabledResult.error);
     }
+    const publishedVersionResult =
+      snapshot.publishedVersion !== undefined
+        ? TemplatePublishedVersion.from(snapshot.publishedVersion)
+        : ok(undefined);
+    if (!publishedVersionResult.ok) {
+      return err(publishedVersionResult.error);
+    }
+    const latestPublishedVersionResult =
+      snapshot.latestPublishedVersion !== undefined
+        ? TemplatePublishedVersion.from(snapshot.latestPublishedVersion)
+        : ok(undefined);
+    if (!latestPublishedVersionResult.ok) {
+      return err(latestPublishedVersionResult.error);
+    }
     const createdAtResult = TemplateCreatedAt.from(snapshot.createdAt);
     if (!createdAtResult.ok) {
       return err(createdAtResult.error);
@@ -214,7 +237,10 @@ export class TemplateEntity extends EntityIdBase<
       contentBlocks: contentBlocksResult.value,
       variables: variablesResult.value,
       samplePayload: samplePayloadResult.value,
+      variablesSchema: variablesSchemaResult.value,
       enabled: enabledResult.value,
+      publishedVersion: publishedVersionResult.value,
+      latestPublishedVersion: latestPublishedVersionResult.value,
       createdAt: createdAtResult.value,
       updatedAt: updatedAtResult.value,
       version: versionResult.value,
@@ -284,10 +310,22 @@ export class TemplateEntity extends EntityIdBase<
     return this.props.samplePayload;
   }
 
+  public get variablesSchema(): TemplateVariablesSchema | undefined {
+    return this.props.variablesSchema;
+  }
+
   public get enabled(): TemplateEnabled {
     return this.props.enabled;
   }
 
+  public get publishedVersion(): TemplatePublishedVersion | undefined {
+    return this.props.publishedVersion;
+  }
+
+  public get latestPublishedVersion(): TemplatePublishedVersion | undefined {
+    return this.props.latestPublishedVersion;
+  }
+
   public get createdAt(): TemplateCreatedAt {
     return this.props.createdAt;
   }
@@ -394,6 +432,21 @@ export class TemplateEntity extends EntityIdBase<
     return this.createUpdatedEntity({ samplePayload }, updatedAt, version);
   }
 
+  /**
+   * Creates a new entity with updated variablesSchema (pure state transition)
+   *
+   * @param variablesSchema - New variables_schema value
+   * @param updatedAt - Optional timestamp (uses clock if not provided)
+   * @returns Result<TemplateEntity, DomainError>
+   */
+  public withVariablesSchema(
+    variablesSchema: TemplateVariablesSchema,
+    updatedAt?: Date,
+    version?: number,
+  ): Result<TemplateEntity, DomainError> {
+    return this.createUpdatedEntity({ variablesSchema }, updatedAt, version);
+  }
+
   /**
    * Creates a new entity with updated enabled (pure state transition)
    *
@@ -434,7 +487,10 @@ export class TemplateEntity extends EntityIdBase<
       contentBlocks: this.props.contentBlocks.toArray(),
       variables: this.props.variables?.toArray(),
       samplePayload: this.props.samplePayload?.value,
+      variablesSchema: this.props.variablesSchema?.value,
       enabled: this.props.enabled.value,
+      publishedVersion: this.props.publishedVersion?.value,
+      latestPublishedVersion: this.props.latestPublishedVersion?.value,
       createdAt: this.props.createdAt.value,
       updatedAt: this.props.updatedAt.value,
       version: this.props.version.value,
@@ -62,6 +62,14 @@ export const TemplateErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'TEMPLATE.DUPLICATE_VARIABLES', TemplateContext>,
+  INVALID_BLOCK_KIT: {
+    code: 'TEMPLATE.INVALID_BLOCK_KIT',
+    title: 'Invalid Block Kit',
+    detail:
+      'Content blocks contain values Slack would reject; see the errors for their paths.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'TEMPLATE.INVALID_BLOCK_KIT', TemplateContext>,
   INVALID_CODE: {
     code: 'TEMPLATE.INVALID_CODE',
     title: 'Value Required',
@@ -132,6 +140,13 @@ export const TemplateErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'TEMPLATE.INVALID_NAME_DATA', TemplateContext>,
+  INVALID_PUBLISHED_VERSION: {
+    code: 'TEMPLATE.INVALID_PUBLISHED_VERSION',
+    title: 'Invalid Published Version',
+    detail: 'Published version must be a whole number of at least 1.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'TEMPLATE.INVALID_PUBLISHED_VERSION', TemplateContext>,
   INVALID_SAMPLE_PAYLOAD: {
     code: 'TEMPLATE.INVALID_SAMPLE_PAYLOAD',
     title: 'Value Required',
@@ -167,6 +182,14 @@ export const TemplateErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'TEMPLATE.INVALID_VARIABLES_DATA', TemplateContext>,
+  INVALID_VARIABLES_SCHEMA: {
+    code: 'TEMPLATE.INVALID_VARIABLES_SCHEMA',
+    title: 'Invalid Variables Schema',
+    detail:
+      'Variables schema must be a JSON Schema describing an object of template variables.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'TEMPLATE.INVALID_VARIABLES_SCHEMA', TemplateContext>,
   INVALID_WORKSPACE_CODE: {
     code: 'TEMPLATE.INVALID_WORKSPACE_CODE',
     title: 'Value Required',
@@ -247,6 +270,13 @@ export const TemplateErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'TEMPLATE.TEMPLATE_NOT_FOUND', TemplateContext>,
+  TEMPLATE_NOT_PUBLISHED: {
+    code: 'TEMPLATE.TEMPLATE_NOT_PUBLISHED',
+    title: 'Not Published',
+    detail: 'Template has no published version',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'TEMPLATE.TEMPLATE_NOT_PUBLISHED', TemplateContext>,
   TEMPLATE_UPDATE_FACTORY_FAILED: {
     code: 'TEMPLATE.TEMPLATE_UPDATE_FACTORY_FAILED',
     title: 'Update Factory Failed',
@@ -264,6 +294,13 @@ export const TemplateErrors = {
     'TEMPLATE.TEMPLATE_UPDATE_RECONSTITUTE_FAILED',
     TemplateContext
   >,
+  TEMPLATE_VERSION_NOT_FOUND: {
+    code: 'TEMPLATE.TEMPLATE_VERSION_NOT_FOUND',
+    title: 'Version Not Found',
+    detail: 'Template version not found',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'TEMPLATE.TEMPLATE_VERSION_NOT_FOUND', TemplateContext>,
   TOO_FEW_CONTENT_BLOCKS: {
     code: 'TEMPLATE.TOO_FEW_CONTENT_BLOCKS',
     title: 'Too Few Items',
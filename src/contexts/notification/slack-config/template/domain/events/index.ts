@@ -1,3 +1,5 @@
 export * from './template-created.event';
 export * from './template-deleted.event';
+export * from './template-published.event';
+export * from './template-rolled-back.event';
 export * from './template-updated.event';
@@ -13,6 +13,7 @@ export interface TemplateCreatedEventPayload {
   contentBlocks: string[];
   variables?: string[];
   samplePayload?: Record<string, unknown>;
+  variablesSchema?: Record<string, unknown>;
   enabled: boolean;
 }
 
@@ -62,6 +63,10 @@ export class TemplateCreatedEvent {
     return this.payload.samplePayload;
   }
 
+  get variablesSchema(): Record<string, unknown> | undefined {
+    return this.payload.variablesSchema;
+  }
+
   get enabled(): boolean {
     return this.payload.enabled;
   }
@@ -0,0 +1,43 @@
+/**
+ * Template Published Event Payload
+ * Full template state, whose content becomes the immutable version
+ * publishedVersion
+ */
+export interface TemplatePublishedEventPayload {
+  code: string;
+  workspaceCode: string;
+  name: string;
+  description?: string;
+  contentBlocks: string[];
+  variables?: string[];
+  samplePayload?: Record<string, unknown>;
+  variablesSchema?: Record<string, unknown>;
+  enabled: boolean;
+  publishedVersion: number;
+  latestPublishedVersion: number;
+}
+
+/**
+ * Template Published Domain Event
+ *
+ * Emitted when the draft of a template is published as a new version.
+ * New requests pin this version; later edits only change the draft.
+ */
+export class TemplatePublishedEvent {
+  public readonly eventType = 'NotificationSlackConfigTemplatePublished.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: TemplatePublishedEventPayload) {}
+
+  static create(data: TemplatePublishedEventPayload): TemplatePublishedEvent {
+    return new TemplatePublishedEvent(data);
+  }
+
+  get code(): string {
+    return this.payload.code;
+  }
+
+  get publishedVersion(): number {
+    return this.payload.publishedVersion;
+  }
+}
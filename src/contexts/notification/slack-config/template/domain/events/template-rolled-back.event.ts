@@ -0,0 +1,48 @@
+/**
+ * Template Rolled Back Event Payload
+ * Full template state after publishedVersion was moved back to an
+ * earlier version
+ */
+export interface TemplateRolledBackEventPayload {
+  code: string;
+  workspaceCode: string;
+  name: string;
+  description?: string;
+  contentBlocks: string[];
+  variables?: string[];
+  samplePayload?: Record<string, unknown>;
+  variablesSchema?: Record<string, unknown>;
+  enabled: boolean;
+  publishedVersion: number;
+  latestPublishedVersion: number;
+  rolledBackFrom: number;
+}
+
+/**
+ * Template Rolled Back Domain Event
+ *
+ * Emitted when new requests are pointed back at an earlier published
+ * version. The draft and the stored versions are left unchanged.
+ */
+export class TemplateRolledBackEvent {
+  public readonly eventType = 'NotificationSlackConfigTemplateRolledBack.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: TemplateRolledBackEventPayload) {}
+
+  static create(data: TemplateRolledBackEventPayload): TemplateRolledBackEvent {
+    return new TemplateRolledBackEvent(data);
+  }
+
+  get code(): string {
+    return this.payload.code;
+  }
+
+  get publishedVersion(): number {
+    return this.payload.publishedVersion;
+  }
+
+  get rolledBackFrom(): number {
+    return this.payload.rolledBackFrom;
+  }
+}
@@ -14,7 +14,10 @@ export interface TemplateUpdatedEventPayload {
   contentBlocks: string[];
   variables?: string[];
   samplePayload?: Record<string, unknown>;
+  variablesSchema?: Record<string, unknown>;
   enabled: boolean;
+  publishedVersion?: number;
+  latestPublishedVersion?: number;
 }
 
 /**
@@ -62,6 +65,10 @@ export class TemplateUpdatedEvent {
     return this.payload.samplePayload;
   }
 
+  get variablesSchema(): Record<string, unknown> | undefined {
+    return this.payload.variablesSchema;
+  }
+
   get enabled(): boolean {
     return this.payload.enabled;
   }
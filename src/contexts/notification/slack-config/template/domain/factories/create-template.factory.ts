@@ -18,6 +18,7 @@ import {
   TemplateContentBlocks,
   TemplateVariables,
   TemplateSamplePayload,
+  TemplateVariablesSchema,
   TemplateEnabled,
 } from '../value-objects';
 
@@ -125,6 +126,22 @@ export function createTemplateAggregateFromProps(
     );
   }
 
+  const variablesSchemaResult =
+    props.variablesSchema !== undefined
+      ? TemplateVariablesSchema.from(props.variablesSchema)
+      : ok(undefined);
+  if (!variablesSchemaResult.ok) {
+    return err(
+      withContext(variablesSchemaResult.error, {
+        ...variablesSchemaResult.error.context,
+        correlationId: metadata.correlationId,
+        userId: metadata.userId,
+        operation: 'create_template',
+        variablesSchema: props.variablesSchema,
+      }),
+    );
+  }
+
   const enabledResult = TemplateEnabled.from(props.enabled);
   if (!enabledResult.ok) {
     return err(
@@ -162,6 +179,7 @@ export function createTemplateAggregateFromProps(
     contentBlocks: contentBlocksResult.value,
     variables: variablesResult.value,
     samplePayload: samplePayloadResult.value,
+    variablesSchema: variablesSchemaResult.value,
     enabled: enabledResult.value,
     createdAt: createdAtResult.value,
     updatedAt: updatedAtResult.value,
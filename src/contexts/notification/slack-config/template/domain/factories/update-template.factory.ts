@@ -15,6 +15,7 @@ import {
   TemplateContentBlocks,
   TemplateVariables,
   TemplateSamplePayload,
+  TemplateVariablesSchema,
   TemplateEnabled,
 } from '../value-objects';
 
@@ -162,6 +163,24 @@ export function updateTemplateAggregateFromSnapshot(
     validatedFields.samplePayload = samplePayloadResult.value;
   }
 
+  // Validate variablesSchema if provided
+  if (updateProps.variablesSchema !== undefined) {
+    const variablesSchemaResult = TemplateVariablesSchema.from(
+      updateProps.variablesSchema,
+    );
+    if (!variablesSchemaResult.ok) {
+      return err(
+        withContext(variablesSchemaResult.error, {
+          operation: 'update_template_variables_schema_validation',
+          correlationId: metadata.correlationId,
+          userId: metadata.actor?.userId,
+          providedVariablesSchema: updateProps.variablesSchema,
+        }),
+      );
+    }
+    validatedFields.variablesSchema = variablesSchemaResult.value;
+  }
+
   // Validate enabled if provided
   if (updateProps.enabled !== undefined) {
     const enabledResult = TemplateEnabled.from(updateProps.enabled);
@@ -7,4 +7,8 @@ export interface TemplateSnapshotProps extends TemplateProps {
   createdAt: Date;
   updatedAt: Date;
   version: number;
+  /** Published version that new requests use, if any was published */
+  publishedVersion?: number;
+  /** Highest published version number */
+  latestPublishedVersion?: number;
 }
@@ -9,5 +9,7 @@ export interface UpsertTemplateProps {
   contentBlocks?: string[];
   variables?: string[];
   samplePayload?: Record<string, unknown>;
+  /** JSON Schema that request data must match */
+  variablesSchema?: Record<string, unknown>;
   enabled?: boolean;
 }
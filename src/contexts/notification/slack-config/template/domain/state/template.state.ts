@@ -10,8 +10,10 @@ import {
   TemplateDescription,
   TemplateEnabled,
   TemplateName,
+  TemplatePublishedVersion,
   TemplateSamplePayload,
   TemplateVariables,
+  TemplateVariablesSchema,
   TemplateWorkspaceCode,
 } from '../value-objects';
 
@@ -36,7 +38,10 @@ export interface TemplateDomainState {
   contentBlocks: TemplateContentBlocks;
   variables?: TemplateVariables;
   samplePayload?: TemplateSamplePayload;
+  variablesSchema?: TemplateVariablesSchema;
   enabled: TemplateEnabled;
+  publishedVersion?: TemplatePublishedVersion;
+  latestPublishedVersion?: TemplatePublishedVersion;
   version: TemplateVersion;
   createdAt: TemplateCreatedAt;
   updatedAt: TemplateUpdatedAt;
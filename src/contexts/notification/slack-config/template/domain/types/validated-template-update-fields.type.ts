@@ -9,6 +9,7 @@ import {
   TemplateName,
   TemplateSamplePayload,
   TemplateVariables,
+  TemplateVariablesSchema,
   TemplateWorkspaceCode,
 } from '../value-objects';
 
@@ -20,5 +21,6 @@ export interface ValidatedTemplateUpdateFields {
   contentBlocks?: TemplateContentBlocks;
   variables?: TemplateVariables;
   samplePayload?: TemplateSamplePayload;
+  variablesSchema?: TemplateVariablesSchema;
   enabled?: TemplateEnabled;
 }
@@ -3,7 +3,9 @@ export * from './content-blocks.vo';
 export * from './description.vo';
 export * from './enabled.vo';
 export * from './name.vo';
+export * from './published-version.vo';
 export * from './sample-payload.vo';
 export * from './template-instance.vo';
 export * from './variables.vo';
+export * from './variables-schema.vo';
 export * from './workspace-code.vo';
@@ -0,0 +1,33 @@
+import {
+  IntegerVOInstance,
+  createIntegerVO,
+  createIntegerVOErrors,
+} from 'src/shared/domain/value-objects';
+import { TemplateErrors } from '../errors/template.errors';
+
+/**
+ * PublishedVersion Integer Value Object
+ * Number of an immutable published version of a template, starting at 1.
+ * Unrelated to the aggregate version, which counts every change.
+ */
+export const TemplatePublishedVersion = createIntegerVO({
+  name: 'PublishedVersion',
+  min: 1,
+  allowNegative: false,
+  allowZero: false,
+  required: true,
+
+  errors: createIntegerVOErrors(
+    TemplateErrors.INVALID_PUBLISHED_VERSION,
+    'PublishedVersion',
+  ),
+});
+
+/** Public instance type for PublishedVersion */
+export type TemplatePublishedVersion = IntegerVOInstance;
+
+// Convenience creators
+export const createTemplatePublishedVersion = (v: number) =>
+  TemplatePublishedVersion.create(v);
+export const templatePublishedVersionFrom = (v: unknown) =>
+  TemplatePublishedVersion.from(v);
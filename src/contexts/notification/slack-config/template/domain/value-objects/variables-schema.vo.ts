@@ -0,0 +1,37 @@
+import {
+  RecordVOInstance,
+  createRecordVO,
+  createRecordVOErrors,
+} from 'src/shared/domain/value-objects';
+import { TemplateErrors } from '../errors/template.errors';
+
+/**
+ * VariablesSchema Record Value Object
+ * JSON Schema of the data requests pass to the template. The root must
+ * describe an object; the schema itself is checked when it is saved.
+ */
+export const TemplateVariablesSchema = createRecordVO({
+  name: 'VariablesSchema',
+  refinements: [
+    {
+      name: 'objectRoot',
+      test: (value) => value.type === 'object',
+      createError: () => TemplateErrors.INVALID_VARIABLES_SCHEMA,
+    },
+  ],
+
+  errors: createRecordVOErrors(
+    TemplateErrors.INVALID_VARIABLES_SCHEMA,
+    'VariablesSchema',
+  ),
+});
+
+/** Public instance type for VariablesSchema */
+export type TemplateVariablesSchema = RecordVOInstance;
+
+// Convenience creators
+export const createTemplateVariablesSchema = (v: Record<string, unknown>) =>
+  TemplateVariablesSchema.create(v);
+
+export const templateVariablesSchemaFrom = (v: unknown) =>
+  TemplateVariablesSchema.from(v);
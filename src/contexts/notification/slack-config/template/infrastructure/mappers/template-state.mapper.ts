@@ -16,7 +16,9 @@ import {
   TemplateContentBlocks,
   TemplateVariables,
   TemplateSamplePayload,
+  TemplateVariablesSchema,
   TemplateEnabled,
+  TemplatePublishedVersion,
   TemplateCreatedAt,
   TemplateUpdatedAt,
   TemplateVersion,
@@ -82,10 +84,30 @@ export class TemplateStateMapper {
           TemplateSamplePayload.from(snapshot.samplePayload),
         )
       : undefined;
+    const variablesSchema = snapshot.variablesSchema
+      ? validateField(
+          'variablesSchema',
+          TemplateVariablesSchema.from(snapshot.variablesSchema),
+        )
+      : undefined;
     const enabled = validateField(
       'enabled',
       TemplateEnabled.from(snapshot.enabled),
     );
+    const publishedVersion =
+      snapshot.publishedVersion !== undefined
+        ? validateField(
+            'publishedVersion',
+            TemplatePublishedVersion.from(snapshot.publishedVersion),
+          )
+        : undefined;
+    const latestPublishedVersion =
+      snapshot.latestPublishedVersion !== undefined
+        ? validateField(
+            'latestPublishedVersion',
+            TemplatePublishedVersion.from(snapshot.latestPublishedVersion),
+          )
+        : undefined;
     const version = validateField(
       'version',
       TemplateVersion.from(snapshot.version),
@@ -127,7 +149,10 @@ export class TemplateStateMapper {
       contentBlocks: contentBlocks!,
       variables: variables || undefined,
       samplePayload: samplePayload || undefined,
+      variablesSchema: variablesSchema || undefined,
       enabled: enabled!,
+      publishedVersion: publishedVersion || undefined,
+      latestPublishedVersion: latestPublishedVersion || undefined,
       version: version!,
       createdAt: createdAt!,
       updatedAt: updatedAt!,
@@ -152,7 +177,10 @@ export class TemplateStateMapper {
       contentBlocks: domainState.contentBlocks.toArray(),
       variables: domainState.variables?.toArray(),
       samplePayload: domainState.samplePayload?.value,
+      variablesSchema: domainState.variablesSchema?.value,
       enabled: domainState.enabled.value,
+      publishedVersion: domainState.publishedVersion?.value,
+      latestPublishedVersion: domainState.latestPublishedVersion?.value,
       version: domainState.version.value,
       createdAt: domainState.createdAt.value,
       updatedAt: domainState.updatedAt.value,
@@ -398,7 +398,10 @@ export class TemplateProjector
     switch (event.type) {
       case 'NotificationSlackConfigTemplateCreated.v1':
         return this.handleTemplateCreated(queryRunner, event);
+      // Published versions are only kept by the memory and Redis projections
       case 'NotificationSlackConfigTemplateUpdated.v1':
+      case 'NotificationSlackConfigTemplatePublished.v1':
+      case 'NotificationSlackConfigTemplateRolledBack.v1':
         return this.handleTemplateUpdated(queryRunner, event);
       case 'NotificationSlackConfigTemplateDeleted.v1':
         return this.handleTemplateDeleted(queryRunner, event);
@@ -549,6 +552,10 @@ export class TemplateProjector
         projectorData.samplePayload,
         'samplePayload',
       );
+      const variablesSchema = safeParseJSON<Record<string, unknown>>(
+        projectorData.variablesSchema,
+        'variablesSchema',
+      );
 
       const now = this.clock.now();
 
@@ -556,6 +563,7 @@ export class TemplateProjector
       return {
         ...projectorData,
         samplePayload,
+        variablesSchema,
         tenant,
         version:
           typeof eventData.version === 'number'
@@ -38,6 +38,10 @@ import {
 import { TemplateProjectionKeys } from '../../template-projection-keys';
 import { DetailTemplateResponse } from '../../application/dtos';
 import { templateStore, TemplateProjection } from '../stores/template.store';
+import {
+  templateVersionKey,
+  templateVersionStore,
+} from '../stores/template-version.store';
 import { TemplateFieldValidatorUtil } from '../utilities/template-field-validator.util';
 /**
  * Template projector error catalog using shared error definitions
@@ -278,6 +282,7 @@ export class TemplateProjector
    */
   clear(): void {
     templateStore.clear();
+    templateVersionStore.clear();
     void this.checkpointStore.clear();
 
     // Clear deduplication window
@@ -554,6 +559,10 @@ export class TemplateProjector
       case 'NotificationSlackConfigTemplateCreated.v1':
         return this.handleTemplateCreated(params, event, eventTs);
       case 'NotificationSlackConfigTemplateUpdated.v1':
+      case 'NotificationSlackConfigTemplateRolledBack.v1':
+        return this.handleTemplateUpdated(params, event, eventTs);
+      case 'NotificationSlackConfigTemplatePublished.v1':
+        this.storePublishedVersion(params, eventTs);
         return this.handleTemplateUpdated(params, event, eventTs);
       case 'NotificationSlackConfigTemplateDeleted.v1':
         return this.handleTemplateDeleted(params, event, eventTs);
@@ -612,6 +621,37 @@ export class TemplateProjector
     };
   }
 
+  /**
+   * Keep the content of a published version; versions never change
+   */
+  private storePublishedVersion(
+    params: ExtractedTemplateParams,
+    timestamp: Date,
+  ): void {
+    if (params.publishedVersion === undefined) {
+      return;
+    }
+    templateVersionStore.set(
+      params.tenant,
+      templateVersionKey(params.code, params.publishedVersion),
+      {
+        code: params.code,
+        workspaceCode: params.workspaceCode,
+        name: params.name,
+        description: params.description,
+        contentBlocks: params.contentBlocks,
+        variables: params.variables,
+        samplePayload: params.samplePayload,
+        variablesSchema: params.variablesSchema,
+        enabled: params.enabled,
+        tenant: params.tenant,
+        version: params.publishedVersion,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      },
+    );
+  }
+
   /**
    * Handle TemplateDeleted event
    */
@@ -704,6 +744,10 @@ export class TemplateProjector
         templateSnapshot.samplePayload,
         'samplePayload',
       );
+      const variablesSchema = safeParseJSON<Record<string, unknown>>(
+        templateSnapshot.variablesSchema,
+        'variablesSchema',
+      );
 
       // Add projector-specific fields for in-memory storage
       return {
@@ -711,6 +755,7 @@ export class TemplateProjector
         contentBlocks,
         variables,
         samplePayload,
+        variablesSchema,
         tenant,
       };
     } catch (error) {
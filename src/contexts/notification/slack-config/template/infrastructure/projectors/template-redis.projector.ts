@@ -27,6 +27,7 @@ import {
 import { registerRedisScripts } from 'src/shared/infrastructure/projections/redis-scripts';
 import { CacheMetricsCollector } from 'src/shared/infrastructure/projections/cache-optimization';
 import { ProjectionOutcome } from 'src/shared/infrastructure/projections/event-pipeline-processor';
+import { RedisPipelineBuilder } from 'src/shared/infrastructure/projections/redis-pipeline-builder';
 import { APP_LOGGER, Log, Logger } from 'src/shared/logging';
 import { Clock, CLOCK } from 'src/shared/infrastructure/time';
 import { withContext } from 'src/shared/errors';
@@ -62,7 +63,10 @@ interface TemplateProjectionParams extends UnifiedProjectionParams {
   contentBlocks: string[];
   variables?: string[];
   samplePayload?: string;
+  variablesSchema?: string;
   enabled: boolean;
+  publishedVersion?: number;
+  latestPublishedVersion?: number;
   createdAt: Date;
   tenant: string;
   lastStreamRevision?: string | null;
@@ -288,6 +292,10 @@ export class TemplateProjector
         this.eventEncryptionFactory, // Pass encryption factory for SecretRef inspection
       );
 
+      if (event.type === 'NotificationSlackConfigTemplatePublished.v1') {
+        await this.storePublishedVersion(params);
+      }
+
       // ✅ Log observable outcomes for SLO monitoring
       this.logProjectionOutcome(outcome, event, tenant);
 
@@ -322,6 +330,42 @@ export class TemplateProjector
     }
   }
 
+  /**
+   * Keep the content of a published version in its own hash
+   *
+   * Versions never change, so replays rewrite the same fields. The hash
+   * has the template hash layout, with version set to the published number.
+   */
+  private async storePublishedVersion(
+    params: TemplateProjectionParams,
+  ): Promise<void> {
+    if (params.publishedVersion === undefined) {
+      return;
+    }
+    const fieldPairs = RedisPipelineBuilder.buildFieldPairs({
+      code: params.code,
+      workspaceCode: params.workspaceCode,
+      name: params.name,
+      description: params.description,
+      contentBlocks: params.contentBlocks,
+      variables: params.variables,
+      samplePayload: params.samplePayload,
+      variablesSchema: params.variablesSchema,
+      enabled: params.enabled,
+      version: params.publishedVersion,
+      createdAt: params.updatedAt,
+      updatedAt: params.updatedAt,
+    });
+    await this.redis.hset(
+      TemplateProjectionKeys.getRedisTemplateVersionKey(
+        params.tenant,
+        params.code,
+        params.publishedVersion,
+      ),
+      ...fieldPairs.flat(),
+    );
+  }
+
   /**
    * Log projection outcomes for SLO monitoring and incident analysis
    */
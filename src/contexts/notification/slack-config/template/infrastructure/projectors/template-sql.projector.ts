@@ -361,7 +361,10 @@ export class TemplateProjector
     switch (event.type) {
       case 'NotificationSlackConfigTemplateCreated.v1':
         return this.handleTemplateCreated(queryRunner, params);
+      // Published versions are only kept by the memory and Redis projections
       case 'NotificationSlackConfigTemplateUpdated.v1':
+      case 'NotificationSlackConfigTemplatePublished.v1':
+      case 'NotificationSlackConfigTemplateRolledBack.v1':
         return this.handleTemplateUpdated(queryRunner, params);
       case 'NotificationSlackConfigTemplateDeleted.v1':
         return this.handleTemplateDeleted(queryRunner, params);
@@ -484,11 +487,16 @@ export class TemplateProjector
         projectorData.samplePayload,
         'samplePayload',
       );
+      const variablesSchema = safeParseJSON<Record<string, unknown>>(
+        projectorData.variablesSchema,
+        'variablesSchema',
+      );
 
       // Add projector-specific fields for SQL storage
       return {
         ...projectorData,
         samplePayload,
+        variablesSchema,
         tenant,
         deletedAt: null, // Projector handles soft deletes
         lastStreamRevision: event.revision.toString(),
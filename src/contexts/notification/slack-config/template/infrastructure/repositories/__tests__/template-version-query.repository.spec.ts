@@ -0,0 +1,209 @@
+import { Redis } from 'ioredis';
+import { ActorContext } from 'src/shared/application/context';
+import { Option } from 'src/shared/domain/types';
+import { RedisPipelineBuilder } from 'src/shared/infrastructure/projections/redis-pipeline-builder';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import {
+  ITemplateVersionQuery,
+  PublishedTemplateVersion,
+} from '../../../application/ports';
+import { TemplateProjectionKeys } from '../../../template-projection-keys';
+import { templateStore } from '../../stores/template.store';
+import {
+  templateVersionKey,
+  templateVersionStore,
+} from '../../stores/template-version.store';
+import { TemplateVersionQueryRepository as MemoryVersionQuery } from '../template-memory-version-query.repository';
+import { TemplateVersionQueryRepository as RedisVersionQuery } from '../template-redis-version-query.repository';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+} as Clock;
+const actor: ActorContext = {
+  tenant: 'tenant-a',
+  userId: 'user-1',
+  tenant_userId: 'tenant-a_user-1',
+};
+
+const publishedAt = (version: number) =>
+  new Date(Date.UTC(2026, 2, version, 9)).toISOString();
+
+/** Version content as published; the draft has moved on since */
+const published = (version: number): PublishedTemplateVersion => ({
+  code: 'order_shipped',
+  version,
+  workspaceCode: 'acme',
+  name: `Order shipped v${version}`,
+  contentBlocks: [
+    JSON.stringify({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `v${version}: {{orderId}}` },
+    }),
+  ],
+  variables: ['orderId'],
+  samplePayload: { orderId: 'A-1001' },
+  enabled: true,
+  publishedAt: publishedAt(version),
+});
+
+/**
+ * Seed the in-memory stores the way the in-memory projector does
+ */
+function seedMemory(latestPublishedVersion: number, versions: number[]): void {
+  templateStore.set(actor.tenant, 'order_shipped', {
+    ...published(latestPublishedVersion),
+    name: 'Order shipped (draft)',
+    tenant: actor.tenant,
+    version: 12,
+    publishedVersion: latestPublishedVersion,
+    latestPublishedVersion,
+    createdAt: NOW,
+    updatedAt: NOW,
+    lastStreamRevision: '11',
+  });
+  for (const version of versions) {
+    const { publishedAt: at, ...content } = published(version);
+    templateVersionStore.set(
+      actor.tenant,
+      templateVersionKey('order_shipped', version),
+      {
+        ...content,
+        tenant: actor.tenant,
+        createdAt: new Date(at),
+        updatedAt: new Date(at),
+      },
+    );
+  }
+}
+
+/**
+ * Hashes laid out the way the Redis projector writes them
+ */
+function createRedis(latestPublishedVersion: number, versions: number[]) {
+  const hashes = new Map<string, Record<string, string>>();
+  hashes.set(
+    TemplateProjectionKeys.getRedisTemplateKey(actor.tenant, 'order_shipped'),
+    {
+      code: 'order_shipped',
+      latestPublishedVersion: String(latestPublishedVersion),
+    },
+  );
+  for (const version of versions) {
+    const { publishedAt: at, ...content } = published(version);
+    hashes.set(
+      TemplateProjectionKeys.getRedisTemplateVersionKey(
+        actor.tenant,
+        'order_shipped',
+        version,
+      ),
+      Object.fromEntries(
+        RedisPipelineBuilder.buildFieldPairs({
+          ...content,
+          createdAt: new Date(at),
+          updatedAt: new Date(at),
+        }),
+      ),
+    );
+  }
+
+  const hgetall = (key: string) => hashes.get(key) ?? {};
+  return {
+    hget: jest.fn((key: string, field: string) =>
+      Promise.resolve(hashes.get(key)?.[field] ?? null),
+    ),
+    hgetall: jest.fn((key: string) => Promise.resolve(hgetall(key))),
+    pipeline: jest.fn(() => {
+      const keys: string[] = [];
+      const pipeline = {
+        hgetall: (key: string) => {
+          keys.push(key);
+          return pipeline;
+        },
+        exec: () =>
+          Promise.resolve(keys.map((key) => [null, hgetall(key)] as const)),
+      };
+      return pipeline;
+    }),
+  } as unknown as Redis;
+}
+
+describe.each([
+  [
+    'in-memory',
+    (latest: number, versions: number[]): ITemplateVersionQuery => {
+      seedMemory(latest, versions);
+      return new MemoryVersionQuery(createMockLogger(), clock);
+    },
+  ],
+  [
+    'redis',
+    (latest: number, versions: number[]): ITemplateVersionQuery =>
+      new RedisVersionQuery(
+        createMockLogger(),
+        clock,
+        createRedis(latest, versions),
+      ),
+  ],
+])('TemplateVersionQueryRepository (%s)', (_name, create) => {
+  afterEach(() => {
+    templateStore.clear();
+    templateVersionStore.clear();
+  });
+
+  test('lists every published version, oldest first', async () => {
+    const repository = create(3, [1, 2, 3]);
+
+    const result = await repository.findVersions(actor, 'order_shipped');
+
+    expect(result.ok && result.value).toEqual([
+      published(1),
+      published(2),
+      published(3),
+    ]);
+  });
+
+  test('skips versions missing from the store', async () => {
+    const repository = create(3, [1, 3]);
+
+    const result = await repository.findVersions(actor, 'order_shipped');
+
+    expect(result.ok && result.value.map((v) => v.version)).toEqual([1, 3]);
+  });
+
+  test('has no versions before the first publish', async () => {
+    const repository = create(0, []);
+
+    const result = await repository.findVersions(actor, 'order_shipped');
+
+    expect(result.ok && result.value).toEqual([]);
+  });
+
+  test('finds one version as it was published', async () => {
+    const repository = create(2, [1, 2]);
+
+    const result = await repository.findVersion(actor, 'order_shipped', 1);
+
+    expect(result.ok && result.value).toEqual(Option.some(published(1)));
+  });
+
+  test('finds nothing for an unknown version', async () => {
+    const repository = create(2, [1, 2]);
+
+    const result = await repository.findVersion(actor, 'order_shipped', 5);
+
+    expect(result.ok && Option.isNone(result.value)).toBe(true);
+  });
+});
@@ -3,5 +3,6 @@
 
 export * from './template-memory-query.repository';
 export * from './template-memory-reader.repository';
+export * from './template-memory-version-query.repository';
 export * from './template-memory-writer.repository';
 export * from './workspace-redis.repository';
@@ -132,11 +132,16 @@ export class TemplateReaderRepository implements ITemplateReader {
         projectorData.samplePayload,
         'samplePayload',
       );
+      const variablesSchema = safeParseJSON<Record<string, unknown>>(
+        projectorData.variablesSchema,
+        'variablesSchema',
+      );
 
       // Convert projector data to snapshot props with proper type conversion
       const templateSnapshot: TemplateSnapshotProps = {
         ...projectorData,
         samplePayload,
+        variablesSchema,
       };
 
       return templateSnapshot;
@@ -42,7 +42,10 @@ interface TemplateReadModel {
   contentBlocks: string[];
   variables?: string[];
   samplePayload?: Record<string, unknown>;
+  variablesSchema?: Record<string, unknown>;
   enabled: boolean;
+  publishedVersion?: number;
+  latestPublishedVersion?: number;
   createdAt: Date;
   updatedAt: Date;
   version: number;
@@ -120,7 +123,10 @@ export class TemplateQueryRepository implements ITemplateQuery {
       contentBlocks: projection.contentBlocks,
       variables: projection.variables,
       samplePayload: projection.samplePayload,
+      variablesSchema: projection.variablesSchema,
       enabled: projection.enabled,
+      publishedVersion: projection.publishedVersion,
+      latestPublishedVersion: projection.latestPublishedVersion,
       createdAt: projection.createdAt || this.clock.now(),
       updatedAt: projection.updatedAt || this.clock.now(),
       version: projection.version || 1,
@@ -162,6 +168,7 @@ export class TemplateQueryRepository implements ITemplateQuery {
       contentBlocks: template.contentBlocks,
       variables: template.variables,
       samplePayload: template.samplePayload,
+      variablesSchema: template.variablesSchema,
       enabled: template.enabled,
     } as ListTemplateResponse;
   }
@@ -180,7 +187,10 @@ export class TemplateQueryRepository implements ITemplateQuery {
       contentBlocks: template.contentBlocks,
       variables: template.variables,
       samplePayload: template.samplePayload,
+      variablesSchema: template.variablesSchema,
       enabled: template.enabled,
+      publishedVersion: template.publishedVersion,
+      latestPublishedVersion: template.latestPublishedVersion,
     } as DetailTemplateResponse;
   }
 
@@ -167,6 +167,8 @@ export class TemplateReaderRepository implements ITemplateReader {
         variables: projection.variables,
         samplePayload: projection.samplePayload,
         enabled: projection.enabled,
+        publishedVersion: projection.publishedVersion,
+        latestPublishedVersion: projection.latestPublishedVersion,
         version: projection.version,
         createdAt: projection.createdAt,
         updatedAt: projection.updatedAt,
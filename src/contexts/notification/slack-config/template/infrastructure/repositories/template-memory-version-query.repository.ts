@@ -0,0 +1,185 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import {
+  RepositoryLoggingUtil,
+  RepositoryLoggingConfig,
+  handleRepositoryError,
+  RepositoryOptions,
+} from 'src/shared/infrastructure/repositories';
+import { Result, DomainError, ok } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import { Option } from 'src/shared/domain/types';
+import {
+  ITemplateVersionQuery,
+  PublishedTemplateVersion,
+} from '../../application/ports';
+import { templateStore } from '../stores/template.store';
+import {
+  templateVersionStore,
+  templateVersionKey,
+  TemplateVersionProjection,
+} from '../stores/template-version.store';
+
+/**
+ * Template Version Query Repository - In-Memory Implementation
+ *
+ * Bounded Context: Notification/Template
+ * Reads published template versions from the shared version store written
+ * by the in-memory projector. The template projection tells how many
+ * versions exist.
+ *
+ * @domain Notification Context - Template Version Query Repository (Read Side)
+ * @layer Infrastructure
+ * @pattern CQRS + Repository Pattern + In-Memory Projector
+ */
+@Injectable()
+export class TemplateVersionQueryRepository implements ITemplateVersionQuery {
+  private readonly logger: Logger;
+  private readonly loggingConfig: RepositoryLoggingConfig;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.loggingConfig = {
+      serviceName: 'TemplateConfigService',
+      component: 'TemplateVersionQueryRepository',
+    };
+    this.logger = componentLogger(baseLogger, this.loggingConfig.component);
+  }
+
+  /**
+   * Helper to create consistent logging context using shared utilities
+   */
+  private createLogContext(
+    operation: string,
+    correlationId: string,
+    actor: ActorContext,
+    additionalContext?: Record<string, unknown>,
+  ): Record<string, unknown> {
+    return RepositoryLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      correlationId,
+      actor,
+      additionalContext,
+    );
+  }
+
+  /**
+   * Convert a stored version to the port shape
+   */
+  private toPublishedVersion(
+    projection: TemplateVersionProjection,
+  ): PublishedTemplateVersion {
+    return {
+      code: projection.code,
+      version: projection.version,
+      workspaceCode: projection.workspaceCode,
+      name: projection.name,
+      description: projection.description,
+      contentBlocks: projection.contentBlocks,
+      variables: projection.variables,
+      samplePayload: projection.samplePayload,
+      variablesSchema: projection.variablesSchema,
+      enabled: projection.enabled,
+      publishedAt: projection.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Find all published versions of a template, oldest first
+   */
+  findVersions(
+    actor: ActorContext,
+    code: string,
+    options?: RepositoryOptions,
+  ): Promise<Result<PublishedTemplateVersion[], DomainError>> {
+    const operation = 'findVersions';
+    const correlationId =
+      options?.correlationId ??
+      CorrelationUtil.generateForOperation('template-version-findVersions');
+    const logContext = this.createLogContext(operation, correlationId, actor, {
+      templateCode: code,
+    });
+
+    try {
+      const tenant = actor.tenant || 'default-tenant';
+      const latest = templateStore.get(tenant, code)?.latestPublishedVersion;
+      const versions: PublishedTemplateVersion[] = [];
+
+      for (let version = 1; version <= (latest ?? 0); version++) {
+        const projection = templateVersionStore.get(
+          tenant,
+          templateVersionKey(code, version),
+        );
+        if (projection) {
+          versions.push(this.toPublishedVersion(projection));
+        }
+      }
+
+      Log.debug(this.logger, 'Template versions found', {
+        ...logContext,
+        resultCount: versions.length,
+      });
+
+      return Promise.resolve(ok(versions));
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'MEDIUM',
+      );
+      return Promise.resolve(handleRepositoryError(error));
+    }
+  }
+
+  /**
+   * Find one published version of a template
+   */
+  findVersion(
+    actor: ActorContext,
+    code: string,
+    version: number,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<PublishedTemplateVersion>, DomainError>> {
+    const operation = 'findVersion';
+    const correlationId =
+      options?.correlationId ??
+      CorrelationUtil.generateForOperation('template-version-findVersion');
+    const logContext = this.createLogContext(operation, correlationId, actor, {
+      templateCode: code,
+      templateVersion: version,
+    });
+
+    try {
+      const projection = templateVersionStore.get(
+        actor.tenant || 'default-tenant',
+        templateVersionKey(code, version),
+      );
+
+      if (!projection) {
+        Log.debug(this.logger, 'Template version not found', logContext);
+        return Promise.resolve(ok(Option.none()));
+      }
+
+      return Promise.resolve(
+        ok(Option.some(this.toPublishedVersion(projection))),
+      );
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'MEDIUM',
+      );
+      return Promise.resolve(handleRepositoryError(error));
+    }
+  }
+}
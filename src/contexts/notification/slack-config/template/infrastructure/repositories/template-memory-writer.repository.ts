@@ -18,8 +18,13 @@ import {
 } from 'src/shared/infrastructure/repositories';
 import { TemplateAggregate } from '../../domain/aggregates';
 import { TemplateCode } from '../../domain/value-objects';
+import { TemplatePublishedEventPayload } from '../../domain/events';
 import { ITemplateWriter } from '../../application/ports';
 import { templateStore, TemplateProjection } from '../stores/template.store';
+import {
+  templateVersionKey,
+  templateVersionStore,
+} from '../stores/template-version.store';
 
 /**
  * Template Writer Repository - In-Memory Implementation
@@ -248,7 +253,10 @@ export class TemplateWriterRepository implements ITemplateWriter {
         contentBlocks: template.entity.contentBlocks.toArray(),
         variables: template.entity.variables?.toArray(),
         samplePayload: template.entity.samplePayload?.value,
+        variablesSchema: template.entity.variablesSchema?.value,
         enabled: template.entity.enabled.value,
+        publishedVersion: template.entity.publishedVersion?.value,
+        latestPublishedVersion: template.entity.latestPublishedVersion?.value,
         // BaseProjection fields
         tenant: actor.tenant,
         version: template.version,
@@ -261,6 +269,33 @@ export class TemplateWriterRepository implements ITemplateWriter {
       // Save to in-memory store
       templateStore.set(actor.tenant, template.id.value, projection);
 
+      // Published versions are immutable copies of the draft at the time
+      for (const event of events) {
+        if (event.type !== 'NotificationSlackConfigTemplatePublished.v1') {
+          continue;
+        }
+        const published = event.data as TemplatePublishedEventPayload;
+        templateVersionStore.set(
+          actor.tenant,
+          templateVersionKey(published.code, published.publishedVersion),
+          {
+            code: published.code,
+            workspaceCode: published.workspaceCode,
+            name: published.name,
+            description: published.description,
+            contentBlocks: published.contentBlocks,
+            variables: published.variables,
+            samplePayload: published.samplePayload,
+            variablesSchema: published.variablesSchema,
+            enabled: published.enabled,
+            tenant: actor.tenant,
+            version: published.publishedVersion,
+            createdAt: event.occurredAt,
+            updatedAt: event.occurredAt,
+          },
+        );
+      }
+
       // Mark committed after successful store save
       template.markEventsAsCommitted();
 
@@ -203,7 +203,10 @@ export class TemplateQueryRepository implements ITemplateQuery {
         contentBlocks: template.contentBlocks,
         variables: template.variables,
         samplePayload: template.samplePayload,
+        variablesSchema: template.variablesSchema,
         enabled: template.enabled,
+        publishedVersion: template.publishedVersion,
+        latestPublishedVersion: template.latestPublishedVersion,
       };
 
       Log.debug(this.logger, 'Template found successfully in Redis', {
@@ -283,6 +286,10 @@ export class TemplateQueryRepository implements ITemplateQuery {
         hashData.samplePayload,
         'samplePayload',
       );
+      const variablesSchema = safeParseJSON<Record<string, unknown>>(
+        hashData.variablesSchema,
+        'variablesSchema',
+      );
       // Extract basic fields directly from hash data
 
       return {
@@ -293,7 +300,14 @@ export class TemplateQueryRepository implements ITemplateQuery {
         contentBlocks,
         variables,
         samplePayload,
+        variablesSchema,
         enabled: hashData.enabled === 'true',
+        publishedVersion: hashData.publishedVersion
+          ? parseInt(hashData.publishedVersion, 10)
+          : undefined,
+        latestPublishedVersion: hashData.latestPublishedVersion
+          ? parseInt(hashData.latestPublishedVersion, 10)
+          : undefined,
         version: parseInt(hashData.version, 10),
         createdAt: new Date(hashData.createdAt),
         updatedAt: new Date(hashData.updatedAt),
@@ -324,6 +338,7 @@ export class TemplateQueryRepository implements ITemplateQuery {
       contentBlocks: template.contentBlocks,
       variables: template.variables,
       samplePayload: template.samplePayload,
+      variablesSchema: template.variablesSchema,
       enabled: template.enabled,
     } as ListTemplateResponse;
   }
@@ -118,6 +118,10 @@ export class TemplateReaderRepository implements ITemplateReader {
         hashData.samplePayload,
         'samplePayload',
       );
+      const variablesSchema = safeParseJSON<Record<string, unknown>>(
+        hashData.variablesSchema,
+        'variablesSchema',
+      );
       // Extract basic fields directly from hash data
 
       return {
@@ -128,7 +132,14 @@ export class TemplateReaderRepository implements ITemplateReader {
         contentBlocks,
         variables,
         samplePayload,
+        variablesSchema,
         enabled: hashData.enabled === 'true',
+        publishedVersion: hashData.publishedVersion
+          ? parseInt(hashData.publishedVersion, 10)
+          : undefined,
+        latestPublishedVersion: hashData.latestPublishedVersion
+          ? parseInt(hashData.latestPublishedVersion, 10)
+          : undefined,
         version: parseInt(hashData.version, 10),
         createdAt: new Date(hashData.createdAt),
         updatedAt: new Date(hashData.updatedAt),
@@ -0,0 +1,279 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import {
+  RepositoryLoggingUtil,
+  RepositoryLoggingConfig,
+  handleRepositoryError,
+  safeParseJSON,
+  safeParseJSONArray,
+  RepositoryOptions,
+  isString,
+} from 'src/shared/infrastructure/repositories';
+import { Result, DomainError, err, ok } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+import { ActorContext } from 'src/shared/application/context';
+import { RepositoryErrorFactory } from 'src/shared/domain/errors/repository.error';
+import { SLACK_CONFIG_DI_TOKENS } from '../../../slack-config.constants';
+import { TemplateProjectionKeys } from '../../template-projection-keys';
+import {
+  ITemplateVersionQuery,
+  PublishedTemplateVersion,
+} from '../../application/ports';
+
+/**
+ * Template Version Query Repository - Redis Implementation
+ *
+ * Bounded Context: Notification/Template
+ * Reads the version hashes the Redis projector writes on publish. The
+ * template hash holds `latestPublishedVersion`, so listing needs no SCAN.
+ *
+ * @domain Notification Context - Template Version Query Repository (Redis)
+ * @layer Infrastructure
+ * @pattern Repository Pattern + Redis Projector
+ */
+@Injectable()
+export class TemplateVersionQueryRepository implements ITemplateVersionQuery {
+  private readonly logger: Logger;
+  private readonly loggingConfig: RepositoryLoggingConfig;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(CLOCK) private readonly clock: Clock,
+    @Inject(SLACK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+  ) {
+    this.loggingConfig = {
+      serviceName: 'TemplateConfigService',
+      component: 'TemplateVersionQueryRepository',
+    };
+    this.logger = componentLogger(baseLogger, this.loggingConfig.component);
+  }
+
+  /**
+   * Find all published versions of a template, oldest first
+   */
+  async findVersions(
+    actor: ActorContext,
+    code: string,
+    options?: RepositoryOptions,
+  ): Promise<Result<PublishedTemplateVersion[], DomainError>> {
+    const operation = 'findVersions';
+    const correlationId =
+      options?.correlationId ??
+      CorrelationUtil.generateForOperation('template-version-findVersions');
+    const logContext = this.createLogContext(operation, correlationId, actor, {
+      templateCode: code,
+      dataSource: 'redis-projector',
+    });
+
+    const validation = RepositoryLoggingUtil.validateActorContext(
+      this.logger,
+      actor,
+      logContext,
+    );
+    if (!validation.ok) return err(validation.error);
+
+    if (!actor.tenant) {
+      return err(
+        RepositoryErrorFactory.validationError('tenant', 'Missing tenant id'),
+      );
+    }
+
+    try {
+      const latestRaw = await this.redis.hget(
+        TemplateProjectionKeys.getRedisTemplateKey(actor.tenant, code),
+        'latestPublishedVersion',
+      );
+      const latest = latestRaw ? parseInt(latestRaw, 10) : 0;
+      if (!latest) {
+        return ok([]);
+      }
+
+      // Batch fetch all version hashes using pipeline for efficiency
+      const pipeline = this.redis.pipeline();
+      for (let version = 1; version <= latest; version++) {
+        pipeline.hgetall(
+          TemplateProjectionKeys.getRedisTemplateVersionKey(
+            actor.tenant,
+            code,
+            version,
+          ),
+        );
+      }
+
+      const results = await pipeline.exec();
+
+      if (!results) {
+        throw new Error('Redis pipeline execution failed');
+      }
+
+      const versions: PublishedTemplateVersion[] = [];
+      for (const [error, hashData] of results) {
+        if (!error && hashData) {
+          const version = this.parseRedisHashToVersion(
+            hashData as Record<string, string>,
+          );
+          if (version) {
+            versions.push(version);
+          }
+        }
+      }
+
+      RepositoryLoggingUtil.logQueryMetrics(
+        this.logger,
+        operation,
+        logContext,
+        {
+          resultCount: versions.length,
+          dataQuality: versions.length > 0 ? 'good' : 'empty',
+          sampleData: { latestPublishedVersion: latest },
+        },
+      );
+
+      return ok(versions);
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'MEDIUM',
+      );
+      return handleRepositoryError(error);
+    }
+  }
+
+  /**
+   * Find one published version of a template
+   */
+  async findVersion(
+    actor: ActorContext,
+    code: string,
+    version: number,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<PublishedTemplateVersion>, DomainError>> {
+    const operation = 'findVersion';
+    const correlationId =
+      options?.correlationId ??
+      CorrelationUtil.generateForOperation('template-version-findVersion');
+    const logContext = this.createLogContext(operation, correlationId, actor, {
+      templateCode: code,
+      templateVersion: version,
+      dataSource: 'redis-projector',
+    });
+
+    const validation = RepositoryLoggingUtil.validateActorContext(
+      this.logger,
+      actor,
+      logContext,
+    );
+    if (!validation.ok) return err(validation.error);
+
+    if (!actor.tenant) {
+      return err(
+        RepositoryErrorFactory.validationError('tenant', 'Missing tenant id'),
+      );
+    }
+
+    try {
+      const hashData = await this.redis.hgetall(
+        TemplateProjectionKeys.getRedisTemplateVersionKey(
+          actor.tenant,
+          code,
+          version,
+        ),
+      );
+
+      const published = this.parseRedisHashToVersion(hashData);
+      if (!published) {
+        Log.debug(
+          this.logger,
+          'Template version not found in Redis',
+          logContext,
+        );
+        return ok(Option.none());
+      }
+
+      return ok(Option.some(published));
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'MEDIUM',
+      );
+      return handleRepositoryError(error);
+    }
+  }
+
+  /**
+   * Parse a version hash, or null when it is missing or malformed
+   */
+  private parseRedisHashToVersion(
+    hashData: Record<string, string>,
+  ): PublishedTemplateVersion | null {
+    try {
+      if (!hashData || Object.keys(hashData).length === 0) {
+        return null;
+      }
+
+      return {
+        code: hashData.code,
+        version: parseInt(hashData.version, 10),
+        workspaceCode: hashData.workspaceCode,
+        name: hashData.name,
+        description: hashData.description || undefined,
+        contentBlocks: safeParseJSONArray(
+          hashData.contentBlocks,
+          'contentBlocks',
+          isString,
+        ),
+        variables: safeParseJSONArray(
+          hashData.variables,
+          'variables',
+          isString,
+        ),
+        samplePayload: safeParseJSON<Record<string, unknown>>(
+          hashData.samplePayload,
+          'samplePayload',
+        ),
+        variablesSchema: safeParseJSON<Record<string, unknown>>(
+          hashData.variablesSchema,
+          'variablesSchema',
+        ),
+        enabled: hashData.enabled === 'true',
+        publishedAt: new Date(hashData.createdAt).toISOString(),
+      };
+    } catch (error) {
+      Log.error(this.logger, 'Failed to parse Redis hash to template version', {
+        method: 'parseRedisHashToVersion',
+        error: (error as Error).message,
+        code: hashData?.code,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Helper to create consistent logging context using shared utilities
+   */
+  private createLogContext(
+    operation: string,
+    correlationId: string,
+    actor: ActorContext,
+    additionalContext?: Record<string, unknown>,
+  ): Record<string, unknown> {
+    return RepositoryLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      correlationId,
+      actor,
+      additionalContext,
+    );
+  }
+}
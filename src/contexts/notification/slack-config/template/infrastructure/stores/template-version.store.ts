@@ -0,0 +1,33 @@
+/**
+ * Published template versions, kept apart from the template projections
+ *
+ * Entries are written once, when a version is published, and never change.
+ * `version` holds the published version number.
+ */
+
+import { BaseProjection, SimpleStore } from 'src/shared/infrastructure/stores';
+import { DetailTemplateResponse } from '../../application/dtos';
+
+/**
+ * Template version projection data
+ */
+export interface TemplateVersionProjection
+  extends Omit<
+      DetailTemplateResponse,
+      'publishedVersion' | 'latestPublishedVersion'
+    >,
+    BaseProjection {}
+
+/**
+ * Store key of a version within a tenant
+ */
+export const templateVersionKey = (code: string, version: number): string =>
+  `${code}@${version}`;
+
+/**
+ * Template version store instance - shared across projectors and repositories
+ */
+export const templateVersionStore = new SimpleStore<TemplateVersionProjection>(
+  20000,
+  'template-version',
+);
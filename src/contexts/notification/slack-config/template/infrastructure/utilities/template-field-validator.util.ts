@@ -35,7 +35,10 @@ export class TemplateFieldValidatorUtil {
     contentBlocks: string[];
     variables?: string[];
     samplePayload?: string;
+    variablesSchema?: string;
     enabled: boolean;
+    publishedVersion?: number;
+    latestPublishedVersion?: number;
     version: number;
     createdAt: Date;
     updatedAt: Date;
@@ -49,8 +52,17 @@ export class TemplateFieldValidatorUtil {
     const samplePayload = aggregateData.samplePayload
       ? JSON.stringify(aggregateData.samplePayload)
       : undefined;
+    const variablesSchema = aggregateData.variablesSchema
+      ? JSON.stringify(aggregateData.variablesSchema)
+      : undefined;
     const enabled =
       aggregateData.enabled === 'true' || aggregateData.enabled === true;
+    const publishedVersion = aggregateData.publishedVersion as
+      | number
+      | undefined;
+    const latestPublishedVersion = aggregateData.latestPublishedVersion as
+      | number
+      | undefined;
 
     // Extract version and timestamps with proper type conversion
     const version = EventDataProcessingUtils.extractVersion(aggregateData);
@@ -65,7 +77,10 @@ export class TemplateFieldValidatorUtil {
       contentBlocks,
       variables,
       samplePayload,
+      variablesSchema,
       enabled,
+      publishedVersion,
+      latestPublishedVersion,
       version,
       createdAt,
       updatedAt,
@@ -11,6 +11,7 @@ import {
   HttpStatus,
   HttpCode,
   Param,
+  ParseIntPipe,
   UseInterceptors,
   UseGuards,
 } from '@nestjs/common';
@@ -22,6 +23,7 @@ import {
   ApiBody,
   ApiHeader,
   ApiParam,
+  ApiQuery,
   ApiOkResponse,
   ApiBearerAuth,
 } from '@nestjs/swagger';
@@ -36,6 +38,13 @@ import {
   TemplatePageResponse,
   ListTemplateFilterRequest,
   ListTemplateResponse,
+  RollbackTemplateRequest,
+  TemplateVersionResponse,
+  TemplateVersionDiffResponse,
+  TemplateVersionRef,
+  PreviewTemplateRequest,
+  TemplatePreviewResponse,
+  TemplateVariablesSchemaResponse,
 } from '../../../application/dtos';
 import { Result, ResultInterceptor, DomainError } from 'src/shared/errors';
 import { PaginatedResponse } from 'src/shared/application/dtos';
@@ -46,6 +55,13 @@ import {
 } from '../../template.resource';
 import { ApiCommonErrors } from 'src/shared/interfaces/http';
 
+/**
+ * Read a diff side from the query string; the use case rejects
+ * anything that is not 'draft' or a positive integer
+ */
+const toVersionRef = (value: string): TemplateVersionRef =>
+  value === 'draft' ? 'draft' : Number(value);
+
 @Controller()
 @ApiTags('Templates')
 @ApiBearerAuth()
@@ -203,4 +219,213 @@ export class TemplateController {
 
     return result;
   }
+
+  @Post(':code/preview')
+  @TemplateReadResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview a Template',
+    description:
+      'Renders the draft against its sample payload, or the payload given, without sending anything. Reports missing and unused variables, Block Kit errors and Slack limit violations by path, and the plain-text fallback. Requires READ permission (LOW risk).',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: '',
+    example: 'payment_failure_alert',
+  })
+  @ApiOkResponse({
+    description: 'Template rendered',
+    type: TemplatePreviewResponse,
+  })
+  @ApiCommonErrors()
+  @ApiBody({ type: PreviewTemplateRequest, required: false })
+  async preview(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+    @Body() body: PreviewTemplateRequest,
+  ): Promise<Result<TemplatePreviewResponse, DomainError>> {
+    return this.templateApplicationService.previewTemplate(
+      user,
+      code,
+      body?.payload,
+    );
+  }
+
+  @Get(':code/variables-schema/generated')
+  @TemplateReadResource()
+  @ApiOperation({
+    summary: 'Generate a variables schema',
+    description:
+      'Infers a JSON Schema from the sample payload of the draft, as a starting point for the variables schema. Nothing is saved. Requires READ permission (LOW risk).',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: '',
+    example: 'payment_failure_alert',
+  })
+  @ApiOkResponse({
+    description: 'Variables schema generated',
+    type: TemplateVariablesSchemaResponse,
+  })
+  @ApiCommonErrors()
+  async generateVariablesSchema(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+  ): Promise<Result<TemplateVariablesSchemaResponse, DomainError>> {
+    return this.templateApplicationService.generateVariablesSchema(user, code);
+  }
+
+  // ========================================
+  // Published versions
+  // ========================================
+
+  @Post(':code/publish')
+  @TemplateUpdateResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Publish a Template',
+    description:
+      'Publishes the current draft as the next immutable version. New requests use it from now on. Requires UPDATE permission (MEDIUM risk).',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: '',
+    example: 'payment_failure_alert',
+  })
+  @ApiOkResponse({
+    description: 'Template published',
+    type: DetailTemplateResponse,
+  })
+  @ApiCommonErrors({ include422: true })
+  async publish(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+  ): Promise<Result<DetailTemplateResponse, DomainError>> {
+    return this.templateApplicationService.publishTemplate(user, code);
+  }
+
+  @Post(':code/rollback')
+  @TemplateUpdateResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Roll back a Template',
+    description:
+      'Makes an earlier published version current again. The draft is left unchanged. Requires UPDATE permission (MEDIUM risk).',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: '',
+    example: 'payment_failure_alert',
+  })
+  @ApiOkResponse({
+    description: 'Template rolled back',
+    type: DetailTemplateResponse,
+  })
+  @ApiCommonErrors({ include422: true })
+  @ApiBody({ type: RollbackTemplateRequest })
+  async rollback(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+    @Body() body: RollbackTemplateRequest,
+  ): Promise<Result<DetailTemplateResponse, DomainError>> {
+    return this.templateApplicationService.rollbackTemplate(
+      user,
+      code,
+      body.version,
+    );
+  }
+
+  @Get(':code/versions')
+  @TemplateReadResource()
+  @ApiOperation({
+    summary: 'List Template versions',
+    description:
+      'Lists the published versions of a Template, oldest first. Requires READ permission (LOW risk).',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: '',
+    example: 'payment_failure_alert',
+  })
+  @ApiOkResponse({
+    description: 'Published versions retrieved successfully',
+    type: [TemplateVersionResponse],
+  })
+  @ApiCommonErrors()
+  async listVersions(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+  ): Promise<Result<TemplateVersionResponse[], DomainError>> {
+    return this.templateApplicationService.listTemplateVersions(user, code);
+  }
+
+  @Get(':code/versions/diff')
+  @TemplateReadResource()
+  @ApiOperation({
+    summary: 'Compare Template versions',
+    description:
+      "Lists the fields that differ between two versions. Either side may be 'draft'. Requires READ permission (LOW risk).",
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: '',
+    example: 'payment_failure_alert',
+  })
+  @ApiQuery({ name: 'from', type: 'string', example: '1' })
+  @ApiQuery({ name: 'to', type: 'string', example: 'draft' })
+  @ApiOkResponse({
+    description: 'Differences retrieved successfully',
+    type: TemplateVersionDiffResponse,
+  })
+  @ApiCommonErrors()
+  async diffVersions(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+  ): Promise<Result<TemplateVersionDiffResponse, DomainError>> {
+    return this.templateApplicationService.diffTemplateVersions(
+      user,
+      code,
+      toVersionRef(from),
+      toVersionRef(to),
+    );
+  }
+
+  @Get(':code/versions/:version')
+  @TemplateReadResource()
+  @ApiOperation({
+    summary: 'Get a Template version',
+    description:
+      'Retrieves the content of one published version. Requires READ permission (LOW risk).',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: '',
+    example: 'payment_failure_alert',
+  })
+  @ApiParam({ name: 'version', type: 'integer', example: 1 })
+  @ApiOkResponse({
+    description: 'Template version retrieved successfully',
+    type: TemplateVersionResponse,
+  })
+  @ApiCommonErrors()
+  async getVersion(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<Result<TemplateVersionResponse, DomainError>> {
+    return this.templateApplicationService.getTemplateVersion(
+      user,
+      code,
+      version,
+    );
+  }
 }
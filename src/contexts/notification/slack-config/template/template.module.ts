@@ -2,6 +2,8 @@
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
 import { Module } from '@nestjs/common';
+import { TemplateRendererService } from 'src/shared/infrastructure';
+import { AjvSchemaValidationService } from 'src/shared/infrastructure/validation';
 import { SlackConfigSharedModule } from '../slack-config-shared.module';
 import { TemplateController } from './interface/http/controllers';
 import {
@@ -17,12 +19,27 @@ import {
   GetTemplateUseCase,
   IListTemplateUseCase,
   ListTemplateUseCase,
+  IPublishTemplateUseCase,
+  PublishTemplateUseCase,
+  IRollbackTemplateUseCase,
+  RollbackTemplateUseCase,
+  IListTemplateVersionsUseCase,
+  ListTemplateVersionsUseCase,
+  IGetTemplateVersionUseCase,
+  GetTemplateVersionUseCase,
+  IDiffTemplateVersionsUseCase,
+  DiffTemplateVersionsUseCase,
+  IPreviewTemplateUseCase,
+  PreviewTemplateUseCase,
+  IGenerateTemplateVariablesSchemaUseCase,
+  GenerateTemplateVariablesSchemaUseCase,
 } from './application/use-cases';
 
 // import { ITemplateRepository } from './application/ports';
 import {
   TemplateQueryRepository,
   TemplateReaderRepository,
+  TemplateVersionQueryRepository,
   TemplateWriterRepository,
   WorkspaceReaderRepository,
 } from './infrastructure/repositories';
@@ -33,6 +50,7 @@ import {
   TEMPLATE_WRITER_TOKEN,
   WORKSPACE_REFERENCE_READER_TOKEN,
   TEMPLATE_QUERY_TOKEN,
+  TEMPLATE_VERSION_QUERY_TOKEN,
 } from './application/ports';
 @Module({
   imports: [
@@ -53,6 +71,10 @@ import {
       provide: TEMPLATE_QUERY_TOKEN,
       useClass: TemplateQueryRepository,
     },
+    {
+      provide: TEMPLATE_VERSION_QUERY_TOKEN,
+      useClass: TemplateVersionQueryRepository,
+    },
 
     // Bounded Context Reader Repositories
     {
@@ -65,6 +87,8 @@ import {
     TemplateAuthorizationService,
     TemplateAuthorizationAdapter,
     TemplateForeignKeyValidatorService,
+    TemplateRendererService, // Shared template rendering service
+    AjvSchemaValidationService, // Variables schema validation
 
     // Use case implementations
     {
@@ -79,12 +103,41 @@ import {
       provide: IListTemplateUseCase,
       useClass: ListTemplateUseCase,
     },
+    {
+      provide: IPublishTemplateUseCase,
+      useClass: PublishTemplateUseCase,
+    },
+    {
+      provide: IRollbackTemplateUseCase,
+      useClass: RollbackTemplateUseCase,
+    },
+    {
+      provide: IListTemplateVersionsUseCase,
+      useClass: ListTemplateVersionsUseCase,
+    },
+    {
+      provide: IGetTemplateVersionUseCase,
+      useClass: GetTemplateVersionUseCase,
+    },
+    {
+      provide: IDiffTemplateVersionsUseCase,
+      useClass: DiffTemplateVersionsUseCase,
+    },
+    {
+      provide: IPreviewTemplateUseCase,
+      useClass: PreviewTemplateUseCase,
+    },
+    {
+      provide: IGenerateTemplateVariablesSchemaUseCase,
+      useClass: GenerateTemplateVariablesSchemaUseCase,
+    },
   ],
   exports: [
     // Repository tokens for external module consumption
     TEMPLATE_READER_TOKEN,
     TEMPLATE_WRITER_TOKEN,
     TEMPLATE_QUERY_TOKEN,
+    TEMPLATE_VERSION_QUERY_TOKEN,
     // Bounded Context Reader tokens
     WORKSPACE_REFERENCE_READER_TOKEN,
   ],
@@ -3,6 +3,7 @@
 
 import { RequestDomainState } from '../../domain/state';
 import { DetailRequestResponse, ListRequestResponse } from '../dtos';
+import { mapRequestAttachmentToDto } from '../mappers';
 
 /**
  * Request DTO Assembler
@@ -35,6 +36,13 @@ export class RequestDtoAssembler {
     dto.workspaceCode = domainState.workspaceCode.value;
     dto.templateCode = domainState.templateCode.value;
     dto.channelCode = domainState.channelCode?.value;
+    dto.scheduledFor = domainState.scheduledFor?.toISOString();
+    dto.quietHours = domainState.quietHours?.value;
+    dto.message = domainState.message?.value;
+    dto.thread = domainState.thread?.value;
+    dto.batchId = domainState.batchId?.value;
+    dto.attachment = mapRequestAttachmentToDto(domainState.attachment?.value);
+    dto.templateVersion = domainState.templateVersion?.value;
 
     return dto;
   }
@@ -0,0 +1,41 @@
+import { BaseCommand } from 'src/shared/application/commands/base.command';
+import { IUserToken } from 'src/shared/security';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { SecurityMetadata } from 'src/shared/domain/events/event-metadata';
+import { CancelRequestProps } from '../../domain/props';
+
+/**
+ * Cancel Request Command with security context and metadata
+ */
+export class CancelRequestCommand extends BaseCommand {
+  constructor(
+    user: IUserToken,
+    public readonly props: CancelRequestProps,
+    correlationId: string,
+    securityContext: SecurityMetadata,
+  ) {
+    super(correlationId, user, securityContext);
+  }
+
+  /**
+   * Factory method to create command with automatic security context
+   */
+  static create(
+    user: IUserToken,
+    props: CancelRequestProps,
+    correlationId: string = CorrelationUtil.generate(),
+    additionalSecurityContext?: Partial<SecurityMetadata>,
+  ): CancelRequestCommand {
+    const securityContext = BaseCommand.createSecurityMetadata(
+      user,
+      additionalSecurityContext,
+    );
+
+    return new CancelRequestCommand(
+      user,
+      props,
+      correlationId,
+      securityContext,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { BaseCommand } from 'src/shared/application/commands/base.command';
+import { IUserToken } from 'src/shared/security';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { SecurityMetadata } from 'src/shared/domain/events/event-metadata';
+import { EditRequestMessageProps } from '../../domain/props';
+
+/**
+ * Edit Request Message Command with security context and metadata
+ */
+export class EditRequestMessageCommand extends BaseCommand {
+  constructor(
+    user: IUserToken,
+    public readonly props: EditRequestMessageProps,
+    correlationId: string,
+    securityContext: SecurityMetadata,
+  ) {
+    super(correlationId, user, securityContext);
+  }
+
+  /**
+   * Factory method to create command with automatic security context
+   */
+  static create(
+    user: IUserToken,
+    props: EditRequestMessageProps,
+    correlationId: string = CorrelationUtil.generate(),
+    additionalSecurityContext?: Partial<SecurityMetadata>,
+  ): EditRequestMessageCommand {
+    const securityContext = BaseCommand.createSecurityMetadata(
+      user,
+      additionalSecurityContext,
+    );
+
+    return new EditRequestMessageCommand(
+      user,
+      props,
+      correlationId,
+      securityContext,
+    );
+  }
+}
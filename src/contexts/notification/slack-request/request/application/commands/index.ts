@@ -1,3 +1,8 @@
+export * from './cancel-request.command';
 export * from './create-request.command';
+export * from './edit-request-message.command';
 export * from './failed-request.command';
+export * from './record-request-interaction.command';
+export * from './reschedule-request.command';
+export * from './retract-request-message.command';
 export * from './sent-request.command';
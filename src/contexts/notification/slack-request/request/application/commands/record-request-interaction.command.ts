@@ -0,0 +1,41 @@
+import { BaseCommand } from 'src/shared/application/commands/base.command';
+import { IUserToken } from 'src/shared/security';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { SecurityMetadata } from 'src/shared/domain/events/event-metadata';
+import { RecordRequestInteractionProps } from '../../domain/props';
+
+/**
+ * Record Request Interaction Command with security context and metadata
+ */
+export class RecordRequestInteractionCommand extends BaseCommand {
+  constructor(
+    user: IUserToken,
+    public readonly props: RecordRequestInteractionProps,
+    correlationId: string,
+    securityContext: SecurityMetadata,
+  ) {
+    super(correlationId, user, securityContext);
+  }
+
+  /**
+   * Factory method to create command with automatic security context
+   */
+  static create(
+    user: IUserToken,
+    props: RecordRequestInteractionProps,
+    correlationId: string = CorrelationUtil.generate(),
+    additionalSecurityContext?: Partial<SecurityMetadata>,
+  ): RecordRequestInteractionCommand {
+    const securityContext = BaseCommand.createSecurityMetadata(
+      user,
+      additionalSecurityContext,
+    );
+
+    return new RecordRequestInteractionCommand(
+      user,
+      props,
+      correlationId,
+      securityContext,
+    );
+  }
+}
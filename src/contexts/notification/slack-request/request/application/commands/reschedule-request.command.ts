@@ -0,0 +1,41 @@
+import { BaseCommand } from 'src/shared/application/commands/base.command';
+import { IUserToken } from 'src/shared/security';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { SecurityMetadata } from 'src/shared/domain/events/event-metadata';
+import { RescheduleRequestProps } from '../../domain/props';
+
+/**
+ * Reschedule Request Command with security context and metadata
+ */
+export class RescheduleRequestCommand extends BaseCommand {
+  constructor(
+    user: IUserToken,
+    public readonly props: RescheduleRequestProps,
+    correlationId: string,
+    securityContext: SecurityMetadata,
+  ) {
+    super(correlationId, user, securityContext);
+  }
+
+  /**
+   * Factory method to create command with automatic security context
+   */
+  static create(
+    user: IUserToken,
+    props: RescheduleRequestProps,
+    correlationId: string = CorrelationUtil.generate(),
+    additionalSecurityContext?: Partial<SecurityMetadata>,
+  ): RescheduleRequestCommand {
+    const securityContext = BaseCommand.createSecurityMetadata(
+      user,
+      additionalSecurityContext,
+    );
+
+    return new RescheduleRequestCommand(
+      user,
+      props,
+      correlationId,
+      securityContext,
+    );
+  }
+}
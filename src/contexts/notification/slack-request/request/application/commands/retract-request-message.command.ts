@@ -0,0 +1,41 @@
+import { BaseCommand } from 'src/shared/application/commands/base.command';
+import { IUserToken } from 'src/shared/security';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { SecurityMetadata } from 'src/shared/domain/events/event-metadata';
+import { RetractRequestMessageProps } from '../../domain/props';
+
+/**
+ * Retract Request Message Command with security context and metadata
+ */
+export class RetractRequestMessageCommand extends BaseCommand {
+  constructor(
+    user: IUserToken,
+    public readonly props: RetractRequestMessageProps,
+    correlationId: string,
+    securityContext: SecurityMetadata,
+  ) {
+    super(correlationId, user, securityContext);
+  }
+
+  /**
+   * Factory method to create command with automatic security context
+   */
+  static create(
+    user: IUserToken,
+    props: RetractRequestMessageProps,
+    correlationId: string = CorrelationUtil.generate(),
+    additionalSecurityContext?: Partial<SecurityMetadata>,
+  ): RetractRequestMessageCommand {
+    const securityContext = BaseCommand.createSecurityMetadata(
+      user,
+      additionalSecurityContext,
+    );
+
+    return new RetractRequestMessageCommand(
+      user,
+      props,
+      correlationId,
+      securityContext,
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBase64,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  REQUEST_ATTACHMENT_CONTENT_TYPES,
+  REQUEST_ATTACHMENT_INLINE_MAX_BYTES,
+  REQUEST_ATTACHMENT_URL_MAX_BYTES,
+} from '../../../domain/value-objects';
+import type {
+  RequestAttachmentContentType,
+  RequestAttachmentSource,
+  RequestAttachmentUpload,
+} from '../../../domain/value-objects';
+
+/**
+ * File uploaded to Slack with the message
+ */
+export class RequestAttachmentDto implements RequestAttachmentUpload {
+  @ApiProperty({ example: 'daily-report.csv', maxLength: 255 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  filename: string;
+
+  @ApiProperty({ enum: REQUEST_ATTACHMENT_CONTENT_TYPES })
+  @IsIn(REQUEST_ATTACHMENT_CONTENT_TYPES)
+  contentType: RequestAttachmentContentType;
+
+  @ApiProperty({
+    description: 'Shown in Slack instead of the filename',
+    required: false,
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  title?: string;
+
+  @ApiProperty({
+    description: `Base64 file content, at most ${REQUEST_ATTACHMENT_INLINE_MAX_BYTES} bytes decoded. Exclusive with url; not returned by reads.`,
+    required: false,
+  })
+  @IsOptional()
+  @IsBase64()
+  content?: string;
+
+  @ApiProperty({
+    description: `HTTPS url of a file on an allowed storage host, e.g. a pre-signed link, downloaded when the message is sent. At most ${REQUEST_ATTACHMENT_URL_MAX_BYTES} bytes. Exclusive with content; not returned by reads.`,
+    required: false,
+    example: 'https://files.example.com/reports/daily.csv?signature=abc',
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  url?: string;
+
+  @ApiProperty({
+    description: 'Whether the file was given inline or by url (reads only)',
+    required: false,
+    readOnly: true,
+    enum: ['inline', 'url'],
+  })
+  source?: RequestAttachmentSource;
+
+  @ApiProperty({
+    description: 'Size of the inline content in bytes (reads only)',
+    required: false,
+    readOnly: true,
+  })
+  sizeBytes?: number;
+}
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Request Attachment
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestAttachment(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description: `CSV or PDF file uploaded to Slack and linked in the message.`,
+      type: () => RequestAttachmentDto,
+      required,
+    }),
+    ValidateNested(),
+    Type(() => RequestAttachmentDto),
+    required ? IsNotEmpty() : IsOptional(),
+  );
+}
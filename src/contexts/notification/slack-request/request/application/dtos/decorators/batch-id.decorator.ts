@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Request Batch Id (read model)
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestBatchId(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return ApiProperty({
+    description: `Batch the request was created in by a bulk call. Absent for requests created one at a time.`,
+    example: '0f8fad5b-d9cb-469f-a165-70867728950e',
+    type: String,
+    format: 'uuid',
+    required,
+  });
+}
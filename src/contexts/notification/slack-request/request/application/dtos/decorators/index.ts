@@ -1,8 +1,15 @@
+export * from './attachment.decorator';
+export * from './batch-id.decorator';
 export * from './channel-code.decorator';
 export * from './code.decorator';
 export * from './data.decorator';
+export * from './message.decorator';
+export * from './quiet-hours.decorator';
 export * from './recipient.decorator';
 export * from './request-list-pagination.decorator';
+export * from './send-at.decorator';
 export * from './status.decorator';
 export * from './template-code.decorator';
+export * from './template-version.decorator';
+export * from './thread.decorator';
 export * from './workspace-code.decorator';
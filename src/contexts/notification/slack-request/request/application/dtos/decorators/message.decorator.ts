@@ -0,0 +1,44 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import type { RequestMessageRefProps } from '../../../domain/value-objects';
+
+/**
+ * Slack message a request was delivered as
+ */
+export class RequestMessageRefDto implements RequestMessageRefProps {
+  @ApiProperty({
+    description: 'Channel id Slack posted the message to',
+    example: 'C0123456789',
+  })
+  channelId: string;
+
+  @ApiProperty({
+    description: 'Slack message timestamp',
+    example: '1712345678.123456',
+  })
+  ts: string;
+}
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Request Message
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestMessage(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description: `Slack message the request was delivered as; set once sent.`,
+      type: () => RequestMessageRefDto,
+      required,
+    }),
+  );
+}
@@ -0,0 +1,64 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type { RequestQuietHoursProps } from '../../../domain/value-objects';
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Daily window, in the recipient's timezone, in which messages are held
+ */
+export class RequestQuietHoursDto implements RequestQuietHoursProps {
+  @ApiProperty({ description: 'Window start, HH:mm', example: '22:00' })
+  @IsString()
+  @Matches(HH_MM, { message: 'start must be HH:mm' })
+  start: string;
+
+  @ApiProperty({
+    description:
+      'Window end, HH:mm. May be before start for overnight windows.',
+    example: '07:00',
+  })
+  @IsString()
+  @Matches(HH_MM, { message: 'end must be HH:mm' })
+  end: string;
+
+  @ApiProperty({ description: 'IANA timezone', example: 'Europe/Berlin' })
+  @IsString()
+  @IsNotEmpty()
+  timezone: string;
+}
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Request Quiet Hours
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestQuietHours(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description: `Messages due inside this window are held until it ends.`,
+      type: () => RequestQuietHoursDto,
+      required,
+    }),
+    ValidateNested(),
+    Type(() => RequestQuietHoursDto),
+    required ? IsNotEmpty() : IsOptional(),
+  );
+}
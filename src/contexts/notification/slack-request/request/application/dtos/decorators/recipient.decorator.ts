@@ -22,12 +22,14 @@ export function ApiRequestRecipient(options: PropOptions = {}) {
 
   return applyDecorators(
     ApiProperty({
-      description: `Channel ID or user ID.`,
+      description:
+        'Slack channel ID, Slack user ID or email address. User IDs and emails are sent as a direct message; an email is looked up in the workspace.',
+      example: 'jane.doe@example.com',
       type: String,
       required,
     }),
     IsString(),
-    MaxLength(32),
+    MaxLength(254),
     required ? IsNotEmpty() : IsOptional(),
   );
 }
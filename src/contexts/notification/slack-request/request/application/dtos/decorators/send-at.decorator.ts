@@ -0,0 +1,48 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsNotEmpty, IsISO8601 } from 'class-validator';
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Request Send At
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestSendAt(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description: `When to send the message. ISO 8601 datetime with a timezone offset or Z; omit to send right away.`,
+      example: '2025-03-03T09:00:00+01:00',
+      type: String,
+      format: 'date-time',
+      required,
+    }),
+    IsISO8601({ strict: true }),
+    required ? IsNotEmpty() : IsOptional(),
+  );
+}
+
+/**
+ * Property decorator for Request Scheduled For (read model)
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestScheduledFor(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return ApiProperty({
+    description: `When the message is due to be sent, after quiet hours were applied. Absent for messages sent right away.`,
+    example: '2025-03-03T08:00:00.000Z',
+    type: String,
+    format: 'date-time',
+    required,
+  });
+}
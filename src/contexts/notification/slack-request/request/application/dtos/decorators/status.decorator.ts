@@ -26,7 +26,7 @@ export function ApiRequestStatus(options: PropOptions = {}) {
   const { required = false } = options;
   return applyDecorators(
     ApiProperty({
-      description: `Current message lifecycle status. Values include requested, validated, queued, failed, sent.`,
+      description: `Current message lifecycle status. Values include requested, validated, queued, failed, sent, scheduled, cancelled.`,
       type: String,
       enum: RequestStatusValues,
       required,
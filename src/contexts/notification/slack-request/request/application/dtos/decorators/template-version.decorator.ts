@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Request Template Version (read model)
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestTemplateVersion(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return ApiProperty({
+    description: `Published template version the request is rendered with, fixed when it was created. Absent when the template had no published version; the draft is used then.`,
+    example: 3,
+    type: Number,
+    minimum: 1,
+    required,
+  });
+}
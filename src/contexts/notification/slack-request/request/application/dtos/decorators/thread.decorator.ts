@@ -0,0 +1,91 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import type { RequestThreadProps } from '../../../domain/value-objects';
+
+/**
+ * Slack thread a request is grouped into
+ */
+export class RequestThreadDto implements RequestThreadProps {
+  @ApiProperty({
+    description: 'Correlation key shared by the requests in the thread',
+    example: 'order-123',
+  })
+  key: string;
+
+  @ApiProperty({
+    description: 'Whether replies are also posted to the channel',
+    required: false,
+  })
+  broadcast?: boolean;
+}
+
+/**
+ * Options for property decorators
+ */
+interface PropOptions {
+  required?: boolean;
+}
+
+/**
+ * Property decorator for Request Thread Key
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestThreadKey(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description: `Correlation key, e.g. an order id. The first request sent with the key to a channel starts a Slack thread; later ones reply in it.`,
+      example: 'order-123',
+      type: String,
+      maxLength: 128,
+      required,
+    }),
+    IsString(),
+    Matches(/^\S{1,128}$/),
+    required ? IsNotEmpty() : IsOptional(),
+  );
+}
+
+/**
+ * Property decorator for Request Thread Broadcast
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestThreadBroadcast(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return applyDecorators(
+    ApiProperty({
+      description: `Also post the reply to the channel. Needs threadKey; has no effect on the message that starts the thread.`,
+      type: Boolean,
+      default: false,
+      required,
+    }),
+    IsBoolean(),
+    required ? IsNotEmpty() : IsOptional(),
+  );
+}
+
+/**
+ * Property decorator for Request Thread (read model)
+ * @param {Object} options - Options for the decorator
+ * @returns {PropertyDecorator}
+ */
+export function ApiRequestThread(options: PropOptions = {}) {
+  const { required = false } = options;
+
+  return ApiProperty({
+    description: `Slack thread the request is grouped into.`,
+    type: () => RequestThreadDto,
+    required,
+  });
+}
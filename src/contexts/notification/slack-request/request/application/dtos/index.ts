@@ -1,6 +1,14 @@
+export * from './request-batch.response';
+export * from './request-bulk-create.request';
+export * from './request-bulk-create.response';
+export * from './request-cancel.request';
 export * from './request-create.request';
 export * from './request-detail.response';
+export * from './request-edit-message.request';
 export * from './request-list.response';
 export * from './request-pagination.dto';
+export * from './request-reschedule.request';
+export * from './request-slack-interaction.request';
+export * from './request-slack-interaction.response';
 export * from './request-update.request';
 export * from './decorators';
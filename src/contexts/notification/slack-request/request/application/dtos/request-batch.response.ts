@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiRequestBatchId } from './decorators';
+import type { RequestStatusValue } from './decorators';
+
+export const RequestBatchStatusValues = [
+  'in_progress',
+  'completed',
+  'completed_with_failures',
+  'failed',
+  'cancelled',
+] as const;
+export type RequestBatchStatusValue = (typeof RequestBatchStatusValues)[number];
+
+/**
+ * Delivery progress of the requests created by one bulk call
+ */
+export class RequestBatchResponse {
+  @ApiRequestBatchId({ required: true })
+  batchId: string;
+
+  @ApiProperty({
+    description:
+      'in_progress while any request is pending; otherwise completed, completed_with_failures, failed (none sent) or cancelled (all cancelled).',
+    enum: RequestBatchStatusValues,
+  })
+  status: RequestBatchStatusValue;
+
+  @ApiProperty({ description: 'Number of requests in the batch' })
+  total: number;
+
+  @ApiProperty({ description: 'Requests not sent, failed or cancelled yet' })
+  pending: number;
+
+  @ApiProperty()
+  sent: number;
+
+  @ApiProperty()
+  failed: number;
+
+  @ApiProperty()
+  cancelled: number;
+
+  @ApiProperty({
+    description: 'Number of requests per status',
+    example: { queued: 12, sent: 480, failed: 8 },
+  })
+  statusCounts: Partial<Record<RequestStatusValue, number>>;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CreateRequestRequest } from './request-create.request';
+
+/**
+ * Most items one bulk call may create
+ */
+export const REQUEST_BULK_MAX_ITEMS = 500;
+
+export class BulkCreateRequestRequest {
+  @ApiProperty({
+    description: `Requests to create, each shaped like a single create. At most ${REQUEST_BULK_MAX_ITEMS} items.`,
+    type: () => [CreateRequestRequest],
+    minItems: 1,
+    maxItems: REQUEST_BULK_MAX_ITEMS,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(REQUEST_BULK_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => CreateRequestRequest)
+  items: CreateRequestRequest[];
+}
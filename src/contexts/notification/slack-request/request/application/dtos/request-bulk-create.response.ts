@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiRequestBatchId } from './decorators';
+import { DetailRequestResponse } from './request-detail.response';
+
+/**
+ * Why one item of a bulk call was not created
+ */
+export class BulkCreateRequestItemError {
+  @ApiProperty({ example: 'REQUEST.INVALID_TEMPLATE_CODE' })
+  code: string;
+
+  @ApiProperty({ example: 'Value Required' })
+  title: string;
+
+  @ApiProperty({ required: false })
+  detail?: string;
+}
+
+export class BulkCreateRequestItemResponse {
+  @ApiProperty({ description: 'Position of the item in the request body' })
+  index: number;
+
+  @ApiProperty({ enum: ['created', 'failed'] })
+  status: 'created' | 'failed';
+
+  @ApiProperty({ type: () => DetailRequestResponse, required: false })
+  request?: DetailRequestResponse;
+
+  @ApiProperty({ type: () => BulkCreateRequestItemError, required: false })
+  error?: BulkCreateRequestItemError;
+}
+
+export class BulkCreateRequestResponse {
+  @ApiRequestBatchId({ required: true })
+  batchId: string;
+
+  @ApiProperty({ description: 'Number of items received' })
+  total: number;
+
+  @ApiProperty({ description: 'Number of requests created' })
+  created: number;
+
+  @ApiProperty({ description: 'Number of items rejected' })
+  failed: number;
+
+  @ApiProperty({ type: () => [BulkCreateRequestItemResponse] })
+  items: BulkCreateRequestItemResponse[];
+}
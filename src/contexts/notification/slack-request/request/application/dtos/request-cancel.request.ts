@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CancelRequestRequest {
+  @ApiPropertyOptional({
+    description: 'Why the message was cancelled, kept for audit',
+    example: 'Announcement postponed',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -3,11 +3,18 @@
 
 import { CreateRequestProps } from '../../domain/props';
 import {
+  ApiRequestAttachment,
   ApiRequestChannelCode,
   ApiRequestData,
+  ApiRequestQuietHours,
   ApiRequestRecipient,
+  ApiRequestSendAt,
   ApiRequestTemplateCode,
+  ApiRequestThreadBroadcast,
+  ApiRequestThreadKey,
   ApiRequestWorkspaceCode,
+  RequestAttachmentDto,
+  RequestQuietHoursDto,
 } from './decorators';
 
 export class CreateRequestRequest implements CreateRequestProps {
@@ -25,4 +32,19 @@ export class CreateRequestRequest implements CreateRequestProps {
 
   @ApiRequestChannelCode({ required: false })
   channelCode?: string;
+
+  @ApiRequestSendAt({ required: false })
+  sendAt?: string;
+
+  @ApiRequestQuietHours({ required: false })
+  quietHours?: RequestQuietHoursDto;
+
+  @ApiRequestThreadKey({ required: false })
+  threadKey?: string;
+
+  @ApiRequestThreadBroadcast({ required: false })
+  threadBroadcast?: boolean;
+
+  @ApiRequestAttachment({ required: false })
+  attachment?: RequestAttachmentDto;
 }
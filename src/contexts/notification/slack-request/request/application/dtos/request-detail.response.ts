@@ -3,13 +3,24 @@
 
 import type { RequestStatusValue } from './decorators';
 import {
+  ApiRequestAttachment,
+  ApiRequestBatchId,
   ApiRequestChannelCode,
   ApiRequestCode,
   ApiRequestData,
+  ApiRequestMessage,
+  ApiRequestQuietHours,
   ApiRequestRecipient,
+  ApiRequestScheduledFor,
   ApiRequestStatus,
   ApiRequestTemplateCode,
+  ApiRequestTemplateVersion,
+  ApiRequestThread,
   ApiRequestWorkspaceCode,
+  RequestAttachmentDto,
+  RequestMessageRefDto,
+  RequestQuietHoursDto,
+  RequestThreadDto,
 } from './decorators';
 
 export class DetailRequestResponse {
@@ -33,4 +44,25 @@ export class DetailRequestResponse {
 
   @ApiRequestChannelCode({ required: false })
   channelCode?: string;
+
+  @ApiRequestScheduledFor({ required: false })
+  scheduledFor?: string;
+
+  @ApiRequestQuietHours({ required: false })
+  quietHours?: RequestQuietHoursDto;
+
+  @ApiRequestMessage({ required: false })
+  message?: RequestMessageRefDto;
+
+  @ApiRequestThread({ required: false })
+  thread?: RequestThreadDto;
+
+  @ApiRequestBatchId({ required: false })
+  batchId?: string;
+
+  @ApiRequestAttachment({ required: false })
+  attachment?: RequestAttachmentDto;
+
+  @ApiRequestTemplateVersion({ required: false })
+  templateVersion?: number;
 }
@@ -0,0 +1,6 @@
+import { ApiRequestData } from './decorators';
+
+export class EditRequestMessageRequest {
+  @ApiRequestData({ required: true })
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,6 @@
+import { ApiRequestSendAt } from './decorators';
+
+export class RescheduleRequestRequest {
+  @ApiRequestSendAt({ required: true })
+  sendAt: string;
+}
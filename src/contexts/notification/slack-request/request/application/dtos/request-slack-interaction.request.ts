@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Form body Slack posts to the interactivity request URL
+ */
+export class SlackInteractionRequest {
+  @ApiProperty({
+    description:
+      'JSON-encoded interaction payload (block_actions for message buttons)',
+    example:
+      '{"type":"block_actions","user":{"id":"U0123ABCD"},"container":{"type":"message","channel_id":"C0123ABCD","message_ts":"1712345678.000100"},"actions":[{"type":"button","action_id":"approve","block_id":"decision"}]}',
+  })
+  payload: string;
+}
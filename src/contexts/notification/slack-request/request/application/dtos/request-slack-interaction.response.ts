@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Acknowledgement returned to Slack for an interaction
+ */
+export class SlackInteractionAckResponse {
+  @ApiPropertyOptional({
+    description: 'Request the interacted message belongs to',
+    example: 'req_01HZX3K9',
+  })
+  requestCode?: string;
+
+  @ApiProperty({
+    description: 'Number of actions recorded as RequestInteractionReceived',
+    example: 1,
+  })
+  recorded: number;
+
+  @ApiProperty({
+    description: 'Handlers that ran, in action order',
+    example: ['approval'],
+    type: [String],
+  })
+  handlers: string[];
+}
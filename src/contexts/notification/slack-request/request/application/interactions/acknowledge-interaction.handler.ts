@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { Result, DomainError, ok } from 'src/shared/errors';
+import type { SlackInteractionAction } from 'src/shared/infrastructure/slack';
+import {
+  IRequestInteractionHandler,
+  RequestInteractionContext,
+  RequestInteractionOutcome,
+  interactionVerb,
+} from './request-interaction-handler';
+import { replaceActionsBlock } from './interaction-blocks.util';
+
+/**
+ * Acknowledge Interaction Handler
+ *
+ * `acknowledge` / `ack` buttons: swaps the buttons for who acknowledged.
+ */
+@Injectable()
+export class AcknowledgeInteractionHandler
+  implements IRequestInteractionHandler
+{
+  readonly name = 'acknowledge';
+
+  supports(action: SlackInteractionAction): boolean {
+    return ['acknowledge', 'ack'].includes(interactionVerb(action.action_id));
+  }
+
+  handle(
+    context: RequestInteractionContext,
+  ): Promise<Result<RequestInteractionOutcome, DomainError>> {
+    return Promise.resolve(
+      ok({
+        blocks: replaceActionsBlock(
+          context.blocks,
+          context.action,
+          `:white_check_mark: Acknowledged by <@${context.user.id}>`,
+        ),
+      }),
+    );
+  }
+}
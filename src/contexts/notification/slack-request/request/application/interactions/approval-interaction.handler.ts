@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { Result, DomainError, ok } from 'src/shared/errors';
+import type { SlackInteractionAction } from 'src/shared/infrastructure/slack';
+import {
+  IRequestInteractionHandler,
+  RequestInteractionContext,
+  RequestInteractionOutcome,
+  interactionVerb,
+} from './request-interaction-handler';
+import { replaceActionsBlock } from './interaction-blocks.util';
+
+const DECISIONS = new Map<string, string>([
+  ['approve', ':white_check_mark: Approved'],
+  ['reject', ':x: Rejected'],
+]);
+
+/**
+ * Approval Interaction Handler
+ *
+ * `approve` / `reject` buttons: swaps the buttons for the decision and who
+ * made it. The decision itself is the recorded interaction.
+ */
+@Injectable()
+export class ApprovalInteractionHandler implements IRequestInteractionHandler {
+  readonly name = 'approval';
+
+  supports(action: SlackInteractionAction): boolean {
+    return DECISIONS.has(interactionVerb(action.action_id));
+  }
+
+  handle(
+    context: RequestInteractionContext,
+  ): Promise<Result<RequestInteractionOutcome, DomainError>> {
+    const decision = DECISIONS.get(interactionVerb(context.action.action_id));
+
+    return Promise.resolve(
+      ok({
+        blocks: replaceActionsBlock(
+          context.blocks,
+          context.action,
+          `${decision} by <@${context.user.id}>`,
+        ),
+      }),
+    );
+  }
+}
@@ -0,0 +1,6 @@
+export * from './acknowledge-interaction.handler';
+export * from './approval-interaction.handler';
+export * from './interaction-blocks.util';
+export * from './open-url-audit-interaction.handler';
+export * from './request-interaction-handler';
+export * from './request-interaction-handler.registry';
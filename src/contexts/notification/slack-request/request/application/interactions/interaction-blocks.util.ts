@@ -0,0 +1,30 @@
+import {
+  createMrkdwnText,
+  SlackBlock,
+  SlackContextBlock,
+  SlackInteractionAction,
+} from 'src/shared/infrastructure/slack';
+
+/**
+ * Replace the actions block an action came from with a context line, so the
+ * buttons cannot be clicked twice. Without a block_id every actions block
+ * is replaced.
+ */
+export function replaceActionsBlock(
+  blocks: SlackBlock[],
+  action: SlackInteractionAction,
+  summary: string,
+): SlackBlock[] {
+  const replacement = (blockId?: string): SlackContextBlock => ({
+    type: 'context',
+    elements: [createMrkdwnText(summary)],
+    ...(blockId ? { block_id: blockId } : {}),
+  });
+
+  return blocks.map((block) =>
+    block.type === 'actions' &&
+    (!action.block_id || block.block_id === action.block_id)
+      ? replacement(block.block_id)
+      : block,
+  );
+}
@@ -0,0 +1,50 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, ok } from 'src/shared/errors';
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import type { SlackInteractionAction } from 'src/shared/infrastructure/slack';
+import {
+  IRequestInteractionHandler,
+  RequestInteractionContext,
+  RequestInteractionOutcome,
+} from './request-interaction-handler';
+
+/**
+ * Open URL Audit Handler
+ *
+ * Link buttons open in the user's browser; Slack still posts the click.
+ * The click is recorded as an interaction and logged here, the message is
+ * left untouched.
+ */
+@Injectable()
+export class OpenUrlAuditInteractionHandler
+  implements IRequestInteractionHandler
+{
+  readonly name = 'open-url-audit';
+  private readonly logger: Logger;
+
+  constructor(@Inject(APP_LOGGER) moduleLogger: Logger) {
+    this.logger = componentLogger(
+      moduleLogger,
+      'OpenUrlAuditInteractionHandler',
+    );
+  }
+
+  supports(action: SlackInteractionAction): boolean {
+    return !!action.url;
+  }
+
+  handle(
+    context: RequestInteractionContext,
+  ): Promise<Result<RequestInteractionOutcome, DomainError>> {
+    Log.info(this.logger, 'Slack link opened', {
+      method: 'handle',
+      tenant: context.actor.tenant,
+      requestCode: context.request.code,
+      actionId: context.action.action_id,
+      url: context.action.url,
+      slackUserId: context.user.id,
+    });
+
+    return Promise.resolve(ok({}));
+  }
+}
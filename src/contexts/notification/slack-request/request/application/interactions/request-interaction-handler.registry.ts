@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import type { SlackInteractionAction } from 'src/shared/infrastructure/slack';
+import { IRequestInteractionHandler } from './request-interaction-handler';
+import { ApprovalInteractionHandler } from './approval-interaction.handler';
+import { AcknowledgeInteractionHandler } from './acknowledge-interaction.handler';
+import { OpenUrlAuditInteractionHandler } from './open-url-audit-interaction.handler';
+
+/**
+ * Request Interaction Handler Registry
+ *
+ * Holds the handlers Slack actions are routed to. The built-in handlers are
+ * registered up front; other modules add theirs with `register()` during
+ * module init. The first handler that supports an action wins, so handlers
+ * registered later cannot shadow the built-ins for their action ids.
+ */
+@Injectable()
+export class RequestInteractionHandlerRegistry {
+  private readonly handlers: IRequestInteractionHandler[] = [];
+
+  constructor(
+    approval: ApprovalInteractionHandler,
+    acknowledge: AcknowledgeInteractionHandler,
+    openUrlAudit: OpenUrlAuditInteractionHandler,
+  ) {
+    this.register(approval);
+    this.register(acknowledge);
+    this.register(openUrlAudit);
+  }
+
+  register(handler: IRequestInteractionHandler): void {
+    if (this.handlers.some((existing) => existing.name === handler.name)) {
+      throw new Error(
+        `Request interaction handler already registered: ${handler.name}`,
+      );
+    }
+    this.handlers.push(handler);
+  }
+
+  resolve(action: SlackInteractionAction): IRequestInteractionHandler | null {
+    return this.handlers.find((handler) => handler.supports(action)) ?? null;
+  }
+}
@@ -0,0 +1,57 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import type {
+  SlackBlock,
+  SlackInteractionAction,
+} from 'src/shared/infrastructure/slack';
+import { DetailRequestResponse } from '../dtos';
+
+/**
+ * What a handler sees of one Slack action
+ */
+export interface RequestInteractionContext {
+  /** System actor for the tenant that owns the request */
+  actor: ActorContext;
+  /** The request the interacted message belongs to */
+  request: DetailRequestResponse;
+  action: SlackInteractionAction;
+  /** Slack user who clicked */
+  user: { id: string; name?: string };
+  /** Blocks of the message as it currently stands */
+  blocks: SlackBlock[];
+}
+
+/**
+ * What a handler wants done with the original message
+ */
+export interface RequestInteractionOutcome {
+  /** Replacement blocks; leave unset to keep the message as it is */
+  blocks?: SlackBlock[];
+  /** Notification fallback text sent with the replacement blocks */
+  text?: string;
+}
+
+/**
+ * Request Interaction Handler
+ *
+ * Reacts to a Slack action on a delivered request message. The interaction
+ * is already recorded as RequestInteractionReceived when a handler runs, so
+ * handlers only decide how the message should change.
+ */
+export interface IRequestInteractionHandler {
+  /** Name reported in the interaction acknowledgement and logs */
+  readonly name: string;
+
+  supports(action: SlackInteractionAction): boolean;
+
+  handle(
+    context: RequestInteractionContext,
+  ): Promise<Result<RequestInteractionOutcome, DomainError>>;
+}
+
+/**
+ * Verb of an action_id, e.g. `approve` for `approve:expense-42`
+ */
+export function interactionVerb(actionId: string): string {
+  return actionId.split(':')[0].trim().toLowerCase();
+}
@@ -0,0 +1,37 @@
+import type { RequestStatusValue } from '../../dtos';
+import { mapRequestBatchStatusesToDto } from '../request-batch.mapper';
+
+describe('mapRequestBatchStatusesToDto', () => {
+  test.each<[string, RequestStatusValue[], string]>([
+    ['in_progress', ['sent', 'queued', 'failed'], 'anything is pending'],
+    ['completed', ['sent', 'sent', 'cancelled'], 'nothing failed'],
+    ['completed_with_failures', ['sent', 'failed'], 'some failed'],
+    ['failed', ['failed', 'cancelled'], 'nothing was sent'],
+    ['cancelled', ['cancelled', 'cancelled'], 'all were cancelled'],
+  ])('is %s when %j (%s)', (status, statuses) => {
+    expect(mapRequestBatchStatusesToDto('batch-1', statuses).status).toBe(
+      status,
+    );
+  });
+
+  test('counts the requests by status', () => {
+    expect(
+      mapRequestBatchStatusesToDto('batch-1', [
+        'scheduled',
+        'queued',
+        'sent',
+        'sent',
+        'failed',
+      ]),
+    ).toEqual({
+      batchId: 'batch-1',
+      status: 'in_progress',
+      total: 5,
+      pending: 2,
+      sent: 2,
+      failed: 1,
+      cancelled: 0,
+      statusCounts: { scheduled: 1, queued: 1, sent: 2, failed: 1 },
+    });
+  });
+});
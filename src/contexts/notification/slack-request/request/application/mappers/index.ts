@@ -1 +1,3 @@
+export * from './request-attachment.mapper';
+export * from './request-batch.mapper';
 export * from './snapshot.mapper';
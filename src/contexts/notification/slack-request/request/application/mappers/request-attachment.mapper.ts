@@ -0,0 +1,18 @@
+import type { RequestAttachmentProps } from '../../domain/value-objects';
+import type { RequestAttachmentDto } from '../dtos';
+
+/**
+ * Map a stored attachment to its read model
+ *
+ * The blob reference is internal to the send worker, so reads leave it out.
+ */
+export const mapRequestAttachmentToDto = (
+  attachment: RequestAttachmentProps | undefined,
+): RequestAttachmentDto | undefined => {
+  if (!attachment) {
+    return undefined;
+  }
+  const { blobId: _blobId, ...rest } = attachment;
+  void _blobId;
+  return rest;
+};
@@ -0,0 +1,57 @@
+import { REQUEST_PENDING_STATUSES } from '../../domain/value-objects';
+import type {
+  RequestBatchResponse,
+  RequestBatchStatusValue,
+  RequestStatusValue,
+} from '../dtos';
+
+/**
+ * Summarize the statuses of a batch's requests into its progress
+ *
+ * A failed request may still be retried, but counts as settled here: the
+ * batch is done once nothing is pending.
+ *
+ * @param batchId - The batch the statuses belong to
+ * @param statuses - Current status of each request in the batch
+ */
+export const mapRequestBatchStatusesToDto = (
+  batchId: string,
+  statuses: readonly RequestStatusValue[],
+): RequestBatchResponse => {
+  const statusCounts: Partial<Record<RequestStatusValue, number>> = {};
+  for (const status of statuses) {
+    statusCounts[status] = (statusCounts[status] ?? 0) + 1;
+  }
+
+  const total = statuses.length;
+  const pending = statuses.filter((status) =>
+    REQUEST_PENDING_STATUSES.includes(status),
+  ).length;
+  const sent = statusCounts.sent ?? 0;
+  const failed = statusCounts.failed ?? 0;
+  const cancelled = statusCounts.cancelled ?? 0;
+
+  let status: RequestBatchStatusValue;
+  if (pending > 0) {
+    status = 'in_progress';
+  } else if (cancelled === total) {
+    status = 'cancelled';
+  } else if (failed === 0) {
+    status = 'completed';
+  } else if (sent === 0) {
+    status = 'failed';
+  } else {
+    status = 'completed_with_failures';
+  }
+
+  return {
+    batchId,
+    status,
+    total,
+    pending,
+    sent,
+    failed,
+    cancelled,
+    statusCounts,
+  };
+};
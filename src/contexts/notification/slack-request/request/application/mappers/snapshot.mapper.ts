@@ -23,5 +23,12 @@ export const mapRequestSnapshotToDto = (
     workspaceCode: snapshot.workspaceCode,
     templateCode: snapshot.templateCode,
     channelCode: snapshot.channelCode,
+    scheduledFor: snapshot.scheduledFor?.toISOString(),
+    quietHours: snapshot.quietHours,
+    message: snapshot.message,
+    thread: snapshot.thread,
+    batchId: snapshot.batchId,
+    attachment: snapshot.attachment,
+    templateVersion: snapshot.templateVersion,
   };
 };
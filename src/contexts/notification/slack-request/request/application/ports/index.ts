@@ -1,7 +1,11 @@
 export * from './channel-reader.port';
 export * from './request-app.port';
+export * from './request-attachment-store.port';
+export * from './request-message-index.port';
+export * from './request-message.port';
 export * from './request-query.port';
 export * from './request-reader.port';
+export * from './request-send-job.port';
 export * from './request-writer.port';
 export * from './template-reader.port';
 export * from './workspace-reader.port';
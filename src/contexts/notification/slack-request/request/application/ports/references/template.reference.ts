@@ -9,5 +9,9 @@ export interface TemplateReference {
   contentBlocks: string[];
   variables?: string[];
   samplePayload?: Record<string, unknown>;
+  /** JSON Schema request data must match */
+  variablesSchema?: Record<string, unknown>;
   enabled: boolean;
+  /** Version new requests pin; absent until the template is published */
+  publishedVersion?: number;
 }
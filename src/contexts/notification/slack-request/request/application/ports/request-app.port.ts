@@ -14,6 +14,7 @@ export interface IRequestAppPort {
   recordSent(input: {
     code: string; // requestId
     attempts: number;
+    message?: { channelId: string; ts: string }; // where Slack delivered it
     tenant?: string;
     correlationId?: string;
     causationId?: string;
@@ -0,0 +1,43 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+import { ActorContext } from 'src/shared/application/context';
+import type {
+  RequestAttachmentProps,
+  RequestAttachmentUpload,
+} from '../../domain/value-objects';
+
+/**
+ * Stored file of an attachment: inline base64 content or a url to download
+ */
+export type RequestAttachmentBlob = { content: string } | { url: string };
+
+/**
+ * Application Port for attachment blobs
+ *
+ * Requests keep only a reference to their attachment; the content or signed
+ * url is stored here on create and loaded by the send worker.
+ */
+export interface IRequestAttachmentStore {
+  /**
+   * Validate and store the file of an attachment given on create
+   * @returns The attachment as recorded on the request
+   */
+  store(
+    actor: ActorContext,
+    upload: RequestAttachmentUpload,
+  ): Promise<Result<RequestAttachmentProps, DomainError>>;
+
+  /**
+   * Load a stored blob; none once it has expired
+   */
+  load(
+    tenant: string,
+    blobId: string,
+  ): Promise<Result<Option<RequestAttachmentBlob>, DomainError>>;
+}
+
+/**
+ * DI Token for the Request Attachment Store
+ */
+export const REQUEST_ATTACHMENT_STORE_TOKEN =
+  'IRequestAttachmentStore' as const;
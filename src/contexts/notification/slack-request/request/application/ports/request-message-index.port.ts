@@ -0,0 +1,39 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+
+/**
+ * Request a delivered Slack message belongs to
+ */
+export interface RequestMessageIndexEntry {
+  tenant: string;
+  code: string;
+}
+
+/**
+ * Application Port for finding a request by its Slack message
+ *
+ * Slack calls back with a channel id and message ts but no tenant, so inbound
+ * interactions resolve the request through this index before anything else.
+ */
+export interface IRequestMessageIndex {
+  findByMessage(
+    channelId: string,
+    ts: string,
+  ): Promise<Result<Option<RequestMessageIndexEntry>, DomainError>>;
+
+  /**
+   * Mark one action on a message as received; false when it was already
+   * marked within `ttlSeconds`, i.e. the same callback was delivered again
+   */
+  claimAction(
+    channelId: string,
+    ts: string,
+    action: { actionId: string; actionTs: string },
+    ttlSeconds: number,
+  ): Promise<Result<boolean, DomainError>>;
+}
+
+/**
+ * DI Token for the Request Message Index
+ */
+export const REQUEST_MESSAGE_INDEX_TOKEN = 'IRequestMessageIndex' as const;
@@ -0,0 +1,57 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import type { SlackBlock } from 'src/shared/infrastructure/slack/slack-block-kit.types';
+import type { RequestMessageRefProps } from '../../domain/value-objects';
+
+/**
+ * Application Port for acting on delivered Slack messages
+ *
+ * Lets use cases edit or retract the Slack message a request was sent as,
+ * without depending on the Slack client. Failures come back as
+ * SLACK_MESSAGE_ACTION_FAILED with Slack's error code in the context.
+ */
+export interface IRequestMessagePort {
+  /**
+   * Re-render the request's template with new data and replace the message
+   */
+  updateMessage(
+    actor: ActorContext,
+    input: {
+      workspaceCode: string;
+      templateCode: string;
+      /** Pinned published version; the draft is used when absent */
+      templateVersion?: number;
+      message: RequestMessageRefProps;
+      data: Record<string, unknown>;
+    },
+  ): Promise<Result<void, DomainError>>;
+
+  /**
+   * Replace the message with the given blocks, e.g. after an interaction
+   */
+  replaceMessage(
+    actor: ActorContext,
+    input: {
+      workspaceCode: string;
+      message: RequestMessageRefProps;
+      blocks: SlackBlock[];
+      text?: string;
+    },
+  ): Promise<Result<void, DomainError>>;
+
+  /**
+   * Delete the message from its channel
+   */
+  deleteMessage(
+    actor: ActorContext,
+    input: {
+      workspaceCode: string;
+      message: RequestMessageRefProps;
+    },
+  ): Promise<Result<void, DomainError>>;
+}
+
+/**
+ * DI Token for the Request Message Port
+ */
+export const REQUEST_MESSAGE_PORT = Symbol('REQUEST_MESSAGE_PORT');
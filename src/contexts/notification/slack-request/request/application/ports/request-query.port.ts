@@ -7,6 +7,7 @@ import { ActorContext } from 'src/shared/application/context';
 import { Option } from 'src/shared/domain/types';
 import {
   DetailRequestResponse,
+  RequestBatchResponse,
   RequestPageResponse,
   ListRequestFilterRequest,
 } from '../dtos';
@@ -58,4 +59,17 @@ export interface IRequestQuery {
     filter?: ListRequestFilterRequest,
     options?: RepositoryOptions,
   ): Promise<Result<RequestPageResponse, DomainError>>;
+
+  /**
+   * Find the progress of the requests created by one bulk call
+   * @param actor - The actor context containing authentication and request metadata
+   * @param batchId - The batch id returned by the bulk create
+   * @param options - Optional repository options
+   * @returns A promise resolving to a Result containing the batch progress or none if no request belongs to the batch
+   */
+  findBatch(
+    actor: ActorContext,
+    batchId: string,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<RequestBatchResponse>, DomainError>>;
 }
@@ -0,0 +1,29 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+
+/**
+ * Where the send job of a request stands: waiting for its time, sending
+ * right now, or done
+ */
+export type RequestSendJobState = 'pending' | 'running' | 'finished';
+
+/**
+ * Application Port for the send jobs of requests
+ *
+ * A reschedule only moves a job that has not started, so the use case
+ * checks the job before accepting the new send time.
+ */
+export interface IRequestSendJobs {
+  /**
+   * State of the send job of a request; none when it has no job
+   */
+  findState(
+    tenant: string,
+    requestCode: string,
+  ): Promise<Result<Option<RequestSendJobState>, DomainError>>;
+}
+
+/**
+ * DI Token for the Request Send Jobs
+ */
+export const REQUEST_SEND_JOBS_TOKEN = 'IRequestSendJobs' as const;
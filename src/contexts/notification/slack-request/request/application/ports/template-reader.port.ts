@@ -39,4 +39,19 @@ export interface ITemplateReader {
     code: string,
     options?: RepositoryOptions,
   ): Promise<Result<Option<TemplateReference>, DomainError>>;
+
+  /**
+   * Find the content of a published Template version
+   * @param actor - The authenticated user context
+   * @param code - The Template code to lookup
+   * @param version - The published version number
+   * @param options - Optional repository options
+   * @returns Result containing the version content or none if it does not exist
+   */
+  findTemplateVersion(
+    actor: ActorContext,
+    code: string,
+    version: number,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<TemplateReference>, DomainError>>;
 }
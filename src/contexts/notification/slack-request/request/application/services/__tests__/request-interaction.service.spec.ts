@@ -0,0 +1,160 @@
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { SlackSignatureUtil } from 'src/shared/security';
+import {
+  IRequestMessageIndex,
+  IRequestMessagePort,
+  IRequestReader,
+  IWorkspaceReader,
+} from '../../ports';
+import { RequestInteractionHandlerRegistry } from '../../interactions';
+import { IRecordRequestInteractionUseCase } from '../../use-cases/contracts';
+import { RequestInteractionService } from '../request-interaction.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const CODE = '3f0c1b9e-6a47-4d2e-9c1a-8b2f5e7d4a10';
+const SIGNING_SECRET = '8f742231b10e8888abcd99yyyzzz85a5';
+const NOW_SECONDS = 1_760_000_000;
+const clock: Clock = {
+  now: () => new Date(NOW_SECONDS * 1000),
+  nowIso: () => new Date(NOW_SECONDS * 1000).toISOString(),
+  nowMs: () => NOW_SECONDS * 1000,
+};
+
+const payload = JSON.stringify({
+  type: 'block_actions',
+  user: { id: 'U0123ABCD', username: 'ada' },
+  container: { type: 'message', channel_id: 'C0123ABCD', message_ts: '1.2' },
+  actions: [
+    { type: 'button', action_id: 'ack', action_ts: '1760000000.000100' },
+  ],
+});
+const rawBody = `payload=${encodeURIComponent(payload)}`;
+
+describe('RequestInteractionService', () => {
+  let findByMessage: jest.Mock;
+  let claimAction: jest.Mock;
+  let findById: jest.Mock;
+  let recordInteraction: jest.Mock;
+  let service: RequestInteractionService;
+
+  const receive = (signature?: string) =>
+    service.receive({
+      rawBody,
+      payload,
+      signature:
+        signature ??
+        SlackSignatureUtil.sign({
+          body: rawBody,
+          signingSecret: SIGNING_SECRET,
+          timestamp: NOW_SECONDS,
+        }),
+      timestamp: String(NOW_SECONDS),
+    });
+
+  beforeEach(() => {
+    findByMessage = jest
+      .fn()
+      .mockResolvedValue(ok(Option.some({ tenant: 'tenant-a', code: CODE })));
+    claimAction = jest.fn().mockResolvedValue(ok(true));
+    findById = jest
+      .fn()
+      .mockResolvedValue(
+        ok(Option.some({ code: CODE, workspaceCode: 'acme-workspace' })),
+      );
+    recordInteraction = jest.fn().mockResolvedValue(ok({ code: CODE }));
+
+    service = new RequestInteractionService(
+      { findByMessage, claimAction } as unknown as IRequestMessageIndex,
+      { findById } as unknown as IRequestReader,
+      {
+        findWorkspaceByCode: jest
+          .fn()
+          .mockResolvedValue(
+            ok(Option.some({ signingSecret: SIGNING_SECRET })),
+          ),
+      } as unknown as IWorkspaceReader,
+      { replaceMessage: jest.fn() } as unknown as IRequestMessagePort,
+      {
+        execute: recordInteraction,
+      } as unknown as IRecordRequestInteractionUseCase,
+      {
+        resolve: jest.fn().mockReturnValue(null),
+      } as unknown as RequestInteractionHandlerRegistry,
+      clock,
+      createMockLogger(),
+    );
+  });
+
+  test('records a signed action', async () => {
+    const result = await receive();
+
+    expect(result).toEqual({
+      ok: true,
+      value: { requestCode: CODE, recorded: 1, handlers: [] },
+    });
+    expect(claimAction).toHaveBeenCalledWith(
+      'C0123ABCD',
+      '1.2',
+      { actionId: 'ack', actionTs: '1760000000.000100' },
+      300,
+    );
+  });
+
+  test('looks nothing up for an unsigned call', async () => {
+    const result = await receive('');
+
+    expect(!result.ok && result.error.code).toBe(
+      'REQUEST.INTERACTION_SIGNATURE_INVALID',
+    );
+    expect(findByMessage).not.toHaveBeenCalled();
+  });
+
+  test('answers an unknown message like a bad signature', async () => {
+    findByMessage.mockResolvedValue(ok(Option.none()));
+
+    const unknownMessage = await receive();
+    const badSignature = await receive(`v0=${'ab'.repeat(32)}`);
+
+    const generic = expect.objectContaining({
+      code: 'REQUEST.INTERACTION_SIGNATURE_INVALID',
+      context: { correlationId: expect.any(String) as string },
+    }) as unknown;
+    expect(!unknownMessage.ok && unknownMessage.error).toEqual(generic);
+    expect(!badSignature.ok && badSignature.error).toEqual(generic);
+  });
+
+  test('answers a missing request like a bad signature', async () => {
+    findById.mockResolvedValue(ok(Option.none()));
+
+    const result = await receive();
+
+    expect(!result.ok && result.error).toEqual(
+      expect.objectContaining({
+        code: 'REQUEST.INTERACTION_SIGNATURE_INVALID',
+        context: { correlationId: expect.any(String) as string },
+      }),
+    );
+  });
+
+  test('records a replayed action only once', async () => {
+    claimAction.mockResolvedValueOnce(ok(true)).mockResolvedValue(ok(false));
+
+    await receive();
+    const replay = await receive();
+
+    expect(replay.ok && replay.value.recorded).toBe(0);
+    expect(recordInteraction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,4 +1,5 @@
 export * from './request-authorization.adapter';
 export * from './request-authorization.service';
 export * from './request-foreign-key-validator.service';
+export * from './request-interaction.service';
 export * from './request.service';
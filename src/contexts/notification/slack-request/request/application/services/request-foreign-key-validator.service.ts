@@ -6,6 +6,7 @@ import { Result, ok, err, DomainError, withContext } from 'src/shared/errors';
 import { Log, Logger } from 'src/shared/logging';
 import { ActorContext } from 'src/shared/application/context';
 import { Option } from 'src/shared/domain/types';
+import { AjvSchemaValidationService } from 'src/shared/infrastructure/validation';
 import { RequestErrors } from '../../domain/errors';
 import { SlackRequestServiceConstants } from '../../../service-constants';
 import {
@@ -48,6 +49,7 @@ export class RequestForeignKeyValidatorService {
     private readonly templateReader: ITemplateReader,
     @Inject(CHANNEL_REFERENCE_READER_TOKEN)
     private readonly channelReader: IChannelReader,
+    private readonly schemaValidator: AjvSchemaValidationService,
   ) {}
   /**
    * Validates workspaceCode existence
@@ -295,6 +297,84 @@ export class RequestForeignKeyValidatorService {
     return ok(channel.value);
   }
 
+  /**
+   * Validates request data against the variables schema of its template
+   *
+   * A published template is checked against the schema of the version the
+   * request will pin, since that is what gets rendered; drafts use their own.
+   * @param actor - User context for authorization
+   * @param template - Template the request references
+   * @param data - Request data
+   * @param context - Validation context for logging and error handling
+   * @param logger - Logger instance for structured logging
+   * @returns Result with one error per offending field on mismatch
+   */
+  async validateTemplateData(
+    actor: ActorContext,
+    template: TemplateReference,
+    data: Record<string, unknown> | undefined,
+    context: ForeignKeyValidationContext,
+    logger: Logger,
+  ): Promise<Result<void, DomainError>> {
+    let schema = template.variablesSchema;
+    if (template.publishedVersion !== undefined) {
+      const versionResult = await this.templateReader.findTemplateVersion(
+        actor,
+        template.code,
+        template.publishedVersion,
+      );
+      if (!versionResult.ok) {
+        return err(versionResult.error);
+      }
+      if (Option.isSome(versionResult.value)) {
+        schema = versionResult.value.value.variablesSchema;
+      }
+    }
+    if (!schema) {
+      return ok(undefined);
+    }
+
+    const result = this.schemaValidator.validateData(schema, data ?? {});
+    if (result.isValid) {
+      return ok(undefined);
+    }
+
+    const errors = (result.details ?? []).map((detail, i) => {
+      const missing = (detail.params as { missingProperty?: string })
+        .missingProperty;
+      const field = [
+        'data',
+        ...detail.instancePath.split('/').filter(Boolean),
+        ...(detail.keyword === 'required' && missing ? [missing] : []),
+      ].join('.');
+      return { field, message: result.errors[i] };
+    });
+
+    Log.warn(logger, 'Request data does not match the template schema', {
+      application: SlackRequestServiceConstants.SERVICE_NAME,
+      component: context.component,
+      method: 'validateTemplateData',
+      correlationId: context.correlationId,
+      userId: context.userId,
+      templateCode: template.code,
+      templateVersion: template.publishedVersion,
+      operation: context.operation,
+      fields: errors.map((e) => e.field),
+    });
+    return err(
+      withContext(RequestErrors.INVALID_TEMPLATE_DATA, {
+        correlationId: context.correlationId,
+        userId: context.userId,
+        operation: context.operation,
+        templateCode: template.code,
+        templateVersion: template.publishedVersion,
+        validationErrors: errors.length
+          ? errors
+          : result.errors.map((message) => ({ field: 'data', message })),
+      }),
+    );
+  }
+
   /**
    * Validates all foreign keys for request props
    * @param actor - User context for authorization
@@ -309,6 +389,7 @@ export class RequestForeignKeyValidatorService {
       workspaceCode?: string;
       templateCode?: string;
       channelCode?: string;
+      data?: Record<string, unknown>;
     },
     context: ForeignKeyValidationContext,
     logger: Logger,
@@ -344,6 +425,20 @@ export class RequestForeignKeyValidatorService {
       return templateCodeValidation;
     }
 
+    // Reject data the template cannot render before anything is queued
+    if (templateCodeValidation.value) {
+      const dataValidation = await this.validateTemplateData(
+        actor,
+        templateCodeValidation.value,
+        props.data,
+        context,
+        logger,
+      );
+      if (!dataValidation.ok) {
+        return dataValidation;
+      }
+    }
+
     // Validate channelCode if provided
     const channelCodeValidation = await this.validateChannelCode(
       actor,
@@ -376,6 +471,7 @@ export class RequestForeignKeyValidatorService {
       workspaceCode?: string;
       templateCode?: string;
       channelCode?: string;
+      data?: Record<string, unknown>;
     },
     context: ForeignKeyValidationContext,
     logger: Logger,
@@ -0,0 +1,380 @@
+/**
+ * Request Interaction Service
+ *
+ * Entry point for Slack interactivity callbacks (button clicks and other
+ * block actions on delivered request messages).
+ */
+
+// Framework imports
+import { Inject, Injectable } from '@nestjs/common';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import { Result, DomainError, err, ok } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import {
+  createSystemUserToken,
+  DEFAULT_SLACK_SIGNATURE_TOLERANCE_SECONDS,
+  SlackSignatureUtil,
+} from 'src/shared/security';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { Option } from 'src/shared/domain/types';
+import {
+  isSlackBlockActionsPayload,
+  SlackBlock,
+  SlackBlockActionsPayload,
+} from 'src/shared/infrastructure/slack';
+
+// Domain types and errors
+import { RequestErrors } from '../../domain/errors/request.errors';
+import { createRequestCode } from '../../domain/value-objects/code.vo';
+
+// Application layer
+import {
+  IRequestMessageIndex,
+  IRequestMessagePort,
+  IRequestReader,
+  IWorkspaceReader,
+  REQUEST_MESSAGE_INDEX_TOKEN,
+  REQUEST_MESSAGE_PORT,
+  REQUEST_READER_TOKEN,
+  WORKSPACE_REFERENCE_READER_TOKEN,
+} from '../ports';
+import { SlackInteractionAckResponse } from '../dtos';
+import { RequestInteractionHandlerRegistry } from '../interactions';
+import { IRecordRequestInteractionUseCase } from '../use-cases/contracts';
+
+/**
+ * Application Service for Slack interactions on request messages
+ *
+ * Slack calls carry no tenant or JWT, so the interacted message is mapped
+ * back to its request through the message index, and the call is trusted
+ * only once its signature checks out against that request's workspace
+ * signing secret. Each action is then recorded once, however often Slack
+ * delivers it, and handed to the first registered handler that supports it;
+ * block changes from all handlers are applied to the original message in a
+ * single chat.update.
+ */
+@Injectable()
+export class RequestInteractionService {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(REQUEST_MESSAGE_INDEX_TOKEN)
+    private readonly messageIndex: IRequestMessageIndex,
+    @Inject(REQUEST_READER_TOKEN)
+    private readonly requestReader: IRequestReader,
+    @Inject(WORKSPACE_REFERENCE_READER_TOKEN)
+    private readonly workspaceReader: IWorkspaceReader,
+    @Inject(REQUEST_MESSAGE_PORT)
+    private readonly requestMessagePort: IRequestMessagePort,
+    private readonly recordInteractionUseCase: IRecordRequestInteractionUseCase,
+    private readonly handlerRegistry: RequestInteractionHandlerRegistry,
+    @Inject(CLOCK) private readonly clock: Clock,
+    @Inject(APP_LOGGER) moduleLogger: Logger,
+  ) {
+    this.logger = componentLogger(moduleLogger, 'RequestInteractionService');
+  }
+
+  /**
+   * Verify, record and handle one interactivity callback
+   *
+   * @param input.rawBody - Request body exactly as received, for the signature
+   * @param input.payload - The `payload` form field
+   */
+  async receive(input: {
+    rawBody: string;
+    payload?: string;
+    signature?: string;
+    timestamp?: string;
+  }): Promise<Result<SlackInteractionAckResponse, DomainError>> {
+    const correlationId = CorrelationUtil.generateForOperation(
+      'request-slack-interaction',
+    );
+    const ctx = { method: 'receive', correlationId };
+
+    // Until the signature checks out, every failure answers the same so an
+    // unsigned caller cannot probe which messages and requests exist
+    const reject = (reason: string, details: Record<string, unknown> = {}) => {
+      Log.warn(this.logger, 'Rejected Slack interaction', {
+        ...ctx,
+        ...details,
+        reason,
+      });
+      return err({
+        ...RequestErrors.INTERACTION_SIGNATURE_INVALID,
+        context: { correlationId },
+      });
+    };
+
+    const now = Math.floor(this.clock.nowMs() / 1000);
+    const headers = SlackSignatureUtil.checkHeaders({
+      signature: input.signature,
+      timestamp: input.timestamp,
+      now,
+    });
+    if (!headers.valid) {
+      return reject(headers.reason);
+    }
+
+    const parsed = this.parsePayload(input.payload);
+    if (!parsed.ok) {
+      return reject('unparseable_payload');
+    }
+    if (parsed.value.type !== 'block_actions') {
+      Log.debug(this.logger, 'Ignoring unsupported Slack interaction', {
+        ...ctx,
+        type: parsed.value.type,
+      });
+      return ok({ recorded: 0, handlers: [] });
+    }
+    if (!isSlackBlockActionsPayload(parsed.value)) {
+      return reject('malformed_block_actions');
+    }
+    const payload: SlackBlockActionsPayload = parsed.value;
+
+    const channelId = payload.container?.channel_id ?? payload.channel?.id;
+    const messageTs = payload.container?.message_ts ?? payload.message?.ts;
+    if (!channelId || !messageTs) {
+      return reject('no_message');
+    }
+
+    const indexResult = await this.messageIndex.findByMessage(
+      channelId,
+      messageTs,
+    );
+    if (!indexResult.ok) {
+      return reject('message_index_unavailable', {
+        error: indexResult.error.code,
+      });
+    }
+    if (Option.isNone(indexResult.value)) {
+      return reject('unknown_message', { channelId, messageTs });
+    }
+    const { tenant, code } = indexResult.value.value;
+
+    const actor: ActorContext = {
+      tenant,
+      userId: 'system',
+      tenant_userId: 'system',
+    };
+
+    const workspaceResult = await this.resolveSigningSecret(actor, code);
+    if (!workspaceResult.ok) {
+      return reject('no_signing_secret', {
+        tenant,
+        requestCode: code,
+        error: workspaceResult.error.code,
+      });
+    }
+    const { workspaceCode, signingSecret } = workspaceResult.value;
+
+    const verification = SlackSignatureUtil.verify({
+      body: input.rawBody,
+      signingSecret,
+      signature: input.signature,
+      timestamp: input.timestamp,
+      now,
+    });
+    if (!verification.valid) {
+      return reject(verification.reason, { tenant, requestCode: code });
+    }
+
+    const user = createSystemUserToken(tenant);
+    const slackUser = {
+      id: payload.user.id,
+      name: payload.user.username ?? payload.user.name,
+    };
+    let blocks: SlackBlock[] = payload.message?.blocks ?? [];
+    let text = payload.message?.text;
+    let blocksChanged = false;
+    const handlers: string[] = [];
+
+    let recorded = 0;
+
+    for (const action of payload.actions) {
+      // Slack retries and replayed captures resend the same action; the
+      // mark outlives the window in which their signature is accepted
+      const claimResult = await this.messageIndex.claimAction(
+        channelId,
+        messageTs,
+        {
+          actionId: action.action_id,
+          actionTs: action.action_ts ?? String(verification.timestamp),
+        },
+        DEFAULT_SLACK_SIGNATURE_TOLERANCE_SECONDS,
+      );
+      if (!claimResult.ok) {
+        return err(claimResult.error);
+      }
+      if (!claimResult.value) {
+        Log.info(this.logger, 'Ignoring repeated Slack interaction action', {
+          ...ctx,
+          tenant,
+          requestCode: code,
+          actionId: action.action_id,
+        });
+        continue;
+      }
+
+      const recordResult = await this.recordInteractionUseCase.execute({
+        user,
+        props: {
+          code,
+          actionId: action.action_id,
+          actionType: action.type,
+          blockId: action.block_id,
+          value: action.value ?? action.selected_option?.value,
+          url: action.url,
+          userId: slackUser.id,
+          userName: slackUser.name,
+          teamId: payload.team?.id ?? payload.user.team_id,
+          actionTs: action.action_ts,
+        },
+        correlationId,
+        authorizationReason: 'Slack interaction signed by the workspace',
+      });
+      if (!recordResult.ok) {
+        return err(recordResult.error);
+      }
+      recorded += 1;
+
+      const handler = this.handlerRegistry.resolve(action);
+      if (!handler) {
+        continue;
+      }
+      handlers.push(handler.name);
+
+      const outcome = await handler.handle({
+        actor,
+        request: recordResult.value,
+        action,
+        user: slackUser,
+        blocks,
+      });
+      if (!outcome.ok) {
+        Log.warn(this.logger, 'Interaction handler failed', {
+          ...ctx,
+          tenant,
+          requestCode: code,
+          handler: handler.name,
+          actionId: action.action_id,
+          error: outcome.error.code,
+        });
+        continue;
+      }
+      if (outcome.value.blocks) {
+        blocks = outcome.value.blocks;
+        text = outcome.value.text ?? text;
+        blocksChanged = true;
+      }
+    }
+
+    if (blocksChanged) {
+      // The interactions are recorded either way; a failed update only
+      // leaves the original buttons in place
+      const replaceResult = await this.requestMessagePort.replaceMessage(
+        actor,
+        {
+          workspaceCode,
+          message: { channelId, ts: messageTs },
+          blocks,
+          text,
+        },
+      );
+      if (!replaceResult.ok) {
+        Log.warn(this.logger, 'Failed to update interacted message', {
+          ...ctx,
+          tenant,
+          requestCode: code,
+          error: replaceResult.error.code,
+        });
+      }
+    }
+
+    Log.info(this.logger, 'Slack interaction handled', {
+      ...ctx,
+      tenant,
+      requestCode: code,
+      recorded,
+      handlers,
+    });
+
+    return ok({
+      requestCode: code,
+      recorded,
+      handlers,
+    });
+  }
+
+  private parsePayload(
+    payload?: string,
+  ): Result<{ type: string } & Record<string, unknown>, DomainError> {
+    try {
+      const parsed: unknown = payload ? JSON.parse(payload) : undefined;
+      if (
+        parsed &&
+        typeof parsed === 'object' &&
+        typeof (parsed as Record<string, unknown>).type === 'string'
+      ) {
+        return ok(parsed as { type: string } & Record<string, unknown>);
+      }
+    } catch {
+      // Reported below
+    }
+    return err({
+      ...RequestErrors.INVALID_INTERACTION_PAYLOAD,
+      context: { reason: 'unparseable_payload' },
+    });
+  }
+
+  /**
+   * Look up the signing secret of the workspace the request was sent from
+   */
+  private async resolveSigningSecret(
+    actor: ActorContext,
+    code: string,
+  ): Promise<
+    Result<{ workspaceCode: string; signingSecret: string }, DomainError>
+  > {
+    const codeResult = createRequestCode(code);
+    if (!codeResult.ok) {
+      return err(RequestErrors.INVALID_CODE);
+    }
+
+    const snapshotResult = await this.requestReader.findById(
+      actor,
+      codeResult.value,
+    );
+    if (!snapshotResult.ok) {
+      return err(snapshotResult.error);
+    }
+    if (Option.isNone(snapshotResult.value)) {
+      return err({
+        ...RequestErrors.REQUEST_NOT_FOUND,
+        context: { code, operation: 'receive_interaction' },
+      });
+    }
+    const workspaceCode = snapshotResult.value.value.workspaceCode;
+
+    const workspaceResult = await this.workspaceReader.findWorkspaceByCode(
+      actor,
+      workspaceCode,
+    );
+    if (!workspaceResult.ok) {
+      return err(workspaceResult.error);
+    }
+    const signingSecret = Option.isSome(workspaceResult.value)
+      ? workspaceResult.value.value.signingSecret
+      : undefined;
+    if (!signingSecret) {
+      return err({
+        ...RequestErrors.INTERACTION_SIGNATURE_INVALID,
+        context: { code, workspaceCode, reason: 'no_signing_secret' },
+      });
+    }
+
+    return ok({ workspaceCode, signingSecret });
+  }
+}
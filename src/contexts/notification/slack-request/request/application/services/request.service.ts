@@ -23,11 +23,19 @@ import { SlackRequestServiceConstants } from '../../../service-constants';
 
 // Domain types and errors
 import { RequestErrors } from '../../domain/errors/request.errors';
-import type { CreateRequestProps } from '../../domain/props';
+import type {
+  BulkCreateRequestProps,
+  CreateRequestProps,
+} from '../../domain/props';
 import {
+  BulkCreateRequestResponse,
+  CancelRequestRequest,
   DetailRequestResponse,
+  EditRequestMessageRequest,
+  RescheduleRequestRequest,
   ListRequestFilterRequest,
   RequestPageResponse,
+  RequestBatchResponse,
 } from '../dtos';
 
 // Application layer
@@ -37,10 +45,16 @@ import { RequestAuthContext } from '../types/request-auth-context';
 // Use case contracts
 import {
   ICreateRequestUseCase,
+  IBulkCreateRequestUseCase,
   IGetRequestUseCase,
+  IGetRequestBatchUseCase,
   IListRequestUseCase,
   ISentRequestUseCase,
   IFailedRequestUseCase,
+  ICancelRequestUseCase,
+  IRescheduleRequestUseCase,
+  IEditRequestMessageUseCase,
+  IRetractRequestMessageUseCase,
 } from '../use-cases/contracts';
 import { IRequestAppPort } from '../ports/request-app.port';
 
@@ -55,10 +69,16 @@ export class RequestApplicationService implements IRequestAppPort {
   constructor(
     private readonly requestAuthorizationService: RequestAuthorizationService,
     private readonly createRequestUseCase: ICreateRequestUseCase,
+    private readonly bulkCreateRequestUseCase: IBulkCreateRequestUseCase,
     private readonly getRequestUseCase: IGetRequestUseCase,
+    private readonly getRequestBatchUseCase: IGetRequestBatchUseCase,
     private readonly listRequestUseCase: IListRequestUseCase,
     private readonly recordSentUseCase: ISentRequestUseCase,
     private readonly recordFailedUseCase: IFailedRequestUseCase,
+    private readonly cancelRequestUseCase: ICancelRequestUseCase,
+    private readonly rescheduleRequestUseCase: IRescheduleRequestUseCase,
+    private readonly editRequestMessageUseCase: IEditRequestMessageUseCase,
+    private readonly retractRequestMessageUseCase: IRetractRequestMessageUseCase,
     @Inject(CLOCK) private readonly clock: Clock,
     @Inject(APP_LOGGER) moduleLogger: Logger,
   ) {
@@ -128,7 +148,7 @@ export class RequestApplicationService implements IRequestAppPort {
    * Centralized auth → log → execute → catch pattern
    */
   private async authorizeThenExecute<T>(args: {
-    operation: 'create' | 'update' | 'read';
+    operation: 'create' | 'update' | 'delete' | 'read';
     user: IUserToken;
     code?: string;
     correlationIdPrefix: string;
@@ -224,7 +244,8 @@ export class RequestApplicationService implements IRequestAppPort {
       doExecute: () =>
         this.createRequestUseCase.execute({
           user,
-          props,
+          // A batch id is only assigned by the bulk create
+          props: { ...props, batchId: undefined },
           correlationId,
           authorizationReason: 'create_request',
           ...(options?.idempotencyKey && {
@@ -234,6 +255,39 @@ export class RequestApplicationService implements IRequestAppPort {
     });
   }
 
+  /**
+   * Create many requests under one batch id; items fail independently
+   */
+  async bulkCreateRequests(
+    user: IUserToken,
+    props: BulkCreateRequestProps,
+  ): Promise<Result<BulkCreateRequestResponse, DomainError>> {
+    const authContext = this.createAuthContext(user, 'create');
+    const correlationId = CorrelationUtil.generateForOperation(
+      'request-bulk-create',
+    );
+
+    return this.authorizeThenExecute<BulkCreateRequestResponse>({
+      operation: 'create',
+      user,
+      correlationIdPrefix: 'request-bulk-create',
+      doAuthorize: () =>
+        this.requestAuthorizationService.canCreateRequest(
+          user.sub,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.bulkCreateRequestUseCase.execute({
+          user,
+          props,
+          correlationId,
+          authorizationReason: 'bulk_create_request',
+        }),
+      logContext: { itemCount: props?.items?.length },
+    });
+  }
+
   /**
    * Get a request by ID with authorization
    */
@@ -272,6 +326,37 @@ export class RequestApplicationService implements IRequestAppPort {
     });
   }
 
+  /**
+   * Get the progress of a bulk create with authorization
+   */
+  async getRequestBatch(
+    user: IUserToken,
+    batchId: string,
+  ): Promise<Result<RequestBatchResponse, DomainError>> {
+    const authContext = this.createAuthContext(user, 'read');
+    const correlationId = CorrelationUtil.generateForOperation('request-batch');
+
+    return this.authorizeThenExecute<RequestBatchResponse>({
+      operation: 'read',
+      user,
+      correlationIdPrefix: 'request-batch',
+      doAuthorize: () =>
+        this.requestAuthorizationService.canReadRequest(
+          user.sub,
+          batchId,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.getRequestBatchUseCase.execute({
+          user,
+          batchId,
+          correlationId,
+        }),
+      logContext: { batchId },
+    });
+  }
+
   /**
    * List requests with authorization and pagination
    */
@@ -309,12 +394,182 @@ export class RequestApplicationService implements IRequestAppPort {
       },
     });
   }
+  /**
+   * Cancel a request that has not been sent yet
+   */
+  async cancelRequest(
+    user: IUserToken,
+    code: string,
+    body: CancelRequestRequest,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'update');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+
+    const validatedCode = codeValidation.value;
+    const authContext = this.createAuthContext(user, 'update');
+    const correlationId =
+      CorrelationUtil.generateForOperation('request-cancel');
+
+    return this.authorizeThenExecute<DetailRequestResponse>({
+      operation: 'update',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'request-cancel',
+      doAuthorize: () =>
+        this.requestAuthorizationService.canUpdateRequest(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.cancelRequestUseCase.execute({
+          user,
+          props: { code: validatedCode, reason: body?.reason },
+          correlationId,
+          authorizationReason: 'cancel_request',
+        }),
+      logContext: { code: validatedCode, action: 'cancel' },
+    });
+  }
+
+  /**
+   * Move the send time of a request that has not been sent yet
+   */
+  async rescheduleRequest(
+    user: IUserToken,
+    code: string,
+    body: RescheduleRequestRequest,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'update');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+
+    const validatedCode = codeValidation.value;
+    const authContext = this.createAuthContext(user, 'update');
+    const correlationId =
+      CorrelationUtil.generateForOperation('request-reschedule');
+
+    return this.authorizeThenExecute<DetailRequestResponse>({
+      operation: 'update',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'request-reschedule',
+      doAuthorize: () =>
+        this.requestAuthorizationService.canUpdateRequest(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.rescheduleRequestUseCase.execute({
+          user,
+          props: { code: validatedCode, sendAt: body.sendAt },
+          correlationId,
+          authorizationReason: 'reschedule_request',
+        }),
+      logContext: {
+        code: validatedCode,
+        action: 'reschedule',
+        sendAt: body.sendAt,
+      },
+    });
+  }
+
+  /**
+   * Re-render the Slack message of a sent request with new data
+   */
+  async editRequestMessage(
+    user: IUserToken,
+    code: string,
+    body: EditRequestMessageRequest,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'update');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+
+    const validatedCode = codeValidation.value;
+    const authContext = this.createAuthContext(user, 'update');
+    const correlationId = CorrelationUtil.generateForOperation(
+      'request-edit-message',
+    );
+
+    return this.authorizeThenExecute<DetailRequestResponse>({
+      operation: 'update',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'request-edit-message',
+      doAuthorize: () =>
+        this.requestAuthorizationService.canUpdateRequest(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.editRequestMessageUseCase.execute({
+          user,
+          props: { code: validatedCode, data: body.data },
+          correlationId,
+          authorizationReason: 'edit_request_message',
+        }),
+      logContext: { code: validatedCode, action: 'edit_message' },
+    });
+  }
+
+  /**
+   * Delete the Slack message of a sent request and retire the request
+   */
+  async retractRequestMessage(
+    user: IUserToken,
+    code: string,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    const codeValidation = this.validateCode(code, 'delete');
+    if (!codeValidation.ok) {
+      return err(codeValidation.error);
+    }
+
+    const validatedCode = codeValidation.value;
+    const authContext = this.createAuthContext(user, 'delete');
+    const correlationId = CorrelationUtil.generateForOperation(
+      'request-retract-message',
+    );
+
+    return this.authorizeThenExecute<DetailRequestResponse>({
+      operation: 'delete',
+      user,
+      code: validatedCode,
+      correlationIdPrefix: 'request-retract-message',
+      doAuthorize: () =>
+        this.requestAuthorizationService.canDeleteRequest(
+          user.sub,
+          validatedCode,
+          correlationId,
+          authContext,
+        ),
+      doExecute: () =>
+        this.retractRequestMessageUseCase.execute({
+          user,
+          props: { code: validatedCode },
+          correlationId,
+          authorizationReason: 'retract_request_message',
+        }),
+      logContext: { code: validatedCode, action: 'retract_message' },
+    });
+  }
+
   /**
    * Record successful message delivery (System operation)
    */
   async RequestSent(input: {
     code: string;
     attempts: number;
+    message?: { channelId: string; ts: string };
     tenant?: string;
     correlationId?: string;
     causationId?: string;
@@ -343,6 +598,7 @@ export class RequestApplicationService implements IRequestAppPort {
         props: {
           code: input.code,
           attempts: input.attempts,
+          message: input.message,
           correlationId: input.correlationId,
           causationId: input.causationId,
         },
@@ -466,6 +722,7 @@ export class RequestApplicationService implements IRequestAppPort {
   async recordSent(input: {
     code: string;
     attempts: number;
+    message?: { channelId: string; ts: string };
     tenant?: string;
     correlationId?: string;
     causationId?: string;
@@ -0,0 +1,147 @@
+import { err, ok } from 'src/shared/errors';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { createSystemUserToken } from 'src/shared/security';
+import { RequestErrors } from '../../../domain/errors';
+import type { BulkCreateRequestProps } from '../../../domain/props';
+import { REQUEST_BULK_MAX_ITEMS } from '../../dtos';
+import { ICreateRequestUseCase } from '../contracts';
+import { BulkCreateRequestUseCase } from '../bulk-create-request.use-case';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+  nowMs: () => NOW.getTime(),
+};
+
+type Item = BulkCreateRequestProps['items'][number];
+type CreateParams = {
+  props: Item & { batchId: string };
+  correlationId: string;
+};
+
+const item = (recipient: string) =>
+  ({
+    workspaceCode: 'acme-workspace',
+    templateCode: 'order-shipped',
+    recipient,
+    data: { name: recipient },
+  }) as Item;
+
+describe('BulkCreateRequestUseCase', () => {
+  const user = createSystemUserToken('tenant-a');
+  let create: jest.Mock;
+  let useCase: BulkCreateRequestUseCase;
+
+  beforeEach(() => {
+    create = jest.fn((params: CreateParams) =>
+      Promise.resolve(
+        params.props.recipient === 'U0BAD'
+          ? err({
+              ...RequestErrors.INVALID_RECIPIENT,
+              detail: 'Unknown recipient',
+            })
+          : ok({ code: `code-${params.props.recipient}` }),
+      ),
+    );
+    useCase = new BulkCreateRequestUseCase(
+      { execute: create } as unknown as ICreateRequestUseCase,
+      createMockLogger(),
+      clock,
+    );
+  });
+
+  const bulkCreate = (items: Item[]) =>
+    useCase.execute({
+      user,
+      props: { items },
+      correlationId: 'corr-1',
+      authorizationReason: 'test',
+    });
+
+  test('reports each item as created or failed, in input order', async () => {
+    const result = await bulkCreate([
+      item('U0ADA'),
+      item('U0BAD'),
+      item('U0BOB'),
+    ]);
+
+    const response = result.ok ? result.value : undefined;
+    expect(response).toEqual(
+      expect.objectContaining({ total: 3, created: 2, failed: 1 }),
+    );
+    expect(response?.items).toEqual([
+      { index: 0, status: 'created', request: { code: 'code-U0ADA' } },
+      {
+        index: 1,
+        status: 'failed',
+        error: {
+          code: 'REQUEST.INVALID_RECIPIENT',
+          title: RequestErrors.INVALID_RECIPIENT.title,
+          detail: 'Unknown recipient',
+        },
+      },
+      { index: 2, status: 'created', request: { code: 'code-U0BOB' } },
+    ]);
+  });
+
+  test('creates every item in one batch, traced by its index', async () => {
+    const result = await bulkCreate([item('U0ADA'), item('U0BOB')]);
+
+    const calls = create.mock.calls as [CreateParams][];
+    const batchId = result.ok ? result.value.batchId : undefined;
+    expect(batchId).toEqual(expect.any(String));
+    expect(calls.map(([params]) => params.props.batchId)).toEqual([
+      batchId,
+      batchId,
+    ]);
+    expect(calls.map(([params]) => params.correlationId)).toEqual([
+      'corr-1:0',
+      'corr-1:1',
+    ]);
+  });
+
+  test('creates at most ten items at a time', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    create.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await Promise.resolve();
+      inFlight--;
+      return ok({});
+    });
+
+    const result = await bulkCreate(
+      Array.from({ length: 25 }, (_, i) => item(`U0${i}`)),
+    );
+
+    expect(result.ok && result.value.created).toBe(25);
+    expect(maxInFlight).toBe(10);
+  });
+
+  test.each([
+    ['no items', 0],
+    ['more items than allowed', REQUEST_BULK_MAX_ITEMS + 1],
+  ])('rejects %s', async (_case, count) => {
+    const result = await bulkCreate(
+      Array.from({ length: count }, () => item('U0ADA')),
+    );
+
+    expect(!result.ok && result.error.code).toBe(
+      'REQUEST.INVALID_BULK_REQUEST',
+    );
+    expect(create).not.toHaveBeenCalled();
+  });
+});
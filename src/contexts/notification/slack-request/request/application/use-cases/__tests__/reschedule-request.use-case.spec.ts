@@ -0,0 +1,86 @@
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { createSystemUserToken } from 'src/shared/security';
+import { IRequestReader, IRequestSendJobs, IRequestWriter } from '../../ports';
+import { RescheduleRequestUseCase } from '../reschedule-request.use-case';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const CODE = '3f0c1b9e-6a47-4d2e-9c1a-8b2f5e7d4a10';
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+  nowMs: () => NOW.getTime(),
+};
+
+const snapshot = {
+  code: CODE,
+  recipient: 'U0123ABCD',
+  data: { name: 'Ada' },
+  status: 'queued',
+  workspaceCode: 'acme-workspace',
+  templateCode: 'order-shipped',
+  channelCode: 'ops-alerts',
+  createdAt: NOW,
+  updatedAt: NOW,
+  version: 1,
+};
+
+describe('RescheduleRequestUseCase', () => {
+  const user = createSystemUserToken('tenant-a');
+  let findState: jest.Mock;
+  let save: jest.Mock;
+  let useCase: RescheduleRequestUseCase;
+
+  const reschedule = () =>
+    useCase.execute({
+      user,
+      props: { code: CODE, sendAt: '2026-03-03T10:00:00.000+00:00' },
+      correlationId: 'corr-1',
+      authorizationReason: 'test',
+    });
+
+  beforeEach(() => {
+    findState = jest.fn().mockResolvedValue(ok(Option.some('pending')));
+    save = jest.fn().mockResolvedValue(ok(undefined));
+
+    useCase = new RescheduleRequestUseCase(
+      {
+        findById: jest.fn().mockResolvedValue(ok(Option.some(snapshot))),
+      } as unknown as IRequestReader,
+      { save } as unknown as IRequestWriter,
+      { findState } as unknown as IRequestSendJobs,
+      createMockLogger(),
+      clock,
+    );
+  });
+
+  test('moves a request whose send job has not started', async () => {
+    const result = await reschedule();
+
+    expect(result.ok).toBe(true);
+    expect(findState).toHaveBeenCalledWith('tenant-a', CODE);
+    expect(save).toHaveBeenCalled();
+  });
+
+  test('refuses a request whose send job is already running', async () => {
+    findState.mockResolvedValue(ok(Option.some('running')));
+
+    const result = await reschedule();
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.code).toBe('REQUEST.SEND_IN_PROGRESS');
+    expect(save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import {
+  UseCaseLoggingUtil,
+  UseCaseLoggingConfig,
+} from 'src/shared/application/utils/use-case-logging.util';
+import { IUserToken } from 'src/shared/security';
+
+// Service configuration
+import { SlackRequestServiceConstants } from '../../../service-constants';
+
+// Domain types and errors
+import { RequestBatchId } from '../../domain/value-objects';
+import { RequestErrors } from '../../domain/errors';
+import { BulkCreateRequestProps } from '../../domain/props';
+
+// Application layer
+import {
+  BulkCreateRequestItemResponse,
+  BulkCreateRequestResponse,
+  REQUEST_BULK_MAX_ITEMS,
+} from '../dtos';
+import { IBulkCreateRequestUseCase, ICreateRequestUseCase } from './contracts';
+
+/** Items created side by side; keeps the event store and Redis load bounded */
+const BULK_CREATE_CONCURRENCY = 10;
+
+/**
+ * Bulk Create Request Use Case
+ *
+ * Creates every item through the single create use case, so each one gets
+ * the same validation (foreign keys included) and events as a one-off
+ * create. All requests share a generated batch id. One bad item does not
+ * fail the call: the result reports each item as created or failed.
+ */
+@Injectable()
+export class BulkCreateRequestUseCase implements IBulkCreateRequestUseCase {
+  private readonly logger: Logger;
+  private readonly loggingConfig: UseCaseLoggingConfig;
+
+  constructor(
+    private readonly createRequestUseCase: ICreateRequestUseCase,
+    @Inject(APP_LOGGER)
+    readonly moduleLogger: Logger,
+    @Inject(CLOCK)
+    private readonly clock: Clock,
+  ) {
+    this.loggingConfig = {
+      serviceName: SlackRequestServiceConstants.SERVICE_NAME,
+      component: 'BulkCreateRequestUseCase',
+      domain: 'slack-request',
+      entityType: 'request',
+    };
+    this.logger = componentLogger(moduleLogger, this.loggingConfig.component);
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    props: BulkCreateRequestProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<BulkCreateRequestResponse, DomainError>> {
+    const operation = 'bulk_create_request';
+    const startTime = this.clock.nowMs();
+
+    const command = {
+      user: params.user,
+      props: params.props,
+      correlationId: params.correlationId,
+      authorizationReason: params.authorizationReason,
+      securityContext: {
+        tenant: params.user.tenant,
+        userId: params.user.sub,
+        roles: params.user.roles,
+      },
+      timestamp: this.clock.now(),
+    };
+
+    const validation = UseCaseLoggingUtil.validateCommand(
+      this.logger,
+      command,
+      {},
+    );
+    if (!validation.ok) {
+      return err(validation.error);
+    }
+
+    const items = params.props?.items;
+    if (
+      !Array.isArray(items) ||
+      items.length === 0 ||
+      items.length > REQUEST_BULK_MAX_ITEMS
+    ) {
+      return err({
+        ...RequestErrors.INVALID_BULK_REQUEST,
+        context: {
+          itemCount: Array.isArray(items) ? items.length : undefined,
+          maxItems: REQUEST_BULK_MAX_ITEMS,
+          correlationId: params.correlationId,
+        },
+      });
+    }
+
+    const batchIdResult = RequestBatchId.generate();
+    if (!batchIdResult.ok) {
+      return err(batchIdResult.error);
+    }
+    const batchId = batchIdResult.value.value;
+
+    const logContext = UseCaseLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      {
+        correlationId: command.correlationId,
+        user: command.user,
+        securityContext: command.securityContext,
+        timestamp: command.timestamp,
+      },
+      {
+        operationRisk: UseCaseLoggingUtil.assessOperationRisk(operation),
+        batchId,
+        itemCount: items.length,
+      },
+    );
+
+    const results: BulkCreateRequestItemResponse[] = [];
+    for (
+      let start = 0;
+      start < items.length;
+      start += BULK_CREATE_CONCURRENCY
+    ) {
+      const chunk = items.slice(start, start + BULK_CREATE_CONCURRENCY);
+      const chunkResults = await Promise.all(
+        chunk.map((item, offset) =>
+          this.createItem(params, item, batchId, start + offset),
+        ),
+      );
+      results.push(...chunkResults);
+    }
+
+    const created = results.filter((r) => r.status === 'created').length;
+
+    UseCaseLoggingUtil.logOperationSuccess(this.logger, operation, logContext, {
+      executionTimeMs: this.clock.nowMs() - startTime,
+      businessData: {
+        batchId,
+        total: items.length,
+        created,
+        failed: items.length - created,
+      },
+    });
+
+    return ok({
+      batchId,
+      total: items.length,
+      created,
+      failed: items.length - created,
+      items: results,
+    });
+  }
+
+  private async createItem(
+    params: {
+      user: IUserToken;
+      correlationId: string;
+      authorizationReason: string;
+    },
+    item: BulkCreateRequestProps['items'][number],
+    batchId: string,
+    index: number,
+  ): Promise<BulkCreateRequestItemResponse> {
+    const result = await this.createRequestUseCase.execute({
+      user: params.user,
+      props: { ...item, batchId },
+      correlationId: `${params.correlationId}:${index}`,
+      authorizationReason: params.authorizationReason,
+    });
+    if (!result.ok) {
+      return {
+        index,
+        status: 'failed',
+        error: {
+          code: result.error.code,
+          title: result.error.title,
+          ...(result.error.detail ? { detail: result.error.detail } : {}),
+        },
+      };
+    }
+    return { index, status: 'created', request: result.value };
+  }
+}
@@ -0,0 +1,203 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import {
+  UseCaseLoggingUtil,
+  UseCaseLoggingConfig,
+} from 'src/shared/application/utils/use-case-logging.util';
+import { IUserToken } from 'src/shared/security';
+import { Option } from 'src/shared/domain/types/option';
+import { EventMetadata } from 'src/shared/domain/events';
+
+// Service configuration
+import { SlackRequestServiceConstants } from '../../../service-constants';
+
+// Domain types and errors
+import { RequestAggregate } from '../../domain/aggregates';
+import { RequestEntity } from '../../domain/entities/request.entity';
+import { createRequestCode } from '../../domain/value-objects/code.vo';
+import { RequestErrors } from '../../domain/errors';
+import { CancelRequestProps } from '../../domain/props';
+
+// Application layer
+import {
+  IRequestReader,
+  IRequestWriter,
+  REQUEST_READER_TOKEN,
+  REQUEST_WRITER_TOKEN,
+} from '../ports';
+import { DetailRequestResponse } from '../dtos';
+import { RequestDtoAssembler } from '../assemblers';
+import { ICancelRequestUseCase } from './contracts';
+
+/**
+ * Cancel Request Use Case
+ *
+ * Cancels a request that has not been sent yet. The projector removes the
+ * queued send job once the RequestCancelled event is projected, and the
+ * worker skips cancelled requests if the job already started.
+ */
+@Injectable()
+export class CancelRequestUseCase implements ICancelRequestUseCase {
+  private readonly logger: Logger;
+  private readonly loggingConfig: UseCaseLoggingConfig;
+
+  constructor(
+    @Inject(REQUEST_READER_TOKEN)
+    private readonly requestReader: IRequestReader,
+    @Inject(REQUEST_WRITER_TOKEN)
+    private readonly requestWriter: IRequestWriter,
+    @Inject(APP_LOGGER)
+    readonly moduleLogger: Logger,
+    @Inject(CLOCK)
+    private readonly clock: Clock,
+  ) {
+    this.loggingConfig = {
+      serviceName: SlackRequestServiceConstants.SERVICE_NAME,
+      component: 'CancelRequestUseCase',
+      domain: 'slack-request',
+      entityType: 'request',
+    };
+    this.logger = componentLogger(moduleLogger, this.loggingConfig.component);
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    props: CancelRequestProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailRequestResponse, DomainError>> {
+    const operation = 'cancel_request';
+    const startTime = this.clock.nowMs();
+
+    const command = {
+      user: params.user,
+      props: params.props,
+      correlationId: params.correlationId,
+      authorizationReason: params.authorizationReason,
+      securityContext: {
+        tenant: params.user.tenant,
+        userId: params.user.sub,
+        roles: params.user.roles,
+      },
+      timestamp: this.clock.now(),
+    };
+
+    const validation = UseCaseLoggingUtil.validateCommand(
+      this.logger,
+      command,
+      {},
+    );
+    if (!validation.ok) {
+      return err(validation.error);
+    }
+
+    const logContext = UseCaseLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      {
+        correlationId: command.correlationId,
+        user: command.user,
+        securityContext: command.securityContext,
+        timestamp: command.timestamp,
+      },
+      {
+        operationRisk: UseCaseLoggingUtil.assessOperationRisk(operation),
+        requestId: params.props.code,
+      },
+    );
+
+    const codeResult = createRequestCode(params.props.code);
+    if (!codeResult.ok) {
+      return err(RequestErrors.INVALID_CODE);
+    }
+
+    const actor: ActorContext = {
+      tenant: params.user.tenant,
+      userId: params.user.sub,
+      tenant_userId: params.user.tenant_id ?? params.user.sub,
+      roles: params.user.roles || [],
+    };
+
+    const snapshotResult = await this.requestReader.findById(
+      actor,
+      codeResult.value,
+    );
+    if (!snapshotResult.ok) {
+      return err(snapshotResult.error);
+    }
+    if (Option.isNone(snapshotResult.value)) {
+      return err({
+        ...RequestErrors.REQUEST_NOT_FOUND,
+        context: { code: params.props.code, operation },
+      });
+    }
+
+    const entityResult = RequestEntity.fromSnapshot(snapshotResult.value.value);
+    if (!entityResult.ok) {
+      return err(entityResult.error);
+    }
+
+    const eventMetadata: EventMetadata = {
+      correlationId: params.correlationId,
+      actor: {
+        ...actor,
+        sessionId: 'cancel-request-use-case',
+      },
+      service: 'notification-service',
+      timestampIso: this.clock.nowIso(),
+      eventVersion: '1.0.0',
+      schemaVersion: '2023.1',
+    };
+
+    const aggregate = RequestAggregate.reconstitute(
+      entityResult.value,
+      this.clock,
+      eventMetadata,
+    );
+
+    const cancelResult = aggregate.cancel(params.props.reason);
+    if (!cancelResult.ok) {
+      UseCaseLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        cancelResult.error,
+        'MEDIUM',
+      );
+      return err(cancelResult.error);
+    }
+
+    const saveResult = await this.requestWriter.save(actor, aggregate);
+    if (!saveResult.ok) {
+      UseCaseLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        saveResult.error,
+        'HIGH',
+      );
+      return err(saveResult.error);
+    }
+
+    const dto = RequestDtoAssembler.toDetailResponse(aggregate.toDomainState());
+
+    UseCaseLoggingUtil.logOperationSuccess(this.logger, operation, logContext, {
+      executionTimeMs: this.clock.nowMs() - startTime,
+      aggregateVersion: aggregate.version,
+      eventCount: aggregate.uncommittedEvents?.length ?? 0,
+      businessData: {
+        requestCode: dto.code,
+        hasReason: !!params.props.reason,
+      },
+    });
+
+    return ok(dto);
+  }
+}
@@ -11,12 +11,20 @@
 import { Result, DomainError } from 'src/shared/errors';
 import type { IUserToken } from 'src/shared/security';
 import type {
+  BulkCreateRequestProps,
+  CancelRequestProps,
   CreateRequestProps,
+  EditRequestMessageProps,
   FailedRequestProps,
+  RescheduleRequestProps,
+  RecordRequestInteractionProps,
+  RetractRequestMessageProps,
   SentRequestProps,
 } from '../../domain/props';
 import type {
+  BulkCreateRequestResponse,
   DetailRequestResponse,
+  RequestBatchResponse,
   RequestPageResponse,
   ListRequestFilterRequest,
 } from '../dtos';
@@ -30,6 +38,15 @@ export abstract class ICreateRequestUseCase {
   }): Promise<Result<DetailRequestResponse, DomainError>>;
 }
 
+export abstract class IBulkCreateRequestUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    props: BulkCreateRequestProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<BulkCreateRequestResponse, DomainError>>;
+}
+
 export abstract class ISentRequestUseCase {
   abstract execute(params: {
     user: IUserToken;
@@ -48,6 +65,51 @@ export abstract class IFailedRequestUseCase {
   }): Promise<Result<DetailRequestResponse, DomainError>>;
 }
 
+export abstract class ICancelRequestUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    props: CancelRequestProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailRequestResponse, DomainError>>;
+}
+
+export abstract class IRescheduleRequestUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    props: RescheduleRequestProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailRequestResponse, DomainError>>;
+}
+
+export abstract class IEditRequestMessageUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    props: EditRequestMessageProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailRequestResponse, DomainError>>;
+}
+
+export abstract class IRetractRequestMessageUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    props: RetractRequestMessageProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailRequestResponse, DomainError>>;
+}
+
+export abstract class IRecordRequestInteractionUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    props: RecordRequestInteractionProps;
+    correlationId: string;
+    authorizationReason: string;
+  }): Promise<Result<DetailRequestResponse, DomainError>>;
+}
+
 export abstract class IGetRequestUseCase {
   abstract execute(params: {
     user: IUserToken;
@@ -62,3 +124,11 @@ export abstract class IListRequestUseCase {
     correlationId: string;
   }): Promise<Result<RequestPageResponse, DomainError>>;
 }
+
+export abstract class IGetRequestBatchUseCase {
+  abstract execute(params: {
+    user: IUserToken;
+    batchId: string;
+    correlationId: string;
+  }): Promise<Result<RequestBatchResponse, DomainError>>;
+}
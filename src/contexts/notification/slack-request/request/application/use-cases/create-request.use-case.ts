@@ -24,14 +24,18 @@ import type { RequestAggregate } from '../../domain/aggregates';
 import { createRequestAggregateFromProps } from '../../domain/factories';
 import { RequestErrors } from '../../domain/errors';
 import { CreateRequestProps } from '../../domain/props';
+import type { RequestAttachmentProps } from '../../domain/value-objects';
 
 // Application layer
 import type { CreateRequestCommand } from '../commands';
 import {
+  IRequestAttachmentStore,
   IRequestReader,
   IRequestWriter,
+  REQUEST_ATTACHMENT_STORE_TOKEN,
   REQUEST_READER_TOKEN,
   REQUEST_WRITER_TOKEN,
+  TemplateReference,
 } from '../ports';
 import {
   RequestForeignKeyValidatorService,
@@ -58,6 +62,8 @@ export class CreateRequestUseCase implements ICreateRequestUseCase {
     private readonly requestReader: IRequestReader,
     @Inject(REQUEST_WRITER_TOKEN)
     private readonly requestWriter: IRequestWriter,
+    @Inject(REQUEST_ATTACHMENT_STORE_TOKEN)
+    private readonly attachmentStore: IRequestAttachmentStore,
     private readonly foreignKeyValidator: RequestForeignKeyValidatorService,
     private readonly authorizationService: RequestAuthorizationAdapter,
     @Inject(APP_LOGGER)
@@ -183,7 +189,8 @@ export class CreateRequestUseCase implements ICreateRequestUseCase {
     const aggregateResult = await runUseCaseWithSecurity<
       CreateRequestCommand,
       RequestAggregate,
-      never
+      RequestAttachmentProps | undefined,
+      { templateCode?: TemplateReference }
     >({
       serviceName: SlackRequestServiceConstants.SERVICE_NAME,
       component: 'CreateRequestUseCase',
@@ -218,8 +225,15 @@ export class CreateRequestUseCase implements ICreateRequestUseCase {
           return result.ok ? ok(undefined) : result;
         },
       },
+      // Store the attachment as a blob so events and projections only
+      // carry its reference, never the file content or a signed url
+      loadExisting: async (actor, cmd) => {
+        const upload = cmd.props?.attachment;
+        if (!upload) return ok(undefined);
+        return this.attachmentStore.store(actor, upload);
+      },
       fkValidator: this.foreignKeyValidator,
-      runDomain: ({ metadata, clock }) => {
+      runDomain: ({ metadata, clock, existing, validatedEntities }) => {
         // Use classification for metadata only, not to mutate props
         const enhancedMetadata = {
           ...metadata,
@@ -237,8 +251,14 @@ export class CreateRequestUseCase implements ICreateRequestUseCase {
         };
 
         // Pass raw props to aggregate (no domain mutation)
+        // Pin the published template version so later edits to the
+        // template do not change what this request sends
         return createRequestAggregateFromProps(
-          rawProps,
+          {
+            ...rawProps,
+            storedAttachment: existing,
+            templateVersion: validatedEntities?.templateCode?.publishedVersion,
+          },
           enhancedMetadata,
           clock,
         );
@@ -0,0 +1,133 @@
+// Framework imports
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, ok, err, withContext } from 'src/shared/errors';
+
+// Shared utilities and infrastructure
+import { APP_LOGGER, componentLogger, Logger } from 'src/shared/logging';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { Option } from 'src/shared/domain/types';
+import { ActorContextUtil } from 'src/shared/utilities/actor-context.util';
+import {
+  UseCaseLoggingUtil,
+  UseCaseLoggingConfig,
+} from 'src/shared/application/utils/use-case-logging.util';
+import { IUserToken } from 'src/shared/security';
+
+// Service configuration
+import { SlackRequestServiceConstants } from '../../../service-constants';
+
+// Domain types and errors
+import { RequestBatchId } from '../../domain/value-objects';
+import { RequestErrors } from '../../domain/errors';
+
+// Application layer
+import { IRequestQuery, REQUEST_QUERY_TOKEN } from '../ports';
+import { RequestBatchResponse } from '../dtos';
+import { IGetRequestBatchUseCase } from './contracts';
+
+/**
+ * Get Request Batch Use Case
+ *
+ * Reports the progress of a bulk create from the statuses of the requests
+ * created under the batch id.
+ */
+@Injectable()
+export class GetRequestBatchUseCase implements IGetRequestBatchUseCase {
+  private readonly logger: Logger;
+  private readonly loggingConfig: UseCaseLoggingConfig;
+
+  constructor(
+    @Inject(REQUEST_QUERY_TOKEN)
+    private readonly query: IRequestQuery,
+    @Inject(APP_LOGGER)
+    readonly moduleLogger: Logger,
+    @Inject(CLOCK)
+    private readonly clock: Clock,
+  ) {
+    this.loggingConfig = {
+      serviceName: SlackRequestServiceConstants.SERVICE_NAME,
+      component: 'GetRequestBatchUseCase',
+      domain: 'slack-request',
+      entityType: 'request',
+    };
+    this.logger = componentLogger(moduleLogger, this.loggingConfig.component);
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    batchId: string;
+    correlationId: string;
+  }): Promise<Result<RequestBatchResponse, DomainError>> {
+    const operation = 'get_request_batch';
+    const startTime = this.clock.nowMs();
+    const errorContext = {
+      batchId: params.batchId,
+      correlationId: params.correlationId,
+      userId: params.user.sub,
+      operation,
+    };
+
+    const batchIdResult = RequestBatchId.from(params.batchId);
+    if (!batchIdResult.ok) {
+      return err(withContext(batchIdResult.error, errorContext));
+    }
+    const batchId = batchIdResult.value.value;
+
+    const actorResult = ActorContextUtil.fromUserTokenSafe(params.user);
+    if (!actorResult.ok) {
+      return err(withContext(actorResult.error, errorContext));
+    }
+
+    const logContext = UseCaseLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      {
+        correlationId: params.correlationId,
+        user: params.user,
+        securityContext: {
+          tenant: params.user.tenant,
+          userId: params.user.sub,
+          roles: params.user.roles,
+        },
+        timestamp: this.clock.now(),
+      },
+      {
+        operationRisk: UseCaseLoggingUtil.assessOperationRisk(operation),
+        batchId,
+        readOperation: true,
+      },
+    );
+
+    const batchResult = await this.query.findBatch(actorResult.value, batchId, {
+      correlationId: params.correlationId,
+    });
+    if (!batchResult.ok) {
+      const contextError = withContext(batchResult.error, errorContext);
+      UseCaseLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        contextError,
+        'MEDIUM',
+      );
+      return err(contextError);
+    }
+
+    if (Option.isNone(batchResult.value)) {
+      return err(withContext(RequestErrors.BATCH_NOT_FOUND, errorContext));
+    }
+    const batch = batchResult.value.value;
+
+    UseCaseLoggingUtil.logOperationSuccess(this.logger, operation, logContext, {
+      executionTimeMs: this.clock.nowMs() - startTime,
+      businessData: {
+        batchId,
+        status: batch.status,
+        total: batch.total,
+      },
+    });
+
+    return ok(batch);
+  }
+}
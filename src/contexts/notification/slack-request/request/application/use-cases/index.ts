@@ -1,6 +1,13 @@
+export * from './bulk-create-request.use-case';
+export * from './cancel-request.use-case';
 export * from './contracts';
 export * from './create-request.use-case';
+export * from './edit-request-message.use-case';
+export * from './get-request-batch.use-case';
 export * from './get-request.use-case';
 export * from './list-request.use-case';
+export * from './record-request-interaction.use-case';
 export * from './request-failed.use-case';
 export * from './request-sent.use-case';
+export * from './reschedule-request.use-case';
+export * from './retract-request-message.use-case';
@@ -212,6 +212,7 @@ export class SentRequestUseCase implements ISentRequestUseCase {
       // Apply domain operation
       const sentResult = aggregate.markSent({
         attempts: params.props.attempts,
+        message: params.props.message,
       });
 
       if (!sentResult.ok) {
@@ -0,0 +1,135 @@
+import { Clock } from 'src/shared/domain/clock';
+import { DomainEvent, EventMetadata } from 'src/shared/domain/events';
+import { RequestEntity } from '../../entities';
+import { RequestStatusValue } from '../../value-objects';
+import { RequestAggregate } from '../request.aggregate';
+
+const CODE = '3f0c1b9e-6a47-4d2e-9c1a-8b2f5e7d4a10';
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+};
+const metadata = { correlationId: 'corr-1' } as EventMetadata;
+
+function aggregateIn(status: RequestStatusValue): RequestAggregate {
+  const entity = RequestEntity.fromSnapshot({
+    code: CODE,
+    recipient: 'U0123ABCD',
+    data: { name: 'Ada' },
+    status,
+    workspaceCode: 'acme-workspace',
+    templateCode: 'order-shipped',
+    channelCode: 'ops-alerts',
+    createdAt: NOW,
+    updatedAt: NOW,
+    version: 1,
+  });
+  if (!entity.ok) throw new Error(entity.error.detail);
+  return RequestAggregate.reconstitute(entity.value, clock, metadata);
+}
+
+function outcome(type: string, status: RequestStatusValue): DomainEvent {
+  return {
+    type,
+    version: 1,
+    occurredAt: NOW,
+    aggregateId: CODE,
+    aggregateType: 'Request',
+    data: { status },
+    metadata,
+  };
+}
+
+const sent = () => outcome('NotificationSlackRequestSent.v1', 'sent');
+const failed = () => outcome('NotificationSlackRequestFailed.v1', 'failed');
+
+describe('RequestAggregate', () => {
+  describe('replaying legacy streams', () => {
+    test('keeps sent when a late failure follows the send', () => {
+      const aggregate = aggregateIn('requested');
+
+      aggregate.replay([sent(), failed()]);
+
+      expect(aggregate.entity.status?.value).toBe('sent');
+    });
+
+    test('moves a failed request to sent when the retry succeeded', () => {
+      const aggregate = aggregateIn('requested');
+
+      aggregate.replay([failed(), sent()]);
+
+      expect(aggregate.entity.status?.value).toBe('sent');
+    });
+
+    test('records outcomes written without a queued step', () => {
+      const aggregate = aggregateIn('scheduled');
+
+      aggregate.replay([failed()]);
+
+      expect(aggregate.entity.status?.value).toBe('failed');
+    });
+  });
+
+  describe('reschedule', () => {
+    test('moves a queued request back to scheduled', () => {
+      const aggregate = aggregateIn('queued');
+
+      const result = aggregate.reschedule('2026-03-03T10:00:00.000+00:00');
+
+      expect(result.ok).toBe(true);
+      expect(aggregate.entity.status?.value).toBe('scheduled');
+    });
+
+    test('moves a validated request to scheduled', () => {
+      const aggregate = aggregateIn('validated');
+
+      const result = aggregate.reschedule('2026-03-02T12:00:00.000+00:00');
+
+      expect(result.ok).toBe(true);
+      expect(aggregate.entity.status?.value).toBe('scheduled');
+    });
+
+    test('rejects a request that was already sent', () => {
+      const aggregate = aggregateIn('sent');
+
+      const result = aggregate.reschedule('2026-03-03T10:00:00.000+00:00');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('REQUEST.REQUEST_NOT_PENDING');
+      }
+    });
+  });
+
+  describe('delivery outcomes', () => {
+    test('passes a new request through validated and queued to sent', () => {
+      const aggregate = aggregateIn('requested');
+
+      const result = aggregate.markSent({ attempts: 1 });
+
+      expect(result.ok).toBe(true);
+      expect(aggregate.entity.status?.value).toBe('sent');
+    });
+
+    test('queues a failed request again before it is sent', () => {
+      const aggregate = aggregateIn('failed');
+
+      const result = aggregate.markSent({ attempts: 2 });
+
+      expect(result.ok).toBe(true);
+      expect(aggregate.entity.status?.value).toBe('sent');
+    });
+
+    test('never sends a cancelled request', () => {
+      const aggregate = aggregateIn('cancelled');
+
+      const result = aggregate.markSent({ attempts: 1 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('REQUEST.INVALID_STATUS_TRANSITION');
+      }
+    });
+  });
+});
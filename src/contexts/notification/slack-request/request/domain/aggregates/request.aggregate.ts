@@ -3,16 +3,26 @@
 
 import { AggregateRootBase } from 'src/shared/domain/aggregates';
 import { DomainEvent, EventMetadata } from 'src/shared/domain/events';
-import { DomainError, Result, ok, err } from 'src/shared/errors';
+import { DomainError, Result, ok, err, withContext } from 'src/shared/errors';
 import { Clock } from 'src/shared/domain/clock';
 import { hasValueChanged } from 'src/shared/utilities';
 import { RequestEntity } from '../entities';
-import { RequestSnapshotProps } from '../props';
+import { RecordRequestInteractionProps, RequestSnapshotProps } from '../props';
 import { ValidatedRequestUpdateFields } from '../types';
 import {
   RequestCode,
+  RequestStatusLogic,
   RequestStatusValue,
+  RequestScheduledFor,
+  RequestQuietHoursProps,
+  RequestData,
+  RequestMessageRef,
+  RequestMessageRefProps,
+  RequestThreadProps,
+  RequestAttachmentProps,
   createRequestStatus,
+  parseRequestSendAt,
+  resolveRequestScheduledFor,
   createRequestCreatedAt,
   createRequestUpdatedAt,
   createdAtNow,
@@ -28,6 +38,10 @@ import {
   RequestUpdatedEvent,
   RequestSentEvent,
   RequestFailedEvent,
+  RequestRescheduledEvent,
+  RequestCancelledEvent,
+  RequestDeletedEvent,
+  RequestInteractionReceivedEvent,
 } from '../events';
 import { RequestErrors } from '../errors';
 import { RequestDomainState } from '../state';
@@ -149,6 +163,12 @@ export class RequestAggregate extends AggregateRootBase {
       workspaceCode: entityProps.workspaceCode.value,
       templateCode: entityProps.templateCode.value,
       channelCode: entityProps.channelCode?.value,
+      scheduledFor: entityProps.scheduledFor?.toISOString(),
+      quietHours: entityProps.quietHours?.value,
+      thread: entityProps.thread?.value,
+      batchId: entityProps.batchId?.value,
+      attachment: entityProps.attachment?.value,
+      templateVersion: entityProps.templateVersion?.value,
     });
 
     // Apply as domain event with clean business data
@@ -192,8 +212,10 @@ export class RequestAggregate extends AggregateRootBase {
   protected when(event: DomainEvent): void {
     switch (event.type) {
       case 'NotificationSlackRequestRequestCreated.v1':
-      case 'NotificationSlackRequestRequestUpdated.v1': {
-        // Both events now have the same domain shape - simple merge
+      case 'NotificationSlackRequestRequestUpdated.v1':
+      case 'NotificationSlackRequestRequestRescheduled.v1':
+      case 'NotificationSlackRequestRequestCancelled.v1': {
+        // All of these events carry the same domain shape - simple merge
         const d = event.data as {
           code: string;
           recipient?: string;
@@ -202,6 +224,13 @@ export class RequestAggregate extends AggregateRootBase {
           workspaceCode: string;
           templateCode: string;
           channelCode?: string;
+          scheduledFor?: string;
+          quietHours?: RequestQuietHoursProps;
+          message?: RequestMessageRefProps;
+          thread?: RequestThreadProps;
+          batchId?: string;
+          attachment?: RequestAttachmentProps;
+          templateVersion?: number;
         };
 
         // For event replay, we need to reconstruct the full snapshot
@@ -212,10 +241,20 @@ export class RequestAggregate extends AggregateRootBase {
           code: d.code,
           recipient: d.recipient,
           data: d.data,
-          status: d.status,
+          status: RequestStatusLogic.resolveRecorded(
+            currentSnapshot.status,
+            d.status,
+          ),
           workspaceCode: d.workspaceCode,
           templateCode: d.templateCode,
           channelCode: d.channelCode,
+          scheduledFor: d.scheduledFor ? new Date(d.scheduledFor) : undefined,
+          quietHours: d.quietHours,
+          message: d.message,
+          thread: d.thread,
+          batchId: d.batchId,
+          attachment: d.attachment,
+          templateVersion: d.templateVersion,
           createdAt: currentSnapshot.createdAt || event.occurredAt,
           updatedAt: event.occurredAt, // Always update the timestamp
           version: currentSnapshot.version + 1 || 1,
@@ -226,7 +265,35 @@ export class RequestAggregate extends AggregateRootBase {
         }
         break;
       }
-      case 'RequestDeleted': {
+      case 'NotificationSlackRequestSent.v1':
+      case 'NotificationSlackRequestFailed.v1': {
+        // Delivery outcomes only move the status (and record the message)
+        const d = event.data as {
+          status?: RequestStatusValue;
+          message?: RequestMessageRefProps;
+        };
+        if (!this._entity) break;
+
+        const status = RequestStatusLogic.resolveRecorded(
+          this._entity.status?.value,
+          d.status,
+        );
+        const statusChanged = status !== this._entity.status?.value;
+        const messageAdded = !this._entity.message && !!d.message;
+        if (!statusChanged && !messageAdded) break;
+
+        const entityResult = RequestEntity.fromSnapshot({
+          ...this._entity.toSnapshot(),
+          status,
+          message: this._entity.message?.value ?? d.message,
+          updatedAt: event.occurredAt,
+        });
+        if (entityResult.ok) {
+          this._entity = entityResult.value;
+        }
+        break;
+      }
+      case 'NotificationSlackRequestRequestDeleted.v1': {
         // Optional: add a flag to track deletion state
         // this._isDeleted = true;
         break;
@@ -360,6 +427,76 @@ export class RequestAggregate extends AggregateRootBase {
     return false;
   }
 
+  /**
+   * Cancel and reschedule only apply to requests not yet handed to Slack
+   */
+  private ensurePending(operation: string): Result<void, DomainError> {
+    const status = this._entity.status?.value;
+    if (!RequestStatusLogic.isPending(status)) {
+      return err({
+        ...RequestErrors.REQUEST_NOT_PENDING,
+        context: {
+          code: this._entity.code.value,
+          status,
+          operation,
+        },
+      });
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * Edit and retract only apply to requests with a delivered Slack message
+   */
+  private ensureMessageSent(operation: string): Result<void, DomainError> {
+    const status = this._entity.status?.value;
+    if (status !== 'sent' || !this._entity.message) {
+      return err({
+        ...RequestErrors.MESSAGE_NOT_SENT,
+        context: {
+          code: this._entity.code.value,
+          status,
+          operation,
+        },
+      });
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * Move the entity to queued ahead of recording a delivery outcome
+   *
+   * The send job is what queues a request, so a request the worker picked up
+   * from scheduled passes through queued here, one picked up straight after
+   * create through validated and queued, and a failed request re-enters
+   * through queued when its send is retried. Sent and cancelled requests
+   * cannot be queued again.
+   */
+  private enterQueued(operation: string): Result<RequestEntity, DomainError> {
+    const current = this._entity.status?.value;
+    if (current === 'queued') return ok(this._entity);
+
+    const path: RequestStatusValue[] =
+      current === 'requested' ? ['validated', 'queued'] : ['queued'];
+    let entity = this._entity;
+    for (const next of path) {
+      const statusResult = createRequestStatus(next);
+      if (!statusResult.ok) return err(statusResult.error);
+
+      const entityResult = entity.withStatus(statusResult.value);
+      if (!entityResult.ok) {
+        return err(
+          withContext(entityResult.error, {
+            code: this._entity.code.value,
+            operation,
+          }),
+        );
+      }
+      entity = entityResult.value;
+    }
+    return ok(entity);
+  }
+
   // ======================
   // Business Operations (Event Publishing)
   // ======================
@@ -503,6 +640,13 @@ export class RequestAggregate extends AggregateRootBase {
       workspaceCode: this._entity.workspaceCode.value,
       templateCode: this._entity.templateCode.value,
       channelCode: this._entity.channelCode?.value,
+      scheduledFor: this._entity.scheduledFor?.toISOString(),
+      quietHours: this._entity.quietHours?.value,
+      thread: this._entity.thread?.value,
+      batchId: this._entity.batchId?.value,
+      attachment: this._entity.attachment?.value,
+      templateVersion: this._entity.templateVersion?.value,
+      message: this._entity.message?.value,
     });
 
     // Apply as domain event with clean business data
@@ -530,11 +674,15 @@ export class RequestAggregate extends AggregateRootBase {
     retryable?: boolean;
     lastError?: string;
   }): Result<void, DomainError> {
+    // A late failure cannot undo a delivery or revive a cancelled request
+    const queuedResult = this.enterQueued('mark_failed');
+    if (!queuedResult.ok) return err(queuedResult.error);
+
     // Update status to failed directly without generating update event
     const statusResult = createRequestStatus('failed');
     if (!statusResult.ok) return err(statusResult.error);
 
-    const entityResult = this._entity.withStatus(statusResult.value);
+    const entityResult = queuedResult.value.withStatus(statusResult.value);
     if (!entityResult.ok) return err(entityResult.error);
 
     this._entity = entityResult.value;
@@ -572,16 +720,34 @@ export class RequestAggregate extends AggregateRootBase {
   /**
    * Mark request request as sent with business metadata
    */
-  public markSent(metadata: { attempts: number }): Result<void, DomainError> {
+  public markSent(metadata: {
+    attempts: number;
+    message?: RequestMessageRefProps;
+  }): Result<void, DomainError> {
+    // A repeated success report for a delivered request changes nothing
+    if (this._entity.status?.value === 'sent') return ok(undefined);
+
+    const queuedResult = this.enterQueued('mark_sent');
+    if (!queuedResult.ok) return err(queuedResult.error);
+
     // Update status to sent directly without generating update event
     const statusResult = createRequestStatus('sent');
     if (!statusResult.ok) return err(statusResult.error);
 
-    const entityResult = this._entity.withStatus(statusResult.value);
+    const entityResult = queuedResult.value.withStatus(statusResult.value);
     if (!entityResult.ok) return err(entityResult.error);
 
     this._entity = entityResult.value;
 
+    if (metadata.message) {
+      const messageResult = RequestMessageRef.create(metadata.message);
+      if (!messageResult.ok) return err(messageResult.error);
+
+      const withMessageResult = this._entity.withMessage(messageResult.value);
+      if (!withMessageResult.ok) return err(withMessageResult.error);
+      this._entity = withMessageResult.value;
+    }
+
     // Create typed RequestSentEvent with complete business data
     const sentEvent = RequestSentEvent.create({
       code: this._entity.code.value,
@@ -592,6 +758,7 @@ export class RequestAggregate extends AggregateRootBase {
       templateCode: this._entity.templateCode.value,
       channelCode: this._entity.channelCode?.value,
       attempts: metadata.attempts,
+      message: this._entity.message?.value,
     });
 
     // Apply as domain event with clean business data
@@ -608,6 +775,206 @@ export class RequestAggregate extends AggregateRootBase {
     this.apply(domainEvent);
     return ok(undefined);
   }
+  /**
+   * Move the send time of a request that has not been sent yet
+   *
+   * The request's quiet hours still apply to the new time.
+   *
+   * @param sendAt - ISO 8601 datetime with offset, in the future
+   * @returns Result indicating success or failure
+   */
+  public reschedule(sendAt: string): Result<void, DomainError> {
+    const pendingResult = this.ensurePending('reschedule');
+    if (!pendingResult.ok) return pendingResult;
+
+    const now = this.clock.now();
+    const sendAtResult = parseRequestSendAt(sendAt, now);
+    if (!sendAtResult.ok) return err(sendAtResult.error);
+
+    const scheduledForDate = resolveRequestScheduledFor(
+      sendAtResult.value,
+      this._entity.quietHours,
+      now,
+    );
+    let scheduledFor: RequestScheduledFor | undefined;
+    if (scheduledForDate) {
+      const scheduledForResult = RequestScheduledFor.create(scheduledForDate);
+      if (!scheduledForResult.ok) return err(scheduledForResult.error);
+      scheduledFor = scheduledForResult.value;
+    }
+
+    const statusResult = createRequestStatus(
+      scheduledFor ? 'scheduled' : 'requested',
+    );
+    if (!statusResult.ok) return err(statusResult.error);
+
+    const nextVersionResult = bumpVersion(this._entity.version);
+    if (!nextVersionResult.ok) return err(nextVersionResult.error);
+
+    const previousScheduledFor = this._entity.scheduledFor?.toISOString();
+    const entityResult = this._entity.withSchedule(
+      scheduledFor,
+      statusResult.value,
+      now,
+      nextVersionResult.value.value,
+    );
+    if (!entityResult.ok) return err(entityResult.error);
+    this._entity = entityResult.value;
+
+    const rescheduledEvent = RequestRescheduledEvent.create({
+      code: this._entity.code.value,
+      recipient: this._entity.recipient?.value,
+      data: this._entity.data?.value,
+      status: this._entity.status?.value,
+      workspaceCode: this._entity.workspaceCode.value,
+      templateCode: this._entity.templateCode.value,
+      channelCode: this._entity.channelCode?.value,
+      scheduledFor: this._entity.scheduledFor?.toISOString(),
+      quietHours: this._entity.quietHours?.value,
+      thread: this._entity.thread?.value,
+      batchId: this._entity.batchId?.value,
+      attachment: this._entity.attachment?.value,
+      templateVersion: this._entity.templateVersion?.value,
+      previousScheduledFor,
+    });
+
+    this.apply({
+      type: rescheduledEvent.eventType,
+      version: Number(rescheduledEvent.eventVersion),
+      occurredAt: now,
+      aggregateId: this._entity.code.value,
+      aggregateType: 'Request',
+      data: rescheduledEvent.payload,
+      metadata: this.eventMetadata,
+    });
+    return ok(undefined);
+  }
+
+  /**
+   * Cancel a request that has not been sent yet
+   *
+   * @param reason - Optional free-text reason kept on the event
+   * @returns Result indicating success or failure
+   */
+  public cancel(reason?: string): Result<void, DomainError> {
+    const pendingResult = this.ensurePending('cancel');
+    if (!pendingResult.ok) return pendingResult;
+
+    const statusResult = createRequestStatus('cancelled');
+    if (!statusResult.ok) return err(statusResult.error);
+
+    const nextVersionResult = bumpVersion(this._entity.version);
+    if (!nextVersionResult.ok) return err(nextVersionResult.error);
+
+    const now = this.clock.now();
+    const entityResult = this._entity.withStatus(
+      statusResult.value,
+      now,
+      nextVersionResult.value.value,
+    );
+    if (!entityResult.ok) return err(entityResult.error);
+    this._entity = entityResult.value;
+
+    const cancelledEvent = RequestCancelledEvent.create({
+      code: this._entity.code.value,
+      recipient: this._entity.recipient?.value,
+      data: this._entity.data?.value,
+      status: this._entity.status?.value,
+      workspaceCode: this._entity.workspaceCode.value,
+      templateCode: this._entity.templateCode.value,
+      channelCode: this._entity.channelCode?.value,
+      scheduledFor: this._entity.scheduledFor?.toISOString(),
+      quietHours: this._entity.quietHours?.value,
+      thread: this._entity.thread?.value,
+      batchId: this._entity.batchId?.value,
+      attachment: this._entity.attachment?.value,
+      templateVersion: this._entity.templateVersion?.value,
+      reason,
+    });
+
+    this.apply({
+      type: cancelledEvent.eventType,
+      version: Number(cancelledEvent.eventVersion),
+      occurredAt: now,
+      aggregateId: this._entity.code.value,
+      aggregateType: 'Request',
+      data: cancelledEvent.payload,
+      metadata: this.eventMetadata,
+    });
+    return ok(undefined);
+  }
+
+  /**
+   * Replace the data of a sent request, ahead of re-rendering its Slack
+   * message with it
+   *
+   * @param data - New template variables
+   * @returns Result indicating success or failure
+   */
+  public editMessage(data: RequestData): Result<void, DomainError> {
+    const sentResult = this.ensureMessageSent('edit_message');
+    if (!sentResult.ok) return sentResult;
+
+    return this.updateBatch({ data });
+  }
+
+  /**
+   * Retract the Slack message of a sent request, deleting the request
+   *
+   * @returns Result indicating success or failure
+   */
+  public retractMessage(): Result<void, DomainError> {
+    const sentResult = this.ensureMessageSent('retract_message');
+    if (!sentResult.ok) return sentResult;
+
+    return this.delete();
+  }
+
+  /**
+   * Record a user action on the Slack message of a sent request
+   *
+   * The request itself does not change; the event is the audit record that
+   * interaction handlers act on.
+   *
+   * @param interaction - The Slack action, already verified as coming from
+   *   the request's workspace
+   * @returns Result indicating success or failure
+   */
+  public recordInteraction(
+    interaction: Omit<RecordRequestInteractionProps, 'code'>,
+  ): Result<void, DomainError> {
+    const sentResult = this.ensureMessageSent('record_interaction');
+    if (!sentResult.ok) return sentResult;
+
+    const now = this.clock.now();
+    const interactionEvent = RequestInteractionReceivedEvent.create({
+      code: this._entity.code.value,
+      workspaceCode: this._entity.workspaceCode.value,
+      message: this._entity.message!.value,
+      actionId: interaction.actionId,
+      actionType: interaction.actionType,
+      blockId: interaction.blockId,
+      value: interaction.value,
+      url: interaction.url,
+      userId: interaction.userId,
+      userName: interaction.userName,
+      teamId: interaction.teamId,
+      actionTs: interaction.actionTs,
+      receivedAt: now.toISOString(),
+    });
+
+    this.apply({
+      type: interactionEvent.eventType,
+      version: Number(interactionEvent.eventVersion),
+      occurredAt: now,
+      aggregateId: this._entity.code.value,
+      aggregateType: 'Request',
+      data: interactionEvent.payload,
+      metadata: this.eventMetadata,
+    });
+    return ok(undefined);
+  }
+
   /**
    * Set entity to failed (legacy method - kept for backward compatibility)
    * @deprecated Use markFailed() with rich metadata instead
@@ -640,13 +1007,27 @@ export class RequestAggregate extends AggregateRootBase {
       return err(deletedAtResult.error);
     }
 
+    const deletedAt = deletedAtResult.value.value; // Extract Date from VO
+
     // Create and apply domain event for deletion
+    const deletedEvent = RequestDeletedEvent.create(
+      {
+        code: this._entity.code.value,
+        deletedAt,
+        version: this._entity.version.value + 1,
+        message: this._entity.message?.value,
+      },
+      this.eventMetadata,
+    );
+
     const domainEvent: DomainEvent = {
-      type: 'RequestDeleted',
-      version: 1,
-      occurredAt: deletedAtResult.value.value, // Extract Date from VO
+      type: deletedEvent.eventType,
+      version: Number(deletedEvent.eventVersion),
+      occurredAt: deletedAt,
       aggregateId: this._entity.code.value,
       aggregateType: 'Request',
+      data: deletedEvent.payload,
+      metadata: this.eventMetadata,
     };
 
     this.apply(domainEvent);
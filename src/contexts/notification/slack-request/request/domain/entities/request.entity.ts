@@ -7,6 +7,8 @@ import { RequestSnapshotProps } from '../props';
 import { RequestDomainState } from '../state';
 import { RequestErrors } from '../errors/request.errors';
 import {
+  RequestAttachment,
+  RequestTemplateVersion,
   RequestChannelCode,
   RequestCode,
   RequestCreatedAt,
@@ -19,6 +21,11 @@ import {
   RequestStatusValue,
   RequestTemplateCode,
   RequestWorkspaceCode,
+  RequestScheduledFor,
+  RequestQuietHours,
+  RequestMessageRef,
+  RequestThread,
+  RequestBatchId,
   createRequestStatus,
 } from '../value-objects';
 
@@ -185,6 +192,66 @@ export class RequestEntity extends EntityIdBase<
     if (!channelCodeResult.ok) {
       return err(channelCodeResult.error);
     }
+    let scheduledFor: RequestScheduledFor | undefined;
+    if (snapshot.scheduledFor) {
+      const scheduledForResult = RequestScheduledFor.from(
+        snapshot.scheduledFor,
+      );
+      if (!scheduledForResult.ok) {
+        return err(scheduledForResult.error);
+      }
+      scheduledFor = scheduledForResult.value;
+    }
+    let quietHours: RequestQuietHours | undefined;
+    if (snapshot.quietHours) {
+      const quietHoursResult = RequestQuietHours.from(snapshot.quietHours);
+      if (!quietHoursResult.ok) {
+        return err(quietHoursResult.error);
+      }
+      quietHours = quietHoursResult.value;
+    }
+    let message: RequestMessageRef | undefined;
+    if (snapshot.message) {
+      const messageResult = RequestMessageRef.from(snapshot.message);
+      if (!messageResult.ok) {
+        return err(messageResult.error);
+      }
+      message = messageResult.value;
+    }
+    let thread: RequestThread | undefined;
+    if (snapshot.thread) {
+      const threadResult = RequestThread.from(snapshot.thread);
+      if (!threadResult.ok) {
+        return err(threadResult.error);
+      }
+      thread = threadResult.value;
+    }
+    let batchId: RequestBatchId | undefined;
+    if (snapshot.batchId) {
+      const batchIdResult = RequestBatchId.from(snapshot.batchId);
+      if (!batchIdResult.ok) {
+        return err(batchIdResult.error);
+      }
+      batchId = batchIdResult.value;
+    }
+    let attachment: RequestAttachment | undefined;
+    if (snapshot.attachment) {
+      const attachmentResult = RequestAttachment.from(snapshot.attachment);
+      if (!attachmentResult.ok) {
+        return err(attachmentResult.error);
+      }
+      attachment = attachmentResult.value;
+    }
+    let templateVersion: RequestTemplateVersion | undefined;
+    if (snapshot.templateVersion !== undefined) {
+      const templateVersionResult = RequestTemplateVersion.from(
+        snapshot.templateVersion,
+      );
+      if (!templateVersionResult.ok) {
+        return err(templateVersionResult.error);
+      }
+      templateVersion = templateVersionResult.value;
+    }
     const createdAtResult = RequestCreatedAt.from(snapshot.createdAt);
     if (!createdAtResult.ok) {
       return err(createdAtResult.error);
@@ -208,6 +275,13 @@ export class RequestEntity extends EntityIdBase<
       workspaceCode: workspaceCodeResult.value,
       templateCode: templateCodeResult.value,
       channelCode: channelCodeResult.value,
+      scheduledFor,
+      quietHours,
+      message,
+      thread,
+      batchId,
+      attachment,
+      templateVersion,
       createdAt: createdAtResult.value,
       updatedAt: updatedAtResult.value,
       version: versionResult.value,
@@ -271,6 +345,34 @@ export class RequestEntity extends EntityIdBase<
     return this.props.channelCode;
   }
 
+  public get scheduledFor(): RequestScheduledFor | undefined {
+    return this.props.scheduledFor;
+  }
+
+  public get quietHours(): RequestQuietHours | undefined {
+    return this.props.quietHours;
+  }
+
+  public get message(): RequestMessageRef | undefined {
+    return this.props.message;
+  }
+
+  public get thread(): RequestThread | undefined {
+    return this.props.thread;
+  }
+
+  public get batchId(): RequestBatchId | undefined {
+    return this.props.batchId;
+  }
+
+  public get attachment(): RequestAttachment | undefined {
+    return this.props.attachment;
+  }
+
+  public get templateVersion(): RequestTemplateVersion | undefined {
+    return this.props.templateVersion;
+  }
+
   public get createdAt(): RequestCreatedAt {
     return this.props.createdAt;
   }
@@ -396,6 +498,60 @@ export class RequestEntity extends EntityIdBase<
     return this.createUpdatedEntity({ channelCode }, updatedAt, version);
   }
 
+  /**
+   * Creates a new entity with a new send time and status
+   *
+   * Rescheduling restarts a pending request, so the status is checked
+   * against the reschedule transition rather than the lifecycle.
+   *
+   * @param scheduledFor - When the request goes out; undefined for right away
+   * @param status - Status matching the new send time
+   * @param updatedAt - Optional timestamp (uses clock if not provided)
+   * @returns Result<RequestEntity, DomainError>
+   */
+  public withSchedule(
+    scheduledFor: RequestScheduledFor | undefined,
+    status: RequestStatus,
+    updatedAt?: Date,
+    version?: number,
+  ): Result<RequestEntity, DomainError> {
+    const currentStatus = this.props.status?.value;
+    if (
+      currentStatus &&
+      !RequestStatusLogic.canReschedule(currentStatus, status.value)
+    ) {
+      return err({
+        ...RequestErrors.INVALID_STATUS_TRANSITION,
+        context: {
+          currentStatus,
+          targetStatus: status.value,
+          operation: 'reschedule',
+        },
+      });
+    }
+
+    return this.createUpdatedEntity(
+      { scheduledFor, status },
+      updatedAt,
+      version,
+    );
+  }
+
+  /**
+   * Creates a new entity with the Slack message it was delivered as
+   *
+   * @param message - Channel id and ts returned by Slack
+   * @param updatedAt - Optional timestamp (uses clock if not provided)
+   * @returns Result<RequestEntity, DomainError>
+   */
+  public withMessage(
+    message: RequestMessageRef,
+    updatedAt?: Date,
+    version?: number,
+  ): Result<RequestEntity, DomainError> {
+    return this.createUpdatedEntity({ message }, updatedAt, version);
+  }
+
   /**
    * Get valid next statuses from current state
    * @returns readonly RequestStatusValue[]
@@ -433,6 +589,13 @@ export class RequestEntity extends EntityIdBase<
       workspaceCode: this.props.workspaceCode.value,
       templateCode: this.props.templateCode.value,
       channelCode: this.props.channelCode?.value,
+      scheduledFor: this.props.scheduledFor?.value,
+      quietHours: this.props.quietHours?.value,
+      message: this.props.message?.value,
+      thread: this.props.thread?.value,
+      batchId: this.props.batchId?.value,
+      attachment: this.props.attachment?.value,
+      templateVersion: this.props.templateVersion?.value,
       createdAt: this.props.createdAt.value,
       updatedAt: this.props.updatedAt.value,
       version: this.props.version.value,
@@ -21,6 +21,13 @@ export const RequestErrors = {
     category: 'domain',
     retryable: false,
   } as DomainError<'REQUEST.AUTHORIZATION_FAILED', RequestContext>,
+  BATCH_NOT_FOUND: {
+    code: 'REQUEST.BATCH_NOT_FOUND',
+    title: 'Not Found',
+    detail: 'No requests were created under this batch id.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.BATCH_NOT_FOUND', RequestContext>,
   CANNOT_DELETE_REQUEST_WITH_DEPENDENCIES: {
     code: 'REQUEST.CANNOT_DELETE_REQUEST_WITH_DEPENDENCIES',
     title: 'Cannot Delete',
@@ -49,10 +56,39 @@ export const RequestErrors = {
     code: 'REQUEST.ENUM_NOT_ALLOWED_STATUS',
     title: 'Invalid Option',
     detail:
-      'Status must be one of: requested, validated, queued, failed, sent.',
+      'Status must be one of: requested, validated, queued, failed, sent, scheduled, cancelled.',
     category: 'validation',
     retryable: false,
   } as DomainError<'REQUEST.ENUM_NOT_ALLOWED_STATUS', RequestContext>,
+  INTERACTION_SIGNATURE_INVALID: {
+    code: 'REQUEST.INTERACTION_SIGNATURE_INVALID',
+    title: 'Invalid Slack Signature',
+    detail: 'The request was not signed with the workspace signing secret.',
+    category: 'security',
+    retryable: false,
+  } as DomainError<'REQUEST.INTERACTION_SIGNATURE_INVALID', RequestContext>,
+  INVALID_ATTACHMENT: {
+    code: 'REQUEST.INVALID_ATTACHMENT',
+    title: 'Invalid Attachment',
+    detail:
+      'An attachment needs a filename, a supported type and either base64 content within the size limit or an https url on an allowed storage host.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_ATTACHMENT', RequestContext>,
+  INVALID_BATCH_ID: {
+    code: 'REQUEST.INVALID_BATCH_ID',
+    title: 'Invalid Batch Id',
+    detail: 'The batch id must be a UUID.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_BATCH_ID', RequestContext>,
+  INVALID_BULK_REQUEST: {
+    code: 'REQUEST.INVALID_BULK_REQUEST',
+    title: 'Invalid Bulk Request',
+    detail: 'A bulk request needs between 1 and the maximum number of items.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_BULK_REQUEST', RequestContext>,
   INVALID_CHANNEL_CODE: {
     code: 'REQUEST.INVALID_CHANNEL_CODE',
     title: 'Value Required',
@@ -95,6 +131,28 @@ export const RequestErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'REQUEST.INVALID_DATA_DATA', RequestContext>,
+  INVALID_INTERACTION_PAYLOAD: {
+    code: 'REQUEST.INVALID_INTERACTION_PAYLOAD',
+    title: 'Invalid Interaction Payload',
+    detail: 'The Slack interaction payload is missing or malformed.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_INTERACTION_PAYLOAD', RequestContext>,
+  INVALID_MESSAGE_REF: {
+    code: 'REQUEST.INVALID_MESSAGE_REF',
+    title: 'Invalid Message Reference',
+    detail: 'A Slack message reference needs a channel id and a message ts.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_MESSAGE_REF', RequestContext>,
+  INVALID_QUIET_HOURS: {
+    code: 'REQUEST.INVALID_QUIET_HOURS',
+    title: 'Invalid Quiet Hours',
+    detail:
+      'Quiet hours need a start and end time (HH:mm) that differ and an IANA timezone.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_QUIET_HOURS', RequestContext>,
   INVALID_RECIPIENT: {
     code: 'REQUEST.INVALID_RECIPIENT',
     title: 'Value Required',
@@ -116,6 +174,14 @@ export const RequestErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'REQUEST.INVALID_REQUEST_DATA', RequestContext>,
+  INVALID_SEND_AT: {
+    code: 'REQUEST.INVALID_SEND_AT',
+    title: 'Invalid Send Time',
+    detail:
+      'sendAt must be a future ISO 8601 datetime with a timezone offset or Z.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_SEND_AT', RequestContext>,
   INVALID_STATUS: {
     code: 'REQUEST.INVALID_STATUS',
     title: 'Value Required',
@@ -151,6 +217,28 @@ export const RequestErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'REQUEST.INVALID_TEMPLATE_CODE_DATA', RequestContext>,
+  INVALID_TEMPLATE_DATA: {
+    code: 'REQUEST.INVALID_TEMPLATE_DATA',
+    title: 'Invalid Template Data',
+    detail: 'Request data does not match the variables schema of the template.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_TEMPLATE_DATA', RequestContext>,
+  INVALID_TEMPLATE_VERSION: {
+    code: 'REQUEST.INVALID_TEMPLATE_VERSION',
+    title: 'Invalid Template Version',
+    detail: 'The template version must be a positive integer.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_TEMPLATE_VERSION', RequestContext>,
+  INVALID_THREAD: {
+    code: 'REQUEST.INVALID_THREAD',
+    title: 'Invalid Thread',
+    detail:
+      'A thread key must be 1-128 characters without whitespace, and broadcasting needs a thread key.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.INVALID_THREAD', RequestContext>,
   INVALID_WORKSPACE_CODE: {
     code: 'REQUEST.INVALID_WORKSPACE_CODE',
     title: 'Value Required',
@@ -165,6 +253,14 @@ export const RequestErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'REQUEST.INVALID_WORKSPACE_CODE_DATA', RequestContext>,
+  MESSAGE_NOT_SENT: {
+    code: 'REQUEST.MESSAGE_NOT_SENT',
+    title: 'Message Not Sent',
+    detail:
+      'Only requests whose Slack message has been sent can be edited or retracted.',
+    category: 'domain',
+    retryable: false,
+  } as DomainError<'REQUEST.MESSAGE_NOT_SENT', RequestContext>,
   NOT_IMPLEMENTED: {
     code: 'REQUEST.NOT_IMPLEMENTED',
     title: 'Not Implemented',
@@ -242,6 +338,36 @@ export const RequestErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'REQUEST.REQUEST_NOT_FOUND', RequestContext>,
+  REQUEST_NOT_PENDING: {
+    code: 'REQUEST.REQUEST_NOT_PENDING',
+    title: 'Request Not Pending',
+    detail:
+      'Only requests that have not been sent can be cancelled or rescheduled.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'REQUEST.REQUEST_NOT_PENDING', RequestContext>,
+  SEND_IN_PROGRESS: {
+    code: 'REQUEST.SEND_IN_PROGRESS',
+    title: 'Send In Progress',
+    detail:
+      'The request is being sent right now and can no longer be rescheduled.',
+    category: 'domain',
+    retryable: false,
+  } as DomainError<'REQUEST.SEND_IN_PROGRESS', RequestContext>,
+  SEND_JOB_LOOKUP_FAILED: {
+    code: 'REQUEST.SEND_JOB_LOOKUP_FAILED',
+    title: 'Send Job Lookup Failed',
+    detail: 'The send job of the request could not be read from the queue.',
+    category: 'infrastructure',
+    retryable: true,
+  } as DomainError<'REQUEST.SEND_JOB_LOOKUP_FAILED', RequestContext>,
+  SLACK_MESSAGE_ACTION_FAILED: {
+    code: 'REQUEST.SLACK_MESSAGE_ACTION_FAILED',
+    title: 'Slack Message Action Failed',
+    detail: 'Slack rejected the change to the sent message.',
+    category: 'infrastructure',
+    retryable: false,
+  } as DomainError<'REQUEST.SLACK_MESSAGE_ACTION_FAILED', RequestContext>,
   STATUS_INVALID_TRANSITION: {
     code: 'REQUEST.STATUS_INVALID_TRANSITION',
     title: 'Invalid Status Transition',
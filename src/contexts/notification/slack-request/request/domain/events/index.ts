@@ -1,5 +1,8 @@
+export * from './request-cancelled.event';
 export * from './request-created.event';
 export * from './request-deleted.event';
 export * from './request-failed.event';
+export * from './request-interaction-received.event';
+export * from './request-rescheduled.event';
 export * from './request-sent.event';
 export * from './request-updated.event';
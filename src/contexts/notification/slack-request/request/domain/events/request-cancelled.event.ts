@@ -0,0 +1,52 @@
+import type {
+  RequestAttachmentProps,
+  RequestQuietHoursProps,
+  RequestStatusValue,
+  RequestThreadProps,
+} from '../value-objects';
+
+/**
+ * Cancelled Request Event Payload
+ * Full request state at the time it was cancelled
+ */
+export interface RequestCancelledEventPayload {
+  code: string;
+  recipient?: string;
+  data?: Record<string, unknown>;
+  status?: RequestStatusValue;
+  workspaceCode: string;
+  templateCode: string;
+  channelCode?: string;
+  scheduledFor?: string;
+  quietHours?: RequestQuietHoursProps;
+  thread?: RequestThreadProps;
+  batchId?: string;
+  attachment?: RequestAttachmentProps;
+  templateVersion?: number;
+  reason?: string;
+}
+
+/**
+ * Cancelled Request Domain Event
+ *
+ * Emitted when a pending request is cancelled before it was sent.
+ * The projector removes the queued send job.
+ */
+export class RequestCancelledEvent {
+  public readonly eventType = 'NotificationSlackRequestRequestCancelled.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: RequestCancelledEventPayload) {}
+
+  static create(data: RequestCancelledEventPayload): RequestCancelledEvent {
+    return new RequestCancelledEvent(data);
+  }
+
+  get code(): string {
+    return this.payload.code;
+  }
+
+  get reason(): string | undefined {
+    return this.payload.reason;
+  }
+}
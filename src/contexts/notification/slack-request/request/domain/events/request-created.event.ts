@@ -1,7 +1,12 @@
 // @generated by gen v1.0.0 hash:regen
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
-import type { RequestStatusValue } from '../value-objects';
+import type {
+  RequestAttachmentProps,
+  RequestQuietHoursProps,
+  RequestStatusValue,
+  RequestThreadProps,
+} from '../value-objects';
 /**
  * Request Created Event Payload
  * Contains only business facts - no envelope metadata, timestamps, or versioning
@@ -14,6 +19,14 @@ export interface RequestCreatedEventPayload {
   workspaceCode: string;
   templateCode: string;
   channelCode?: string;
+  /** ISO 8601; absent when the request is sent right away */
+  scheduledFor?: string;
+  quietHours?: RequestQuietHoursProps;
+  thread?: RequestThreadProps;
+  batchId?: string;
+  attachment?: RequestAttachmentProps;
+  /** Published template version the request is rendered with */
+  templateVersion?: number;
 }
 
 /**
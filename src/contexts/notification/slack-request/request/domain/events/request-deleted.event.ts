@@ -2,6 +2,7 @@
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
 import { EventMetadata } from 'src/shared/domain/events';
+import type { RequestMessageRefProps } from '../value-objects';
 
 /**
  * Request Deleted Event Payload
@@ -11,6 +12,8 @@ export interface RequestDeletedEventPayload {
   code: string;
   deletedAt: Date;
   version: number;
+  /** Slack message that was retracted along with the request */
+  message?: RequestMessageRefProps;
   metadata: EventMetadata;
 }
 
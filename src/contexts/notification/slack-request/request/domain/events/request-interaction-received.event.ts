@@ -0,0 +1,57 @@
+import type { RequestMessageRefProps } from '../value-objects';
+
+/**
+ * Interaction Received Event Payload
+ * One user action on the Slack message of a request
+ */
+export interface RequestInteractionReceivedEventPayload {
+  code: string;
+  workspaceCode: string;
+  /** Message the action was taken on */
+  message: RequestMessageRefProps;
+  actionId: string;
+  actionType: string;
+  blockId?: string;
+  value?: string;
+  url?: string;
+  userId: string;
+  userName?: string;
+  teamId?: string;
+  actionTs?: string;
+  receivedAt: string;
+}
+
+/**
+ * Interaction Received Domain Event
+ *
+ * Emitted when a user clicks a button or picks an option in the Slack
+ * message of a sent request. It does not change the request itself; it is
+ * the audit record interaction handlers act on.
+ */
+export class RequestInteractionReceivedEvent {
+  public readonly eventType =
+    'NotificationSlackRequestRequestInteractionReceived.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(
+    public readonly payload: RequestInteractionReceivedEventPayload,
+  ) {}
+
+  static create(
+    data: RequestInteractionReceivedEventPayload,
+  ): RequestInteractionReceivedEvent {
+    return new RequestInteractionReceivedEvent(data);
+  }
+
+  get code(): string {
+    return this.payload.code;
+  }
+
+  get actionId(): string {
+    return this.payload.actionId;
+  }
+
+  get userId(): string {
+    return this.payload.userId;
+  }
+}
@@ -0,0 +1,58 @@
+import type {
+  RequestAttachmentProps,
+  RequestQuietHoursProps,
+  RequestStatusValue,
+  RequestThreadProps,
+} from '../value-objects';
+
+/**
+ * Rescheduled Request Event Payload
+ * Full request state with the new send time
+ */
+export interface RequestRescheduledEventPayload {
+  code: string;
+  recipient?: string;
+  data?: Record<string, unknown>;
+  status?: RequestStatusValue;
+  workspaceCode: string;
+  templateCode: string;
+  channelCode?: string;
+  /** ISO 8601; absent when the request is now sent right away */
+  scheduledFor?: string;
+  quietHours?: RequestQuietHoursProps;
+  thread?: RequestThreadProps;
+  batchId?: string;
+  attachment?: RequestAttachmentProps;
+  templateVersion?: number;
+  /** ISO 8601 send time before the change, if there was one */
+  previousScheduledFor?: string;
+}
+
+/**
+ * Rescheduled Request Domain Event
+ *
+ * Emitted when the send time of a pending request is moved.
+ * The projector moves the queued send job to the new time.
+ */
+export class RequestRescheduledEvent {
+  public readonly eventType = 'NotificationSlackRequestRequestRescheduled.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: RequestRescheduledEventPayload) {}
+
+  static create(data: RequestRescheduledEventPayload): RequestRescheduledEvent {
+    return new RequestRescheduledEvent(data);
+  }
+
+  get code(): string {
+    return this.payload.code;
+  }
+
+  get scheduledFor(): string | undefined {
+    return this.payload.scheduledFor;
+  }
+
+  get previousScheduledFor(): string | undefined {
+    return this.payload.previousScheduledFor;
+  }
+}
@@ -1,7 +1,10 @@
 // @generated by gen v1.0.0 hash:regen
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
-import type { RequestStatusValue } from '../value-objects';
+import type {
+  RequestMessageRefProps,
+  RequestStatusValue,
+} from '../value-objects';
 /**
  * Sent Request Event Payload
  * Contains complete business context - full message request state at time of successful delivery
@@ -15,6 +18,8 @@ export interface RequestSentEventPayload {
   templateCode: string;
   channelCode?: string;
   attempts: number;
+  /** Slack message the request was posted as */
+  message?: RequestMessageRefProps;
 }
 
 /**
@@ -65,4 +70,8 @@ export class RequestSentEvent {
   get attempts(): number {
     return this.payload.attempts;
   }
+
+  get message(): RequestMessageRefProps | undefined {
+    return this.payload.message;
+  }
 }
@@ -1,7 +1,13 @@
 // @generated by gen v1.0.0 hash:regen
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
-import type { RequestStatusValue } from '../value-objects';
+import type {
+  RequestAttachmentProps,
+  RequestMessageRefProps,
+  RequestQuietHoursProps,
+  RequestStatusValue,
+  RequestThreadProps,
+} from '../value-objects';
 
 /**
  * Request Updated Event Payload
@@ -16,6 +22,15 @@ export interface RequestUpdatedEventPayload {
   workspaceCode: string;
   templateCode: string;
   channelCode?: string;
+  /** ISO 8601; absent when the request is sent right away */
+  scheduledFor?: string;
+  quietHours?: RequestQuietHoursProps;
+  thread?: RequestThreadProps;
+  batchId?: string;
+  attachment?: RequestAttachmentProps;
+  templateVersion?: number;
+  /** Slack message of a sent request, edited in place */
+  message?: RequestMessageRefProps;
 }
 
 /**
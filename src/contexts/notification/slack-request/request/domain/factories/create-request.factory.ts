@@ -18,6 +18,14 @@ import {
   RequestWorkspaceCode,
   RequestTemplateCode,
   RequestChannelCode,
+  RequestScheduledFor,
+  RequestQuietHours,
+  RequestThread,
+  RequestBatchId,
+  RequestAttachment,
+  RequestTemplateVersion,
+  parseRequestSendAt,
+  resolveRequestScheduledFor,
 } from '../value-objects';
 
 /**
@@ -72,7 +80,53 @@ export function createRequestAggregateFromProps(
     );
   }
 
-  const statusResult = createRequestStatus('requested');
+  const now = clock.now();
+
+  let sendAt: Date | undefined;
+  if (props.sendAt !== undefined) {
+    const sendAtResult = parseRequestSendAt(props.sendAt, now);
+    if (!sendAtResult.ok) {
+      return err(
+        withContext(sendAtResult.error, {
+          ...sendAtResult.error.context,
+          correlationId: metadata.correlationId,
+          userId: metadata.userId,
+          operation: 'create_request',
+        }),
+      );
+    }
+    sendAt = sendAtResult.value;
+  }
+
+  let quietHours: RequestQuietHours | undefined;
+  if (props.quietHours !== undefined) {
+    const quietHoursResult = RequestQuietHours.from(props.quietHours);
+    if (!quietHoursResult.ok) {
+      return err(
+        withContext(quietHoursResult.error, {
+          ...quietHoursResult.error.context,
+          correlationId: metadata.correlationId,
+          userId: metadata.userId,
+          operation: 'create_request',
+        }),
+      );
+    }
+    quietHours = quietHoursResult.value;
+  }
+
+  // Requests deferred by sendAt or quiet hours wait in the 'scheduled' state
+  const scheduledForDate = resolveRequestScheduledFor(sendAt, quietHours, now);
+  let scheduledFor: RequestScheduledFor | undefined;
+  if (scheduledForDate) {
+    const scheduledForResult = RequestScheduledFor.create(scheduledForDate);
+    if (!scheduledForResult.ok) {
+      return err(scheduledForResult.error);
+    }
+    scheduledFor = scheduledForResult.value;
+  }
+
+  const initialStatus = scheduledFor ? 'scheduled' : 'requested';
+  const statusResult = createRequestStatus(initialStatus);
   if (!statusResult.ok) {
     return err(
       withContext(statusResult.error, {
@@ -80,7 +134,7 @@ export function createRequestAggregateFromProps(
         correlationId: metadata.correlationId,
         userId: metadata.userId,
         operation: 'create_request',
-        status: 'requested',
+        status: initialStatus,
       }),
     );
   }
@@ -124,6 +178,71 @@ export function createRequestAggregateFromProps(
     );
   }
 
+  const threadResult = RequestThread.fromCreate(
+    props.threadKey,
+    props.threadBroadcast,
+  );
+  if (!threadResult.ok) {
+    return err(
+      withContext(threadResult.error, {
+        ...threadResult.error.context,
+        correlationId: metadata.correlationId,
+        userId: metadata.userId,
+        operation: 'create_request',
+      }),
+    );
+  }
+
+  let batchId: RequestBatchId | undefined;
+  if (props.batchId !== undefined) {
+    const batchIdResult = RequestBatchId.from(props.batchId);
+    if (!batchIdResult.ok) {
+      return err(
+        withContext(batchIdResult.error, {
+          ...batchIdResult.error.context,
+          correlationId: metadata.correlationId,
+          userId: metadata.userId,
+          operation: 'create_request',
+        }),
+      );
+    }
+    batchId = batchIdResult.value;
+  }
+
+  let attachment: RequestAttachment | undefined;
+  if (props.storedAttachment !== undefined) {
+    const attachmentResult = RequestAttachment.from(props.storedAttachment);
+    if (!attachmentResult.ok) {
+      return err(
+        withContext(attachmentResult.error, {
+          ...attachmentResult.error.context,
+          correlationId: metadata.correlationId,
+          userId: metadata.userId,
+          operation: 'create_request',
+        }),
+      );
+    }
+    attachment = attachmentResult.value;
+  }
+
+  let templateVersion: RequestTemplateVersion | undefined;
+  if (props.templateVersion !== undefined) {
+    const templateVersionResult = RequestTemplateVersion.from(
+      props.templateVersion,
+    );
+    if (!templateVersionResult.ok) {
+      return err(
+        withContext(templateVersionResult.error, {
+          ...templateVersionResult.error.context,
+          correlationId: metadata.correlationId,
+          userId: metadata.userId,
+          operation: 'create_request',
+        }),
+      );
+    }
+    templateVersion = templateVersionResult.value;
+  }
+
   const createdAtResult = RequestCreatedAt.create(clock.now());
   if (!createdAtResult.ok) {
     return err(createdAtResult.error);
@@ -148,6 +267,12 @@ export function createRequestAggregateFromProps(
     workspaceCode: workspaceCodeResult.value,
     templateCode: templateCodeResult.value,
     channelCode: channelCodeResult.value,
+    scheduledFor,
+    quietHours,
+    thread: threadResult.value,
+    batchId,
+    attachment,
+    templateVersion,
     createdAt: createdAtResult.value,
     updatedAt: updatedAtResult.value,
     version: versionResult.value,
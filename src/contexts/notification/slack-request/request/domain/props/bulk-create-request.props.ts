@@ -0,0 +1,9 @@
+import type { CreateRequestProps } from './create-request.props';
+
+/**
+ * Bulk Create Request Props
+ * Domain props for creating many requests under one batch id
+ */
+export interface BulkCreateRequestProps {
+  items: CreateRequestProps[];
+}
@@ -0,0 +1,8 @@
+/**
+ * Cancel Request Props
+ * Domain props for cancelling a request that has not been sent
+ */
+export interface CancelRequestProps {
+  code: string;
+  reason?: string;
+}
@@ -1,10 +1,31 @@
 // @generated by gen v1.0.0 hash:regen
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
+import type {
+  RequestAttachmentProps,
+  RequestAttachmentUpload,
+  RequestQuietHoursProps,
+} from '../value-objects';
+
 export interface CreateRequestProps {
   recipient?: string;
   data?: Record<string, unknown>;
   workspaceCode: string;
   templateCode: string;
   channelCode?: string;
+  /** ISO 8601 datetime with offset; omit to send right away */
+  sendAt?: string;
+  quietHours?: RequestQuietHoursProps;
+  /** Correlation key; requests sharing it in a channel form one Slack thread */
+  threadKey?: string;
+  /** Also post thread replies to the channel */
+  threadBroadcast?: boolean;
+  /** Set by bulk create for every request of the call */
+  batchId?: string;
+  /** File uploaded to Slack with the message */
+  attachment?: RequestAttachmentUpload;
+  /** Set on create to the stored blob of `attachment` */
+  storedAttachment?: RequestAttachmentProps;
+  /** Set on create to the template's published version, if it has one */
+  templateVersion?: number;
 }
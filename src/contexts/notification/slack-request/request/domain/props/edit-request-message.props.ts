@@ -0,0 +1,8 @@
+/**
+ * Edit Request Message Props
+ * Domain props for re-rendering the Slack message of a sent request
+ */
+export interface EditRequestMessageProps {
+  code: string;
+  data: Record<string, unknown>;
+}
@@ -1,6 +1,12 @@
+export * from './bulk-create-request.props';
+export * from './cancel-request.props';
 export * from './create-request.props';
+export * from './edit-request-message.props';
 export * from './failed-request.props';
+export * from './record-request-interaction.props';
 export * from './request-snapshot.props';
 export * from './request.props';
+export * from './reschedule-request.props';
+export * from './retract-request-message.props';
 export * from './sent-request.props';
 export * from './update-request.props';
@@ -0,0 +1,18 @@
+/**
+ * Record Request Interaction Props
+ * Domain props for a user interaction with the Slack message of a request
+ */
+export interface RecordRequestInteractionProps {
+  code: string;
+  actionId: string;
+  actionType: string;
+  blockId?: string;
+  value?: string;
+  url?: string;
+  /** Slack user who interacted */
+  userId: string;
+  userName?: string;
+  teamId?: string;
+  /** Slack's timestamp for the action */
+  actionTs?: string;
+}
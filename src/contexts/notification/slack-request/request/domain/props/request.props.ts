@@ -1,7 +1,13 @@
 // @generated by gen v1.0.0 hash:regen
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
-import { RequestStatusValue } from '../value-objects';
+import {
+  RequestAttachmentProps,
+  RequestMessageRefProps,
+  RequestQuietHoursProps,
+  RequestStatusValue,
+  RequestThreadProps,
+} from '../value-objects';
 
 export interface RequestProps {
   code: string;
@@ -11,4 +17,11 @@ export interface RequestProps {
   workspaceCode: string;
   templateCode: string;
   channelCode?: string;
+  scheduledFor?: Date;
+  quietHours?: RequestQuietHoursProps;
+  message?: RequestMessageRefProps;
+  thread?: RequestThreadProps;
+  batchId?: string;
+  attachment?: RequestAttachmentProps;
+  templateVersion?: number;
 }
@@ -0,0 +1,9 @@
+/**
+ * Reschedule Request Props
+ * Domain props for moving the send time of a request that has not been sent
+ */
+export interface RescheduleRequestProps {
+  code: string;
+  /** ISO 8601 datetime with offset */
+  sendAt: string;
+}
@@ -0,0 +1,7 @@
+/**
+ * Retract Request Message Props
+ * Domain props for deleting the Slack message of a sent request
+ */
+export interface RetractRequestMessageProps {
+  code: string;
+}
@@ -1,9 +1,12 @@
 // @generated by gen v1.0.0 hash:regen
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
+import { RequestMessageRefProps } from '../value-objects';
+
 export interface SentRequestProps {
   code: string;
   attempts: number;
+  message?: RequestMessageRefProps;
   correlationId?: string;
   causationId?: string;
 }
@@ -12,6 +12,13 @@ import {
   RequestStatus,
   RequestTemplateCode,
   RequestWorkspaceCode,
+  RequestScheduledFor,
+  RequestQuietHours,
+  RequestMessageRef,
+  RequestThread,
+  RequestBatchId,
+  RequestAttachment,
+  RequestTemplateVersion,
 } from '../value-objects';
 
 /**
@@ -35,6 +42,13 @@ export interface RequestDomainState {
   workspaceCode: RequestWorkspaceCode;
   templateCode: RequestTemplateCode;
   channelCode?: RequestChannelCode;
+  scheduledFor?: RequestScheduledFor;
+  quietHours?: RequestQuietHours;
+  message?: RequestMessageRef;
+  thread?: RequestThread;
+  batchId?: RequestBatchId;
+  attachment?: RequestAttachment;
+  templateVersion?: RequestTemplateVersion;
   version: RequestVersion;
   createdAt: RequestCreatedAt;
   updatedAt: RequestUpdatedAt;
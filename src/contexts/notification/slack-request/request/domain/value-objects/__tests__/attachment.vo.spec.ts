@@ -0,0 +1,81 @@
+import {
+  REQUEST_ATTACHMENT_INLINE_MAX_BYTES,
+  RequestAttachment,
+} from '../attachment.vo';
+
+describe('RequestAttachment', () => {
+  describe('validateUpload', () => {
+    const upload = { filename: 'daily.csv', contentType: 'text/csv' } as const;
+
+    it('accepts base64 content', () => {
+      const result = RequestAttachment.validateUpload({
+        ...upload,
+        content: Buffer.from('id\n1\n').toString('base64'),
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('accepts an https url', () => {
+      const result = RequestAttachment.validateUpload({
+        ...upload,
+        url: 'https://files.example.com/daily.csv',
+      });
+
+      expect(result.ok).toBe(true);
+    });
+
+    test.each([
+      ['neither content nor url', {}],
+      ['both content and url', { content: 'aWQ=', url: 'https://x.io/a' }],
+      ['content that is not base64', { content: 'not base64!' }],
+      ['a plain http url', { url: 'http://files.example.com/daily.csv' }],
+    ])('rejects %s', (_case, source) => {
+      const result = RequestAttachment.validateUpload({ ...upload, ...source });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('rejects inline content over the limit', () => {
+      const content = Buffer.alloc(REQUEST_ATTACHMENT_INLINE_MAX_BYTES + 1);
+
+      const result = RequestAttachment.validateUpload({
+        ...upload,
+        content: content.toString('base64'),
+      });
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('create', () => {
+    it('keeps only the blob reference', () => {
+      const result = RequestAttachment.create({
+        filename: ' daily.csv ',
+        contentType: 'text/csv',
+        source: 'inline',
+        blobId: 'blob-1',
+        sizeBytes: 5,
+      });
+
+      expect(result.ok && result.value.value).toEqual({
+        filename: 'daily.csv',
+        contentType: 'text/csv',
+        source: 'inline',
+        blobId: 'blob-1',
+        sizeBytes: 5,
+      });
+    });
+
+    it('rejects an attachment without a blob', () => {
+      const result = RequestAttachment.create({
+        filename: 'daily.csv',
+        contentType: 'text/csv',
+        source: 'url',
+        blobId: '',
+      });
+
+      expect(result.ok).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  REQUEST_PENDING_STATUSES,
+  RequestStatusLogic,
+  RequestStatusValues,
+} from '../status.vo';
+
+describe('RequestStatusLogic', () => {
+  describe('lifecycle', () => {
+    test.each([
+      ['requested', 'validated'],
+      ['validated', 'queued'],
+      ['queued', 'sent'],
+      ['queued', 'failed'],
+      ['scheduled', 'queued'],
+      ['failed', 'queued'],
+    ] as const)('allows %s -> %s', (from, to) => {
+      expect(RequestStatusLogic.canTransition(from, to)).toBe(true);
+    });
+
+    test.each([
+      ['requested', 'sent'],
+      ['scheduled', 'sent'],
+      ['failed', 'sent'],
+      ['failed', 'cancelled'],
+      ['sent', 'failed'],
+      ['cancelled', 'queued'],
+      ['requested', 'queued'],
+      ['requested', 'failed'],
+      ['validated', 'requested'],
+      ['queued', 'requested'],
+      ['queued', 'scheduled'],
+    ] as const)('rejects %s -> %s', (from, to) => {
+      expect(RequestStatusLogic.canTransition(from, to)).toBe(false);
+    });
+
+    test('only sent and cancelled are terminal', () => {
+      const terminal = RequestStatusValues.filter((value) =>
+        RequestStatusLogic.isTerminal(value),
+      );
+
+      expect(terminal).toEqual(['sent', 'cancelled']);
+    });
+
+    test.each(REQUEST_PENDING_STATUSES)(
+      'a %s request can be cancelled or rescheduled',
+      (status) => {
+        expect(RequestStatusLogic.isPending(status)).toBe(true);
+        expect(RequestStatusLogic.canTransition(status, 'cancelled')).toBe(
+          true,
+        );
+        expect(RequestStatusLogic.canReschedule(status, 'scheduled')).toBe(
+          true,
+        );
+        expect(RequestStatusLogic.canReschedule(status, 'requested')).toBe(
+          true,
+        );
+      },
+    );
+
+    test.each(['sent', 'failed', 'cancelled'] as const)(
+      'a %s request cannot be rescheduled',
+      (status) => {
+        expect(RequestStatusLogic.canReschedule(status, 'scheduled')).toBe(
+          false,
+        );
+        expect(RequestStatusLogic.canReschedule(status, 'requested')).toBe(
+          false,
+        );
+      },
+    );
+
+    test('a reschedule only restarts a request as requested or scheduled', () => {
+      expect(RequestStatusLogic.canReschedule('scheduled', 'queued')).toBe(
+        false,
+      );
+      expect(RequestStatusLogic.canReschedule('requested', 'validated')).toBe(
+        false,
+      );
+    });
+
+    test('sent, failed and cancelled requests are not pending', () => {
+      expect(RequestStatusLogic.isPending('sent')).toBe(false);
+      expect(RequestStatusLogic.isPending('failed')).toBe(false);
+      expect(RequestStatusLogic.isPending('cancelled')).toBe(false);
+      expect(RequestStatusLogic.isPending(undefined)).toBe(false);
+    });
+  });
+
+  describe('resolveRecorded', () => {
+    test('takes a legal transition', () => {
+      expect(RequestStatusLogic.resolveRecorded('queued', 'sent')).toBe('sent');
+    });
+
+    test('keeps a terminal status over a late event', () => {
+      expect(RequestStatusLogic.resolveRecorded('sent', 'failed')).toBe('sent');
+      expect(RequestStatusLogic.resolveRecorded('cancelled', 'queued')).toBe(
+        'cancelled',
+      );
+    });
+
+    test('follows the event when the current status is not terminal', () => {
+      expect(RequestStatusLogic.resolveRecorded('requested', 'sent')).toBe(
+        'sent',
+      );
+      expect(RequestStatusLogic.resolveRecorded('failed', 'sent')).toBe('sent');
+    });
+
+    test('falls back to whichever side is known', () => {
+      expect(RequestStatusLogic.resolveRecorded(undefined, 'requested')).toBe(
+        'requested',
+      );
+      expect(RequestStatusLogic.resolveRecorded('sent', undefined)).toBe(
+        'sent',
+      );
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { RequestThread } from '../thread.vo';
+
+describe('RequestThread', () => {
+  it('trims the key and drops a false broadcast', () => {
+    const result = RequestThread.create({
+      key: ' order-123 ',
+      broadcast: false,
+    });
+
+    expect(result.ok && result.value.value).toEqual({ key: 'order-123' });
+  });
+
+  test.each([
+    ['an empty key', ''],
+    ['a key with spaces', 'order 123'],
+    ['a key over 128 characters', 'k'.repeat(129)],
+  ])('rejects %s', (_case, key) => {
+    const result = RequestThread.create({ key });
+
+    expect(!result.ok && result.error.code).toBe('REQUEST.INVALID_THREAD');
+  });
+
+  describe('fromCreate', () => {
+    it('returns no thread without a key', () => {
+      expect(RequestThread.fromCreate(undefined, undefined)).toEqual({
+        ok: true,
+        value: undefined,
+      });
+    });
+
+    it('rejects broadcast without a key', () => {
+      const result = RequestThread.fromCreate(undefined, true);
+
+      expect(!result.ok && result.error.code).toBe('REQUEST.INVALID_THREAD');
+    });
+  });
+});
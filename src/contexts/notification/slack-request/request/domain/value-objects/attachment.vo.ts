@@ -0,0 +1,229 @@
+import { DomainError, Result, ok, err } from 'src/shared/errors';
+import { RequestErrors } from '../errors/request.errors';
+
+export const REQUEST_ATTACHMENT_CONTENT_TYPES = [
+  'text/csv',
+  'application/pdf',
+] as const;
+export type RequestAttachmentContentType =
+  (typeof REQUEST_ATTACHMENT_CONTENT_TYPES)[number];
+
+/** Whether a stored blob holds inline content or a url to download */
+export type RequestAttachmentSource = 'inline' | 'url';
+
+/** Largest inline file; inline content is stored as a blob until sent */
+export const REQUEST_ATTACHMENT_INLINE_MAX_BYTES = 1024 * 1024;
+
+/** Largest file fetched from a url */
+export const REQUEST_ATTACHMENT_URL_MAX_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Attachment as given on create; content or url is kept out of the request
+ * and stored as a blob
+ */
+export interface RequestAttachmentUpload {
+  filename: string;
+  contentType: RequestAttachmentContentType;
+  /** Shown in Slack instead of the filename */
+  title?: string;
+  /** Base64 file content; exclusive with url */
+  content?: string;
+  /** HTTPS location of a stored blob, e.g. a pre-signed link; exclusive with content */
+  url?: string;
+}
+
+/**
+ * Attachment as recorded on the request: file details and a reference to
+ * the stored blob
+ */
+export interface RequestAttachmentProps {
+  filename: string;
+  contentType: RequestAttachmentContentType;
+  /** Shown in Slack instead of the filename */
+  title?: string;
+  source: RequestAttachmentSource;
+  /** Stored blob holding the content or url */
+  blobId: string;
+  /** Decoded size of inline content */
+  sizeBytes?: number;
+}
+
+const FILENAME = /^[^\\/\p{Cc}]{1,255}$/u;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Bytes encoded by a base64 string
+ */
+export function base64DecodedLength(content: string): number {
+  const padding = content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0;
+  return Math.floor((content.length * 3) / 4) - padding;
+}
+
+/**
+ * Attachment Value Object
+ *
+ * A file uploaded to Slack with the message, given inline as base64 or as a
+ * url the worker downloads at send time. The request only references the
+ * stored blob, so file content and signed urls stay out of its events and
+ * projections. Declared type and inline size are checked on upload; the
+ * loaded bytes are checked again before they go to Slack.
+ */
+export class RequestAttachment {
+  private constructor(private readonly props: RequestAttachmentProps) {}
+
+  /**
+   * Check an attachment given on create before its blob is stored
+   */
+  static validateUpload(
+    upload: RequestAttachmentUpload,
+  ): Result<RequestAttachmentUpload, DomainError> {
+    const invalid = RequestAttachment.invalid(upload);
+
+    const details = RequestAttachment.checkDetails(upload);
+    if (!details.ok) return details;
+    if ((upload.content === undefined) === (upload.url === undefined)) {
+      return invalid('Attachment needs either content or url.');
+    }
+
+    if (upload.content !== undefined) {
+      if (
+        upload.content.length === 0 ||
+        upload.content.length % 4 !== 0 ||
+        !BASE64.test(upload.content)
+      ) {
+        return invalid('Attachment content must be base64.');
+      }
+      if (
+        base64DecodedLength(upload.content) >
+        REQUEST_ATTACHMENT_INLINE_MAX_BYTES
+      ) {
+        return invalid(
+          `Inline attachments are limited to ${REQUEST_ATTACHMENT_INLINE_MAX_BYTES} bytes; pass a url for larger files.`,
+        );
+      }
+    } else if (!RequestAttachment.isHttpsUrl(upload.url!)) {
+      return invalid('Attachment url must be an https URL.');
+    }
+
+    return ok({
+      ...details.value,
+      ...(upload.content !== undefined
+        ? { content: upload.content }
+        : { url: upload.url }),
+    });
+  }
+
+  static create(
+    props: RequestAttachmentProps,
+  ): Result<RequestAttachment, DomainError> {
+    const invalid = RequestAttachment.invalid(props);
+
+    const details = RequestAttachment.checkDetails(props);
+    if (!details.ok) return details;
+    if (props.source !== 'inline' && props.source !== 'url') {
+      return invalid('Attachment source must be inline or url.');
+    }
+    if (typeof props.blobId !== 'string' || props.blobId.length === 0) {
+      return invalid('Attachment must reference a stored blob.');
+    }
+
+    return ok(
+      new RequestAttachment({
+        ...details.value,
+        source: props.source,
+        blobId: props.blobId,
+        ...(props.sizeBytes !== undefined
+          ? { sizeBytes: props.sizeBytes }
+          : {}),
+      }),
+    );
+  }
+
+  static from(value: unknown): Result<RequestAttachment, DomainError> {
+    if (typeof value !== 'object' || value === null) {
+      return err({
+        ...RequestErrors.INVALID_ATTACHMENT,
+        context: { attachment: typeof value },
+      });
+    }
+    return RequestAttachment.create(value as RequestAttachmentProps);
+  }
+
+  private static invalid(props: Partial<RequestAttachmentUpload>) {
+    return (reason: string) =>
+      err({
+        ...RequestErrors.INVALID_ATTACHMENT,
+        detail: reason,
+        context: { filename: props?.filename, contentType: props?.contentType },
+      });
+  }
+
+  /**
+   * Filename, type and title shared by uploads and stored attachments
+   */
+  private static checkDetails(
+    props: Pick<RequestAttachmentProps, 'filename' | 'contentType' | 'title'>,
+  ): Result<
+    Pick<RequestAttachmentProps, 'filename' | 'contentType' | 'title'>,
+    DomainError
+  > {
+    const invalid = RequestAttachment.invalid(props);
+
+    const filename = props?.filename?.trim();
+    if (!filename || !FILENAME.test(filename)) {
+      return invalid('Attachment filename must be 1-255 characters.');
+    }
+    if (!REQUEST_ATTACHMENT_CONTENT_TYPES.includes(props.contentType)) {
+      return invalid(
+        `Attachment type must be one of ${REQUEST_ATTACHMENT_CONTENT_TYPES.join(', ')}.`,
+      );
+    }
+    if (props.title !== undefined && props.title.length > 255) {
+      return invalid('Attachment title must be at most 255 characters.');
+    }
+
+    return ok({
+      filename,
+      contentType: props.contentType,
+      ...(props.title ? { title: props.title } : {}),
+    });
+  }
+
+  private static isHttpsUrl(value: string): boolean {
+    try {
+      return new URL(value).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  get value(): RequestAttachmentProps {
+    return { ...this.props };
+  }
+
+  get filename(): string {
+    return this.props.filename;
+  }
+
+  get contentType(): RequestAttachmentContentType {
+    return this.props.contentType;
+  }
+
+  get source(): RequestAttachmentSource {
+    return this.props.source;
+  }
+
+  get blobId(): string {
+    return this.props.blobId;
+  }
+
+  equals(other: RequestAttachment): boolean {
+    return (
+      this.props.filename === other.props.filename &&
+      this.props.contentType === other.props.contentType &&
+      this.props.title === other.props.title &&
+      this.props.source === other.props.source &&
+      this.props.blobId === other.props.blobId
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import {
+  UuidVOInstance,
+  createUuidVO,
+  createUuidVOErrors,
+} from 'src/shared/domain/value-objects';
+import { RequestErrors } from '../errors/request.errors';
+
+/**
+ * Batch Id UUID Value Object
+ * Shared by all requests created by one bulk call
+ */
+export const RequestBatchId = createUuidVO({
+  name: 'BatchId',
+  required: true,
+  version: 4,
+
+  normalize: 'lowercase',
+
+  errors: createUuidVOErrors(RequestErrors.INVALID_BATCH_ID, 'BatchId'),
+});
+
+/** Public instance type for BatchId */
+export type RequestBatchId = UuidVOInstance;
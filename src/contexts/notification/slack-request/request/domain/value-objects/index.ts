@@ -1,8 +1,14 @@
+export * from './attachment.vo';
+export * from './batch-id.vo';
 export * from './channel-code.vo';
 export * from './code.vo';
 export * from './data.vo';
+export * from './message-ref.vo';
 export * from './recipient.vo';
 export * from './request-instance.vo';
+export * from './schedule.vo';
 export * from './status.vo';
 export * from './template-code.vo';
+export * from './template-version.vo';
+export * from './thread.vo';
 export * from './workspace-code.vo';
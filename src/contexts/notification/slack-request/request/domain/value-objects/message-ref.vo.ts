@@ -0,0 +1,65 @@
+import { DomainError, Result, ok, err } from 'src/shared/errors';
+import { RequestErrors } from '../errors/request.errors';
+
+export interface RequestMessageRefProps {
+  /** Channel id Slack resolved the message to (C…, G… or D…) */
+  channelId: string;
+  /** Slack message timestamp, e.g. 1712345678.123456 */
+  ts: string;
+}
+
+const SLACK_TS = /^\d+\.\d+$/;
+
+/**
+ * Message Reference Value Object
+ *
+ * Identifies the Slack message a request was delivered as. Slack addresses a
+ * message by channel id and ts, which is what chat.update and chat.delete
+ * need to act on it later.
+ */
+export class RequestMessageRef {
+  private constructor(private readonly props: RequestMessageRefProps) {}
+
+  static create(
+    props: RequestMessageRefProps,
+  ): Result<RequestMessageRef, DomainError> {
+    const channelId = props?.channelId?.trim();
+    const ts = props?.ts?.trim();
+    if (!channelId || !ts || !SLACK_TS.test(ts)) {
+      return err({
+        ...RequestErrors.INVALID_MESSAGE_REF,
+        context: { message: props },
+      });
+    }
+    return ok(new RequestMessageRef({ channelId, ts }));
+  }
+
+  static from(value: unknown): Result<RequestMessageRef, DomainError> {
+    if (typeof value !== 'object' || value === null) {
+      return err({
+        ...RequestErrors.INVALID_MESSAGE_REF,
+        context: { message: value },
+      });
+    }
+    return RequestMessageRef.create(value as RequestMessageRefProps);
+  }
+
+  get value(): RequestMessageRefProps {
+    return { ...this.props };
+  }
+
+  get channelId(): string {
+    return this.props.channelId;
+  }
+
+  get ts(): string {
+    return this.props.ts;
+  }
+
+  equals(other: RequestMessageRef): boolean {
+    return (
+      this.props.channelId === other.props.channelId &&
+      this.props.ts === other.props.ts
+    );
+  }
+}
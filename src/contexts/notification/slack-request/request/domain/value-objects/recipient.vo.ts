@@ -8,9 +8,44 @@ import {
 } from 'src/shared/domain/value-objects';
 import { RequestErrors } from '../errors/request.errors';
 
+const SLACK_CONVERSATION_ID = /^[CDG][A-Z0-9]{6,}$/;
+const SLACK_USER_ID = /^[UW][A-Z0-9]{6,}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Where a recipient sends the message
+ * - conversation: a channel ID, posted to as is
+ * - user: a Slack user ID, messaged directly
+ * - email: resolved to a Slack user in the workspace, then messaged directly
+ */
+export type RequestRecipientTarget =
+  | { kind: 'conversation'; channelId: string }
+  | { kind: 'user'; userId: string }
+  | { kind: 'email'; email: string };
+
+/**
+ * Classify a recipient value
+ * @returns undefined when the value is neither a Slack ID nor an email
+ */
+export function parseRequestRecipient(
+  value: string,
+): RequestRecipientTarget | undefined {
+  if (SLACK_CONVERSATION_ID.test(value)) {
+    return { kind: 'conversation', channelId: value };
+  }
+  if (SLACK_USER_ID.test(value)) {
+    return { kind: 'user', userId: value };
+  }
+  if (EMAIL.test(value)) {
+    return { kind: 'email', email: value.toLowerCase() };
+  }
+  return undefined;
+}
+
 /**
  * Recipient Value Object
- * Represents a validated recipient with business rules
+ * A Slack channel ID, Slack user ID or email address; empty means the
+ * request's channel is used
  */
 export const RequestRecipient = createStringVO({
   name: 'Recipient',
@@ -18,11 +53,19 @@ export const RequestRecipient = createStringVO({
   caseTransform: 'none',
   allowEmpty: true,
 
-  maxLength: 32,
+  maxLength: 254,
 
-  // Optional: declarative refinements for advanced validation
-  // refinements: [
-  // ],
+  refinements: [
+    {
+      name: 'slack_id_or_email',
+      test: (value) => value === '' || !!parseRequestRecipient(value),
+      createError: (value) => ({
+        ...RequestErrors.INVALID_RECIPIENT,
+        detail: 'Recipient must be a Slack channel ID, user ID or email.',
+        context: { recipient: value },
+      }),
+    },
+  ],
 
   errors: createStringVOErrors(RequestErrors.INVALID_RECIPIENT, 'Recipient'),
 });
@@ -0,0 +1,222 @@
+import { DomainError, Result, ok, err } from 'src/shared/errors';
+import {
+  createDateTimeVO,
+  createDateTimeVOErrors,
+  DateTimeVOInstance,
+} from 'src/shared/domain/value-objects';
+import { RequestErrors } from '../errors/request.errors';
+
+/**
+ * Request Schedule Value Objects
+ *
+ * A request is sent at its `sendAt` time, or immediately when none is given,
+ * pushed out of the recipient's quiet hours when they would fall inside them.
+ * The resulting instant is kept on the request as `scheduledFor`.
+ */
+
+// ===========================================
+// Request Scheduled For VO
+// ===========================================
+
+export const RequestScheduledFor = createDateTimeVO({
+  name: 'RequestScheduledFor',
+  // Past values remain valid once the send time has gone by
+  allowPast: true,
+  errors: createDateTimeVOErrors(RequestErrors.INVALID_SEND_AT, 'Send At'),
+});
+
+export type RequestScheduledFor = DateTimeVOInstance;
+
+/**
+ * ISO 8601 datetime that carries its own offset, e.g.
+ * 2025-03-01T09:30:00+01:00 or 2025-03-01T08:30:00Z
+ */
+const ISO_WITH_OFFSET =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,9})?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Parse a caller supplied send time. The value must name its offset so it
+ * never depends on the server timezone, and must lie in the future.
+ */
+export function parseRequestSendAt(
+  value: string,
+  now: Date,
+): Result<Date, DomainError> {
+  const sendAt = new Date(value);
+  if (!ISO_WITH_OFFSET.test(value) || Number.isNaN(sendAt.getTime())) {
+    return err({
+      ...RequestErrors.INVALID_SEND_AT,
+      context: { sendAt: value },
+    });
+  }
+  if (sendAt.getTime() <= now.getTime()) {
+    return err({
+      ...RequestErrors.INVALID_SEND_AT,
+      detail: 'sendAt must be in the future.',
+      context: { sendAt: value, now: now.toISOString() },
+    });
+  }
+  return ok(sendAt);
+}
+
+// ===========================================
+// Request Quiet Hours VO
+// ===========================================
+
+export interface RequestQuietHoursProps {
+  /** Local start of the window, HH:mm */
+  start: string;
+  /** Local end of the window, HH:mm; before start for overnight windows */
+  end: string;
+  /** IANA timezone the window is expressed in */
+  timezone: string;
+}
+
+const HH_MM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Quiet Hours Value Object
+ *
+ * A daily window, in the recipient's timezone, during which nothing is sent.
+ * Windows may wrap midnight (22:00 → 07:00).
+ */
+export class RequestQuietHours {
+  private readonly formatter: Intl.DateTimeFormat;
+
+  private constructor(
+    private readonly props: RequestQuietHoursProps,
+    private readonly startMinute: number,
+    private readonly endMinute: number,
+  ) {
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: props.timezone,
+      hourCycle: 'h23',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  }
+
+  static create(
+    props: RequestQuietHoursProps,
+  ): Result<RequestQuietHours, DomainError> {
+    const start = HH_MM.exec(props?.start ?? '');
+    const end = HH_MM.exec(props?.end ?? '');
+    if (!start || !end || props.start === props.end) {
+      return err({
+        ...RequestErrors.INVALID_QUIET_HOURS,
+        context: { quietHours: props },
+      });
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: props.timezone });
+    } catch {
+      return err({
+        ...RequestErrors.INVALID_QUIET_HOURS,
+        detail: `Unknown timezone: ${String(props.timezone)}`,
+        context: { quietHours: props },
+      });
+    }
+
+    return ok(
+      new RequestQuietHours(
+        { start: props.start, end: props.end, timezone: props.timezone },
+        Number(start[1]) * 60 + Number(start[2]),
+        Number(end[1]) * 60 + Number(end[2]),
+      ),
+    );
+  }
+
+  static from(value: unknown): Result<RequestQuietHours, DomainError> {
+    if (typeof value !== 'object' || value === null) {
+      return err({
+        ...RequestErrors.INVALID_QUIET_HOURS,
+        context: { quietHours: value },
+      });
+    }
+    return RequestQuietHours.create(value as RequestQuietHoursProps);
+  }
+
+  get value(): RequestQuietHoursProps {
+    return { ...this.props };
+  }
+
+  /**
+   * Whether the instant falls inside the window
+   */
+  contains(instant: Date): boolean {
+    const { minute } = this.localTime(instant);
+    return this.startMinute < this.endMinute
+      ? minute >= this.startMinute && minute < this.endMinute
+      : minute >= this.startMinute || minute < this.endMinute;
+  }
+
+  /**
+   * The earliest instant at or after `instant` that is outside the window
+   */
+  nextAllowed(instant: Date): Date {
+    if (!this.contains(instant)) return instant;
+
+    const { minute, second, millisecond } = this.localTime(instant);
+    const minutesLeft =
+      (this.endMinute - minute + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    let candidate = new Date(
+      instant.getTime() + minutesLeft * 60_000 - second * 1000 - millisecond,
+    );
+
+    // A DST change inside the window moves the local end by the offset
+    // change, so nudge towards it while staying outside the window
+    for (let i = 0; i < 2; i++) {
+      const delta =
+        ((this.endMinute -
+          this.localTime(candidate).minute +
+          MINUTES_PER_DAY * 1.5) %
+          MINUTES_PER_DAY) -
+        MINUTES_PER_DAY / 2;
+      if (delta === 0) break;
+      const next = new Date(candidate.getTime() + delta * 60_000);
+      if (this.contains(next)) break;
+      candidate = next;
+    }
+    return candidate;
+  }
+
+  equals(other: RequestQuietHours): boolean {
+    return (
+      this.props.start === other.props.start &&
+      this.props.end === other.props.end &&
+      this.props.timezone === other.props.timezone
+    );
+  }
+
+  private localTime(instant: Date): {
+    minute: number;
+    second: number;
+    millisecond: number;
+  } {
+    const parts = this.formatter.formatToParts(instant);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((p) => p.type === type)?.value ?? 0);
+    return {
+      minute: part('hour') * 60 + part('minute'),
+      second: part('second'),
+      millisecond: instant.getUTCMilliseconds(),
+    };
+  }
+}
+
+/**
+ * Work out when a request should go out. Returns undefined when it can be
+ * sent right away.
+ */
+export function resolveRequestScheduledFor(
+  sendAt: Date | undefined,
+  quietHours: RequestQuietHours | undefined,
+  now: Date,
+): Date | undefined {
+  const earliest = sendAt ?? now;
+  const scheduledFor = quietHours ? quietHours.nextAllowed(earliest) : earliest;
+  return scheduledFor.getTime() > now.getTime() ? scheduledFor : undefined;
+}
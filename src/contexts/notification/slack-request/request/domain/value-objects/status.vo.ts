@@ -26,6 +26,8 @@ export const RequestStatusValues = [
   'queued',
   'failed',
   'sent',
+  'scheduled',
+  'cancelled',
 ] as const;
 export type RequestStatusValue = (typeof RequestStatusValues)[number];
 
@@ -71,13 +73,24 @@ export const requestStatusFrom = (value: unknown) =>
 
 /**
  * Valid state transitions for request status
+ *
+ * requested -> validated -> queued -> sent | failed. A scheduled request joins
+ * the lifecycle at queued once its send time comes. A failed request only
+ * re-enters through queued when the send is retried. Sent and cancelled are
+ * terminal.
+ *
+ * Rescheduling is not part of this table; see REQUEST_RESCHEDULE_STATUSES.
  */
 const REQUEST_STATUS_TRANSITIONS = {
-  requested: ['validated', 'queued', 'failed', 'sent'] as const,
-  validated: ['requested', 'queued', 'failed', 'sent'] as const,
-  queued: ['requested', 'validated', 'failed', 'sent'] as const,
-  failed: ['requested', 'validated', 'queued', 'sent'] as const,
-  sent: ['requested', 'validated', 'queued', 'failed'] as const,
+  requested: ['validated', 'cancelled'] as const,
+  validated: ['queued', 'cancelled'] as const,
+  scheduled: ['queued', 'cancelled'] as const,
+  queued: ['sent', 'failed', 'cancelled'] as const,
+  // Retry re-entry
+  failed: ['queued'] as const,
+  sent: [] as const,
+  // Cancelled requests are never sent
+  cancelled: [] as const,
 } as const;
 
 /**
@@ -89,12 +102,34 @@ const REQUEST_STATUS_DISPLAY_NAMES = {
   queued: 'Queued',
   failed: 'Failed',
   sent: 'Sent',
+  scheduled: 'Scheduled',
+  cancelled: 'Cancelled',
 } as const;
 
+/**
+ * Statuses of a request that has not been handed to Slack yet and can still
+ * be cancelled or rescheduled
+ */
+export const REQUEST_PENDING_STATUSES: readonly RequestStatusValue[] = [
+  'requested',
+  'validated',
+  'queued',
+  'scheduled',
+];
+
+/**
+ * Statuses a reschedule restarts a pending request in: scheduled for a later
+ * send time, requested for right away
+ */
+export const REQUEST_RESCHEDULE_STATUSES: readonly RequestStatusValue[] = [
+  'requested',
+  'scheduled',
+];
+
 /**
  * State machine helpers for RequestStatus transitions
  */
-const RequestStatusTransitions = createStateTransitions(
+const RequestStatusTransitions = createStateTransitions<RequestStatusValue>(
   REQUEST_STATUS_TRANSITIONS,
 );
 
@@ -142,6 +177,50 @@ export const RequestStatusLogic = {
   getDisplayName: (value: RequestStatusValue): string =>
     RequestStatusDisplay.getDisplayName(value),
 
+  /**
+   * Check if no transition leaves this state
+   */
+  isTerminal: (value: RequestStatusValue): boolean =>
+    RequestStatusTransitions.isTerminal(value),
+
+  /**
+   * Resolve the status to keep when folding a recorded event onto the
+   * current state
+   *
+   * Streams written before transitions were enforced can hold events out of
+   * order, e.g. a late RequestFailed after RequestSent. Recorded history is
+   * never rejected: a legal transition is taken, a terminal state is kept,
+   * and anything else follows the event as it did before.
+   */
+  resolveRecorded: (
+    current: RequestStatusValue | undefined,
+    recorded: RequestStatusValue | undefined,
+  ): RequestStatusValue | undefined => {
+    if (!current || !recorded || current === recorded) {
+      return recorded ?? current;
+    }
+    if (RequestStatusTransitions.canTransition(current, recorded)) {
+      return recorded;
+    }
+    return RequestStatusTransitions.isTerminal(current) ? current : recorded;
+  },
+
+  /**
+   * Check if a reschedule may restart a request in `from` at `to`
+   *
+   * A reschedule is its own transition rather than an edge of the lifecycle:
+   * any pending request starts over as requested or scheduled.
+   */
+  canReschedule: (from: RequestStatusValue, to: RequestStatusValue): boolean =>
+    REQUEST_PENDING_STATUSES.includes(from) &&
+    REQUEST_RESCHEDULE_STATUSES.includes(to),
+
+  /**
+   * Check if a request in this state can still be cancelled or rescheduled
+   */
+  isPending: (value: RequestStatusValue | undefined): boolean =>
+    value !== undefined && REQUEST_PENDING_STATUSES.includes(value),
+
   /**
    * Get all available values with metadata
    */
@@ -0,0 +1,27 @@
+import {
+  IntegerVOInstance,
+  createIntegerVO,
+  createIntegerVOErrors,
+} from 'src/shared/domain/value-objects';
+import { RequestErrors } from '../errors/request.errors';
+
+/**
+ * TemplateVersion Integer Value Object
+ * Published template version pinned when the request was created.
+ * Absent when the template had not been published yet.
+ */
+export const RequestTemplateVersion = createIntegerVO({
+  name: 'TemplateVersion',
+  min: 1,
+  allowNegative: false,
+  allowZero: false,
+  required: true,
+
+  errors: createIntegerVOErrors(
+    RequestErrors.INVALID_TEMPLATE_VERSION,
+    'TemplateVersion',
+  ),
+});
+
+/** Public instance type for TemplateVersion */
+export type RequestTemplateVersion = IntegerVOInstance;
@@ -0,0 +1,86 @@
+import { DomainError, Result, ok, err } from 'src/shared/errors';
+import { RequestErrors } from '../errors/request.errors';
+
+export interface RequestThreadProps {
+  /** Caller-chosen correlation key, e.g. order-123 */
+  key: string;
+  /** Also post replies to the channel, not only the thread */
+  broadcast?: boolean;
+}
+
+const THREAD_KEY = /^\S{1,128}$/;
+
+/**
+ * Thread Value Object
+ *
+ * Groups requests into one Slack thread. The first request sent with a key
+ * in a channel starts the thread; later requests with the same key reply to
+ * it. The key is scoped by workspace and channel when it is resolved.
+ */
+export class RequestThread {
+  private constructor(private readonly props: RequestThreadProps) {}
+
+  static create(props: RequestThreadProps): Result<RequestThread, DomainError> {
+    const key = props?.key?.trim();
+    if (!key || !THREAD_KEY.test(key)) {
+      return err({
+        ...RequestErrors.INVALID_THREAD,
+        context: { thread: props },
+      });
+    }
+    return ok(
+      new RequestThread({
+        key,
+        ...(props.broadcast ? { broadcast: true } : {}),
+      }),
+    );
+  }
+
+  static from(value: unknown): Result<RequestThread, DomainError> {
+    if (typeof value !== 'object' || value === null) {
+      return err({
+        ...RequestErrors.INVALID_THREAD,
+        context: { thread: value },
+      });
+    }
+    return RequestThread.create(value as RequestThreadProps);
+  }
+
+  /**
+   * Build the thread from the flat create fields
+   * @returns undefined when no key was given; broadcast alone is rejected
+   */
+  static fromCreate(
+    key: string | undefined,
+    broadcast: boolean | undefined,
+  ): Result<RequestThread | undefined, DomainError> {
+    if (key === undefined) {
+      if (broadcast) {
+        return err({
+          ...RequestErrors.INVALID_THREAD,
+          context: { threadBroadcast: broadcast },
+        });
+      }
+      return ok(undefined);
+    }
+    return RequestThread.create({ key, broadcast });
+  }
+
+  get value(): RequestThreadProps {
+    return { ...this.props };
+  }
+
+  get key(): string {
+    return this.props.key;
+  }
+
+  get broadcast(): boolean {
+    return this.props.broadcast === true;
+  }
+
+  equals(other: RequestThread): boolean {
+    return (
+      this.props.key === other.props.key && this.broadcast === other.broadcast
+    );
+  }
+}
@@ -19,6 +19,13 @@ import {
   RequestCreatedAt,
   RequestUpdatedAt,
   RequestVersion,
+  RequestScheduledFor,
+  RequestQuietHours,
+  RequestMessageRef,
+  RequestThread,
+  RequestBatchId,
+  RequestAttachment,
+  RequestTemplateVersion,
 } from '../../domain/value-objects';
 import { Result, ok, err, DomainError } from 'src/shared/errors';
 import { RequestDomainState } from '../../domain/state/request.state';
@@ -81,6 +88,34 @@ export class RequestStateMapper {
           RequestChannelCode.from(snapshot.channelCode),
         )
       : undefined;
+    const scheduledFor = snapshot.scheduledFor
+      ? validateField(
+          'scheduledFor',
+          RequestScheduledFor.from(snapshot.scheduledFor),
+        )
+      : undefined;
+    const quietHours = snapshot.quietHours
+      ? validateField('quietHours', RequestQuietHours.from(snapshot.quietHours))
+      : undefined;
+    const message = snapshot.message
+      ? validateField('message', RequestMessageRef.from(snapshot.message))
+      : undefined;
+    const thread = snapshot.thread
+      ? validateField('thread', RequestThread.from(snapshot.thread))
+      : undefined;
+    const batchId = snapshot.batchId
+      ? validateField('batchId', RequestBatchId.from(snapshot.batchId))
+      : undefined;
+    const attachment = snapshot.attachment
+      ? validateField('attachment', RequestAttachment.from(snapshot.attachment))
+      : undefined;
+    const templateVersion =
+      snapshot.templateVersion !== undefined
+        ? validateField(
+            'templateVersion',
+            RequestTemplateVersion.from(snapshot.templateVersion),
+          )
+        : undefined;
     const version = validateField(
       'version',
       RequestVersion.from(snapshot.version),
@@ -122,6 +157,13 @@ export class RequestStateMapper {
       workspaceCode: workspaceCode!,
       templateCode: templateCode!,
       channelCode: channelCode || undefined,
+      scheduledFor: scheduledFor || undefined,
+      quietHours: quietHours || undefined,
+      message: message || undefined,
+      thread: thread || undefined,
+      batchId: batchId || undefined,
+      attachment: attachment || undefined,
+      templateVersion: templateVersion || undefined,
       version: version!,
       createdAt: createdAt!,
       updatedAt: updatedAt!,
@@ -146,6 +188,13 @@ export class RequestStateMapper {
       workspaceCode: domainState.workspaceCode.value,
       templateCode: domainState.templateCode.value,
       channelCode: domainState.channelCode?.value,
+      scheduledFor: domainState.scheduledFor?.value,
+      quietHours: domainState.quietHours?.value,
+      message: domainState.message?.value,
+      thread: domainState.thread?.value,
+      batchId: domainState.batchId?.value,
+      attachment: domainState.attachment?.value,
+      templateVersion: domainState.templateVersion?.value,
       version: domainState.version.value,
       createdAt: domainState.createdAt.value,
       updatedAt: domainState.updatedAt.value,
@@ -8,8 +8,9 @@ import {
   Inject,
 } from '@nestjs/common';
 import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import { Redis } from 'ioredis';
+import type { Block, KnownBlock } from '@slack/web-api';
 import { RequestApplicationService } from '../../application/services';
 import { CreateRequestRequest } from '../../application/dtos';
 import { RequestErrors } from '../../domain/errors';
@@ -18,6 +19,7 @@ import { IUserToken } from 'src/shared/security';
 import { AppConfigUtil } from 'src/shared/config/app-config.util';
 import {
   SendRequestWorkerService,
+  INVALID_BLOCK_KIT_RENDER_ERROR,
   RequestTemplateAdapter,
   SendRequestJob,
 } from '../services';
@@ -114,7 +116,7 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
     // Create the worker with the same configuration as the queue
     this.worker = new Worker(
       'RequestQueue',
-      async (job: Job) => {
+      async (job: Job, token?: string) => {
         Log.info(this.logger, 'Processing job', {
           method: 'onModuleInit.worker',
           jobId: job.id,
@@ -136,6 +138,7 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
             case 'SendRequestJob':
               return await this.handleSendRequestJob(
                 job as Job<SendRequestJob>,
+                token,
               );
             case 'retry-failed-request':
               return await this.handleRetryFailedRequest(
@@ -152,6 +155,9 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
               );
           }
         } catch (error) {
+          if (error instanceof DelayedError) {
+            throw error; // Job was moved back to the delayed set
+          }
           const e = error as Error;
           Log.error(this.logger, 'Job processing failed', {
             method: 'onModuleInit.worker',
@@ -368,7 +374,7 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
       }
 
       // 4. Render message template
-      let renderedBlocks: unknown[];
+      let renderedBlocks: (KnownBlock | Block)[];
       if (template) {
         Log.debug(this.logger, 'Rendering template', {
           method: 'handleSendRequest',
@@ -397,6 +403,16 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
             variables: requestData,
           });
 
+          // Slack would reject these blocks on every attempt
+          if (renderRes.error.startsWith(INVALID_BLOCK_KIT_RENDER_ERROR)) {
+            return await this.fail(
+              requestCode,
+              tenant,
+              INVALID_BLOCK_KIT_RENDER_ERROR,
+              renderRes.error,
+            );
+          }
+
           // Fallback to default message instead of failing completely
           Log.info(
             this.logger,
@@ -418,9 +434,8 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
             },
           ];
         } else {
-          renderedBlocks = Array.isArray(renderRes.value)
-            ? renderRes.value
-            : [renderRes.value];
+          // Rendered blocks were checked against Block Kit by the adapter
+          renderedBlocks = renderRes.value;
 
           Log.debug(this.logger, 'Template rendered successfully', {
             method: 'handleSendRequest',
@@ -596,6 +611,7 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
     requestCode: string,
     tenant: string,
     code: string,
+    lastError = `Validation failure: ${code}`,
   ): Promise<void> {
     // Record failure through application port
     await this.requestAppPort.recordFailed({
@@ -603,7 +619,7 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
       reason: code,
       attempts: 1,
       retryable: false,
-      lastError: `Validation failure: ${code}`,
+      lastError,
     });
 
     Log.error(this.logger, 'Request failed', {
@@ -664,7 +680,10 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
   /**
    * Process SendRequestJob using the dedicated worker service
    */
-  async handleSendRequestJob(job: Job<SendRequestJob>): Promise<void> {
+  async handleSendRequestJob(
+    job: Job<SendRequestJob>,
+    token?: string,
+  ): Promise<void> {
     Log.info(this.logger, 'Processing SendRequestJob', {
       method: 'handleSendRequestJob',
       jobId: job.id,
@@ -674,7 +693,7 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
 
     try {
       // Delegate to the specialized SendRequestWorkerService
-      await this.sendRequestWorkerService.processJob(job);
+      await this.sendRequestWorkerService.processJob(job, token);
 
       Log.info(this.logger, 'Successfully processed SendRequestJob', {
         method: 'handleSendRequestJob',
@@ -682,6 +701,9 @@ export class RequestProcessor implements OnModuleInit, OnModuleDestroy {
         requestCode: job.data.requestCode,
       });
     } catch (error) {
+      if (error instanceof DelayedError) {
+        throw error; // Waiting for the Slack rate limit of the workspace
+      }
       const e = error as Error;
       Log.error(this.logger, 'Error processing SendRequestJob', {
         method: 'handleSendRequestJob',
@@ -41,6 +41,10 @@ import { NotificationSlackProjectorConfig } from '../../../projector.config';
 import { RequestProjectionKeys } from '../../request-projection-keys';
 import { RequestFieldValidatorUtil } from '../utilities/request-field-validator.util';
 import { DetailRequestResponse } from '../../application/dtos';
+import {
+  RequestStatusLogic,
+  isRequestStatusValue,
+} from '../../domain/value-objects';
 import { RequestQueueService, SendRequestJob } from '../services';
 import { IRedisIdempotencyService } from 'src/shared/infrastructure';
 /**
@@ -260,6 +264,7 @@ export class RequestProjector
     try {
       // ✅ Extract request parameters using existing utility
       const params = this.extractRequestParams(event, 'project');
+      await this.reconcileStatus(event, params);
 
       // ✅ Apply version hint deduplication first (production-ready SET NX EX)
       const config = NotificationSlackProjectorConfig.getConfig();
@@ -326,6 +331,14 @@ export class RequestProjector
           fieldPairs,
         );
 
+        // Batch membership backs the bulk progress query
+        if (params.batchId) {
+          pipeline.sadd(
+            RequestProjectionKeys.getRedisBatchIndexKey(tenant, params.batchId),
+            params.code,
+          );
+        }
+
         // ✅ Record upsert operation (metrics collected by base projector)
       }
 
@@ -338,6 +351,9 @@ export class RequestProjector
         ? ProjectionOutcome.APPLIED
         : ProjectionOutcome.STALE_OCC;
 
+      // ✅ Keep the Slack message -> request lookup in step
+      await this.updateMessageIndex(event, params);
+
       // ✅ Dispatch async jobs based on event types
       await this.dispatchJobsForEvent(event, params);
 
@@ -479,7 +495,10 @@ export class RequestProjector
         ...requestSnapshot,
         ...eventEnvelope, // Override with correct envelope data
         tenant,
-        deletedAt: null, // Projector handles soft deletes
+        // RequestDeleted carries deletedAt, which routes it to a soft delete
+        deletedAt: eventData.deletedAt
+          ? new Date(eventData.deletedAt as string)
+          : null,
         lastStreamRevision: event.revision.toString(),
       };
     } catch (error) {
@@ -495,6 +514,80 @@ export class RequestProjector
     }
   }
 
+  /**
+   * Map the Slack message of a sent request back to the request, so inbound
+   * Slack interactions can find it; the mapping goes when the request is
+   * deleted
+   */
+  private async updateMessageIndex(
+    event: ProjectionEvent,
+    params: RequestProjectionParams,
+  ): Promise<void> {
+    if (!params.message) return;
+
+    const messageKey = RequestProjectionKeys.getRedisMessageIndexKey(
+      params.message.channelId,
+      params.message.ts,
+    );
+    if (params.deletedAt) {
+      await this.redis.del(messageKey);
+      return;
+    }
+    if (!event.type.startsWith('NotificationSlackRequestSent.')) return;
+
+    await this.redis.set(
+      messageKey,
+      JSON.stringify({ tenant: params.tenant, code: params.code }),
+    );
+    Log.debug(this.logger, 'Indexed Slack message for request', {
+      method: 'updateMessageIndex',
+      code: params.code,
+      channelId: params.message.channelId,
+      ts: params.message.ts,
+    });
+  }
+
+  /**
+   * Keep the projected status when an event would move it out of a terminal
+   * state
+   *
+   * Streams written before RequestStatus transitions were enforced can hold
+   * out-of-order events, e.g. a late RequestFailed after RequestSent. They
+   * resolve the same way the aggregate replays them, so the read model and a
+   * rehydrated aggregate agree and no send job is dispatched for them.
+   */
+  private async reconcileStatus(
+    event: ProjectionEvent,
+    params: RequestProjectionParams,
+  ): Promise<void> {
+    if (!params.status || params.deletedAt) return;
+
+    const entityKey = RequestProjectionKeys.getRedisRequestKey(
+      params.tenant,
+      params.code,
+    );
+    const current = await this.redis.hget(entityKey, 'status');
+    if (!isRequestStatusValue(current)) return;
+
+    const resolved = RequestStatusLogic.resolveRecorded(current, params.status);
+    if (resolved && resolved !== params.status) {
+      Log.warn(
+        this.logger,
+        'Out-of-order status event kept at current status',
+        {
+          method: 'reconcileStatus',
+          eventType: event.type,
+          streamId: event.streamId,
+          revision: event.revision,
+          code: params.code,
+          currentStatus: current,
+          eventStatus: params.status,
+        },
+      );
+      params.status = resolved;
+    }
+  }
+
   /**
    * Dispatch async jobs based on event types and conditions
    * Implements dispatch-once pattern with idempotency guards
@@ -531,6 +624,17 @@ export class RequestProjector
         .replace(/\.v\d+$/, '') // Remove version suffix
         .replace(/^NotificationSlackRequest/, ''); // Remove domain prefix
 
+      // Scheduling changes move or drop the job dispatched on creation, so
+      // they bypass the dispatch-once guards
+      if (simpleEventType === 'RequestRescheduled') {
+        await this.rescheduleSendMessageJob(requestCode, tenant, params);
+        return;
+      }
+      if (simpleEventType === 'RequestCancelled') {
+        await this.removeSendMessageJob(requestCode, tenant);
+        return;
+      }
+
       // Determine if this event should trigger job dispatch
       const shouldDispatch =
         simpleEventType === 'RequestCreated' ||
@@ -569,6 +673,7 @@ export class RequestProjector
           workspaceCode: params.workspaceCode,
           templateCode: params.templateCode,
           channelCode: params.channelCode,
+          delay: this.delayUntil(params.scheduledFor),
         },
       );
 
@@ -654,6 +759,7 @@ export class RequestProjector
       workspaceCode: string;
       templateCode?: string;
       channelCode?: string;
+      delay: number;
     },
   ): Promise<boolean> {
     const {
@@ -663,6 +769,7 @@ export class RequestProjector
       workspaceCode,
       templateCode,
       channelCode,
+      delay,
     } = context;
 
     // Extract the simple event name from the full type (e.g., "NotificationSlackRequestRequestCreated.v1" -> "RequestCreated")
@@ -676,7 +783,7 @@ export class RequestProjector
           requestCode,
           tenant,
           'created',
-          { priority: 0, delay: 0 },
+          { priority: 0, delay },
           { workspaceCode, templateCode, channelCode },
         );
 
@@ -715,6 +822,84 @@ export class RequestProjector
     }
   }
 
+  /**
+   * Milliseconds until a scheduled send is due; 0 for immediate sends and
+   * for send times already past when the event is (re)projected
+   */
+  private delayUntil(scheduledFor?: string): number {
+    if (!scheduledFor) return 0;
+    const dueAtMs = Date.parse(scheduledFor);
+    return Number.isNaN(dueAtMs)
+      ? 0
+      : Math.max(0, dueAtMs - this.clock.nowMs());
+  }
+
+  /**
+   * Move the send job of a rescheduled request to its new send time
+   */
+  private async rescheduleSendMessageJob(
+    requestCode: string,
+    tenant: string,
+    params: RequestProjectionParams,
+  ): Promise<void> {
+    const delay = this.delayUntil(params.scheduledFor);
+    const result = await this.queueService.rescheduleSendRequestJob(
+      { requestCode, tenant, threadTs: undefined },
+      delay,
+    );
+
+    if (!result.success) {
+      Log.error(this.logger, 'Failed to move send job of rescheduled request', {
+        method: 'rescheduleSendMessageJob',
+        requestCode,
+        tenant,
+        scheduledFor: params.scheduledFor,
+        error: result.error,
+      });
+      return;
+    }
+
+    Log.info(this.logger, 'Moved send job of rescheduled request', {
+      method: 'rescheduleSendMessageJob',
+      requestCode,
+      tenant,
+      jobId: result.jobId,
+      scheduledFor: params.scheduledFor,
+      delay,
+    });
+  }
+
+  /**
+   * Remove the send job of a cancelled request
+   */
+  private async removeSendMessageJob(
+    requestCode: string,
+    tenant: string,
+  ): Promise<void> {
+    const result = await this.queueService.removeSendRequestJob(
+      tenant,
+      requestCode,
+    );
+
+    if (!result.success) {
+      // The worker skips cancelled requests, so the job is harmless
+      Log.warn(this.logger, 'Failed to remove send job of cancelled request', {
+        method: 'removeSendMessageJob',
+        requestCode,
+        tenant,
+        error: result.error,
+      });
+      return;
+    }
+
+    Log.info(this.logger, 'Handled send job of cancelled request', {
+      method: 'removeSendMessageJob',
+      requestCode,
+      tenant,
+      removed: result.removed,
+    });
+  }
+
   /**
    * Dispatch a send message job with dispatch-once SETNX pattern
    *
@@ -0,0 +1,80 @@
+import { Redis } from 'ioredis';
+import { ActorContext } from 'src/shared/application/context';
+import { Logger } from 'src/shared/logging';
+import { RequestAttachmentStoreRepository } from '../request-attachment-redis.repository';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const actor: ActorContext = {
+  tenant: 'tenant-a',
+  userId: 'user-1',
+  tenant_userId: 'tenant-a_user-1',
+};
+
+describe('RequestAttachmentStoreRepository', () => {
+  const allowedHostsEnv = process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS;
+  let set: jest.Mock;
+  let store: RequestAttachmentStoreRepository;
+
+  beforeEach(() => {
+    process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS = 'files.example.com';
+    set = jest.fn().mockResolvedValue('OK');
+    store = new RequestAttachmentStoreRepository(createMockLogger(), {
+      set,
+    } as unknown as Redis);
+  });
+
+  afterEach(() => {
+    if (allowedHostsEnv === undefined) {
+      delete process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS;
+    } else {
+      process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS = allowedHostsEnv;
+    }
+  });
+
+  it('stores inline content and returns only its reference', async () => {
+    const content = Buffer.from('id\n1\n').toString('base64');
+
+    const result = await store.store(actor, {
+      filename: 'daily.csv',
+      contentType: 'text/csv',
+      content,
+    });
+
+    expect(result.ok).toBe(true);
+    const stored = result.ok ? result.value : undefined;
+    expect(stored).toEqual({
+      filename: 'daily.csv',
+      contentType: 'text/csv',
+      source: 'inline',
+      blobId: expect.any(String) as string,
+      sizeBytes: 5,
+    });
+    expect(set).toHaveBeenCalledWith(
+      `notification.slack:v1:{tenant-a}:attachment-blob:${stored?.blobId}`,
+      JSON.stringify({ content }),
+      'EX',
+      expect.any(Number),
+    );
+  });
+
+  it('refuses a url off the allowed storage hosts', async () => {
+    const result = await store.store(actor, {
+      filename: 'daily.csv',
+      contentType: 'text/csv',
+      url: 'https://attacker.example.org/daily.csv',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.code).toBe('REQUEST.INVALID_ATTACHMENT');
+    expect(set).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,7 @@
 export * from './channel-redis.repository';
+export * from './request-attachment-redis.repository';
 export * from './request-kurrentdb-writer.repository';
+export * from './request-message-index-redis.repository';
 export * from './request-redis-query.repository';
 export * from './request-redis-reader.repository';
 export * from './template-redis.repository';
@@ -0,0 +1,119 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import { handleRepositoryError } from 'src/shared/infrastructure/repositories';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+import { ActorContext } from 'src/shared/application/context';
+import { SLACK_REQUEST_DI_TOKENS } from '../../../slack-request.constants';
+import { RequestProjectionKeys } from '../../request-projection-keys';
+import { RequestErrors } from '../../domain/errors';
+import {
+  RequestAttachment,
+  base64DecodedLength,
+  type RequestAttachmentProps,
+  type RequestAttachmentUpload,
+} from '../../domain/value-objects';
+import {
+  IRequestAttachmentStore,
+  RequestAttachmentBlob,
+} from '../../application/ports';
+import { RequestAttachmentHostUtil } from '../utilities/request-attachment-host.util';
+
+/**
+ * How long a stored attachment waits for its request to be sent
+ */
+const ATTACHMENT_BLOB_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * Request Attachment Store Repository - Redis Implementation
+ *
+ * Keeps the content or url of each attachment under its own key, so request
+ * events and projections only carry the blob id. Url attachments must point
+ * at an allowed storage host.
+ */
+@Injectable()
+export class RequestAttachmentStoreRepository
+  implements IRequestAttachmentStore
+{
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(SLACK_REQUEST_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+  ) {
+    this.logger = componentLogger(
+      baseLogger,
+      'RequestAttachmentStoreRepository',
+    );
+  }
+
+  async store(
+    actor: ActorContext,
+    upload: RequestAttachmentUpload,
+  ): Promise<Result<RequestAttachmentProps, DomainError>> {
+    const validated = RequestAttachment.validateUpload(upload);
+    if (!validated.ok) return validated;
+    const { content, url, ...details } = validated.value;
+
+    if (
+      url !== undefined &&
+      !RequestAttachmentHostUtil.isAllowed(new URL(url))
+    ) {
+      return err({
+        ...RequestErrors.INVALID_ATTACHMENT,
+        detail: 'Attachment url must point at an allowed storage host.',
+        context: { filename: details.filename, host: new URL(url).host },
+      });
+    }
+
+    const blobId = randomUUID();
+    const blob: RequestAttachmentBlob =
+      content !== undefined ? { content } : { url: url! };
+    try {
+      await this.redis.set(
+        RequestProjectionKeys.getRedisAttachmentBlobKey(actor.tenant, blobId),
+        JSON.stringify(blob),
+        'EX',
+        ATTACHMENT_BLOB_TTL_SECONDS,
+      );
+    } catch (error) {
+      Log.error(this.logger, 'Failed to store attachment', {
+        method: 'store',
+        tenant: actor.tenant,
+        filename: details.filename,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return handleRepositoryError(error);
+    }
+
+    return ok({
+      ...details,
+      source: content !== undefined ? 'inline' : 'url',
+      blobId,
+      ...(content !== undefined
+        ? { sizeBytes: base64DecodedLength(content) }
+        : {}),
+    });
+  }
+
+  async load(
+    tenant: string,
+    blobId: string,
+  ): Promise<Result<Option<RequestAttachmentBlob>, DomainError>> {
+    try {
+      const raw = await this.redis.get(
+        RequestProjectionKeys.getRedisAttachmentBlobKey(tenant, blobId),
+      );
+      return ok(
+        raw
+          ? Option.some(JSON.parse(raw) as RequestAttachmentBlob)
+          : Option.none(),
+      );
+    } catch (error) {
+      return handleRepositoryError(error);
+    }
+  }
+}
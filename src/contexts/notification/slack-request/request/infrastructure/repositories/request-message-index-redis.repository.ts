@@ -0,0 +1,83 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import { handleRepositoryError } from 'src/shared/infrastructure/repositories';
+import { Result, DomainError, ok } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+import { SLACK_REQUEST_DI_TOKENS } from '../../../slack-request.constants';
+import { RequestProjectionKeys } from '../../request-projection-keys';
+import {
+  IRequestMessageIndex,
+  RequestMessageIndexEntry,
+} from '../../application/ports';
+
+/**
+ * Request Message Index Repository - Redis Implementation
+ *
+ * Reads the Slack message -> request mapping the request projector writes
+ * when a RequestSent event carries the delivered message, and marks the
+ * actions received on those messages.
+ */
+@Injectable()
+export class RequestMessageIndexRepository implements IRequestMessageIndex {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(SLACK_REQUEST_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+  ) {
+    this.logger = componentLogger(baseLogger, 'RequestMessageIndexRepository');
+  }
+
+  async findByMessage(
+    channelId: string,
+    ts: string,
+  ): Promise<Result<Option<RequestMessageIndexEntry>, DomainError>> {
+    try {
+      const raw = await this.redis.get(
+        RequestProjectionKeys.getRedisMessageIndexKey(channelId, ts),
+      );
+      if (!raw) return ok(Option.none());
+
+      const entry = JSON.parse(raw) as Partial<RequestMessageIndexEntry>;
+      if (!entry.tenant || !entry.code) {
+        Log.warn(this.logger, 'Ignoring malformed message index entry', {
+          method: 'findByMessage',
+          channelId,
+          ts,
+        });
+        return ok(Option.none());
+      }
+
+      return ok(Option.some({ tenant: entry.tenant, code: entry.code }));
+    } catch (error) {
+      return handleRepositoryError(error);
+    }
+  }
+
+  async claimAction(
+    channelId: string,
+    ts: string,
+    action: { actionId: string; actionTs: string },
+    ttlSeconds: number,
+  ): Promise<Result<boolean, DomainError>> {
+    try {
+      const claimed = await this.redis.set(
+        RequestProjectionKeys.getRedisMessageActionKey(
+          channelId,
+          ts,
+          action.actionId,
+          action.actionTs,
+        ),
+        '1',
+        'EX',
+        ttlSeconds,
+        'NX',
+      );
+      return ok(claimed === 'OK');
+    } catch (error) {
+      return handleRepositoryError(error);
+    }
+  }
+}
@@ -26,15 +26,24 @@ import {
   RequestPageResponse,
   ListRequestFilterRequest,
   ListRequestResponse,
+  RequestBatchResponse,
+  RequestStatusValue,
 } from '../../application/dtos';
+import {
+  mapRequestAttachmentToDto,
+  mapRequestBatchStatusesToDto,
+} from '../../application/mappers';
 import { PaginationMetaResponse } from 'src/shared/application/dtos';
 import { IRequestQuery } from '../../application/ports';
+import type { RequestAttachmentProps } from '../../domain/value-objects';
 
 /**
  * Internal request data structure for Redis operations
  * Extends DetailRequestResponse with additional fields needed for caching and versioning
  */
-interface RequestCacheData extends DetailRequestResponse {
+interface RequestCacheData extends Omit<DetailRequestResponse, 'attachment'> {
+  /** As projected, blob reference included */
+  attachment?: RequestAttachmentProps;
   version: number;
   createdAt: Date;
   updatedAt: Date;
@@ -202,6 +211,13 @@ export class RequestQueryRepository implements IRequestQuery {
         workspaceCode: request.workspaceCode,
         templateCode: request.templateCode,
         channelCode: request.channelCode,
+        scheduledFor: request.scheduledFor,
+        quietHours: request.quietHours,
+        message: request.message,
+        thread: request.thread,
+        batchId: request.batchId,
+        attachment: mapRequestAttachmentToDto(request.attachment),
+        templateVersion: request.templateVersion,
       };
 
       Log.debug(this.logger, 'Request found successfully in Redis', {
@@ -268,6 +284,22 @@ export class RequestQueryRepository implements IRequestQuery {
         hashData.data,
         'data',
       );
+      const quietHours = safeParseJSON<DetailRequestResponse['quietHours']>(
+        hashData.quietHours,
+        'quietHours',
+      );
+      const message = safeParseJSON<DetailRequestResponse['message']>(
+        hashData.message,
+        'message',
+      );
+      const thread = safeParseJSON<DetailRequestResponse['thread']>(
+        hashData.thread,
+        'thread',
+      );
+      const attachment = safeParseJSON<RequestAttachmentProps>(
+        hashData.attachment,
+        'attachment',
+      );
       // Extract basic fields directly from hash data
 
       // Type assertion for status - cached data should already be validated
@@ -281,6 +313,15 @@ export class RequestQueryRepository implements IRequestQuery {
         workspaceCode: hashData.workspaceCode,
         templateCode: hashData.templateCode,
         channelCode: hashData.channelCode || undefined,
+        scheduledFor: hashData.scheduledFor || undefined,
+        quietHours,
+        message,
+        thread,
+        batchId: hashData.batchId || undefined,
+        attachment,
+        templateVersion: hashData.templateVersion
+          ? parseInt(hashData.templateVersion, 10)
+          : undefined,
         version: parseInt(hashData.version, 10),
         createdAt: new Date(hashData.createdAt),
         updatedAt: new Date(hashData.updatedAt),
@@ -643,4 +684,91 @@ export class RequestQueryRepository implements IRequestQuery {
       return handleRepositoryError(error);
     }
   }
+
+  /**
+   * Find the progress of a bulk call's requests
+   *
+   * Reads the batch's member set kept by the projector and the status of each
+   * member in one pipeline. Soft-deleted (retracted) requests keep counting
+   * with the status they were sent with.
+   *
+   * @param actor - The actor context containing authentication and request metadata.
+   * @param batchId - The batch id returned by the bulk create.
+   * @param options - Optional repository options (e.g., timeout, correlation).
+   * @returns A promise resolving to a Result containing the batch progress or a DomainError.
+   */
+  async findBatch(
+    actor: ActorContext,
+    batchId: string,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<RequestBatchResponse>, DomainError>> {
+    const operation = 'findBatch';
+    const correlationId =
+      options?.correlationId ??
+      CorrelationUtil.generateForOperation('request-query-batch');
+
+    const logContext = this.createLogContext(operation, correlationId, actor, {
+      batchId,
+      dataSource: 'redis-projector',
+    });
+
+    const validation = RepositoryLoggingUtil.validateActorContext(
+      this.logger,
+      actor,
+      logContext,
+    );
+    if (!validation.ok) return err(validation.error);
+
+    if (!actor.tenant) {
+      return err(
+        RepositoryErrorFactory.validationError('tenant', 'Missing tenant id'),
+      );
+    }
+
+    try {
+      const codes = await this.redis.smembers(
+        RequestProjectionKeys.getRedisBatchIndexKey(actor.tenant, batchId),
+      );
+      if (codes.length === 0) {
+        Log.debug(this.logger, 'Batch not found in Redis', logContext);
+        return ok(Option.none());
+      }
+
+      const pipeline = this.redis.pipeline();
+      codes.forEach((code) => {
+        pipeline.hget(this.generateRequestKey(actor.tenant, code), 'status');
+      });
+      const results = await pipeline.exec();
+
+      if (!results) {
+        throw new Error('Redis pipeline execution failed');
+      }
+
+      const statuses = results
+        .filter(([error, status]) => !error && typeof status === 'string')
+        .map(([, status]) => status as RequestStatusValue);
+
+      RepositoryLoggingUtil.logQueryMetrics(
+        this.logger,
+        operation,
+        logContext,
+        {
+          resultCount: statuses.length,
+          dataQuality: statuses.length === codes.length ? 'good' : 'partial',
+        },
+      );
+
+      return ok(Option.some(mapRequestBatchStatusesToDto(batchId, statuses)));
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'MEDIUM',
+      );
+
+      return handleRepositoryError(error);
+    }
+  }
 }
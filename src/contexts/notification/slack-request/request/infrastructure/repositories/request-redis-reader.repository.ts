@@ -105,6 +105,22 @@ export class RequestReaderRepository implements IRequestReader {
         hashData.data,
         'data',
       );
+      const quietHours = safeParseJSON<RequestSnapshotProps['quietHours']>(
+        hashData.quietHours,
+        'quietHours',
+      );
+      const message = safeParseJSON<RequestSnapshotProps['message']>(
+        hashData.message,
+        'message',
+      );
+      const thread = safeParseJSON<RequestSnapshotProps['thread']>(
+        hashData.thread,
+        'thread',
+      );
+      const attachment = safeParseJSON<RequestSnapshotProps['attachment']>(
+        hashData.attachment,
+        'attachment',
+      );
       // Extract basic fields directly from hash data
 
       // Type assertion for status - cached data should already be validated
@@ -118,6 +134,17 @@ export class RequestReaderRepository implements IRequestReader {
         workspaceCode: hashData.workspaceCode,
         templateCode: hashData.templateCode,
         channelCode: hashData.channelCode || undefined,
+        scheduledFor: hashData.scheduledFor
+          ? new Date(hashData.scheduledFor)
+          : undefined,
+        quietHours,
+        message,
+        thread,
+        batchId: hashData.batchId || undefined,
+        attachment,
+        templateVersion: hashData.templateVersion
+          ? parseInt(hashData.templateVersion, 10)
+          : undefined,
         version: parseInt(hashData.version, 10),
         createdAt: new Date(hashData.createdAt),
         updatedAt: new Date(hashData.updatedAt),
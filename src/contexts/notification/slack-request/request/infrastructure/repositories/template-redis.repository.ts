@@ -80,6 +80,17 @@ export class TemplateReaderRepository implements ITemplateReader {
     return `notification.slack:v1:{${tenant}}:template:${code}`;
   }
 
+  /**
+   * Key of a published template version, as written by the TemplateProjector
+   */
+  private generateTemplateVersionKey(
+    tenant: string,
+    code: string,
+    version: number,
+  ): string {
+    return `notification.slack:v1:{${tenant}}:template-version:${code}:${version}`;
+  }
+
   /**
    * Parse Redis hash data into TemplateReference
    */
@@ -102,6 +113,11 @@ export class TemplateReaderRepository implements ITemplateReader {
           hashData.samplePayload,
           'samplePayload',
         ) || {};
+      const variablesSchema =
+        safeParseJSON<Record<string, unknown>>(
+          hashData.variablesSchema,
+          'variablesSchema',
+        ) || undefined;
 
       // Extract fields directly from hash data
       return {
@@ -120,7 +136,11 @@ export class TemplateReaderRepository implements ITemplateReader {
           isString,
         ),
         samplePayload,
+        variablesSchema,
         enabled: hashData.enabled === 'true',
+        publishedVersion: hashData.publishedVersion
+          ? parseInt(hashData.publishedVersion, 10)
+          : undefined,
       };
     } catch (error) {
       Log.error(
@@ -393,4 +413,75 @@ export class TemplateReaderRepository implements ITemplateReader {
       return handleRepositoryError(error);
     }
   }
+
+  /**
+   * Find the content of a published Template version
+   * @param actor - The authenticated user context
+   * @param code - The Template code to lookup
+   * @param version - The published version number
+   * @param options - Optional repository options (correlation ID, timeout, caching, etc.)
+   * @returns Result containing the version content or none if it does not exist
+   */
+  async findTemplateVersion(
+    actor: ActorContext,
+    code: string,
+    version: number,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<TemplateReference>, DomainError>> {
+    const operation = 'findTemplateVersion';
+    const correlationId =
+      options?.correlationId ??
+      CorrelationUtil.generateForOperation('template-find-version');
+
+    const logContext = this.createLogContext(operation, correlationId, actor, {
+      targetCode: code,
+      targetVersion: version,
+      dataSource: 'redis-projector',
+    });
+
+    try {
+      const actorValidation = RepositoryLoggingUtil.validateActorContext(
+        this.logger,
+        actor,
+        logContext,
+      );
+      if (!actorValidation.ok) return err(actorValidation.error);
+
+      if (!actor.tenant) {
+        return err(
+          RepositoryErrorFactory.validationError('tenant', 'Missing tenant id'),
+        );
+      }
+
+      const hashData = await this.redis.hgetall(
+        this.generateTemplateVersionKey(actor.tenant, code, version),
+      );
+
+      const template = this.parseRedisHashToTemplate(hashData);
+      if (!template) {
+        RepositoryLoggingUtil.logQueryMetrics(
+          this.logger,
+          'Template version lookup',
+          logContext,
+          {
+            resultCount: 0,
+            dataQuality: 'empty',
+          },
+        );
+        return ok(Option.none());
+      }
+
+      return ok(Option.some({ ...template, publishedVersion: version }));
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        'Template version lookup',
+        logContext,
+        error as Error,
+        'HIGH',
+      );
+
+      return handleRepositoryError(error);
+    }
+  }
 }
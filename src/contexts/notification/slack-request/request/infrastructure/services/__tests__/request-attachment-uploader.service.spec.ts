@@ -0,0 +1,263 @@
+import { Redis } from 'ioredis';
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { SlackApiService } from 'src/shared/infrastructure/slack/slack-api.service';
+import { Logger } from 'src/shared/logging';
+import {
+  IRequestAttachmentStore,
+  RequestAttachmentBlob,
+} from '../../../application/ports';
+import {
+  REQUEST_ATTACHMENT_URL_MAX_BYTES,
+  RequestAttachmentProps,
+} from '../../../domain/value-objects';
+import { RequestAttachmentUploaderService } from '../request-attachment-uploader.service';
+import { RequestSlackRateLimiterService } from '../request-slack-rate-limiter.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const CSV = Buffer.from('id,name\n1,Ada\n');
+
+const attachment = (
+  source: RequestAttachmentProps['source'],
+): RequestAttachmentProps => ({
+  filename: 'daily.csv',
+  contentType: 'text/csv',
+  source,
+  blobId: 'blob-1',
+});
+
+const redirect = (location: string) =>
+  new Response(null, { status: 302, headers: { location } });
+
+describe('RequestAttachmentUploaderService', () => {
+  const allowedHostsEnv = process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS;
+  let loadBlob: jest.Mock;
+  let uploadFile: jest.Mock;
+  let redisGet: jest.Mock;
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+  let uploader: RequestAttachmentUploaderService;
+
+  const upload = (source: RequestAttachmentProps['source']) =>
+    uploader.upload({
+      tenant: 'tenant-a',
+      workspaceCode: 'acme-workspace',
+      requestCode: 'req-1',
+      botToken: 'xoxb-test',
+      attachment: attachment(source),
+    });
+  const storeBlob = (blob: RequestAttachmentBlob) =>
+    loadBlob.mockResolvedValue(ok(Option.some(blob)));
+
+  beforeEach(() => {
+    process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS =
+      'files.example.com, *.storage.example.net';
+    loadBlob = jest.fn();
+    uploadFile = jest.fn().mockResolvedValue({
+      ok: true,
+      value: { fileId: 'F1', permalink: 'https://slack.example/F1' },
+    });
+    redisGet = jest.fn().mockResolvedValue(null);
+    fetchMock = jest.spyOn(global, 'fetch');
+
+    uploader = new RequestAttachmentUploaderService(
+      createMockLogger(),
+      { get: redisGet, set: jest.fn() } as unknown as Redis,
+      { load: loadBlob } as unknown as IRequestAttachmentStore,
+      { uploadFile } as unknown as SlackApiService,
+      {
+        acquire: jest.fn(),
+        pauseIfRateLimited: jest.fn(),
+      } as unknown as RequestSlackRateLimiterService,
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    if (allowedHostsEnv === undefined) {
+      delete process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS;
+    } else {
+      process.env.SLACK_ATTACHMENT_ALLOWED_HOSTS = allowedHostsEnv;
+    }
+  });
+
+  describe('stored blobs', () => {
+    it('uploads inline content loaded from the blob store', async () => {
+      storeBlob({ content: CSV.toString('base64') });
+
+      const result = await upload('inline');
+
+      expect(result.ok).toBe(true);
+      expect(loadBlob).toHaveBeenCalledWith('tenant-a', 'blob-1');
+      expect(uploadFile).toHaveBeenCalledWith(
+        expect.objectContaining({ filename: 'daily.csv', content: CSV }),
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('fails for good once the blob has expired', async () => {
+      loadBlob.mockResolvedValue(ok(Option.none()));
+
+      const result = await upload('inline');
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'attachment_unavailable: stored file has expired',
+        retryable: false,
+      });
+      expect(uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('reuses a file already uploaded for the request', async () => {
+      redisGet.mockResolvedValue(
+        JSON.stringify({ fileId: 'F0', permalink: 'https://slack.example/F0' }),
+      );
+
+      const result = await upload('inline');
+
+      expect(result).toEqual({
+        ok: true,
+        value: { fileId: 'F0', permalink: 'https://slack.example/F0' },
+      });
+      expect(loadBlob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('url downloads', () => {
+    it('fetches an allowed host without following redirects itself', async () => {
+      storeBlob({ url: 'https://files.example.com/daily.csv?sig=abc' });
+      fetchMock.mockResolvedValue(new Response(CSV));
+
+      const result = await upload('url');
+
+      expect(result.ok).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [target, init] = fetchMock.mock.calls[0];
+      expect((target as URL).href).toBe(
+        'https://files.example.com/daily.csv?sig=abc',
+      );
+      expect(init?.redirect).toBe('manual');
+    });
+
+    it('never fetches a url off the allowed hosts', async () => {
+      storeBlob({ url: 'https://169.254.169.254/latest/meta-data' });
+
+      const result = await upload('url');
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'attachment_unavailable: url is not on an allowed storage host',
+        retryable: false,
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('follows a redirect that stays on an allowed host', async () => {
+      storeBlob({ url: 'https://files.example.com/daily.csv' });
+      fetchMock
+        .mockResolvedValueOnce(redirect('https://eu.storage.example.net/d.csv'))
+        .mockResolvedValueOnce(new Response(CSV));
+
+      const result = await upload('url');
+
+      expect(result.ok).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect((fetchMock.mock.calls[1][0] as URL).href).toBe(
+        'https://eu.storage.example.net/d.csv',
+      );
+    });
+
+    it('refuses a redirect to a host that is not allowed', async () => {
+      storeBlob({ url: 'https://files.example.com/daily.csv' });
+      fetchMock.mockResolvedValueOnce(
+        redirect('http://localhost:6379/internal'),
+      );
+
+      const result = await upload('url');
+
+      expect(result.ok).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('gives up after too many redirects', async () => {
+      storeBlob({ url: 'https://files.example.com/a' });
+      fetchMock.mockImplementation(() =>
+        Promise.resolve(redirect('https://files.example.com/a')),
+      );
+
+      const result = await upload('url');
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'attachment_unavailable: url redirected more than 3 times',
+        retryable: false,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('stops reading a body once it passes the size limit', async () => {
+      storeBlob({ url: 'https://files.example.com/huge.csv' });
+      const chunk = new Uint8Array(1024 * 1024).fill(0x61);
+      let pulled = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled += 1;
+          controller.enqueue(chunk);
+        },
+      });
+      fetchMock.mockResolvedValue(new Response(body));
+
+      const result = await upload('url');
+
+      expect(result).toEqual({
+        ok: false,
+        error: `attachment_too_large: url content exceeds ${REQUEST_ATTACHMENT_URL_MAX_BYTES} bytes`,
+        retryable: false,
+      });
+      expect(pulled).toBeLessThanOrEqual(
+        REQUEST_ATTACHMENT_URL_MAX_BYTES / chunk.length + 2,
+      );
+    });
+
+    it('rejects a declared length over the limit without reading', async () => {
+      storeBlob({ url: 'https://files.example.com/huge.csv' });
+      fetchMock.mockResolvedValue(
+        new Response(CSV, {
+          headers: {
+            'content-length': String(REQUEST_ATTACHMENT_URL_MAX_BYTES + 1),
+          },
+        }),
+      );
+
+      const result = await upload('url');
+
+      expect(result.ok).toBe(false);
+      expect(uploadFile).not.toHaveBeenCalled();
+    });
+
+    test.each([
+      [404, false],
+      [503, true],
+    ])('a %s answer is retryable: %s', async (status, retryable) => {
+      storeBlob({ url: 'https://files.example.com/daily.csv' });
+      fetchMock.mockResolvedValue(new Response(null, { status }));
+
+      const result = await upload('url');
+
+      expect(result).toEqual({
+        ok: false,
+        error: `attachment_unavailable: url answered ${status}`,
+        retryable,
+      });
+    });
+  });
+});
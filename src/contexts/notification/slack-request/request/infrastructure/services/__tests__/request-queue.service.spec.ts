@@ -0,0 +1,114 @@
+import { Job, Queue } from 'bullmq';
+import { Option } from 'src/shared/domain/types';
+import { Logger } from 'src/shared/logging';
+import { IWorkspaceQuery } from 'src/contexts/notification/slack-config/workspace/application/ports';
+import { ITemplateQuery } from 'src/contexts/notification/slack-config/template/application/ports';
+import { IChannelQuery } from 'src/contexts/notification/slack-config/channel/application/ports';
+import { IConfigQuery } from 'src/contexts/notification/slack-config/config/application/ports';
+import { RequestQueueService } from '../request-queue.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const job = { requestCode: 'req-1', tenant: 'tenant-a' };
+
+describe('RequestQueueService', () => {
+  let getJob: jest.Mock;
+  let add: jest.Mock;
+  let removeJob: jest.Mock;
+  let service: RequestQueueService;
+
+  const existingJob = (state: string) => {
+    getJob.mockResolvedValue({
+      getState: jest.fn().mockResolvedValue(state),
+      remove: removeJob,
+    } as unknown as Job);
+  };
+
+  beforeEach(() => {
+    getJob = jest.fn().mockResolvedValue(undefined);
+    add = jest.fn().mockResolvedValue({ id: 'send-tenant-a-req-1' });
+    removeJob = jest.fn().mockResolvedValue(undefined);
+
+    service = new RequestQueueService(
+      createMockLogger(),
+      { getJob, add } as unknown as Queue,
+      {} as IWorkspaceQuery,
+      {} as ITemplateQuery,
+      {} as IChannelQuery,
+      {} as IConfigQuery,
+    );
+  });
+
+  describe('enqueueSimpleSendRequestJob', () => {
+    test.each(['completed', 'failed'])(
+      'replaces a %s send job so the request is sent again',
+      async (state) => {
+        existingJob(state);
+
+        const result = await service.enqueueSimpleSendRequestJob(job);
+
+        expect(result.success).toBe(true);
+        expect(removeJob).toHaveBeenCalled();
+        expect(add).toHaveBeenCalledWith(
+          'SendRequestJob',
+          job,
+          expect.objectContaining({ jobId: 'send-tenant-a-req-1' }),
+        );
+      },
+    );
+
+    test.each(['delayed', 'waiting', 'active'])(
+      'keeps a %s send job',
+      async (state) => {
+        existingJob(state);
+
+        await service.enqueueSimpleSendRequestJob(job);
+
+        expect(removeJob).not.toHaveBeenCalled();
+      },
+    );
+  });
+
+  describe('findState', () => {
+    test.each([
+      ['active', 'running'],
+      ['delayed', 'pending'],
+      ['waiting', 'pending'],
+      ['prioritized', 'pending'],
+      ['completed', 'finished'],
+      ['failed', 'finished'],
+    ])('reports a %s job as %s', async (state, expected) => {
+      existingJob(state);
+
+      const result = await service.findState('tenant-a', 'req-1');
+
+      expect(result).toEqual({ ok: true, value: Option.some(expected) });
+      expect(getJob).toHaveBeenCalledWith('send-tenant-a-req-1');
+    });
+
+    it('reports no state when there is no job', async () => {
+      const result = await service.findState('tenant-a', 'req-1');
+
+      expect(result).toEqual({ ok: true, value: Option.none() });
+    });
+
+    it('fails when the queue cannot be read', async () => {
+      getJob.mockRejectedValue(new Error('connection lost'));
+
+      const result = await service.findState('tenant-a', 'req-1');
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.code).toBe(
+        'REQUEST.SEND_JOB_LOOKUP_FAILED',
+      );
+    });
+  });
+});
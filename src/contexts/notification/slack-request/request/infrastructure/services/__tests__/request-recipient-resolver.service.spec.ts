@@ -0,0 +1,221 @@
+import type { Redis } from 'ioredis';
+import { SlackApiService } from 'src/shared/infrastructure/slack/slack-api.service';
+import { Logger } from 'src/shared/logging';
+import { RequestProjectionKeys } from '../../../request-projection-keys';
+import { RequestRecipientResolverService } from '../request-recipient-resolver.service';
+import { RequestSlackRateLimiterService } from '../request-slack-rate-limiter.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+/**
+ * In-memory stand-in for the recipient cache keys
+ */
+class FakeRedis {
+  readonly strings = new Map<string, string>();
+  readonly ttls = new Map<string, number>();
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.strings.get(key) ?? null);
+  }
+
+  set(key: string, value: string, _ex: 'EX', ttl: number): Promise<'OK'> {
+    this.strings.set(key, value);
+    this.ttls.set(key, ttl);
+    return Promise.resolve('OK');
+  }
+}
+
+const WORKSPACE = 'T01EXAMPLE123';
+const USER = 'U0ADA12345';
+const DM = 'D0ADA12345';
+
+describe('RequestRecipientResolverService', () => {
+  let redis: FakeRedis;
+  let lookupUserByEmail: jest.Mock;
+  let openDirectMessage: jest.Mock;
+  let acquire: jest.Mock;
+  let resolver: RequestRecipientResolverService;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    lookupUserByEmail = jest
+      .fn()
+      .mockResolvedValue({ ok: true, value: { userId: USER } });
+    openDirectMessage = jest
+      .fn()
+      .mockResolvedValue({ ok: true, value: { channel: DM } });
+    acquire = jest.fn().mockResolvedValue(undefined);
+
+    resolver = new RequestRecipientResolverService(
+      createMockLogger(),
+      redis as unknown as Redis,
+      {
+        lookupUserByEmail,
+        openDirectMessage,
+      } as unknown as SlackApiService,
+      {
+        acquire,
+        pauseIfRateLimited: jest.fn().mockResolvedValue(undefined),
+      } as unknown as RequestSlackRateLimiterService,
+    );
+  });
+
+  const resolve = (recipient: string, tenant = 'tenant-a') =>
+    resolver.resolveChannel({
+      tenant,
+      workspaceCode: WORKSPACE,
+      botToken: 'xoxb-test',
+      recipient,
+    });
+
+  test('posts to a channel id as is', async () => {
+    await expect(resolve('C0123ABCD45')).resolves.toEqual({
+      ok: true,
+      value: { channel: 'C0123ABCD45' },
+    });
+    expect(openDirectMessage).not.toHaveBeenCalled();
+  });
+
+  test('opens the direct message channel of a user id', async () => {
+    await expect(resolve(USER)).resolves.toEqual({
+      ok: true,
+      value: { channel: DM },
+    });
+    expect(lookupUserByEmail).not.toHaveBeenCalled();
+    expect(openDirectMessage).toHaveBeenCalledWith('xoxb-test', USER);
+  });
+
+  test('looks up an email and messages that member directly', async () => {
+    await expect(resolve('Ada@Example.com')).resolves.toEqual({
+      ok: true,
+      value: { channel: DM },
+    });
+    expect(lookupUserByEmail).toHaveBeenCalledWith(
+      'xoxb-test',
+      'ada@example.com',
+    );
+    expect(openDirectMessage).toHaveBeenCalledWith('xoxb-test', USER);
+    expect(
+      acquire.mock.calls.map(([call]) => (call as { method: string }).method),
+    ).toEqual(['users.lookupByEmail', 'conversations.open']);
+  });
+
+  describe('cache', () => {
+    const cacheKey = (recipient: string, tenant = 'tenant-a') =>
+      RequestProjectionKeys.getRedisRecipientChannelKey(
+        tenant,
+        WORKSPACE,
+        recipient,
+      );
+
+    test('reuses a resolved email for a day', async () => {
+      await resolve('ada@example.com');
+      await resolve('ADA@example.com');
+
+      expect(lookupUserByEmail).toHaveBeenCalledTimes(1);
+      expect(openDirectMessage).toHaveBeenCalledTimes(1);
+      expect(redis.strings.get(cacheKey('ada@example.com'))).toBe(DM);
+      expect(redis.ttls.get(cacheKey('ada@example.com'))).toBe(24 * 60 * 60);
+    });
+
+    test('keeps resolutions apart per tenant', async () => {
+      await resolve('ada@example.com');
+      await resolve('ada@example.com', 'tenant-b');
+
+      expect(lookupUserByEmail).toHaveBeenCalledTimes(2);
+    });
+
+    test('asks Slack when the cache cannot be read', async () => {
+      jest.spyOn(redis, 'get').mockRejectedValue(new Error('connection lost'));
+
+      await expect(resolve('ada@example.com')).resolves.toEqual({
+        ok: true,
+        value: { channel: DM },
+      });
+    });
+
+    test('still resolves when the channel cannot be cached', async () => {
+      jest.spyOn(redis, 'set').mockRejectedValue(new Error('connection lost'));
+
+      await expect(resolve('ada@example.com')).resolves.toEqual({
+        ok: true,
+        value: { channel: DM },
+      });
+    });
+
+    test('does not cache a failed resolution', async () => {
+      openDirectMessage.mockResolvedValueOnce({
+        ok: false,
+        error: 'user_disabled',
+        retryable: false,
+      });
+
+      await resolve(USER);
+
+      expect(redis.strings.size).toBe(0);
+    });
+  });
+
+  describe('failures', () => {
+    test('rejects a recipient that is no channel, user or email', async () => {
+      await expect(resolve('ops team')).resolves.toEqual({
+        ok: false,
+        error: expect.stringMatching(/^recipient_invalid:/) as string,
+        retryable: false,
+      });
+    });
+
+    test('names an email no workspace member has', async () => {
+      lookupUserByEmail.mockResolvedValue({
+        ok: false,
+        error: 'users_not_found',
+        retryable: false,
+      });
+
+      const result = await resolve('nobody@example.com');
+
+      expect(result).toEqual({
+        ok: false,
+        error: expect.stringMatching(/^recipient_not_found:/) as string,
+        retryable: false,
+      });
+      expect(openDirectMessage).not.toHaveBeenCalled();
+    });
+
+    test('stays retryable when Slack is down', async () => {
+      lookupUserByEmail.mockResolvedValue({
+        ok: false,
+        error: 'internal_error',
+        retryable: true,
+      });
+
+      await expect(resolve('ada@example.com')).resolves.toEqual({
+        ok: false,
+        error: 'recipient_lookup_failed: internal_error',
+        retryable: true,
+      });
+    });
+
+    test('names a user the bot cannot message', async () => {
+      openDirectMessage.mockResolvedValue({
+        ok: false,
+        error: 'user_disabled',
+        retryable: false,
+      });
+
+      await expect(resolve(USER)).resolves.toEqual({
+        ok: false,
+        error: `recipient_unreachable: cannot message user ${USER} (user_disabled)`,
+        retryable: false,
+      });
+    });
+  });
+});
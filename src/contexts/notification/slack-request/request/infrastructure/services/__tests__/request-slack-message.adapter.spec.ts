@@ -0,0 +1,150 @@
+import { ActorContext } from 'src/shared/application/context';
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { TemplateRendererService } from 'src/shared/infrastructure';
+import { SlackApiService } from 'src/shared/infrastructure/slack/slack-api.service';
+import { Logger } from 'src/shared/logging';
+import {
+  ITemplateReader,
+  IWorkspaceReader,
+  TemplateReference,
+} from '../../../application/ports';
+import { RequestSlackMessageAdapter } from '../request-slack-message.adapter';
+import { RequestSlackRateLimiterService } from '../request-slack-rate-limiter.service';
+import { RequestTemplateAdapter } from '../request-template.adapter';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const actor: ActorContext = {
+  tenant: 'tenant-a',
+  userId: 'user-1',
+  tenant_userId: 'tenant-a_user-1',
+};
+
+const template = (text: string): TemplateReference => ({
+  code: 'order_shipped',
+  workspaceCode: 'acme-workspace',
+  name: 'Order shipped',
+  contentBlocks: [
+    JSON.stringify({ type: 'section', text: { type: 'mrkdwn', text } }),
+  ],
+  variables: ['orderId'],
+  enabled: true,
+});
+
+/** Version 1 as published, and the draft after the template was edited */
+const publishedV1 = template('Order {{orderId}} has shipped');
+const editedDraft = template('Your order {{orderId}} is on its way');
+
+describe('RequestSlackMessageAdapter', () => {
+  let findTemplateByCode: jest.Mock;
+  let findTemplateVersion: jest.Mock;
+  let updateMessage: jest.Mock;
+  let adapter: RequestSlackMessageAdapter;
+
+  beforeEach(() => {
+    const workspaceReader = {
+      findWorkspaceByCode: jest.fn().mockResolvedValue(
+        ok(
+          Option.some({
+            code: 'acme-workspace',
+            name: 'Acme',
+            botToken: 'xoxb-test',
+            enabled: true,
+          }),
+        ),
+      ),
+    } as unknown as jest.Mocked<IWorkspaceReader>;
+    findTemplateByCode = jest
+      .fn()
+      .mockResolvedValue(ok(Option.some(editedDraft)));
+    findTemplateVersion = jest
+      .fn()
+      .mockResolvedValue(ok(Option.some(publishedV1)));
+    updateMessage = jest
+      .fn()
+      .mockResolvedValue({ ok: true, data: { ts: '1700000000.000100' } });
+    const rateLimiter = {
+      acquire: jest.fn().mockResolvedValue(undefined),
+      pauseIfRateLimited: jest.fn().mockResolvedValue(undefined),
+    } as unknown as RequestSlackRateLimiterService;
+
+    adapter = new RequestSlackMessageAdapter(
+      createMockLogger(),
+      workspaceReader,
+      {
+        findTemplateByCode,
+        findTemplateVersion,
+      } as unknown as ITemplateReader,
+      { updateMessage } as unknown as SlackApiService,
+      new RequestTemplateAdapter(new TemplateRendererService()),
+      rateLimiter,
+    );
+  });
+
+  const update = (templateVersion?: number) =>
+    adapter.updateMessage(actor, {
+      workspaceCode: 'acme-workspace',
+      templateCode: 'order_shipped',
+      templateVersion,
+      message: { channelId: 'C0123ABCD', ts: '1700000000.000100' },
+      data: { orderId: 'A-1001' },
+    });
+
+  test('renders the pinned version after the template was edited', async () => {
+    const result = await update(1);
+
+    expect(result.ok).toBe(true);
+    expect(findTemplateVersion).toHaveBeenCalledWith(actor, 'order_shipped', 1);
+    expect(findTemplateByCode).not.toHaveBeenCalled();
+    expect(updateMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: 'Order A-1001 has shipped' },
+          },
+        ],
+      }),
+    );
+  });
+
+  test('renders the current template when the request is not pinned', async () => {
+    const result = await update();
+
+    expect(result.ok).toBe(true);
+    expect(findTemplateVersion).not.toHaveBeenCalled();
+    expect(updateMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: 'Your order A-1001 is on its way',
+            },
+          },
+        ],
+      }),
+    );
+  });
+
+  test('fails when the pinned version no longer exists', async () => {
+    findTemplateVersion.mockResolvedValue(ok(Option.none()));
+
+    const result = await update(1);
+
+    expect(!result.ok && result.error.code).toBe(
+      'REQUEST.INVALID_TEMPLATE_CODE',
+    );
+    expect(updateMessage).not.toHaveBeenCalled();
+  });
+});
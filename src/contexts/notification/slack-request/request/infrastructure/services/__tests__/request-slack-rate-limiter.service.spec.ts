@@ -0,0 +1,228 @@
+import type { Redis } from 'ioredis';
+import { SLACK_TIER_CALLS_PER_MINUTE } from 'src/shared/infrastructure/slack';
+import { Logger } from 'src/shared/logging';
+import { RequestProjectionKeys } from '../../../request-projection-keys';
+import {
+  RequestSlackRateLimiterService,
+  SlackLaneBusyError,
+} from '../request-slack-rate-limiter.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+/**
+ * In-memory stand-in for the expiring keys and the reserve script, on the
+ * mocked clock
+ */
+class FakeRedis {
+  readonly keys = new Map<string, { value: number; expiresAt?: number }>();
+
+  eval(
+    _script: string,
+    _numKeys: number,
+    pauseKey: string,
+    methodKey: string,
+    channelKey: string,
+    limitArg: string,
+    windowArg: string,
+    gapArg: string,
+  ): Promise<number> {
+    const paused = this.pttlOf(pauseKey);
+    if (paused > 0) return Promise.resolve(paused);
+    const gap = Number(gapArg);
+    if (gap > 0) {
+      const busy = this.pttlOf(channelKey);
+      if (busy > 0) return Promise.resolve(busy);
+    }
+    const limit = Number(limitArg);
+    if (limit > 0) {
+      const calls = (this.live(methodKey)?.value ?? 0) + 1;
+      this.keys.set(methodKey, {
+        value: calls,
+        expiresAt:
+          calls === 1
+            ? Date.now() + Number(windowArg)
+            : this.live(methodKey)?.expiresAt,
+      });
+      if (calls > limit) {
+        return Promise.resolve(Math.max(this.pttlOf(methodKey), 1));
+      }
+    }
+    if (gap > 0) {
+      this.keys.set(channelKey, { value: 1, expiresAt: Date.now() + gap });
+    }
+    return Promise.resolve(0);
+  }
+
+  pttl(key: string): Promise<number> {
+    return Promise.resolve(this.pttlOf(key));
+  }
+
+  set(key: string, value: string, _px: 'PX', ms: number): Promise<'OK'> {
+    this.keys.set(key, { value: Number(value), expiresAt: Date.now() + ms });
+    return Promise.resolve('OK');
+  }
+
+  private live(key: string) {
+    const entry = this.keys.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.keys.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private pttlOf(key: string): number {
+    const entry = this.live(key);
+    if (!entry) return -2;
+    return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+  }
+}
+
+const TENANT = 'tenant-a';
+const WORKSPACE = 'T01EXAMPLE123';
+const TIER_3 = SLACK_TIER_CALLS_PER_MINUTE[3];
+
+describe('RequestSlackRateLimiterService', () => {
+  let redis: FakeRedis;
+  let limiter: RequestSlackRateLimiterService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T10:00:00.000Z') });
+    redis = new FakeRedis();
+    limiter = new RequestSlackRateLimiterService(
+      createMockLogger(),
+      redis as unknown as Redis,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  const post = (channel: string, workspaceCode = WORKSPACE) =>
+    limiter.acquire({
+      tenant: TENANT,
+      workspaceCode,
+      method: 'chat.postMessage',
+      channel,
+    });
+  const lookup = () =>
+    limiter.acquire({
+      tenant: TENANT,
+      workspaceCode: WORKSPACE,
+      method: 'users.lookupByEmail',
+    });
+  const busyFor = (waitMs: number) =>
+    expect.objectContaining({ workspaceCode: WORKSPACE, waitMs }) as unknown;
+
+  describe('method tiers', () => {
+    test('defers the call over the per-minute limit until the window ends', async () => {
+      for (let call = 0; call < TIER_3; call++) {
+        await lookup();
+      }
+      jest.advanceTimersByTime(45_000);
+
+      await expect(lookup()).rejects.toEqual(busyFor(15_000));
+      jest.advanceTimersByTime(15_000);
+      await expect(lookup()).resolves.toBeUndefined();
+    });
+
+    test('keys the window by method', async () => {
+      const evalSpy = jest.spyOn(redis, 'eval');
+
+      await lookup();
+
+      expect(evalSpy).toHaveBeenCalledWith(
+        expect.any(String),
+        3,
+        RequestProjectionKeys.getRedisSlackRateLimitKey(
+          TENANT,
+          WORKSPACE,
+          'paused',
+        ),
+        RequestProjectionKeys.getRedisSlackRateLimitKey(
+          TENANT,
+          WORKSPACE,
+          'method:users.lookupByEmail',
+        ),
+        expect.any(String),
+        String(TIER_3),
+        '60000',
+        '0',
+      );
+    });
+  });
+
+  describe('channel spacing', () => {
+    test('waits out the gap before the next message to a channel', async () => {
+      await post('C0123ABCD45');
+
+      let sent = false;
+      const next = post('C0123ABCD45').then(() => (sent = true));
+      await jest.advanceTimersByTimeAsync(999);
+      expect(sent).toBe(false);
+      await jest.advanceTimersByTimeAsync(1);
+      await next;
+
+      expect(sent).toBe(true);
+    });
+
+    test('lets messages to other channels through at once', async () => {
+      await post('C0123ABCD45');
+
+      await expect(post('C0999WXYZ88')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('rate_limited answers', () => {
+    const rateLimited = (retryAfterSec?: number) =>
+      limiter.pauseIfRateLimited(
+        { tenant: TENANT, workspaceCode: WORKSPACE },
+        { ok: false, error: 'rate_limited', retryable: true, retryAfterSec },
+      );
+
+    test('pause the whole workspace for the Retry-After', async () => {
+      await expect(rateLimited(30)).rejects.toBeInstanceOf(SlackLaneBusyError);
+
+      await expect(lookup()).rejects.toEqual(busyFor(30_000));
+      await expect(post('C0123ABCD45')).rejects.toEqual(busyFor(30_000));
+      await expect(post('C0123ABCD45', 'T09OTHER999')).resolves.toBeUndefined();
+
+      jest.advanceTimersByTime(30_000);
+      await expect(lookup()).resolves.toBeUndefined();
+    });
+
+    test('never shorten a longer pause', async () => {
+      await rateLimited(30).catch(() => undefined);
+      await expect(rateLimited(5)).rejects.toEqual(busyFor(5_000));
+
+      await expect(lookup()).rejects.toEqual(busyFor(30_000));
+    });
+
+    test('pause for a second when Slack names no Retry-After', async () => {
+      await expect(rateLimited()).rejects.toEqual(busyFor(1_000));
+    });
+
+    test('leave other outcomes alone', async () => {
+      await expect(
+        limiter.pauseIfRateLimited(
+          { tenant: TENANT, workspaceCode: WORKSPACE },
+          { ok: false, error: 'channel_not_found', retryable: false },
+        ),
+      ).resolves.toBeUndefined();
+      await expect(lookup()).resolves.toBeUndefined();
+    });
+  });
+
+  test('lets calls through when redis is unavailable', async () => {
+    jest.spyOn(redis, 'eval').mockRejectedValue(new Error('connection lost'));
+
+    await expect(lookup()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,260 @@
+import type { Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { SlackApiService } from 'src/shared/infrastructure/slack/slack-api.service';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { IRedisIdempotencyService } from 'src/shared/infrastructure';
+import { IWorkspaceQuery } from 'src/contexts/notification/slack-request/workspace/application/ports';
+import { ITemplateQuery } from 'src/contexts/notification/slack-request/template/application/ports';
+import { IChannelQuery } from 'src/contexts/notification/slack-request/channel/application/ports';
+import { IConfigQuery } from 'src/contexts/notification/slack-request/config/application/ports';
+import { IRequestAppPort } from '../../../application/ports/request-app.port';
+import { RequestProjectionKeys } from '../../../request-projection-keys';
+import { RequestAttachmentUploaderService } from '../request-attachment-uploader.service';
+import { SendRequestJob } from '../request-queue.types';
+import { RequestRecipientResolverService } from '../request-recipient-resolver.service';
+import { RequestSlackRateLimiterService } from '../request-slack-rate-limiter.service';
+import { RequestTemplateAdapter } from '../request-template.adapter';
+import { SendRequestWorkerService } from '../send-message-worker.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+/**
+ * In-memory stand-in for the request hash and the thread root keys
+ */
+class FakeRedis {
+  readonly hashes = new Map<string, Record<string, string>>();
+  readonly strings = new Map<string, string>();
+  readonly ttls = new Map<string, number>();
+
+  hmget(key: string, ...fields: string[]): Promise<(string | null)[]> {
+    const hash = this.hashes.get(key) ?? {};
+    return Promise.resolve(fields.map((field) => hash[field] ?? null));
+  }
+
+  hgetall(key: string): Promise<Record<string, string>> {
+    return Promise.resolve({ ...this.hashes.get(key) });
+  }
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.strings.get(key) ?? null);
+  }
+
+  set(
+    key: string,
+    value: string,
+    ...args: (string | number)[]
+  ): Promise<'OK' | null> {
+    if (args.includes('NX') && this.strings.has(key)) {
+      return Promise.resolve(null);
+    }
+    this.strings.set(key, value);
+    this.ttls.set(key, Number(args[args.indexOf('EX') + 1]));
+    return Promise.resolve('OK');
+  }
+
+  expire(key: string, ttl: number): Promise<number> {
+    if (!this.strings.has(key)) return Promise.resolve(0);
+    this.ttls.set(key, ttl);
+    return Promise.resolve(1);
+  }
+}
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+  nowMs: () => NOW.getTime(),
+};
+
+const TENANT = 'tenant-a';
+const WORKSPACE = 'T01EXAMPLE123';
+const CHANNEL = 'C0123ABCD45';
+const THREAD_ROOT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const rootKey = (threadKey: string, channel = CHANNEL) =>
+  RequestProjectionKeys.getRedisThreadRootKey(
+    TENANT,
+    WORKSPACE,
+    channel,
+    threadKey,
+  );
+
+describe('SendRequestWorkerService', () => {
+  let redis: FakeRedis;
+  let sendMessage: jest.Mock;
+  let recordSent: jest.Mock;
+  let worker: SendRequestWorkerService;
+  let sent = 0;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    sent = 0;
+    sendMessage = jest.fn(() =>
+      Promise.resolve({
+        ok: true,
+        value: { ts: `1760000000.00010${++sent}`, channel: CHANNEL },
+      }),
+    );
+    recordSent = jest.fn().mockResolvedValue(undefined);
+
+    worker = new SendRequestWorkerService(
+      createMockLogger(),
+      redis as unknown as Redis,
+      {
+        acquireExecutionLock: jest
+          .fn()
+          .mockResolvedValue({ success: true, isFirst: true }),
+      } as unknown as IRedisIdempotencyService,
+      {
+        findById: jest.fn().mockResolvedValue(
+          ok(
+            Option.some({
+              code: WORKSPACE,
+              name: 'Acme',
+              botToken: 'xoxb-test',
+            }),
+          ),
+        ),
+      } as unknown as IWorkspaceQuery,
+      {} as ITemplateQuery,
+      {
+        findById: jest.fn((_actor, code: string) =>
+          Promise.resolve(ok(Option.some({ code, name: 'orders' }))),
+        ),
+      } as unknown as IChannelQuery,
+      {
+        findById: jest.fn().mockResolvedValue(ok(Option.some({}))),
+      } as unknown as IConfigQuery,
+      { sendMessage } as unknown as SlackApiService,
+      {
+        recordSent,
+        recordFailed: jest.fn(),
+      } as unknown as IRequestAppPort,
+      {} as RequestTemplateAdapter,
+      {} as RequestRecipientResolverService,
+      {} as RequestAttachmentUploaderService,
+      {
+        acquire: jest.fn().mockResolvedValue(undefined),
+        pauseIfRateLimited: jest.fn().mockResolvedValue(undefined),
+      } as unknown as RequestSlackRateLimiterService,
+      clock,
+    );
+  });
+
+  const send = (
+    requestCode: string,
+    options: {
+      thread?: { key: string; broadcast?: boolean };
+      threadTs?: string;
+      channelCode?: string;
+    } = {},
+  ) => {
+    redis.hashes.set(
+      RequestProjectionKeys.getRedisRequestKey(TENANT, requestCode),
+      {
+        status: 'pending',
+        workspaceCode: WORKSPACE,
+        channelCode: options.channelCode ?? CHANNEL,
+        ...(options.thread && { thread: JSON.stringify(options.thread) }),
+      },
+    );
+    return worker.processJob({
+      id: `job-${requestCode}`,
+      data: { requestCode, tenant: TENANT, threadTs: options.threadTs },
+    } as Job<SendRequestJob>);
+  };
+
+  const threadTsOfCall = (call: number) =>
+    (sendMessage.mock.calls[call] as [{ thread_ts?: string }])[0].thread_ts;
+
+  describe('threads', () => {
+    test('starts a thread with the first request of a key', async () => {
+      const result = await send('request-1', { thread: { key: 'order-123' } });
+
+      expect(result.success).toBe(true);
+      expect(threadTsOfCall(0)).toBeUndefined();
+      expect(redis.strings.get(rootKey('order-123'))).toBe('1760000000.000101');
+      expect(redis.ttls.get(rootKey('order-123'))).toBe(
+        THREAD_ROOT_TTL_SECONDS,
+      );
+    });
+
+    test('replies to that thread with later requests of the key', async () => {
+      await send('request-1', { thread: { key: 'order-123' } });
+      redis.ttls.clear();
+
+      await send('request-2', {
+        thread: { key: 'order-123', broadcast: true },
+      });
+
+      expect(sendMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          thread_ts: '1760000000.000101',
+          reply_broadcast: true,
+        }),
+      );
+      expect(redis.strings.get(rootKey('order-123'))).toBe('1760000000.000101');
+      expect(redis.ttls.get(rootKey('order-123'))).toBe(
+        THREAD_ROOT_TTL_SECONDS,
+      );
+    });
+
+    test('keeps a thread per channel', async () => {
+      await send('request-1', { thread: { key: 'order-123' } });
+
+      await send('request-2', {
+        thread: { key: 'order-123' },
+        channelCode: 'C0999WXYZ88',
+      });
+
+      expect(threadTsOfCall(1)).toBeUndefined();
+      expect(redis.strings.get(rootKey('order-123', 'C0999WXYZ88'))).toBe(
+        '1760000000.000102',
+      );
+    });
+
+    test('lets an explicit thread ts on the job win', async () => {
+      await send('request-1', { thread: { key: 'order-123' } });
+
+      await send('request-2', {
+        thread: { key: 'order-123' },
+        threadTs: '1750000000.000001',
+      });
+
+      expect(threadTsOfCall(1)).toBe('1750000000.000001');
+      expect(redis.strings.get(rootKey('order-123'))).toBe('1760000000.000101');
+    });
+
+    test('still reports the message sent when the root cannot be recorded', async () => {
+      jest.spyOn(redis, 'set').mockRejectedValue(new Error('connection lost'));
+
+      const result = await send('request-1', { thread: { key: 'order-123' } });
+
+      expect(result.success).toBe(true);
+      expect(recordSent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'request-1',
+          message: { channelId: CHANNEL, ts: '1760000000.000101' },
+        }),
+      );
+    });
+
+    test('tracks nothing for requests without a thread key', async () => {
+      await send('request-1');
+
+      expect(threadTsOfCall(0)).toBeUndefined();
+      expect(redis.strings.size).toBe(0);
+    });
+  });
+});
@@ -1,4 +1,8 @@
+export * from './request-attachment-uploader.service';
 export * from './request-queue.service';
 export * from './request-queue.types';
+export * from './request-recipient-resolver.service';
 export * from './request-template.adapter';
+export * from './request-slack-message.adapter';
+export * from './request-slack-rate-limiter.service';
 export * from './send-message-worker.service';
@@ -0,0 +1,346 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Option } from 'src/shared/domain/types';
+import {
+  SlackApiResult,
+  SlackApiService,
+  SlackFileResponse,
+} from 'src/shared/infrastructure/slack/slack-api.service';
+import { SLACK_REQUEST_DI_TOKENS } from '../../../slack-request.constants';
+import { RequestProjectionKeys } from '../../request-projection-keys';
+import {
+  REQUEST_ATTACHMENT_INLINE_MAX_BYTES,
+  REQUEST_ATTACHMENT_URL_MAX_BYTES,
+  type RequestAttachmentProps,
+} from '../../domain/value-objects';
+import {
+  IRequestAttachmentStore,
+  REQUEST_ATTACHMENT_STORE_TOKEN,
+} from '../../application/ports';
+import { RequestAttachmentHostUtil } from '../utilities/request-attachment-host.util';
+import { RequestSlackRateLimiterService } from './request-slack-rate-limiter.service';
+
+/**
+ * How long an uploaded file is reused by retries of the same request
+ */
+const ATTACHMENT_UPLOAD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const ATTACHMENT_FETCH_TIMEOUT_MS = 30_000;
+
+/**
+ * Redirects followed from an attachment url; each hop must stay on an
+ * allowed storage host
+ */
+const ATTACHMENT_MAX_REDIRECTS = 3;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const PDF_MAGIC = Buffer.from('%PDF-');
+
+type AttachmentLoadResult =
+  | { ok: true; value: Buffer }
+  | { ok: false; error: string; retryable: boolean };
+
+/**
+ * Request Attachment Uploader
+ *
+ * Uploads the attachment of a request to Slack before the message is sent.
+ * The uploaded file is remembered per request, so a retried send links the
+ * same file instead of uploading it again.
+ *
+ * The file is loaded from the attachment store. Urls are only fetched from
+ * allowed storage hosts, redirects included, and the body is read as a
+ * stream that is cut off at the size limit.
+ *
+ * Content is checked against the declared type and size before upload; a
+ * file that fails the check, an expired blob, or a url that answers 4xx
+ * fails the request for good. Network errors and Slack outages stay
+ * retryable.
+ */
+@Injectable()
+export class RequestAttachmentUploaderService {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(SLACK_REQUEST_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+    @Inject(REQUEST_ATTACHMENT_STORE_TOKEN)
+    private readonly attachmentStore: IRequestAttachmentStore,
+    private readonly slackApiService: SlackApiService,
+    private readonly rateLimiter: RequestSlackRateLimiterService,
+  ) {
+    this.logger = componentLogger(
+      baseLogger,
+      'RequestAttachmentUploaderService',
+    );
+  }
+
+  async upload(input: {
+    tenant: string;
+    workspaceCode: string;
+    requestCode: string;
+    botToken: string;
+    attachment: RequestAttachmentProps;
+  }): Promise<SlackApiResult<SlackFileResponse>> {
+    const uploadKey = RequestProjectionKeys.getRedisAttachmentUploadKey(
+      input.tenant,
+      input.requestCode,
+    );
+    const previous = await this.readPreviousUpload(uploadKey);
+    if (previous) {
+      Log.debug(this.logger, 'Reusing uploaded attachment', {
+        requestCode: input.requestCode,
+        fileId: previous.fileId,
+      });
+      return { ok: true, value: previous };
+    }
+
+    const loaded = await this.load(input.tenant, input.attachment);
+    if (!loaded.ok) {
+      return loaded;
+    }
+
+    // filesUploadV2 calls both methods once
+    await this.rateLimiter.acquire({
+      tenant: input.tenant,
+      workspaceCode: input.workspaceCode,
+      method: 'files.getUploadURLExternal',
+    });
+    await this.rateLimiter.acquire({
+      tenant: input.tenant,
+      workspaceCode: input.workspaceCode,
+      method: 'files.completeUploadExternal',
+    });
+    const uploaded = await this.slackApiService.uploadFile({
+      botToken: input.botToken,
+      filename: input.attachment.filename,
+      title: input.attachment.title,
+      content: loaded.value,
+    });
+    await this.rateLimiter.pauseIfRateLimited(input, uploaded);
+    if (!uploaded.ok) {
+      return {
+        ...uploaded,
+        error: `attachment_upload_failed: ${uploaded.error}`,
+      };
+    }
+
+    try {
+      await this.redis.set(
+        uploadKey,
+        JSON.stringify(uploaded.value),
+        'EX',
+        ATTACHMENT_UPLOAD_TTL_SECONDS,
+      );
+    } catch (error) {
+      // A retry would upload a second copy; the send itself is unaffected
+      Log.warn(this.logger, 'Failed to record uploaded attachment', {
+        requestCode: input.requestCode,
+        fileId: uploaded.value.fileId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    Log.info(this.logger, 'Uploaded attachment to Slack', {
+      requestCode: input.requestCode,
+      fileId: uploaded.value.fileId,
+      contentType: input.attachment.contentType,
+      sizeBytes: loaded.value.length,
+    });
+
+    return uploaded;
+  }
+
+  private async readPreviousUpload(
+    uploadKey: string,
+  ): Promise<SlackFileResponse | undefined> {
+    try {
+      const raw = await this.redis.get(uploadKey);
+      return raw ? (JSON.parse(raw) as SlackFileResponse) : undefined;
+    } catch (error) {
+      Log.warn(this.logger, 'Failed to read uploaded attachment', {
+        uploadKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  private async load(
+    tenant: string,
+    attachment: RequestAttachmentProps,
+  ): Promise<AttachmentLoadResult> {
+    const blob = await this.attachmentStore.load(tenant, attachment.blobId);
+    if (!blob.ok) {
+      return {
+        ok: false,
+        error: `attachment_unavailable: ${blob.error.title}`,
+        retryable: true,
+      };
+    }
+    if (Option.isNone(blob.value)) {
+      return {
+        ok: false,
+        error: 'attachment_unavailable: stored file has expired',
+        retryable: false,
+      };
+    }
+
+    const stored = blob.value.value;
+    const loaded =
+      'content' in stored
+        ? this.decodeInline(stored.content)
+        : await this.download(stored.url);
+    if (!loaded.ok) {
+      return loaded;
+    }
+    return this.checkContent(attachment, loaded.value);
+  }
+
+  private decodeInline(content: string): AttachmentLoadResult {
+    const bytes = Buffer.from(content, 'base64');
+    if (bytes.length > REQUEST_ATTACHMENT_INLINE_MAX_BYTES) {
+      return {
+        ok: false,
+        error: `attachment_too_large: inline content exceeds ${REQUEST_ATTACHMENT_INLINE_MAX_BYTES} bytes`,
+        retryable: false,
+      };
+    }
+    return { ok: true, value: bytes };
+  }
+
+  /**
+   * Fetch a url, following redirects by hand so every hop is checked
+   * against the allowed storage hosts
+   */
+  private async download(url: string): Promise<AttachmentLoadResult> {
+    const signal = AbortSignal.timeout(ATTACHMENT_FETCH_TIMEOUT_MS);
+    let target: URL | undefined = URL.canParse(url) ? new URL(url) : undefined;
+
+    for (let hop = 0; ; hop++) {
+      if (!target || !RequestAttachmentHostUtil.isAllowed(target)) {
+        return {
+          ok: false,
+          error:
+            'attachment_unavailable: url is not on an allowed storage host',
+          retryable: false,
+        };
+      }
+
+      let res: Response;
+      try {
+        res = await fetch(target, { redirect: 'manual', signal });
+      } catch (error) {
+        return {
+          ok: false,
+          error: `attachment_unavailable: ${error instanceof Error ? error.message : 'download failed'}`,
+          retryable: true,
+        };
+      }
+
+      if (REDIRECT_STATUSES.has(res.status)) {
+        await res.body?.cancel();
+        const location = res.headers.get('location');
+        if (!location || hop >= ATTACHMENT_MAX_REDIRECTS) {
+          return {
+            ok: false,
+            error: `attachment_unavailable: url redirected more than ${ATTACHMENT_MAX_REDIRECTS} times`,
+            retryable: false,
+          };
+        }
+        target = URL.canParse(location, target)
+          ? new URL(location, target)
+          : undefined;
+        continue;
+      }
+
+      if (!res.ok) {
+        await res.body?.cancel();
+        return {
+          ok: false,
+          error: `attachment_unavailable: url answered ${res.status}`,
+          retryable: res.status >= 500 || res.status === 429,
+        };
+      }
+      return this.readBody(res);
+    }
+  }
+
+  /**
+   * Read a response body, giving up as soon as it passes the size limit
+   */
+  private async readBody(res: Response): Promise<AttachmentLoadResult> {
+    const tooLarge = {
+      ok: false as const,
+      error: `attachment_too_large: url content exceeds ${REQUEST_ATTACHMENT_URL_MAX_BYTES} bytes`,
+      retryable: false,
+    };
+
+    const declaredLength = Number(res.headers.get('content-length'));
+    if (declaredLength > REQUEST_ATTACHMENT_URL_MAX_BYTES) {
+      await res.body?.cancel();
+      return tooLarge;
+    }
+    if (!res.body) {
+      return { ok: true, value: Buffer.alloc(0) };
+    }
+
+    const reader = res.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received += value.byteLength;
+        if (received > REQUEST_ATTACHMENT_URL_MAX_BYTES) {
+          await reader.cancel();
+          return tooLarge;
+        }
+        chunks.push(value);
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: `attachment_unavailable: ${error instanceof Error ? error.message : 'download failed'}`,
+        retryable: true,
+      };
+    }
+    return { ok: true, value: Buffer.concat(chunks, received) };
+  }
+
+  private checkContent(
+    attachment: RequestAttachmentProps,
+    bytes: Buffer,
+  ): AttachmentLoadResult {
+    const mismatch = {
+      ok: false as const,
+      error: `attachment_type_mismatch: content is not ${attachment.contentType}`,
+      retryable: false,
+    };
+
+    if (bytes.length === 0) {
+      return {
+        ok: false,
+        error: 'attachment_empty: file has no content',
+        retryable: false,
+      };
+    }
+    switch (attachment.contentType) {
+      case 'application/pdf':
+        if (!bytes.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+          return mismatch;
+        }
+        break;
+      case 'text/csv':
+        // Binary files contain NUL bytes; text does not
+        if (bytes.includes(0)) {
+          return mismatch;
+        }
+        break;
+    }
+    return { ok: true, value: bytes };
+  }
+}
@@ -7,11 +7,13 @@ import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
 import { CreateRequestRequest } from '../../application/dtos';
 import { IUserToken } from 'src/shared/security';
 import { RequestJobs } from '../processors';
-import { Result, DomainError, err, fromError } from 'src/shared/errors';
+import { Result, DomainError, ok, err, fromError } from 'src/shared/errors';
 import { ActorContext } from 'src/shared/application/context';
 import { Option } from 'src/shared/domain/types';
 import { ConfigErrors } from 'src/shared/config/errors/config.errors';
-import { SendRequestJob } from './request-queue.types';
+import { SendRequestJob, getSendRequestJobId } from './request-queue.types';
+import { IRequestSendJobs, RequestSendJobState } from '../../application/ports';
+import { RequestErrors } from '../../domain/errors';
 import {
   IWorkspaceQuery,
   WORKSPACE_QUERY_TOKEN,
@@ -47,7 +49,7 @@ import { DetailConfigResponse } from 'src/contexts/notification/slack-config/con
  * - Production-ready logging and monitoring
  */
 @Injectable()
-export class RequestQueueService {
+export class RequestQueueService implements IRequestSendJobs {
   private readonly logger: Logger;
 
   constructor(
@@ -427,7 +429,19 @@ export class RequestQueueService {
         options,
       });
 
+      // The job id is fixed per request and BullMQ keeps finished jobs, so a
+      // re-send would be dropped as a duplicate of the finished job
+      const jobId = getSendRequestJobId(tenant, requestCode);
+      const previous = await this.queue.getJob(jobId);
+      if (previous) {
+        const previousState = await previous.getState();
+        if (previousState === 'completed' || previousState === 'failed') {
+          await previous.remove();
+        }
+      }
+
       const bullmqJob = await this.queue.add('SendRequestJob', job, {
+        jobId,
         priority: options?.priority || 0,
         delay: options?.delay || 0,
         attempts: options?.attempts || 1,
@@ -467,6 +481,180 @@ export class RequestQueueService {
     }
   }
 
+  /**
+   * Move a request's send job to a new delay
+   *
+   * A job still in the delayed set is moved in place. A job that is waiting
+   * or already finished (e.g. skipped as superseded) is replaced. A job that
+   * is running cannot be moved.
+   */
+  async rescheduleSendRequestJob(
+    job: SendRequestJob,
+    delay: number,
+  ): Promise<{
+    success: boolean;
+    jobId?: string;
+    error?: string;
+  }> {
+    const { requestCode, tenant } = job;
+    const jobId = getSendRequestJobId(tenant, requestCode);
+
+    try {
+      const existing = await this.queue.getJob(jobId);
+      if (existing) {
+        const state = await existing.getState();
+        if (state === 'active') {
+          Log.warn(this.logger, 'Send job already running, not rescheduled', {
+            method: 'rescheduleSendRequestJob',
+            requestCode,
+            tenant,
+            jobId,
+          });
+          return { success: false, jobId, error: 'Send job already running' };
+        }
+        if (state === 'delayed') {
+          await existing.changeDelay(delay);
+          Log.info(this.logger, 'Moved delayed SendRequestJob', {
+            method: 'rescheduleSendRequestJob',
+            requestCode,
+            tenant,
+            jobId,
+            delay,
+          });
+          return { success: true, jobId };
+        }
+        await existing.remove();
+      }
+
+      await this.queue.add('SendRequestJob', job, {
+        jobId,
+        delay,
+        attempts: 1,
+      });
+
+      Log.info(this.logger, 'Re-enqueued SendRequestJob for new send time', {
+        method: 'rescheduleSendRequestJob',
+        requestCode,
+        tenant,
+        jobId,
+        delay,
+      });
+      return { success: true, jobId };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      Log.error(this.logger, 'Failed to reschedule SendRequestJob', {
+        method: 'rescheduleSendRequestJob',
+        requestCode,
+        tenant,
+        jobId,
+        error: errorMessage,
+      });
+      return { success: false, jobId, error: errorMessage };
+    }
+  }
+
+  /**
+   * State of a request's send job, read before a reschedule is accepted
+   */
+  async findState(
+    tenant: string,
+    requestCode: string,
+  ): Promise<Result<Option<RequestSendJobState>, DomainError>> {
+    const jobId = getSendRequestJobId(tenant, requestCode);
+
+    try {
+      const existing = await this.queue.getJob(jobId);
+      if (!existing) return ok(Option.none());
+
+      const state = await existing.getState();
+      switch (state) {
+        case 'active':
+          return ok(Option.some('running'));
+        case 'completed':
+        case 'failed':
+          return ok(Option.some('finished'));
+        case 'unknown':
+          return ok(Option.none());
+        default:
+          return ok(Option.some('pending'));
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      Log.error(this.logger, 'Failed to read SendRequestJob state', {
+        method: 'findState',
+        requestCode,
+        tenant,
+        jobId,
+        error: errorMessage,
+      });
+      return err(
+        fromError(RequestErrors.SEND_JOB_LOOKUP_FAILED, error, {
+          code: requestCode,
+          jobId,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Remove a request's send job if it has not started
+   *
+   * The worker also skips cancelled requests, so a job that could not be
+   * removed never sends.
+   */
+  async removeSendRequestJob(
+    tenant: string,
+    requestCode: string,
+  ): Promise<{
+    success: boolean;
+    removed: boolean;
+    error?: string;
+  }> {
+    const jobId = getSendRequestJobId(tenant, requestCode);
+
+    try {
+      const existing = await this.queue.getJob(jobId);
+      if (!existing) {
+        return { success: true, removed: false };
+      }
+
+      const state = await existing.getState();
+      if (
+        state !== 'delayed' &&
+        state !== 'waiting' &&
+        state !== 'prioritized'
+      ) {
+        return { success: true, removed: false };
+      }
+
+      await existing.remove();
+      Log.info(this.logger, 'Removed SendRequestJob', {
+        method: 'removeSendRequestJob',
+        requestCode,
+        tenant,
+        jobId,
+        state,
+      });
+      return { success: true, removed: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      Log.error(this.logger, 'Failed to remove SendRequestJob', {
+        method: 'removeSendRequestJob',
+        requestCode,
+        tenant,
+        jobId,
+        error: errorMessage,
+      });
+      return { success: false, removed: false, error: errorMessage };
+    }
+  }
+
   /**
    * Get queue statistics and health information
    */
@@ -41,6 +41,17 @@ export const REQUEST_QUEUE = {
   JOB_NAME: 'send-request',
 } as const;
 
+/**
+ * Job id of a request's send job
+ *
+ * Fixed per request so a scheduled send can be found again in the delayed
+ * set to move it on reschedule or remove it on cancel.
+ */
+export const getSendRequestJobId = (
+  tenant: string,
+  requestCode: string,
+): string => `send-${tenant}-${requestCode}`;
+
 /**
  * Request-specific Job Options
  *
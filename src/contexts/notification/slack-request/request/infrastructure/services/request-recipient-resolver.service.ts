@@ -0,0 +1,161 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import {
+  SlackApiResult,
+  SlackApiService,
+  SlackConversationResponse,
+} from 'src/shared/infrastructure/slack/slack-api.service';
+import { SLACK_REQUEST_DI_TOKENS } from '../../../slack-request.constants';
+import { RequestProjectionKeys } from '../../request-projection-keys';
+import { parseRequestRecipient } from '../../domain/value-objects';
+import { RequestSlackRateLimiterService } from './request-slack-rate-limiter.service';
+
+/**
+ * How long a resolved direct message channel is reused; an email can move
+ * to another Slack user, so the lookup is repeated now and then
+ */
+const RECIPIENT_CHANNEL_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Request Recipient Resolver
+ *
+ * Turns the recipient of a request into the channel the message is posted
+ * to. Channel IDs are used as is; a user ID gets its direct message channel
+ * from conversations.open, and an email is first looked up with
+ * users.lookupByEmail. Resolutions are cached per tenant and workspace.
+ *
+ * Failures carry a reason naming the recipient problem. They are only
+ * retryable when Slack itself was (outages); rate limits pause the
+ * workspace lane instead.
+ */
+@Injectable()
+export class RequestRecipientResolverService {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(SLACK_REQUEST_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+    private readonly slackApiService: SlackApiService,
+    private readonly rateLimiter: RequestSlackRateLimiterService,
+  ) {
+    this.logger = componentLogger(
+      baseLogger,
+      'RequestRecipientResolverService',
+    );
+  }
+
+  async resolveChannel(input: {
+    tenant: string;
+    workspaceCode: string;
+    botToken: string;
+    recipient: string;
+  }): Promise<SlackApiResult<SlackConversationResponse>> {
+    const target = parseRequestRecipient(input.recipient);
+    if (!target) {
+      return {
+        ok: false,
+        error: 'recipient_invalid: not a Slack channel ID, user ID or email',
+        retryable: false,
+      };
+    }
+    if (target.kind === 'conversation') {
+      return { ok: true, value: { channel: target.channelId } };
+    }
+
+    const cacheKey = RequestProjectionKeys.getRedisRecipientChannelKey(
+      input.tenant,
+      input.workspaceCode,
+      target.kind === 'email' ? target.email : target.userId,
+    );
+    const cached = await this.readCache(cacheKey);
+    if (cached) {
+      return { ok: true, value: { channel: cached } };
+    }
+
+    let userId: string;
+    if (target.kind === 'email') {
+      await this.rateLimiter.acquire({
+        tenant: input.tenant,
+        workspaceCode: input.workspaceCode,
+        method: 'users.lookupByEmail',
+      });
+      const lookup = await this.slackApiService.lookupUserByEmail(
+        input.botToken,
+        target.email,
+      );
+      await this.rateLimiter.pauseIfRateLimited(input, lookup);
+      if (!lookup.ok) {
+        return {
+          ...lookup,
+          error:
+            lookup.error === 'users_not_found'
+              ? `recipient_not_found: no member of workspace ${input.workspaceCode} has this email`
+              : `recipient_lookup_failed: ${lookup.error}`,
+        };
+      }
+      userId = lookup.value.userId;
+    } else {
+      userId = target.userId;
+    }
+
+    await this.rateLimiter.acquire({
+      tenant: input.tenant,
+      workspaceCode: input.workspaceCode,
+      method: 'conversations.open',
+    });
+    const opened = await this.slackApiService.openDirectMessage(
+      input.botToken,
+      userId,
+    );
+    await this.rateLimiter.pauseIfRateLimited(input, opened);
+    if (!opened.ok) {
+      return {
+        ...opened,
+        error: `recipient_unreachable: cannot message user ${userId} (${opened.error})`,
+      };
+    }
+
+    await this.writeCache(cacheKey, opened.value.channel);
+
+    Log.debug(this.logger, 'Resolved recipient direct message channel', {
+      tenant: input.tenant,
+      workspaceCode: input.workspaceCode,
+      recipientKind: target.kind,
+      userId,
+      channelId: opened.value.channel,
+    });
+
+    return opened;
+  }
+
+  private async readCache(cacheKey: string): Promise<string | undefined> {
+    try {
+      return (await this.redis.get(cacheKey)) ?? undefined;
+    } catch (error) {
+      Log.warn(this.logger, 'Failed to read recipient cache', {
+        cacheKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  private async writeCache(cacheKey: string, channelId: string) {
+    try {
+      await this.redis.set(
+        cacheKey,
+        channelId,
+        'EX',
+        RECIPIENT_CHANNEL_TTL_SECONDS,
+      );
+    } catch (error) {
+      // Only costs a lookup on the next send
+      Log.warn(this.logger, 'Failed to cache recipient channel', {
+        cacheKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import { Option } from 'src/shared/domain/types';
+import {
+  SlackApiResult,
+  SlackApiService,
+} from 'src/shared/infrastructure/slack/slack-api.service';
+import type { SlackRateLimitedMethod } from 'src/shared/infrastructure/slack';
+import type { SlackBlock } from 'src/shared/infrastructure/slack/slack-block-kit.types';
+import { RequestErrors } from '../../domain/errors';
+import type { RequestMessageRefProps } from '../../domain/value-objects';
+import {
+  IRequestMessagePort,
+  ITemplateReader,
+  IWorkspaceReader,
+  TEMPLATE_REFERENCE_READER_TOKEN,
+  WORKSPACE_REFERENCE_READER_TOKEN,
+  WorkspaceReference,
+} from '../../application/ports';
+import { RequestTemplateAdapter } from './request-template.adapter';
+import {
+  RequestSlackRateLimiterService,
+  SlackLaneBusyError,
+} from './request-slack-rate-limiter.service';
+
+/**
+ * Request Slack Message Adapter
+ *
+ * Implements IRequestMessagePort with chat.update and chat.delete, using the
+ * bot token of the request's workspace. Edits are rendered from the request's
+ * template the same way the send worker renders the original message, but a
+ * template that fails to render is an error here rather than falling back to
+ * a placeholder, so a bad edit never replaces a good message.
+ *
+ * Calls share the workspace's rate limit lanes with the send worker. A busy
+ * lane is reported as a retryable rate_limited failure with its wait.
+ */
+@Injectable()
+export class RequestSlackMessageAdapter implements IRequestMessagePort {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WORKSPACE_REFERENCE_READER_TOKEN)
+    private readonly workspaceReader: IWorkspaceReader,
+    @Inject(TEMPLATE_REFERENCE_READER_TOKEN)
+    private readonly templateReader: ITemplateReader,
+    private readonly slackApiService: SlackApiService,
+    private readonly templateRenderer: RequestTemplateAdapter,
+    private readonly rateLimiter: RequestSlackRateLimiterService,
+  ) {
+    this.logger = componentLogger(baseLogger, 'RequestSlackMessageAdapter');
+  }
+
+  async updateMessage(
+    actor: ActorContext,
+    input: {
+      workspaceCode: string;
+      templateCode: string;
+      templateVersion?: number;
+      message: RequestMessageRefProps;
+      data: Record<string, unknown>;
+    },
+  ): Promise<Result<void, DomainError>> {
+    const workspaceResult = await this.resolveWorkspace(
+      actor,
+      input.workspaceCode,
+    );
+    if (!workspaceResult.ok) return workspaceResult;
+    const workspace = workspaceResult.value;
+
+    const templateResult = input.templateVersion
+      ? await this.templateReader.findTemplateVersion(
+          actor,
+          input.templateCode,
+          input.templateVersion,
+        )
+      : await this.templateReader.findTemplateByCode(actor, input.templateCode);
+    if (!templateResult.ok) return err(templateResult.error);
+    if (Option.isNone(templateResult.value)) {
+      return err({
+        ...RequestErrors.INVALID_TEMPLATE_CODE,
+        detail: `Template not found: ${input.templateCode}`,
+        context: { templateCode: input.templateCode },
+      });
+    }
+
+    const rendered = this.templateRenderer.renderTemplate({
+      template: templateResult.value.value,
+      variables: input.data,
+    });
+    if (!rendered.ok) {
+      return err({
+        ...RequestErrors.INVALID_DATA,
+        detail: `Template could not be rendered with the new data: ${rendered.error}`,
+        context: { templateCode: input.templateCode, error: rendered.error },
+      });
+    }
+
+    const slackResult = await this.withinRateLimit(
+      { tenant: actor.tenant, workspaceCode: input.workspaceCode },
+      'chat.update',
+      () =>
+        this.slackApiService.updateMessage({
+          botToken: workspace.botToken!,
+          channel: input.message.channelId,
+          ts: input.message.ts,
+          blocks: rendered.value,
+          text: `Message from ${workspace.name}`,
+        }),
+    );
+    if (!slackResult.ok) {
+      return err(this.slackError('chat.update', input.message, slackResult));
+    }
+
+    Log.info(this.logger, 'Slack message updated', {
+      workspaceCode: input.workspaceCode,
+      channelId: input.message.channelId,
+      ts: input.message.ts,
+    });
+    return ok(undefined);
+  }
+
+  async replaceMessage(
+    actor: ActorContext,
+    input: {
+      workspaceCode: string;
+      message: RequestMessageRefProps;
+      blocks: SlackBlock[];
+      text?: string;
+    },
+  ): Promise<Result<void, DomainError>> {
+    const workspaceResult = await this.resolveWorkspace(
+      actor,
+      input.workspaceCode,
+    );
+    if (!workspaceResult.ok) return workspaceResult;
+
+    const slackResult = await this.withinRateLimit(
+      { tenant: actor.tenant, workspaceCode: input.workspaceCode },
+      'chat.update',
+      () =>
+        this.slackApiService.updateMessage({
+          botToken: workspaceResult.value.botToken!,
+          channel: input.message.channelId,
+          ts: input.message.ts,
+          blocks: input.blocks,
+          text: input.text ?? `Message from ${workspaceResult.value.name}`,
+        }),
+    );
+    if (!slackResult.ok) {
+      return err(this.slackError('chat.update', input.message, slackResult));
+    }
+
+    Log.info(this.logger, 'Slack message replaced', {
+      workspaceCode: input.workspaceCode,
+      channelId: input.message.channelId,
+      ts: input.message.ts,
+      blocksCount: input.blocks.length,
+    });
+    return ok(undefined);
+  }
+
+  async deleteMessage(
+    actor: ActorContext,
+    input: {
+      workspaceCode: string;
+      message: RequestMessageRefProps;
+    },
+  ): Promise<Result<void, DomainError>> {
+    const workspaceResult = await this.resolveWorkspace(
+      actor,
+      input.workspaceCode,
+    );
+    if (!workspaceResult.ok) return workspaceResult;
+
+    const slackResult = await this.withinRateLimit(
+      { tenant: actor.tenant, workspaceCode: input.workspaceCode },
+      'chat.delete',
+      () =>
+        this.slackApiService.deleteMessage({
+          botToken: workspaceResult.value.botToken!,
+          channel: input.message.channelId,
+          ts: input.message.ts,
+        }),
+    );
+    // Deleting a message that is already gone leaves Slack as we want it
+    if (!slackResult.ok && slackResult.error !== 'message_not_found') {
+      return err(this.slackError('chat.delete', input.message, slackResult));
+    }
+
+    Log.info(this.logger, 'Slack message deleted', {
+      workspaceCode: input.workspaceCode,
+      channelId: input.message.channelId,
+      ts: input.message.ts,
+      alreadyGone: !slackResult.ok,
+    });
+    return ok(undefined);
+  }
+
+  /**
+   * Load the workspace and make sure it can call Slack
+   */
+  private async resolveWorkspace(
+    actor: ActorContext,
+    workspaceCode: string,
+  ): Promise<Result<WorkspaceReference, DomainError>> {
+    const workspaceResult = await this.workspaceReader.findWorkspaceByCode(
+      actor,
+      workspaceCode,
+    );
+    if (!workspaceResult.ok) return err(workspaceResult.error);
+    if (
+      Option.isNone(workspaceResult.value) ||
+      !workspaceResult.value.value.botToken
+    ) {
+      return err({
+        ...RequestErrors.INVALID_WORKSPACE_CODE,
+        detail: `Workspace ${workspaceCode} not found or missing bot token`,
+        context: { workspaceCode },
+      });
+    }
+    return ok(workspaceResult.value.value);
+  }
+
+  /**
+   * Run a Slack call in the workspace's lane for the method
+   */
+  private async withinRateLimit<T>(
+    workspace: { tenant: string; workspaceCode: string },
+    method: SlackRateLimitedMethod,
+    call: () => Promise<SlackApiResult<T>>,
+  ): Promise<SlackApiResult<T>> {
+    try {
+      await this.rateLimiter.acquire({ ...workspace, method });
+      const result = await call();
+      await this.rateLimiter.pauseIfRateLimited(workspace, result);
+      return result;
+    } catch (error) {
+      if (!(error instanceof SlackLaneBusyError)) throw error;
+      return {
+        ok: false,
+        error: 'rate_limited',
+        retryable: true,
+        retryAfterSec: Math.ceil(error.waitMs / 1000),
+      };
+    }
+  }
+
+  private slackError(
+    method: string,
+    message: RequestMessageRefProps,
+    result: { error: string; retryable: boolean; retryAfterSec?: number },
+  ): DomainError {
+    Log.warn(this.logger, `Slack ${method} failed`, {
+      method,
+      channelId: message.channelId,
+      ts: message.ts,
+      error: result.error,
+      retryable: result.retryable,
+    });
+
+    return {
+      ...RequestErrors.SLACK_MESSAGE_ACTION_FAILED,
+      detail: `Slack ${method} failed: ${result.error}`,
+      retryable: result.retryable,
+      context: {
+        method,
+        slackError: result.error,
+        retryAfterSec: result.retryAfterSec,
+        channelId: message.channelId,
+        ts: message.ts,
+      },
+    };
+  }
+}
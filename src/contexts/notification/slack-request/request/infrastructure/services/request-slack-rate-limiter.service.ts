@@ -0,0 +1,198 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import {
+  SLACK_METHOD_RATE_LIMITS,
+  SlackMethodRateLimit,
+  SlackRateLimitedMethod,
+} from 'src/shared/infrastructure/slack';
+import type { SlackApiResult } from 'src/shared/infrastructure/slack/slack-api.service';
+import { SLACK_REQUEST_DI_TOKENS } from '../../../slack-request.constants';
+import { RequestProjectionKeys } from '../../request-projection-keys';
+
+/**
+ * Waits up to this long are slept through; longer ones defer the job
+ */
+const MAX_INLINE_WAIT_MS = 2000;
+
+/**
+ * Pause used when Slack reports rate_limited without a Retry-After
+ */
+const DEFAULT_PAUSE_SEC = 1;
+
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Take a slot in a workspace's lanes, or say how long to wait for one
+ *
+ * KEYS[1] workspace pause, KEYS[2] method window, KEYS[3] channel gap
+ * ARGV[1] calls per window (0: none), ARGV[2] window ms, ARGV[3] channel gap ms (0: none)
+ * Returns 0 when the call may go out, else the milliseconds to wait.
+ */
+const RESERVE_SCRIPT = `
+local paused = redis.call('PTTL', KEYS[1])
+if paused > 0 then return paused end
+local gap = tonumber(ARGV[3])
+if gap > 0 then
+  local busy = redis.call('PTTL', KEYS[3])
+  if busy > 0 then return busy end
+end
+local limit = tonumber(ARGV[1])
+if limit > 0 then
+  local calls = redis.call('INCR', KEYS[2])
+  if calls == 1 then redis.call('PEXPIRE', KEYS[2], ARGV[2]) end
+  if calls > limit then
+    local wait = redis.call('PTTL', KEYS[2])
+    if wait < 1 then wait = 1 end
+    return wait
+  end
+end
+if gap > 0 then redis.call('SET', KEYS[3], '1', 'PX', gap) end
+return 0
+`;
+
+/**
+ * Thrown when a Slack lane stays closed for longer than a job should block
+ *
+ * The send worker catches it and puts the job back in the delayed set.
+ */
+export class SlackLaneBusyError extends Error {
+  constructor(
+    readonly workspaceCode: string,
+    readonly waitMs: number,
+  ) {
+    super(`Slack lane of workspace ${workspaceCode} busy for ${waitMs}ms`);
+    this.name = 'SlackLaneBusyError';
+  }
+}
+
+/**
+ * Request Slack Rate Limiter
+ *
+ * Keeps every worker within Slack's limits for a workspace: calls per
+ * minute per method by Slack tier, and one message per second per channel.
+ * State lives in Redis so all workers share the same lanes.
+ *
+ * When Slack still answers rate_limited, the whole workspace is paused for
+ * its Retry-After, and sends wait instead of failing.
+ */
+@Injectable()
+export class RequestSlackRateLimiterService {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(SLACK_REQUEST_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+  ) {
+    this.logger = componentLogger(baseLogger, 'RequestSlackRateLimiterService');
+  }
+
+  /**
+   * Wait for a slot for one call
+   * @throws SlackLaneBusyError when the wait would exceed MAX_INLINE_WAIT_MS
+   */
+  async acquire(lane: {
+    tenant: string;
+    workspaceCode: string;
+    method: SlackRateLimitedMethod;
+    channel?: string;
+  }): Promise<void> {
+    for (;;) {
+      const waitMs = await this.reserve(lane);
+      if (waitMs === 0) {
+        return;
+      }
+      if (waitMs > MAX_INLINE_WAIT_MS) {
+        throw new SlackLaneBusyError(lane.workspaceCode, waitMs);
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Pause the workspace when Slack answered rate_limited
+   * @throws SlackLaneBusyError after pausing, so the job waits it out
+   */
+  async pauseIfRateLimited(
+    workspace: { tenant: string; workspaceCode: string },
+    result: SlackApiResult<unknown>,
+  ): Promise<void> {
+    if (result.ok || result.error !== 'rate_limited') {
+      return;
+    }
+    const { tenant, workspaceCode } = workspace;
+    const pauseMs = (result.retryAfterSec ?? DEFAULT_PAUSE_SEC) * 1000;
+
+    try {
+      // Never shorten a longer pause set by another worker
+      const pauseKey = RequestProjectionKeys.getRedisSlackRateLimitKey(
+        tenant,
+        workspaceCode,
+        'paused',
+      );
+      const current = await this.redis.pttl(pauseKey);
+      if (current < pauseMs) {
+        await this.redis.set(pauseKey, '1', 'PX', pauseMs);
+      }
+    } catch (error) {
+      Log.warn(this.logger, 'Failed to pause Slack workspace lane', {
+        tenant,
+        workspaceCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    Log.warn(this.logger, 'Slack rate limited workspace, pausing', {
+      tenant,
+      workspaceCode,
+      pauseMs,
+    });
+    throw new SlackLaneBusyError(workspaceCode, pauseMs);
+  }
+
+  private async reserve(lane: {
+    tenant: string;
+    workspaceCode: string;
+    method: SlackRateLimitedMethod;
+    channel?: string;
+  }): Promise<number> {
+    const limit: SlackMethodRateLimit = SLACK_METHOD_RATE_LIMITS[lane.method];
+    const channelGapMs = lane.channel ? (limit.perChannelIntervalMs ?? 0) : 0;
+
+    try {
+      const waitMs = (await this.redis.eval(
+        RESERVE_SCRIPT,
+        3,
+        RequestProjectionKeys.getRedisSlackRateLimitKey(
+          lane.tenant,
+          lane.workspaceCode,
+          'paused',
+        ),
+        RequestProjectionKeys.getRedisSlackRateLimitKey(
+          lane.tenant,
+          lane.workspaceCode,
+          `method:${lane.method}`,
+        ),
+        RequestProjectionKeys.getRedisSlackRateLimitKey(
+          lane.tenant,
+          lane.workspaceCode,
+          `channel:${lane.channel ?? ''}`,
+        ),
+        (limit.perMinute ?? 0).toString(),
+        RATE_WINDOW_MS.toString(),
+        channelGapMs.toString(),
+      )) as number;
+      return waitMs;
+    } catch (error) {
+      // Slack's own limits still apply; better to send than to stall
+      Log.warn(this.logger, 'Slack rate limiter unavailable', {
+        tenant: lane.tenant,
+        workspaceCode: lane.workspaceCode,
+        method: lane.method,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 0;
+    }
+  }
+}
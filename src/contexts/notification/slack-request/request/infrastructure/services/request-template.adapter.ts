@@ -2,12 +2,28 @@
 // REMOVE THIS COMMENT TO STOP AUTOMATIC UPDATES TO THIS BLOCK
 
 import { Injectable } from '@nestjs/common';
+import type { Block, KnownBlock } from '@slack/web-api';
 import {
   TemplateRendererService,
   RenderableTemplate,
+  TemplateRenderResult,
 } from 'src/shared/infrastructure';
+import { findBlockKitErrors } from 'src/shared/infrastructure/slack';
 import type { TemplateReference } from '../../application/ports';
 
+/**
+ * Error prefix of a render that produced blocks Slack would reject; such a
+ * request can never be sent as is
+ */
+export const INVALID_BLOCK_KIT_RENDER_ERROR = 'invalid_block_kit';
+
+/**
+ * Render result whose blocks passed the Block Kit check
+ */
+export type RequestTemplateRenderResult =
+  | { ok: true; value: (KnownBlock | Block)[] }
+  | Extract<TemplateRenderResult, { ok: false }>;
+
 /**
  * Request Template Adapter
  *
@@ -21,12 +37,16 @@ export class RequestTemplateAdapter {
 
   /**
    * Render Request template using shared renderer
+   *
+   * Rendered blocks are checked against Block Kit, since data can make a
+   * valid template produce a message Slack rejects. Every violation is
+   * listed in the error, and `path` points at the first one.
    */
   renderTemplate(opts: {
     template: TemplateReference;
     variables: Record<string, unknown>;
     maxBlocks?: number;
-  }) {
+  }): RequestTemplateRenderResult {
     // Adapt TemplateReference to RenderableTemplate
     const renderableTemplate: RenderableTemplate = {
       code: opts.template.code,
@@ -38,11 +58,27 @@ export class RequestTemplateAdapter {
       enabled: opts.template.enabled,
     };
 
-    return this.templateRenderer.renderTemplate({
+    const rendered = this.templateRenderer.renderTemplate({
       template: renderableTemplate,
       variables: opts.variables,
       maxBlocks: opts.maxBlocks,
     });
+    if (!rendered.ok) return rendered;
+
+    const blocks: unknown[] = Array.isArray(rendered.value)
+      ? rendered.value
+      : [rendered.value];
+    const errors = findBlockKitErrors(blocks);
+    if (errors.length === 0) {
+      return { ok: true, value: blocks as (KnownBlock | Block)[] };
+    }
+    return {
+      ok: false,
+      error: `${INVALID_BLOCK_KIT_RENDER_ERROR}: ${errors
+        .map((e) => `${e.path}: ${e.message}`)
+        .join('; ')}`,
+      path: errors[0].path,
+    };
   }
 
   /**
@@ -18,8 +18,9 @@ import {
   Inject,
 } from '@nestjs/common';
 import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import { Redis } from 'ioredis';
+import type { Block, KnownBlock } from '@slack/web-api';
 import { SendRequestJob, REQUEST_QUEUE } from './request-queue.types';
 import {
   IRedisIdempotencyService,
@@ -58,8 +59,42 @@ import {
   IRequestAppPort,
   REQUEST_APP_PORT,
 } from '../../application/ports/request-app.port';
-import { RequestTemplateAdapter } from './request-template.adapter';
+import {
+  INVALID_BLOCK_KIT_RENDER_ERROR,
+  RequestTemplateAdapter,
+} from './request-template.adapter';
+import { RequestRecipientResolverService } from './request-recipient-resolver.service';
+import { RequestAttachmentUploaderService } from './request-attachment-uploader.service';
+import {
+  RequestSlackRateLimiterService,
+  SlackLaneBusyError,
+} from './request-slack-rate-limiter.service';
 import { createSystemUserToken } from 'src/shared/security/auth';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import type {
+  RequestAttachmentProps,
+  RequestThreadProps,
+} from '../../domain/value-objects';
+
+/**
+ * Jobs may be promoted from the delayed set slightly before their due time
+ */
+const SCHEDULE_TOLERANCE_MS = 1000;
+
+/**
+ * How long a thread root is remembered after its last message
+ */
+const THREAD_ROOT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Escape text for the label of a mrkdwn link; a pipe would end the url
+ */
+const toSlackLinkLabel = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\|/g, '-');
 
 @Injectable()
 export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
@@ -86,6 +121,10 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
     @Inject(REQUEST_APP_PORT)
     private readonly requestAppPort: IRequestAppPort,
     private readonly templateRenderer: RequestTemplateAdapter,
+    private readonly recipientResolver: RequestRecipientResolverService,
+    private readonly attachmentUploader: RequestAttachmentUploaderService,
+    private readonly rateLimiter: RequestSlackRateLimiterService,
+    @Inject(CLOCK) private readonly clock: Clock,
   ) {
     this.logger = componentLogger(baseLogger, 'SendRequestWorkerService');
   }
@@ -109,8 +148,13 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Process SendRequestJob - Main worker logic
+   * @param token - Lock token of the job, needed to move it back to delayed
+   * @throws DelayedError when the Slack lane of the workspace is busy
    */
-  async processJob(job: Job<SendRequestJob>): Promise<JobProcessingResult> {
+  async processJob(
+    job: Job<SendRequestJob>,
+    token?: string,
+  ): Promise<JobProcessingResult> {
     const { requestCode, tenant, threadTs } = job.data;
 
     Log.debug(this.logger, 'Processing SendRequestJob', {
@@ -121,6 +165,23 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
     });
 
     try {
+      // Step 0: Drop jobs of cancelled requests and jobs left behind by a
+      // reschedule, before the send-lock is taken for good
+      const skipReason = await this.checkSchedule(tenant, requestCode);
+      if (skipReason) {
+        Log.info(this.logger, 'Skipping SendRequestJob', {
+          jobId: job.id,
+          requestCode,
+          tenant,
+          reason: skipReason,
+        });
+
+        return {
+          success: true,
+          message: skipReason,
+        };
+      }
+
       // Step 1: Acquire send-lock using SETNX (idempotency for processing)
       const sendLockResult = await this.idempotencyService.acquireExecutionLock(
         tenant,
@@ -216,6 +277,10 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         },
       };
     } catch (error) {
+      if (error instanceof SlackLaneBusyError) {
+        return this.deferJob(job, token, error);
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
 
@@ -233,6 +298,58 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Put the job back in the delayed set until the Slack lane reopens
+   *
+   * The send-lock is released so the delayed run can take it again. The
+   * attempt is not counted, so rate limits never exhaust the job's retries.
+   */
+  private async deferJob(
+    job: Job<SendRequestJob>,
+    token: string | undefined,
+    busy: SlackLaneBusyError,
+  ): Promise<never> {
+    const { requestCode, tenant } = job.data;
+
+    await this.idempotencyService.releaseExecutionLock(tenant, requestCode);
+
+    Log.info(this.logger, 'Deferring SendRequestJob until Slack lane reopens', {
+      jobId: job.id,
+      requestCode,
+      tenant,
+      workspaceCode: busy.workspaceCode,
+      waitMs: busy.waitMs,
+    });
+
+    await job.moveToDelayed(this.clock.nowMs() + busy.waitMs, token);
+    throw new DelayedError();
+  }
+
+  /**
+   * Why this job must not send, if it must not
+   */
+  private async checkSchedule(
+    tenant: string,
+    requestCode: string,
+  ): Promise<string | undefined> {
+    const [status, scheduledFor] = await this.redis.hmget(
+      RequestProjectionKeys.getRedisRequestKey(tenant, requestCode),
+      'status',
+      'scheduledFor',
+    );
+
+    if (status === 'cancelled') {
+      return 'Request cancelled';
+    }
+
+    const dueAtMs = scheduledFor ? Date.parse(scheduledFor) : NaN;
+    if (dueAtMs > this.clock.nowMs() + SCHEDULE_TOLERANCE_MS) {
+      return `Request rescheduled to ${scheduledFor}`;
+    }
+
+    return undefined;
+  }
+
   /**
    * Resolve Request data from Redis to get config codes
    */
@@ -244,8 +361,12 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
     data?: {
       workspaceCode: string;
       templateCode?: string;
+      templateVersion?: number;
       channelCode?: string;
+      recipient?: string;
       requestData?: Record<string, unknown>;
+      thread?: RequestThreadProps;
+      attachment?: RequestAttachmentProps;
       // Add other Request fields as needed
     };
     error?: string;
@@ -282,7 +403,11 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
       // Extract required config codes from the Request data
       const workspaceCode = redisHashData.workspaceCode;
       const templateCode = redisHashData.templateCode || undefined;
+      const templateVersion = redisHashData.templateVersion
+        ? parseInt(redisHashData.templateVersion, 10)
+        : undefined;
       const channelCode = redisHashData.channelCode || undefined;
+      const recipient = redisHashData.recipient || undefined;
 
       // Parse requestData if it exists (it's stored as JSON string in Redis)
       let parsedRequestData: Record<string, unknown> = {};
@@ -302,6 +427,35 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         }
       }
 
+      let thread: RequestThreadProps | undefined;
+      if (redisHashData.thread) {
+        try {
+          thread = JSON.parse(redisHashData.thread) as RequestThreadProps;
+        } catch (error) {
+          Log.warn(this.logger, 'Failed to parse thread JSON', {
+            requestCode,
+            tenant,
+            threadRaw: redisHashData.thread,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      let attachment: RequestAttachmentProps | undefined;
+      if (redisHashData.attachment) {
+        try {
+          attachment = JSON.parse(
+            redisHashData.attachment,
+          ) as RequestAttachmentProps;
+        } catch (error) {
+          Log.warn(this.logger, 'Failed to parse attachment JSON', {
+            requestCode,
+            tenant,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
       if (!workspaceCode) {
         Log.error(this.logger, 'Request missing required workspaceCode', {
           requestCode,
@@ -320,8 +474,11 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         tenant,
         workspaceCode,
         templateCode,
+        templateVersion,
         channelCode,
         hasRequestData: Object.keys(parsedRequestData).length > 0,
+        threadKey: thread?.key,
+        hasAttachment: !!attachment,
       });
 
       return {
@@ -329,8 +486,12 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         data: {
           workspaceCode,
           templateCode,
+          templateVersion,
           channelCode,
+          recipient,
           requestData: parsedRequestData,
+          thread,
+          attachment,
         },
       };
     } catch (error) {
@@ -358,6 +519,7 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
     data: {
       workspaceCode: string;
       templateCode?: string;
+      templateVersion?: number;
       channelCode?: string;
     },
   ): Promise<{
@@ -384,12 +546,19 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
       const [workspaceResult, templateResult, channelResult, appConfigResult] =
         await Promise.all([
           this.workspaceQuery.findById(actor, data.workspaceCode),
-          data.templateCode
-            ? this.templateQuery.findById(actor, data.templateCode)
-            : Promise.resolve({
-                ok: true,
-                value: Option.none(),
-              } as Result<Option<DetailTemplateResponse>, DomainError>),
+          // Pinned requests render the version they were created with
+          data.templateCode && data.templateVersion
+            ? this.templateQuery.findVersionById(
+                actor,
+                data.templateCode,
+                data.templateVersion,
+              )
+            : data.templateCode
+              ? this.templateQuery.findById(actor, data.templateCode)
+              : Promise.resolve({
+                  ok: true,
+                  value: Option.none(),
+                } as Result<Option<DetailTemplateResponse>, DomainError>),
           data.channelCode
             ? this.channelQuery.findById(actor, data.channelCode)
             : Promise.resolve({
@@ -457,7 +626,10 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
       workspaceCode: string;
       templateCode?: string;
       channelCode?: string;
+      recipient?: string;
       requestData?: Record<string, unknown>;
+      thread?: RequestThreadProps;
+      attachment?: RequestAttachmentProps;
     },
     config: {
       workspace: DetailWorkspaceResponse;
@@ -513,9 +685,55 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         };
       }
 
-      // 1. Determine target channel ID
+      // 1. Determine target channel ID; a recipient is messaged directly
       let targetChannelId: string;
-      if (channel) {
+      if (messageData.recipient) {
+        const resolved = await this.recipientResolver.resolveChannel({
+          tenant: job.data.tenant,
+          workspaceCode: messageData.workspaceCode,
+          botToken: workspace.botToken,
+          recipient: messageData.recipient,
+        });
+        if (!resolved.ok) {
+          Log.error(this.logger, 'Recipient resolution failed', {
+            error: resolved.error,
+            retryable: resolved.retryable,
+            requestCode: job.data.requestCode,
+          });
+
+          // Report failure back to Request
+          try {
+            await this.requestAppPort.recordFailed({
+              code: job.data.requestCode,
+              reason: resolved.error,
+              retryable: resolved.retryable,
+              attempts: 1,
+              tenant: job.data.tenant,
+            });
+          } catch (reportError) {
+            Log.warn(
+              this.logger,
+              'Failed to report recipient resolution failure',
+              {
+                requestCode: job.data.requestCode,
+                reportError:
+                  reportError instanceof Error
+                    ? reportError.message
+                    : 'Unknown error',
+              },
+            );
+          }
+
+          return {
+            success: false,
+            error: resolved.error,
+          };
+        }
+        targetChannelId = resolved.value.channel;
+        Log.debug(this.logger, 'Using recipient channel', {
+          channelId: targetChannelId,
+        });
+      } else if (channel) {
         // Use channel code as channelId (follows existing processor pattern)
         targetChannelId = channel.code;
         Log.debug(this.logger, 'Using configured channel', {
@@ -565,8 +783,23 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         };
       }
 
+      // A thread key replies to the thread an earlier request started; an
+      // explicit threadTs on the job wins
+      const thread = messageData.thread;
+      const threadRootKey = thread
+        ? RequestProjectionKeys.getRedisThreadRootKey(
+            job.data.tenant,
+            messageData.workspaceCode,
+            targetChannelId,
+            thread.key,
+          )
+        : undefined;
+      if (!threadTs && threadRootKey) {
+        threadTs = (await this.redis.get(threadRootKey)) ?? undefined;
+      }
+
       // 2. Render message blocks
-      let renderedBlocks: unknown[];
+      let renderedBlocks: (KnownBlock | Block)[];
       if (template) {
         Log.debug(this.logger, 'Rendering template', {
           templateCode: template.code,
@@ -590,6 +823,33 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
             variables: requestData,
           });
 
+          // Slack would reject these blocks on every attempt
+          if (renderRes.error.startsWith(INVALID_BLOCK_KIT_RENDER_ERROR)) {
+            try {
+              await this.requestAppPort.recordFailed({
+                code: job.data.requestCode,
+                reason: INVALID_BLOCK_KIT_RENDER_ERROR,
+                lastError: renderRes.error,
+                retryable: false,
+                attempts: 1,
+                tenant: job.data.tenant,
+              });
+            } catch (reportError) {
+              Log.warn(this.logger, 'Failed to report invalid Block Kit', {
+                requestCode: job.data.requestCode,
+                reportError:
+                  reportError instanceof Error
+                    ? reportError.message
+                    : 'Unknown error',
+              });
+            }
+
+            return {
+              success: false,
+              error: renderRes.error,
+            };
+          }
+
           // Fallback to default message
           renderedBlocks = [
             {
@@ -601,9 +861,8 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
             },
           ];
         } else {
-          renderedBlocks = Array.isArray(renderRes.value)
-            ? renderRes.value
-            : [renderRes.value];
+          // Rendered blocks were checked against Block Kit by the adapter
+          renderedBlocks = renderRes.value;
 
           Log.debug(this.logger, 'Template rendered successfully', {
             templateCode: template.code,
@@ -627,24 +886,92 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         });
       }
 
-      // 3. Send message via Slack API
+      // 3. Upload the attachment and link it below the message; posting the
+      // permalink shares the file into the conversation
+      const attachment = messageData.attachment;
+      if (attachment) {
+        const uploaded = await this.attachmentUploader.upload({
+          tenant: job.data.tenant,
+          workspaceCode: messageData.workspaceCode,
+          requestCode: job.data.requestCode,
+          botToken: workspace.botToken,
+          attachment,
+        });
+        if (!uploaded.ok) {
+          Log.error(this.logger, 'Attachment upload failed', {
+            error: uploaded.error,
+            retryable: uploaded.retryable,
+            requestCode: job.data.requestCode,
+          });
+
+          // Report failure back to Request
+          try {
+            await this.requestAppPort.recordFailed({
+              code: job.data.requestCode,
+              reason: uploaded.error,
+              retryable: uploaded.retryable,
+              attempts: 1,
+              tenant: job.data.tenant,
+            });
+          } catch (reportError) {
+            Log.warn(this.logger, 'Failed to report attachment failure', {
+              requestCode: job.data.requestCode,
+              reportError:
+                reportError instanceof Error
+                  ? reportError.message
+                  : 'Unknown error',
+            });
+          }
+
+          return {
+            success: false,
+            error: uploaded.error,
+          };
+        }
+
+        const label = toSlackLinkLabel(attachment.title ?? attachment.filename);
+        renderedBlocks = [
+          ...renderedBlocks,
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `📎 <${uploaded.value.permalink}|${label}>`,
+            },
+          },
+        ];
+      }
+
+      // 4. Send message via Slack API
       const slackSendOptions: SlackSendOptions = {
         botToken: workspace.botToken,
         channel: targetChannelId,
         blocks: renderedBlocks,
         text: `Message from ${workspace.name}`,
         thread_ts: threadTs || undefined,
+        reply_broadcast: thread?.broadcast,
       };
 
       Log.debug(this.logger, 'Sending message to Slack', {
         channel: targetChannelId,
         blocksCount: renderedBlocks.length,
         hasThreadTs: !!threadTs,
+        threadKey: thread?.key,
         workspaceName: workspace.name,
       });
 
+      await this.rateLimiter.acquire({
+        tenant: job.data.tenant,
+        workspaceCode: messageData.workspaceCode,
+        method: 'chat.postMessage',
+        channel: targetChannelId,
+      });
       const slackResult =
         await this.slackApiService.sendMessage(slackSendOptions);
+      await this.rateLimiter.pauseIfRateLimited(
+        { tenant: job.data.tenant, workspaceCode: messageData.workspaceCode },
+        slackResult,
+      );
 
       if (!slackResult.ok) {
         Log.error(this.logger, 'Slack API call failed', {
@@ -690,11 +1017,22 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         workspaceName: workspace.name,
       });
 
+      if (threadRootKey) {
+        await this.rememberThreadRoot(
+          threadRootKey,
+          threadTs ? undefined : slackResult.value.ts,
+        );
+      }
+
       // Report successful delivery back to Request
       try {
         await this.requestAppPort.recordSent({
           code: job.data.requestCode,
           attempts: 1, // BullMQ handles retries at job level
+          message: {
+            channelId: slackResult.value.channel,
+            ts: slackResult.value.ts,
+          },
           tenant: job.data.tenant,
         });
 
@@ -721,6 +1059,10 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
         },
       };
     } catch (error) {
+      if (error instanceof SlackLaneBusyError) {
+        throw error; // Not a failure; processJob defers the job
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
 
@@ -758,4 +1100,37 @@ export class SendRequestWorkerService implements OnModuleInit, OnModuleDestroy {
       };
     }
   }
+
+  /**
+   * Record the message that started a thread, or keep an existing root alive
+   *
+   * SET NX keeps the first root when two requests with the same key were
+   * sent at once; the other message then stays a separate thread.
+   *
+   * @param rootTs - ts of the message just sent when it started the thread
+   */
+  private async rememberThreadRoot(
+    threadRootKey: string,
+    rootTs?: string,
+  ): Promise<void> {
+    try {
+      if (rootTs) {
+        await this.redis.set(
+          threadRootKey,
+          rootTs,
+          'EX',
+          THREAD_ROOT_TTL_SECONDS,
+          'NX',
+        );
+      } else {
+        await this.redis.expire(threadRootKey, THREAD_ROOT_TTL_SECONDS);
+      }
+    } catch (error) {
+      // The message is out; only later replies lose the thread
+      Log.warn(this.logger, 'Failed to record thread root', {
+        threadRootKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
 }
@@ -0,0 +1,34 @@
+/** Hosts attachment urls may point at, comma separated; `*.` allows subdomains */
+const ATTACHMENT_ALLOWED_HOSTS_ENV = 'SLACK_ATTACHMENT_ALLOWED_HOSTS';
+
+/**
+ * Request Attachment Host Utility
+ *
+ * Attachment urls are fetched by the server, so only the storage hosts set
+ * in SLACK_ATTACHMENT_ALLOWED_HOSTS are accepted, on the default https port
+ * and without credentials. With nothing configured, url attachments are
+ * refused altogether.
+ */
+export class RequestAttachmentHostUtil {
+  static allowedHosts(): string[] {
+    return (process.env[ATTACHMENT_ALLOWED_HOSTS_ENV] ?? '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  static isAllowed(
+    url: URL,
+    allowedHosts: string[] = RequestAttachmentHostUtil.allowedHosts(),
+  ): boolean {
+    if (url.protocol !== 'https:' || url.port !== '') return false;
+    if (url.username || url.password) return false;
+
+    const hostname = url.hostname.toLowerCase();
+    return allowedHosts.some((allowed) =>
+      allowed.startsWith('*.')
+        ? hostname.endsWith(allowed.slice(1))
+        : hostname === allowed,
+    );
+  }
+}
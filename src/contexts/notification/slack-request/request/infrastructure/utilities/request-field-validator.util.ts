@@ -7,7 +7,11 @@ import {
 } from 'src/shared/infrastructure/repositories';
 import {
   DetailRequestResponse,
+  RequestAttachmentDto,
+  RequestMessageRefDto,
+  RequestQuietHoursDto,
   RequestStatusValue,
+  RequestThreadDto,
 } from '../../application/dtos';
 
 /**
@@ -51,6 +55,26 @@ export class RequestFieldValidatorUtil {
     const workspaceCode = aggregateData.workspaceCode as string;
     const templateCode = aggregateData.templateCode as string;
     const channelCode = aggregateData.channelCode as string;
+    const scheduledFor = aggregateData.scheduledFor as string | undefined;
+    const quietHours = safeParseJSON<RequestQuietHoursDto>(
+      aggregateData.quietHours,
+      'quietHours',
+    );
+    const message = safeParseJSON<RequestMessageRefDto>(
+      aggregateData.message,
+      'message',
+    );
+    const batchId = aggregateData.batchId as string | undefined;
+    const templateVersion = aggregateData.templateVersion as number | undefined;
+    const thread = safeParseJSON<RequestThreadDto>(
+      aggregateData.thread,
+      'thread',
+    );
+    // Kept whole, blob reference included: the send worker loads the file from it
+    const attachment = safeParseJSON<RequestAttachmentDto>(
+      aggregateData.attachment,
+      'attachment',
+    );
 
     // Extract version and timestamps with proper type conversion
     const version =
@@ -76,6 +100,13 @@ export class RequestFieldValidatorUtil {
       workspaceCode,
       templateCode,
       channelCode,
+      scheduledFor,
+      quietHours,
+      message,
+      thread,
+      batchId,
+      attachment,
+      templateVersion,
       version,
       createdAt,
       updatedAt,
@@ -1,2 +1,3 @@
 export * from './request-projector-health.controller';
 export * from './request.controller';
+export * from './slack-interaction.controller';
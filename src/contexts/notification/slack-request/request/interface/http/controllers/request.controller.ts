@@ -6,6 +6,8 @@ import {
   Get,
   Query,
   Post,
+  Patch,
+  Delete,
   Body,
   HttpStatus,
   HttpCode,
@@ -22,6 +24,7 @@ import {
   ApiParam,
   ApiOkResponse,
   ApiBearerAuth,
+  ApiResponse,
 } from '@nestjs/swagger';
 import { IdempotencyKey } from 'src/shared/interfaces/decorators';
 import { IdempotencyKeyPipe } from 'src/shared/interfaces/pipes';
@@ -30,6 +33,12 @@ import { CurrentUser, IUserToken, JwtAuthGuard } from 'src/shared/security';
 import {
   DetailRequestResponse,
   CreateRequestRequest,
+  BulkCreateRequestRequest,
+  BulkCreateRequestResponse,
+  RequestBatchResponse,
+  CancelRequestRequest,
+  RescheduleRequestRequest,
+  EditRequestMessageRequest,
   RequestPageResponse,
   ListRequestFilterRequest,
   ListRequestResponse,
@@ -39,6 +48,8 @@ import { PaginatedResponse } from 'src/shared/application/dtos';
 import {
   RequestReadResource,
   RequestCreateResource,
+  RequestUpdateResource,
+  RequestDeleteResource,
 } from '../../request.resource';
 import { ApiCommonErrors } from 'src/shared/interfaces/http';
 
@@ -75,6 +86,31 @@ export class RequestController {
     return result;
   }
 
+  @Get('batches/:batchId')
+  @RequestReadResource()
+  @ApiOperation({
+    summary: 'Get bulk create progress',
+    description:
+      'Counts the Requests created by one bulk call by status and derives the overall batch status. Requires READ permission (LOW risk).',
+  })
+  @ApiParam({
+    name: 'batchId',
+    type: 'string',
+    description: 'Batch id returned by the bulk create',
+    format: 'uuid',
+  })
+  @ApiOkResponse({
+    description: 'Batch progress retrieved successfully',
+    type: RequestBatchResponse,
+  })
+  @ApiCommonErrors()
+  async getBatch(
+    @CurrentUser() user: IUserToken,
+    @Param('batchId') batchId: string,
+  ): Promise<Result<RequestBatchResponse, DomainError>> {
+    return this.requestApplicationService.getRequestBatch(user, batchId);
+  }
+
   @Get(':code')
   @RequestReadResource()
   @ApiOperation({
@@ -157,4 +193,144 @@ export class RequestController {
 
     return result;
   }
+
+  @Post('bulk')
+  @RequestCreateResource()
+  @HttpCode(HttpStatus.MULTI_STATUS)
+  @ApiOperation({
+    summary: 'Create Requests in bulk',
+    description:
+      'Creates up to 500 Requests under one batch id. Each item is validated and created on its own; the response reports every item as created or failed. Requires CREATE permission (MEDIUM risk).',
+  })
+  @ApiResponse({
+    status: HttpStatus.MULTI_STATUS,
+    type: BulkCreateRequestResponse,
+    description: 'Per-item results of the bulk create',
+  })
+  @ApiCommonErrors()
+  @ApiBody({ type: BulkCreateRequestRequest })
+  async bulkCreate(
+    @CurrentUser() user: IUserToken,
+    @Body() body: BulkCreateRequestRequest,
+  ): Promise<Result<BulkCreateRequestResponse, DomainError>> {
+    return this.requestApplicationService.bulkCreateRequests(user, body);
+  }
+
+  // ========================================
+  // Scheduling
+  // ========================================
+
+  @Post(':code/cancel')
+  @RequestUpdateResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a pending Request',
+    description:
+      'Cancels a Request that has not been sent yet and removes its queued send. Requires UPDATE permission.',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: 'Request unique identifier (UUID format)',
+    format: 'uuid',
+  })
+  @ApiOkResponse({
+    description: 'Request cancelled',
+    type: DetailRequestResponse,
+  })
+  @ApiCommonErrors()
+  @ApiBody({ type: CancelRequestRequest, required: false })
+  async cancel(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+    @Body() body: CancelRequestRequest,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    return this.requestApplicationService.cancelRequest(user, code, body);
+  }
+
+  @Post(':code/reschedule')
+  @RequestUpdateResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reschedule a pending Request',
+    description:
+      'Moves the send time of a Request that has not been sent yet. Its quiet hours still apply. Requires UPDATE permission.',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: 'Request unique identifier (UUID format)',
+    format: 'uuid',
+  })
+  @ApiOkResponse({
+    description: 'Request rescheduled',
+    type: DetailRequestResponse,
+  })
+  @ApiCommonErrors()
+  @ApiBody({ type: RescheduleRequestRequest })
+  async reschedule(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+    @Body() body: RescheduleRequestRequest,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    return this.requestApplicationService.rescheduleRequest(user, code, body);
+  }
+
+  // ========================================
+  // Sent messages
+  // ========================================
+
+  @Patch(':code/message')
+  @RequestUpdateResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Edit the Slack message of a sent Request',
+    description:
+      'Replaces the Request data and re-renders its template into the already delivered Slack message (chat.update). Requires UPDATE permission.',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: 'Request unique identifier (UUID format)',
+    format: 'uuid',
+  })
+  @ApiOkResponse({
+    description: 'Slack message updated',
+    type: DetailRequestResponse,
+  })
+  @ApiCommonErrors()
+  @ApiBody({ type: EditRequestMessageRequest })
+  async editMessage(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+    @Body() body: EditRequestMessageRequest,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    return this.requestApplicationService.editRequestMessage(user, code, body);
+  }
+
+  @Delete(':code/message')
+  @RequestDeleteResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Retract the Slack message of a sent Request',
+    description:
+      'Deletes the delivered Slack message (chat.delete) and removes the Request. Requires DELETE permission.',
+  })
+  @ApiParam({
+    name: 'code',
+    type: 'string',
+    description: 'Request unique identifier (UUID format)',
+    format: 'uuid',
+  })
+  @ApiOkResponse({
+    description: 'Slack message retracted',
+    type: DetailRequestResponse,
+  })
+  @ApiCommonErrors()
+  async retractMessage(
+    @CurrentUser() user: IUserToken,
+    @Param('code') code: string,
+  ): Promise<Result<DetailRequestResponse, DomainError>> {
+    return this.requestApplicationService.retractRequestMessage(user, code);
+  }
 }
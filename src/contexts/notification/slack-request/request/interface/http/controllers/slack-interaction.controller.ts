@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Headers,
+  HttpStatus,
+  HttpCode,
+  Req,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOkResponse,
+} from '@nestjs/swagger';
+import { SLACK_SIGNATURE_HEADERS } from 'src/shared/security';
+import { Result, ResultInterceptor, DomainError } from 'src/shared/errors';
+import { ApiCommonErrors } from 'src/shared/interfaces/http';
+import { RequestInteractionService } from '../../../application/services';
+import {
+  SlackInteractionAckResponse,
+  SlackInteractionRequest,
+} from '../../../application/dtos';
+
+/**
+ * Slack Interaction Controller
+ *
+ * Interactivity request URL for the Slack app. Slack authenticates with the
+ * workspace signing secret instead of a JWT, so there is no auth guard here;
+ * the signature is checked in RequestInteractionService.
+ */
+@Controller()
+@ApiTags('Slack Interactions')
+@UseInterceptors(ResultInterceptor)
+export class SlackInteractionController {
+  constructor(
+    private readonly requestInteractionService: RequestInteractionService,
+  ) {}
+
+  @Post('interactions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Receive Slack Interaction',
+    description:
+      'Receives block_actions callbacks for buttons on delivered request messages. Verifies X-Slack-Signature with the signing secret of the workspace the message was sent from, records each action as RequestInteractionReceived and runs the matching interaction handler, which may update the original message. Other interaction types are acknowledged and ignored.',
+  })
+  @ApiConsumes('application/x-www-form-urlencoded')
+  @ApiBody({ type: SlackInteractionRequest })
+  @ApiHeader({
+    name: SLACK_SIGNATURE_HEADERS.SIGNATURE,
+    description: 'v0 HMAC-SHA256 signature of the request',
+    required: true,
+  })
+  @ApiHeader({
+    name: SLACK_SIGNATURE_HEADERS.TIMESTAMP,
+    description: 'Unix time the request was signed at',
+    required: true,
+  })
+  @ApiOkResponse({
+    description: 'Interaction recorded and handled',
+    type: SlackInteractionAckResponse,
+  })
+  @ApiCommonErrors()
+  async receive(
+    @Req() req: RawBodyRequest<Request>,
+    @Body() body: SlackInteractionRequest,
+    @Headers(SLACK_SIGNATURE_HEADERS.SIGNATURE) signature?: string,
+    @Headers(SLACK_SIGNATURE_HEADERS.TIMESTAMP) timestamp?: string,
+  ): Promise<Result<SlackInteractionAckResponse, DomainError>> {
+    return this.requestInteractionService.receive({
+      rawBody: req.rawBody?.toString('utf8') ?? '',
+      payload: body?.payload,
+      signature,
+      timestamp,
+    });
+  }
+}
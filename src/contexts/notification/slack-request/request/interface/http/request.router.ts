@@ -5,6 +5,7 @@ import { Module } from '@nestjs/common';
 import { RouterModule, Routes } from '@nestjs/core';
 import { RequestModule } from '../../request.module';
 import { RequestProjectorModule } from '../../request-projector.module';
+import { RequestInteractionModule } from '../../request-interaction.module';
 /**
  * Request Router Configuration
  *
@@ -31,6 +32,10 @@ const requestRoutes: Routes = [
             path: 'health',
             module: RequestProjectorModule,
           },
+          {
+            path: 'slack',
+            module: RequestInteractionModule,
+          },
         ],
       },
     ],
@@ -49,11 +54,13 @@ const requestRoutes: Routes = [
  * - /notification/slack-request/api/v1/requests/:code (GET)
  * - /notification/slack-request/health/projectors/request (GET)
  * - /notification/slack-request/health/projectors/request/metrics (GET)
+ * - /notification/slack-request/slack/interactions (POST, Slack-signed)
  */
 @Module({
   imports: [
     RequestModule,
     RequestProjectorModule,
+    RequestInteractionModule,
     RouterModule.register(requestRoutes),
   ],
   exports: [RequestModule, RequestProjectorModule],
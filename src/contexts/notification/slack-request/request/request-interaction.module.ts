@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { RequestModule } from './request.module';
+import { SlackInteractionController } from './interface/http/controllers';
+
+/**
+ * Request Interaction Module
+ *
+ * Holds the Slack interactivity endpoint apart from RequestModule so it can
+ * be mounted under /slack, outside the JWT-guarded request routes.
+ */
+@Module({
+  imports: [RequestModule],
+  controllers: [SlackInteractionController],
+})
+export class RequestInteractionModule {}
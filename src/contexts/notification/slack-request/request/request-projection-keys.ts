@@ -120,6 +120,96 @@ export class RequestProjectionKeys {
     return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:idx:request:by-category:${category}`;
   }
 
+  /**
+   * Get Redis key for the set of requests created by one bulk call
+   * Format: notification.slack:v1:{tenant}:idx:request:by-batch:{batchId}
+   */
+  static getRedisBatchIndexKey(tenant: string, batchId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:idx:request:by-batch:${batchId}`;
+  }
+
+  /**
+   * Get Redis key mapping a delivered Slack message to its request
+   * Format: notification.slack:v1:message:{channelId}:{ts}
+   *
+   * Not tenant-scoped: Slack calls back with the channel and ts only.
+   */
+  static getRedisMessageIndexKey(channelId: string, ts: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:message:${channelId}:${ts}`;
+  }
+
+  /**
+   * Get Redis key marking an interaction action as received
+   * Format: notification.slack:v1:message:{channelId}:{ts}:action:{actionId}:{actionTs}
+   */
+  static getRedisMessageActionKey(
+    channelId: string,
+    ts: string,
+    actionId: string,
+    actionTs: string,
+  ): string {
+    return `${this.getRedisMessageIndexKey(channelId, ts)}:action:${actionId}:${actionTs}`;
+  }
+
+  /**
+   * Get Redis key holding the root message ts of a request thread
+   * Format: notification.slack:v1:{tenant}:thread:{workspaceCode}:{channelId}:{threadKey}
+   */
+  static getRedisThreadRootKey(
+    tenant: string,
+    workspaceCode: string,
+    channelId: string,
+    threadKey: string,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:thread:${workspaceCode}:${channelId}:${threadKey}`;
+  }
+
+  /**
+   * Get Redis key remembering the Slack file uploaded for a request
+   * Format: notification.slack:v1:{tenant}:attachment:{requestCode}
+   */
+  static getRedisAttachmentUploadKey(
+    tenant: string,
+    requestCode: string,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:attachment:${requestCode}`;
+  }
+
+  /**
+   * Get Redis key holding the stored file of a request attachment
+   * Format: notification.slack:v1:{tenant}:attachment-blob:{blobId}
+   */
+  static getRedisAttachmentBlobKey(tenant: string, blobId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:attachment-blob:${blobId}`;
+  }
+
+  /**
+   * Get Redis key caching the direct message channel of a recipient
+   * Format: notification.slack:v1:{tenant}:recipient:{workspaceCode}:{recipient}
+   */
+  static getRedisRecipientChannelKey(
+    tenant: string,
+    workspaceCode: string,
+    recipient: string,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:recipient:${workspaceCode}:${recipient}`;
+  }
+
+  /**
+   * Get Redis key of one Slack rate limit lane of a workspace
+   * Format: notification.slack:v1:{tenant}:ratelimit:{workspaceCode}:{lane}
+   *
+   * Workspace codes are only unique within a tenant, so two tenants never
+   * share lanes even when their codes match.
+   */
+  static getRedisSlackRateLimitKey(
+    tenant: string,
+    workspaceCode: string,
+    lane: string,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:ratelimit:${workspaceCode}:${lane}`;
+  }
+
   /**
    * Get Redis key pattern for all requests in a tenant
    * Format: notification.slack:v1:{tenant}:request:*
@@ -24,18 +24,39 @@ import {
   RequestAuthorizationService,
   RequestAuthorizationAdapter,
   RequestForeignKeyValidatorService,
+  RequestInteractionService,
 } from './application/services';
+import {
+  AcknowledgeInteractionHandler,
+  ApprovalInteractionHandler,
+  OpenUrlAuditInteractionHandler,
+  RequestInteractionHandlerRegistry,
+} from './application/interactions';
 import {
   ICreateRequestUseCase,
   CreateRequestUseCase,
+  IBulkCreateRequestUseCase,
+  BulkCreateRequestUseCase,
   IGetRequestUseCase,
   GetRequestUseCase,
+  IGetRequestBatchUseCase,
+  GetRequestBatchUseCase,
   IListRequestUseCase,
   ListRequestUseCase,
   ISentRequestUseCase,
   SentRequestUseCase,
   IFailedRequestUseCase,
   FailedRequestUseCase,
+  ICancelRequestUseCase,
+  CancelRequestUseCase,
+  IRescheduleRequestUseCase,
+  RescheduleRequestUseCase,
+  IEditRequestMessageUseCase,
+  EditRequestMessageUseCase,
+  IRetractRequestMessageUseCase,
+  RetractRequestMessageUseCase,
+  IRecordRequestInteractionUseCase,
+  RecordRequestInteractionUseCase,
 } from './application/use-cases';
 
 // import { IRequestRepository } from './application/ports';
@@ -46,15 +67,22 @@ import {
   WorkspaceReaderRepository,
   TemplateReaderRepository,
   ChannelReaderRepository,
+  RequestMessageIndexRepository,
+  RequestAttachmentStoreRepository,
 } from './infrastructure/repositories';
 
 import {
   RequestQueueService,
+  RequestSlackMessageAdapter,
+  RequestRecipientResolverService,
+  RequestAttachmentUploaderService,
+  RequestSlackRateLimiterService,
   SendRequestWorkerService,
 } from './infrastructure/services';
 import { RequestProcessor } from './infrastructure/processors';
 import { RequestTemplateAdapter } from './infrastructure/services/request-template.adapter';
 import { TemplateRendererService } from 'src/shared/infrastructure';
+import { AjvSchemaValidationService } from 'src/shared/infrastructure/validation';
 // Tokens for injection - imported directly from port files
 import {
   REQUEST_READER_TOKEN,
@@ -63,6 +91,10 @@ import {
   TEMPLATE_REFERENCE_READER_TOKEN,
   CHANNEL_REFERENCE_READER_TOKEN,
   REQUEST_QUERY_TOKEN,
+  REQUEST_MESSAGE_PORT,
+  REQUEST_MESSAGE_INDEX_TOKEN,
+  REQUEST_ATTACHMENT_STORE_TOKEN,
+  REQUEST_SEND_JOBS_TOKEN,
 } from './application/ports';
 @Module({
   imports: [
@@ -129,6 +161,7 @@ import {
     RequestAuthorizationService,
     RequestAuthorizationAdapter,
     RequestForeignKeyValidatorService,
+    AjvSchemaValidationService, // Request data against template schemas
 
     // Application Port (Service implements interface directly)
     {
@@ -138,11 +171,39 @@ import {
 
     // Queue and processing services
     RequestQueueService,
+    {
+      provide: REQUEST_SEND_JOBS_TOKEN,
+      useExisting: RequestQueueService,
+    },
     RequestProcessor,
     TemplateRendererService, // Shared template rendering service
     RequestTemplateAdapter, // Context-specific adapter
+    RequestRecipientResolverService,
+    {
+      provide: REQUEST_ATTACHMENT_STORE_TOKEN,
+      useClass: RequestAttachmentStoreRepository,
+    },
+    RequestAttachmentUploaderService,
+    RequestSlackRateLimiterService,
     SendRequestWorkerService,
 
+    // Edits and retractions of delivered Slack messages
+    {
+      provide: REQUEST_MESSAGE_PORT,
+      useClass: RequestSlackMessageAdapter,
+    },
+
+    // Slack interactivity: message index, handlers and entry service
+    {
+      provide: REQUEST_MESSAGE_INDEX_TOKEN,
+      useClass: RequestMessageIndexRepository,
+    },
+    ApprovalInteractionHandler,
+    AcknowledgeInteractionHandler,
+    OpenUrlAuditInteractionHandler,
+    RequestInteractionHandlerRegistry,
+    RequestInteractionService,
+
     // Idempotency service configuration
     {
       provide: 'IDEMPOTENCY_CONFIG',
@@ -167,10 +228,18 @@ import {
       provide: ICreateRequestUseCase,
       useClass: CreateRequestUseCase,
     },
+    {
+      provide: IBulkCreateRequestUseCase,
+      useClass: BulkCreateRequestUseCase,
+    },
     {
       provide: IGetRequestUseCase,
       useClass: GetRequestUseCase,
     },
+    {
+      provide: IGetRequestBatchUseCase,
+      useClass: GetRequestBatchUseCase,
+    },
     {
       provide: IListRequestUseCase,
       useClass: ListRequestUseCase,
@@ -183,6 +252,26 @@ import {
       provide: IFailedRequestUseCase,
       useClass: FailedRequestUseCase,
     },
+    {
+      provide: ICancelRequestUseCase,
+      useClass: CancelRequestUseCase,
+    },
+    {
+      provide: IRescheduleRequestUseCase,
+      useClass: RescheduleRequestUseCase,
+    },
+    {
+      provide: IEditRequestMessageUseCase,
+      useClass: EditRequestMessageUseCase,
+    },
+    {
+      provide: IRetractRequestMessageUseCase,
+      useClass: RetractRequestMessageUseCase,
+    },
+    {
+      provide: IRecordRequestInteractionUseCase,
+      useClass: RecordRequestInteractionUseCase,
+    },
   ],
   exports: [
     // Repository tokens for external module consumption
@@ -197,6 +286,10 @@ import {
     RequestQueueService,
     // Idempotency service for projector access
     'RequestIdempotencyService',
+    // Slack interactivity, for the interaction endpoint and handlers
+    // registered by other modules
+    RequestInteractionService,
+    RequestInteractionHandlerRegistry,
   ],
 })
 export class RequestModule {}
@@ -28,7 +28,7 @@ export function ApiTemplateContentBlocks(options: PropOptions = {}) {
 
   return applyDecorators(
     ApiProperty({
-      description: `Slack Block Kit JSON structure defining the visual layout and interactive elements of the message. Supports rich formatting, buttons, and dynamic content replacement.`,
+      description: `Slack Block Kit JSON structure defining the visual layout and interactive elements of the message. Supports rich formatting, buttons, and dynamic content: {{path}} values with filters ({{amount | currency: "EUR"}}, date, number, truncate, escape_mrkdwn, default), {{#if}}/{{#unless}}/{{else}} conditionals, and {{#each list}} loops. A block written as {"{{#each list}}": [blocks]} is repeated per item.`,
       example: [
         '{"type":"section',
         'text":{"type":"mrkdwn',
@@ -46,6 +46,21 @@ export interface ITemplateQuery {
     options?: RepositoryOptions,
   ): Promise<Result<Option<DetailTemplateResponse>, DomainError>>;
 
+  /**
+   * Find the content of a published Template version
+   * @param actor - The actor context containing authentication and request metadata
+   * @param code - The unique identifier of the Template
+   * @param version - The published version number
+   * @param options - Optional repository options
+   * @returns A promise resolving to a Result containing the version or none if it does not exist
+   */
+  findVersionById(
+    actor: ActorContext,
+    code: string,
+    version: number,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<DetailTemplateResponse>, DomainError>>;
+
   /**
    * Find Template records with pagination and filtering.
    * @param actor - The actor context containing authentication and request metadata.
@@ -231,6 +231,91 @@ export class TemplateQueryRepository implements ITemplateQuery {
     }
   }
 
+  /**
+   * Find the content of a published template version
+   *
+   * Version hashes are written once by the TemplateProjector on publish
+   * and share the template hash layout.
+   *
+   * @param actor - The actor context containing authentication and request metadata.
+   * @param code - The template code to search for.
+   * @param version - The published version number.
+   * @param options - Optional repository options (e.g., timeout, correlation).
+   * @returns A promise resolving to a Result containing the version content or a DomainError.
+   */
+  async findVersionById(
+    actor: ActorContext,
+    code: string,
+    version: number,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<DetailTemplateResponse>, DomainError>> {
+    const operation = 'findVersionById';
+    const correlationId =
+      options?.correlationId ??
+      CorrelationUtil.generateForOperation('template-query-findVersionById');
+
+    const logContext = this.createLogContext(operation, correlationId, actor, {
+      templateCode: code,
+      templateVersion: version,
+      dataSource: 'redis-projector',
+    });
+
+    const validation = RepositoryLoggingUtil.validateActorContext(
+      this.logger,
+      actor,
+      logContext,
+    );
+    if (!validation.ok) return err(validation.error);
+
+    if (!actor.tenant) {
+      return err(
+        RepositoryErrorFactory.validationError('tenant', 'Missing tenant id'),
+      );
+    }
+
+    try {
+      const hashData = await this.redis.hgetall(
+        TemplateProjectionKeys.getRedisTemplateVersionKey(
+          actor.tenant,
+          code,
+          version,
+        ),
+      );
+
+      const template = this.parseRedisHashToTemplate(hashData);
+      if (!template) {
+        Log.debug(
+          this.logger,
+          'Template version not found in Redis',
+          logContext,
+        );
+        return ok(Option.none());
+      }
+
+      return ok(
+        Option.some({
+          code: template.code,
+          workspaceCode: template.workspaceCode,
+          name: template.name,
+          description: template.description,
+          contentBlocks: template.contentBlocks,
+          variables: template.variables,
+          samplePayload: template.samplePayload,
+          enabled: template.enabled,
+        }),
+      );
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'MEDIUM',
+      );
+      return handleRepositoryError(error);
+    }
+  }
+
   /**
    * Generate cluster-safe Redis keys using centralized TemplateProjectionKeys
    * Ensures consistency with projector key patterns
@@ -104,6 +104,18 @@ export class TemplateProjectionKeys {
     return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:template:${templateId}`;
   }
 
+  /**
+   * Get Redis key for a published template version
+   * Format: notification.slack:v1:{tenant}:template-version:{templateId}:{version}
+   */
+  static getRedisTemplateVersionKey(
+    tenant: string,
+    templateId: string,
+    version: number,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:template-version:${templateId}:${version}`;
+  }
+
   /**
    * Get Redis key for template index with cluster-safe hash tags
    * Format: notification.slack:v1:{tenant}:idx:template:list
@@ -82,6 +82,27 @@ export const AuthErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'AUTH.CANNOT_DELETE_AUTH_WITH_DEPENDENCIES', AuthContext>,
+  CERT_EXPIRED: {
+    code: 'AUTH.CERT_EXPIRED',
+    title: 'Certificate Expired',
+    detail: 'Client certificate has expired.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'AUTH.CERT_EXPIRED', AuthContext>,
+  CERT_KEY_MISMATCH: {
+    code: 'AUTH.CERT_KEY_MISMATCH',
+    title: 'Certificate Key Mismatch',
+    detail: 'Private key does not match the client certificate.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'AUTH.CERT_KEY_MISMATCH', AuthContext>,
+  CERT_NOT_YET_VALID: {
+    code: 'AUTH.CERT_NOT_YET_VALID',
+    title: 'Certificate Not Yet Valid',
+    detail: 'Client certificate is not valid yet.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'AUTH.CERT_NOT_YET_VALID', AuthContext>,
   CONCURRENCY_CONFLICT: {
     code: 'AUTH.CONCURRENCY_CONFLICT',
     title: 'Concurrency Conflict',
@@ -174,6 +195,13 @@ export const AuthErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'AUTH.INVALID_CA_DATA', AuthContext>,
+  INVALID_CA_FORMAT: {
+    code: 'AUTH.INVALID_CA_FORMAT',
+    title: 'Invalid Format',
+    detail: 'Ca must contain one or more PEM encoded certificates.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'AUTH.INVALID_CA_FORMAT', AuthContext>,
   INVALID_CERT: {
     code: 'AUTH.INVALID_CERT',
     title: 'Value Required',
@@ -188,6 +216,13 @@ export const AuthErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'AUTH.INVALID_CERT_DATA', AuthContext>,
+  INVALID_CERT_FORMAT: {
+    code: 'AUTH.INVALID_CERT_FORMAT',
+    title: 'Invalid Format',
+    detail: 'Cert must be a PEM encoded X.509 certificate.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'AUTH.INVALID_CERT_FORMAT', AuthContext>,
   INVALID_CLIENT_ID: {
     code: 'AUTH.INVALID_CLIENT_ID',
     title: 'Value Required',
@@ -237,6 +272,13 @@ export const AuthErrors = {
     category: 'validation',
     retryable: false,
   } as DomainError<'AUTH.INVALID_KEY_DATA', AuthContext>,
+  INVALID_KEY_FORMAT: {
+    code: 'AUTH.INVALID_KEY_FORMAT',
+    title: 'Invalid Format',
+    detail: 'Key must be a PEM encoded private key.',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'AUTH.INVALID_KEY_FORMAT', AuthContext>,
   INVALID_PASSWORD: {
     code: 'AUTH.INVALID_PASSWORD',
     title: 'Value Required',
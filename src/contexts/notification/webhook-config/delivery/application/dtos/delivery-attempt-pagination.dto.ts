@@ -0,0 +1,176 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsISO8601, IsOptional, IsString } from 'class-validator';
+import {
+  BaseSortableListFilterRequest,
+  SortFieldConfig,
+  PaginationMetaResponse,
+} from 'src/shared/application/dtos';
+import { ApiListOf } from 'src/shared/application/decorators';
+import type {
+  DeliveryAttemptOutcomeValue,
+  DeliveryErrorClassValue,
+} from '../../domain/types';
+import { DeliveryAttemptResponse } from './delivery-history.response';
+
+/**
+ * Delivery attempt list request
+ *
+ * Attempts are returned most recent first unless sortBy says otherwise.
+ *
+ * Available sort fields:
+ * - attemptedAt: When the attempt was made (default: desc)
+ * - attempt: Attempt number (default: asc)
+ * - statusCode: HTTP status returned (default: asc)
+ * - durationMs: Attempt latency (default: desc)
+ */
+export class ListDeliveryAttemptFilterRequest extends BaseSortableListFilterRequest {
+  @ApiPropertyOptional({ description: 'Only attempts for this webhook' })
+  @IsOptional()
+  @IsString()
+  webhookId?: string;
+
+  @ApiPropertyOptional({ description: 'Only attempts of this delivery' })
+  @IsOptional()
+  @IsString()
+  deliveryId?: string;
+
+  @ApiPropertyOptional({ description: 'Only deliveries of this event type' })
+  @IsOptional()
+  @IsString()
+  eventType?: string;
+
+  @ApiPropertyOptional({
+    enum: ['succeeded', 'retryable_failure', 'permanent_failure'],
+  })
+  @IsOptional()
+  @IsIn(['succeeded', 'retryable_failure', 'permanent_failure'])
+  outcome?: DeliveryAttemptOutcomeValue;
+
+  @ApiPropertyOptional({
+    enum: [
+      'connect_timeout',
+      'request_timeout',
+      'network',
+      'http_status',
+      'auth',
+      'configuration',
+    ],
+  })
+  @IsOptional()
+  @IsIn([
+    'connect_timeout',
+    'request_timeout',
+    'network',
+    'http_status',
+    'auth',
+    'configuration',
+  ])
+  errorClass?: DeliveryErrorClassValue;
+
+  @ApiPropertyOptional({
+    description: 'Only attempts that returned this HTTP status',
+    example: 503,
+  })
+  @IsOptional()
+  statusCode?: number;
+
+  @ApiPropertyOptional({
+    description: 'Attempts made at or after this time (ISO 8601)',
+  })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Attempts made at or before this time (ISO 8601)',
+  })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  /**
+   * Override sortBy with attempt-specific schema for better Swagger documentation
+   */
+  @ApiPropertyOptional({
+    type: 'object',
+    description: 'Sort criteria with field names and directions',
+    example: { attemptedAt: 'desc' },
+    default: { attemptedAt: 'desc' },
+    properties: {
+      attemptedAt: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort by attempt time',
+        default: 'desc',
+      },
+      attempt: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort by attempt number',
+        default: 'asc',
+      },
+      statusCode: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort by HTTP status',
+        default: 'asc',
+      },
+      durationMs: {
+        type: 'string',
+        enum: ['asc', 'desc'],
+        description: 'Sort by latency',
+        default: 'desc',
+      },
+    },
+    additionalProperties: false,
+  })
+  sortBy?: Record<string, 'asc' | 'desc'> = undefined;
+
+  getSortFieldConfig(): SortFieldConfig {
+    return {
+      attemptedAt: {
+        description: 'When the attempt was made',
+        sortable: true,
+        defaultDirection: 'desc' as const,
+      },
+      attempt: {
+        description: 'Attempt number',
+        sortable: true,
+        defaultDirection: 'asc' as const,
+      },
+      statusCode: {
+        description: 'HTTP status returned',
+        sortable: true,
+        defaultDirection: 'asc' as const,
+      },
+      durationMs: {
+        description: 'Attempt latency',
+        sortable: true,
+        defaultDirection: 'desc' as const,
+      },
+    };
+  }
+}
+
+/**
+ * Page of delivery attempts
+ */
+export class DeliveryAttemptPageResponse {
+  @ApiListOf(DeliveryAttemptResponse)
+  readonly data: DeliveryAttemptResponse[];
+
+  @ApiProperty({ type: () => PaginationMetaResponse })
+  readonly meta: PaginationMetaResponse;
+
+  constructor(data: DeliveryAttemptResponse[], meta: PaginationMetaResponse) {
+    this.data = data;
+    this.meta = meta;
+  }
+
+  static create(
+    data: DeliveryAttemptResponse[],
+    meta: PaginationMetaResponse,
+  ): DeliveryAttemptPageResponse {
+    return new DeliveryAttemptPageResponse(data, meta);
+  }
+}
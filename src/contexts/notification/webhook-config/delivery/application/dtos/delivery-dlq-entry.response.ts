@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Dead-lettered webhook delivery
+ */
+export class DeliveryDlqEntryResponse {
+  @ApiProperty({ description: 'Id of the failed delivery' })
+  deliveryId: string;
+
+  @ApiProperty({ description: 'Webhook the delivery targeted' })
+  webhookId: string;
+
+  @ApiProperty({ description: 'Event type of the delivery' })
+  eventType: string;
+
+  @ApiProperty({
+    description: 'Webhook payload that will be re-sent on replay',
+    type: 'object',
+    additionalProperties: true,
+  })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Correlation id of the original delivery' })
+  correlationId: string;
+
+  @ApiProperty({ description: 'Number of attempts made', example: 3 })
+  attempts: number;
+
+  @ApiProperty({
+    description: 'Why the delivery was abandoned',
+    example: 'max_attempts_exceeded',
+  })
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Error of the last attempt',
+    example: 'HTTP 503',
+  })
+  lastError?: string;
+
+  @ApiPropertyOptional({
+    description: 'HTTP status of the last attempt',
+    example: 503,
+  })
+  lastStatusCode?: number;
+
+  @ApiPropertyOptional({
+    description: 'Response body of the last attempt, truncated to 4 KB',
+  })
+  lastResponseBody?: string;
+
+  @ApiProperty({ description: 'When the delivery was abandoned' })
+  failedAt: string;
+
+  @ApiProperty({
+    description: 'When the entry is removed, based on ConfigDlqMaxAgeSeconds',
+  })
+  expiresAt: string;
+}
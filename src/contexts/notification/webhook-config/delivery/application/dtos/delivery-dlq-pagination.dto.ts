@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  BaseListFilterRequest,
+  PaginationMetaResponse,
+} from 'src/shared/application/dtos';
+import { ApiListOf } from 'src/shared/application/decorators';
+import { DeliveryDlqEntryResponse } from './delivery-dlq-entry.response';
+
+/**
+ * Dead-letter queue list request; entries are returned most recent first
+ */
+export class ListDeliveryDlqRequest extends BaseListFilterRequest {}
+
+/**
+ * Page of dead-lettered deliveries
+ */
+export class DeliveryDlqPageResponse {
+  @ApiListOf(DeliveryDlqEntryResponse)
+  readonly data: DeliveryDlqEntryResponse[];
+
+  @ApiProperty({ type: () => PaginationMetaResponse })
+  readonly meta: PaginationMetaResponse;
+}
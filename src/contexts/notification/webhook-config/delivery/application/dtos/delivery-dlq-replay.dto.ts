@@ -0,0 +1,68 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsOptional, IsString } from 'class-validator';
+
+/** Maximum dead letters replayed by a single bulk request */
+export const DLQ_BULK_REPLAY_LIMIT = 100;
+
+/**
+ * Bulk replay request; replays the most recent entries when no ids are given
+ */
+export class BulkReplayDeliveryDlqRequest {
+  @ApiPropertyOptional({
+    description: `Dead-lettered delivery ids to replay. When omitted, the ${DLQ_BULK_REPLAY_LIMIT} most recent entries are replayed.`,
+    type: [String],
+    maxItems: DLQ_BULK_REPLAY_LIMIT,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(DLQ_BULK_REPLAY_LIMIT)
+  @IsString({ each: true })
+  deliveryIds?: string[];
+}
+
+/**
+ * Outcome of replaying a single dead letter
+ */
+export class ReplayDeliveryDlqResponse {
+  @ApiProperty({ description: 'Id of the dead-lettered delivery' })
+  deliveryId: string;
+
+  @ApiProperty({ description: 'Id of the new delivery sending the payload' })
+  replayDeliveryId: string;
+}
+
+/**
+ * Dead letter that could not be replayed
+ */
+export class DeliveryDlqReplayFailure {
+  @ApiProperty({ description: 'Id of the dead-lettered delivery' })
+  deliveryId: string;
+
+  @ApiProperty({
+    description: 'Error code',
+    example: 'DELIVERY.DLQ_ENTRY_NOT_FOUND',
+  })
+  code: string;
+
+  @ApiPropertyOptional({ description: 'Error detail' })
+  detail?: string;
+}
+
+/**
+ * Outcome of a bulk replay
+ */
+export class BulkReplayDeliveryDlqResponse {
+  @ApiProperty({ type: [ReplayDeliveryDlqResponse] })
+  replayed: ReplayDeliveryDlqResponse[];
+
+  @ApiProperty({ type: [DeliveryDlqReplayFailure] })
+  failed: DeliveryDlqReplayFailure[];
+}
+
+/**
+ * Outcome of a purge
+ */
+export class PurgeDeliveryDlqResponse {
+  @ApiProperty({ description: 'Number of entries removed', example: 12 })
+  purged: number;
+}
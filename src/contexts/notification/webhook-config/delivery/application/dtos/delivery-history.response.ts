@@ -0,0 +1,116 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type {
+  DeliveryAttemptOutcomeValue,
+  DeliveryErrorClassValue,
+  DeliveryStatusValue,
+} from '../../domain/types';
+
+/**
+ * A single attempt to deliver a webhook
+ */
+export class DeliveryAttemptResponse {
+  @ApiProperty({ description: 'Delivery the attempt belongs to' })
+  deliveryId: string;
+
+  @ApiProperty({ description: 'Webhook the delivery targeted' })
+  webhookId: string;
+
+  @ApiProperty({ description: 'Event type of the delivery' })
+  eventType: string;
+
+  @ApiProperty({ description: 'Attempt number, starting at 1', example: 1 })
+  attempt: number;
+
+  @ApiProperty({
+    enum: ['succeeded', 'retryable_failure', 'permanent_failure'],
+    example: 'retryable_failure',
+  })
+  outcome: DeliveryAttemptOutcomeValue;
+
+  @ApiPropertyOptional({
+    description: 'HTTP status returned by the target',
+    example: 503,
+  })
+  statusCode?: number;
+
+  @ApiProperty({ description: 'Attempt latency in milliseconds', example: 412 })
+  durationMs: number;
+
+  @ApiPropertyOptional({
+    enum: [
+      'connect_timeout',
+      'request_timeout',
+      'network',
+      'http_status',
+      'auth',
+      'configuration',
+    ],
+    description: 'Classification of the failure',
+  })
+  errorClass?: DeliveryErrorClassValue;
+
+  @ApiPropertyOptional({ example: 'HTTP 503' })
+  error?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the next attempt is scheduled, if one is',
+  })
+  nextRetryAt?: string;
+
+  @ApiProperty({ description: 'When the attempt was made' })
+  attemptedAt: string;
+}
+
+/**
+ * A delivery with every attempt made for it
+ */
+export class DetailDeliveryHistoryResponse {
+  @ApiProperty()
+  deliveryId: string;
+
+  @ApiProperty()
+  webhookId: string;
+
+  @ApiProperty()
+  eventType: string;
+
+  @ApiProperty({
+    enum: ['pending', 'retrying', 'succeeded', 'failed'],
+    example: 'succeeded',
+  })
+  status: DeliveryStatusValue;
+
+  @ApiPropertyOptional({
+    description: 'Dead-lettered delivery this one replays',
+  })
+  replayOf?: string;
+
+  @ApiProperty({
+    description: 'Deliveries that replayed this one',
+    type: [String],
+  })
+  replayedBy: string[];
+
+  @ApiPropertyOptional({
+    description: 'Why the delivery failed',
+    example: 'max_attempts_exceeded',
+  })
+  reason?: string;
+
+  @ApiPropertyOptional({ description: 'Error of the last attempt' })
+  lastError?: string;
+
+  @ApiProperty()
+  requestedAt: string;
+
+  @ApiPropertyOptional({
+    description: 'When the delivery succeeded or failed',
+  })
+  completedAt?: string;
+
+  @ApiProperty({
+    type: [DeliveryAttemptResponse],
+    description: 'Attempts in order',
+  })
+  attempts: DeliveryAttemptResponse[];
+}
@@ -0,0 +1,6 @@
+export * from './delivery-dlq-entry.response';
+export * from './delivery-dlq-replay.dto';
+export * from './delivery-dlq-pagination.dto';
+export * from './webhook-test.dto';
+export * from './delivery-history.response';
+export * from './delivery-attempt-pagination.dto';
@@ -0,0 +1,147 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/** Event type sent when the request does not name one */
+export const WEBHOOK_TEST_EVENT_TYPE = 'webhook.test';
+
+/**
+ * Test-fire request; every field is optional
+ */
+export class TestWebhookRequest {
+  @ApiPropertyOptional({
+    description: 'Event type to send',
+    default: WEBHOOK_TEST_EVENT_TYPE,
+    maxLength: 128,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  eventType?: string;
+
+  @ApiPropertyOptional({
+    description: 'JSON payload to send; a synthetic ping payload by default',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsOptional()
+  @IsObject()
+  payload?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description:
+      'Record the test as a delivery, with its attempt and outcome events',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  recordDelivery?: boolean;
+}
+
+/**
+ * Request as it was sent, with secrets redacted
+ */
+export class WebhookTestRequestTranscript {
+  @ApiProperty({ example: 'POST' })
+  method: string;
+
+  @ApiProperty({ description: 'Target URL; credentials and API keys redacted' })
+  url: string;
+
+  @ApiProperty({
+    description: 'Request headers; auth headers redacted',
+    type: 'object',
+    additionalProperties: { type: 'string' },
+  })
+  headers: Record<string, unknown>;
+
+  @ApiPropertyOptional({ description: 'Request body' })
+  body?: string;
+
+  @ApiProperty({ description: 'Connect timeout applied, in milliseconds' })
+  connectTimeoutMs: number;
+
+  @ApiProperty({ description: 'Request timeout applied, in milliseconds' })
+  requestTimeoutMs: number;
+}
+
+/**
+ * Response received from the target
+ */
+export class WebhookTestResponseTranscript {
+  @ApiProperty({ example: 200 })
+  statusCode: number;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: true,
+  })
+  headers: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Start of the response body' })
+  bodyExcerpt: string;
+}
+
+/**
+ * Time spent in each phase of the exchange, in milliseconds
+ */
+export class WebhookTestTimings {
+  @ApiPropertyOptional({ description: 'DNS lookup' })
+  dnsMs?: number;
+
+  @ApiPropertyOptional({ description: 'TCP connect' })
+  connectMs?: number;
+
+  @ApiPropertyOptional({ description: 'TLS handshake' })
+  tlsMs?: number;
+
+  @ApiPropertyOptional({ description: 'Wait for the first response byte' })
+  firstByteMs?: number;
+
+  @ApiPropertyOptional({ description: 'Response body download' })
+  downloadMs?: number;
+
+  @ApiProperty({ description: 'Whole exchange' })
+  totalMs: number;
+}
+
+/**
+ * Transport failure that prevented a response
+ */
+export class WebhookTestError {
+  @ApiProperty({ example: 'connect_timeout' })
+  errorClass: string;
+
+  @ApiProperty()
+  message: string;
+}
+
+/**
+ * Full transcript of a test-fire
+ */
+export class TestWebhookResponse {
+  @ApiProperty({ description: 'True when the target answered with a 2xx' })
+  success: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Delivery id, present when the test was recorded',
+  })
+  deliveryId?: string;
+
+  @ApiProperty({ type: WebhookTestRequestTranscript })
+  request: WebhookTestRequestTranscript;
+
+  @ApiPropertyOptional({ type: WebhookTestResponseTranscript })
+  response?: WebhookTestResponseTranscript;
+
+  @ApiPropertyOptional({ type: WebhookTestError })
+  error?: WebhookTestError;
+
+  @ApiProperty({ type: WebhookTestTimings })
+  timings: WebhookTestTimings;
+}
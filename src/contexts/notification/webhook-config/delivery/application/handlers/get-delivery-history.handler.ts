@@ -0,0 +1,29 @@
+import { QueryHandler, IQueryHandler } from '@nestjs/cqrs';
+import { Injectable } from '@nestjs/common';
+import { DomainError, Result } from 'src/shared/errors';
+import { GetDeliveryHistoryQuery } from '../queries';
+import { GetDeliveryHistoryUseCase } from '../use-cases';
+import { DetailDeliveryHistoryResponse } from '../dtos';
+
+/**
+ * Gets a delivery's history by delegating to GetDeliveryHistoryUseCase
+ */
+@Injectable()
+@QueryHandler(GetDeliveryHistoryQuery)
+export class GetDeliveryHistoryHandler
+  implements IQueryHandler<GetDeliveryHistoryQuery>
+{
+  constructor(
+    private readonly getDeliveryHistoryUseCase: GetDeliveryHistoryUseCase,
+  ) {}
+
+  async execute(
+    query: GetDeliveryHistoryQuery,
+  ): Promise<Result<DetailDeliveryHistoryResponse, DomainError>> {
+    return await this.getDeliveryHistoryUseCase.execute({
+      user: query.user,
+      deliveryId: query.deliveryId,
+      correlationId: query.correlationId || 'query-handler',
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export * from './get-delivery-history.handler';
+export * from './list-delivery-attempts.handler';
@@ -0,0 +1,29 @@
+import { QueryHandler, IQueryHandler } from '@nestjs/cqrs';
+import { Injectable } from '@nestjs/common';
+import { DomainError, Result } from 'src/shared/errors';
+import { ListDeliveryAttemptsQuery } from '../queries';
+import { ListDeliveryAttemptsUseCase } from '../use-cases';
+import { DeliveryAttemptPageResponse } from '../dtos';
+
+/**
+ * Lists delivery attempts by delegating to ListDeliveryAttemptsUseCase
+ */
+@Injectable()
+@QueryHandler(ListDeliveryAttemptsQuery)
+export class ListDeliveryAttemptsHandler
+  implements IQueryHandler<ListDeliveryAttemptsQuery>
+{
+  constructor(
+    private readonly listDeliveryAttemptsUseCase: ListDeliveryAttemptsUseCase,
+  ) {}
+
+  async execute(
+    query: ListDeliveryAttemptsQuery,
+  ): Promise<Result<DeliveryAttemptPageResponse, DomainError>> {
+    return await this.listDeliveryAttemptsUseCase.execute({
+      user: query.user,
+      filter: query.filter,
+      correlationId: query.correlationId || 'unknown',
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+
+/**
+ * Token for injecting IDeliveryDlqStore port implementation
+ */
+export const DELIVERY_DLQ_STORE_TOKEN = 'IDeliveryDlqStore' as const;
+
+/**
+ * A delivery that exhausted its attempts, kept for inspection and replay
+ *
+ * Unlike the delivery stream, dead letters keep the webhook payload so the
+ * delivery can be sent again.
+ */
+export interface DeliveryDlqEntry {
+  deliveryId: string;
+  tenant: string;
+  webhookId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  correlationId: string;
+  /** Fifo lane the delivery was ordered in, so a replay rejoins it */
+  partitionKey?: string;
+  attempts: number;
+  reason: string;
+  lastError?: string;
+  lastStatusCode?: number;
+  /** Response body of the last attempt, truncated */
+  lastResponseBody?: string;
+  failedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Delivery Dead-Letter Queue Store Port
+ *
+ * Per-webhook storage of dead-lettered deliveries. Entries expire on their
+ * own at `expiresAt`.
+ *
+ * @domain Notification Context - Delivery DLQ Store Port
+ * @layer Application Ports
+ */
+export interface IDeliveryDlqStore {
+  /**
+   * Store a dead letter until its expiresAt
+   */
+  save(entry: DeliveryDlqEntry): Promise<Result<void, DomainError>>;
+
+  /**
+   * Find a single dead letter of a webhook
+   */
+  findById(
+    tenant: string,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<Option<DeliveryDlqEntry>, DomainError>>;
+
+  /**
+   * List dead letters of a webhook by failure time, most recent first unless
+   * `order` is 'oldest'
+   */
+  list(
+    tenant: string,
+    webhookId: string,
+    options: { offset: number; limit: number; order?: 'newest' | 'oldest' },
+  ): Promise<
+    Result<{ entries: DeliveryDlqEntry[]; total: number }, DomainError>
+  >;
+
+  /**
+   * Remove a single dead letter; resolves to false when it did not exist
+   */
+  remove(
+    tenant: string,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<boolean, DomainError>>;
+
+  /**
+   * Remove every dead letter of a webhook; resolves to the number removed
+   */
+  purge(
+    tenant: string,
+    webhookId: string,
+  ): Promise<Result<number, DomainError>>;
+}
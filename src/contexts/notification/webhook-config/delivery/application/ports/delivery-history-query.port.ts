@@ -0,0 +1,40 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { RepositoryOptions } from 'src/shared/infrastructure/repositories';
+import { ActorContext } from 'src/shared/application/context';
+import { Option } from 'src/shared/domain/types';
+import {
+  DetailDeliveryHistoryResponse,
+  DeliveryAttemptPageResponse,
+  ListDeliveryAttemptFilterRequest,
+} from '../dtos';
+
+/**
+ * Token for injecting IDeliveryHistoryQuery port implementation
+ */
+export const DELIVERY_HISTORY_QUERY_TOKEN = 'IDeliveryHistoryQuery' as const;
+
+/**
+ * Delivery History Query Port
+ *
+ * Reads the delivery history projection: one record per delivery and one
+ * per attempt, kept for DeliveryProjectionKeys.HISTORY_RETENTION_SECONDS.
+ */
+export interface IDeliveryHistoryQuery {
+  /**
+   * Find a delivery with all of its attempts
+   */
+  findById(
+    actor: ActorContext,
+    deliveryId: string,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<DetailDeliveryHistoryResponse>, DomainError>>;
+
+  /**
+   * Find attempts across the tenant's deliveries with pagination and filtering
+   */
+  findAttemptsPaginated(
+    actor: ActorContext,
+    filter?: ListDeliveryAttemptFilterRequest,
+    options?: RepositoryOptions,
+  ): Promise<Result<DeliveryAttemptPageResponse, DomainError>>;
+}
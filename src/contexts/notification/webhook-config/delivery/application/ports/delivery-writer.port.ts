@@ -0,0 +1,31 @@
+import { Result, DomainError } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import { SaveReceipt } from 'src/shared/infrastructure/repositories';
+import { DeliveryAggregate } from '../../domain/aggregates';
+
+/**
+ * Token for injecting IDeliveryWriter port implementation
+ */
+export const DELIVERY_WRITER_TOKEN = 'IDeliveryWriter' as const;
+
+/**
+ * Delivery Writer Port
+ *
+ * Appends delivery lifecycle events (requested, attempted, succeeded,
+ * failed) to the delivery stream.
+ *
+ * @domain Notification Context - Delivery Writer Port
+ * @layer Application Ports
+ */
+export interface IDeliveryWriter {
+  /**
+   * Persist uncommitted events of a Delivery aggregate
+   * @param actor - The authenticated user context
+   * @param delivery - The Delivery aggregate to save
+   * @returns Result indicating success or domain error
+   */
+  save(
+    actor: ActorContext,
+    delivery: DeliveryAggregate,
+  ): Promise<Result<SaveReceipt, DomainError>>;
+}
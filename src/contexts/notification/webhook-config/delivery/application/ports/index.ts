@@ -0,0 +1,3 @@
+export * from './delivery-writer.port';
+export * from './delivery-dlq-store.port';
+export * from './delivery-history-query.port';
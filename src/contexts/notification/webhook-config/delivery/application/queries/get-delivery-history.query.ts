@@ -0,0 +1,9 @@
+import { IUserToken } from 'src/shared/security';
+
+export class GetDeliveryHistoryQuery {
+  constructor(
+    public readonly user: IUserToken,
+    public readonly deliveryId: string,
+    public readonly correlationId?: string,
+  ) {}
+}
@@ -0,0 +1,2 @@
+export * from './get-delivery-history.query';
+export * from './list-delivery-attempts.query';
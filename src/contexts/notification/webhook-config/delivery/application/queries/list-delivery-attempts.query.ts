@@ -0,0 +1,10 @@
+import { IUserToken } from 'src/shared/security';
+import { ListDeliveryAttemptFilterRequest } from '../dtos';
+
+export class ListDeliveryAttemptsQuery {
+  constructor(
+    public readonly user: IUserToken,
+    public readonly filter = new ListDeliveryAttemptFilterRequest(),
+    public readonly correlationId?: string,
+  ) {}
+}
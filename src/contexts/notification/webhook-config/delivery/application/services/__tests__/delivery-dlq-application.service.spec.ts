@@ -0,0 +1,147 @@
+import { MetadataFactory } from 'src/shared/application/factories/metadata.factory';
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import type { IUserToken } from 'src/shared/security';
+import {
+  DeliveryDlqEntry,
+  IDeliveryDlqStore,
+  IDeliveryWriter,
+} from '../../ports';
+import { DeliveryQueueService } from '../../../infrastructure/services/delivery-queue.service';
+import { DeliveryDlqApplicationService } from '../delivery-dlq-application.service';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+} as Clock;
+const user = {
+  sub: 'user-1',
+  tenant: 'tenant-a',
+  tenant_id: 'tenant-a-id',
+  email: 'ops@example.com',
+  name: 'Ops',
+  roles: [],
+} as IUserToken;
+
+const entry = (
+  overrides: Partial<DeliveryDlqEntry> = {},
+): DeliveryDlqEntry => ({
+  deliveryId: 'delivery-1',
+  tenant: 'tenant-a',
+  webhookId: 'orders-hook',
+  eventType: 'order.shipped',
+  payload: { orderId: 'A-1001' },
+  correlationId: 'corr-1',
+  attempts: 3,
+  reason: 'max_attempts_exceeded',
+  failedAt: '2026-03-01T10:00:00.000Z',
+  expiresAt: '2026-03-08T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('DeliveryDlqApplicationService', () => {
+  let findById: jest.Mock;
+  let remove: jest.Mock;
+  let saveEntry: jest.Mock;
+  let enqueueDelivery: jest.Mock;
+  let service: DeliveryDlqApplicationService;
+
+  beforeEach(() => {
+    findById = jest.fn().mockResolvedValue(ok(Option.some(entry())));
+    remove = jest.fn().mockResolvedValue(ok(true));
+    saveEntry = jest.fn().mockResolvedValue(ok(undefined));
+    enqueueDelivery = jest
+      .fn()
+      .mockResolvedValue(ok({ deliveryId: 'replay-1', jobId: 'replay-1-1' }));
+
+    service = new DeliveryDlqApplicationService(
+      createMockLogger(),
+      { findById, remove, save: saveEntry } as unknown as IDeliveryDlqStore,
+      {
+        save: jest.fn().mockResolvedValue(ok({})),
+      } as unknown as IDeliveryWriter,
+      clock,
+      new MetadataFactory('webhook-config', clock),
+      { enqueueDelivery } as unknown as DeliveryQueueService,
+    );
+  });
+
+  describe('replay', () => {
+    test('sends the original payload again', async () => {
+      const result = await service.replay(user, 'orders-hook', 'delivery-1');
+
+      expect(result.ok).toBe(true);
+      expect(enqueueDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({ tenant: 'tenant-a' }),
+        expect.objectContaining({
+          webhookId: 'orders-hook',
+          payload: { orderId: 'A-1001' },
+          replayOf: 'delivery-1',
+        }),
+      );
+      expect(remove).toHaveBeenCalledWith(
+        'tenant-a',
+        'orders-hook',
+        'delivery-1',
+      );
+    });
+
+    test('rejoins the fifo lane the delivery was ordered in', async () => {
+      findById.mockResolvedValue(
+        ok(Option.some(entry({ partitionKey: 'customer-42' }))),
+      );
+
+      await service.replay(user, 'orders-hook', 'delivery-1');
+
+      expect(enqueueDelivery).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ partitionKey: 'customer-42' }),
+      );
+    });
+
+    test('sends a delivery replayed twice at once only once', async () => {
+      let claimed = false;
+      remove.mockImplementation(() => {
+        const first = !claimed;
+        claimed = true;
+        return Promise.resolve(ok(first));
+      });
+
+      const results = await Promise.all([
+        service.replay(user, 'orders-hook', 'delivery-1'),
+        service.replay(user, 'orders-hook', 'delivery-1'),
+      ]);
+
+      expect(results.map((r) => r.ok)).toEqual([true, false]);
+      expect(!results[1].ok && results[1].error.code).toBe(
+        'DELIVERY.DLQ_ENTRY_NOT_FOUND',
+      );
+      expect(enqueueDelivery).toHaveBeenCalledTimes(1);
+    });
+
+    test('puts the dead letter back when the replay cannot be queued', async () => {
+      enqueueDelivery.mockResolvedValue({
+        ok: false,
+        error: { code: 'DELIVERY.ENQUEUE_FAILED', title: 'Enqueue failed' },
+      });
+
+      const result = await service.replay(user, 'orders-hook', 'delivery-1');
+
+      expect(result.ok).toBe(false);
+      expect(saveEntry).toHaveBeenCalledWith(entry());
+    });
+  });
+});
@@ -0,0 +1,355 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import type { IUserToken } from 'src/shared/security';
+import { ActorContext } from 'src/shared/application/context';
+import { MetadataFactory } from 'src/shared/application/factories/metadata.factory';
+import { Option } from 'src/shared/domain/types';
+import {
+  ListResponse,
+  makeListResponse,
+} from 'src/shared/domain/properties/pagination.model';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { DeliveryAggregate } from '../../domain/aggregates';
+import { DeliveryErrors } from '../../domain/errors';
+import {
+  DELIVERY_DLQ_STORE_TOKEN,
+  DELIVERY_WRITER_TOKEN,
+  DeliveryDlqEntry,
+  IDeliveryDlqStore,
+  IDeliveryWriter,
+} from '../ports';
+import {
+  BulkReplayDeliveryDlqRequest,
+  BulkReplayDeliveryDlqResponse,
+  DLQ_BULK_REPLAY_LIMIT,
+  DeliveryDlqEntryResponse,
+  PurgeDeliveryDlqResponse,
+  ReplayDeliveryDlqResponse,
+} from '../dtos';
+import { DeliveryQueueService } from '../../infrastructure/services/delivery-queue.service';
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Delivery DLQ Application Service
+ *
+ * Lists, inspects, replays and purges dead-lettered deliveries of a webhook
+ * within the caller's tenant.
+ *
+ * A replay is a new delivery through the normal queue, carrying the
+ * original payload and `replayOf`. The dead letter is claimed by removing
+ * it first, so concurrent replays of one delivery send it only once, and is
+ * put back when the replay cannot be queued. The replay is recorded as a
+ * DeliveryReplayed event on the original delivery stream before it is
+ * queued, so every replay is audited even if queueing it fails.
+ */
+@Injectable()
+export class DeliveryDlqApplicationService {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(DELIVERY_DLQ_STORE_TOKEN)
+    private readonly dlqStore: IDeliveryDlqStore,
+    @Inject(DELIVERY_WRITER_TOKEN)
+    private readonly deliveryWriter: IDeliveryWriter,
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly metadataFactory: MetadataFactory,
+    private readonly deliveryQueue: DeliveryQueueService,
+  ) {
+    this.logger = componentLogger(baseLogger, 'DeliveryDlqApplicationService');
+  }
+
+  async list(
+    user: IUserToken,
+    webhookId: string,
+    options: { page?: number; size?: number },
+  ): Promise<Result<ListResponse<DeliveryDlqEntryResponse>, DomainError>> {
+    const actor = this.metadataFactory.toActorContext(user);
+    const page = Math.max(1, options.page ?? 1);
+    const size = Math.min(MAX_PAGE_SIZE, Math.max(1, options.size ?? 20));
+
+    const result = await this.dlqStore.list(actor.tenant, webhookId, {
+      offset: (page - 1) * size,
+      limit: size,
+    });
+    if (!result.ok) return result;
+
+    return makeListResponse(
+      result.value.entries.map((entry) => this.toResponse(entry)),
+      result.value.total,
+      {
+        page,
+        size,
+        maxSize: MAX_PAGE_SIZE,
+      },
+    );
+  }
+
+  async get(
+    user: IUserToken,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<DeliveryDlqEntryResponse, DomainError>> {
+    const actor = this.metadataFactory.toActorContext(user);
+    const entryResult = await this.findEntry(actor, webhookId, deliveryId);
+    if (!entryResult.ok) return entryResult;
+
+    return ok(this.toResponse(entryResult.value));
+  }
+
+  async replay(
+    user: IUserToken,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<ReplayDeliveryDlqResponse, DomainError>> {
+    const actor = this.metadataFactory.toActorContext(user);
+    return this.replayEntry(actor, webhookId, deliveryId);
+  }
+
+  async replayBulk(
+    user: IUserToken,
+    webhookId: string,
+    request: BulkReplayDeliveryDlqRequest,
+  ): Promise<Result<BulkReplayDeliveryDlqResponse, DomainError>> {
+    const actor = this.metadataFactory.toActorContext(user);
+
+    let deliveryIds = request.deliveryIds;
+    if (!deliveryIds) {
+      const listResult = await this.dlqStore.list(actor.tenant, webhookId, {
+        offset: 0,
+        limit: DLQ_BULK_REPLAY_LIMIT,
+        order: 'oldest',
+      });
+      if (!listResult.ok) return listResult;
+      deliveryIds = listResult.value.entries.map((e) => e.deliveryId);
+    }
+
+    const response: BulkReplayDeliveryDlqResponse = {
+      replayed: [],
+      failed: [],
+    };
+    // Oldest first and sequential, so replays reach the queue in the order
+    // the deliveries originally failed
+    for (const deliveryId of new Set(deliveryIds)) {
+      const result = await this.replayEntry(actor, webhookId, deliveryId);
+      if (result.ok) {
+        response.replayed.push(result.value);
+      } else {
+        response.failed.push({
+          deliveryId,
+          code: result.error.code,
+          detail: result.error.detail,
+        });
+      }
+    }
+
+    Log.info(this.logger, 'Bulk replay of dead-lettered deliveries', {
+      method: 'replayBulk',
+      tenant: actor.tenant,
+      webhookId,
+      userId: actor.userId,
+      replayed: response.replayed.length,
+      failed: response.failed.length,
+    });
+
+    return ok(response);
+  }
+
+  async remove(
+    user: IUserToken,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<void, DomainError>> {
+    const actor = this.metadataFactory.toActorContext(user);
+    const result = await this.dlqStore.remove(
+      actor.tenant,
+      webhookId,
+      deliveryId,
+    );
+    if (!result.ok) return result;
+    if (!result.value) {
+      return err(this.notFound(webhookId, deliveryId));
+    }
+
+    Log.info(this.logger, 'Removed dead-lettered delivery', {
+      method: 'remove',
+      tenant: actor.tenant,
+      webhookId,
+      deliveryId,
+      userId: actor.userId,
+    });
+
+    return ok(undefined);
+  }
+
+  async purge(
+    user: IUserToken,
+    webhookId: string,
+  ): Promise<Result<PurgeDeliveryDlqResponse, DomainError>> {
+    const actor = this.metadataFactory.toActorContext(user);
+    const result = await this.dlqStore.purge(actor.tenant, webhookId);
+    if (!result.ok) return result;
+
+    Log.info(this.logger, 'Purged dead-letter queue', {
+      method: 'purge',
+      tenant: actor.tenant,
+      webhookId,
+      userId: actor.userId,
+      purged: result.value,
+    });
+
+    return ok({ purged: result.value });
+  }
+
+  private async replayEntry(
+    actor: ActorContext,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<ReplayDeliveryDlqResponse, DomainError>> {
+    const entryResult = await this.findEntry(actor, webhookId, deliveryId);
+    if (!entryResult.ok) return entryResult;
+    const entry = entryResult.value;
+
+    // Claim the dead letter first; only the replay that removes it goes on
+    const claimed = await this.dlqStore.remove(
+      actor.tenant,
+      webhookId,
+      deliveryId,
+    );
+    if (!claimed.ok) return claimed;
+    if (!claimed.value) {
+      return err(this.notFound(webhookId, deliveryId));
+    }
+
+    const replayed = await this.sendReplay(actor, entry);
+    if (!replayed.ok) {
+      await this.restoreEntry(entry);
+      return replayed;
+    }
+
+    Log.info(this.logger, 'Replayed dead-lettered delivery', {
+      method: 'replayEntry',
+      tenant: actor.tenant,
+      webhookId,
+      deliveryId,
+      replayDeliveryId: replayed.value,
+      userId: actor.userId,
+    });
+
+    return ok({ deliveryId, replayDeliveryId: replayed.value });
+  }
+
+  /**
+   * Audit the replay on the original delivery and queue it; resolves to the
+   * id of the new delivery
+   */
+  private async sendReplay(
+    actor: ActorContext,
+    entry: DeliveryDlqEntry,
+  ): Promise<Result<string, DomainError>> {
+    const replayDeliveryId = randomUUID();
+    const correlationId =
+      CorrelationUtil.generateForOperation('webhook-dlq-replay');
+
+    const original = DeliveryAggregate.resume(
+      {
+        deliveryId: entry.deliveryId,
+        webhookId: entry.webhookId,
+        eventType: entry.eventType,
+        status: 'failed',
+        attempts: entry.attempts,
+      },
+      this.clock,
+      this.metadataFactory.build(actor, { correlationId, source: 'http' }),
+    );
+    const recorded = original.recordReplay({
+      replayDeliveryId,
+      replayedBy: actor.userId,
+    });
+    if (!recorded.ok) return recorded;
+
+    const saved = await this.deliveryWriter.save(actor, original);
+    if (!saved.ok) return saved;
+
+    // The replay dead-letters on its own if it fails again
+    const enqueued = await this.deliveryQueue.enqueueDelivery(actor, {
+      deliveryId: replayDeliveryId,
+      webhookId: entry.webhookId,
+      eventType: entry.eventType,
+      payload: entry.payload,
+      correlationId,
+      replayOf: entry.deliveryId,
+      partitionKey: entry.partitionKey,
+    });
+    if (!enqueued.ok) return enqueued;
+
+    Log.debug(this.logger, 'Queued replay of dead-lettered delivery', {
+      method: 'sendReplay',
+      deliveryId: entry.deliveryId,
+      replayDeliveryId,
+      correlationId,
+    });
+
+    return ok(replayDeliveryId);
+  }
+
+  /**
+   * Put back a claimed dead letter whose replay was not queued
+   */
+  private async restoreEntry(entry: DeliveryDlqEntry): Promise<void> {
+    const restored = await this.dlqStore.save(entry);
+    if (!restored.ok) {
+      Log.error(this.logger, 'Failed to restore dead-lettered delivery', {
+        method: 'restoreEntry',
+        webhookId: entry.webhookId,
+        deliveryId: entry.deliveryId,
+        error: restored.error.detail,
+      });
+    }
+  }
+
+  private async findEntry(
+    actor: ActorContext,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<DeliveryDlqEntry, DomainError>> {
+    const result = await this.dlqStore.findById(
+      actor.tenant,
+      webhookId,
+      deliveryId,
+    );
+    if (!result.ok) return result;
+    if (Option.isNone(result.value)) {
+      return err(this.notFound(webhookId, deliveryId));
+    }
+    return ok(result.value.value);
+  }
+
+  private notFound(webhookId: string, deliveryId: string): DomainError {
+    return {
+      ...DeliveryErrors.DLQ_ENTRY_NOT_FOUND,
+      context: { webhookId, deliveryId },
+    };
+  }
+
+  private toResponse(entry: DeliveryDlqEntry): DeliveryDlqEntryResponse {
+    return {
+      deliveryId: entry.deliveryId,
+      webhookId: entry.webhookId,
+      eventType: entry.eventType,
+      payload: entry.payload,
+      correlationId: entry.correlationId,
+      attempts: entry.attempts,
+      reason: entry.reason,
+      lastError: entry.lastError,
+      lastStatusCode: entry.lastStatusCode,
+      lastResponseBody: entry.lastResponseBody,
+      failedAt: entry.failedAt,
+      expiresAt: entry.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export * from './delivery-dlq-application.service';
+export * from './webhook-test-application.service';
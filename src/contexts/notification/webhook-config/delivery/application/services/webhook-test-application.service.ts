@@ -0,0 +1,303 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { RedactionUtil, type IUserToken } from 'src/shared/security';
+import { ActorContext } from 'src/shared/application/context';
+import { MetadataFactory } from 'src/shared/application/factories/metadata.factory';
+import { Option } from 'src/shared/domain/types';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import {
+  IWorkspaceQuery,
+  WORKSPACE_QUERY_TOKEN,
+} from 'src/contexts/notification/webhook-config/workspace/application/ports';
+import {
+  IConfigQuery,
+  CONFIG_QUERY_TOKEN,
+} from 'src/contexts/notification/webhook-config/config/application/ports';
+import {
+  IAuthQuery,
+  AUTH_QUERY_TOKEN,
+} from 'src/contexts/notification/webhook-config/auth/application/ports';
+import { DetailAuthResponse } from 'src/contexts/notification/webhook-config/auth/application/dtos';
+import { DeliveryAggregate } from '../../domain/aggregates';
+import { DeliveryErrors } from '../../domain/errors';
+import { DELIVERY_WRITER_TOKEN, IDeliveryWriter } from '../ports';
+import {
+  TestWebhookRequest,
+  TestWebhookResponse,
+  WEBHOOK_TEST_EVENT_TYPE,
+  WebhookTestRequestTranscript,
+} from '../dtos';
+import { DeliverWebhookJob } from '../../infrastructure/services/delivery-queue.types';
+import { DeliveryRetryPolicy } from '../../infrastructure/services/delivery-retry.policy';
+import {
+  WebhookHttpClient,
+  WebhookHttpRequest,
+  WebhookHttpResult,
+} from '../../infrastructure/services/webhook-http.client';
+import { WebhookRequestBuilder } from '../../infrastructure/services/webhook-request.builder';
+
+/** Portion of the response body returned in the transcript */
+const MAX_BODY_EXCERPT_CHARS = 2048;
+
+/**
+ * Webhook Test Application Service
+ *
+ * Test-fires a webhook with a synthetic payload so operators can check it
+ * before activating it. The request goes through the same builder and
+ * client as real deliveries, so auth, signing, headers and timeouts are
+ * exactly those a delivery would use; paused and disabled webhooks can be
+ * tested too, and rate limits are not applied.
+ *
+ * Nothing is recorded unless `recordDelivery` is set, in which case the
+ * test is written as a single-attempt delivery that is never retried.
+ */
+@Injectable()
+export class WebhookTestApplicationService {
+  private readonly logger: Logger;
+  private readonly redaction = new RedactionUtil();
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WORKSPACE_QUERY_TOKEN)
+    private readonly workspaceQuery: IWorkspaceQuery,
+    @Inject(CONFIG_QUERY_TOKEN)
+    private readonly configQuery: IConfigQuery,
+    @Inject(AUTH_QUERY_TOKEN)
+    private readonly authQuery: IAuthQuery,
+    @Inject(DELIVERY_WRITER_TOKEN)
+    private readonly deliveryWriter: IDeliveryWriter,
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly metadataFactory: MetadataFactory,
+    private readonly requestBuilder: WebhookRequestBuilder,
+    private readonly httpClient: WebhookHttpClient,
+  ) {
+    this.logger = componentLogger(baseLogger, 'WebhookTestApplicationService');
+  }
+
+  async test(
+    user: IUserToken,
+    webhookId: string,
+    request: TestWebhookRequest,
+  ): Promise<Result<TestWebhookResponse, DomainError>> {
+    const actor = this.metadataFactory.toActorContext(user);
+
+    const [workspaceResult, configResult, authResult] = await Promise.all([
+      this.workspaceQuery.findById(actor, webhookId),
+      this.configQuery.findById(actor, webhookId),
+      this.authQuery.findById(actor, webhookId),
+    ]);
+    if (!workspaceResult.ok) return workspaceResult;
+    if (!configResult.ok) return configResult;
+    if (!authResult.ok) return authResult;
+
+    if (Option.isNone(workspaceResult.value)) {
+      return err({
+        ...DeliveryErrors.WEBHOOK_NOT_FOUND,
+        context: { webhookId, operation: 'test_webhook' },
+      });
+    }
+    const workspace = workspaceResult.value.value;
+    const config = Option.isSome(configResult.value)
+      ? configResult.value.value
+      : null;
+    const auth = Option.isSome(authResult.value)
+      ? authResult.value.value
+      : null;
+
+    const deliveryId = randomUUID();
+    const eventType = request.eventType ?? WEBHOOK_TEST_EVENT_TYPE;
+    const job: DeliverWebhookJob = {
+      deliveryId,
+      tenant: actor.tenant,
+      webhookId,
+      eventType,
+      payload: request.payload ?? {
+        type: eventType,
+        webhookId,
+        test: true,
+        sentAt: this.clock.nowIso(),
+      },
+      attempt: 1,
+      correlationId: CorrelationUtil.generateForOperation('webhook-test'),
+    };
+
+    const delivery = request.recordDelivery
+      ? this.requestDelivery(actor, job)
+      : undefined;
+    if (delivery) {
+      const saved = await this.deliveryWriter.save(actor, delivery);
+      if (!saved.ok) return saved;
+    }
+
+    const settings = DeliveryRetryPolicy.fromConfig(config);
+    const built = await this.requestBuilder.build({
+      job,
+      workspace,
+      config,
+      auth,
+      settings,
+    });
+    if (!built.ok) {
+      if (delivery) {
+        delivery.markFailed({
+          reason: built.error.code,
+          lastError: built.error.detail,
+        });
+        await this.deliveryWriter.save(actor, delivery);
+      }
+      return built;
+    }
+
+    const result = await this.httpClient.send(built.value);
+
+    if (delivery) {
+      await this.recordOutcome(actor, delivery, result);
+    }
+
+    Log.info(this.logger, 'Webhook test-fired', {
+      method: 'test',
+      tenant: actor.tenant,
+      webhookId,
+      userId: actor.userId,
+      statusCode: result.ok ? result.value.statusCode : undefined,
+      errorClass: result.ok ? undefined : result.errorClass,
+      recorded: !!delivery,
+    });
+
+    return ok(this.toResponse(built.value, auth, result, delivery?.id));
+  }
+
+  private requestDelivery(
+    actor: ActorContext,
+    job: DeliverWebhookJob,
+  ): DeliveryAggregate {
+    return DeliveryAggregate.request(
+      {
+        deliveryId: job.deliveryId,
+        webhookId: job.webhookId,
+        eventType: job.eventType,
+      },
+      this.clock,
+      this.metadataFactory.build(actor, {
+        correlationId: job.correlationId,
+        source: 'http',
+      }),
+    );
+  }
+
+  /**
+   * Record the single attempt and its final outcome; a failure to write is
+   * logged, the transcript is still returned
+   */
+  private async recordOutcome(
+    actor: ActorContext,
+    delivery: DeliveryAggregate,
+    result: WebhookHttpResult,
+  ): Promise<void> {
+    const statusCode = result.ok ? result.value.statusCode : undefined;
+    const succeeded =
+      statusCode !== undefined && statusCode >= 200 && statusCode < 300;
+    const error = result.ok
+      ? `HTTP ${statusCode}`
+      : `${result.errorClass}: ${result.error}`;
+
+    delivery.recordAttempt({
+      attempt: 1,
+      outcome: succeeded ? 'succeeded' : 'permanent_failure',
+      statusCode,
+      durationMs: result.ok ? result.value.durationMs : result.durationMs,
+      ...(!succeeded && {
+        errorClass: result.ok ? 'http_status' : result.errorClass,
+        error,
+      }),
+    });
+    if (succeeded) {
+      delivery.markSucceeded(statusCode);
+    } else {
+      delivery.markFailed({
+        reason: 'test_failed',
+        lastError: error,
+        statusCode,
+      });
+    }
+
+    const saved = await this.deliveryWriter.save(actor, delivery);
+    if (!saved.ok) {
+      Log.warn(this.logger, 'Failed to record webhook test outcome', {
+        method: 'recordOutcome',
+        deliveryId: delivery.id,
+        webhookId: delivery.webhookId,
+        error: saved.error.detail,
+      });
+    }
+  }
+
+  private toResponse(
+    request: WebhookHttpRequest,
+    auth: DetailAuthResponse | null,
+    result: WebhookHttpResult,
+    deliveryId?: string,
+  ): TestWebhookResponse {
+    const timings = result.ok ? result.value.timings : result.timings;
+
+    return {
+      success:
+        result.ok &&
+        result.value.statusCode >= 200 &&
+        result.value.statusCode < 300,
+      deliveryId,
+      request: this.redactRequest(request, auth),
+      ...(result.ok
+        ? {
+            response: {
+              statusCode: result.value.statusCode,
+              headers: result.value.headers,
+              bodyExcerpt: this.redaction.truncateText(
+                result.value.body,
+                MAX_BODY_EXCERPT_CHARS,
+              ),
+            },
+          }
+        : { error: { errorClass: result.errorClass, message: result.error } }),
+      timings,
+    };
+  }
+
+  /**
+   * Mask credentials in headers and the URL; signatures are left readable
+   * so receivers' verification can be checked against them
+   */
+  private redactRequest(
+    request: WebhookHttpRequest,
+    auth: DetailAuthResponse | null,
+  ): WebhookTestRequestTranscript {
+    const headers = this.redaction.redactMetadata(request.headers);
+    const apiKeyHeader = auth?.apiKeyHeader?.toLowerCase();
+    if (apiKeyHeader && typeof request.headers[apiKeyHeader] === 'string') {
+      headers[apiKeyHeader] = this.redaction.maskToken(
+        request.headers[apiKeyHeader],
+      );
+    }
+
+    const url = new URL(request.url.toString());
+    if (url.password) url.password = '***';
+    if (auth?.apiKeyQueryParam && url.searchParams.has(auth.apiKeyQueryParam)) {
+      url.searchParams.set(
+        auth.apiKeyQueryParam,
+        this.redaction.maskToken(url.searchParams.get(auth.apiKeyQueryParam)!),
+      );
+    }
+
+    return {
+      method: request.method.toUpperCase(),
+      url: url.toString(),
+      headers,
+      body: request.body,
+      connectTimeoutMs: request.connectTimeoutMs,
+      requestTimeoutMs: request.requestTimeoutMs,
+    };
+  }
+}
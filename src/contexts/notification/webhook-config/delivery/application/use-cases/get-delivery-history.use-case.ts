@@ -0,0 +1,62 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { IUserToken } from 'src/shared/security';
+import { ActorContextAdapter } from 'src/shared/application/actor-context.adapter';
+import { Option } from 'src/shared/domain/types';
+import { DeliveryErrors } from '../../domain/errors';
+import { DELIVERY_HISTORY_QUERY_TOKEN, IDeliveryHistoryQuery } from '../ports';
+import { DetailDeliveryHistoryResponse } from '../dtos';
+
+/**
+ * Get Delivery History Use Case
+ *
+ * Reads a delivery and its attempts from the delivery history projection.
+ */
+@Injectable()
+export class GetDeliveryHistoryUseCase {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(DELIVERY_HISTORY_QUERY_TOKEN)
+    private readonly query: IDeliveryHistoryQuery,
+  ) {
+    this.logger = componentLogger(baseLogger, 'GetDeliveryHistoryUseCase');
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    deliveryId: string;
+    correlationId: string;
+  }): Promise<Result<DetailDeliveryHistoryResponse, DomainError>> {
+    const actor = ActorContextAdapter.fromUserToken(params.user);
+    const result = await this.query.findById(actor, params.deliveryId, {
+      correlationId: params.correlationId,
+      source: 'get-delivery-history-use-case',
+    });
+
+    if (!result.ok) {
+      Log.warn(this.logger, 'Failed to read delivery history', {
+        method: 'execute',
+        tenant: actor.tenant,
+        deliveryId: params.deliveryId,
+        correlationId: params.correlationId,
+        error: result.error.detail,
+      });
+      return result;
+    }
+
+    if (Option.isNone(result.value)) {
+      return err({
+        ...DeliveryErrors.DELIVERY_NOT_FOUND,
+        context: {
+          deliveryId: params.deliveryId,
+          correlationId: params.correlationId,
+          operation: 'get_delivery_history',
+        },
+      });
+    }
+    return ok(result.value.value);
+  }
+}
@@ -0,0 +1,2 @@
+export * from './get-delivery-history.use-case';
+export * from './list-delivery-attempts.use-case';
@@ -0,0 +1,75 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, err } from 'src/shared/errors';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { IUserToken } from 'src/shared/security';
+import { ActorContextAdapter } from 'src/shared/application/actor-context.adapter';
+import { validateSortFields, toTakeSkip } from 'src/shared/domain/properties';
+import { DEFAULT_PAGINATION_CONFIG } from 'src/shared/domain/pagination.config';
+import { DELIVERY_HISTORY_QUERY_TOKEN, IDeliveryHistoryQuery } from '../ports';
+import {
+  DeliveryAttemptPageResponse,
+  ListDeliveryAttemptFilterRequest,
+} from '../dtos';
+
+/**
+ * List Delivery Attempts Use Case
+ *
+ * Validates sort fields and paging, then reads a page of attempts from the
+ * delivery history projection.
+ */
+@Injectable()
+export class ListDeliveryAttemptsUseCase {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(DELIVERY_HISTORY_QUERY_TOKEN)
+    private readonly query: IDeliveryHistoryQuery,
+  ) {
+    this.logger = componentLogger(baseLogger, 'ListDeliveryAttemptsUseCase');
+  }
+
+  async execute(params: {
+    user: IUserToken;
+    filter?: ListDeliveryAttemptFilterRequest;
+    correlationId: string;
+  }): Promise<Result<DeliveryAttemptPageResponse, DomainError>> {
+    // Query parameters arrive as a plain object; restore the prototype
+    const filter = Object.assign(
+      new ListDeliveryAttemptFilterRequest(),
+      params.filter,
+    );
+
+    const sortFieldConfig = filter.getSortFieldConfig();
+    const sortValidation = validateSortFields(
+      filter.sortBy ?? {},
+      Object.keys(sortFieldConfig).filter(
+        (field) => sortFieldConfig[field].sortable,
+      ),
+    );
+    if (!sortValidation.ok) return err(sortValidation.error);
+
+    const takeSkip = toTakeSkip(
+      Number(filter.page ?? DEFAULT_PAGINATION_CONFIG.defaultPage),
+      Number(filter.size ?? DEFAULT_PAGINATION_CONFIG.defaultPageSize),
+      DEFAULT_PAGINATION_CONFIG.maxPageSize,
+    );
+    if (!takeSkip.ok) return err(takeSkip.error);
+
+    const actor = ActorContextAdapter.fromUserToken(params.user);
+    const result = await this.query.findAttemptsPaginated(actor, filter, {
+      correlationId: params.correlationId,
+      source: 'list-delivery-attempts-use-case',
+    });
+
+    if (!result.ok) {
+      Log.warn(this.logger, 'Failed to list delivery attempts', {
+        method: 'execute',
+        tenant: actor.tenant,
+        correlationId: params.correlationId,
+        error: result.error.detail,
+      });
+    }
+    return result;
+  }
+}
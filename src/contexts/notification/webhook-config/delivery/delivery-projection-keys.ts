@@ -0,0 +1,217 @@
+import { WebhookConfigServiceConstants } from '../service-constants';
+
+/**
+ * Domain value object for Delivery projection keys
+ * Centralizes all key patterns to prevent duplication and ensure consistency
+ * Follows DDD principle of explicit domain concepts
+ */
+export class DeliveryProjectionKeys {
+  // EventStore DB patterns
+  static readonly ESDB_BOUNDED_CONTEXT =
+    WebhookConfigServiceConstants.MODULE_NAMESPACE;
+  static readonly ESDB_AGGREGATE_NAME = 'delivery';
+  static readonly ESDB_VERSION = 'v1';
+
+  /**
+   * Get EventStore stream prefix for individual streams
+   * Format: <serviceName>.<aggregate>.<version>
+   * Example: notification.slack.delivery.v1
+   */
+  static getEventStoreStreamPrefix(): string {
+    return `${this.ESDB_BOUNDED_CONTEXT}.${this.ESDB_AGGREGATE_NAME}.${this.ESDB_VERSION}`;
+  }
+
+  /**
+   * Get EventStore category projection pattern for catchup
+   * Format: $ce-<boundedContext>.<aggregate>.<version>
+   * Example: $ce-notification.slack.delivery.v1
+   */
+  static getEventStoreCategoryPattern(): string {
+    return `$ce-${this.getEventStoreStreamPrefix()}`;
+  }
+
+  /**
+   * Get individual EventStore stream name for specific tenant and delivery
+   * Format: <boundedContext>.<aggregate>.<version>-{tenant}-{deliveryId}
+   */
+  static getEventStoreStreamName(tenant: string, deliveryId: string): string {
+    return `${this.getEventStoreStreamPrefix()}-${tenant}-${deliveryId}`;
+  }
+
+  /**
+   * Extract tenant and delivery id from EventStore stream name
+   * Validates format: <boundedContext>.<aggregate>.<version>-{tenant}-{deliveryId}
+   */
+  static extractFromStreamName(
+    streamName: string,
+  ): { tenant: string; code: string } | null {
+    const prefix = this.getEventStoreStreamPrefix();
+    const pattern = new RegExp(
+      `^${prefix.replace(/\./g, '\\.')}-([^-]+)-(.+)$`,
+    );
+    const match = streamName.match(pattern);
+    if (!match) return null;
+
+    const [, tenant, code] = match;
+    return { tenant, code };
+  }
+
+  /**
+   * Validate if stream name matches delivery pattern
+   */
+  static isDeliveryStream(streamName: string): boolean {
+    return this.extractFromStreamName(streamName) !== null;
+  }
+
+  // Redis key patterns
+  static readonly REDIS_KEY_PREFIX =
+    WebhookConfigServiceConstants.MODULE_NAMESPACE;
+  static readonly REDIS_VERSION = 'v1';
+
+  /**
+   * Get Redis key used to guard a single delivery attempt against duplicate execution
+   * Format: notification.slack:v1:{tenant}:delivery:attempt:{deliveryId}:{attempt}
+   */
+  static getRedisAttemptLockKey(
+    tenant: string,
+    deliveryId: string,
+    attempt: number,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:attempt:${deliveryId}:${attempt}`;
+  }
+
+  /**
+   * Get Redis key holding the cached OAuth2 access token for a webhook
+   * Format: notification.slack:v1:{tenant}:delivery:oauth-token:{webhookId}
+   */
+  static getRedisOAuthTokenKey(tenant: string, webhookId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:oauth-token:${webhookId}`;
+  }
+
+  /**
+   * Get Redis key holding a single dead-lettered delivery
+   * Format: notification.slack:v1:{tenant}:delivery:dlq:{webhookId}:{deliveryId}
+   */
+  static getRedisDlqEntryKey(
+    tenant: string,
+    webhookId: string,
+    deliveryId: string,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:dlq:${webhookId}:${deliveryId}`;
+  }
+
+  /**
+   * Get Redis sorted set indexing a webhook's dead letters by expiry
+   * Format: notification.slack:v1:{tenant}:delivery:dlq-index:{webhookId}
+   */
+  static getRedisDlqIndexKey(tenant: string, webhookId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:dlq-index:${webhookId}`;
+  }
+
+  /**
+   * Get Redis sorted set indexing a webhook's dead letters by failure time
+   * Format: notification.slack:v1:{tenant}:delivery:dlq-failed:{webhookId}
+   */
+  static getRedisDlqFailedIndexKey(tenant: string, webhookId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:dlq-failed:${webhookId}`;
+  }
+
+  /**
+   * Get Redis sorted set holding a webhook's sends in the last minute
+   * Format: notification.slack:v1:{tenant}:delivery:rate:{webhookId}
+   */
+  static getRedisRateLimitKey(tenant: string, webhookId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:rate:${webhookId}`;
+  }
+
+  /**
+   * Get Redis sorted set holding a webhook's in-flight delivery leases
+   * Format: notification.slack:v1:{tenant}:delivery:concurrency:{webhookId}
+   */
+  static getRedisConcurrencyKey(tenant: string, webhookId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:concurrency:${webhookId}`;
+  }
+
+  /**
+   * Get Redis list holding the ordered deliveries of a fifo partition
+   * Format: notification.slack:v1:{tenant}:delivery:fifo:{webhookId}:{partitionKey}
+   */
+  static getRedisFifoLaneKey(
+    tenant: string,
+    webhookId: string,
+    partitionKey: string,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:fifo:${webhookId}:${partitionKey}`;
+  }
+
+  /**
+   * Get Redis hash of a tenant's webhook event subscriptions
+   * Format: notification.slack:v1:{tenant}:delivery:subscriptions
+   */
+  static getRedisSubscriptionIndexKey(tenant: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:subscriptions`;
+  }
+
+  /**
+   * Get Redis key marking a domain event as fanned out to a webhook
+   * Format: notification.slack:v1:{tenant}:delivery:fanout:{webhookId}:{streamId}:{revision}
+   */
+  static getRedisFanOutClaimKey(
+    tenant: string,
+    webhookId: string,
+    streamId: string,
+    revision: number,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:fanout:${webhookId}:${streamId}:${revision}`;
+  }
+
+  /**
+   * Get Redis key holding the time fan-out was first started
+   * Format: notification.slack:v1:delivery:fanout-watermark
+   */
+  static getRedisFanOutWatermarkKey(): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:delivery:fanout-watermark`;
+  }
+
+  /**
+   * Get Redis hash holding the history read model of a delivery
+   * Format: notification.slack:v1:{tenant}:delivery:history:{deliveryId}
+   */
+  static getRedisHistoryKey(tenant: string, deliveryId: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:history:${deliveryId}`;
+  }
+
+  /**
+   * Get Redis hash of attempt number -> attempt record for a delivery
+   * Format: notification.slack:v1:{tenant}:delivery:history-attempts:{deliveryId}
+   */
+  static getRedisHistoryAttemptsKey(
+    tenant: string,
+    deliveryId: string,
+  ): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:history-attempts:${deliveryId}`;
+  }
+
+  /**
+   * Get Redis sorted set indexing a tenant's attempts by attempt time
+   * Members are `{deliveryId}:{attempt}`
+   * Format: notification.slack:v1:{tenant}:delivery:history-index
+   */
+  static getRedisHistoryIndexKey(tenant: string): string {
+    return `${this.REDIS_KEY_PREFIX}:${this.REDIS_VERSION}:{${tenant}}:delivery:history-index`;
+  }
+
+  /** How long delivery history is kept, in seconds */
+  static readonly HISTORY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+  // Projector names for delivery-side subscriptions
+  static readonly AUTH_CHANGE_INVALIDATION_PROJECTOR =
+    'delivery-auth-change-invalidation-projector';
+  static readonly AUTH_CHANGE_INVALIDATION_GROUP =
+    'delivery-auth-change-invalidation';
+  static readonly SUBSCRIPTION_ROUTER_PROJECTOR =
+    'delivery-subscription-router-projector';
+  static readonly SUBSCRIPTION_ROUTER_GROUP = 'delivery-subscription-router';
+  static readonly HISTORY_PROJECTOR = 'delivery-history-projector';
+  static readonly HISTORY_GROUP = 'delivery-history';
+}
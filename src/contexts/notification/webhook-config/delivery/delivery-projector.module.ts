@@ -0,0 +1,74 @@
+// Delivery Projector Module
+// Configures delivery-side subscriptions with shared projection infrastructure
+
+import { Module } from '@nestjs/common';
+import { InfrastructureModule } from 'src/shared/infrastructure/infrastructure.module';
+import { LoggingModule } from 'src/shared/logging';
+import { TimeModule } from 'src/shared/infrastructure/time';
+import { IO_REDIS } from 'src/shared/constants/injection-tokens';
+import { EventStoreService } from 'src/shared/infrastructure/eventstore/eventstore.service';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../webhook-config.constants';
+import { NotificationSlackProjectorConfig } from '../projector.config';
+import { AppConfigUtil } from 'src/shared/config';
+import { APP_LOGGER, type Logger } from 'src/shared/logging';
+import { CatchUpRunner } from 'src/shared/infrastructure/projections/catchup.runner';
+import type { Redis } from 'ioredis';
+import type { CheckpointStore } from 'src/shared/infrastructure/projections/checkpoint.store';
+import { DeliveryModule } from './delivery.module';
+import {
+  AuthChangeInvalidationProjector,
+  DeliveryHistoryProjector,
+  WebhookSubscriptionRouterProjector,
+} from './infrastructure/projectors';
+
+@Module({
+  imports: [
+    // Shared projection infrastructure (includes EventStore, Redis, CatchUpRunner, etc.)
+    InfrastructureModule,
+
+    // Time infrastructure (provides CLOCK token)
+    TimeModule,
+
+    // Logging infrastructure
+    LoggingModule,
+
+    // Token broker, TLS agent pool, subscription index and queue service
+    DeliveryModule,
+  ],
+  providers: [
+    {
+      provide: WEBHOOK_CONFIG_DI_TOKENS.CHECKPOINT_STORE, // 'WebhookConfigCheckpointStore'
+      inject: [IO_REDIS, APP_LOGGER],
+      useFactory: (redis: Redis, logger: Logger) => {
+        const envPrefix = `${AppConfigUtil.getEnvironment()}:`;
+        const factory =
+          NotificationSlackProjectorConfig.createCheckpointStoreFactory();
+        return factory(redis, logger, envPrefix);
+      },
+    },
+    {
+      provide: WEBHOOK_CONFIG_DI_TOKENS.CATCHUP_RUNNER, // 'WebhookConfigCatchupRunner'
+      inject: [
+        EventStoreService,
+        WEBHOOK_CONFIG_DI_TOKENS.CHECKPOINT_STORE,
+        APP_LOGGER,
+      ],
+      useFactory: (
+        eventStoreService: EventStoreService,
+        checkpointStore: CheckpointStore,
+        logger: Logger,
+      ) => {
+        return new CatchUpRunner(eventStoreService, checkpointStore, logger);
+      },
+    },
+    AuthChangeInvalidationProjector,
+    WebhookSubscriptionRouterProjector,
+    DeliveryHistoryProjector,
+  ],
+  exports: [
+    AuthChangeInvalidationProjector,
+    WebhookSubscriptionRouterProjector,
+    DeliveryHistoryProjector,
+  ],
+})
+export class DeliveryProjectorModule {}
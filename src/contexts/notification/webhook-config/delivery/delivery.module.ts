@@ -0,0 +1,127 @@
+import { Module } from '@nestjs/common';
+import { BullMQModule } from 'src/shared/infrastructure/queue/bullmq.module';
+import { AppConfigUtil } from 'src/shared/config/app-config.util';
+
+// Import webhook-config modules for query interfaces
+import { WorkspaceModule } from '../workspace/workspace.module';
+import { ConfigModule } from '../config/config.module';
+import { AuthModule } from '../auth/auth.module';
+
+import {
+  DELIVERY_DLQ_STORE_TOKEN,
+  DELIVERY_HISTORY_QUERY_TOKEN,
+  DELIVERY_WRITER_TOKEN,
+} from './application/ports';
+import {
+  DeliveryDlqApplicationService,
+  WebhookTestApplicationService,
+} from './application/services';
+import {
+  GetDeliveryHistoryHandler,
+  ListDeliveryAttemptsHandler,
+} from './application/handlers';
+import {
+  GetDeliveryHistoryUseCase,
+  ListDeliveryAttemptsUseCase,
+} from './application/use-cases';
+import {
+  DeliveryDlqRepository,
+  DeliveryHistoryQueryRepository,
+  DeliveryWriterRepository,
+} from './infrastructure/repositories';
+import {
+  DeliveryQueueService,
+  DeliveryWorkerService,
+  WebhookHttpClient,
+  WebhookRequestBuilder,
+  OAuth2TokenBroker,
+  WebhookTlsAgentPool,
+  WebhookRateLimiter,
+  WebhookSubscriptionIndex,
+  WEBHOOK_DELIVERY_QUEUE,
+} from './infrastructure/services';
+import { OAuth2ClientCredentialsClient } from 'src/shared/infrastructure/oauth';
+import { DeliveryProcessor } from './infrastructure/processors';
+import {
+  DeliveryDlqController,
+  DeliveryHistoryController,
+} from './interface/http/controllers';
+
+/**
+ * Delivery Module - outbound webhook delivery engine
+ *
+ * Sends webhooks configured in webhook-config, applying per-webhook retry,
+ * timeout and auth settings, and records every attempt as delivery events.
+ * Exhausted deliveries go to a per-webhook dead-letter queue that can be
+ * inspected, replayed and purged over HTTP, and every attempt is kept in a
+ * queryable history read model. Webhooks can be test-fired
+ * through the same request pipeline before they are activated.
+ */
+@Module({
+  imports: [
+    // Query interfaces for the webhook projections
+    WorkspaceModule,
+    ConfigModule,
+    AuthModule,
+    // Domain-specific BullMQ queue registration
+    BullMQModule.register({
+      redisUrl: AppConfigUtil.getRedisConfig().url,
+      keyPrefix: `${AppConfigUtil.getEnvironment()}:webhook-delivery:`,
+      enableMetrics: true,
+      queues: [{ name: WEBHOOK_DELIVERY_QUEUE.NAME }],
+    }),
+  ],
+  controllers: [DeliveryDlqController, DeliveryHistoryController],
+  providers: [
+    {
+      provide: DELIVERY_WRITER_TOKEN,
+      useClass: DeliveryWriterRepository,
+    },
+    {
+      provide: DELIVERY_DLQ_STORE_TOKEN,
+      useClass: DeliveryDlqRepository,
+    },
+    {
+      provide: DELIVERY_HISTORY_QUERY_TOKEN,
+      useClass: DeliveryHistoryQueryRepository,
+    },
+
+    // Queue and processing services
+    DeliveryQueueService,
+    DeliveryWorkerService,
+    WebhookRequestBuilder,
+    WebhookHttpClient,
+    DeliveryProcessor,
+    WebhookRateLimiter,
+    WebhookSubscriptionIndex,
+
+    // Dead-letter queue API
+    DeliveryDlqApplicationService,
+
+    // Delivery history API
+    ListDeliveryAttemptsUseCase,
+    GetDeliveryHistoryUseCase,
+    ListDeliveryAttemptsHandler,
+    GetDeliveryHistoryHandler,
+
+    // Test-fire API, served by WebhookTestModule
+    WebhookTestApplicationService,
+
+    // Auth material providers
+    OAuth2ClientCredentialsClient,
+    OAuth2TokenBroker,
+    WebhookTlsAgentPool,
+  ],
+  exports: [
+    // Queue service for producers in other modules
+    DeliveryQueueService,
+    // Token broker and TLS agent pool for the invalidation projector
+    OAuth2TokenBroker,
+    WebhookTlsAgentPool,
+    // Subscription index for the subscription router
+    WebhookSubscriptionIndex,
+    // Test-fire service for WebhookTestModule
+    WebhookTestApplicationService,
+  ],
+})
+export class DeliveryModule {}
@@ -0,0 +1,295 @@
+import { AggregateRootBase } from 'src/shared/domain/aggregates';
+import { DomainEvent, EventMetadata } from 'src/shared/domain/events';
+import { DomainError, Result, ok, err } from 'src/shared/errors';
+import { Clock } from 'src/shared/domain/clock';
+import {
+  DeliveryAttemptedEvent,
+  DeliveryAttemptedEventPayload,
+  DeliveryFailedEvent,
+  DeliveryReplayedEvent,
+  DeliveryRequestedEvent,
+  DeliverySucceededEvent,
+} from '../events';
+import { DeliveryErrors } from '../errors';
+import { DELIVERY_TERMINAL_STATUSES, DeliveryStatusValue } from '../types';
+
+/**
+ * Delivery state tracked by the aggregate.
+ *
+ * The webhook body is intentionally not part of the state: the stream is an
+ * audit trail of attempts and outcomes, not a payload store.
+ */
+export interface DeliveryState {
+  deliveryId: string;
+  webhookId: string;
+  eventType: string;
+  status: DeliveryStatusValue;
+  attempts: number;
+  lastStatusCode?: number;
+}
+
+/**
+ * Attempt details supplied by the worker when recording an attempt.
+ */
+export type RecordDeliveryAttemptProps = Omit<
+  DeliveryAttemptedEventPayload,
+  'deliveryId' | 'webhookId' | 'attemptedAt'
+>;
+
+/**
+ * Domain Aggregate Root: Delivery
+ *
+ * Represents a single outbound webhook delivery and the attempts made to
+ * complete it. Each attempt and the final outcome are published as domain
+ * events on the delivery stream.
+ *
+ * @domain Notification Context - Delivery Aggregate
+ * @layer Domain Aggregates
+ */
+export class DeliveryAggregate extends AggregateRootBase {
+  private _state: DeliveryState;
+  private readonly clock: Clock;
+  private readonly eventMetadata: EventMetadata;
+
+  private constructor(
+    state: DeliveryState,
+    clock: Clock,
+    eventMetadata: EventMetadata,
+  ) {
+    super();
+    this._state = state;
+    this.clock = clock;
+    this.eventMetadata = eventMetadata;
+  }
+
+  /**
+   * Factory method to accept a new delivery
+   *
+   * @param props - Delivery identity and routing information
+   * @param clock - Clock instance for time operations
+   * @param eventMetadata - Event metadata for domain events
+   * @returns DeliveryAggregate with a pending DeliveryRequested event
+   */
+  public static request(
+    props: {
+      deliveryId: string;
+      webhookId: string;
+      eventType: string;
+      replayOf?: string;
+    },
+    clock: Clock,
+    eventMetadata: EventMetadata,
+  ): DeliveryAggregate {
+    const aggregate = new DeliveryAggregate(
+      {
+        deliveryId: props.deliveryId,
+        webhookId: props.webhookId,
+        eventType: props.eventType,
+        status: 'pending',
+        attempts: 0,
+      },
+      clock,
+      eventMetadata,
+    );
+
+    const requestedEvent = DeliveryRequestedEvent.create({
+      ...props,
+      requestedAt: clock.nowIso(),
+    });
+    aggregate.applyEvent(requestedEvent.eventType, requestedEvent.payload);
+
+    return aggregate;
+  }
+
+  /**
+   * Resume a delivery from the state carried by a queued job
+   *
+   * Workers do not replay the stream before each attempt; the job carries the
+   * attempt counter and the stream is appended with ANY expected revision.
+   */
+  public static resume(
+    state: DeliveryState,
+    clock: Clock,
+    eventMetadata: EventMetadata,
+  ): DeliveryAggregate {
+    const aggregate = new DeliveryAggregate({ ...state }, clock, eventMetadata);
+    aggregate._version = state.attempts;
+    return aggregate;
+  }
+
+  get id(): string {
+    return this._state.deliveryId;
+  }
+
+  get webhookId(): string {
+    return this._state.webhookId;
+  }
+
+  get status(): DeliveryStatusValue {
+    return this._state.status;
+  }
+
+  get attempts(): number {
+    return this._state.attempts;
+  }
+
+  /**
+   * Record the result of a single delivery attempt
+   */
+  public recordAttempt(
+    props: RecordDeliveryAttemptProps,
+  ): Result<void, DomainError> {
+    const guard = this.ensureNotTerminal('recordAttempt');
+    if (!guard.ok) return guard;
+
+    const attemptedEvent = DeliveryAttemptedEvent.create({
+      ...props,
+      deliveryId: this._state.deliveryId,
+      webhookId: this._state.webhookId,
+      attemptedAt: this.clock.nowIso(),
+    });
+    this.applyEvent(attemptedEvent.eventType, attemptedEvent.payload);
+
+    return ok(undefined);
+  }
+
+  /**
+   * Mark the delivery as acknowledged by the target
+   */
+  public markSucceeded(statusCode: number): Result<void, DomainError> {
+    const guard = this.ensureNotTerminal('markSucceeded');
+    if (!guard.ok) return guard;
+
+    const succeededEvent = DeliverySucceededEvent.create({
+      deliveryId: this._state.deliveryId,
+      webhookId: this._state.webhookId,
+      attempts: this._state.attempts,
+      statusCode,
+      succeededAt: this.clock.nowIso(),
+    });
+    this.applyEvent(succeededEvent.eventType, succeededEvent.payload);
+
+    return ok(undefined);
+  }
+
+  /**
+   * Mark the delivery as permanently failed
+   */
+  public markFailed(props: {
+    reason: string;
+    lastError?: string;
+    statusCode?: number;
+  }): Result<void, DomainError> {
+    const guard = this.ensureNotTerminal('markFailed');
+    if (!guard.ok) return guard;
+
+    const failedEvent = DeliveryFailedEvent.create({
+      ...props,
+      deliveryId: this._state.deliveryId,
+      webhookId: this._state.webhookId,
+      attempts: this._state.attempts,
+      failedAt: this.clock.nowIso(),
+    });
+    this.applyEvent(failedEvent.eventType, failedEvent.payload);
+
+    return ok(undefined);
+  }
+
+  /**
+   * Record that a failed delivery was replayed as a new delivery
+   */
+  public recordReplay(props: {
+    replayDeliveryId: string;
+    replayedBy: string;
+  }): Result<void, DomainError> {
+    if (this._state.status !== 'failed') {
+      return err({
+        ...DeliveryErrors.DELIVERY_NOT_REPLAYABLE,
+        context: {
+          deliveryId: this._state.deliveryId,
+          webhookId: this._state.webhookId,
+          status: this._state.status,
+          operation: 'recordReplay',
+        },
+      });
+    }
+
+    const replayedEvent = DeliveryReplayedEvent.create({
+      ...props,
+      deliveryId: this._state.deliveryId,
+      webhookId: this._state.webhookId,
+      replayedAt: this.clock.nowIso(),
+    });
+    this.applyEvent(replayedEvent.eventType, replayedEvent.payload);
+
+    return ok(undefined);
+  }
+
+  protected when(event: DomainEvent): void {
+    switch (event.type) {
+      case 'NotificationWebhookConfigDeliveryRequested.v1': {
+        this._state = { ...this._state, status: 'pending', attempts: 0 };
+        break;
+      }
+      case 'NotificationWebhookConfigDeliveryAttempted.v1': {
+        const d = event.data as DeliveryAttemptedEventPayload;
+        this._state = {
+          ...this._state,
+          attempts: d.attempt,
+          lastStatusCode: d.statusCode,
+          status:
+            d.outcome === 'retryable_failure' ? 'retrying' : this._state.status,
+        };
+        break;
+      }
+      case 'NotificationWebhookConfigDeliverySucceeded.v1': {
+        this._state = { ...this._state, status: 'succeeded' };
+        break;
+      }
+      case 'NotificationWebhookConfigDeliveryFailed.v1': {
+        this._state = { ...this._state, status: 'failed' };
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  protected applySnapshot(snapshot: DeliveryState & { version: number }): void {
+    const { version: _version, ...state } = snapshot;
+    void _version;
+    this._state = { ...state };
+  }
+
+  public createSnapshot(): DeliveryState & { version: number } {
+    return { ...this._state, version: this.version };
+  }
+
+  private applyEvent(type: string, data: object): void {
+    const domainEvent: DomainEvent = {
+      type,
+      version: 1,
+      occurredAt: this.clock.now(),
+      aggregateId: this._state.deliveryId,
+      aggregateType: 'Delivery',
+      data,
+      metadata: this.eventMetadata,
+    };
+    this.apply(domainEvent);
+  }
+
+  private ensureNotTerminal(operation: string): Result<void, DomainError> {
+    if (DELIVERY_TERMINAL_STATUSES.includes(this._state.status)) {
+      return err({
+        ...DeliveryErrors.DELIVERY_ALREADY_COMPLETED,
+        context: {
+          deliveryId: this._state.deliveryId,
+          webhookId: this._state.webhookId,
+          status: this._state.status,
+          operation,
+        },
+      });
+    }
+    return ok(undefined);
+  }
+}
@@ -0,0 +1,115 @@
+import { DomainError } from 'src/shared/errors';
+
+export interface DeliveryContext extends Record<string, unknown> {
+  deliveryId?: string;
+  webhookId?: string;
+  tenant?: string;
+  attempt?: number;
+  status?: string;
+  statusCode?: number;
+  correlationId?: string;
+  operation?: string;
+  reason?: string;
+}
+
+export const DeliveryErrors = {
+  WEBHOOK_NOT_FOUND: {
+    code: 'DELIVERY.WEBHOOK_NOT_FOUND',
+    title: 'Webhook Not Found',
+    detail: 'The webhook referenced by the delivery does not exist',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.WEBHOOK_NOT_FOUND', DeliveryContext>,
+  WEBHOOK_NOT_ACTIVE: {
+    code: 'DELIVERY.WEBHOOK_NOT_ACTIVE',
+    title: 'Webhook Not Active',
+    detail: 'The webhook is not active and cannot receive deliveries',
+    category: 'domain',
+    retryable: false,
+  } as DomainError<'DELIVERY.WEBHOOK_NOT_ACTIVE', DeliveryContext>,
+  CONFIG_NOT_FOUND: {
+    code: 'DELIVERY.CONFIG_NOT_FOUND',
+    title: 'Config Not Found',
+    detail: 'No delivery configuration exists for the webhook',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.CONFIG_NOT_FOUND', DeliveryContext>,
+  AUTH_NOT_SUPPORTED: {
+    code: 'DELIVERY.AUTH_NOT_SUPPORTED',
+    title: 'Auth Not Supported',
+    detail: 'The configured auth type is not supported by the delivery engine',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.AUTH_NOT_SUPPORTED', DeliveryContext>,
+  SIGNING_SECRET_MISSING: {
+    code: 'DELIVERY.SIGNING_SECRET_MISSING',
+    title: 'Signing Secret Missing',
+    detail: 'HMAC auth is configured but no signing secret could be resolved',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.SIGNING_SECRET_MISSING', DeliveryContext>,
+  OAUTH_CONFIG_INVALID: {
+    code: 'DELIVERY.OAUTH_CONFIG_INVALID',
+    title: 'OAuth Config Invalid',
+    detail:
+      'OAuth2 client credentials auth requires tokenUrl, clientId and clientSecret',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.OAUTH_CONFIG_INVALID', DeliveryContext>,
+  OAUTH_TOKEN_REQUEST_FAILED: {
+    code: 'DELIVERY.OAUTH_TOKEN_REQUEST_FAILED',
+    title: 'OAuth Token Request Failed',
+    detail: 'Failed to obtain an access token from the OAuth2 token endpoint',
+    category: 'infrastructure',
+    retryable: true,
+  } as DomainError<'DELIVERY.OAUTH_TOKEN_REQUEST_FAILED', DeliveryContext>,
+  INVALID_TARGET_URL: {
+    code: 'DELIVERY.INVALID_TARGET_URL',
+    title: 'Invalid Target URL',
+    detail: 'The webhook target URL is not a valid http(s) URL',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.INVALID_TARGET_URL', DeliveryContext>,
+  DELIVERY_ALREADY_COMPLETED: {
+    code: 'DELIVERY.DELIVERY_ALREADY_COMPLETED',
+    title: 'Delivery Already Completed',
+    detail: 'The delivery has already reached a terminal status',
+    category: 'domain',
+    retryable: false,
+  } as DomainError<'DELIVERY.DELIVERY_ALREADY_COMPLETED', DeliveryContext>,
+  DELIVERY_NOT_REPLAYABLE: {
+    code: 'DELIVERY.DELIVERY_NOT_REPLAYABLE',
+    title: 'Delivery Not Replayable',
+    detail: 'Only failed deliveries can be replayed',
+    category: 'domain',
+    retryable: false,
+  } as DomainError<'DELIVERY.DELIVERY_NOT_REPLAYABLE', DeliveryContext>,
+  DELIVERY_NOT_FOUND: {
+    code: 'DELIVERY.DELIVERY_NOT_FOUND',
+    title: 'Delivery Not Found',
+    detail: 'No delivery history exists with the given id',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.DELIVERY_NOT_FOUND', DeliveryContext>,
+  DLQ_ENTRY_NOT_FOUND: {
+    code: 'DELIVERY.DLQ_ENTRY_NOT_FOUND',
+    title: 'Dead Letter Not Found',
+    detail: 'No dead-lettered delivery exists with the given id',
+    category: 'validation',
+    retryable: false,
+  } as DomainError<'DELIVERY.DLQ_ENTRY_NOT_FOUND', DeliveryContext>,
+  DLQ_STORE_FAILED: {
+    code: 'DELIVERY.DLQ_STORE_FAILED',
+    title: 'Dead Letter Store Failed',
+    detail: 'The dead-letter queue store could not be read or written',
+    category: 'infrastructure',
+    retryable: true,
+  } as DomainError<'DELIVERY.DLQ_STORE_FAILED', DeliveryContext>,
+  ENQUEUE_FAILED: {
+    code: 'DELIVERY.ENQUEUE_FAILED',
+    title: 'Enqueue Failed',
+    detail: 'Failed to enqueue the webhook delivery',
+    category: 'infrastructure',
+    retryable: true,
+  } as DomainError<'DELIVERY.ENQUEUE_FAILED', DeliveryContext>,
+};
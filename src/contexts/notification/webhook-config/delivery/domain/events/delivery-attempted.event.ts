@@ -0,0 +1,57 @@
+import type {
+  DeliveryAttemptOutcomeValue,
+  DeliveryErrorClassValue,
+} from '../types';
+
+/**
+ * Delivery Attempted Event Payload
+ * One event per HTTP attempt, including the retry decision taken afterwards
+ */
+export interface DeliveryAttemptedEventPayload {
+  deliveryId: string;
+  webhookId: string;
+  attempt: number;
+  outcome: DeliveryAttemptOutcomeValue;
+  statusCode?: number;
+  durationMs: number;
+  errorClass?: DeliveryErrorClassValue;
+  error?: string;
+  nextRetryAt?: string;
+  attemptedAt: string;
+}
+
+/**
+ * Delivery Attempted Domain Event
+ *
+ * Emitted after every attempt to deliver a webhook, successful or not.
+ */
+export class DeliveryAttemptedEvent {
+  public readonly eventType = 'NotificationWebhookConfigDeliveryAttempted.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: DeliveryAttemptedEventPayload) {}
+
+  static create(data: DeliveryAttemptedEventPayload): DeliveryAttemptedEvent {
+    return new DeliveryAttemptedEvent(data);
+  }
+
+  get deliveryId(): string {
+    return this.payload.deliveryId;
+  }
+
+  get attempt(): number {
+    return this.payload.attempt;
+  }
+
+  get outcome(): DeliveryAttemptOutcomeValue {
+    return this.payload.outcome;
+  }
+
+  get statusCode(): number | undefined {
+    return this.payload.statusCode;
+  }
+
+  get nextRetryAt(): string | undefined {
+    return this.payload.nextRetryAt;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Delivery Failed Event Payload
+ */
+export interface DeliveryFailedEventPayload {
+  deliveryId: string;
+  webhookId: string;
+  attempts: number;
+  reason: string;
+  lastError?: string;
+  statusCode?: number;
+  failedAt: string;
+}
+
+/**
+ * Delivery Failed Domain Event
+ *
+ * Emitted when a delivery is abandoned, either because attempts are
+ * exhausted or because the failure is not retryable.
+ */
+export class DeliveryFailedEvent {
+  public readonly eventType = 'NotificationWebhookConfigDeliveryFailed.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: DeliveryFailedEventPayload) {}
+
+  static create(data: DeliveryFailedEventPayload): DeliveryFailedEvent {
+    return new DeliveryFailedEvent(data);
+  }
+
+  get deliveryId(): string {
+    return this.payload.deliveryId;
+  }
+
+  get attempts(): number {
+    return this.payload.attempts;
+  }
+
+  get reason(): string {
+    return this.payload.reason;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Delivery Replayed Event Payload
+ */
+export interface DeliveryReplayedEventPayload {
+  deliveryId: string;
+  webhookId: string;
+  /** The new delivery that re-sends this one's payload */
+  replayDeliveryId: string;
+  /** User that requested the replay */
+  replayedBy: string;
+  replayedAt: string;
+}
+
+/**
+ * Delivery Replayed Domain Event
+ *
+ * Emitted on a failed delivery's stream when it is replayed from the
+ * dead-letter queue, so every replay is audited against the original.
+ */
+export class DeliveryReplayedEvent {
+  public readonly eventType = 'NotificationWebhookConfigDeliveryReplayed.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: DeliveryReplayedEventPayload) {}
+
+  static create(data: DeliveryReplayedEventPayload): DeliveryReplayedEvent {
+    return new DeliveryReplayedEvent(data);
+  }
+
+  get deliveryId(): string {
+    return this.payload.deliveryId;
+  }
+
+  get replayDeliveryId(): string {
+    return this.payload.replayDeliveryId;
+  }
+}
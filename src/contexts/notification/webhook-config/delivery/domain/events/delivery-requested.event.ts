@@ -0,0 +1,40 @@
+/**
+ * Delivery Requested Event Payload
+ * Reference-only payload: the webhook body itself is not persisted in the stream
+ */
+export interface DeliveryRequestedEventPayload {
+  deliveryId: string;
+  webhookId: string;
+  eventType: string;
+  /** Set when the delivery replays a dead-lettered delivery */
+  replayOf?: string;
+  requestedAt: string;
+}
+
+/**
+ * Delivery Requested Domain Event
+ *
+ * Emitted when a webhook delivery is accepted for processing.
+ */
+export class DeliveryRequestedEvent {
+  public readonly eventType = 'NotificationWebhookConfigDeliveryRequested.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: DeliveryRequestedEventPayload) {}
+
+  static create(data: DeliveryRequestedEventPayload): DeliveryRequestedEvent {
+    return new DeliveryRequestedEvent(data);
+  }
+
+  get deliveryId(): string {
+    return this.payload.deliveryId;
+  }
+
+  get webhookId(): string {
+    return this.payload.webhookId;
+  }
+
+  get requestedAt(): string {
+    return this.payload.requestedAt;
+  }
+}
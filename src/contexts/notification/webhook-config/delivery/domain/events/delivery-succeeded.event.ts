@@ -0,0 +1,38 @@
+/**
+ * Delivery Succeeded Event Payload
+ */
+export interface DeliverySucceededEventPayload {
+  deliveryId: string;
+  webhookId: string;
+  attempts: number;
+  statusCode: number;
+  succeededAt: string;
+}
+
+/**
+ * Delivery Succeeded Domain Event
+ *
+ * Emitted when the target acknowledges the webhook with a 2xx response.
+ */
+export class DeliverySucceededEvent {
+  public readonly eventType = 'NotificationWebhookConfigDeliverySucceeded.v1';
+  public readonly eventVersion = 'v1';
+
+  constructor(public readonly payload: DeliverySucceededEventPayload) {}
+
+  static create(data: DeliverySucceededEventPayload): DeliverySucceededEvent {
+    return new DeliverySucceededEvent(data);
+  }
+
+  get deliveryId(): string {
+    return this.payload.deliveryId;
+  }
+
+  get attempts(): number {
+    return this.payload.attempts;
+  }
+
+  get statusCode(): number {
+    return this.payload.statusCode;
+  }
+}
@@ -0,0 +1,5 @@
+export * from './delivery-requested.event';
+export * from './delivery-attempted.event';
+export * from './delivery-succeeded.event';
+export * from './delivery-failed.event';
+export * from './delivery-replayed.event';
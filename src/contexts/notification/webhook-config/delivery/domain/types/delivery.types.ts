@@ -0,0 +1,38 @@
+/**
+ * Lifecycle status of a single webhook delivery.
+ *
+ * - pending: accepted and waiting for its first attempt
+ * - retrying: at least one attempt failed with a retryable outcome
+ * - succeeded: target acknowledged with a 2xx response (terminal)
+ * - failed: attempts exhausted or non-retryable failure (terminal)
+ */
+export type DeliveryStatusValue =
+  | 'pending'
+  | 'retrying'
+  | 'succeeded'
+  | 'failed';
+
+/**
+ * Outcome recorded for an individual delivery attempt.
+ */
+export type DeliveryAttemptOutcomeValue =
+  | 'succeeded'
+  | 'retryable_failure'
+  | 'permanent_failure';
+
+/**
+ * Classification of transport-level failures, used for retry decisions
+ * and reported on attempt events.
+ */
+export type DeliveryErrorClassValue =
+  | 'connect_timeout'
+  | 'request_timeout'
+  | 'network'
+  | 'http_status'
+  | 'auth'
+  | 'configuration';
+
+export const DELIVERY_TERMINAL_STATUSES: readonly DeliveryStatusValue[] = [
+  'succeeded',
+  'failed',
+] as const;
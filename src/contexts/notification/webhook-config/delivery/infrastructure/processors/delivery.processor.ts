@@ -0,0 +1,110 @@
+import {
+  Injectable,
+  OnModuleInit,
+  OnModuleDestroy,
+  Inject,
+} from '@nestjs/common';
+import { Worker, Job } from 'bullmq';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { AppConfigUtil } from 'src/shared/config/app-config.util';
+import {
+  DeliverWebhookJob,
+  DeliveryWorkerService,
+  WEBHOOK_DELIVERY_QUEUE,
+} from '../services';
+
+/**
+ * Webhook Delivery Queue Processor
+ *
+ * Runs the BullMQ worker for the WebhookDeliveryQueue and delegates each
+ * attempt to DeliveryWorkerService, including jobs that failed for good.
+ */
+@Injectable()
+export class DeliveryProcessor implements OnModuleInit, OnModuleDestroy {
+  private readonly logger: Logger;
+  private worker: Worker | null = null;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    private readonly deliveryWorkerService: DeliveryWorkerService,
+  ) {
+    this.logger = componentLogger(baseLogger, 'DeliveryProcessor');
+  }
+
+  /**
+   * Initialize the BullMQ worker to process jobs
+   */
+  onModuleInit(): void {
+    const redisConfig = AppConfigUtil.getRedisConfig();
+    const environment = AppConfigUtil.getEnvironment();
+    const prefix = `${environment}:webhook-delivery:`;
+
+    this.worker = new Worker(
+      WEBHOOK_DELIVERY_QUEUE.NAME,
+      async (job: Job) => {
+        switch (job.name) {
+          case WEBHOOK_DELIVERY_QUEUE.JOB_NAME:
+            return await this.deliveryWorkerService.processJob(
+              job as Job<DeliverWebhookJob>,
+            );
+          default:
+            throw new Error(`Unknown job type: ${job.name}`);
+        }
+      },
+      {
+        connection: {
+          host: redisConfig.host,
+          port: redisConfig.port,
+          db: redisConfig.database,
+        },
+        prefix,
+        concurrency: 8,
+      },
+    );
+
+    this.worker.on('failed', (job, err) => {
+      Log.error(this.logger, 'Job failed', {
+        method: 'worker.failed',
+        jobId: job?.id,
+        jobName: job?.name,
+        attempts: job?.attemptsMade,
+        error: err.message,
+      });
+      if (job?.name === WEBHOOK_DELIVERY_QUEUE.JOB_NAME) {
+        void this.deliveryWorkerService.handleExhaustedJob(
+          job as Job<DeliverWebhookJob>,
+          err,
+        );
+      }
+    });
+
+    this.worker.on('error', (err) => {
+      Log.error(this.logger, 'Worker error', {
+        method: 'worker.error',
+        error: err.message,
+        stack: err.stack,
+      });
+    });
+
+    Log.info(this.logger, 'DeliveryProcessor worker started', {
+      method: 'onModuleInit',
+      queueName: WEBHOOK_DELIVERY_QUEUE.NAME,
+      concurrency: 8,
+      prefix,
+    });
+  }
+
+  /**
+   * Clean up the worker on module destroy
+   */
+  async onModuleDestroy(): Promise<void> {
+    if (this.worker) {
+      await this.worker.close();
+      this.worker = null;
+
+      Log.info(this.logger, 'DeliveryProcessor worker stopped', {
+        method: 'onModuleDestroy',
+      });
+    }
+  }
+}
@@ -0,0 +1,515 @@
+import type { Redis } from 'ioredis';
+import { ActorContext } from 'src/shared/application/context';
+import { EventMetadata } from 'src/shared/domain/events';
+import { Option } from 'src/shared/domain/types';
+import {
+  CatchUpRunner,
+  ProjectionEvent,
+} from 'src/shared/infrastructure/projections/catchup.runner';
+import { CheckpointStore } from 'src/shared/infrastructure/projections/checkpoint.store';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { ListDeliveryAttemptFilterRequest } from '../../../application/dtos';
+import { DeliveryProjectionKeys } from '../../../delivery-projection-keys';
+import type { DeliveryAttemptedEventPayload } from '../../../domain/events';
+import { DeliveryHistoryQueryRepository } from '../../repositories/delivery-history-redis-query.repository';
+import { DeliveryHistoryProjector } from '../delivery-history-redis.projector';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+/**
+ * Queues commands and runs them in order on exec, for both MULTI and
+ * pipelines
+ */
+class FakeTransaction {
+  private readonly commands: (() => Promise<unknown>)[] = [];
+
+  constructor(private readonly redis: FakeRedis) {}
+
+  hset(...args: Parameters<FakeRedis['hset']>): this {
+    this.commands.push(() => this.redis.hset(...args));
+    return this;
+  }
+
+  hsetnx(...args: Parameters<FakeRedis['hsetnx']>): this {
+    this.commands.push(() => this.redis.hsetnx(...args));
+    return this;
+  }
+
+  hget(...args: Parameters<FakeRedis['hget']>): this {
+    this.commands.push(() => this.redis.hget(...args));
+    return this;
+  }
+
+  pexpireat(): this {
+    return this;
+  }
+
+  zadd(...args: Parameters<FakeRedis['zadd']>): this {
+    this.commands.push(() => this.redis.zadd(...args));
+    return this;
+  }
+
+  zremrangebyscore(...args: Parameters<FakeRedis['zremrangebyscore']>): this {
+    this.commands.push(() => this.redis.zremrangebyscore(...args));
+    return this;
+  }
+
+  async exec(): Promise<[null, unknown][]> {
+    const results: [null, unknown][] = [];
+    for (const command of this.commands) {
+      results.push([null, await command()]);
+    }
+    return results;
+  }
+}
+
+/**
+ * In-memory stand-in for the hash and sorted set commands the history
+ * projection reads and writes
+ */
+class FakeRedis {
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly zsets = new Map<string, Map<string, number>>();
+
+  multi(): FakeTransaction {
+    return new FakeTransaction(this);
+  }
+
+  pipeline(): FakeTransaction {
+    return new FakeTransaction(this);
+  }
+
+  hset(
+    key: string,
+    fields: Record<string, string> | string,
+    value?: string,
+  ): Promise<number> {
+    const hash = this.hash(key);
+    const entries =
+      typeof fields === 'string'
+        ? [[fields, value ?? '']]
+        : Object.entries(fields);
+    for (const [field, fieldValue] of entries) hash.set(field, fieldValue);
+    return Promise.resolve(entries.length);
+  }
+
+  hsetnx(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hash(key);
+    if (hash.has(field)) return Promise.resolve(0);
+    hash.set(field, value);
+    return Promise.resolve(1);
+  }
+
+  hget(key: string, field: string): Promise<string | null> {
+    return Promise.resolve(this.hashes.get(key)?.get(field) ?? null);
+  }
+
+  hmget(key: string, ...fields: string[]): Promise<(string | null)[]> {
+    return Promise.resolve(
+      fields.map((field) => this.hashes.get(key)?.get(field) ?? null),
+    );
+  }
+
+  hgetall(key: string): Promise<Record<string, string>> {
+    return Promise.resolve(Object.fromEntries(this.hashes.get(key) ?? []));
+  }
+
+  hvals(key: string): Promise<string[]> {
+    return Promise.resolve([...(this.hashes.get(key)?.values() ?? [])]);
+  }
+
+  exists(key: string): Promise<number> {
+    return Promise.resolve(this.hashes.has(key) ? 1 : 0);
+  }
+
+  zadd(key: string, score: number, member: string): Promise<number> {
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    zset.set(member, score);
+    this.zsets.set(key, zset);
+    return Promise.resolve(1);
+  }
+
+  zremrangebyscore(key: string, min: string, max: number): Promise<number> {
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    let removed = 0;
+    for (const [member, score] of zset) {
+      if (this.inRange(score, min, max)) {
+        zset.delete(member);
+        removed++;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+
+  zrangebyscore(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<string[]> {
+    return Promise.resolve(
+      [...(this.zsets.get(key) ?? [])]
+        .filter(([, score]) => this.inRange(score, min, max))
+        .sort(([, a], [, b]) => a - b)
+        .map(([member]) => member),
+    );
+  }
+
+  private hash(key: string): Map<string, string> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    this.hashes.set(key, hash);
+    return hash;
+  }
+
+  private inRange(
+    score: number,
+    min: number | string,
+    max: number | string,
+  ): boolean {
+    return (
+      (min === '-inf' || score >= Number(min)) &&
+      (max === '+inf' || score <= Number(max))
+    );
+  }
+}
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+  nowMs: () => NOW.getTime(),
+};
+const actor: ActorContext = {
+  tenant: 'tenant-a',
+  userId: 'user-1',
+  tenant_userId: 'tenant-a_user-1',
+};
+
+let revision = 0;
+const event = (type: string, data: unknown): ProjectionEvent => ({
+  type: `NotificationWebhookConfigDelivery${type}.v1`,
+  data,
+  streamId: 'gs.notification.delivery-1',
+  revision: revision++,
+  metadata: {
+    actor: { tenant: 'tenant-a', userId: 'user-1' },
+    correlationId: 'corr-1',
+    timestampIso: NOW.toISOString(),
+  } as EventMetadata,
+});
+
+const requested = (
+  deliveryId: string,
+  extra: { webhookId?: string; replayOf?: string; requestedAt?: string } = {},
+) =>
+  event('Requested', {
+    deliveryId,
+    webhookId: extra.webhookId ?? 'orders-hook',
+    eventType: 'OrderShipped.v1',
+    requestedAt: extra.requestedAt ?? '2026-03-02T09:00:00.000Z',
+    ...(extra.replayOf && { replayOf: extra.replayOf }),
+  });
+
+const attempted = (
+  deliveryId: string,
+  attempt: number,
+  extra: Partial<DeliveryAttemptedEventPayload> = {},
+) =>
+  event('Attempted', {
+    deliveryId,
+    webhookId: 'orders-hook',
+    attempt,
+    outcome: 'succeeded',
+    statusCode: 200,
+    durationMs: 80,
+    attemptedAt: `2026-03-02T09:0${attempt}:00.000Z`,
+    ...extra,
+  });
+
+describe('DeliveryHistoryProjector', () => {
+  let redis: FakeRedis;
+  let project: (event: ProjectionEvent) => Promise<void>;
+  let projector: DeliveryHistoryProjector;
+  let history: DeliveryHistoryQueryRepository;
+
+  beforeEach(() => {
+    revision = 0;
+    redis = new FakeRedis();
+    const runSafe = jest.fn((_group, fn: typeof project) => {
+      project = fn;
+      return new Promise(() => undefined);
+    });
+
+    projector = new DeliveryHistoryProjector(
+      createMockLogger(),
+      { runSafe, stop: jest.fn() } as unknown as CatchUpRunner,
+      {} as CheckpointStore,
+      redis as unknown as Redis,
+      clock,
+    );
+    projector.onModuleInit();
+    history = new DeliveryHistoryQueryRepository(
+      createMockLogger(),
+      clock,
+      redis as unknown as Redis,
+    );
+  });
+
+  afterEach(() => projector.onModuleDestroy());
+
+  const findDelivery = async (deliveryId: string) => {
+    const result = await history.findById(actor, deliveryId);
+    return result.ok && Option.isSome(result.value)
+      ? result.value.value
+      : undefined;
+  };
+
+  describe('delivery detail', () => {
+    test('records every attempt and the final outcome', async () => {
+      await project(requested('delivery-1'));
+      await project(
+        attempted('delivery-1', 1, {
+          outcome: 'retryable_failure',
+          statusCode: 503,
+          errorClass: 'http_status',
+          nextRetryAt: '2026-03-02T09:01:30.000Z',
+        }),
+      );
+      await project(attempted('delivery-1', 2));
+      await project(
+        event('Succeeded', {
+          deliveryId: 'delivery-1',
+          webhookId: 'orders-hook',
+          attempts: 2,
+          statusCode: 200,
+          succeededAt: '2026-03-02T09:02:01.000Z',
+        }),
+      );
+
+      const delivery = await findDelivery('delivery-1');
+
+      expect(delivery).toEqual(
+        expect.objectContaining({
+          status: 'succeeded',
+          eventType: 'OrderShipped.v1',
+          requestedAt: '2026-03-02T09:00:00.000Z',
+          completedAt: '2026-03-02T09:02:01.000Z',
+          replayedBy: [],
+        }),
+      );
+      expect(delivery?.attempts).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          outcome: 'retryable_failure',
+          statusCode: 503,
+          eventType: 'OrderShipped.v1',
+          nextRetryAt: '2026-03-02T09:01:30.000Z',
+        }),
+        expect.objectContaining({ attempt: 2, outcome: 'succeeded' }),
+      ]);
+    });
+
+    test('shows a delivery as retrying after a retryable failure', async () => {
+      await project(requested('delivery-1'));
+      await project(
+        attempted('delivery-1', 1, { outcome: 'retryable_failure' }),
+      );
+
+      expect((await findDelivery('delivery-1'))?.status).toBe('retrying');
+    });
+
+    test('keeps the final status when the stream is replayed', async () => {
+      const events = [
+        requested('delivery-1'),
+        attempted('delivery-1', 1, { outcome: 'retryable_failure' }),
+        event('Failed', {
+          deliveryId: 'delivery-1',
+          webhookId: 'orders-hook',
+          attempts: 1,
+          reason: 'non_retryable',
+          lastError: 'HTTP 410',
+          failedAt: '2026-03-02T09:01:01.000Z',
+        }),
+      ];
+      for (const e of events) await project(e);
+
+      await project(events[0]);
+      await project(events[1]);
+
+      const delivery = await findDelivery('delivery-1');
+      expect(delivery).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          reason: 'non_retryable',
+          lastError: 'HTTP 410',
+        }),
+      );
+      expect(delivery?.attempts).toHaveLength(1);
+    });
+
+    test('links a replay and its original both ways, once', async () => {
+      const replayed = event('Replayed', {
+        deliveryId: 'delivery-1',
+        webhookId: 'orders-hook',
+        replayDeliveryId: 'delivery-2',
+        replayedBy: 'user-1',
+        replayedAt: '2026-03-02T09:30:00.000Z',
+      });
+      await project(requested('delivery-1'));
+      await project(replayed);
+      await project(replayed);
+      await project(requested('delivery-2', { replayOf: 'delivery-1' }));
+
+      expect((await findDelivery('delivery-1'))?.replayedBy).toEqual([
+        'delivery-2',
+      ]);
+      expect((await findDelivery('delivery-2'))?.replayOf).toBe('delivery-1');
+    });
+
+    test('ignores outcomes for a delivery it never saw requested', async () => {
+      await project(
+        event('Succeeded', {
+          deliveryId: 'delivery-9',
+          webhookId: 'orders-hook',
+          attempts: 1,
+          statusCode: 200,
+          succeededAt: '2026-03-02T09:00:01.000Z',
+        }),
+      );
+
+      await expect(history.findById(actor, 'delivery-9')).resolves.toEqual({
+        ok: true,
+        value: Option.none(),
+      });
+    });
+
+    test('writes nothing for events already past retention', async () => {
+      await project(
+        requested('delivery-1', { requestedAt: '2026-01-15T09:00:00.000Z' }),
+      );
+
+      expect(redis.hashes.size).toBe(0);
+    });
+  });
+
+  describe('attempt listing', () => {
+    beforeEach(async () => {
+      await project(requested('delivery-1'));
+      await project(requested('delivery-2', { webhookId: 'billing-hook' }));
+      await project(
+        attempted('delivery-1', 1, {
+          outcome: 'retryable_failure',
+          statusCode: undefined,
+          errorClass: 'connect_timeout',
+        }),
+      );
+      await project(
+        attempted('delivery-1', 2, {
+          outcome: 'retryable_failure',
+          statusCode: 503,
+          errorClass: 'http_status',
+        }),
+      );
+      await project(attempted('delivery-1', 3));
+      await project(
+        attempted('delivery-2', 1, {
+          webhookId: 'billing-hook',
+          attemptedAt: '2026-03-02T09:04:00.000Z',
+        }),
+      );
+    });
+
+    const list = async (filter: Partial<ListDeliveryAttemptFilterRequest>) => {
+      const result = await history.findAttemptsPaginated(
+        actor,
+        Object.assign(new ListDeliveryAttemptFilterRequest(), filter),
+      );
+      if (!result.ok) throw new Error(result.error.code);
+      return result.value;
+    };
+    const keys = (page: { data: { deliveryId: string; attempt: number }[] }) =>
+      page.data.map((a) => `${a.deliveryId}:${a.attempt}`);
+
+    test('lists the newest attempts first, a page at a time', async () => {
+      const page = await list({ page: 1, size: 3 });
+
+      expect(keys(page)).toEqual([
+        'delivery-2:1',
+        'delivery-1:3',
+        'delivery-1:2',
+      ]);
+      expect(page.meta).toEqual(
+        expect.objectContaining({
+          totalItems: 4,
+          totalPages: 2,
+          hasNextPage: true,
+          hasPreviousPage: false,
+        }),
+      );
+      expect(keys(await list({ page: 2, size: 3 }))).toEqual(['delivery-1:1']);
+    });
+
+    test('filters by webhook, outcome and error class', async () => {
+      expect(keys(await list({ webhookId: 'billing-hook' }))).toEqual([
+        'delivery-2:1',
+      ]);
+      expect(keys(await list({ outcome: 'retryable_failure' }))).toEqual([
+        'delivery-1:2',
+        'delivery-1:1',
+      ]);
+      expect(keys(await list({ errorClass: 'connect_timeout' }))).toEqual([
+        'delivery-1:1',
+      ]);
+    });
+
+    test('lists only the attempts inside the time window', async () => {
+      const page = await list({
+        from: '2026-03-02T09:02:00.000Z',
+        to: '2026-03-02T09:03:00.000Z',
+      });
+
+      expect(keys(page)).toEqual(['delivery-1:3', 'delivery-1:2']);
+    });
+
+    test('lists one delivery from its own record', async () => {
+      const page = await list({
+        deliveryId: 'delivery-1',
+        sortBy: { attempt: 'asc' },
+      });
+
+      expect(keys(page)).toEqual([
+        'delivery-1:1',
+        'delivery-1:2',
+        'delivery-1:3',
+      ]);
+    });
+
+    test('sorts attempts without a status code last', async () => {
+      const page = await list({
+        deliveryId: 'delivery-1',
+        sortBy: { statusCode: 'asc' },
+      });
+
+      expect(page.data.map((a) => a.statusCode)).toEqual([200, 503, undefined]);
+    });
+
+    test('skips index entries whose attempt records have expired', async () => {
+      redis.hashes.delete(
+        DeliveryProjectionKeys.getRedisHistoryAttemptsKey(
+          'tenant-a',
+          'delivery-1',
+        ),
+      );
+
+      expect(keys(await list({}))).toEqual(['delivery-2:1']);
+    });
+  });
+});
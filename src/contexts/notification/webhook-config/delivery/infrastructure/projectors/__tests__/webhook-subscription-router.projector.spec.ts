@@ -0,0 +1,247 @@
+import type { Redis } from 'ioredis';
+import { EventMetadata } from 'src/shared/domain/events';
+import { ok } from 'src/shared/errors';
+import {
+  CatchUpRunner,
+  ProjectionEvent,
+} from 'src/shared/infrastructure/projections/catchup.runner';
+import { CheckpointStore } from 'src/shared/infrastructure/projections/checkpoint.store';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { DeliveryQueueService } from '../../services/delivery-queue.service';
+import { WebhookSubscriptionIndex } from '../../services/webhook-subscription.index';
+import { WebhookSubscriptionRouterProjector } from '../webhook-subscription-router.projector';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+/**
+ * In-memory stand-in for the string and hash commands the router uses
+ */
+class FakeRedis {
+  readonly strings = new Map<string, string>();
+  readonly hashes = new Map<string, Map<string, string>>();
+
+  set(key: string, value: string, ...args: unknown[]): Promise<'OK' | null> {
+    if (args.includes('NX') && this.strings.has(key)) {
+      return Promise.resolve(null);
+    }
+    this.strings.set(key, value);
+    return Promise.resolve('OK');
+  }
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.strings.get(key) ?? null);
+  }
+
+  del(key: string): Promise<number> {
+    return Promise.resolve(this.strings.delete(key) ? 1 : 0);
+  }
+
+  hset(key: string, field: string, value: string): Promise<number> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    hash.set(field, value);
+    this.hashes.set(key, hash);
+    return Promise.resolve(1);
+  }
+
+  hdel(key: string, field: string): Promise<number> {
+    return Promise.resolve(this.hashes.get(key)?.delete(field) ? 1 : 0);
+  }
+
+  hgetall(key: string): Promise<Record<string, string>> {
+    return Promise.resolve(Object.fromEntries(this.hashes.get(key) ?? []));
+  }
+}
+
+const STARTED_AT = new Date('2026-03-02T10:00:00.000Z');
+
+const metadata = (tenant: string, timestampIso: string) =>
+  ({
+    actor: { tenant, userId: 'user-1', tenant_userId: `${tenant}_user-1` },
+    correlationId: 'corr-1',
+    timestampIso,
+  }) as EventMetadata;
+
+let revision = 0;
+const event = (
+  type: string,
+  data: unknown,
+  options: { tenant?: string; at?: string } = {},
+): ProjectionEvent => ({
+  type,
+  data,
+  streamId: 'gs.notification.orders-1',
+  revision: revision++,
+  metadata: metadata(
+    options.tenant ?? 'tenant-a',
+    options.at ?? '2026-03-02T10:05:00.000Z',
+  ),
+});
+
+const webhook = (
+  id: string,
+  webhookEventType: string,
+  status = 'active',
+  tenant = 'tenant-a',
+) =>
+  event(
+    'NotificationWebhookConfigWorkspaceCreated.v1',
+    { id, webhookEventType, status },
+    { tenant },
+  );
+
+describe('WebhookSubscriptionRouterProjector', () => {
+  let redis: FakeRedis;
+  let enqueueDelivery: jest.Mock;
+  let project: (event: ProjectionEvent) => Promise<void>;
+  let router: WebhookSubscriptionRouterProjector;
+
+  beforeEach(async () => {
+    revision = 0;
+    redis = new FakeRedis();
+    enqueueDelivery = jest
+      .fn()
+      .mockResolvedValue(ok({ deliveryId: 'delivery-1', jobId: 'job-1' }));
+    const runSafe = jest.fn((_group, fn: typeof project) => {
+      project = fn;
+      return new Promise(() => undefined);
+    });
+
+    router = new WebhookSubscriptionRouterProjector(
+      createMockLogger(),
+      { runSafe, stop: jest.fn() } as unknown as CatchUpRunner,
+      {} as CheckpointStore,
+      redis as unknown as Redis,
+      { now: () => new Date(STARTED_AT) } as Clock,
+      new WebhookSubscriptionIndex(
+        createMockLogger(),
+        redis as unknown as Redis,
+      ),
+      { enqueueDelivery } as unknown as DeliveryQueueService,
+    );
+    await router.onModuleInit();
+  });
+
+  afterEach(() => router.onModuleDestroy());
+
+  const routedWebhooks = () =>
+    enqueueDelivery.mock.calls.map(
+      ([, delivery]) => (delivery as { webhookId: string }).webhookId,
+    );
+
+  test('delivers an event to every webhook subscribed to its type', async () => {
+    await project(webhook('shipped-hook', 'OrderShipped.v1'));
+    await project(webhook('all-orders-hook', 'Order*'));
+    await project(webhook('cancelled-hook', 'OrderCancelled.v1'));
+
+    await project(event('OrderShipped.v1', { orderId: 'A-1001' }));
+
+    expect(routedWebhooks().sort()).toEqual([
+      'all-orders-hook',
+      'shipped-hook',
+    ]);
+    expect(enqueueDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({ tenant: 'tenant-a' }),
+      expect.objectContaining({
+        webhookId: 'shipped-hook',
+        eventType: 'OrderShipped.v1',
+        payload: expect.objectContaining({
+          type: 'OrderShipped.v1',
+          source: 'gs.notification.orders-1',
+          data: { orderId: 'A-1001' },
+        }) as unknown,
+        correlationId: 'corr-1',
+      }),
+    );
+  });
+
+  test('routes only to webhooks of the tenant the event belongs to', async () => {
+    await project(webhook('other-tenant-hook', '*', 'active', 'tenant-b'));
+
+    await project(event('OrderShipped.v1', {}));
+
+    expect(enqueueDelivery).not.toHaveBeenCalled();
+  });
+
+  test('buffers for paused webhooks and drops for disabled ones', async () => {
+    await project(webhook('paused-hook', '*', 'paused'));
+    await project(webhook('disabled-hook', '*', 'disabled'));
+
+    await project(event('OrderShipped.v1', {}));
+
+    expect(routedWebhooks()).toEqual(['paused-hook']);
+  });
+
+  test('follows subscription changes and deletions', async () => {
+    await project(webhook('orders-hook', 'OrderShipped.v1'));
+    await project(
+      event('NotificationWebhookConfigWorkspaceUpdated.v1', {
+        id: 'orders-hook',
+        webhookEventType: 'OrderCancelled.v1',
+        status: 'active',
+      }),
+    );
+    await project(event('OrderShipped.v1', {}));
+    expect(enqueueDelivery).not.toHaveBeenCalled();
+
+    await project(
+      event('NotificationWebhookConfigWorkspaceDeleted.v1', {
+        id: 'orders-hook',
+      }),
+    );
+    await project(event('OrderCancelled.v1', {}));
+    expect(enqueueDelivery).not.toHaveBeenCalled();
+  });
+
+  test('never fans out webhook configuration events', async () => {
+    await project(webhook('all-hook', '*'));
+
+    await project(
+      event('NotificationWebhookConfigDeliverySucceeded.v1', { id: 'd-1' }),
+    );
+
+    expect(enqueueDelivery).not.toHaveBeenCalled();
+  });
+
+  test('skips events written before the router first started', async () => {
+    await project(webhook('all-hook', '*'));
+
+    await project(
+      event('OrderShipped.v1', {}, { at: '2026-03-02T09:59:59.000Z' }),
+    );
+
+    expect(enqueueDelivery).not.toHaveBeenCalled();
+  });
+
+  test('delivers an event replayed from an older checkpoint only once', async () => {
+    await project(webhook('all-hook', '*'));
+    const shipped = event('OrderShipped.v1', {});
+
+    await project(shipped);
+    await project(shipped);
+
+    expect(enqueueDelivery).toHaveBeenCalledTimes(1);
+  });
+
+  test('lets the runner retry an event that could not be queued', async () => {
+    await project(webhook('all-hook', '*'));
+    const shipped = event('OrderShipped.v1', {});
+    enqueueDelivery.mockResolvedValueOnce({
+      ok: false,
+      error: { code: 'DELIVERY.ENQUEUE_FAILED', title: 'Enqueue failed' },
+    });
+
+    await expect(project(shipped)).rejects.toThrow('Enqueue failed');
+    await project(shipped);
+
+    expect(enqueueDelivery).toHaveBeenCalledTimes(2);
+  });
+});
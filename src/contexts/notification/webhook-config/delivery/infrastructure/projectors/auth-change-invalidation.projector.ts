@@ -0,0 +1,120 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import {
+  CatchUpRunner,
+  ProjectionEvent,
+  RunOptions,
+} from 'src/shared/infrastructure/projections/catchup.runner';
+import { CheckpointStore } from 'src/shared/infrastructure/projections/checkpoint.store';
+import { BaseProjector } from 'src/shared/infrastructure/projections/base.projector';
+import { TenantExtractor } from 'src/shared/infrastructure/projections/projection.utils';
+import { APP_LOGGER, Log, Logger } from 'src/shared/logging';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { AuthProjectionKeys } from '../../../auth/auth-projection-keys';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import { OAuth2TokenBroker } from '../services/oauth2-token.broker';
+import { WebhookTlsAgentPool } from '../services/webhook-tls-agent.pool';
+
+/** Auth events after which cached tokens and TLS agents may be stale */
+const AUTH_CHANGE_EVENTS = new Set([
+  'NotificationWebhookConfigAuthCreated.v1',
+  'NotificationWebhookConfigAuthUpdated.v1',
+  'NotificationWebhookConfigAuthDeleted.v1',
+]);
+
+/**
+ * Auth Change Invalidation Projector
+ *
+ * Follows the auth event streams and, whenever a webhook's auth aggregate
+ * changes, drops its cached OAuth2 access token and pooled TLS agent so
+ * the next delivery picks up the new credentials.
+ */
+@Injectable()
+export class AuthChangeInvalidationProjector
+  extends BaseProjector
+  implements OnModuleInit, OnModuleDestroy
+{
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.CATCHUP_RUNNER)
+    private readonly catchUpRunner: CatchUpRunner,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.CHECKPOINT_STORE)
+    checkpointStore: CheckpointStore,
+    private readonly tokenBroker: OAuth2TokenBroker,
+    private readonly tlsAgentPool: WebhookTlsAgentPool,
+  ) {
+    super(
+      DeliveryProjectionKeys.AUTH_CHANGE_INVALIDATION_PROJECTOR,
+      DeliveryProjectionKeys.AUTH_CHANGE_INVALIDATION_GROUP,
+      baseLogger,
+      checkpointStore,
+    );
+  }
+
+  onModuleInit(): void {
+    const runOptions: RunOptions = {
+      prefixes: [AuthProjectionKeys.getEventStoreStreamPrefix()],
+      batchSize: 100,
+      stopOnCaughtUp: false,
+      maxRetries: 3,
+      retryDelayMs: 1000,
+      checkpointBatchSize: 10,
+    };
+
+    // Start in the background without blocking module initialization
+    this.catchUpRunner
+      .runSafe(
+        this.subscriptionGroup,
+        this.projectEvent.bind(this) as (
+          event: ProjectionEvent,
+        ) => Promise<void>,
+        runOptions,
+      )
+      .then((result) => {
+        if (!result.ok) {
+          this.updateHealthStatusOnError(
+            result.error.detail || 'Unknown error',
+          );
+          Log.error(this.logger, 'Auth change invalidation projection failed', {
+            method: 'onModuleInit',
+            error: result.error.detail || 'Unknown error',
+          });
+        }
+      })
+      .catch((error) => {
+        const e = error as Error;
+        this.updateHealthStatusOnError(e.message);
+        Log.error(this.logger, 'Auth change invalidation projection crashed', {
+          method: 'onModuleInit',
+          error: e.message,
+          stack: e.stack,
+        });
+      });
+
+    this.setRunning(true);
+  }
+
+  onModuleDestroy(): void {
+    this.catchUpRunner.stop(this.subscriptionGroup);
+    this.setRunning(false);
+  }
+
+  private async projectEvent(event: ProjectionEvent): Promise<void> {
+    if (!AUTH_CHANGE_EVENTS.has(event.type)) return;
+
+    const data = event.data as { webhookId?: string } | undefined;
+    const webhookId =
+      data?.webhookId ??
+      AuthProjectionKeys.extractFromStreamName(event.streamId)?.code;
+    if (!webhookId) return;
+
+    const tenant = TenantExtractor.extractTenant(event);
+    this.tlsAgentPool.invalidate(tenant, webhookId);
+    await this.tokenBroker.invalidate(tenant, webhookId);
+    this.updateHealthStatusOnSuccess();
+  }
+}
@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Redis } from 'ioredis';
+import {
+  CatchUpRunner,
+  ProjectionEvent,
+  RunOptions,
+} from 'src/shared/infrastructure/projections/catchup.runner';
+import { CheckpointStore } from 'src/shared/infrastructure/projections/checkpoint.store';
+import { BaseProjector } from 'src/shared/infrastructure/projections/base.projector';
+import { TenantExtractor } from 'src/shared/infrastructure/projections/projection.utils';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { APP_LOGGER, Log, Logger } from 'src/shared/logging';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import type {
+  DeliveryAttemptedEventPayload,
+  DeliveryFailedEventPayload,
+  DeliveryReplayedEventPayload,
+  DeliveryRequestedEventPayload,
+  DeliverySucceededEventPayload,
+} from '../../domain/events';
+import { DELIVERY_TERMINAL_STATUSES } from '../../domain/types';
+import type { DeliveryStatusValue } from '../../domain/types';
+import type { DeliveryAttemptResponse } from '../../application/dtos';
+
+/**
+ * Delivery History Redis Projector
+ *
+ * Builds the delivery history read model from the delivery streams:
+ * - a hash per delivery with its status, outcome and replay links
+ * - a hash per delivery of attempt number -> attempt record
+ * - a per-tenant sorted set of attempts by attempt time, for listing
+ *
+ * Every write is keyed by delivery and attempt number, so replaying the
+ * stream from an older checkpoint rewrites the same records. Records expire
+ * HISTORY_RETENTION_SECONDS after the event that last touched them.
+ */
+@Injectable()
+export class DeliveryHistoryProjector
+  extends BaseProjector
+  implements OnModuleInit, OnModuleDestroy
+{
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.CATCHUP_RUNNER)
+    private readonly catchUpRunner: CatchUpRunner,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.CHECKPOINT_STORE)
+    checkpointStore: CheckpointStore,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    super(
+      DeliveryProjectionKeys.HISTORY_PROJECTOR,
+      DeliveryProjectionKeys.HISTORY_GROUP,
+      baseLogger,
+      checkpointStore,
+    );
+  }
+
+  onModuleInit(): void {
+    const runOptions: RunOptions = {
+      prefixes: [DeliveryProjectionKeys.getEventStoreStreamPrefix()],
+      batchSize: 100,
+      stopOnCaughtUp: false,
+      maxRetries: 3,
+      retryDelayMs: 1000,
+      checkpointBatchSize: 10,
+    };
+
+    // Start in the background without blocking module initialization
+    this.catchUpRunner
+      .runSafe(
+        this.subscriptionGroup,
+        this.projectEvent.bind(this) as (
+          event: ProjectionEvent,
+        ) => Promise<void>,
+        runOptions,
+      )
+      .then((result) => {
+        if (!result.ok) {
+          this.updateHealthStatusOnError(
+            result.error.detail || 'Unknown error',
+          );
+          Log.error(this.logger, 'Delivery history projection failed', {
+            method: 'onModuleInit',
+            error: result.error.detail || 'Unknown error',
+          });
+        }
+      })
+      .catch((error) => {
+        const e = error as Error;
+        this.updateHealthStatusOnError(e.message);
+        Log.error(this.logger, 'Delivery history projection crashed', {
+          method: 'onModuleInit',
+          error: e.message,
+          stack: e.stack,
+        });
+      });
+
+    this.setRunning(true);
+  }
+
+  onModuleDestroy(): void {
+    this.catchUpRunner.stop(this.subscriptionGroup);
+    this.setRunning(false);
+  }
+
+  private async projectEvent(event: ProjectionEvent): Promise<void> {
+    const tenant = TenantExtractor.extractTenant(event);
+
+    switch (event.type) {
+      case 'NotificationWebhookConfigDeliveryRequested.v1':
+        await this.projectRequested(
+          tenant,
+          event.data as DeliveryRequestedEventPayload,
+        );
+        break;
+      case 'NotificationWebhookConfigDeliveryAttempted.v1':
+        await this.projectAttempted(
+          tenant,
+          event.data as DeliveryAttemptedEventPayload,
+        );
+        break;
+      case 'NotificationWebhookConfigDeliverySucceeded.v1': {
+        const data = event.data as DeliverySucceededEventPayload;
+        await this.updateHistory(tenant, data.deliveryId, data.succeededAt, {
+          status: 'succeeded',
+          completedAt: data.succeededAt,
+        });
+        break;
+      }
+      case 'NotificationWebhookConfigDeliveryFailed.v1': {
+        const data = event.data as DeliveryFailedEventPayload;
+        await this.updateHistory(tenant, data.deliveryId, data.failedAt, {
+          status: 'failed',
+          reason: data.reason,
+          ...(data.lastError && { lastError: data.lastError }),
+          completedAt: data.failedAt,
+        });
+        break;
+      }
+      case 'NotificationWebhookConfigDeliveryReplayed.v1':
+        await this.projectReplayed(
+          tenant,
+          event.data as DeliveryReplayedEventPayload,
+        );
+        break;
+      default:
+        break;
+    }
+
+    this.updateHealthStatusOnSuccess();
+  }
+
+  private async projectRequested(
+    tenant: string,
+    data: DeliveryRequestedEventPayload,
+  ): Promise<void> {
+    const expireAtMs = this.expireAtMs(data.requestedAt);
+    if (expireAtMs === null) return;
+
+    const key = DeliveryProjectionKeys.getRedisHistoryKey(
+      tenant,
+      data.deliveryId,
+    );
+    await this.redis
+      .multi()
+      .hset(key, {
+        deliveryId: data.deliveryId,
+        webhookId: data.webhookId,
+        eventType: data.eventType,
+        requestedAt: data.requestedAt,
+        ...(data.replayOf && { replayOf: data.replayOf }),
+      })
+      // Keep a later status when the stream is replayed
+      .hsetnx(key, 'status', 'pending')
+      .pexpireat(key, expireAtMs)
+      .exec();
+  }
+
+  private async projectAttempted(
+    tenant: string,
+    data: DeliveryAttemptedEventPayload,
+  ): Promise<void> {
+    const expireAtMs = this.expireAtMs(data.attemptedAt);
+    if (expireAtMs === null) return;
+
+    const historyKey = DeliveryProjectionKeys.getRedisHistoryKey(
+      tenant,
+      data.deliveryId,
+    );
+    const attemptsKey = DeliveryProjectionKeys.getRedisHistoryAttemptsKey(
+      tenant,
+      data.deliveryId,
+    );
+    const indexKey = DeliveryProjectionKeys.getRedisHistoryIndexKey(tenant);
+
+    const [eventType, status] = await this.redis.hmget(
+      historyKey,
+      'eventType',
+      'status',
+    );
+
+    const record: DeliveryAttemptResponse = {
+      deliveryId: data.deliveryId,
+      webhookId: data.webhookId,
+      eventType: eventType ?? '',
+      attempt: data.attempt,
+      outcome: data.outcome,
+      statusCode: data.statusCode,
+      durationMs: data.durationMs,
+      errorClass: data.errorClass,
+      error: data.error,
+      nextRetryAt: data.nextRetryAt,
+      attemptedAt: data.attemptedAt,
+    };
+
+    const tx = this.redis
+      .multi()
+      .hset(attemptsKey, String(data.attempt), JSON.stringify(record))
+      .pexpireat(attemptsKey, expireAtMs)
+      .zadd(
+        indexKey,
+        Date.parse(data.attemptedAt),
+        `${data.deliveryId}:${data.attempt}`,
+      )
+      .zremrangebyscore(
+        indexKey,
+        '-inf',
+        this.clock.nowMs() -
+          DeliveryProjectionKeys.HISTORY_RETENTION_SECONDS * 1000,
+      );
+
+    const terminal = DELIVERY_TERMINAL_STATUSES.includes(
+      status as DeliveryStatusValue,
+    );
+    if (data.outcome === 'retryable_failure' && !terminal) {
+      tx.hset(historyKey, 'status', 'retrying');
+    }
+    if (status !== null) {
+      tx.pexpireat(historyKey, expireAtMs);
+    }
+    await tx.exec();
+  }
+
+  private async projectReplayed(
+    tenant: string,
+    data: DeliveryReplayedEventPayload,
+  ): Promise<void> {
+    const key = DeliveryProjectionKeys.getRedisHistoryKey(
+      tenant,
+      data.deliveryId,
+    );
+    const raw = await this.redis.hget(key, 'replayedBy');
+    const replayedBy = raw ? (JSON.parse(raw) as string[]) : [];
+    if (replayedBy.includes(data.replayDeliveryId)) return;
+
+    await this.updateHistory(tenant, data.deliveryId, data.replayedAt, {
+      replayedBy: JSON.stringify([...replayedBy, data.replayDeliveryId]),
+    });
+  }
+
+  /**
+   * Update a delivery that is already projected; events for a delivery
+   * whose history has expired are ignored
+   */
+  private async updateHistory(
+    tenant: string,
+    deliveryId: string,
+    occurredAt: string,
+    fields: Record<string, string>,
+  ): Promise<void> {
+    const expireAtMs = this.expireAtMs(occurredAt);
+    if (expireAtMs === null) return;
+
+    const key = DeliveryProjectionKeys.getRedisHistoryKey(tenant, deliveryId);
+    if (!(await this.redis.exists(key))) {
+      Log.debug(this.logger, 'Skipping event for unknown delivery', {
+        method: 'updateHistory',
+        tenant,
+        deliveryId,
+      });
+      return;
+    }
+
+    await this.redis
+      .multi()
+      .hset(key, fields)
+      .pexpireat(key, expireAtMs)
+      .exec();
+  }
+
+  /**
+   * When a record written for an event at `occurredAt` expires, or null
+   * when it is already past retention
+   */
+  private expireAtMs(occurredAt: string): number | null {
+    const occurredAtMs = Date.parse(occurredAt);
+    const expireAtMs = Number.isNaN(occurredAtMs)
+      ? this.clock.nowMs() +
+        DeliveryProjectionKeys.HISTORY_RETENTION_SECONDS * 1000
+      : occurredAtMs + DeliveryProjectionKeys.HISTORY_RETENTION_SECONDS * 1000;
+    return expireAtMs > this.clock.nowMs() ? expireAtMs : null;
+  }
+}
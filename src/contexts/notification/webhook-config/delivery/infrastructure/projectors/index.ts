@@ -0,0 +1,3 @@
+export * from './auth-change-invalidation.projector';
+export * from './webhook-subscription-router.projector';
+export * from './delivery-history-redis.projector';
@@ -0,0 +1,287 @@
+import {
+  Injectable,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Redis } from 'ioredis';
+import {
+  CatchUpRunner,
+  ProjectionEvent,
+  RunOptions,
+} from 'src/shared/infrastructure/projections/catchup.runner';
+import { CheckpointStore } from 'src/shared/infrastructure/projections/checkpoint.store';
+import { BaseProjector } from 'src/shared/infrastructure/projections/base.projector';
+import { TenantExtractor } from 'src/shared/infrastructure/projections/projection.utils';
+import { ActorContext } from 'src/shared/application/context';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { APP_LOGGER, Log, Logger } from 'src/shared/logging';
+import type { WorkspaceStatusValue } from 'src/contexts/notification/webhook-config/workspace/domain/value-objects';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { WebhookConfigServiceConstants } from '../../../service-constants';
+import { WorkspaceProjectionKeys } from '../../../workspace/workspace-projection-keys';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import { DeliveryQueueService } from '../services/delivery-queue.service';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionIndex,
+} from '../services/webhook-subscription.index';
+
+const WORKSPACE_UPSERT_EVENTS = new Set([
+  'NotificationWebhookConfigWorkspaceCreated.v1',
+  'NotificationWebhookConfigWorkspaceUpdated.v1',
+]);
+const WORKSPACE_DELETED_EVENT = 'NotificationWebhookConfigWorkspaceDeleted.v1';
+
+/** Webhook configuration and delivery events are never fanned out */
+const WEBHOOK_CONFIG_EVENT_PREFIX = 'NotificationWebhookConfig';
+
+/** Stream prefixes to fan out, comma separated; defaults to the module namespace */
+const FANOUT_STREAM_PREFIXES_ENV = 'WEBHOOK_FANOUT_STREAM_PREFIXES';
+
+/** How long a fanned-out event is remembered, covering checkpoint replays */
+const FANOUT_CLAIM_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Webhook Subscription Router Projector
+ *
+ * Fans domain events out to the webhooks subscribed to them. One catch-up
+ * subscription follows both the workspace streams and the source streams,
+ * so the subscription index is always as current as the events it routes:
+ * - workspace events keep WebhookSubscriptionIndex up to date
+ * - every other event is matched on WorkspaceWebhookEventType and one
+ *   delivery is enqueued per matching webhook
+ *
+ * Active webhooks receive the delivery right away, paused webhooks buffer
+ * it (the worker holds the attempt until the webhook is resumed) and
+ * disabled webhooks drop it.
+ *
+ * Only events written after the router first started are fanned out, so
+ * enabling it does not replay history to existing webhooks. Each event is
+ * claimed per webhook before it is enqueued, so a replay from an older
+ * checkpoint does not deliver it twice.
+ */
+@Injectable()
+export class WebhookSubscriptionRouterProjector
+  extends BaseProjector
+  implements OnModuleInit, OnModuleDestroy
+{
+  private watermark = 0;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.CATCHUP_RUNNER)
+    private readonly catchUpRunner: CatchUpRunner,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.CHECKPOINT_STORE)
+    checkpointStore: CheckpointStore,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly subscriptionIndex: WebhookSubscriptionIndex,
+    private readonly deliveryQueue: DeliveryQueueService,
+  ) {
+    super(
+      DeliveryProjectionKeys.SUBSCRIPTION_ROUTER_PROJECTOR,
+      DeliveryProjectionKeys.SUBSCRIPTION_ROUTER_GROUP,
+      baseLogger,
+      checkpointStore,
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    this.watermark = await this.loadWatermark();
+
+    const runOptions: RunOptions = {
+      prefixes: [
+        ...new Set([
+          WorkspaceProjectionKeys.getEventStoreStreamPrefix(),
+          ...this.sourcePrefixes(),
+        ]),
+      ],
+      batchSize: 100,
+      stopOnCaughtUp: false,
+      maxRetries: 3,
+      retryDelayMs: 1000,
+      checkpointBatchSize: 10,
+    };
+
+    // Start in the background without blocking module initialization
+    this.catchUpRunner
+      .runSafe(
+        this.subscriptionGroup,
+        this.projectEvent.bind(this) as (
+          event: ProjectionEvent,
+        ) => Promise<void>,
+        runOptions,
+      )
+      .then((result) => {
+        if (!result.ok) {
+          this.updateHealthStatusOnError(
+            result.error.detail || 'Unknown error',
+          );
+          Log.error(this.logger, 'Webhook subscription routing failed', {
+            method: 'onModuleInit',
+            error: result.error.detail || 'Unknown error',
+          });
+        }
+      })
+      .catch((error) => {
+        const e = error as Error;
+        this.updateHealthStatusOnError(e.message);
+        Log.error(this.logger, 'Webhook subscription routing crashed', {
+          method: 'onModuleInit',
+          error: e.message,
+          stack: e.stack,
+        });
+      });
+
+    this.setRunning(true);
+  }
+
+  onModuleDestroy(): void {
+    this.catchUpRunner.stop(this.subscriptionGroup);
+    this.setRunning(false);
+  }
+
+  private async projectEvent(event: ProjectionEvent): Promise<void> {
+    const tenant = TenantExtractor.extractTenant(event);
+
+    if (WORKSPACE_UPSERT_EVENTS.has(event.type)) {
+      const data = event.data as {
+        id: string;
+        webhookEventType: string;
+        status: WorkspaceStatusValue;
+      };
+      await this.subscriptionIndex.upsert(tenant, {
+        webhookId: data.id,
+        eventType: data.webhookEventType,
+        status: data.status,
+      });
+    } else if (event.type === WORKSPACE_DELETED_EVENT) {
+      const data = event.data as { id: string };
+      await this.subscriptionIndex.remove(tenant, data.id);
+    } else if (
+      !event.type.startsWith(WEBHOOK_CONFIG_EVENT_PREFIX) &&
+      this.isAfterWatermark(event)
+    ) {
+      await this.fanOut(tenant, event);
+    }
+
+    this.updateHealthStatusOnSuccess();
+  }
+
+  private async fanOut(tenant: string, event: ProjectionEvent): Promise<void> {
+    const subscriptions = await this.subscriptionIndex.match(
+      tenant,
+      event.type,
+    );
+
+    for (const subscription of subscriptions) {
+      if (subscription.status === 'disabled') {
+        Log.debug(this.logger, 'Dropping event for disabled webhook', {
+          method: 'fanOut',
+          tenant,
+          webhookId: subscription.webhookId,
+          eventType: event.type,
+          streamId: event.streamId,
+        });
+        continue;
+      }
+      await this.route(tenant, subscription, event);
+    }
+  }
+
+  private async route(
+    tenant: string,
+    subscription: WebhookSubscription,
+    event: ProjectionEvent,
+  ): Promise<void> {
+    const claimKey = DeliveryProjectionKeys.getRedisFanOutClaimKey(
+      tenant,
+      subscription.webhookId,
+      event.streamId,
+      event.revision,
+    );
+    const claimed = await this.redis.set(
+      claimKey,
+      '1',
+      'EX',
+      FANOUT_CLAIM_TTL_SECONDS,
+      'NX',
+    );
+    if (claimed !== 'OK') return;
+
+    const actor: ActorContext = {
+      tenant,
+      userId: 'system',
+      tenant_userId: 'system',
+    };
+    const enqueued = await this.deliveryQueue.enqueueDelivery(actor, {
+      webhookId: subscription.webhookId,
+      eventType: event.type,
+      payload: {
+        type: event.type,
+        source: event.streamId,
+        revision: event.revision,
+        occurredAt: event.metadata?.timestampIso,
+        data: event.data,
+      },
+      correlationId: event.metadata?.correlationId,
+    });
+
+    if (!enqueued.ok) {
+      // Release the claim so the runner's retry can route the event again
+      await this.redis.del(claimKey);
+      throw new Error(enqueued.error.detail ?? enqueued.error.title, {
+        cause: enqueued.error,
+      });
+    }
+
+    Log.info(this.logger, 'Routed event to webhook', {
+      method: 'route',
+      tenant,
+      webhookId: subscription.webhookId,
+      status: subscription.status,
+      eventType: event.type,
+      streamId: event.streamId,
+      deliveryId: enqueued.value.deliveryId,
+    });
+  }
+
+  private isAfterWatermark(event: ProjectionEvent): boolean {
+    const timestamp = Date.parse(event.metadata?.timestampIso ?? '');
+    return !Number.isNaN(timestamp) && timestamp >= this.watermark;
+  }
+
+  /**
+   * The first start records the watermark; later starts reuse it so
+   * events written while the service was down are still delivered
+   */
+  private async loadWatermark(): Promise<number> {
+    const key = DeliveryProjectionKeys.getRedisFanOutWatermarkKey();
+    const now = this.clock.now().getTime();
+
+    try {
+      await this.redis.set(key, now.toString(), 'NX');
+      const stored = Number(await this.redis.get(key));
+      return Number.isFinite(stored) && stored > 0 ? stored : now;
+    } catch (error) {
+      Log.warn(this.logger, 'Could not load fan-out watermark; using now', {
+        method: 'loadWatermark',
+        error: (error as Error).message,
+      });
+      return now;
+    }
+  }
+
+  private sourcePrefixes(): string[] {
+    const configured = (process.env[FANOUT_STREAM_PREFIXES_ENV] ?? '')
+      .split(',')
+      .map((prefix) => prefix.trim())
+      .filter(Boolean);
+
+    return configured.length > 0
+      ? configured
+      : [`${WebhookConfigServiceConstants.MODULE_NAMESPACE}.`];
+  }
+}
@@ -0,0 +1,258 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import { DeliveryErrors } from '../../domain/errors';
+import { DeliveryDlqEntry, IDeliveryDlqStore } from '../../application/ports';
+
+/**
+ * Delivery DLQ Repository (Redis)
+ *
+ * Each dead letter is a JSON string that expires at its `expiresAt`. Two
+ * per-webhook sorted sets index the entries: one scored by expiry for
+ * pruning and purging, one scored by failure time for listing in failure
+ * order. Expired members are pruned from both on read.
+ *
+ * @domain Notification Context - Delivery DLQ Store
+ * @layer Infrastructure
+ */
+@Injectable()
+export class DeliveryDlqRepository implements IDeliveryDlqStore {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.logger = componentLogger(baseLogger, 'DeliveryDlqRepository');
+  }
+
+  async save(entry: DeliveryDlqEntry): Promise<Result<void, DomainError>> {
+    const entryKey = DeliveryProjectionKeys.getRedisDlqEntryKey(
+      entry.tenant,
+      entry.webhookId,
+      entry.deliveryId,
+    );
+    const indexKey = DeliveryProjectionKeys.getRedisDlqIndexKey(
+      entry.tenant,
+      entry.webhookId,
+    );
+    const failedIndexKey = DeliveryProjectionKeys.getRedisDlqFailedIndexKey(
+      entry.tenant,
+      entry.webhookId,
+    );
+    const expiresAtMs = new Date(entry.expiresAt).getTime();
+    const ttlMs = Math.max(1, expiresAtMs - this.clock.now().getTime());
+
+    try {
+      await this.redis
+        .multi()
+        .set(entryKey, JSON.stringify(entry), 'PX', ttlMs)
+        .zadd(indexKey, expiresAtMs, entry.deliveryId)
+        .zadd(
+          failedIndexKey,
+          new Date(entry.failedAt).getTime(),
+          entry.deliveryId,
+        )
+        .exec();
+      await this.extendIndexExpiry(indexKey, failedIndexKey);
+      return ok(undefined);
+    } catch (error) {
+      return this.storeError('save', entry.webhookId, error, entry.deliveryId);
+    }
+  }
+
+  async findById(
+    tenant: string,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<Option<DeliveryDlqEntry>, DomainError>> {
+    try {
+      const raw = await this.redis.get(
+        DeliveryProjectionKeys.getRedisDlqEntryKey(
+          tenant,
+          webhookId,
+          deliveryId,
+        ),
+      );
+      return ok(raw ? Option.some(this.parse(raw)) : Option.none());
+    } catch (error) {
+      return this.storeError('findById', webhookId, error, deliveryId);
+    }
+  }
+
+  async list(
+    tenant: string,
+    webhookId: string,
+    options: { offset: number; limit: number; order?: 'newest' | 'oldest' },
+  ): Promise<
+    Result<{ entries: DeliveryDlqEntry[]; total: number }, DomainError>
+  > {
+    const indexKey = DeliveryProjectionKeys.getRedisDlqIndexKey(
+      tenant,
+      webhookId,
+    );
+    const failedIndexKey = DeliveryProjectionKeys.getRedisDlqFailedIndexKey(
+      tenant,
+      webhookId,
+    );
+    const start = options.offset;
+    const stop = options.offset + options.limit - 1;
+
+    try {
+      const expired = await this.redis.zrangebyscore(
+        indexKey,
+        '-inf',
+        this.clock.now().getTime(),
+      );
+      if (expired.length > 0) {
+        await this.unindex(indexKey, failedIndexKey, expired);
+      }
+      const [deliveryIds, total] = await Promise.all([
+        options.order === 'oldest'
+          ? this.redis.zrange(failedIndexKey, start, stop)
+          : this.redis.zrevrange(failedIndexKey, start, stop),
+        this.redis.zcard(failedIndexKey),
+      ]);
+      if (deliveryIds.length === 0) return ok({ entries: [], total });
+
+      const raws = await this.redis.mget(
+        deliveryIds.map((id) =>
+          DeliveryProjectionKeys.getRedisDlqEntryKey(tenant, webhookId, id),
+        ),
+      );
+
+      // Entries removed or expired since the index was pruned
+      const missing = deliveryIds.filter((_, i) => !raws[i]);
+      if (missing.length > 0) {
+        await this.unindex(indexKey, failedIndexKey, missing);
+      }
+
+      return ok({
+        entries: raws
+          .filter((raw): raw is string => !!raw)
+          .map((raw) => this.parse(raw)),
+        total: total - missing.length,
+      });
+    } catch (error) {
+      return this.storeError('list', webhookId, error);
+    }
+  }
+
+  async remove(
+    tenant: string,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<Result<boolean, DomainError>> {
+    try {
+      const results = await this.redis
+        .multi()
+        .del(
+          DeliveryProjectionKeys.getRedisDlqEntryKey(
+            tenant,
+            webhookId,
+            deliveryId,
+          ),
+        )
+        .zrem(
+          DeliveryProjectionKeys.getRedisDlqIndexKey(tenant, webhookId),
+          deliveryId,
+        )
+        .zrem(
+          DeliveryProjectionKeys.getRedisDlqFailedIndexKey(tenant, webhookId),
+          deliveryId,
+        )
+        .exec();
+      return ok(results?.[0]?.[1] === 1);
+    } catch (error) {
+      return this.storeError('remove', webhookId, error, deliveryId);
+    }
+  }
+
+  async purge(
+    tenant: string,
+    webhookId: string,
+  ): Promise<Result<number, DomainError>> {
+    const indexKey = DeliveryProjectionKeys.getRedisDlqIndexKey(
+      tenant,
+      webhookId,
+    );
+    const failedIndexKey = DeliveryProjectionKeys.getRedisDlqFailedIndexKey(
+      tenant,
+      webhookId,
+    );
+
+    try {
+      const deliveryIds = await this.redis.zrange(indexKey, 0, -1);
+      if (deliveryIds.length === 0) return ok(0);
+
+      const removed = await this.redis.del(
+        ...deliveryIds.map((id) =>
+          DeliveryProjectionKeys.getRedisDlqEntryKey(tenant, webhookId, id),
+        ),
+      );
+      await this.unindex(indexKey, failedIndexKey, deliveryIds);
+      return ok(removed);
+    } catch (error) {
+      return this.storeError('purge', webhookId, error);
+    }
+  }
+
+  /**
+   * Keep the indexes alive as long as their longest-lived entry
+   */
+  private async extendIndexExpiry(
+    indexKey: string,
+    failedIndexKey: string,
+  ): Promise<void> {
+    const last = await this.redis.zrange(indexKey, -1, -1, 'WITHSCORES');
+    if (last.length === 2) {
+      await this.redis
+        .multi()
+        .pexpireat(indexKey, Number(last[1]))
+        .pexpireat(failedIndexKey, Number(last[1]))
+        .exec();
+    }
+  }
+
+  private async unindex(
+    indexKey: string,
+    failedIndexKey: string,
+    deliveryIds: string[],
+  ): Promise<void> {
+    await this.redis
+      .multi()
+      .zrem(indexKey, ...deliveryIds)
+      .zrem(failedIndexKey, ...deliveryIds)
+      .exec();
+  }
+
+  private parse(raw: string): DeliveryDlqEntry {
+    return JSON.parse(raw) as DeliveryDlqEntry;
+  }
+
+  private storeError(
+    operation: string,
+    webhookId: string,
+    error: unknown,
+    deliveryId?: string,
+  ): Result<never, DomainError> {
+    const e = error as Error;
+    Log.error(this.logger, 'Dead-letter store operation failed', {
+      method: operation,
+      webhookId,
+      deliveryId,
+      error: e.message,
+    });
+    return err({
+      ...DeliveryErrors.DLQ_STORE_FAILED,
+      context: { webhookId, deliveryId, operation, reason: e.message },
+    });
+  }
+}
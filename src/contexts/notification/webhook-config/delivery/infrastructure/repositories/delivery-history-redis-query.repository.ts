@@ -0,0 +1,346 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { Option } from 'src/shared/domain/types';
+import { ActorContext } from 'src/shared/application/context';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import {
+  RepositoryLoggingUtil,
+  RepositoryLoggingConfig,
+  RepositoryOptions,
+  handleRepositoryError,
+  safeParseJSON,
+} from 'src/shared/infrastructure/repositories';
+import { RepositoryErrorFactory } from 'src/shared/domain/errors/repository.error';
+import { PaginationMetaResponse } from 'src/shared/application/dtos';
+import { DEFAULT_PAGINATION_CONFIG } from 'src/shared/domain/pagination.config';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import type { DeliveryStatusValue } from '../../domain/types';
+import {
+  DeliveryAttemptPageResponse,
+  DeliveryAttemptResponse,
+  DetailDeliveryHistoryResponse,
+  ListDeliveryAttemptFilterRequest,
+} from '../../application/dtos';
+import { IDeliveryHistoryQuery } from '../../application/ports';
+
+const DEFAULT_SORT: Record<string, 'asc' | 'desc'> = { attemptedAt: 'desc' };
+
+/**
+ * Delivery History Query Repository (Redis)
+ *
+ * Reads the records written by DeliveryHistoryProjector. Listing walks the
+ * tenant's attempt index within the requested time window, loads the
+ * attempt records in one pipeline and filters, sorts and pages them in
+ * memory.
+ *
+ * @domain Notification Context - Delivery History Query
+ * @layer Infrastructure
+ */
+@Injectable()
+export class DeliveryHistoryQueryRepository implements IDeliveryHistoryQuery {
+  private readonly logger: Logger;
+  private readonly loggingConfig: RepositoryLoggingConfig;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(CLOCK) private readonly clock: Clock,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+  ) {
+    this.loggingConfig = {
+      serviceName: 'DeliveryHistoryService',
+      component: 'DeliveryHistoryQueryRepository',
+    };
+    this.logger = componentLogger(baseLogger, this.loggingConfig.component);
+  }
+
+  async findById(
+    actor: ActorContext,
+    deliveryId: string,
+    options?: RepositoryOptions,
+  ): Promise<Result<Option<DetailDeliveryHistoryResponse>, DomainError>> {
+    const operation = 'findById';
+    const logContext = this.createLogContext(operation, actor, options, {
+      deliveryId,
+    });
+
+    if (!actor.tenant) {
+      return err(
+        RepositoryErrorFactory.validationError('tenant', 'Missing tenant id'),
+      );
+    }
+
+    try {
+      const [history, attempts] = await Promise.all([
+        this.redis.hgetall(
+          DeliveryProjectionKeys.getRedisHistoryKey(actor.tenant, deliveryId),
+        ),
+        this.redis.hvals(
+          DeliveryProjectionKeys.getRedisHistoryAttemptsKey(
+            actor.tenant,
+            deliveryId,
+          ),
+        ),
+      ]);
+
+      if (!history.deliveryId) {
+        Log.debug(this.logger, 'Delivery history not found', logContext);
+        return ok(Option.none());
+      }
+
+      return ok(
+        Option.some({
+          deliveryId: history.deliveryId,
+          webhookId: history.webhookId,
+          eventType: history.eventType,
+          status: history.status as DeliveryStatusValue,
+          replayOf: history.replayOf || undefined,
+          replayedBy:
+            safeParseJSON<string[]>(history.replayedBy, 'replayedBy') ?? [],
+          reason: history.reason || undefined,
+          lastError: history.lastError || undefined,
+          requestedAt: history.requestedAt,
+          completedAt: history.completedAt || undefined,
+          attempts: attempts
+            .map((raw) => this.parseAttempt(raw))
+            .filter((attempt) => attempt !== null)
+            .sort((a, b) => a.attempt - b.attempt),
+        }),
+      );
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'MEDIUM',
+      );
+      return handleRepositoryError(error);
+    }
+  }
+
+  async findAttemptsPaginated(
+    actor: ActorContext,
+    filter?: ListDeliveryAttemptFilterRequest,
+    options?: RepositoryOptions,
+  ): Promise<Result<DeliveryAttemptPageResponse, DomainError>> {
+    const operation = 'findAttemptsPaginated';
+    const logContext = this.createLogContext(operation, actor, options, {
+      webhookId: filter?.webhookId,
+      deliveryId: filter?.deliveryId,
+      page: filter?.page,
+      size: filter?.size,
+      sortBy: filter?.sortBy,
+    });
+
+    if (!actor.tenant) {
+      return err(
+        RepositoryErrorFactory.validationError('tenant', 'Missing tenant id'),
+      );
+    }
+
+    try {
+      const page = Number(
+        filter?.page ?? DEFAULT_PAGINATION_CONFIG.defaultPage,
+      );
+      const size = Math.min(
+        Number(filter?.size ?? DEFAULT_PAGINATION_CONFIG.defaultPageSize),
+        DEFAULT_PAGINATION_CONFIG.maxPageSize,
+      );
+
+      const attempts = (await this.loadAttempts(actor.tenant, filter)).filter(
+        (attempt) => this.matchesFilter(attempt, filter),
+      );
+      const sorted = this.sortAttempts(
+        attempts,
+        filter?.sortBy && Object.keys(filter.sortBy).length > 0
+          ? filter.sortBy
+          : DEFAULT_SORT,
+      );
+
+      const data = sorted.slice((page - 1) * size, page * size);
+      const totalItems = sorted.length;
+      const totalPages = Math.ceil(totalItems / size);
+      const meta = new PaginationMetaResponse({
+        page,
+        size,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      });
+
+      RepositoryLoggingUtil.logQueryMetrics(
+        this.logger,
+        operation,
+        logContext,
+        {
+          resultCount: data.length,
+          dataQuality: totalItems > 0 ? 'good' : 'empty',
+        },
+      );
+
+      return ok(DeliveryAttemptPageResponse.create(data, meta));
+    } catch (error) {
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        error as Error,
+        'HIGH',
+      );
+      return handleRepositoryError(error);
+    }
+  }
+
+  /**
+   * Load the attempts in the filter's time window; a delivery filter reads
+   * that delivery's attempts directly instead of the tenant index
+   */
+  private async loadAttempts(
+    tenant: string,
+    filter?: ListDeliveryAttemptFilterRequest,
+  ): Promise<DeliveryAttemptResponse[]> {
+    if (filter?.deliveryId) {
+      const values = await this.redis.hvals(
+        DeliveryProjectionKeys.getRedisHistoryAttemptsKey(
+          tenant,
+          filter.deliveryId,
+        ),
+      );
+      return values
+        .map((raw) => this.parseAttempt(raw))
+        .filter((attempt) => attempt !== null);
+    }
+
+    const members = await this.redis.zrangebyscore(
+      DeliveryProjectionKeys.getRedisHistoryIndexKey(tenant),
+      filter?.from ? Date.parse(filter.from) : '-inf',
+      filter?.to ? Date.parse(filter.to) : '+inf',
+    );
+    if (members.length === 0) return [];
+
+    const pipeline = this.redis.pipeline();
+    for (const member of members) {
+      const separator = member.lastIndexOf(':');
+      pipeline.hget(
+        DeliveryProjectionKeys.getRedisHistoryAttemptsKey(
+          tenant,
+          member.slice(0, separator),
+        ),
+        member.slice(separator + 1),
+      );
+    }
+    const results = (await pipeline.exec()) ?? [];
+
+    const attempts: DeliveryAttemptResponse[] = [];
+    for (const [error, raw] of results) {
+      // Index members outlive their records until the next prune
+      if (error || typeof raw !== 'string') continue;
+      const attempt = this.parseAttempt(raw);
+      if (attempt) attempts.push(attempt);
+    }
+    return attempts;
+  }
+
+  private matchesFilter(
+    attempt: DeliveryAttemptResponse,
+    filter?: ListDeliveryAttemptFilterRequest,
+  ): boolean {
+    if (!filter) return true;
+    if (filter.webhookId && attempt.webhookId !== filter.webhookId) {
+      return false;
+    }
+    if (filter.eventType && attempt.eventType !== filter.eventType) {
+      return false;
+    }
+    if (filter.outcome && attempt.outcome !== filter.outcome) return false;
+    if (filter.errorClass && attempt.errorClass !== filter.errorClass) {
+      return false;
+    }
+    if (
+      filter.statusCode !== undefined &&
+      attempt.statusCode !== Number(filter.statusCode)
+    ) {
+      return false;
+    }
+    const attemptedAtMs = Date.parse(attempt.attemptedAt);
+    if (filter.from && attemptedAtMs < Date.parse(filter.from)) return false;
+    if (filter.to && attemptedAtMs > Date.parse(filter.to)) return false;
+    return true;
+  }
+
+  /**
+   * Sort on the requested fields in order; attempts without a status code
+   * go last
+   */
+  private sortAttempts(
+    attempts: DeliveryAttemptResponse[],
+    sortBy: Record<string, string>,
+  ): DeliveryAttemptResponse[] {
+    const value = (
+      attempt: DeliveryAttemptResponse,
+      field: string,
+    ): number | undefined => {
+      switch (field) {
+        case 'attemptedAt':
+          return Date.parse(attempt.attemptedAt);
+        case 'attempt':
+          return attempt.attempt;
+        case 'statusCode':
+          return attempt.statusCode;
+        case 'durationMs':
+          return attempt.durationMs;
+        default:
+          return undefined;
+      }
+    };
+
+    return attempts.sort((a, b) => {
+      for (const [field, direction] of Object.entries(sortBy)) {
+        const aVal = value(a, field);
+        const bVal = value(b, field);
+        if (aVal === bVal) continue;
+        if (aVal === undefined) return 1;
+        if (bVal === undefined) return -1;
+
+        const comparison = aVal < bVal ? -1 : 1;
+        return direction?.toLowerCase() === 'desc' ? -comparison : comparison;
+      }
+      return 0;
+    });
+  }
+
+  private parseAttempt(raw: string): DeliveryAttemptResponse | null {
+    try {
+      return JSON.parse(raw) as DeliveryAttemptResponse;
+    } catch (error) {
+      Log.warn(this.logger, 'Skipping unreadable delivery attempt', {
+        method: 'parseAttempt',
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  private createLogContext(
+    operation: string,
+    actor: ActorContext,
+    options?: RepositoryOptions,
+    additionalContext?: Record<string, unknown>,
+  ): Record<string, unknown> {
+    return RepositoryLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      options?.correlationId ??
+        CorrelationUtil.generateForOperation(`delivery-history-${operation}`),
+      actor,
+      additionalContext,
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { Result, DomainError, err, ok } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import {
+  BaseWriterRepository,
+  SaveReceipt,
+  RepositoryLoggingUtil,
+  RepositoryLoggingConfig,
+} from 'src/shared/infrastructure/repositories';
+import { Inject, Injectable } from '@nestjs/common';
+import { ANY } from '@kurrent/kurrentdb-client';
+import { RepositoryErrorFactory } from 'src/shared/domain/errors/repository.error';
+import { EventStoreService } from 'src/shared/infrastructure/eventstore';
+import { APP_LOGGER, Log, componentLogger, Logger } from 'src/shared/logging';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { WebhookConfigServiceConstants } from '../../../service-constants';
+import { DeliveryAggregate } from '../../domain/aggregates';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import { IDeliveryWriter } from '../../application/ports';
+
+/**
+ * Delivery Writer Repository
+ *
+ * Appends delivery lifecycle events to EventStoreDB. Deliveries are
+ * append-only audit streams, so the writer always appends with ANY expected
+ * revision; attempts for a delivery are serialized by the queue instead.
+ *
+ * @domain Notification Context - Delivery Writer Repository
+ * @layer Infrastructure
+ * @pattern Repository Pattern
+ */
+@Injectable()
+export class DeliveryWriterRepository
+  extends BaseWriterRepository
+  implements IDeliveryWriter
+{
+  private readonly logger: Logger;
+  private readonly loggingConfig: RepositoryLoggingConfig;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    private readonly eventStore: EventStoreService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    super();
+    this.loggingConfig = {
+      serviceName: 'NotificationWebhookConfigService',
+      component: 'DeliveryWriterRepository',
+    };
+    this.logger = componentLogger(baseLogger, this.loggingConfig.component);
+  }
+
+  /**
+   * Append uncommitted Delivery events using EventStoreDB-first approach
+   * @param actor - The authenticated user context
+   * @param delivery - The Delivery aggregate to save
+   * @returns Result with SaveReceipt or domain error
+   */
+  async save(
+    actor: ActorContext,
+    delivery: DeliveryAggregate,
+  ): Promise<Result<SaveReceipt, DomainError>> {
+    const operation = 'save';
+    const correlationId = CorrelationUtil.generateForOperation('delivery-save');
+
+    const logContext = RepositoryLoggingUtil.createLogContext(
+      this.loggingConfig,
+      this.clock,
+      operation,
+      correlationId,
+      actor,
+      {
+        aggregateId: delivery.id,
+        webhookId: delivery.webhookId,
+        eventCount: delivery.uncommittedEvents.length,
+      },
+    );
+
+    const validation = RepositoryLoggingUtil.validateActorContext(
+      this.logger,
+      actor,
+      logContext,
+    );
+    if (!validation.ok) {
+      return validation;
+    }
+
+    const stream = this.buildStreamName(
+      actor.tenant,
+      DeliveryProjectionKeys.getEventStoreStreamPrefix(),
+      delivery.id,
+    );
+    const events = delivery.uncommittedEvents;
+
+    if (events.length === 0) {
+      return ok({
+        stream,
+        aggregateId: delivery.id,
+        tenant: actor.tenant ?? 'default',
+        eventCount: 0,
+        newVersion: delivery.version,
+        streamRevision: BigInt(Math.max(delivery.version, -1)),
+        timestampIso: this.clock.nowIso(),
+      });
+    }
+
+    const metadata = events[0]?.metadata;
+    const envelopes = this.toEnvelopes(
+      stream,
+      events,
+      actor,
+      'delivery-writer-repository',
+      WebhookConfigServiceConstants.BOUNDED_CONTEXT,
+      {
+        correlationId: metadata?.correlationId ?? correlationId,
+        causationId: metadata?.causationId,
+        commandId: metadata?.requestId,
+      },
+    );
+
+    try {
+      Log.debug(this.logger, 'Appending delivery events to EventStoreDB', {
+        ...logContext,
+        stream,
+        eventTypes: events.map((e) => e.type),
+      });
+
+      const appendResult = await this.eventStore.append(stream, envelopes, ANY);
+
+      delivery.markEventsAsCommitted();
+
+      return ok({
+        stream,
+        aggregateId: delivery.id,
+        tenant: actor.tenant ?? 'default',
+        eventCount: events.length,
+        newVersion: delivery.version,
+        streamRevision: appendResult?.nextExpectedRevision ?? BigInt(0),
+        timestampIso: this.clock.nowIso(),
+      });
+    } catch (error) {
+      const e = error as Error;
+
+      RepositoryLoggingUtil.logOperationError(
+        this.logger,
+        operation,
+        logContext,
+        e,
+        'HIGH',
+      );
+
+      return err(
+        RepositoryErrorFactory.connectionError(
+          e.message || 'Unknown error occurred during EventStoreDB append',
+        ),
+      );
+    }
+  }
+}
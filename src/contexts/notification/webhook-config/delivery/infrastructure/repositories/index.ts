@@ -0,0 +1,3 @@
+export * from './delivery-kurrentdb-writer.repository';
+export * from './delivery-dlq-redis.repository';
+export * from './delivery-history-redis-query.repository';
@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import { Queue, RedisConnection, Scripts } from 'bullmq';
+import type { Redis } from 'ioredis';
+import { ActorContext } from 'src/shared/application/context';
+import { MetadataFactory } from 'src/shared/application/factories/metadata.factory';
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { IConfigQuery } from 'src/contexts/notification/webhook-config/config/application/ports';
+import { IDeliveryWriter } from '../../../application/ports';
+import { DeliveryProjectionKeys } from '../../../delivery-projection-keys';
+import { DeliveryQueueService } from '../delivery-queue.service';
+import {
+  DeliverWebhookJob,
+  WEBHOOK_DELIVERY_QUEUE,
+} from '../delivery-queue.types';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+/**
+ * Connection stand-in so jobs go through the real Queue.add path, including
+ * BullMQ's job option checks, without a Redis server
+ */
+class FakeConnection extends EventEmitter {
+  client = Promise.resolve({ hmset: jest.fn() });
+  close = jest.fn();
+  disconnect = jest.fn();
+}
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+} as Clock;
+const actor: ActorContext = {
+  tenant: 'tenant-a',
+  userId: 'user-1',
+  tenant_userId: 'tenant-a_user-1',
+};
+const DELIVERY_ID = '6f1c2b9e-3d4a-4c8b-9e2f-1a2b3c4d5e6f';
+
+describe('DeliveryQueueService', () => {
+  let queue: Queue;
+  let addJob: jest.SpiedFunction<Scripts['addJob']>;
+  let findConfig: jest.Mock;
+  let rpush: jest.Mock;
+  let laneEval: jest.Mock;
+  let service: DeliveryQueueService;
+
+  beforeEach(() => {
+    queue = new Queue(
+      WEBHOOK_DELIVERY_QUEUE.NAME,
+      { connection: {}, skipMetasUpdate: true },
+      FakeConnection as unknown as typeof RedisConnection,
+    );
+    addJob = jest
+      .spyOn(Scripts.prototype, 'addJob')
+      .mockImplementation((_client, _job, _opts, jobId) =>
+        Promise.resolve(jobId),
+      );
+    const deliveryWriter = {
+      save: jest.fn().mockResolvedValue(ok({})),
+    } as unknown as IDeliveryWriter;
+    findConfig = jest
+      .fn()
+      .mockResolvedValue(ok(Option.some({ ordering: 'loose' })));
+    rpush = jest.fn().mockResolvedValue(1);
+    laneEval = jest.fn().mockResolvedValue([1, null]);
+
+    service = new DeliveryQueueService(
+      createMockLogger(),
+      queue,
+      deliveryWriter,
+      new MetadataFactory('webhook-config', clock),
+      clock,
+      { findById: findConfig } as unknown as IConfigQuery,
+      { rpush, eval: laneEval } as unknown as Redis,
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await queue.close();
+  });
+
+  const jobIds = () => addJob.mock.calls.map(([, , , jobId]) => jobId);
+
+  test('queues the first attempt of a delivery', async () => {
+    const result = await service.enqueueDelivery(actor, {
+      webhookId: 'orders-hook',
+      eventType: 'order.shipped',
+      payload: { orderId: 'A-1001' },
+      deliveryId: DELIVERY_ID,
+    });
+
+    expect(result).toEqual(
+      ok({ deliveryId: DELIVERY_ID, jobId: `${DELIVERY_ID}-1` }),
+    );
+    expect(jobIds()).toEqual([`${DELIVERY_ID}-1`]);
+  });
+
+  test('gives a deferred attempt its own job id', async () => {
+    const job: DeliverWebhookJob = {
+      deliveryId: DELIVERY_ID,
+      tenant: 'tenant-a',
+      webhookId: 'orders-hook',
+      eventType: 'order.shipped',
+      payload: {},
+      attempt: 2,
+      correlationId: 'corr-1',
+    };
+
+    const result = await service.scheduleAttempt(job, 60_000, {
+      deferral: 'paused-1772445600000',
+    });
+
+    expect(result).toEqual(ok(`${DELIVERY_ID}-2-paused-1772445600000`));
+    expect(jobIds()).toEqual([`${DELIVERY_ID}-2-paused-1772445600000`]);
+  });
+
+  describe('fifo lanes', () => {
+    const LANE = DeliveryProjectionKeys.getRedisFifoLaneKey(
+      'tenant-a',
+      'orders-hook',
+      'customer-42',
+    );
+
+    beforeEach(() => {
+      findConfig.mockResolvedValue(ok(Option.some({ ordering: 'fifo' })));
+    });
+
+    const enqueue = () =>
+      service.enqueueDelivery(actor, {
+        webhookId: 'orders-hook',
+        eventType: 'order.shipped',
+        payload: { orderId: 'A-1001' },
+        deliveryId: DELIVERY_ID,
+        partitionKey: 'customer-42',
+      });
+
+    test('dispatches the head of a lane at once', async () => {
+      const result = await enqueue();
+
+      expect(result.ok).toBe(true);
+      expect(rpush).toHaveBeenCalledWith(LANE, expect.any(String));
+      expect(jobIds()).toEqual([`${DELIVERY_ID}-1`]);
+    });
+
+    test('holds a delivery queued behind the head', async () => {
+      rpush.mockResolvedValue(2);
+
+      const result = await enqueue();
+
+      expect(result.ok).toBe(true);
+      expect(jobIds()).toEqual([]);
+    });
+
+    test('releases the lane when the head cannot be scheduled', async () => {
+      const next = {
+        id: 'next-delivery',
+        item: { deliveryId: 'next-delivery', attempt: 1 },
+      };
+      addJob
+        .mockRejectedValueOnce(new Error('Connection is closed'))
+        .mockImplementation((_client, _job, _opts, jobId) =>
+          Promise.resolve(jobId),
+        );
+      laneEval.mockResolvedValue([1, JSON.stringify(next)]);
+
+      const result = await enqueue();
+
+      expect(result.ok).toBe(false);
+      expect(laneEval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        LANE,
+        DELIVERY_ID,
+      );
+      expect(jobIds()).toEqual([`${DELIVERY_ID}-1`, 'next-delivery-1']);
+    });
+  });
+});
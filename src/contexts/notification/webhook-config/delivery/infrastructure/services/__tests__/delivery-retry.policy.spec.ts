@@ -0,0 +1,117 @@
+import { DetailConfigResponse } from 'src/contexts/notification/webhook-config/config/application/dtos';
+import {
+  DEFAULT_DELIVERY_RETRY_SETTINGS,
+  DeliveryRetryPolicy,
+  DeliveryRetrySettings,
+} from '../delivery-retry.policy';
+
+const settings = (
+  overrides: Partial<DeliveryRetrySettings>,
+): DeliveryRetrySettings => ({
+  ...DEFAULT_DELIVERY_RETRY_SETTINGS,
+  backoffSeconds: 10,
+  ...overrides,
+});
+
+describe('DeliveryRetryPolicy', () => {
+  describe('computeDelayMs', () => {
+    test.each([
+      ['exponential', [10_000, 20_000, 40_000, 80_000]],
+      ['linear', [10_000, 20_000, 30_000, 40_000]],
+      ['fixed', [10_000, 10_000, 10_000, 10_000]],
+    ] as const)('follows the %s backoff schedule', (strategy, expected) => {
+      const delays = [1, 2, 3, 4].map((attempt) =>
+        DeliveryRetryPolicy.computeDelayMs(settings({ strategy }), attempt),
+      );
+
+      expect(delays).toEqual(expected);
+    });
+
+    test('spreads the delay within the jitter percentage', () => {
+      const jittered = settings({ strategy: 'fixed', jitterPct: 20 });
+
+      expect(DeliveryRetryPolicy.computeDelayMs(jittered, 1, () => 0)).toBe(
+        8_000,
+      );
+      expect(DeliveryRetryPolicy.computeDelayMs(jittered, 1, () => 0.5)).toBe(
+        10_000,
+      );
+      expect(
+        DeliveryRetryPolicy.computeDelayMs(jittered, 1, () => 0.999999),
+      ).toBe(12_000);
+    });
+  });
+
+  describe('fromConfig', () => {
+    test('uses the defaults without a config', () => {
+      expect(DeliveryRetryPolicy.fromConfig(null)).toEqual(
+        DEFAULT_DELIVERY_RETRY_SETTINGS,
+      );
+    });
+
+    test('clamps out of range config values', () => {
+      const config = {
+        retryStrategy: 'linear',
+        maxRetryAttempts: 0,
+        retryBackoffSeconds: -5,
+        backoffJitterPct: 150,
+      } as DetailConfigResponse;
+
+      expect(DeliveryRetryPolicy.fromConfig(config)).toEqual(
+        expect.objectContaining({
+          strategy: 'linear',
+          maxAttempts: 1,
+          backoffSeconds: 0,
+          jitterPct: 100,
+        }),
+      );
+    });
+  });
+
+  test('counts the first send as an attempt', () => {
+    const three = settings({ maxAttempts: 3 });
+
+    expect(DeliveryRetryPolicy.hasAttemptsRemaining(three, 2)).toBe(true);
+    expect(DeliveryRetryPolicy.hasAttemptsRemaining(three, 3)).toBe(false);
+  });
+
+  test.each([408, 425, 429, 500, 502, 503, 504])(
+    'retries HTTP %i',
+    (status) => {
+      expect(DeliveryRetryPolicy.isRetryableStatus(status)).toBe(true);
+    },
+  );
+
+  test.each([400, 401, 403, 404, 409, 410, 422])(
+    'treats HTTP %i as terminal',
+    (status) => {
+      expect(DeliveryRetryPolicy.isRetryableStatus(status)).toBe(false);
+    },
+  );
+
+  test('retries transport failures except configuration errors', () => {
+    expect(DeliveryRetryPolicy.isRetryableErrorClass('request_timeout')).toBe(
+      true,
+    );
+    expect(DeliveryRetryPolicy.isRetryableErrorClass('network')).toBe(true);
+    expect(DeliveryRetryPolicy.isRetryableErrorClass('configuration')).toBe(
+      false,
+    );
+  });
+
+  test('reads Retry-After as seconds or an HTTP date', () => {
+    const now = new Date('2026-03-02T10:00:00.000Z');
+
+    expect(DeliveryRetryPolicy.parseRetryAfterMs('120', now)).toBe(120_000);
+    expect(
+      DeliveryRetryPolicy.parseRetryAfterMs(
+        'Mon, 02 Mar 2026 10:00:30 GMT',
+        now,
+      ),
+    ).toBe(30_000);
+    expect(DeliveryRetryPolicy.parseRetryAfterMs('soon', now)).toBeUndefined();
+    expect(DeliveryRetryPolicy.parseRetryAfterMs(undefined, now)).toBe(
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,327 @@
+import { Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import { MetadataFactory } from 'src/shared/application/factories/metadata.factory';
+import { Option } from 'src/shared/domain/types';
+import { ok } from 'src/shared/errors';
+import { Clock } from 'src/shared/infrastructure/time';
+import { Logger } from 'src/shared/logging';
+import { IAuthQuery } from 'src/contexts/notification/webhook-config/auth/application/ports';
+import { DetailConfigResponse } from 'src/contexts/notification/webhook-config/config/application/dtos';
+import { IConfigQuery } from 'src/contexts/notification/webhook-config/config/application/ports';
+import { IWorkspaceQuery } from 'src/contexts/notification/webhook-config/workspace/application/ports';
+import { IDeliveryDlqStore, IDeliveryWriter } from '../../../application/ports';
+import { DeliveryAggregate } from '../../../domain/aggregates';
+import { DeliveryQueueService } from '../delivery-queue.service';
+import { DeliverWebhookJob } from '../delivery-queue.types';
+import { DeliveryWorkerService } from '../delivery-worker.service';
+import { OAuth2TokenBroker } from '../oauth2-token.broker';
+import { WebhookHttpClient, WebhookHttpResult } from '../webhook-http.client';
+import { WebhookRateLimiter } from '../webhook-rate-limiter';
+import { WebhookRequestBuilder } from '../webhook-request.builder';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const clock: Clock = {
+  now: () => new Date(NOW),
+  nowIso: () => NOW.toISOString(),
+} as Clock;
+
+const config = {
+  webhookId: 'orders-hook',
+  retryStrategy: 'exponential',
+  maxRetryAttempts: 3,
+  retryBackoffSeconds: 10,
+  backoffJitterPct: 0,
+  dlqEnabled: true,
+  dlqMaxAgeSeconds: 3600,
+} as DetailConfigResponse;
+
+const response = (
+  statusCode: number,
+  headers: Record<string, string> = {},
+): WebhookHttpResult => ({
+  ok: true,
+  value: {
+    statusCode,
+    headers,
+    body: `status ${statusCode}`,
+    durationMs: 42,
+    timings: { totalMs: 42 },
+  },
+});
+
+const jobFor = (
+  data: Partial<DeliverWebhookJob> = {},
+  opts: { attemptsMade?: number; attempts?: number } = {},
+) =>
+  ({
+    id: 'job-1',
+    data: {
+      deliveryId: 'delivery-1',
+      tenant: 'tenant-a',
+      webhookId: 'orders-hook',
+      eventType: 'order.shipped',
+      payload: { orderId: 'A-1001' },
+      attempt: 1,
+      correlationId: 'corr-1',
+      ...data,
+    },
+    attemptsMade: opts.attemptsMade ?? 0,
+    opts: { attempts: opts.attempts ?? 3 },
+  }) as unknown as Job<DeliverWebhookJob>;
+
+describe('DeliveryWorkerService', () => {
+  let workspaceStatus: string;
+  let findConfig: jest.Mock;
+  let save: jest.Mock;
+  let saveDeadLetter: jest.Mock;
+  let scheduleAttempt: jest.Mock;
+  let advanceLane: jest.Mock;
+  let send: jest.Mock;
+  let redis: { set: jest.Mock; del: jest.Mock };
+  let saved: DeliveryAggregate[];
+  let worker: DeliveryWorkerService;
+
+  beforeEach(() => {
+    workspaceStatus = 'active';
+    saved = [];
+    findConfig = jest.fn().mockResolvedValue(ok(Option.some(config)));
+    save = jest.fn((_actor, delivery: DeliveryAggregate) => {
+      saved.push(delivery);
+      return Promise.resolve(ok({}));
+    });
+    saveDeadLetter = jest.fn().mockResolvedValue(ok(undefined));
+    scheduleAttempt = jest.fn().mockResolvedValue(ok('next-job'));
+    advanceLane = jest.fn().mockResolvedValue(ok(undefined));
+    send = jest.fn().mockResolvedValue(response(200));
+    redis = {
+      set: jest.fn().mockResolvedValue('OK'),
+      del: jest.fn().mockResolvedValue(1),
+    };
+
+    worker = new DeliveryWorkerService(
+      createMockLogger(),
+      {
+        findById: jest.fn(() =>
+          Promise.resolve(
+            ok(
+              Option.some({
+                webhookId: 'orders-hook',
+                status: workspaceStatus,
+              }),
+            ),
+          ),
+        ),
+      } as unknown as IWorkspaceQuery,
+      { findById: findConfig } as unknown as IConfigQuery,
+      {
+        findById: jest.fn().mockResolvedValue(ok(Option.none())),
+      } as unknown as IAuthQuery,
+      { save } as unknown as IDeliveryWriter,
+      { save: saveDeadLetter } as unknown as IDeliveryDlqStore,
+      redis as unknown as Redis,
+      clock,
+      new MetadataFactory('webhook-config', clock),
+      { scheduleAttempt, advanceLane } as unknown as DeliveryQueueService,
+      {
+        build: jest.fn().mockResolvedValue(ok({ url: 'https://example.com' })),
+      } as unknown as WebhookRequestBuilder,
+      { send } as unknown as WebhookHttpClient,
+      { invalidate: jest.fn() } as unknown as OAuth2TokenBroker,
+      {
+        acquire: jest.fn().mockResolvedValue({ granted: true }),
+        release: jest.fn().mockResolvedValue(undefined),
+      } as unknown as WebhookRateLimiter,
+    );
+  });
+
+  const recorded = () =>
+    saved.flatMap((delivery) =>
+      delivery.uncommittedEvents.map((event) => event.type),
+    );
+
+  test('records a 2xx response as delivered', async () => {
+    const result = await worker.processJob(jobFor());
+
+    expect(result).toEqual(
+      expect.objectContaining({ success: true, message: 'delivered' }),
+    );
+    expect(saved[0].status).toBe('succeeded');
+    expect(recorded()).toEqual([
+      'NotificationWebhookConfigDeliveryAttempted.v1',
+      'NotificationWebhookConfigDeliverySucceeded.v1',
+    ]);
+    expect(scheduleAttempt).not.toHaveBeenCalled();
+  });
+
+  test('schedules the next attempt on the backoff schedule', async () => {
+    send.mockResolvedValue(response(503));
+
+    const result = await worker.processJob(jobFor({ attempt: 2 }));
+
+    expect(result.message).toBe('retry_scheduled');
+    expect(scheduleAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ deliveryId: 'delivery-1', attempt: 3 }),
+      20_000,
+    );
+    expect(saved[0].status).toBe('retrying');
+    expect(saveDeadLetter).not.toHaveBeenCalled();
+  });
+
+  test('waits for Retry-After when it is longer than the backoff', async () => {
+    send.mockResolvedValue(response(429, { 'retry-after': '90' }));
+
+    await worker.processJob(jobFor());
+
+    expect(scheduleAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 2 }),
+      90_000,
+    );
+  });
+
+  test('fails a terminal status at once and dead-letters it', async () => {
+    send.mockResolvedValue(response(410));
+
+    const result = await worker.processJob(jobFor());
+
+    expect(result).toEqual(
+      expect.objectContaining({ success: false, message: 'failed' }),
+    );
+    expect(saved[0].status).toBe('failed');
+    expect(scheduleAttempt).not.toHaveBeenCalled();
+    expect(saveDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        deliveryId: 'delivery-1',
+        payload: { orderId: 'A-1001' },
+        reason: 'non_retryable_failure',
+        lastStatusCode: 410,
+        lastResponseBody: 'status 410',
+        failedAt: NOW.toISOString(),
+        expiresAt: '2026-03-02T11:00:00.000Z',
+      }),
+    );
+  });
+
+  test('fails a retryable status once the attempts run out', async () => {
+    send.mockResolvedValue(response(503));
+
+    await worker.processJob(jobFor({ attempt: 3 }));
+
+    expect(scheduleAttempt).not.toHaveBeenCalled();
+    expect(saveDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'max_attempts_exceeded' }),
+    );
+  });
+
+  test('keeps failures out of the dead-letter queue when it is disabled', async () => {
+    findConfig.mockResolvedValue(
+      ok(Option.some({ ...config, dlqEnabled: false })),
+    );
+    send.mockResolvedValue(response(400));
+
+    await worker.processJob(jobFor());
+
+    expect(saved[0].status).toBe('failed');
+    expect(saveDeadLetter).not.toHaveBeenCalled();
+  });
+
+  test('defers the attempt of a paused webhook under its own job id', async () => {
+    workspaceStatus = 'paused';
+
+    const result = await worker.processJob(jobFor({ attempt: 2 }));
+
+    expect(result).toEqual({
+      success: true,
+      message: 'webhook_paused_deferred',
+    });
+    expect(send).not.toHaveBeenCalled();
+    expect(saved).toEqual([]);
+    expect(scheduleAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 2 }),
+      60_000,
+      { deferral: `paused-${NOW.getTime()}` },
+    );
+    expect(redis.del).toHaveBeenCalled();
+  });
+
+  test('fails the job when a paused attempt cannot be deferred', async () => {
+    workspaceStatus = 'paused';
+    scheduleAttempt.mockResolvedValue({
+      ok: false,
+      error: { code: 'DELIVERY.ENQUEUE_FAILED', title: 'Enqueue failed' },
+    });
+
+    await expect(worker.processJob(jobFor())).rejects.toThrow('Enqueue failed');
+  });
+
+  test('skips an attempt that is already running', async () => {
+    redis.set.mockResolvedValue(null);
+
+    const result = await worker.processJob(jobFor());
+
+    expect(result.message).toBe('duplicate_attempt_skipped');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('advances the fifo lane once the delivery is final', async () => {
+    send.mockResolvedValue(response(400));
+    const job = jobFor({ orderingKey: 'customer-7' });
+
+    await worker.processJob(job);
+
+    expect(advanceLane).toHaveBeenCalledWith(job.data);
+    expect(saveDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ partitionKey: 'customer-7' }),
+    );
+  });
+
+  test('keeps the fifo lane blocked while the delivery retries', async () => {
+    send.mockResolvedValue(response(503));
+
+    await worker.processJob(jobFor({ orderingKey: 'customer-7' }));
+
+    expect(advanceLane).not.toHaveBeenCalled();
+  });
+
+  describe('handleExhaustedJob', () => {
+    test('leaves a job with BullMQ attempts left to be retried', async () => {
+      await worker.handleExhaustedJob(
+        jobFor({}, { attemptsMade: 2, attempts: 3 }),
+        new Error('projection lookup failed'),
+      );
+
+      expect(save).not.toHaveBeenCalled();
+      expect(saveDeadLetter).not.toHaveBeenCalled();
+    });
+
+    test('fails and dead-letters a job that crashed through every attempt', async () => {
+      const job = jobFor(
+        { orderingKey: 'customer-7' },
+        { attemptsMade: 3, attempts: 3 },
+      );
+
+      await worker.handleExhaustedJob(
+        job,
+        new Error('projection lookup failed'),
+      );
+
+      expect(saved[0].status).toBe('failed');
+      expect(saveDeadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: 'worker_crashed',
+          lastError: 'projection lookup failed',
+        }),
+      );
+      expect(advanceLane).toHaveBeenCalledWith(job.data);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import type { Redis } from 'ioredis';
+import { Logger } from 'src/shared/logging';
+import { DeliveryProjectionKeys } from '../../../delivery-projection-keys';
+import { WebhookRateLimiter } from '../webhook-rate-limiter';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+/**
+ * In-memory stand-in for the sorted sets and the acquire script, on a clock
+ * the test moves
+ */
+class FakeRedis {
+  now = 1_000_000;
+  readonly zsets = new Map<string, Map<string, number>>();
+
+  eval(
+    _script: string,
+    _numKeys: number,
+    rateKey: string,
+    leaseKey: string,
+    rateLimitArg: string,
+    maxConcurrentArg: string,
+    leaseId: string,
+    leaseTtlArg: string,
+    windowArg: string,
+  ): Promise<[number, number?, string?]> {
+    const rateLimit = Number(rateLimitArg);
+    const maxConcurrent = Number(maxConcurrentArg);
+    const leaseTtl = Number(leaseTtlArg);
+    const window = Number(windowArg);
+    const sends = this.zset(rateKey);
+    const leases = this.zset(leaseKey);
+
+    if (maxConcurrent > 0) {
+      this.removeUpTo(leases, this.now);
+      if (!leases.has(leaseId) && leases.size >= maxConcurrent) {
+        return Promise.resolve([0, 0, 'concurrency_limited']);
+      }
+    }
+
+    if (rateLimit > 0) {
+      this.removeUpTo(sends, this.now - window);
+      if (sends.size >= rateLimit) {
+        const oldest = Math.min(...sends.values());
+        return Promise.resolve([0, oldest + window - this.now, 'rate_limited']);
+      }
+      sends.set(`${leaseId}:${this.now}`, this.now);
+    }
+
+    if (maxConcurrent > 0) {
+      leases.set(leaseId, this.now + leaseTtl);
+    }
+
+    return Promise.resolve([1]);
+  }
+
+  zrem(key: string, member: string): Promise<number> {
+    return Promise.resolve(this.zset(key).delete(member) ? 1 : 0);
+  }
+
+  private zset(key: string): Map<string, number> {
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    this.zsets.set(key, zset);
+    return zset;
+  }
+
+  private removeUpTo(zset: Map<string, number>, max: number): void {
+    for (const [member, score] of zset) {
+      if (score <= max) zset.delete(member);
+    }
+  }
+}
+
+describe('WebhookRateLimiter', () => {
+  let redis: FakeRedis;
+  let limiter: WebhookRateLimiter;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    limiter = new WebhookRateLimiter(
+      createMockLogger(),
+      redis as unknown as Redis,
+    );
+  });
+
+  const acquire = (
+    leaseId: string,
+    limits: { rateLimitPerMinute?: number; maxConcurrent?: number },
+  ) => limiter.acquire('tenant-a', 'orders-hook', limits, leaseId, 30_000);
+
+  test('grants every send when the webhook has no limits', async () => {
+    const evalSpy = jest.spyOn(redis, 'eval');
+
+    await expect(acquire('a', {})).resolves.toEqual({ granted: true });
+    expect(evalSpy).not.toHaveBeenCalled();
+  });
+
+  test('keys the limits by tenant and webhook', async () => {
+    const evalSpy = jest.spyOn(redis, 'eval');
+
+    await acquire('a', { rateLimitPerMinute: 5, maxConcurrent: 2 });
+
+    expect(evalSpy).toHaveBeenCalledWith(
+      expect.any(String),
+      2,
+      DeliveryProjectionKeys.getRedisRateLimitKey('tenant-a', 'orders-hook'),
+      DeliveryProjectionKeys.getRedisConcurrencyKey('tenant-a', 'orders-hook'),
+      '5',
+      '2',
+      'a',
+      '30000',
+      '60000',
+    );
+  });
+
+  describe('sends per minute', () => {
+    test('refuses the send over the limit until the oldest leaves the window', async () => {
+      const limits = { rateLimitPerMinute: 2 };
+      await acquire('a', limits);
+      redis.now += 10_000;
+      await acquire('b', limits);
+      redis.now += 5_000;
+
+      await expect(acquire('c', limits)).resolves.toEqual({
+        granted: false,
+        reason: 'rate_limited',
+        retryAfterMs: 45_000,
+      });
+
+      redis.now += 45_000;
+      await expect(acquire('c', limits)).resolves.toEqual({ granted: true });
+    });
+  });
+
+  describe('concurrent sends', () => {
+    const limits = { maxConcurrent: 2 };
+
+    test('refuses a send while every slot is leased', async () => {
+      await acquire('a', limits);
+      await acquire('b', limits);
+
+      const decision = await acquire('c', limits);
+
+      expect(decision).toEqual({
+        granted: false,
+        reason: 'concurrency_limited',
+        retryAfterMs: expect.any(Number) as number,
+      });
+      const { retryAfterMs } = decision as { retryAfterMs: number };
+      expect(retryAfterMs).toBeGreaterThanOrEqual(1_000);
+      expect(retryAfterMs).toBeLessThan(2_000);
+    });
+
+    test('hands a released slot to the next send', async () => {
+      await acquire('a', limits);
+      await acquire('b', limits);
+
+      await limiter.release('tenant-a', 'orders-hook', 'a');
+
+      await expect(acquire('c', limits)).resolves.toEqual({ granted: true });
+    });
+
+    test('frees the slot of a lease that expired without a release', async () => {
+      await acquire('a', limits);
+      await acquire('b', limits);
+
+      redis.now += 30_001;
+
+      await expect(acquire('c', limits)).resolves.toEqual({ granted: true });
+    });
+
+    test('lets a lease that already holds a slot renew it', async () => {
+      await acquire('a', limits);
+      await acquire('b', limits);
+
+      await expect(acquire('a', limits)).resolves.toEqual({ granted: true });
+    });
+  });
+
+  test('allows the send when redis is unavailable', async () => {
+    jest.spyOn(redis, 'eval').mockRejectedValue(new Error('connection lost'));
+
+    await expect(acquire('a', { rateLimitPerMinute: 1 })).resolves.toEqual({
+      granted: true,
+    });
+  });
+
+  test('leaves a lease that cannot be released to expire', async () => {
+    jest.spyOn(redis, 'zrem').mockRejectedValue(new Error('connection lost'));
+
+    await expect(
+      limiter.release('tenant-a', 'orders-hook', 'a'),
+    ).resolves.toBeUndefined();
+  });
+});
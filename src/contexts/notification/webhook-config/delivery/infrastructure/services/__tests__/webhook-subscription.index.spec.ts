@@ -0,0 +1,23 @@
+import { matchesEventType } from '../webhook-subscription.index';
+
+describe('matchesEventType', () => {
+  test.each([
+    ['*', 'NotificationSlackRequestSent.v1'],
+    ['NotificationSlackRequestSent.v1', 'NotificationSlackRequestSent.v1'],
+    ['NotificationSlackRequest*', 'NotificationSlackRequestFailed.v1'],
+    ['*.v1', 'OrderShipped.v1'],
+    ['Notification*Sent.v1', 'NotificationSlackRequestSent.v1'],
+  ])('%s matches %s', (pattern, eventType) => {
+    expect(matchesEventType(pattern, eventType)).toBe(true);
+  });
+
+  test.each([
+    ['NotificationSlackRequestSent.v1', 'NotificationSlackRequestSent.v2'],
+    ['NotificationSlackRequest*', 'OrderShipped.v1'],
+    ['*.v1', 'OrderShipped.v2'],
+    ['Order.Shipped', 'OrderxShipped'],
+    ['Order(Shipped)*', 'OrderShipped.v1'],
+  ])('%s does not match %s', (pattern, eventType) => {
+    expect(matchesEventType(pattern, eventType)).toBe(false);
+  });
+});
@@ -0,0 +1,297 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import { MetadataFactory } from 'src/shared/application/factories/metadata.factory';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import { Option } from 'src/shared/domain/types';
+import { FifoSequencer } from 'src/shared/infrastructure/queue';
+import {
+  IConfigQuery,
+  CONFIG_QUERY_TOKEN,
+} from 'src/contexts/notification/webhook-config/config/application/ports';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import { DeliveryAggregate } from '../../domain/aggregates';
+import { DeliveryErrors } from '../../domain/errors';
+import {
+  DELIVERY_WRITER_TOKEN,
+  IDeliveryWriter,
+} from '../../application/ports';
+import {
+  DeliverWebhookJob,
+  DEFAULT_DELIVER_WEBHOOK_JOB_OPTIONS,
+  DEFAULT_FIFO_PARTITION_KEY,
+  WEBHOOK_DELIVERY_QUEUE,
+  buildDeliveryJobId,
+} from './delivery-queue.types';
+
+/**
+ * Input accepted when requesting a new webhook delivery
+ */
+export interface EnqueueDeliveryInput {
+  webhookId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  /** Supply to make enqueueing idempotent for a caller-side id */
+  deliveryId?: string;
+  correlationId?: string;
+  /** Dead-lettered delivery this one replays */
+  replayOf?: string;
+  /** Orders deliveries per partition for fifo webhooks; ignored for loose */
+  partitionKey?: string;
+}
+
+/**
+ * Delivery Queue Service
+ *
+ * Entry point for outbound webhook deliveries. Records the DeliveryRequested
+ * event and schedules attempts on the WebhookDeliveryQueue.
+ *
+ * Webhooks with ConfigOrdering `loose` dispatch every delivery at once and
+ * attempts run in parallel. For `fifo` webhooks each delivery joins its
+ * partition lane and is dispatched only when it reaches the head; the
+ * worker calls advanceLane() once the head succeeds or fails for good.
+ */
+@Injectable()
+export class DeliveryQueueService {
+  private readonly logger: Logger;
+  private readonly fifo: FifoSequencer<DeliverWebhookJob>;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(`Queue:${WEBHOOK_DELIVERY_QUEUE.NAME}`)
+    private readonly queue: Queue,
+    @Inject(DELIVERY_WRITER_TOKEN)
+    private readonly deliveryWriter: IDeliveryWriter,
+    private readonly metadataFactory: MetadataFactory,
+    @Inject(CLOCK) private readonly clock: Clock,
+    @Inject(CONFIG_QUERY_TOKEN)
+    private readonly configQuery: IConfigQuery,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    redis: Redis,
+  ) {
+    this.logger = componentLogger(baseLogger, 'DeliveryQueueService');
+    this.fifo = new FifoSequencer<DeliverWebhookJob>(redis);
+  }
+
+  /**
+   * Accept a delivery and queue its first attempt
+   */
+  async enqueueDelivery(
+    actor: ActorContext,
+    input: EnqueueDeliveryInput,
+  ): Promise<Result<{ deliveryId: string; jobId: string }, DomainError>> {
+    const deliveryId = input.deliveryId ?? randomUUID();
+    const correlationId =
+      input.correlationId ??
+      CorrelationUtil.generateForOperation('webhook-delivery');
+
+    // Ordering is decided at enqueue time so the lane reflects arrival order
+    const configResult = await this.configQuery.findById(
+      actor,
+      input.webhookId,
+    );
+    if (!configResult.ok) return configResult;
+    const fifo =
+      Option.isSome(configResult.value) &&
+      configResult.value.value.ordering === 'fifo';
+
+    const delivery = DeliveryAggregate.request(
+      {
+        deliveryId,
+        webhookId: input.webhookId,
+        eventType: input.eventType,
+        replayOf: input.replayOf,
+      },
+      this.clock,
+      this.metadataFactory.build(actor, { correlationId, source: 'worker' }),
+    );
+
+    const saveResult = await this.deliveryWriter.save(actor, delivery);
+    if (!saveResult.ok) {
+      Log.error(this.logger, 'Failed to record delivery request', {
+        method: 'enqueueDelivery',
+        deliveryId,
+        webhookId: input.webhookId,
+        error: saveResult.error.detail,
+      });
+      return saveResult;
+    }
+
+    const job: DeliverWebhookJob = {
+      deliveryId,
+      tenant: actor.tenant ?? 'default',
+      webhookId: input.webhookId,
+      eventType: input.eventType,
+      payload: input.payload,
+      attempt: 1,
+      correlationId,
+      ...(fifo && {
+        orderingKey: input.partitionKey ?? DEFAULT_FIFO_PARTITION_KEY,
+      }),
+    };
+
+    if (job.orderingKey) {
+      const queued = await this.joinLane(job);
+      if (!queued.ok) return queued;
+      if (!queued.value) {
+        // Dispatched by advanceLane() when the deliveries ahead complete
+        return ok({
+          deliveryId,
+          jobId: buildDeliveryJobId(deliveryId, job.attempt),
+        });
+      }
+    }
+
+    const scheduled = await this.scheduleAttempt(job, 0);
+    if (!scheduled.ok) {
+      // Nothing would ever complete this delivery, so give up its place at
+      // the head of the lane rather than block the deliveries behind it
+      await this.advanceLane(job);
+      return scheduled;
+    }
+
+    return ok({ deliveryId, jobId: scheduled.value });
+  }
+
+  /**
+   * Release the next delivery of a fifo lane once `job`'s delivery has
+   * reached a terminal status
+   */
+  async advanceLane(
+    job: DeliverWebhookJob,
+  ): Promise<Result<void, DomainError>> {
+    if (!job.orderingKey) return ok(undefined);
+
+    const lane = DeliveryProjectionKeys.getRedisFifoLaneKey(
+      job.tenant,
+      job.webhookId,
+      job.orderingKey,
+    );
+
+    try {
+      const { completed, next } = await this.fifo.complete(
+        lane,
+        job.deliveryId,
+      );
+      if (!completed || !next) return ok(undefined);
+
+      const scheduled = await this.scheduleAttempt(next.item, 0);
+      return scheduled.ok ? ok(undefined) : scheduled;
+    } catch (error) {
+      return this.laneError('advanceLane', job, error);
+    }
+  }
+
+  /**
+   * Append a delivery to its fifo lane; resolves to true when it is the
+   * head and must be dispatched now
+   */
+  private async joinLane(
+    job: DeliverWebhookJob,
+  ): Promise<Result<boolean, DomainError>> {
+    const lane = DeliveryProjectionKeys.getRedisFifoLaneKey(
+      job.tenant,
+      job.webhookId,
+      job.orderingKey ?? DEFAULT_FIFO_PARTITION_KEY,
+    );
+
+    try {
+      const { isHead, depth } = await this.fifo.push(lane, job.deliveryId, job);
+      if (!isHead) {
+        Log.info(this.logger, 'Delivery queued behind fifo lane', {
+          method: 'joinLane',
+          deliveryId: job.deliveryId,
+          webhookId: job.webhookId,
+          orderingKey: job.orderingKey,
+          position: depth,
+        });
+      }
+      return ok(isHead);
+    } catch (error) {
+      return this.laneError('joinLane', job, error);
+    }
+  }
+
+  private laneError(
+    operation: string,
+    job: DeliverWebhookJob,
+    error: unknown,
+  ): Result<never, DomainError> {
+    const e = error as Error;
+    Log.error(this.logger, 'Fifo lane operation failed', {
+      method: operation,
+      deliveryId: job.deliveryId,
+      webhookId: job.webhookId,
+      orderingKey: job.orderingKey,
+      error: e.message,
+    });
+    return err({
+      ...DeliveryErrors.ENQUEUE_FAILED,
+      context: {
+        deliveryId: job.deliveryId,
+        webhookId: job.webhookId,
+        operation,
+        reason: e.message,
+      },
+    });
+  }
+
+  /**
+   * Schedule a delivery attempt after `delayMs`
+   *
+   * @param options.deferral - Set when re-queuing the attempt that is currently
+   * running; BullMQ ignores adds that reuse an existing job id.
+   */
+  async scheduleAttempt(
+    job: DeliverWebhookJob,
+    delayMs: number,
+    options?: { deferral?: string },
+  ): Promise<Result<string, DomainError>> {
+    const baseJobId = buildDeliveryJobId(job.deliveryId, job.attempt);
+    const jobId = options?.deferral
+      ? `${baseJobId}-${options.deferral}`
+      : baseJobId;
+
+    try {
+      await this.queue.add(WEBHOOK_DELIVERY_QUEUE.JOB_NAME, job, {
+        ...DEFAULT_DELIVER_WEBHOOK_JOB_OPTIONS,
+        jobId,
+        delay: delayMs,
+      });
+
+      Log.info(this.logger, 'Queued webhook delivery attempt', {
+        method: 'scheduleAttempt',
+        jobId,
+        deliveryId: job.deliveryId,
+        webhookId: job.webhookId,
+        attempt: job.attempt,
+        delayMs,
+      });
+
+      return ok(jobId);
+    } catch (error) {
+      const e = error as Error;
+      Log.error(this.logger, 'Failed to queue webhook delivery attempt', {
+        method: 'scheduleAttempt',
+        jobId,
+        deliveryId: job.deliveryId,
+        error: e.message,
+      });
+      return err({
+        ...DeliveryErrors.ENQUEUE_FAILED,
+        context: {
+          deliveryId: job.deliveryId,
+          webhookId: job.webhookId,
+          attempt: job.attempt,
+          reason: e.message,
+        },
+      });
+    }
+  }
+}
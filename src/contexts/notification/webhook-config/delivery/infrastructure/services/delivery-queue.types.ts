@@ -0,0 +1,89 @@
+/**
+ * BullMQ Job Schema and Queue Configuration for Webhook Delivery
+ *
+ * Purpose: Define job payloads, queue options, and processing types for
+ * outbound webhook deliveries driven by webhook-config.
+ */
+
+import { JobsOptions } from 'bullmq';
+import { DEFAULT_JOB_OPTIONS } from 'src/shared/infrastructure';
+
+/**
+ * DeliverWebhookJob - BullMQ job payload for a single delivery attempt
+ *
+ * Carries identifiers plus the webhook body. Target URL, headers, retry
+ * settings and credentials are resolved from the webhook-config projections
+ * at attempt time, so configuration changes apply to pending retries.
+ */
+export interface DeliverWebhookJob {
+  /** UUID of the Delivery */
+  deliveryId: string;
+
+  /** Logical tenant key for multi-tenancy */
+  tenant: string;
+
+  /** Webhook (workspace) identifier */
+  webhookId: string;
+
+  /** Event type being delivered */
+  eventType: string;
+
+  /** JSON body sent to the target */
+  payload: Record<string, unknown>;
+
+  /** 1-based attempt number this job executes */
+  attempt: number;
+
+  /** Correlation id propagated to delivery events */
+  correlationId: string;
+
+  /**
+   * FIFO partition, set only for webhooks with fifo ordering. The delivery
+   * holds the head of its partition lane until it succeeds or fails.
+   */
+  orderingKey?: string;
+}
+
+/**
+ * Partition used by fifo webhooks when the producer gives no partition key
+ */
+export const DEFAULT_FIFO_PARTITION_KEY = 'default';
+
+/**
+ * Queue Configuration Constants
+ */
+export const WEBHOOK_DELIVERY_QUEUE = {
+  /** Queue name for BullMQ */
+  NAME: 'WebhookDeliveryQueue',
+
+  /** Job name for delivery attempts */
+  JOB_NAME: 'deliver-webhook',
+} as const;
+
+/**
+ * Build the deterministic job id for a delivery attempt.
+ * BullMQ ignores adds with an existing job id, so re-enqueuing the same
+ * attempt twice is a no-op. BullMQ rejects custom ids containing `:`.
+ */
+export function buildDeliveryJobId(
+  deliveryId: string,
+  attempt: number,
+): string {
+  return `${deliveryId}-${attempt}`;
+}
+
+/**
+ * Default job options for delivery attempts.
+ * HTTP retries are scheduled by the worker as new delayed jobs (one per
+ * attempt); BullMQ retries only cover infrastructure crashes such as failed
+ * projection lookups, where no request has been sent yet. A job that crashes
+ * through all of them fails its delivery and releases its fifo lane.
+ */
+export const DEFAULT_DELIVER_WEBHOOK_JOB_OPTIONS: JobsOptions = {
+  ...DEFAULT_JOB_OPTIONS,
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 2000,
+  },
+} as const;
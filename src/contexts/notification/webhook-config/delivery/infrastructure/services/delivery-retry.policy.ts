@@ -0,0 +1,150 @@
+import { DetailConfigResponse } from 'src/contexts/notification/webhook-config/config/application/dtos';
+import { ConfigRetryStrategyValue } from 'src/contexts/notification/webhook-config/config/domain/value-objects';
+import { DeliveryErrorClassValue } from '../../domain/types';
+
+/**
+ * Effective retry and timeout settings for a webhook, derived from its config.
+ */
+export interface DeliveryRetrySettings {
+  strategy: ConfigRetryStrategyValue;
+  /** Total attempts allowed, including the first one */
+  maxAttempts: number;
+  backoffSeconds: number;
+  jitterPct: number;
+  requestTimeoutMs: number;
+  connectTimeoutMs: number;
+}
+
+/**
+ * Defaults applied when a webhook has no config or leaves a field unset.
+ */
+export const DEFAULT_DELIVERY_RETRY_SETTINGS: DeliveryRetrySettings = {
+  strategy: 'exponential',
+  maxAttempts: 3,
+  backoffSeconds: 2,
+  jitterPct: 0,
+  requestTimeoutMs: 10000,
+  connectTimeoutMs: 3000,
+};
+
+/**
+ * Delivery Retry Policy
+ *
+ * Pure functions that turn ConfigRetryStrategy, RetryBackoffSeconds,
+ * BackoffJitterPct and MaxRetryAttempts into retry decisions and delays.
+ */
+export class DeliveryRetryPolicy {
+  /**
+   * Resolve effective settings from the webhook config projection
+   */
+  static fromConfig(
+    config?: DetailConfigResponse | null,
+  ): DeliveryRetrySettings {
+    const d = DEFAULT_DELIVERY_RETRY_SETTINGS;
+    if (!config) return { ...d };
+
+    return {
+      strategy: config.retryStrategy ?? d.strategy,
+      // maxRetryAttempts counts total sends, matching the Slack request worker
+      maxAttempts: Math.max(1, config.maxRetryAttempts ?? d.maxAttempts),
+      backoffSeconds: Math.max(
+        0,
+        config.retryBackoffSeconds ?? d.backoffSeconds,
+      ),
+      jitterPct: Math.min(
+        100,
+        Math.max(0, config.backoffJitterPct ?? d.jitterPct),
+      ),
+      requestTimeoutMs: config.requestTimeoutMs ?? d.requestTimeoutMs,
+      connectTimeoutMs: config.connectTimeoutMs ?? d.connectTimeoutMs,
+    };
+  }
+
+  /**
+   * Compute the delay before the attempt following `attempt`
+   *
+   * - exponential: backoff * 2^(attempt-1)
+   * - linear: backoff * attempt
+   * - fixed: backoff
+   *
+   * Jitter spreads the delay uniformly within ±jitterPct percent.
+   *
+   * @param attempt - The 1-based attempt that just failed
+   * @param random - Random source in [0, 1), injectable for tests
+   */
+  static computeDelayMs(
+    settings: DeliveryRetrySettings,
+    attempt: number,
+    random: () => number = Math.random,
+  ): number {
+    const baseMs = settings.backoffSeconds * 1000;
+    let delayMs: number;
+
+    switch (settings.strategy) {
+      case 'linear':
+        delayMs = baseMs * attempt;
+        break;
+      case 'fixed':
+        delayMs = baseMs;
+        break;
+      case 'exponential':
+      default:
+        delayMs = baseMs * Math.pow(2, Math.max(0, attempt - 1));
+        break;
+    }
+
+    if (settings.jitterPct > 0) {
+      const spread = (settings.jitterPct / 100) * (2 * random() - 1);
+      delayMs = delayMs * (1 + spread);
+    }
+
+    return Math.max(0, Math.round(delayMs));
+  }
+
+  /**
+   * Whether another attempt is allowed after `attempt`
+   */
+  static hasAttemptsRemaining(
+    settings: DeliveryRetrySettings,
+    attempt: number,
+  ): boolean {
+    return attempt < settings.maxAttempts;
+  }
+
+  /**
+   * Whether an HTTP status code is worth retrying
+   * 408, 425, 429 and 5xx are transient; other 4xx are permanent.
+   */
+  static isRetryableStatus(statusCode: number): boolean {
+    return (
+      statusCode === 408 ||
+      statusCode === 425 ||
+      statusCode === 429 ||
+      statusCode >= 500
+    );
+  }
+
+  /**
+   * Whether a transport failure is worth retrying
+   */
+  static isRetryableErrorClass(errorClass: DeliveryErrorClassValue): boolean {
+    return errorClass !== 'configuration';
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+   */
+  static parseRetryAfterMs(
+    header: string | string[] | undefined,
+    now: Date,
+  ): number | undefined {
+    const value = Array.isArray(header) ? header[0] : header;
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now.getTime());
+  }
+}
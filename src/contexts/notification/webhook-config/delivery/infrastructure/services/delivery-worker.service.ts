@@ -0,0 +1,641 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { DomainError } from 'src/shared/errors';
+import { ActorContext } from 'src/shared/application/context';
+import { MetadataFactory } from 'src/shared/application/factories/metadata.factory';
+import { Option } from 'src/shared/domain/types';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { JobProcessingResult } from 'src/shared/infrastructure';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import {
+  IWorkspaceQuery,
+  WORKSPACE_QUERY_TOKEN,
+} from 'src/contexts/notification/webhook-config/workspace/application/ports';
+import {
+  IConfigQuery,
+  CONFIG_QUERY_TOKEN,
+} from 'src/contexts/notification/webhook-config/config/application/ports';
+import {
+  IAuthQuery,
+  AUTH_QUERY_TOKEN,
+} from 'src/contexts/notification/webhook-config/auth/application/ports';
+import { DeliveryAggregate } from '../../domain/aggregates';
+import { DELIVERY_TERMINAL_STATUSES } from '../../domain/types';
+import { DetailConfigResponse } from 'src/contexts/notification/webhook-config/config/application/dtos';
+import {
+  DELIVERY_DLQ_STORE_TOKEN,
+  DELIVERY_WRITER_TOKEN,
+  IDeliveryDlqStore,
+  IDeliveryWriter,
+} from '../../application/ports';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+import { DeliverWebhookJob } from './delivery-queue.types';
+import { DeliveryQueueService } from './delivery-queue.service';
+import {
+  DeliveryRetryPolicy,
+  DeliveryRetrySettings,
+} from './delivery-retry.policy';
+import { WebhookHttpClient, WebhookHttpResult } from './webhook-http.client';
+import { WebhookRequestBuilder } from './webhook-request.builder';
+import { OAuth2TokenBroker } from './oauth2-token.broker';
+import { WebhookRateLimiter } from './webhook-rate-limiter';
+
+/** Delay before re-checking a paused webhook */
+const PAUSED_RECHECK_DELAY_MS = 60_000;
+
+/** Headroom on a concurrency lease beyond the token fetch and send timeouts */
+const CONCURRENCY_LEASE_MARGIN_MS = 30_000;
+
+/** TTL of the per-attempt execution lock */
+const ATTEMPT_LOCK_TTL_SECONDS = 900;
+
+/** Retention of dead letters when the config leaves dlqMaxAgeSeconds unset */
+const DEFAULT_DLQ_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+/** Portion of the last response body kept on a dead letter */
+const MAX_DLQ_RESPONSE_BODY_CHARS = 4096;
+
+/**
+ * Final failure details, recorded on the delivery and its dead letter
+ */
+interface DeliveryFailure {
+  reason: string;
+  lastError?: string;
+  statusCode?: number;
+  responseBody?: string;
+}
+
+/**
+ * Delivery Worker Service
+ *
+ * Executes a single webhook delivery attempt:
+ * 1. Guards against duplicate execution of the same attempt
+ * 2. Resolves the workspace, config and auth projections
+ * 3. Waits for a slot under rateLimitPerMinute and maxConcurrent
+ * 4. Builds and sends the HTTP request with config timeouts
+ * 5. Records the attempt and, when final, the outcome as delivery events
+ * 6. Schedules the next attempt using the configured retry strategy
+ * 7. Dead-letters exhausted deliveries when the webhook has DLQ enabled
+ * 8. Releases the next delivery of a fifo lane once this one is final
+ * 9. Fails deliveries whose job crashed through all BullMQ attempts
+ *
+ * A fifo delivery that is paused, throttled or retrying keeps its lane
+ * blocked, so later deliveries of the same partition wait behind it.
+ */
+@Injectable()
+export class DeliveryWorkerService {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WORKSPACE_QUERY_TOKEN)
+    private readonly workspaceQuery: IWorkspaceQuery,
+    @Inject(CONFIG_QUERY_TOKEN)
+    private readonly configQuery: IConfigQuery,
+    @Inject(AUTH_QUERY_TOKEN)
+    private readonly authQuery: IAuthQuery,
+    @Inject(DELIVERY_WRITER_TOKEN)
+    private readonly deliveryWriter: IDeliveryWriter,
+    @Inject(DELIVERY_DLQ_STORE_TOKEN)
+    private readonly dlqStore: IDeliveryDlqStore,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly metadataFactory: MetadataFactory,
+    private readonly deliveryQueue: DeliveryQueueService,
+    private readonly requestBuilder: WebhookRequestBuilder,
+    private readonly httpClient: WebhookHttpClient,
+    private readonly tokenBroker: OAuth2TokenBroker,
+    private readonly rateLimiter: WebhookRateLimiter,
+  ) {
+    this.logger = componentLogger(baseLogger, 'DeliveryWorkerService');
+  }
+
+  /**
+   * Process a single delivery attempt job
+   */
+  async processJob(job: Job<DeliverWebhookJob>): Promise<JobProcessingResult> {
+    const startTime = Date.now();
+    const data = job.data;
+    const actor = this.systemActor(data.tenant);
+    const logContext = {
+      method: 'processJob',
+      jobId: job.id,
+      deliveryId: data.deliveryId,
+      webhookId: data.webhookId,
+      tenant: data.tenant,
+      attempt: data.attempt,
+    };
+
+    const lockKey = DeliveryProjectionKeys.getRedisAttemptLockKey(
+      data.tenant,
+      data.deliveryId,
+      data.attempt,
+    );
+    if (!(await this.acquireAttemptLock(lockKey))) {
+      Log.info(this.logger, 'Skipping duplicate delivery attempt', logContext);
+      return { success: true, message: 'duplicate_attempt_skipped' };
+    }
+
+    const leaseId = `${data.deliveryId}:${data.attempt}`;
+    let leaseHeld = false;
+    let delivery: DeliveryAggregate | undefined;
+    let crashed = false;
+
+    try {
+      // 1. Resolve projections
+      const [workspaceResult, configResult, authResult] = await Promise.all([
+        this.workspaceQuery.findById(actor, data.webhookId),
+        this.configQuery.findById(actor, data.webhookId),
+        this.authQuery.findById(actor, data.webhookId),
+      ]);
+
+      // Lookup errors are infrastructure failures; throw so BullMQ records the job failure
+      if (!workspaceResult.ok) throw this.toError(workspaceResult.error);
+      if (!configResult.ok) throw this.toError(configResult.error);
+      if (!authResult.ok) throw this.toError(authResult.error);
+
+      delivery = this.resumeDelivery(actor, data);
+      const config = Option.isSome(configResult.value)
+        ? configResult.value.value
+        : null;
+
+      if (Option.isNone(workspaceResult.value)) {
+        return await this.fail(actor, delivery, data, config, {
+          reason: 'webhook_not_found',
+        });
+      }
+      const workspace = workspaceResult.value.value;
+
+      if (workspace.status === 'disabled') {
+        return await this.fail(actor, delivery, data, config, {
+          reason: 'webhook_disabled',
+        });
+      }
+      if (workspace.status === 'paused') {
+        await this.releaseAttemptLock(lockKey);
+        const scheduled = await this.deliveryQueue.scheduleAttempt(
+          { ...data },
+          PAUSED_RECHECK_DELAY_MS,
+          { deferral: `paused-${this.clock.now().getTime()}` },
+        );
+        if (!scheduled.ok) {
+          throw new Error(scheduled.error.detail ?? scheduled.error.title);
+        }
+        Log.info(this.logger, 'Webhook paused; attempt deferred', logContext);
+        return { success: true, message: 'webhook_paused_deferred' };
+      }
+
+      const auth = Option.isSome(authResult.value)
+        ? authResult.value.value
+        : null;
+      const settings = DeliveryRetryPolicy.fromConfig(config);
+
+      // 2. Throttle: over-limit attempts are delayed, not failed
+      const slot = await this.rateLimiter.acquire(
+        data.tenant,
+        data.webhookId,
+        {
+          rateLimitPerMinute: config?.rateLimitPerMinute,
+          maxConcurrent: config?.maxConcurrent,
+        },
+        leaseId,
+        settings.connectTimeoutMs +
+          settings.requestTimeoutMs * 2 +
+          CONCURRENCY_LEASE_MARGIN_MS,
+      );
+      if (!slot.granted) {
+        await this.releaseAttemptLock(lockKey);
+        const scheduled = await this.deliveryQueue.scheduleAttempt(
+          { ...data },
+          slot.retryAfterMs,
+          { deferral: `${slot.reason}-${this.clock.now().getTime()}` },
+        );
+        if (!scheduled.ok) {
+          throw new Error(scheduled.error.detail ?? scheduled.error.title);
+        }
+        Log.info(this.logger, 'Webhook limit reached; attempt deferred', {
+          ...logContext,
+          reason: slot.reason,
+          retryAfterMs: slot.retryAfterMs,
+        });
+        return { success: true, message: `${slot.reason}_deferred` };
+      }
+      leaseHeld = true;
+
+      // 3. Build request
+      const requestResult = await this.requestBuilder.build({
+        job: data,
+        workspace,
+        config,
+        auth,
+        settings,
+      });
+      if (!requestResult.ok && !requestResult.error.retryable) {
+        return await this.fail(actor, delivery, data, config, {
+          reason: requestResult.error.code,
+          lastError: this.describe(requestResult.error),
+        });
+      }
+
+      // 4. Send (transient auth failures, e.g. token endpoint down, count as an attempt)
+      const response: WebhookHttpResult = requestResult.ok
+        ? await this.httpClient.send(requestResult.value)
+        : {
+            ok: false,
+            errorClass: 'auth',
+            error: this.describe(requestResult.error),
+            durationMs: 0,
+            timings: { totalMs: 0 },
+          };
+
+      // A rejected bearer token may have been revoked early; fetch a new one next time
+      if (
+        response.ok &&
+        response.value.statusCode === 401 &&
+        auth?.type === 'oauth2ClientCredentials'
+      ) {
+        await this.tokenBroker.invalidate(data.tenant, data.webhookId);
+      }
+
+      // 5. Record outcome and schedule follow-up
+      const result = await this.handleResponse(
+        actor,
+        delivery,
+        data,
+        config,
+        settings,
+        response,
+      );
+
+      Log.info(this.logger, 'Delivery attempt processed', {
+        ...logContext,
+        outcome: result.message,
+        processingTimeMs: Date.now() - startTime,
+      });
+
+      return {
+        ...result,
+        metadata: {
+          ...result.metadata,
+          processingTimeMs: Date.now() - startTime,
+        },
+      };
+    } catch (error) {
+      const e = error as Error;
+      crashed = true;
+      // Unexpected infrastructure failure: release the lock so the job can be retried
+      await this.releaseAttemptLock(lockKey);
+      Log.error(this.logger, 'Delivery attempt crashed', {
+        ...logContext,
+        error: e.message,
+        stack: e.stack,
+      });
+      throw error;
+    } finally {
+      if (leaseHeld) {
+        await this.rateLimiter.release(data.tenant, data.webhookId, leaseId);
+      }
+      // A crashed attempt is retried by BullMQ, so its lane stays blocked;
+      // handleExhaustedJob() advances it once the retries run out
+      if (
+        data.orderingKey &&
+        !crashed &&
+        delivery &&
+        DELIVERY_TERMINAL_STATUSES.includes(delivery.status)
+      ) {
+        await this.advanceLane(data);
+      }
+    }
+  }
+
+  /**
+   * Fail a delivery whose job crashed through all of its BullMQ attempts
+   *
+   * Crashes never record an outcome, so without this the delivery would stay
+   * pending and its fifo lane would wait behind it forever. Called from the
+   * worker's failed event; errors are logged, not thrown.
+   */
+  async handleExhaustedJob(
+    job: Job<DeliverWebhookJob>,
+    error: Error,
+  ): Promise<void> {
+    if (job.attemptsMade < (job.opts.attempts ?? 1)) return;
+
+    const data = job.data;
+    const actor = this.systemActor(data.tenant);
+    try {
+      // Best effort: the config lookup may be what kept crashing
+      const configResult = await this.configQuery.findById(
+        actor,
+        data.webhookId,
+      );
+      if (!configResult.ok) {
+        Log.warn(
+          this.logger,
+          'Config unavailable; delivery not dead-lettered',
+          {
+            method: 'handleExhaustedJob',
+            deliveryId: data.deliveryId,
+            webhookId: data.webhookId,
+            error: configResult.error.detail,
+          },
+        );
+      }
+      const config =
+        configResult.ok && Option.isSome(configResult.value)
+          ? configResult.value.value
+          : null;
+
+      await this.fail(actor, this.resumeDelivery(actor, data), data, config, {
+        reason: 'worker_crashed',
+        lastError: error.message,
+      });
+    } catch (e) {
+      Log.error(this.logger, 'Failed to fail exhausted delivery', {
+        method: 'handleExhaustedJob',
+        deliveryId: data.deliveryId,
+        webhookId: data.webhookId,
+        error: (e as Error).message,
+      });
+    }
+
+    if (data.orderingKey) {
+      await this.advanceLane(data);
+    }
+  }
+
+  private async advanceLane(data: DeliverWebhookJob): Promise<void> {
+    const advanced = await this.deliveryQueue.advanceLane(data);
+    if (!advanced.ok) {
+      // Next delivery stays held until the lane is advanced again
+      Log.error(this.logger, 'Failed to advance fifo lane', {
+        method: 'advanceLane',
+        deliveryId: data.deliveryId,
+        webhookId: data.webhookId,
+        orderingKey: data.orderingKey,
+        error: advanced.error.detail,
+      });
+    }
+  }
+
+  private async handleResponse(
+    actor: ActorContext,
+    delivery: DeliveryAggregate,
+    data: DeliverWebhookJob,
+    config: DetailConfigResponse | null,
+    settings: DeliveryRetrySettings,
+    response: WebhookHttpResult,
+  ): Promise<JobProcessingResult> {
+    const statusCode = response.ok ? response.value.statusCode : undefined;
+    const durationMs = response.ok
+      ? response.value.durationMs
+      : response.durationMs;
+
+    if (response.ok && statusCode! >= 200 && statusCode! < 300) {
+      delivery.recordAttempt({
+        attempt: data.attempt,
+        outcome: 'succeeded',
+        statusCode,
+        durationMs,
+      });
+      delivery.markSucceeded(statusCode!);
+      await this.persist(actor, delivery);
+      return {
+        success: true,
+        message: 'delivered',
+        metadata: { statusCode, retriesAttempted: data.attempt - 1 },
+      };
+    }
+
+    const errorClass = response.ok ? 'http_status' : response.errorClass;
+    const error = response.ok
+      ? `HTTP ${statusCode}`
+      : `${response.errorClass}: ${response.error}`;
+    const retryable = response.ok
+      ? DeliveryRetryPolicy.isRetryableStatus(statusCode!)
+      : DeliveryRetryPolicy.isRetryableErrorClass(response.errorClass);
+    const willRetry =
+      retryable &&
+      DeliveryRetryPolicy.hasAttemptsRemaining(settings, data.attempt);
+
+    if (!willRetry) {
+      delivery.recordAttempt({
+        attempt: data.attempt,
+        outcome: retryable ? 'retryable_failure' : 'permanent_failure',
+        statusCode,
+        durationMs,
+        errorClass,
+        error,
+      });
+      const failure: DeliveryFailure = {
+        reason: retryable ? 'max_attempts_exceeded' : 'non_retryable_failure',
+        lastError: error,
+        statusCode,
+        responseBody: response.ok ? response.value.body : undefined,
+      };
+      delivery.markFailed({
+        reason: failure.reason,
+        lastError: failure.lastError,
+        statusCode: failure.statusCode,
+      });
+      await this.persist(actor, delivery);
+      await this.deadLetter(delivery, data, config, failure);
+      return {
+        success: false,
+        message: 'failed',
+        metadata: { statusCode, retriesAttempted: data.attempt - 1 },
+      };
+    }
+
+    // Honor Retry-After when the target asks for a longer pause
+    const retryAfterMs = response.ok
+      ? DeliveryRetryPolicy.parseRetryAfterMs(
+          response.value.headers['retry-after'],
+          this.clock.now(),
+        )
+      : undefined;
+    const delayMs = Math.max(
+      DeliveryRetryPolicy.computeDelayMs(settings, data.attempt),
+      retryAfterMs ?? 0,
+    );
+    const nextRetryAt = new Date(this.clock.now().getTime() + delayMs);
+
+    delivery.recordAttempt({
+      attempt: data.attempt,
+      outcome: 'retryable_failure',
+      statusCode,
+      durationMs,
+      errorClass,
+      error,
+      nextRetryAt: nextRetryAt.toISOString(),
+    });
+    await this.persist(actor, delivery);
+
+    const scheduled = await this.deliveryQueue.scheduleAttempt(
+      { ...data, attempt: data.attempt + 1 },
+      delayMs,
+    );
+    if (!scheduled.ok) {
+      throw new Error(scheduled.error.detail ?? scheduled.error.title);
+    }
+
+    return {
+      success: false,
+      message: 'retry_scheduled',
+      metadata: { statusCode, nextRetryAt: nextRetryAt.toISOString() },
+    };
+  }
+
+  private systemActor(tenant: string): ActorContext {
+    return { tenant, userId: 'system', tenant_userId: 'system' };
+  }
+
+  private resumeDelivery(
+    actor: ActorContext,
+    data: DeliverWebhookJob,
+  ): DeliveryAggregate {
+    return DeliveryAggregate.resume(
+      {
+        deliveryId: data.deliveryId,
+        webhookId: data.webhookId,
+        eventType: data.eventType,
+        status: data.attempt > 1 ? 'retrying' : 'pending',
+        attempts: data.attempt - 1,
+      },
+      this.clock,
+      this.metadataFactory.build(actor, {
+        correlationId: data.correlationId,
+        source: 'worker',
+      }),
+    );
+  }
+
+  private async fail(
+    actor: ActorContext,
+    delivery: DeliveryAggregate,
+    data: DeliverWebhookJob,
+    config: DetailConfigResponse | null,
+    failure: DeliveryFailure,
+  ): Promise<JobProcessingResult> {
+    delivery.markFailed({
+      reason: failure.reason,
+      lastError: failure.lastError,
+    });
+    await this.persist(actor, delivery);
+    await this.deadLetter(delivery, data, config, failure);
+
+    Log.warn(this.logger, 'Delivery failed before sending', {
+      method: 'fail',
+      deliveryId: delivery.id,
+      webhookId: delivery.webhookId,
+      reason: failure.reason,
+    });
+
+    return { success: false, message: failure.reason };
+  }
+
+  /**
+   * Keep a failed delivery, payload included, for inspection and replay.
+   * Like persist(), errors are logged rather than thrown.
+   */
+  private async deadLetter(
+    delivery: DeliveryAggregate,
+    data: DeliverWebhookJob,
+    config: DetailConfigResponse | null,
+    failure: DeliveryFailure,
+  ): Promise<void> {
+    if (!config?.dlqEnabled) return;
+
+    const now = this.clock.now();
+    const maxAgeSeconds =
+      config.dlqMaxAgeSeconds ?? DEFAULT_DLQ_MAX_AGE_SECONDS;
+    const result = await this.dlqStore.save({
+      deliveryId: data.deliveryId,
+      tenant: data.tenant,
+      webhookId: data.webhookId,
+      eventType: data.eventType,
+      payload: data.payload,
+      correlationId: data.correlationId,
+      partitionKey: data.orderingKey,
+      attempts: delivery.attempts,
+      reason: failure.reason,
+      lastError: failure.lastError,
+      lastStatusCode: failure.statusCode,
+      lastResponseBody: failure.responseBody?.slice(
+        0,
+        MAX_DLQ_RESPONSE_BODY_CHARS,
+      ),
+      failedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + maxAgeSeconds * 1000).toISOString(),
+    });
+
+    if (!result.ok) {
+      Log.error(this.logger, 'Failed to dead-letter delivery', {
+        method: 'deadLetter',
+        deliveryId: data.deliveryId,
+        webhookId: data.webhookId,
+        error: result.error.detail,
+      });
+    }
+  }
+
+  /**
+   * Persist delivery events. Failing to write the audit trail must not
+   * cause the webhook to be sent twice, so errors are logged, not thrown.
+   */
+  private async persist(
+    actor: ActorContext,
+    delivery: DeliveryAggregate,
+  ): Promise<void> {
+    const result = await this.deliveryWriter.save(actor, delivery);
+    if (!result.ok) {
+      Log.error(this.logger, 'Failed to record delivery events', {
+        method: 'persist',
+        deliveryId: delivery.id,
+        webhookId: delivery.webhookId,
+        error: result.error.detail,
+      });
+    }
+  }
+
+  private describe(error: DomainError): string {
+    const reason = error.context?.reason;
+    return typeof reason === 'string' ? reason : (error.detail ?? error.title);
+  }
+
+  private toError(error: DomainError): Error {
+    return new Error(error.detail ?? error.title, { cause: error });
+  }
+
+  private async acquireAttemptLock(key: string): Promise<boolean> {
+    try {
+      const result = await this.redis.set(
+        key,
+        '1',
+        'EX',
+        ATTEMPT_LOCK_TTL_SECONDS,
+        'NX',
+      );
+      return result === 'OK';
+    } catch (error) {
+      Log.error(this.logger, 'Failed to acquire attempt lock', {
+        method: 'acquireAttemptLock',
+        key,
+        error: (error as Error).message,
+      });
+      // On Redis error, allow processing (fail-open approach)
+      return true;
+    }
+  }
+
+  private async releaseAttemptLock(key: string): Promise<void> {
+    try {
+      await this.redis.del(key);
+    } catch {
+      // Lock expires on its own
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export * from './delivery-queue.types';
+export * from './delivery-queue.service';
+export * from './delivery-retry.policy';
+export * from './delivery-worker.service';
+export * from './webhook-http.client';
+export * from './webhook-request.builder';
+export * from './oauth2-token.broker';
+export * from './webhook-tls-agent.pool';
+export * from './webhook-rate-limiter';
+export * from './webhook-subscription.index';
@@ -0,0 +1,213 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { createHash } from 'crypto';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { OAuth2ClientCredentialsClient } from 'src/shared/infrastructure/oauth';
+import { DetailAuthResponse } from 'src/contexts/notification/webhook-config/auth/application/dtos';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { DeliveryErrors } from '../../domain/errors';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+
+/** Refresh tokens this many seconds before they expire */
+const REFRESH_BEFORE_EXPIRY_SECONDS = 60;
+
+/**
+ * Cached token entry stored in Redis
+ */
+interface CachedAccessToken {
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number;
+  /** Hash of the credentials the token was issued for */
+  fingerprint: string;
+}
+
+/**
+ * OAuth2 Token Broker
+ *
+ * Supplies access tokens for webhooks using oauth2ClientCredentials auth.
+ * Tokens are cached in Redis per webhook and expire from the cache ahead of
+ * their real expiry, so the next delivery fetches a fresh one before the old
+ * one lapses. Concurrent misses within a process share a single request.
+ *
+ * The cache is invalidated by AuthChangeInvalidationProjector when the auth
+ * aggregate changes; the credential fingerprint covers the window before the
+ * projector catches up.
+ */
+@Injectable()
+export class OAuth2TokenBroker {
+  private readonly logger: Logger;
+  private readonly inFlight = new Map<
+    string,
+    Promise<Result<string, DomainError>>
+  >();
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly client: OAuth2ClientCredentialsClient,
+  ) {
+    this.logger = componentLogger(baseLogger, 'OAuth2TokenBroker');
+  }
+
+  /**
+   * Get a valid `Authorization` header value for the webhook
+   */
+  async getAuthorizationHeader(
+    tenant: string,
+    auth: DetailAuthResponse,
+    timeoutMs?: number,
+  ): Promise<Result<string, DomainError>> {
+    const { tokenUrl, clientId, clientSecret } = auth;
+    if (!tokenUrl || !clientId || !clientSecret) {
+      return err({
+        ...DeliveryErrors.OAUTH_CONFIG_INVALID,
+        context: { webhookId: auth.webhookId, tenant, operation: 'get_token' },
+      });
+    }
+
+    const key = DeliveryProjectionKeys.getRedisOAuthTokenKey(
+      tenant,
+      auth.webhookId,
+    );
+    const fingerprint = this.fingerprint(auth);
+
+    const cached = await this.readCache(key);
+    if (
+      cached &&
+      cached.fingerprint === fingerprint &&
+      cached.expiresAt - REFRESH_BEFORE_EXPIRY_SECONDS * 1000 >
+        this.clock.now().getTime()
+    ) {
+      return ok(`${cached.tokenType} ${cached.accessToken}`);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = this.fetchAndCache(key, fingerprint, tenant, auth, {
+      tokenUrl,
+      clientId,
+      clientSecret,
+      timeoutMs,
+    }).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+
+    return request;
+  }
+
+  /**
+   * Drop the cached token for a webhook
+   */
+  async invalidate(tenant: string, webhookId: string): Promise<void> {
+    const key = DeliveryProjectionKeys.getRedisOAuthTokenKey(tenant, webhookId);
+    try {
+      await this.redis.del(key);
+      Log.debug(this.logger, 'OAuth2 token cache invalidated', {
+        method: 'invalidate',
+        tenant,
+        webhookId,
+      });
+    } catch (error) {
+      Log.warn(this.logger, 'Failed to invalidate OAuth2 token cache', {
+        method: 'invalidate',
+        tenant,
+        webhookId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private async fetchAndCache(
+    key: string,
+    fingerprint: string,
+    tenant: string,
+    auth: DetailAuthResponse,
+    request: {
+      tokenUrl: string;
+      clientId: string;
+      clientSecret: string;
+      timeoutMs?: number;
+    },
+  ): Promise<Result<string, DomainError>> {
+    const result = await this.client.requestToken({
+      ...request,
+      scope: auth.scope,
+    });
+
+    if (!result.ok) {
+      Log.warn(this.logger, 'OAuth2 token request failed', {
+        method: 'fetchAndCache',
+        tenant,
+        webhookId: auth.webhookId,
+        error: result.error,
+        statusCode: result.statusCode,
+        retryable: result.retryable,
+      });
+      return err({
+        ...DeliveryErrors.OAUTH_TOKEN_REQUEST_FAILED,
+        retryable: result.retryable,
+        context: {
+          webhookId: auth.webhookId,
+          tenant,
+          statusCode: result.statusCode,
+          operation: 'get_token',
+          reason: result.error,
+        },
+      });
+    }
+
+    const token = result.value;
+    const entry: CachedAccessToken = {
+      accessToken: token.accessToken,
+      tokenType: /^bearer$/i.test(token.tokenType) ? 'Bearer' : token.tokenType,
+      expiresAt: this.clock.now().getTime() + token.expiresInSeconds * 1000,
+      fingerprint,
+    };
+    const ttlSeconds = Math.max(
+      1,
+      token.expiresInSeconds - REFRESH_BEFORE_EXPIRY_SECONDS,
+    );
+
+    try {
+      await this.redis.set(key, JSON.stringify(entry), 'EX', ttlSeconds);
+    } catch (error) {
+      // Serve the fresh token even if it could not be cached
+      Log.warn(this.logger, 'Failed to cache OAuth2 token', {
+        method: 'fetchAndCache',
+        tenant,
+        webhookId: auth.webhookId,
+        error: (error as Error).message,
+      });
+    }
+
+    return ok(`${entry.tokenType} ${entry.accessToken}`);
+  }
+
+  private async readCache(key: string): Promise<CachedAccessToken | null> {
+    try {
+      const raw = await this.redis.get(key);
+      return raw ? (JSON.parse(raw) as CachedAccessToken) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private fingerprint(auth: DetailAuthResponse): string {
+    return createHash('sha256')
+      .update(
+        [
+          auth.tokenUrl,
+          auth.clientId,
+          auth.clientSecret,
+          auth.scope ?? '',
+        ].join('\n'),
+      )
+      .digest('hex')
+      .slice(0, 16);
+  }
+}
@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import * as http from 'http';
+import * as https from 'https';
+import { DeliveryErrorClassValue } from '../../domain/types';
+
+/**
+ * Outbound HTTP request for a webhook attempt
+ */
+export interface WebhookHttpRequest {
+  url: URL;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  /** Max time to establish the TCP connection */
+  connectTimeoutMs: number;
+  /** Max time for the whole exchange, from dispatch to last response byte */
+  requestTimeoutMs: number;
+  /** Optional agent (e.g. per-webhook TLS settings) */
+  agent?: http.Agent;
+}
+
+/**
+ * Time spent in each phase of an exchange, in milliseconds
+ *
+ * Connection phases are absent when a keep-alive socket was reused or the
+ * exchange failed before reaching them.
+ */
+export interface WebhookHttpTimings {
+  dnsMs?: number;
+  connectMs?: number;
+  tlsMs?: number;
+  /** From connection ready (or dispatch) to the first response byte */
+  firstByteMs?: number;
+  /** From the first to the last response byte */
+  downloadMs?: number;
+  totalMs: number;
+}
+
+/**
+ * Response received from the target (any status code)
+ */
+export interface WebhookHttpResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  /** Response body, truncated to MAX_RESPONSE_BODY_BYTES */
+  body: string;
+  durationMs: number;
+  timings: WebhookHttpTimings;
+}
+
+/**
+ * Transport-level outcome of a webhook attempt
+ */
+export type WebhookHttpResult =
+  | { ok: true; value: WebhookHttpResponse }
+  | {
+      ok: false;
+      errorClass: DeliveryErrorClassValue;
+      error: string;
+      durationMs: number;
+      timings: WebhookHttpTimings;
+    };
+
+const MAX_RESPONSE_BODY_BYTES = 64 * 1024;
+
+/** Times at which each exchange phase completed */
+interface PhaseMarks {
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+  response?: number;
+}
+
+/**
+ * Webhook HTTP Client
+ *
+ * Thin wrapper over node http/https that enforces separate connect and
+ * request timeouts and classifies transport failures. HTTP error statuses
+ * are returned as responses; retry decisions belong to the caller.
+ */
+@Injectable()
+export class WebhookHttpClient {
+  send(request: WebhookHttpRequest): Promise<WebhookHttpResult> {
+    const startedAt = Date.now();
+    const transport = request.url.protocol === 'https:' ? https : http;
+
+    return new Promise<WebhookHttpResult>((resolve) => {
+      let settled = false;
+      const timers: { connect?: NodeJS.Timeout; request?: NodeJS.Timeout } = {};
+      const marks: PhaseMarks = {};
+
+      const finish = (result: WebhookHttpResult): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timers.connect);
+        clearTimeout(timers.request);
+        resolve(result);
+      };
+
+      const fail = (errorClass: DeliveryErrorClassValue, error: string) =>
+        finish({
+          ok: false,
+          errorClass,
+          error,
+          durationMs: Date.now() - startedAt,
+          timings: this.toTimings(startedAt, marks),
+        });
+
+      let req: http.ClientRequest;
+      try {
+        req = transport.request(request.url, {
+          method: request.method.toUpperCase(),
+          headers: {
+            ...request.headers,
+            ...(request.body !== undefined && {
+              'content-length': Buffer.byteLength(request.body).toString(),
+            }),
+          },
+          agent: request.agent,
+        });
+      } catch (e) {
+        // Invalid header names/values are rejected synchronously
+        return fail('configuration', (e as Error).message);
+      }
+
+      timers.request = setTimeout(() => {
+        fail(
+          'request_timeout',
+          `Request timed out after ${request.requestTimeoutMs}ms`,
+        );
+        req.destroy();
+      }, request.requestTimeoutMs);
+
+      req.on('socket', (socket) => {
+        // Reused keep-alive sockets are already connected
+        if (!socket.connecting) return;
+        socket.once('lookup', () => (marks.lookup = Date.now()));
+        socket.once('connect', () => (marks.connect = Date.now()));
+        socket.once('secureConnect', () => (marks.secureConnect = Date.now()));
+        timers.connect = setTimeout(() => {
+          fail(
+            'connect_timeout',
+            `Connection not established within ${request.connectTimeoutMs}ms`,
+          );
+          req.destroy();
+        }, request.connectTimeoutMs);
+        socket.once('connect', () => clearTimeout(timers.connect));
+      });
+
+      req.on('response', (res) => {
+        marks.response = Date.now();
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        res.on('data', (chunk: Buffer) => {
+          if (size < MAX_RESPONSE_BODY_BYTES) {
+            chunks.push(chunk);
+            size += chunk.length;
+          }
+        });
+        res.on('end', () =>
+          finish({
+            ok: true,
+            value: {
+              statusCode: res.statusCode ?? 0,
+              headers: res.headers,
+              body: Buffer.concat(chunks)
+                .subarray(0, MAX_RESPONSE_BODY_BYTES)
+                .toString('utf8'),
+              durationMs: Date.now() - startedAt,
+              timings: this.toTimings(startedAt, marks),
+            },
+          }),
+        );
+        res.on('error', (e) => fail('network', e.message));
+      });
+
+      req.on('error', (e) => fail('network', e.message));
+
+      if (request.body !== undefined) {
+        req.write(request.body);
+      }
+      req.end();
+    });
+  }
+
+  private toTimings(startedAt: number, marks: PhaseMarks): WebhookHttpTimings {
+    const end = Date.now();
+    const ready = marks.secureConnect ?? marks.connect;
+
+    return {
+      dnsMs: marks.lookup !== undefined ? marks.lookup - startedAt : undefined,
+      connectMs:
+        marks.connect !== undefined
+          ? marks.connect - (marks.lookup ?? startedAt)
+          : undefined,
+      tlsMs:
+        marks.secureConnect !== undefined && marks.connect !== undefined
+          ? marks.secureConnect - marks.connect
+          : undefined,
+      firstByteMs:
+        marks.response !== undefined
+          ? marks.response - (ready ?? startedAt)
+          : undefined,
+      downloadMs:
+        marks.response !== undefined ? end - marks.response : undefined,
+      totalMs: end - startedAt,
+    };
+  }
+}
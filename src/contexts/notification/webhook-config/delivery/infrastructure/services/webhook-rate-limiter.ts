@@ -0,0 +1,184 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+
+/**
+ * Per-webhook limits, from ConfigRateLimitPerMinute and ConfigMaxConcurrent
+ */
+export interface WebhookRateLimits {
+  rateLimitPerMinute?: number;
+  maxConcurrent?: number;
+}
+
+/**
+ * Outcome of asking for a delivery slot
+ */
+export type WebhookRateLimitDecision =
+  | { granted: true }
+  | {
+      granted: false;
+      reason: 'rate_limited' | 'concurrency_limited';
+      /** Suggested wait before asking again */
+      retryAfterMs: number;
+    };
+
+const RATE_WINDOW_MS = 60_000;
+
+/** Wait before re-checking a webhook at its concurrency cap */
+const CONCURRENCY_RETRY_DELAY_MS = 1_000;
+
+/**
+ * Checks both limits and, only when both pass, records the send and the
+ * lease. Time comes from the Redis server so all workers share one clock.
+ *
+ * KEYS[1] rate window (zset member -> send time)
+ * KEYS[2] concurrency leases (zset member -> lease expiry)
+ * ARGV[1] rate limit per minute (0 = unlimited)
+ * ARGV[2] max concurrent (0 = unlimited)
+ * ARGV[3] lease id
+ * ARGV[4] lease ttl ms
+ * ARGV[5] window ms
+ *
+ * Returns {1} when granted, {0, retryAfterMs, reason} otherwise.
+ */
+const ACQUIRE_SCRIPT = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local rateLimit = tonumber(ARGV[1])
+local maxConcurrent = tonumber(ARGV[2])
+local leaseTtl = tonumber(ARGV[4])
+local window = tonumber(ARGV[5])
+
+if maxConcurrent > 0 then
+  redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now)
+  if redis.call('ZSCORE', KEYS[2], ARGV[3]) == false
+    and redis.call('ZCARD', KEYS[2]) >= maxConcurrent then
+    return {0, 0, 'concurrency_limited'}
+  end
+end
+
+if rateLimit > 0 then
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+  if redis.call('ZCARD', KEYS[1]) >= rateLimit then
+    local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+    return {0, tonumber(oldest[2]) + window - now, 'rate_limited'}
+  end
+  redis.call('ZADD', KEYS[1], now, ARGV[3] .. ':' .. now)
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+
+if maxConcurrent > 0 then
+  redis.call('ZADD', KEYS[2], now + leaseTtl, ARGV[3])
+  redis.call('PEXPIRE', KEYS[2], leaseTtl)
+end
+
+return {1}
+`;
+
+/**
+ * Webhook Rate Limiter
+ *
+ * Redis-backed limiter shared by all delivery workers. Enforces, per tenant
+ * and webhook:
+ * - a sliding one-minute window of sends (rateLimitPerMinute)
+ * - a semaphore of in-flight attempts (maxConcurrent)
+ *
+ * Semaphore leases carry an expiry so a crashed worker cannot hold a slot
+ * forever. Redis errors fail open: delivery is preferred over throttling.
+ */
+@Injectable()
+export class WebhookRateLimiter {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+  ) {
+    this.logger = componentLogger(baseLogger, 'WebhookRateLimiter');
+  }
+
+  /**
+   * Ask for a delivery slot; call release() with the same lease id once
+   * the attempt finishes
+   *
+   * @param leaseTtlMs - Upper bound on how long the attempt can run
+   */
+  async acquire(
+    tenant: string,
+    webhookId: string,
+    limits: WebhookRateLimits,
+    leaseId: string,
+    leaseTtlMs: number,
+  ): Promise<WebhookRateLimitDecision> {
+    const rateLimit = Math.max(0, limits.rateLimitPerMinute ?? 0);
+    const maxConcurrent = Math.max(0, limits.maxConcurrent ?? 0);
+    if (rateLimit === 0 && maxConcurrent === 0) return { granted: true };
+
+    try {
+      const [granted, retryAfterMs, reason] = (await this.redis.eval(
+        ACQUIRE_SCRIPT,
+        2,
+        DeliveryProjectionKeys.getRedisRateLimitKey(tenant, webhookId),
+        DeliveryProjectionKeys.getRedisConcurrencyKey(tenant, webhookId),
+        rateLimit.toString(),
+        maxConcurrent.toString(),
+        leaseId,
+        Math.ceil(leaseTtlMs).toString(),
+        RATE_WINDOW_MS.toString(),
+      )) as [number, number?, string?];
+
+      if (granted === 1) return { granted: true };
+
+      return reason === 'concurrency_limited'
+        ? {
+            granted: false,
+            reason,
+            // Spread re-checks so waiting attempts don't all race for a freed slot
+            retryAfterMs:
+              CONCURRENCY_RETRY_DELAY_MS +
+              Math.floor(Math.random() * CONCURRENCY_RETRY_DELAY_MS),
+          }
+        : {
+            granted: false,
+            reason: 'rate_limited',
+            retryAfterMs: Math.max(1, retryAfterMs ?? RATE_WINDOW_MS),
+          };
+    } catch (error) {
+      Log.error(this.logger, 'Rate limit check failed; allowing delivery', {
+        method: 'acquire',
+        tenant,
+        webhookId,
+        error: (error as Error).message,
+      });
+      return { granted: true };
+    }
+  }
+
+  /**
+   * Give back the concurrency slot held by a lease
+   */
+  async release(
+    tenant: string,
+    webhookId: string,
+    leaseId: string,
+  ): Promise<void> {
+    try {
+      await this.redis.zrem(
+        DeliveryProjectionKeys.getRedisConcurrencyKey(tenant, webhookId),
+        leaseId,
+      );
+    } catch (error) {
+      // The lease expires on its own
+      Log.warn(this.logger, 'Failed to release concurrency lease', {
+        method: 'release',
+        tenant,
+        webhookId,
+        leaseId,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
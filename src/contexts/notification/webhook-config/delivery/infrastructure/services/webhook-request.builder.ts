@@ -0,0 +1,256 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import {
+  WebhookSignatureAlgorithm,
+  WebhookSignatureUtil,
+} from 'src/shared/security/webhook';
+import { DetailConfigResponse } from 'src/contexts/notification/webhook-config/config/application/dtos';
+import { DetailWorkspaceResponse } from 'src/contexts/notification/webhook-config/workspace/application/dtos';
+import { DetailAuthResponse } from 'src/contexts/notification/webhook-config/auth/application/dtos';
+import { DeliveryErrors } from '../../domain/errors';
+import { DeliverWebhookJob } from './delivery-queue.types';
+import { DeliveryRetrySettings } from './delivery-retry.policy';
+import { WebhookHttpRequest } from './webhook-http.client';
+import { OAuth2TokenBroker } from './oauth2-token.broker';
+import { WebhookTlsAgentPool } from './webhook-tls-agent.pool';
+
+/**
+ * Inputs resolved by the worker before building a request
+ */
+export interface BuildWebhookRequestInput {
+  job: DeliverWebhookJob;
+  workspace: DetailWorkspaceResponse;
+  config?: DetailConfigResponse | null;
+  auth?: DetailAuthResponse | null;
+  settings: DeliveryRetrySettings;
+}
+
+/**
+ * Standard headers sent with every delivery
+ */
+export const WEBHOOK_HEADERS = {
+  WEBHOOK_ID: 'x-webhook-id',
+  DELIVERY_ID: 'x-webhook-delivery-id',
+  EVENT_TYPE: 'x-webhook-event-type',
+  ATTEMPT: 'x-webhook-attempt',
+} as const;
+
+const DEFAULT_API_KEY_HEADER = 'x-api-key';
+const DEFAULT_SIGNATURE_ALGORITHM: WebhookSignatureAlgorithm = 'sha256';
+
+/**
+ * Webhook Request Builder
+ *
+ * Turns a delivery job plus the webhook projections into an HTTP request:
+ * target URL and method, workspace headers, standard delivery headers,
+ * JSON body and auth material.
+ *
+ * HMAC webhooks are signed over the exact body bytes with
+ * WebhookSignatureUtil; the signing secret comes from the auth projection,
+ * which resolves it through SecretRef decryption.
+ *
+ * mTLS client certificates, custom CA bundles and verifyTls are applied
+ * through a pooled per-webhook HTTPS agent from WebhookTlsAgentPool.
+ */
+@Injectable()
+export class WebhookRequestBuilder {
+  constructor(
+    @Inject(CLOCK) private readonly clock: Clock,
+    private readonly tokenBroker: OAuth2TokenBroker,
+    private readonly tlsAgentPool: WebhookTlsAgentPool,
+  ) {}
+
+  async build(
+    input: BuildWebhookRequestInput,
+  ): Promise<Result<WebhookHttpRequest, DomainError>> {
+    const { job, workspace, config, auth, settings } = input;
+
+    const urlResult = this.parseTargetUrl(workspace.targetUrl, job);
+    if (!urlResult.ok) return urlResult;
+    const url = urlResult.value;
+
+    const body =
+      workspace.method === 'get' ? undefined : JSON.stringify(job.payload);
+
+    const headers: Record<string, string> = {
+      ...this.normalizeHeaders(workspace.headers),
+      'content-type': 'application/json',
+      'user-agent': 'gs-notification-webhooks/1.0',
+      [WEBHOOK_HEADERS.WEBHOOK_ID]: job.webhookId,
+      [WEBHOOK_HEADERS.DELIVERY_ID]: job.deliveryId,
+      [WEBHOOK_HEADERS.EVENT_TYPE]: job.eventType,
+      [WEBHOOK_HEADERS.ATTEMPT]: String(job.attempt),
+    };
+
+    const authResult = this.applyAuth(auth, url, headers, job);
+    if (!authResult.ok) return authResult;
+
+    if (auth?.type === 'oauth2ClientCredentials') {
+      const tokenResult = await this.tokenBroker.getAuthorizationHeader(
+        job.tenant,
+        auth,
+        settings.requestTimeoutMs,
+      );
+      if (!tokenResult.ok) return tokenResult;
+      headers['authorization'] = tokenResult.value;
+    }
+
+    if (auth?.type === 'hmac') {
+      const signResult = this.sign(body ?? '', config, auth, headers, job);
+      if (!signResult.ok) return signResult;
+    }
+
+    const agentResult =
+      url.protocol === 'https:'
+        ? this.tlsAgentPool.getAgent(job.tenant, auth)
+        : ok(undefined);
+    if (!agentResult.ok) return agentResult;
+
+    return ok({
+      url,
+      method: workspace.method,
+      headers,
+      body,
+      connectTimeoutMs: settings.connectTimeoutMs,
+      requestTimeoutMs: settings.requestTimeoutMs,
+      agent: agentResult.value,
+    });
+  }
+
+  private parseTargetUrl(
+    targetUrl: string,
+    job: DeliverWebhookJob,
+  ): Result<URL, DomainError> {
+    try {
+      const url = new URL(targetUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        return ok(url);
+      }
+    } catch {
+      // fall through to error
+    }
+    return err({
+      ...DeliveryErrors.INVALID_TARGET_URL,
+      context: {
+        deliveryId: job.deliveryId,
+        webhookId: job.webhookId,
+        operation: 'build_request',
+      },
+    });
+  }
+
+  /**
+   * Lower-case header names and stringify values from the workspace config
+   */
+  private normalizeHeaders(
+    headers?: Record<string, unknown>,
+  ): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      if (value === undefined || value === null) continue;
+      result[name.toLowerCase()] =
+        typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return result;
+  }
+
+  /**
+   * Add signature headers for HMAC webhooks
+   *
+   * ConfigSignatureAlgorithm takes precedence over the algorithm stored on
+   * the auth record; ConfigIncludeTimestampHeader adds a signed timestamp so
+   * receivers can reject replays.
+   */
+  private sign(
+    body: string,
+    config: DetailConfigResponse | null | undefined,
+    auth: DetailAuthResponse,
+    headers: Record<string, string>,
+    job: DeliverWebhookJob,
+  ): Result<void, DomainError> {
+    if (!auth.signingSecret) {
+      return err({
+        ...DeliveryErrors.SIGNING_SECRET_MISSING,
+        context: {
+          deliveryId: job.deliveryId,
+          webhookId: job.webhookId,
+          operation: 'sign_request',
+        },
+      });
+    }
+
+    const algorithm =
+      config?.signatureAlgorithm ??
+      auth.signatureAlgorithm ??
+      DEFAULT_SIGNATURE_ALGORITHM;
+    const timestamp = config?.includeTimestampHeader
+      ? Math.floor(this.clock.now().getTime() / 1000)
+      : undefined;
+
+    const signature = WebhookSignatureUtil.sign({
+      body,
+      secret: auth.signingSecret,
+      algorithm,
+      timestamp,
+    });
+    Object.assign(headers, signature.headers);
+
+    return ok(undefined);
+  }
+
+  private applyAuth(
+    auth: DetailAuthResponse | null | undefined,
+    url: URL,
+    headers: Record<string, string>,
+    job: DeliverWebhookJob,
+  ): Result<void, DomainError> {
+    switch (auth?.type ?? 'none') {
+      case 'none':
+      case 'hmac':
+      case 'oauth2ClientCredentials':
+        // hmac signs the finished body and oauth2 needs the token broker; see build()
+        return ok(undefined);
+      case 'mtls':
+        // The client certificate is presented by the pooled TLS agent
+        if (url.protocol !== 'https:') {
+          return err({
+            ...DeliveryErrors.INVALID_TARGET_URL,
+            context: {
+              deliveryId: job.deliveryId,
+              webhookId: job.webhookId,
+              operation: 'apply_auth',
+              reason: 'mTLS requires an https target URL',
+            },
+          });
+        }
+        return ok(undefined);
+      case 'basic': {
+        const credentials = `${auth?.username ?? ''}:${auth?.password ?? ''}`;
+        headers['authorization'] =
+          `Basic ${Buffer.from(credentials).toString('base64')}`;
+        return ok(undefined);
+      }
+      case 'apiKey': {
+        if (auth?.apiKeyQueryParam) {
+          url.searchParams.set(auth.apiKeyQueryParam, auth.apiKey ?? '');
+        } else {
+          headers[
+            (auth?.apiKeyHeader ?? DEFAULT_API_KEY_HEADER).toLowerCase()
+          ] = auth?.apiKey ?? '';
+        }
+        return ok(undefined);
+      }
+      default:
+        return err({
+          ...DeliveryErrors.AUTH_NOT_SUPPORTED,
+          context: {
+            deliveryId: job.deliveryId,
+            webhookId: job.webhookId,
+            operation: 'apply_auth',
+            reason: `Auth type '${auth?.type}' is not supported yet`,
+          },
+        });
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import type { WorkspaceStatusValue } from 'src/contexts/notification/webhook-config/workspace/domain/value-objects';
+import { WEBHOOK_CONFIG_DI_TOKENS } from '../../../webhook-config.constants';
+import { DeliveryProjectionKeys } from '../../delivery-projection-keys';
+
+/**
+ * A webhook's interest in domain events, from WorkspaceWebhookEventType
+ */
+export interface WebhookSubscription {
+  webhookId: string;
+  /** Exact event type, or a pattern where `*` matches any characters */
+  eventType: string;
+  status: WorkspaceStatusValue;
+}
+
+/**
+ * Match an event type against a subscription pattern
+ *
+ * `*` alone matches every event, `NotificationSlackRequest*` is a prefix
+ * match and `*.v1` or `Notification*Sent.v1` match anywhere. Anything
+ * else must match exactly.
+ */
+export function matchesEventType(pattern: string, eventType: string): boolean {
+  if (!pattern.includes('*')) return pattern === eventType;
+
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(eventType);
+}
+
+/**
+ * Webhook Subscription Index
+ *
+ * Per-tenant Redis hash of webhook id -> subscription, kept current by the
+ * subscription router from workspace events. Matching an event loads the
+ * tenant's hash once, so the cost is one round trip per domain event.
+ */
+@Injectable()
+export class WebhookSubscriptionIndex {
+  private readonly logger: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(WEBHOOK_CONFIG_DI_TOKENS.IO_REDIS)
+    private readonly redis: Redis,
+  ) {
+    this.logger = componentLogger(baseLogger, 'WebhookSubscriptionIndex');
+  }
+
+  async upsert(
+    tenant: string,
+    subscription: WebhookSubscription,
+  ): Promise<void> {
+    await this.redis.hset(
+      DeliveryProjectionKeys.getRedisSubscriptionIndexKey(tenant),
+      subscription.webhookId,
+      JSON.stringify(subscription),
+    );
+  }
+
+  async remove(tenant: string, webhookId: string): Promise<void> {
+    await this.redis.hdel(
+      DeliveryProjectionKeys.getRedisSubscriptionIndexKey(tenant),
+      webhookId,
+    );
+  }
+
+  /**
+   * Subscriptions of the tenant whose pattern matches the event type,
+   * whatever their status
+   */
+  async match(
+    tenant: string,
+    eventType: string,
+  ): Promise<WebhookSubscription[]> {
+    const entries = await this.redis.hgetall(
+      DeliveryProjectionKeys.getRedisSubscriptionIndexKey(tenant),
+    );
+
+    const matches: WebhookSubscription[] = [];
+    for (const [webhookId, raw] of Object.entries(entries)) {
+      const subscription = this.parse(tenant, webhookId, raw);
+      if (subscription && matchesEventType(subscription.eventType, eventType)) {
+        matches.push(subscription);
+      }
+    }
+    return matches;
+  }
+
+  private parse(
+    tenant: string,
+    webhookId: string,
+    raw: string,
+  ): WebhookSubscription | null {
+    try {
+      return JSON.parse(raw) as WebhookSubscription;
+    } catch (error) {
+      Log.warn(this.logger, 'Skipping unreadable webhook subscription', {
+        method: 'parse',
+        tenant,
+        webhookId,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+}
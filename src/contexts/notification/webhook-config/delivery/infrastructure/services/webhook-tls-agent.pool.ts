@@ -0,0 +1,271 @@
+import { Injectable, Inject, OnModuleDestroy } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as https from 'https';
+import { Result, DomainError, ok, err } from 'src/shared/errors';
+import { Clock, CLOCK } from 'src/shared/infrastructure/time';
+import { APP_LOGGER, Log, Logger, componentLogger } from 'src/shared/logging';
+import { DetailAuthResponse } from 'src/contexts/notification/webhook-config/auth/application/dtos';
+import { AuthErrors } from 'src/contexts/notification/webhook-config/auth/domain/errors';
+
+const COMPONENT = 'WebhookTlsAgentPool';
+
+/** Upper bound on pooled agents; the least recently built one is evicted */
+const MAX_POOLED_AGENTS = 500;
+
+const PEM_CERTIFICATE_PATTERN =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+interface PooledAgent {
+  fingerprint: string;
+  agent: https.Agent;
+  /** Client certificate expiry, when a client certificate is configured */
+  notAfter?: Date;
+}
+
+/**
+ * Webhook TLS Agent Pool
+ *
+ * Builds and caches one HTTPS agent per webhook from its auth projection:
+ * client certificate and key (mTLS), custom CA bundle and the
+ * verifyTls flag. Webhooks without custom TLS settings use the default
+ * global agent.
+ *
+ * Agents are keyed by tenant and webhook id and carry a fingerprint of the
+ * TLS material; a changed fingerprint rebuilds the agent, and
+ * invalidate() drops it when the auth projection changes.
+ */
+@Injectable()
+export class WebhookTlsAgentPool implements OnModuleDestroy {
+  private readonly agents = new Map<string, PooledAgent>();
+  private readonly log: Logger;
+
+  constructor(
+    @Inject(APP_LOGGER) baseLogger: Logger,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.log = componentLogger(baseLogger, COMPONENT);
+  }
+
+  onModuleDestroy(): void {
+    for (const pooled of this.agents.values()) {
+      pooled.agent.destroy();
+    }
+    this.agents.clear();
+  }
+
+  /**
+   * Resolve the agent for a webhook
+   *
+   * Returns undefined when the webhook has no custom TLS settings.
+   * Misconfigured or expired certificates yield AuthErrors.
+   */
+  getAgent(
+    tenant: string,
+    auth: DetailAuthResponse | null | undefined,
+  ): Result<https.Agent | undefined, DomainError> {
+    if (!auth || !this.requiresCustomAgent(auth)) return ok(undefined);
+
+    const key = this.poolKey(tenant, auth.webhookId);
+    const fingerprint = this.fingerprint(auth);
+    const pooled = this.agents.get(key);
+
+    if (pooled && pooled.fingerprint === fingerprint) {
+      const expiry = this.checkExpiry(auth, pooled.notAfter);
+      if (!expiry.ok) return expiry;
+      return ok(pooled.agent);
+    }
+
+    const built = this.buildAgent(auth, fingerprint);
+    if (!built.ok) return built;
+
+    if (pooled) pooled.agent.destroy();
+    this.agents.delete(key);
+    this.agents.set(key, built.value);
+    this.evictOverflow();
+
+    Log.info(this.log, 'Built TLS agent for webhook', {
+      method: 'getAgent',
+      tenant,
+      webhookId: auth.webhookId,
+      authType: auth.type,
+      rebuilt: !!pooled,
+    });
+
+    return ok(built.value.agent);
+  }
+
+  /**
+   * Drop the agent for a webhook so the next delivery rebuilds it
+   */
+  invalidate(tenant: string, webhookId: string): void {
+    const key = this.poolKey(tenant, webhookId);
+    const pooled = this.agents.get(key);
+    if (!pooled) return;
+
+    pooled.agent.destroy();
+    this.agents.delete(key);
+  }
+
+  private requiresCustomAgent(auth: DetailAuthResponse): boolean {
+    return auth.type === 'mtls' || !!auth.ca || auth.verifyTls === false;
+  }
+
+  private poolKey(tenant: string, webhookId: string): string {
+    return `${tenant}:${webhookId}`;
+  }
+
+  private fingerprint(auth: DetailAuthResponse): string {
+    return crypto
+      .createHash('sha256')
+      .update(
+        JSON.stringify([
+          auth.type,
+          auth.cert ?? '',
+          auth.key ?? '',
+          auth.ca ?? '',
+          auth.verifyTls !== false,
+        ]),
+      )
+      .digest('hex');
+  }
+
+  private buildAgent(
+    auth: DetailAuthResponse,
+    fingerprint: string,
+  ): Result<PooledAgent, DomainError> {
+    let notAfter: Date | undefined;
+
+    if (auth.type === 'mtls') {
+      const identity = this.validateClientIdentity(auth);
+      if (!identity.ok) return identity;
+      notAfter = identity.value;
+    }
+
+    if (auth.ca) {
+      const ca = this.validateCa(auth);
+      if (!ca.ok) return ca;
+    }
+
+    return ok({
+      fingerprint,
+      notAfter,
+      agent: new https.Agent({
+        keepAlive: true,
+        cert: auth.type === 'mtls' ? auth.cert : undefined,
+        key: auth.type === 'mtls' ? auth.key : undefined,
+        ca: auth.ca || undefined,
+        rejectUnauthorized: auth.verifyTls !== false,
+      }),
+    });
+  }
+
+  /**
+   * Parse the client certificate and key, check the key matches and the
+   * certificate is currently valid; returns the certificate expiry
+   */
+  private validateClientIdentity(
+    auth: DetailAuthResponse,
+  ): Result<Date, DomainError> {
+    if (!auth.cert) {
+      return err({ ...AuthErrors.INVALID_CERT, context: this.context(auth) });
+    }
+    if (!auth.key) {
+      return err({ ...AuthErrors.INVALID_KEY, context: this.context(auth) });
+    }
+
+    let certificate: crypto.X509Certificate;
+    try {
+      certificate = new crypto.X509Certificate(auth.cert);
+    } catch (e) {
+      return err({
+        ...AuthErrors.INVALID_CERT_FORMAT,
+        context: this.context(auth, (e as Error).message),
+      });
+    }
+
+    let privateKey: crypto.KeyObject;
+    try {
+      privateKey = crypto.createPrivateKey(auth.key);
+    } catch (e) {
+      return err({
+        ...AuthErrors.INVALID_KEY_FORMAT,
+        context: this.context(auth, (e as Error).message),
+      });
+    }
+
+    if (!certificate.checkPrivateKey(privateKey)) {
+      return err({
+        ...AuthErrors.CERT_KEY_MISMATCH,
+        context: this.context(auth),
+      });
+    }
+
+    const notBefore = new Date(certificate.validFrom);
+    if (notBefore.getTime() > this.clock.now().getTime()) {
+      return err({
+        ...AuthErrors.CERT_NOT_YET_VALID,
+        context: this.context(auth, `valid from ${notBefore.toISOString()}`),
+      });
+    }
+
+    const notAfter = new Date(certificate.validTo);
+    const expiry = this.checkExpiry(auth, notAfter);
+    if (!expiry.ok) return expiry;
+
+    return ok(notAfter);
+  }
+
+  private validateCa(auth: DetailAuthResponse): Result<void, DomainError> {
+    const certificates = auth.ca?.match(PEM_CERTIFICATE_PATTERN) ?? [];
+    if (certificates.length === 0) {
+      return err({
+        ...AuthErrors.INVALID_CA_FORMAT,
+        context: this.context(auth, 'no PEM certificate found'),
+      });
+    }
+
+    for (const pem of certificates) {
+      try {
+        new crypto.X509Certificate(pem);
+      } catch (e) {
+        return err({
+          ...AuthErrors.INVALID_CA_FORMAT,
+          context: this.context(auth, (e as Error).message),
+        });
+      }
+    }
+
+    return ok(undefined);
+  }
+
+  private checkExpiry(
+    auth: DetailAuthResponse,
+    notAfter: Date | undefined,
+  ): Result<void, DomainError> {
+    if (notAfter && notAfter.getTime() <= this.clock.now().getTime()) {
+      return err({
+        ...AuthErrors.CERT_EXPIRED,
+        context: this.context(auth, `expired at ${notAfter.toISOString()}`),
+      });
+    }
+    return ok(undefined);
+  }
+
+  private evictOverflow(): void {
+    while (this.agents.size > MAX_POOLED_AGENTS) {
+      const oldest = this.agents.keys().next();
+      if (oldest.done) return;
+      this.agents.get(oldest.value)?.agent.destroy();
+      this.agents.delete(oldest.value);
+    }
+  }
+
+  private context(auth: DetailAuthResponse, reason?: string) {
+    return {
+      type: auth.type,
+      webhookId: auth.webhookId,
+      operation: 'build_tls_agent',
+      ...(reason && { reason }),
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Request } from 'express';
+import { Resource } from 'src/shared/security/opa';
+
+/**
+ * Actions on a webhook's dead-letter queue
+ */
+export enum DeliveryDlqPermission {
+  DOMAIN_DELIVERY_DLQ_READ = 'DOMAIN_DELIVERY_DLQ_READ',
+  DOMAIN_DELIVERY_DLQ_REPLAY = 'DOMAIN_DELIVERY_DLQ_REPLAY',
+  DOMAIN_DELIVERY_DLQ_PURGE = 'DOMAIN_DELIVERY_DLQ_PURGE',
+}
+
+/**
+ * Dead-letter queue resource decorator, scoped to the webhook
+ */
+export const DeliveryDlqResource = (permission: DeliveryDlqPermission) =>
+  Resource({
+    type: 'delivery-dlq',
+    action: permission,
+    extractId: (req: Request) => req.params?.webhookId,
+    extractAttributes: (req: Request) => ({
+      deliveryId: req.params?.deliveryId,
+    }),
+  });
+
+export const DeliveryDlqReadResource = () =>
+  DeliveryDlqResource(DeliveryDlqPermission.DOMAIN_DELIVERY_DLQ_READ);
+
+export const DeliveryDlqReplayResource = () =>
+  DeliveryDlqResource(DeliveryDlqPermission.DOMAIN_DELIVERY_DLQ_REPLAY);
+
+export const DeliveryDlqPurgeResource = () =>
+  DeliveryDlqResource(DeliveryDlqPermission.DOMAIN_DELIVERY_DLQ_PURGE);
@@ -0,0 +1,23 @@
+import { Request } from 'express';
+import { Resource } from 'src/shared/security/opa';
+
+/**
+ * Actions on the delivery history read model
+ */
+export enum DeliveryHistoryPermission {
+  DOMAIN_DELIVERY_HISTORY_READ = 'DOMAIN_DELIVERY_HISTORY_READ',
+}
+
+/**
+ * Delivery history resource decorator, scoped to the delivery when one is
+ * addressed
+ */
+export const DeliveryHistoryReadResource = () =>
+  Resource({
+    type: 'delivery-history',
+    action: DeliveryHistoryPermission.DOMAIN_DELIVERY_HISTORY_READ,
+    extractId: (req: Request) => req.params?.deliveryId,
+    extractAttributes: (req: Request) => ({
+      webhookId: req.query?.webhookId,
+    }),
+  });
@@ -0,0 +1,164 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiOkResponse,
+  ApiNoContentResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CurrentUser, IUserToken, JwtAuthGuard } from 'src/shared/security';
+import { Result, ResultInterceptor, DomainError } from 'src/shared/errors';
+import { ListResponse } from 'src/shared/domain/properties/pagination.model';
+import { ApiCommonErrors } from 'src/shared/interfaces/http';
+import { DeliveryDlqApplicationService } from '../../../application/services';
+import {
+  BulkReplayDeliveryDlqRequest,
+  BulkReplayDeliveryDlqResponse,
+  DeliveryDlqEntryResponse,
+  DeliveryDlqPageResponse,
+  ListDeliveryDlqRequest,
+  PurgeDeliveryDlqResponse,
+  ReplayDeliveryDlqResponse,
+} from '../../../application/dtos';
+import {
+  DeliveryDlqReadResource,
+  DeliveryDlqReplayResource,
+  DeliveryDlqPurgeResource,
+} from '../../delivery-dlq.resource';
+
+@Controller('dlq')
+@ApiTags('Delivery Dead-Letter Queue')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(ResultInterceptor)
+@ApiParam({
+  name: 'webhookId',
+  type: 'string',
+  description: 'Webhook unique identifier',
+})
+export class DeliveryDlqController {
+  constructor(private readonly dlqService: DeliveryDlqApplicationService) {}
+
+  @Get(':webhookId')
+  @DeliveryDlqReadResource()
+  @ApiOperation({
+    summary: 'List dead-lettered deliveries',
+    description:
+      'Lists deliveries of the webhook that exhausted their attempts, most recent first.',
+  })
+  @ApiOkResponse({ type: DeliveryDlqPageResponse })
+  @ApiCommonErrors()
+  async list(
+    @CurrentUser() user: IUserToken,
+    @Param('webhookId') webhookId: string,
+    @Query() pageRequest: ListDeliveryDlqRequest,
+  ): Promise<Result<ListResponse<DeliveryDlqEntryResponse>, DomainError>> {
+    return this.dlqService.list(user, webhookId, {
+      page: pageRequest?.page ? Number(pageRequest.page) : undefined,
+      size: pageRequest?.size ? Number(pageRequest.size) : undefined,
+    });
+  }
+
+  @Get(':webhookId/:deliveryId')
+  @DeliveryDlqReadResource()
+  @ApiOperation({
+    summary: 'Get a dead-lettered delivery',
+    description:
+      'Returns the payload, last error and last response of a dead-lettered delivery.',
+  })
+  @ApiParam({ name: 'deliveryId', type: 'string' })
+  @ApiOkResponse({ type: DeliveryDlqEntryResponse })
+  @ApiCommonErrors()
+  async get(
+    @CurrentUser() user: IUserToken,
+    @Param('webhookId') webhookId: string,
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<Result<DeliveryDlqEntryResponse, DomainError>> {
+    return this.dlqService.get(user, webhookId, deliveryId);
+  }
+
+  @Post(':webhookId/replay')
+  @DeliveryDlqReplayResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay dead-lettered deliveries in bulk',
+    description:
+      'Queues new deliveries for the given dead letters, or for the most recent ones when no ids are given. Each replay is audited on the original delivery.',
+  })
+  @ApiBody({ type: BulkReplayDeliveryDlqRequest })
+  @ApiOkResponse({ type: BulkReplayDeliveryDlqResponse })
+  @ApiCommonErrors()
+  async replayBulk(
+    @CurrentUser() user: IUserToken,
+    @Param('webhookId') webhookId: string,
+    @Body() request: BulkReplayDeliveryDlqRequest,
+  ): Promise<Result<BulkReplayDeliveryDlqResponse, DomainError>> {
+    return this.dlqService.replayBulk(user, webhookId, request ?? {});
+  }
+
+  @Post(':webhookId/:deliveryId/replay')
+  @DeliveryDlqReplayResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay a dead-lettered delivery',
+    description:
+      'Queues a new delivery with the original payload and removes the entry from the dead-letter queue. The replay is audited on the original delivery.',
+  })
+  @ApiParam({ name: 'deliveryId', type: 'string' })
+  @ApiOkResponse({ type: ReplayDeliveryDlqResponse })
+  @ApiCommonErrors()
+  async replay(
+    @CurrentUser() user: IUserToken,
+    @Param('webhookId') webhookId: string,
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<Result<ReplayDeliveryDlqResponse, DomainError>> {
+    return this.dlqService.replay(user, webhookId, deliveryId);
+  }
+
+  @Delete(':webhookId')
+  @DeliveryDlqPurgeResource()
+  @ApiOperation({
+    summary: 'Purge the dead-letter queue',
+    description: 'Removes every dead-lettered delivery of the webhook.',
+  })
+  @ApiOkResponse({ type: PurgeDeliveryDlqResponse })
+  @ApiCommonErrors()
+  async purge(
+    @CurrentUser() user: IUserToken,
+    @Param('webhookId') webhookId: string,
+  ): Promise<Result<PurgeDeliveryDlqResponse, DomainError>> {
+    return this.dlqService.purge(user, webhookId);
+  }
+
+  @Delete(':webhookId/:deliveryId')
+  @DeliveryDlqPurgeResource()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a dead-lettered delivery',
+    description: 'Removes a single entry without replaying it.',
+  })
+  @ApiParam({ name: 'deliveryId', type: 'string' })
+  @ApiNoContentResponse({ description: 'Entry removed' })
+  @ApiCommonErrors()
+  async remove(
+    @CurrentUser() user: IUserToken,
+    @Param('webhookId') webhookId: string,
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<Result<void, DomainError>> {
+    return this.dlqService.remove(user, webhookId, deliveryId);
+  }
+}
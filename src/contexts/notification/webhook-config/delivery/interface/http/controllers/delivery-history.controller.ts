@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { QueryBus } from '@nestjs/cqrs';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiOkResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CurrentUser, IUserToken, JwtAuthGuard } from 'src/shared/security';
+import { Result, ResultInterceptor, DomainError } from 'src/shared/errors';
+import { ApiCommonErrors } from 'src/shared/interfaces/http';
+import { CorrelationUtil } from 'src/shared/utilities/correlation.util';
+import {
+  DeliveryAttemptPageResponse,
+  DetailDeliveryHistoryResponse,
+  ListDeliveryAttemptFilterRequest,
+} from '../../../application/dtos';
+import {
+  GetDeliveryHistoryQuery,
+  ListDeliveryAttemptsQuery,
+} from '../../../application/queries';
+import { DeliveryHistoryReadResource } from '../../delivery-history.resource';
+
+@Controller()
+@ApiTags('Delivery History')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(ResultInterceptor)
+export class DeliveryHistoryController {
+  constructor(private readonly queryBus: QueryBus) {}
+
+  @Get('attempts')
+  @DeliveryHistoryReadResource()
+  @ApiOperation({
+    summary: 'List delivery attempts',
+    description:
+      'Lists webhook delivery attempts, most recent first. Filter by webhook, delivery, event type, outcome, error class, HTTP status or time window.',
+  })
+  @ApiOkResponse({ type: DeliveryAttemptPageResponse })
+  @ApiCommonErrors()
+  async listAttempts(
+    @CurrentUser() user: IUserToken,
+    @Query() pageRequest?: ListDeliveryAttemptFilterRequest,
+  ): Promise<Result<DeliveryAttemptPageResponse, DomainError>> {
+    return this.queryBus.execute(
+      new ListDeliveryAttemptsQuery(
+        user,
+        pageRequest,
+        CorrelationUtil.generateForOperation('delivery-attempt-list'),
+      ),
+    );
+  }
+
+  @Get(':deliveryId')
+  @DeliveryHistoryReadResource()
+  @ApiOperation({
+    summary: 'Get a delivery',
+    description:
+      'Returns the status of a webhook delivery with every attempt made for it.',
+  })
+  @ApiParam({ name: 'deliveryId', type: 'string' })
+  @ApiOkResponse({ type: DetailDeliveryHistoryResponse })
+  @ApiCommonErrors()
+  async get(
+    @CurrentUser() user: IUserToken,
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<Result<DetailDeliveryHistoryResponse, DomainError>> {
+    return this.queryBus.execute(
+      new GetDeliveryHistoryQuery(
+        user,
+        deliveryId,
+        CorrelationUtil.generateForOperation('delivery-history-get'),
+      ),
+    );
+  }
+}
@@ -0,0 +1,3 @@
+export * from './delivery-dlq.controller';
+export * from './webhook-test.controller';
+export * from './delivery-history.controller';
@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiOkResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CurrentUser, IUserToken, JwtAuthGuard } from 'src/shared/security';
+import { Result, ResultInterceptor, DomainError } from 'src/shared/errors';
+import { ApiCommonErrors } from 'src/shared/interfaces/http';
+import { WebhookTestApplicationService } from '../../../application/services';
+import {
+  TestWebhookRequest,
+  TestWebhookResponse,
+} from '../../../application/dtos';
+import { WebhookTestFireResource } from '../../webhook-test.resource';
+
+@Controller()
+@ApiTags('Webhook Test')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(ResultInterceptor)
+export class WebhookTestController {
+  constructor(private readonly testService: WebhookTestApplicationService) {}
+
+  @Post(':id/test')
+  @WebhookTestFireResource()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Test-fire a webhook',
+    description:
+      "Sends a synthetic payload with the webhook's real auth, signing, headers and timeouts, and returns the redacted request, the response and a timing breakdown. Nothing is recorded unless recordDelivery is set.",
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    description: 'Webhook unique identifier',
+  })
+  @ApiBody({ type: TestWebhookRequest, required: false })
+  @ApiOkResponse({ type: TestWebhookResponse })
+  @ApiCommonErrors()
+  async test(
+    @CurrentUser() user: IUserToken,
+    @Param('id') id: string,
+    @Body() request: TestWebhookRequest,
+  ): Promise<Result<TestWebhookResponse, DomainError>> {
+    return this.testService.test(user, id, request ?? {});
+  }
+}
@@ -0,0 +1,54 @@
+import { Module } from '@nestjs/common';
+import { RouterModule, Routes } from '@nestjs/core';
+import { DeliveryModule } from '../../delivery.module';
+import { WebhookTestModule } from '../../webhook-test.module';
+
+/**
+ * Delivery Router Configuration
+ *
+ * Mounts delivery endpoints under the webhook-config bounded context:
+ * /notification/webhook-config/deliveries, plus the test-fire endpoint
+ * under /notification/webhook-config/workspaces
+ */
+const deliveryRoutes: Routes = [
+  {
+    path: 'notification',
+    children: [
+      {
+        path: 'webhook-config',
+        children: [
+          {
+            path: 'deliveries',
+            module: DeliveryModule,
+          },
+          {
+            path: 'workspaces',
+            module: WebhookTestModule,
+          },
+        ],
+      },
+    ],
+  },
+];
+
+/**
+ * Delivery Router Module
+ *
+ * Routes configured:
+ * - /notification/webhook-config/deliveries/attempts (GET)
+ * - /notification/webhook-config/deliveries/:deliveryId (GET)
+ * - /notification/webhook-config/deliveries/dlq/:webhookId (GET, DELETE)
+ * - /notification/webhook-config/deliveries/dlq/:webhookId/replay (POST)
+ * - /notification/webhook-config/deliveries/dlq/:webhookId/:deliveryId (GET, DELETE)
+ * - /notification/webhook-config/deliveries/dlq/:webhookId/:deliveryId/replay (POST)
+ * - /notification/webhook-config/workspaces/:id/test (POST)
+ */
+@Module({
+  imports: [
+    DeliveryModule,
+    WebhookTestModule,
+    RouterModule.register(deliveryRoutes),
+  ],
+  exports: [DeliveryModule],
+})
+export class DeliveryRouterModule {}
@@ -0,0 +1,19 @@
+import { Request } from 'express';
+import { Resource } from 'src/shared/security/opa';
+
+/**
+ * Actions for test-firing a webhook
+ */
+export enum WebhookTestPermission {
+  DOMAIN_WEBHOOK_TEST_FIRE = 'DOMAIN_WEBHOOK_TEST_FIRE',
+}
+
+/**
+ * Webhook test resource decorator, scoped to the webhook
+ */
+export const WebhookTestFireResource = () =>
+  Resource({
+    type: 'webhook-test',
+    action: WebhookTestPermission.DOMAIN_WEBHOOK_TEST_FIRE,
+    extractId: (req: Request) => req.params?.id,
+  });
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DeliveryModule } from './delivery.module';
+import { WebhookTestController } from './interface/http/controllers';
+
+/**
+ * Webhook Test Module
+ *
+ * Holds the test-fire endpoint apart from DeliveryModule so it can be
+ * mounted under the workspace routes, next to the webhook it tests.
+ */
+@Module({
+  imports: [DeliveryModule],
+  controllers: [WebhookTestController],
+})
+export class WebhookTestModule {}
@@ -19,6 +19,8 @@ import { AuthProjectorModule } from './auth/auth-projector.module';
 import { TestSecurityRouterModule } from './test-security/interface/http/test-security.router';
 
 import { TestSecurityProjectorModule } from './test-security/test-security-projector.module';
+import { DeliveryRouterModule } from './delivery/interface/http/delivery.router';
+import { DeliveryProjectorModule } from './delivery/delivery-projector.module';
 
 /**
  * WebhookConfig Module - Bounded Context Entry Point
@@ -49,6 +51,8 @@ import { TestSecurityProjectorModule } from './test-security/test-security-proje
     AuthProjectorModule,
     TestSecurityRouterModule,
     TestSecurityProjectorModule,
+    DeliveryRouterModule,
+    DeliveryProjectorModule,
   ],
   exports: [
     // Export all modules for potential cross-domain dependencies
@@ -60,6 +64,8 @@ import { TestSecurityProjectorModule } from './test-security/test-security-proje
     AuthProjectorModule,
     TestSecurityRouterModule,
     TestSecurityProjectorModule,
+    DeliveryRouterModule,
+    DeliveryProjectorModule,
   ],
 })
 export class NotificationWebhookConfigModule {}
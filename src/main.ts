@@ -76,6 +76,7 @@ async function bootstrap() {
     // Create the NestJS application with buffered logs
     const app = await NestFactory.create(AppModule, {
       bufferLogs: true,
+      rawBody: true, // Slack request signatures are computed over the raw body
     });
 
     // CRITICAL ENHANCEMENT: Setup global CLS access for logging
@@ -14,4 +14,7 @@ export * from './idempotency';
 // Template rendering
 export * from './templates';
 
+// OAuth2 token acquisition
+export * from './oauth';
+
 // Other infrastructure components can be added here as needed
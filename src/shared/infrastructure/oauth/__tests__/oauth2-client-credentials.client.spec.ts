@@ -0,0 +1,152 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OAuth2ClientCredentialsClient } from '../oauth2-client-credentials.client';
+
+type StubHandler = (
+  req: IncomingMessage,
+  body: string,
+  res: ServerResponse,
+) => void;
+
+describe('OAuth2ClientCredentialsClient', () => {
+  let server: Server;
+  let tokenUrl: string;
+  let handler: StubHandler;
+  const client = new OAuth2ClientCredentialsClient();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => handler(req, body, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    tokenUrl = `http://127.0.0.1:${port}/oauth/token`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const json = (res: ServerResponse, status: number, payload: unknown) => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  };
+
+  test('posts a client_credentials grant with basic client auth', async () => {
+    let seen: { auth?: string; body?: string } = {};
+    handler = (req, body, res) => {
+      seen = { auth: req.headers.authorization, body };
+      json(res, 200, {
+        access_token: 'tok-123',
+        token_type: 'Bearer',
+        expires_in: 120,
+        scope: 'events:write',
+      });
+    };
+
+    const result = await client.requestToken({
+      tokenUrl,
+      clientId: 'client-a',
+      clientSecret: 's3cret',
+      scope: 'events:write',
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        accessToken: 'tok-123',
+        tokenType: 'Bearer',
+        expiresInSeconds: 120,
+        scope: 'events:write',
+      },
+    });
+    expect(seen.auth).toBe(
+      `Basic ${Buffer.from('client-a:s3cret').toString('base64')}`,
+    );
+    expect(new URLSearchParams(seen.body)).toEqual(
+      new URLSearchParams('grant_type=client_credentials&scope=events%3Awrite'),
+    );
+  });
+
+  test('defaults expires_in when the endpoint omits it', async () => {
+    handler = (_req, _body, res) => json(res, 200, { access_token: 'tok' });
+
+    const result = await client.requestToken({
+      tokenUrl,
+      clientId: 'c',
+      clientSecret: 's',
+    });
+
+    expect(result.ok && result.value.expiresInSeconds).toBe(3600);
+  });
+
+  test('reports OAuth errors from 4xx responses as non-retryable', async () => {
+    handler = (_req, _body, res) => json(res, 401, { error: 'invalid_client' });
+
+    const result = await client.requestToken({
+      tokenUrl,
+      clientId: 'c',
+      clientSecret: 'wrong',
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: 'invalid_client',
+      retryable: false,
+      statusCode: 401,
+    });
+  });
+
+  test('treats 5xx responses as retryable', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(503);
+      res.end('unavailable');
+    };
+
+    const result = await client.requestToken({
+      tokenUrl,
+      clientId: 'c',
+      clientSecret: 's',
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: 'http_503',
+      retryable: true,
+      statusCode: 503,
+    });
+  });
+
+  test('rejects success responses without an access token', async () => {
+    handler = (_req, _body, res) => json(res, 200, { token_type: 'Bearer' });
+
+    const result = await client.requestToken({
+      tokenUrl,
+      clientId: 'c',
+      clientSecret: 's',
+    });
+
+    expect(result).toMatchObject({
+      ok: false,
+      error: 'invalid_token_response',
+      retryable: false,
+    });
+  });
+
+  test('times out slow token endpoints as retryable', async () => {
+    handler = (_req, _body, res) => {
+      setTimeout(() => json(res, 200, { access_token: 'late' }), 500);
+    };
+
+    const result = await client.requestToken({
+      tokenUrl,
+      clientId: 'c',
+      clientSecret: 's',
+      timeoutMs: 50,
+    });
+
+    expect(result).toMatchObject({ ok: false, retryable: true });
+  });
+});
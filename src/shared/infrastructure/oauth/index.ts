@@ -0,0 +1 @@
+export * from './oauth2-client-credentials.client';
@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+
+export type ClientCredentialsRequest = {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string; // resolved from secret ref upstream
+  scope?: string;
+  timeoutMs?: number;
+};
+
+export type OAuth2AccessToken = {
+  accessToken: string;
+  tokenType: string;
+  expiresInSeconds: number;
+  scope?: string;
+};
+
+export type ClientCredentialsResult =
+  | { ok: true; value: OAuth2AccessToken }
+  | { ok: false; error: string; retryable: boolean; statusCode?: number };
+
+/** Lifetime assumed when the token endpoint omits expires_in */
+const DEFAULT_EXPIRES_IN_SECONDS = 3600;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * OAuth2 client credentials grant (RFC 6749 §4.4)
+ *
+ * Authenticates with client_secret_basic and returns a classified result
+ * instead of throwing, so callers decide whether to retry.
+ */
+@Injectable()
+export class OAuth2ClientCredentialsClient {
+  async requestToken(
+    req: ClientCredentialsRequest,
+  ): Promise<ClientCredentialsResult> {
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (req.scope) form.set('scope', req.scope);
+
+    const credentials = Buffer.from(
+      `${encodeURIComponent(req.clientId)}:${encodeURIComponent(req.clientSecret)}`,
+    ).toString('base64');
+
+    let res: Response;
+    try {
+      res = await fetch(req.tokenUrl, {
+        method: 'POST',
+        headers: {
+          authorization: `Basic ${credentials}`,
+          'content-type': 'application/x-www-form-urlencoded',
+          accept: 'application/json',
+        },
+        body: form.toString(),
+        signal: AbortSignal.timeout(req.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return {
+        ok: false,
+        error: `token_request_failed: ${message}`,
+        retryable: true,
+      };
+    }
+
+    let body: Record<string, unknown> = {};
+    try {
+      body = (await res.json()) as Record<string, unknown>;
+    } catch {
+      // Non-JSON bodies are reported through the status code below
+    }
+
+    if (!res.ok) {
+      const code =
+        typeof body.error === 'string' ? body.error : `http_${res.status}`;
+      return {
+        ok: false,
+        error: code,
+        retryable: res.status === 429 || res.status >= 500,
+        statusCode: res.status,
+      };
+    }
+
+    if (typeof body.access_token !== 'string' || !body.access_token) {
+      return {
+        ok: false,
+        error: 'invalid_token_response',
+        retryable: false,
+        statusCode: res.status,
+      };
+    }
+
+    const expiresIn = Number(body.expires_in);
+    return {
+      ok: true,
+      value: {
+        accessToken: body.access_token,
+        tokenType:
+          typeof body.token_type === 'string' ? body.token_type : 'Bearer',
+        expiresInSeconds:
+          Number.isFinite(expiresIn) && expiresIn > 0
+            ? expiresIn
+            : DEFAULT_EXPIRES_IN_SECONDS,
+        scope: typeof body.scope === 'string' ? body.scope : undefined,
+      },
+    };
+  }
+}
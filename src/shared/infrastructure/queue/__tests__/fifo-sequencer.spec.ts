@@ -0,0 +1,110 @@
+import type { Redis } from 'ioredis';
+import { FifoSequencer } from '../fifo-sequencer';
+
+/**
+ * In-memory stand-in for the list commands and the completion script
+ */
+class FakeRedis {
+  readonly lists = new Map<string, string[]>();
+
+  rpush(key: string, value: string): Promise<number> {
+    const list = this.lists.get(key) ?? [];
+    list.push(value);
+    this.lists.set(key, list);
+    return Promise.resolve(list.length);
+  }
+
+  lindex(key: string, index: number): Promise<string | null> {
+    return Promise.resolve(this.lists.get(key)?.[index] ?? null);
+  }
+
+  eval(
+    _script: string,
+    _numKeys: number,
+    key: string,
+    id: string,
+  ): Promise<[number, string | null]> {
+    const list = this.lists.get(key) ?? [];
+    const head = list[0];
+    if (!head) return Promise.resolve([0, null]);
+    if ((JSON.parse(head) as { id: string }).id !== id) {
+      return Promise.resolve([0, head]);
+    }
+    list.shift();
+    return Promise.resolve([1, list[0] ?? null]);
+  }
+}
+
+describe('FifoSequencer', () => {
+  let redis: FakeRedis;
+  let sequencer: FifoSequencer<{ n: number }>;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    sequencer = new FifoSequencer(redis as unknown as Redis);
+  });
+
+  test('only the first item of a lane is the head', async () => {
+    await expect(sequencer.push('lane', 'a', { n: 1 })).resolves.toEqual({
+      isHead: true,
+      depth: 1,
+    });
+    await expect(sequencer.push('lane', 'b', { n: 2 })).resolves.toEqual({
+      isHead: false,
+      depth: 2,
+    });
+    await expect(sequencer.push('other', 'c', { n: 3 })).resolves.toEqual({
+      isHead: true,
+      depth: 1,
+    });
+  });
+
+  test('completing the head releases the next item in order', async () => {
+    await sequencer.push('lane', 'a', { n: 1 });
+    await sequencer.push('lane', 'b', { n: 2 });
+    await sequencer.push('lane', 'c', { n: 3 });
+
+    await expect(sequencer.complete('lane', 'a')).resolves.toEqual({
+      completed: true,
+      next: { id: 'b', item: { n: 2 } },
+    });
+    await expect(sequencer.complete('lane', 'b')).resolves.toEqual({
+      completed: true,
+      next: { id: 'c', item: { n: 3 } },
+    });
+    await expect(sequencer.complete('lane', 'c')).resolves.toEqual({
+      completed: true,
+      next: undefined,
+    });
+    await expect(sequencer.head('lane')).resolves.toBeUndefined();
+  });
+
+  test('completing an item that is not the head leaves the lane unchanged', async () => {
+    await sequencer.push('lane', 'a', { n: 1 });
+    await sequencer.push('lane', 'b', { n: 2 });
+
+    await expect(sequencer.complete('lane', 'b')).resolves.toEqual({
+      completed: false,
+      next: undefined,
+    });
+    await expect(sequencer.head('lane')).resolves.toEqual({
+      id: 'a',
+      item: { n: 1 },
+    });
+  });
+
+  test('completing twice is a no-op the second time', async () => {
+    await sequencer.push('lane', 'a', { n: 1 });
+    await sequencer.push('lane', 'b', { n: 2 });
+
+    await sequencer.complete('lane', 'a');
+    await expect(sequencer.complete('lane', 'a')).resolves.toEqual({
+      completed: false,
+      next: undefined,
+    });
+    await expect(sequencer.head('lane')).resolves.toEqual({
+      id: 'b',
+      item: { n: 2 },
+    });
+  });
+});
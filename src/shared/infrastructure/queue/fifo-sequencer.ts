@@ -0,0 +1,96 @@
+/**
+ * FIFO Sequencer
+ *
+ * Redis-backed ordering lanes for queues that otherwise process jobs in
+ * parallel. Items are appended to a lane and only the head of the lane is
+ * released for processing; the next item is released once the head is
+ * completed. A failing head therefore blocks the lane until it completes,
+ * whatever the outcome.
+ *
+ * Lanes are Redis lists of `{ id, item }` JSON entries. Pushes are a single
+ * RPUSH and completion is a Lua script, so concurrent producers and workers
+ * on different instances see one consistent order.
+ */
+
+import type { Redis } from 'ioredis';
+
+/**
+ * Result of appending an item to a lane
+ */
+export interface FifoPushResult {
+  /** True when the item is at the head and should be dispatched now */
+  isHead: boolean;
+  /** Number of items in the lane, including this one */
+  depth: number;
+}
+
+/**
+ * Result of completing the head of a lane
+ */
+export interface FifoCompleteResult<T> {
+  /** False when the id was not the head; the lane is unchanged */
+  completed: boolean;
+  /** The new head, to be dispatched by the caller */
+  next?: { id: string; item: T };
+}
+
+/**
+ * KEYS[1] lane, ARGV[1] id
+ * Pops the head when it matches the id, then returns {completed, nextEntry}.
+ */
+const COMPLETE_SCRIPT = `
+local head = redis.call('LINDEX', KEYS[1], 0)
+if not head then
+  return {0, false}
+end
+if cjson.decode(head)['id'] ~= ARGV[1] then
+  return {0, head}
+end
+redis.call('LPOP', KEYS[1])
+return {1, redis.call('LINDEX', KEYS[1], 0)}
+`;
+
+export class FifoSequencer<T> {
+  constructor(private readonly redis: Redis) {}
+
+  /**
+   * Append an item to the tail of a lane
+   */
+  async push(lane: string, id: string, item: T): Promise<FifoPushResult> {
+    const depth = await this.redis.rpush(lane, JSON.stringify({ id, item }));
+
+    return { isHead: depth === 1, depth };
+  }
+
+  /**
+   * Complete the head of a lane and return the item released next
+   *
+   * Completing an id that is not the head is a no-op, which makes repeated
+   * completion of the same item safe.
+   */
+  async complete(lane: string, id: string): Promise<FifoCompleteResult<T>> {
+    const [completed, next] = (await this.redis.eval(
+      COMPLETE_SCRIPT,
+      1,
+      lane,
+      id,
+    )) as [number, string | null];
+
+    return {
+      completed: completed === 1,
+      next: completed === 1 && next ? this.parse(next) : undefined,
+    };
+  }
+
+  /**
+   * Peek at the head of a lane
+   */
+  async head(lane: string): Promise<{ id: string; item: T } | undefined> {
+    const raw = await this.redis.lindex(lane, 0);
+    return raw ? this.parse(raw) : undefined;
+  }
+
+  private parse(raw: string): { id: string; item: T } {
+    return JSON.parse(raw) as { id: string; item: T };
+  }
+}
@@ -6,3 +6,4 @@
  */
 
 export * from './job-processing.types';
+export * from './fifo-sequencer';
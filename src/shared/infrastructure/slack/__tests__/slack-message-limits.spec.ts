@@ -0,0 +1,197 @@
+import {
+  isTemplatePlaceholder,
+  templateSectionItems,
+} from '../../templates/template-language';
+import {
+  SLACK_MESSAGE_LIMITS,
+  findBlockKitErrors,
+  findSlackLimitViolations,
+  toSlackFallbackText,
+} from '../slack-message-limits';
+
+describe('slack message limits', () => {
+  const section = (text: string) => ({
+    type: 'section',
+    text: { type: 'mrkdwn', text },
+  });
+
+  describe('findSlackLimitViolations', () => {
+    test('accepts a message within the limits', () => {
+      expect(findSlackLimitViolations([section('ok')])).toEqual([]);
+    });
+
+    test('reports the block count', () => {
+      const blocks = Array.from({ length: 51 }, () => ({ type: 'divider' }));
+      expect(findSlackLimitViolations(blocks)).toEqual([
+        expect.objectContaining({
+          path: 'blocks',
+          limit: SLACK_MESSAGE_LIMITS.blocks,
+          actual: 51,
+        }),
+      ]);
+    });
+
+    test('reports long texts by path', () => {
+      const violations = findSlackLimitViolations([
+        { type: 'header', text: { type: 'plain_text', text: 'h'.repeat(151) } },
+        section('s'.repeat(3001)),
+        {
+          type: 'section',
+          fields: [
+            { type: 'mrkdwn', text: 'short' },
+            { type: 'mrkdwn', text: 'f'.repeat(2001) },
+          ],
+        },
+      ]);
+      expect(violations.map((v) => [v.path, v.limit, v.actual])).toEqual([
+        ['blocks[0].text.text', 150, 151],
+        ['blocks[1].text.text', 3000, 3001],
+        ['blocks[2].fields[1].text', 2000, 2001],
+      ]);
+    });
+  });
+
+  describe('findBlockKitErrors', () => {
+    const button = (action_id: string, extra: object = {}) => ({
+      type: 'button',
+      text: { type: 'plain_text', text: 'Go' },
+      action_id,
+      ...extra,
+    });
+
+    test('accepts well-formed blocks', () => {
+      expect(
+        findBlockKitErrors([
+          { type: 'header', text: { type: 'plain_text', text: 'Alert' } },
+          section('Payment failed'),
+          { type: 'divider' },
+          {
+            type: 'actions',
+            block_id: 'actions',
+            elements: [
+              button('retry', { url: 'https://example.com/retry' }),
+              button('dismiss', { style: 'danger' }),
+            ],
+          },
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: 'via billing' }],
+          },
+        ]),
+      ).toEqual([]);
+    });
+
+    test('reports structure and limits by path', () => {
+      const errors = findBlockKitErrors([
+        { type: 'header', text: { type: 'mrkdwn', text: 'Alert' } },
+        {
+          type: 'section',
+          fields: Array.from({ length: 11 }, () => ({
+            type: 'mrkdwn',
+            text: 'f',
+          })),
+        },
+        {
+          type: 'actions',
+          elements: [
+            ...Array.from({ length: 25 }, (_, i) => button(`a${i}`)),
+            button('a0', { url: 'ftp://example.com' }),
+          ],
+        },
+        { type: 'carousel' },
+      ]);
+      expect(errors.map((e) => [e.path, e.message])).toEqual([
+        ['blocks[0].text.type', 'Header text must be plain_text'],
+        ['blocks[1].fields', 'Section has 11 fields, Slack allows 10'],
+        [
+          'blocks[2].elements',
+          'Actions block has 26 elements, Slack allows 25',
+        ],
+        [
+          'blocks[2].elements[25].action_id',
+          'action_id "a0" is used twice in this block',
+        ],
+        [
+          'blocks[2].elements[25].url',
+          'Button URL must be an absolute http or https URL',
+        ],
+        ['blocks[3].type', 'Unknown block type "carousel"'],
+      ]);
+    });
+
+    test('allows the same action_id in different blocks but not block_ids', () => {
+      const actions = { type: 'actions', elements: [button('approve')] };
+      const errors = findBlockKitErrors([
+        { ...actions, block_id: 'b' },
+        { ...actions, block_id: 'b' },
+      ]);
+      expect(errors).toEqual([
+        {
+          path: 'blocks[1].block_id',
+          message: 'block_id "b" is used twice in this message',
+        },
+      ]);
+    });
+
+    test('leaves template tags and sections to the check after rendering', () => {
+      const options = {
+        isPlaceholder: isTemplatePlaceholder,
+        expandItem: templateSectionItems,
+      };
+      expect(
+        findBlockKitErrors(
+          [
+            { type: 'section', fields: '{{ fields }}' },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  '{{#each links}}': button('{{ id }}', { url: '{{ url }}' }),
+                },
+              ],
+            },
+            { '{{#if note}}': [{ type: 'context' }] },
+          ],
+          options,
+        ),
+      ).toEqual([
+        {
+          path: 'blocks[2][0].elements',
+          message: 'Context block needs elements',
+        },
+      ]);
+    });
+  });
+
+  describe('toSlackFallbackText', () => {
+    test('joins the texts of blocks, fields and context elements', () => {
+      expect(
+        toSlackFallbackText([
+          { type: 'header', text: { type: 'plain_text', text: 'Alert' } },
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: 'Payment failed' },
+            fields: [
+              { type: 'mrkdwn', text: '*Amount:* 5' },
+              { type: 'mrkdwn', text: '*Code:* X' },
+            ],
+          },
+          { type: 'divider' },
+          {
+            type: 'actions',
+            elements: [
+              { type: 'button', text: { type: 'plain_text', text: 'Retry' } },
+            ],
+          },
+          {
+            type: 'context',
+            elements: [
+              { type: 'mrkdwn', text: 'via' },
+              { type: 'plain_text', text: 'billing' },
+            ],
+          },
+        ]),
+      ).toBe('Alert\nPayment failed\n*Amount:* 5\n*Code:* X\nvia billing');
+    });
+  });
+});
@@ -80,3 +80,47 @@ export {
   isValidTextLength,
   truncateText,
 } from './slack-block-kit.types';
+
+// Interaction payloads
+export type {
+  SlackInteractionAction,
+  SlackBlockActionsPayload,
+  SlackInteractionPayload,
+} from './slack-interaction.types';
+export { isSlackBlockActionsPayload } from './slack-interaction.types';
+
+// Events API envelopes
+export type {
+  SlackEvent,
+  SlackEventCallbackEnvelope,
+  SlackEventsApiEnvelope,
+  SlackUrlVerificationEnvelope,
+} from './slack-events.types';
+export {
+  isSlackEventCallback,
+  isSlackUrlVerification,
+} from './slack-events.types';
+
+// Rate limits
+export type {
+  SlackRateTier,
+  SlackMethodRateLimit,
+  SlackRateLimitedMethod,
+} from './slack-rate-limits';
+export {
+  SLACK_TIER_CALLS_PER_MINUTE,
+  SLACK_METHOD_RATE_LIMITS,
+} from './slack-rate-limits';
+
+// Message limits and Block Kit validation
+export type {
+  SlackBlockKitError,
+  SlackBlockKitCheckOptions,
+  SlackLimitViolation,
+} from './slack-message-limits';
+export {
+  SLACK_MESSAGE_LIMITS,
+  findBlockKitErrors,
+  findSlackLimitViolations,
+  toSlackFallbackText,
+} from './slack-message-limits';
@@ -1,20 +1,66 @@
 import { Injectable } from '@nestjs/common';
-import { WebClient, WebClientOptions, LogLevel } from '@slack/web-api';
+import {
+  Block,
+  ErrorCode,
+  KnownBlock,
+  WebClient,
+  WebClientOptions,
+  LogLevel,
+} from '@slack/web-api';
 
 export type SlackSendOptions = {
   botToken: string; // resolved from secret ref upstream
   channel: string; // channel or user ID
-  blocks: any[]; // Block Kit blocks
+  blocks: (KnownBlock | Block)[]; // Block Kit blocks
   text?: string; // fallback/plain text
   thread_ts?: string | null; // optional for threaded replies
+  reply_broadcast?: boolean; // also show a threaded reply in the channel
+};
+
+type ChatPostMessageReplyOptions =
+  | { thread_ts?: string; reply_broadcast?: false }
+  | { thread_ts: string; reply_broadcast: true };
+
+export type SlackUpdateOptions = {
+  botToken: string;
+  channel: string; // channel ID returned when the message was posted
+  ts: string; // timestamp of the message to edit
+  blocks: (KnownBlock | Block)[];
+  text?: string;
+};
+
+export type SlackDeleteOptions = {
+  botToken: string;
+  channel: string;
+  ts: string;
 };
 
 export type SlackMessageResponse = { ts: string; channel: string };
 
+export type SlackUserResponse = { userId: string };
+
+export type SlackConversationResponse = { channel: string };
+
+export type SlackUploadOptions = {
+  botToken: string;
+  filename: string;
+  title?: string;
+  content: Buffer;
+};
+
+export type SlackFileResponse = { fileId: string; permalink: string };
+
+export type SlackApiResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string; retryable: boolean; retryAfterSec?: number };
+
 @Injectable()
 export class SlackApiService {
   private readonly defaultOpts: WebClientOptions = {
     logLevel: LogLevel.ERROR,
+    // Callers pace themselves and pause on rate_limited; waiting inside the
+    // client would hold a worker for the whole Retry-After
+    rejectRateLimitedCalls: true,
   };
 
   private client(token: string) {
@@ -23,17 +69,19 @@ export class SlackApiService {
 
   async sendMessage(
     opts: SlackSendOptions,
-  ): Promise<
-    | { ok: true; value: SlackMessageResponse }
-    | { ok: false; error: string; retryable: boolean; retryAfterSec?: number }
-  > {
+  ): Promise<SlackApiResult<SlackMessageResponse>> {
     try {
       const web = this.client(opts.botToken);
+      // Slack only accepts reply_broadcast together with thread_ts
+      const threading: ChatPostMessageReplyOptions =
+        opts.thread_ts && opts.reply_broadcast
+          ? { thread_ts: opts.thread_ts, reply_broadcast: true }
+          : { thread_ts: opts.thread_ts ?? undefined };
       const res = await web.chat.postMessage({
         channel: opts.channel,
         text: opts.text ?? 'Notification',
-        blocks: opts.blocks as any, // Block Kit types are complex and validated by Slack API
-        thread_ts: opts.thread_ts ?? undefined,
+        blocks: opts.blocks,
+        ...threading,
       });
 
       if (!res.ok) {
@@ -53,6 +101,136 @@ export class SlackApiService {
     }
   }
 
+  async updateMessage(
+    opts: SlackUpdateOptions,
+  ): Promise<SlackApiResult<SlackMessageResponse>> {
+    try {
+      const web = this.client(opts.botToken);
+      const res = await web.chat.update({
+        channel: opts.channel,
+        ts: opts.ts,
+        text: opts.text ?? 'Notification',
+        blocks: opts.blocks,
+      });
+
+      if (!res.ok) {
+        return this.classifySlackError(res.error || 'unknown_error');
+      }
+      return {
+        ok: true,
+        value: { ts: String(res.ts), channel: String(res.channel) },
+      };
+    } catch (err: unknown) {
+      return this.classifySlackError(
+        this.extractErrorCode(err),
+        this.extractRetryAfter(err),
+      );
+    }
+  }
+
+  async deleteMessage(
+    opts: SlackDeleteOptions,
+  ): Promise<SlackApiResult<SlackMessageResponse>> {
+    try {
+      const web = this.client(opts.botToken);
+      const res = await web.chat.delete({
+        channel: opts.channel,
+        ts: opts.ts,
+      });
+
+      if (!res.ok) {
+        return this.classifySlackError(res.error || 'unknown_error');
+      }
+      return {
+        ok: true,
+        value: { ts: String(res.ts), channel: String(res.channel) },
+      };
+    } catch (err: unknown) {
+      return this.classifySlackError(
+        this.extractErrorCode(err),
+        this.extractRetryAfter(err),
+      );
+    }
+  }
+
+  /**
+   * Find the workspace member with this email (users.lookupByEmail)
+   * Fails with users_not_found when there is none; needs users:read.email
+   */
+  async lookupUserByEmail(
+    botToken: string,
+    email: string,
+  ): Promise<SlackApiResult<SlackUserResponse>> {
+    try {
+      const web = this.client(botToken);
+      const res = await web.users.lookupByEmail({ email });
+
+      if (!res.ok || !res.user?.id) {
+        return this.classifySlackError(res.error || 'users_not_found');
+      }
+      return { ok: true, value: { userId: res.user.id } };
+    } catch (err: unknown) {
+      return this.classifySlackError(
+        this.extractErrorCode(err),
+        this.extractRetryAfter(err),
+      );
+    }
+  }
+
+  /**
+   * Open, or reuse, the direct message channel with a user (conversations.open)
+   */
+  async openDirectMessage(
+    botToken: string,
+    userId: string,
+  ): Promise<SlackApiResult<SlackConversationResponse>> {
+    try {
+      const web = this.client(botToken);
+      const res = await web.conversations.open({ users: userId });
+
+      if (!res.ok || !res.channel?.id) {
+        return this.classifySlackError(res.error || 'unknown_error');
+      }
+      return { ok: true, value: { channel: res.channel.id } };
+    } catch (err: unknown) {
+      return this.classifySlackError(
+        this.extractErrorCode(err),
+        this.extractRetryAfter(err),
+      );
+    }
+  }
+
+  /**
+   * Upload a file without sharing it (files.getUploadURLExternal and
+   * files.completeUploadExternal); posting its permalink in a message shares it
+   */
+  async uploadFile(
+    opts: SlackUploadOptions,
+  ): Promise<SlackApiResult<SlackFileResponse>> {
+    try {
+      const web = this.client(opts.botToken);
+      const res = await web.filesUploadV2({
+        file: opts.content,
+        filename: opts.filename,
+        title: opts.title ?? opts.filename,
+      });
+
+      const file = res.files?.[0]?.files?.[0];
+      if (!res.ok || !file?.id || !file.permalink) {
+        return this.classifySlackError(res.error || 'unknown_error');
+      }
+      return {
+        ok: true,
+        value: { fileId: file.id, permalink: file.permalink },
+      };
+    } catch (err: unknown) {
+      return this.classifySlackError(
+        this.extractErrorCode(err),
+        this.extractRetryAfter(err),
+      );
+    }
+  }
+
   async validateToken(botToken: string) {
     try {
       const web = this.client(botToken);
@@ -84,6 +262,7 @@ export class SlackApiService {
       const dataError = (error.data as Record<string, unknown>)?.error;
       const code = error.code;
 
+      if (code === ErrorCode.RateLimitedError) return 'rate_limited';
       if (typeof dataError === 'string') return dataError;
       if (typeof code === 'string') return code;
     }
@@ -93,6 +272,7 @@ export class SlackApiService {
   private extractRetryAfter(err: unknown): number | undefined {
     if (typeof err === 'object' && err !== null) {
       const error = err as Record<string, unknown>;
+      if (typeof error.retryAfter === 'number') return error.retryAfter;
       const headers = error.headers as Record<string, unknown>;
       const retryAfter = headers?.['retry-after'];
       return retryAfter ? Number(retryAfter) : undefined;
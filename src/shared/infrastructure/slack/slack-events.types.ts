@@ -0,0 +1,80 @@
+/**
+ * Slack Events API Payload Types
+ *
+ * Envelopes Slack posts to an app's event request URL. Only the fields the
+ * service reads are typed; Slack sends more.
+ *
+ * @see https://api.slack.com/apis/events-api#receiving-events
+ */
+
+/**
+ * Handshake Slack sends when the request URL is configured
+ */
+export type SlackUrlVerificationEnvelope = {
+  type: 'url_verification';
+  challenge: string;
+  token?: string;
+};
+
+/**
+ * Inner event of an event_callback. Channel events carry the channel either
+ * as an id or, for renames, as an object.
+ */
+export type SlackEvent = {
+  type: string;
+  subtype?: string;
+  channel?: string | { id: string; name?: string };
+  channel_type?: string;
+  user?: string;
+  /** Set by message subtypes channel_topic / group_topic */
+  topic?: string;
+  /** Set by message subtypes channel_purpose / group_purpose */
+  purpose?: string;
+  event_ts?: string;
+};
+
+/**
+ * Wrapper around every subscribed event
+ */
+export type SlackEventCallbackEnvelope = {
+  type: 'event_callback';
+  /** Workspace the event happened in */
+  team_id: string;
+  api_app_id?: string;
+  event: SlackEvent;
+  event_id?: string;
+  event_time?: number;
+};
+
+export type SlackEventsApiEnvelope =
+  | SlackUrlVerificationEnvelope
+  | SlackEventCallbackEnvelope
+  | { type: string; [key: string]: unknown };
+
+export function isSlackUrlVerification(
+  value: unknown,
+): value is SlackUrlVerificationEnvelope {
+  if (!value || typeof value !== 'object') return false;
+  const envelope = value as Record<string, unknown>;
+  return (
+    envelope.type === 'url_verification' &&
+    typeof envelope.challenge === 'string'
+  );
+}
+
+/**
+ * Check that a parsed body is an event_callback with the fields the service
+ * relies on
+ */
+export function isSlackEventCallback(
+  value: unknown,
+): value is SlackEventCallbackEnvelope {
+  if (!value || typeof value !== 'object') return false;
+  const envelope = value as Record<string, unknown>;
+  const event = envelope.event as Record<string, unknown> | undefined;
+  return (
+    envelope.type === 'event_callback' &&
+    typeof envelope.team_id === 'string' &&
+    typeof event?.type === 'string'
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Slack Interaction Payload Types
+ *
+ * Shapes of the `payload` field Slack posts to an app's interactivity
+ * request URL. Only the fields the service reads are typed; Slack sends more.
+ *
+ * @see https://api.slack.com/reference/interaction-payloads/block-actions
+ */
+
+import type { SlackBlock } from './slack-block-kit.types';
+
+/**
+ * One element interaction inside a block_actions payload
+ */
+export type SlackInteractionAction = {
+  /** Element type, e.g. button, static_select */
+  type: string;
+  action_id: string;
+  block_id?: string;
+  /** Button value */
+  value?: string;
+  /** URL of a link button */
+  url?: string;
+  /** Option picked in a select */
+  selected_option?: { value: string };
+  action_ts?: string;
+};
+
+/**
+ * block_actions payload: a user interacted with an element of a message
+ */
+export type SlackBlockActionsPayload = {
+  type: 'block_actions';
+  api_app_id?: string;
+  team?: { id: string; domain?: string } | null;
+  user: { id: string; username?: string; name?: string; team_id?: string };
+  /** Where the interaction happened; for messages, the channel and ts */
+  container?: {
+    type: string;
+    channel_id?: string;
+    message_ts?: string;
+    is_ephemeral?: boolean;
+  };
+  channel?: { id: string; name?: string };
+  /** The message as the user saw it */
+  message?: { ts: string; text?: string; blocks?: SlackBlock[] };
+  actions: SlackInteractionAction[];
+  trigger_id?: string;
+  response_url?: string;
+};
+
+/**
+ * Any interaction payload; types other than block_actions are acknowledged
+ * and otherwise ignored
+ */
+export type SlackInteractionPayload =
+  | SlackBlockActionsPayload
+  | { type: string; [key: string]: unknown };
+
+/**
+ * Check that a parsed payload is a block_actions payload with the fields the
+ * service relies on
+ */
+export function isSlackBlockActionsPayload(
+  value: unknown,
+): value is SlackBlockActionsPayload {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Record<string, unknown>;
+  const user = payload.user as Record<string, unknown> | undefined;
+  return (
+    payload.type === 'block_actions' &&
+    typeof user?.id === 'string' &&
+    Array.isArray(payload.actions) &&
+    payload.actions.every(
+      (action) =>
+        !!action &&
+        typeof (action as Record<string, unknown>).action_id === 'string',
+    )
+  );
+}
@@ -0,0 +1,666 @@
+/**
+ * Slack message limits
+ *
+ * Slack rejects messages with more blocks or longer texts than these
+ * limits, and truncates the top-level text. See
+ * https://api.slack.com/reference/block-kit/blocks and
+ * https://api.slack.com/methods/chat.postMessage
+ *
+ * findBlockKitErrors also checks blocks against the shapes of
+ * slack-block-kit.types.ts, so messages Slack would refuse with
+ * invalid_blocks are caught with the path of the offending value.
+ */
+
+export const SLACK_MESSAGE_LIMITS = {
+  /** Blocks per message */
+  blocks: 50,
+  /** Characters of a section text */
+  sectionText: 3000,
+  /** Characters of each section field */
+  sectionFieldText: 2000,
+  /** Characters of a header text */
+  headerText: 150,
+  /** Characters of the top-level message text */
+  messageText: 40_000,
+  /** Fields per section */
+  sectionFields: 10,
+  /** Elements per context block */
+  contextElements: 10,
+  /** Elements per actions block */
+  actionsElements: 25,
+  /** Characters of a block_id */
+  blockId: 255,
+  /** Characters of an action_id */
+  actionId: 255,
+  /** Characters of a URL */
+  url: 3000,
+  /** Characters of a button text */
+  buttonText: 75,
+  /** Characters of a button value */
+  buttonValue: 2000,
+  /** Characters of an image alt text or title */
+  imageText: 2000,
+  /** Characters of a select or input placeholder */
+  placeholder: 150,
+  /** Options per select menu or option group */
+  options: 100,
+  /** Characters of an option text, value or description */
+  optionText: 75,
+  /** Characters of a confirm dialog title */
+  confirmTitle: 100,
+  /** Characters of a confirm dialog text */
+  confirmText: 300,
+  /** Characters of a confirm or deny button */
+  confirmButton: 30,
+  /** Characters of an input label or hint */
+  inputText: 2000,
+} as const;
+
+/**
+ * A value Slack would refuse, located in the message
+ */
+export interface SlackBlockKitError {
+  /** Location in the message, e.g. blocks[2].elements[0].url */
+  path: string;
+  message: string;
+  /** Set when the value exceeds one of SLACK_MESSAGE_LIMITS */
+  limit?: number;
+  actual?: number;
+}
+
+export interface SlackLimitViolation extends SlackBlockKitError {
+  limit: number;
+  actual: number;
+}
+
+/**
+ * Ways to check blocks that are not final yet, such as template content
+ */
+export interface SlackBlockKitCheckOptions {
+  /** Values filled in later; they pass every check but presence */
+  isPlaceholder?: (value: unknown) => boolean;
+  /** Items of a list that stand for the items they return */
+  expandItem?: (item: unknown) => unknown[] | undefined;
+}
+
+type BlockLike = Record<string, unknown>;
+
+const asBlock = (value: unknown): BlockLike | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as BlockLike)
+    : undefined;
+
+const textOf = (value: unknown): string | undefined => {
+  const text = asBlock(value)?.text;
+  return typeof text === 'string' ? text : undefined;
+};
+
+const TEXT_TYPES = ['plain_text', 'mrkdwn'];
+const BUTTON_STYLES = ['primary', 'danger'];
+const ACTION_ELEMENTS = [
+  'button',
+  'static_select',
+  'multi_static_select',
+  'plain_text_input',
+];
+const INPUT_ELEMENTS = [
+  'plain_text_input',
+  'static_select',
+  'multi_static_select',
+];
+const L = SLACK_MESSAGE_LIMITS;
+
+/**
+ * Walks a message and collects every error, in document order
+ */
+class BlockKitChecker {
+  readonly errors: SlackBlockKitError[] = [];
+  private readonly blockIds = new Set<string>();
+
+  constructor(private readonly options: SlackBlockKitCheckOptions) {}
+
+  check(blocks: unknown[]): void {
+    const items = this.items(blocks, 'blocks');
+    this.limit('blocks', items.length, L.blocks, 'Message', 'blocks');
+    for (const [block, path] of items) this.block(block, path);
+  }
+
+  private block(value: unknown, path: string): void {
+    const block = this.object(value, path, 'Block');
+    if (!block) return;
+    this.blockId(block.block_id, `${path}.block_id`);
+    const actionIds = new Set<string>();
+
+    switch (block.type) {
+      case 'section': {
+        this.text(block.text, `${path}.text`, 'Section text', {
+          max: L.sectionText,
+        });
+        const fields = this.list(block.fields, `${path}.fields`, {
+          what: 'Section',
+          noun: 'fields',
+          max: L.sectionFields,
+        });
+        for (const [field, fieldPath] of fields ?? []) {
+          this.text(field, fieldPath, 'Section field', {
+            required: true,
+            max: L.sectionFieldText,
+          });
+        }
+        if (block.text === undefined && block.fields === undefined) {
+          this.fail(path, 'A section needs a text or fields');
+        }
+        if (block.accessory !== undefined) {
+          this.element(
+            block.accessory,
+            `${path}.accessory`,
+            [...ACTION_ELEMENTS, 'image'],
+            actionIds,
+          );
+        }
+        return;
+      }
+      case 'divider':
+        return;
+      case 'header':
+        this.text(block.text, `${path}.text`, 'Header text', {
+          required: true,
+          plain: true,
+          max: L.headerText,
+        });
+        return;
+      case 'context': {
+        const elements = this.list(block.elements, `${path}.elements`, {
+          what: 'Context block',
+          noun: 'elements',
+          max: L.contextElements,
+          required: true,
+        });
+        for (const [element, elementPath] of elements ?? []) {
+          if (asBlock(element)?.type === 'image') {
+            this.element(element, elementPath, ['image'], actionIds);
+          } else {
+            this.text(element, elementPath, 'Context element', {
+              required: true,
+            });
+          }
+        }
+        return;
+      }
+      case 'actions': {
+        const elements = this.list(block.elements, `${path}.elements`, {
+          what: 'Actions block',
+          noun: 'elements',
+          max: L.actionsElements,
+          required: true,
+        });
+        for (const [element, elementPath] of elements ?? []) {
+          this.element(element, elementPath, ACTION_ELEMENTS, actionIds);
+        }
+        return;
+      }
+      case 'image':
+        this.url(block.image_url, `${path}.image_url`, 'Image URL', true);
+        this.string(block.alt_text, `${path}.alt_text`, 'Alt text', {
+          required: true,
+          max: L.imageText,
+        });
+        this.text(block.title, `${path}.title`, 'Image title', {
+          plain: true,
+          max: L.imageText,
+        });
+        return;
+      case 'input':
+        this.text(block.label, `${path}.label`, 'Input label', {
+          required: true,
+          plain: true,
+          max: L.inputText,
+        });
+        this.text(block.hint, `${path}.hint`, 'Input hint', {
+          plain: true,
+          max: L.inputText,
+        });
+        if (block.element === undefined) {
+          this.fail(`${path}.element`, 'Input element is required');
+        } else {
+          this.element(
+            block.element,
+            `${path}.element`,
+            INPUT_ELEMENTS,
+            actionIds,
+          );
+        }
+        return;
+      case 'rich_text':
+        this.list(block.elements, `${path}.elements`, {
+          what: 'Rich text block',
+          noun: 'elements',
+          required: true,
+        });
+        return;
+      case 'file':
+        this.string(block.external_id, `${path}.external_id`, 'External id', {
+          required: true,
+        });
+        this.string(block.source, `${path}.source`, 'File source', {
+          required: true,
+        });
+        return;
+      default:
+        this.unknownType(block.type, `${path}.type`, 'block');
+    }
+  }
+
+  /**
+   * action_ids must be unique within their block; interactions report the
+   * block and action they came from
+   */
+  private element(
+    value: unknown,
+    path: string,
+    allowed: string[],
+    actionIds: Set<string>,
+  ): void {
+    const element = this.object(value, path, 'Element');
+    if (!element) return;
+    if (
+      typeof element.type === 'string' &&
+      !this.isPlaceholder(element.type) &&
+      !allowed.includes(element.type)
+    ) {
+      this.fail(
+        `${path}.type`,
+        `Element type "${element.type}" is not allowed here; use ${allowed.join(', ')}`,
+      );
+      return;
+    }
+
+    if (element.type === 'image') {
+      this.url(element.image_url, `${path}.image_url`, 'Image URL', true);
+      this.string(element.alt_text, `${path}.alt_text`, 'Alt text', {
+        required: true,
+        max: L.imageText,
+      });
+      return;
+    }
+
+    const actionId = element.action_id;
+    if (
+      this.string(actionId, `${path}.action_id`, 'action_id', {
+        required: true,
+        max: L.actionId,
+      }) &&
+      typeof actionId === 'string'
+    ) {
+      if (actionIds.has(actionId)) {
+        this.fail(
+          `${path}.action_id`,
+          `action_id "${actionId}" is used twice in this block`,
+        );
+      }
+      actionIds.add(actionId);
+    }
+
+    switch (element.type) {
+      case 'button':
+        this.text(element.text, `${path}.text`, 'Button text', {
+          required: true,
+          plain: true,
+          max: L.buttonText,
+        });
+        this.url(element.url, `${path}.url`, 'Button URL', false);
+        this.string(element.value, `${path}.value`, 'Button value', {
+          max: L.buttonValue,
+        });
+        this.oneOf(
+          element.style,
+          `${path}.style`,
+          'Button style',
+          BUTTON_STYLES,
+        );
+        this.confirm(element.confirm, `${path}.confirm`);
+        return;
+      case 'static_select':
+      case 'multi_static_select': {
+        this.text(element.placeholder, `${path}.placeholder`, 'Placeholder', {
+          required: true,
+          plain: true,
+          max: L.placeholder,
+        });
+        const options = this.list(element.options, `${path}.options`, {
+          what: 'Select menu',
+          noun: 'options',
+          max: L.options,
+        });
+        for (const [option, optionPath] of options ?? []) {
+          this.option(option, optionPath);
+        }
+        const groups = this.list(
+          element.option_groups,
+          `${path}.option_groups`,
+          { what: 'Select menu', noun: 'option groups', max: L.options },
+        );
+        for (const [group, groupPath] of groups ?? []) {
+          this.optionGroup(group, groupPath);
+        }
+        if (
+          element.options === undefined &&
+          element.option_groups === undefined
+        ) {
+          this.fail(path, 'A select menu needs options or option_groups');
+        }
+        this.confirm(element.confirm, `${path}.confirm`);
+        return;
+      }
+      case 'plain_text_input':
+        this.text(element.placeholder, `${path}.placeholder`, 'Placeholder', {
+          plain: true,
+          max: L.placeholder,
+        });
+        return;
+      default:
+        this.unknownType(element.type, `${path}.type`, 'element');
+    }
+  }
+
+  private option(value: unknown, path: string): void {
+    const option = this.object(value, path, 'Option');
+    if (!option) return;
+    this.text(option.text, `${path}.text`, 'Option text', {
+      required: true,
+      plain: true,
+      max: L.optionText,
+    });
+    this.string(option.value, `${path}.value`, 'Option value', {
+      required: true,
+      max: L.optionText,
+    });
+    this.text(option.description, `${path}.description`, 'Option description', {
+      plain: true,
+      max: L.optionText,
+    });
+    this.url(option.url, `${path}.url`, 'Option URL', false);
+  }
+
+  private optionGroup(value: unknown, path: string): void {
+    const group = this.object(value, path, 'Option group');
+    if (!group) return;
+    this.text(group.label, `${path}.label`, 'Option group label', {
+      required: true,
+      plain: true,
+      max: L.optionText,
+    });
+    const options = this.list(group.options, `${path}.options`, {
+      what: 'Option group',
+      noun: 'options',
+      max: L.options,
+      required: true,
+    });
+    for (const [option, optionPath] of options ?? []) {
+      this.option(option, optionPath);
+    }
+  }
+
+  private confirm(value: unknown, path: string): void {
+    if (value === undefined) return;
+    const confirm = this.object(value, path, 'Confirm dialog');
+    if (!confirm) return;
+    this.text(confirm.title, `${path}.title`, 'Confirm title', {
+      required: true,
+      plain: true,
+      max: L.confirmTitle,
+    });
+    this.text(confirm.text, `${path}.text`, 'Confirm text', {
+      required: true,
+      max: L.confirmText,
+    });
+    this.text(confirm.confirm, `${path}.confirm`, 'Confirm button', {
+      required: true,
+      plain: true,
+      max: L.confirmButton,
+    });
+    this.text(confirm.deny, `${path}.deny`, 'Deny button', {
+      required: true,
+      plain: true,
+      max: L.confirmButton,
+    });
+    this.oneOf(confirm.style, `${path}.style`, 'Confirm style', BUTTON_STYLES);
+  }
+
+  // --------------------- values ---------------------
+
+  private text(
+    value: unknown,
+    path: string,
+    what: string,
+    opts: { required?: boolean; plain?: boolean; max?: number },
+  ): void {
+    if (value === undefined) {
+      if (opts.required) this.fail(path, `${what} is required`);
+      return;
+    }
+    if (this.isPlaceholder(value)) return;
+    const text = this.object(value, path, what);
+    if (!text) return;
+    const allowed = opts.plain ? ['plain_text'] : TEXT_TYPES;
+    this.oneOf(text.type, `${path}.type`, what, allowed, true);
+    this.string(text.text, `${path}.text`, what, {
+      required: true,
+      max: opts.max,
+    });
+  }
+
+  /** Returns whether the value is an acceptable string or placeholder */
+  private string(
+    value: unknown,
+    path: string,
+    what: string,
+    opts: { required?: boolean; max?: number },
+  ): boolean {
+    if (value === undefined) {
+      if (opts.required) this.fail(path, `${what} is required`);
+      return !opts.required;
+    }
+    if (this.isPlaceholder(value)) return true;
+    if (typeof value !== 'string') {
+      this.fail(path, `${what} must be a string`);
+      return false;
+    }
+    if (opts.required && value.length === 0) {
+      this.fail(path, `${what} must not be empty`);
+      return false;
+    }
+    if (opts.max !== undefined) {
+      return this.limit(path, value.length, opts.max, what, 'characters');
+    }
+    return true;
+  }
+
+  private url(
+    value: unknown,
+    path: string,
+    what: string,
+    required: boolean,
+  ): void {
+    if (
+      !this.string(value, path, what, { required, max: L.url }) ||
+      typeof value !== 'string' ||
+      this.isPlaceholder(value)
+    ) {
+      return;
+    }
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(value).protocol;
+    } catch {
+      protocol = undefined;
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      this.fail(path, `${what} must be an absolute http or https URL`);
+    }
+  }
+
+  private blockId(value: unknown, path: string): void {
+    if (
+      !this.string(value, path, 'block_id', { max: L.blockId }) ||
+      typeof value !== 'string' ||
+      this.isPlaceholder(value)
+    ) {
+      return;
+    }
+    if (this.blockIds.has(value)) {
+      this.fail(path, `block_id "${value}" is used twice in this message`);
+    }
+    this.blockIds.add(value);
+  }
+
+  private oneOf(
+    value: unknown,
+    path: string,
+    what: string,
+    allowed: readonly string[],
+    required = false,
+  ): void {
+    if (this.isPlaceholder(value) || (value === undefined && !required)) {
+      return;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.fail(path, `${what} must be ${allowed.join(' or ')}`);
+    }
+  }
+
+  private unknownType(type: unknown, path: string, kind: string): void {
+    if (this.isPlaceholder(type)) return;
+    this.fail(
+      path,
+      type === undefined
+        ? `The ${kind} needs a type`
+        : `Unknown ${kind} type ${JSON.stringify(type)}`,
+    );
+  }
+
+  // --------------------- structure ---------------------
+
+  /** The value as an object, or undefined when it is a placeholder or not one */
+  private object(
+    value: unknown,
+    path: string,
+    what: string,
+  ): BlockLike | undefined {
+    if (this.isPlaceholder(value)) return undefined;
+    const object = asBlock(value);
+    if (!object) this.fail(path, `${what} must be an object`);
+    return object;
+  }
+
+  /** Items of a list with their paths, or undefined when it cannot be checked */
+  private list(
+    value: unknown,
+    path: string,
+    opts: { what: string; noun: string; max?: number; required?: boolean },
+  ): [unknown, string][] | undefined {
+    if (value === undefined) {
+      if (opts.required) this.fail(path, `${opts.what} needs ${opts.noun}`);
+      return undefined;
+    }
+    if (this.isPlaceholder(value)) return undefined;
+    if (!Array.isArray(value)) {
+      this.fail(path, `${opts.what} ${opts.noun} must be a list`);
+      return undefined;
+    }
+    const items = this.items(value, path);
+    if (opts.max !== undefined) {
+      this.limit(path, items.length, opts.max, opts.what, opts.noun);
+    }
+    return items;
+  }
+
+  /**
+   * List items with their paths; items that stand for others are replaced
+   * by them, numbered after the path of the item they came from
+   */
+  private items(list: unknown[], path: string): [unknown, string][] {
+    const out: [unknown, string][] = [];
+    list.forEach((item, i) => {
+      const itemPath = `${path}[${i}]`;
+      const expanded = this.options.expandItem?.(item);
+      if (expanded) {
+        out.push(...this.items(expanded, itemPath));
+      } else {
+        out.push([item, itemPath]);
+      }
+    });
+    return out;
+  }
+
+  /** Returns whether actual is within the limit */
+  private limit(
+    path: string,
+    actual: number,
+    limit: number,
+    what: string,
+    unit: string,
+  ): boolean {
+    if (actual <= limit) return true;
+    this.errors.push({
+      path,
+      limit,
+      actual,
+      message: `${what} has ${actual} ${unit}, Slack allows ${limit}`,
+    });
+    return false;
+  }
+
+  private fail(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  private isPlaceholder(value: unknown): boolean {
+    return this.options.isPlaceholder?.(value) ?? false;
+  }
+}
+
+/**
+ * Every value of the blocks that Slack would refuse, in document order
+ */
+export function findBlockKitErrors(
+  blocks: unknown[],
+  options: SlackBlockKitCheckOptions = {},
+): SlackBlockKitError[] {
+  const checker = new BlockKitChecker(options);
+  checker.check(blocks);
+  return checker.errors;
+}
+
+/**
+ * Block-count and text-length violations of a list of blocks
+ */
+export function findSlackLimitViolations(
+  blocks: unknown[],
+): SlackLimitViolation[] {
+  return findBlockKitErrors(blocks).filter(
+    (e): e is SlackLimitViolation =>
+      e.limit !== undefined && e.actual !== undefined,
+  );
+}
+
+/**
+ * Plain text of a message, shown in notifications and by clients that
+ * cannot display blocks
+ */
+export function toSlackFallbackText(blocks: unknown[]): string {
+  const lines: string[] = [];
+  for (const value of blocks) {
+    const block = asBlock(value);
+    const text = textOf(block?.text);
+    if (text) lines.push(text);
+    // Section fields stack, context elements run on one line; button and
+    // image elements carry no text of their own
+    const [list, separator] =
+      block?.type === 'context' ? [block.elements, ' '] : [block?.fields, '\n'];
+    if (!Array.isArray(list)) continue;
+    const texts = list.map(textOf).filter((t): t is string => !!t);
+    if (texts.length) lines.push(texts.join(separator));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,39 @@
+/**
+ * Slack Web API rate limits
+ *
+ * Slack limits most methods per workspace and app in tiers of calls per
+ * minute, and chat.postMessage to about one message per second per channel.
+ * See https://api.slack.com/apis/rate-limits
+ */
+
+export type SlackRateTier = 1 | 2 | 3 | 4;
+
+/** Calls per minute Slack allows for each tier */
+export const SLACK_TIER_CALLS_PER_MINUTE: Record<SlackRateTier, number> = {
+  1: 1,
+  2: 20,
+  3: 50,
+  4: 100,
+};
+
+export interface SlackMethodRateLimit {
+  /** Calls per minute per workspace; absent when Slack sets none */
+  perMinute?: number;
+  /** Minimum gap between calls to the same channel */
+  perChannelIntervalMs?: number;
+}
+
+/** Limits of the methods this service calls */
+export const SLACK_METHOD_RATE_LIMITS = {
+  'chat.postMessage': { perChannelIntervalMs: 1000 },
+  'chat.update': { perMinute: SLACK_TIER_CALLS_PER_MINUTE[3] },
+  'chat.delete': { perMinute: SLACK_TIER_CALLS_PER_MINUTE[3] },
+  'conversations.open': { perMinute: SLACK_TIER_CALLS_PER_MINUTE[3] },
+  'users.lookupByEmail': { perMinute: SLACK_TIER_CALLS_PER_MINUTE[3] },
+  'files.getUploadURLExternal': { perMinute: SLACK_TIER_CALLS_PER_MINUTE[4] },
+  'files.completeUploadExternal': {
+    perMinute: SLACK_TIER_CALLS_PER_MINUTE[4],
+  },
+} satisfies Record<string, SlackMethodRateLimit>;
+
+export type SlackRateLimitedMethod = keyof typeof SLACK_METHOD_RATE_LIMITS;
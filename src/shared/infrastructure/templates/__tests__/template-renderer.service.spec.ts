@@ -0,0 +1,393 @@
+import { TemplateRendererService } from '../template-renderer.service';
+import type {
+  RenderableTemplate,
+  TemplateRenderOptions,
+  TemplateRenderResult,
+} from '../template.types';
+
+describe('TemplateRendererService', () => {
+  const renderer = new TemplateRendererService();
+
+  const template = (
+    contentBlocks: (string | object)[],
+    variables?: string[],
+  ): RenderableTemplate => ({
+    code: 'T1',
+    name: 'Test',
+    contentBlocks,
+    variables,
+    enabled: true,
+  });
+
+  const section = (text: string) => ({
+    type: 'section',
+    text: { type: 'mrkdwn', text },
+  });
+
+  const render = (
+    blocks: (string | object)[],
+    variables: Record<string, unknown>,
+    opts: Partial<TemplateRenderOptions> = {},
+  ): TemplateRenderResult =>
+    renderer.renderTemplate({ template: template(blocks), variables, ...opts });
+
+  const renderText = (
+    text: string,
+    variables: Record<string, unknown>,
+    opts: Partial<TemplateRenderOptions> = {},
+  ): string => {
+    const res = render([section(text)], variables, opts);
+    if (!res.ok) throw new Error(res.error);
+    return (res.value as ReturnType<typeof section>[])[0].text.text;
+  };
+
+  describe('substitution', () => {
+    test('replaces nested paths and list indexes', () => {
+      expect(
+        renderText('{{ user.name }} has {{ items[1] }} and {{items.0}}', {
+          user: { name: 'Ada' },
+          items: ['a', 'b'],
+        }),
+      ).toBe('Ada has b and a');
+    });
+
+    test('renders missing values as empty text', () => {
+      expect(renderText('[{{ nope.deeper }}]', {})).toBe('[]');
+    });
+
+    test('renders objects inside text as JSON', () => {
+      expect(renderText('meta: {{ meta }}', { meta: { a: 1 } })).toBe(
+        'meta: {"a":1}',
+      );
+    });
+
+    test('places a list given by a lone tag as data', () => {
+      const fields = [{ type: 'mrkdwn', text: '*A*' }];
+      const res = render([{ type: 'section', fields: '{{ fields }}' }], {
+        fields,
+      });
+      expect(res).toEqual({
+        ok: true,
+        value: [{ type: 'section', fields }],
+      });
+    });
+
+    test('parses JSON string blocks', () => {
+      const res = render(
+        ['{"type":"section","text":{"type":"mrkdwn","text":"Hi {{name}}"}}'],
+        { name: 'Bo' },
+      );
+      expect(res).toEqual({ ok: true, value: [section('Hi Bo')] });
+    });
+
+    test('still reports missing required variables', () => {
+      const res = renderer.renderTemplate({
+        template: template([section('{{ id }}')], ['id']),
+        variables: {},
+      });
+      expect(res).toEqual({ ok: false, error: 'missing_var:id' });
+    });
+  });
+
+  describe('conditionals', () => {
+    test('picks the branch of #if and #unless', () => {
+      const text =
+        '{{#if failed}}failed{{else}}ok{{/if}}/{{#unless failed}}fine{{/unless}}';
+      expect(renderText(text, { failed: true })).toBe('failed/');
+      expect(renderText(text, { failed: false })).toBe('ok/fine');
+    });
+
+    test('treats empty lists as false', () => {
+      expect(
+        renderText('{{#if items}}some{{else}}none{{/if}}', { items: [] }),
+      ).toBe('none');
+    });
+
+    test('compares values and negates with not', () => {
+      const vars = { status: 'failed', count: 7 };
+      expect(renderText('{{#if status == "failed"}}x{{/if}}', vars)).toBe('x');
+      expect(
+        renderText('{{#if count >= 10}}many{{else}}few{{/if}}', vars),
+      ).toBe('few');
+      expect(renderText('{{#if not count}}zero{{else}}some{{/if}}', vars)).toBe(
+        'some',
+      );
+    });
+
+    test('does not order values of different types', () => {
+      expect(
+        renderText('{{#if count > "5"}}yes{{else}}no{{/if}}', { count: 7 }),
+      ).toBe('no');
+    });
+
+    test('expands a conditional block directive', () => {
+      const blocks = [
+        {
+          '{{#if urgent}}': [section(':rotating_light: urgent')],
+          '{{else}}': section('normal'),
+        },
+        section('end'),
+      ];
+      expect(render(blocks, { urgent: false })).toEqual({
+        ok: true,
+        value: [section('normal'), section('end')],
+      });
+    });
+  });
+
+  describe('loops', () => {
+    test('repeats text with item scope and position', () => {
+      expect(
+        renderText(
+          '{{#each items}}{{@index}}:{{ name }}@{{ team }}{{#unless @last}}, {{/unless}}{{/each}}',
+          { team: 'ops', items: [{ name: 'a' }, { name: 'b' }] },
+        ),
+      ).toBe('0:a@ops, 1:b@ops');
+    });
+
+    test('uses this for scalar items and else for empty lists', () => {
+      const text = '{{#each tags}}#{{ this }} {{else}}no tags{{/each}}';
+      expect(renderText(text, { tags: ['x', 'y'] })).toBe('#x #y ');
+      expect(renderText(text, { tags: [] })).toBe('no tags');
+      expect(renderText(text, {})).toBe('no tags');
+    });
+
+    test('expands repeated blocks', () => {
+      const res = render(
+        [
+          section('Orders'),
+          {
+            '{{#each orders}}': {
+              type: 'section',
+              text: { type: 'mrkdwn', text: '{{ id }}: {{ @root.currency }}' },
+            },
+          },
+        ],
+        { currency: 'EUR', orders: [{ id: 'o1' }, { id: 'o2' }] },
+      );
+      expect(res).toEqual({
+        ok: true,
+        value: [section('Orders'), section('o1: EUR'), section('o2: EUR')],
+      });
+    });
+
+    test('expands repeated items inside a block list', () => {
+      const res = render(
+        [
+          {
+            type: 'section',
+            fields: [
+              { '{{#each rows}}': { type: 'mrkdwn', text: '*{{ this }}*' } },
+            ],
+          },
+        ],
+        { rows: ['a', 'b'] },
+      );
+      expect(res).toEqual({
+        ok: true,
+        value: [
+          {
+            type: 'section',
+            fields: [
+              { type: 'mrkdwn', text: '*a*' },
+              { type: 'mrkdwn', text: '*b*' },
+            ],
+          },
+        ],
+      });
+    });
+
+    test('checks the block count after expansion', () => {
+      const res = render(
+        [{ '{{#each rows}}': section('{{ this }}') }],
+        { rows: [1, 2, 3] },
+        { maxBlocks: 2 },
+      );
+      expect(res).toEqual({ ok: false, error: 'too_many_blocks' });
+    });
+  });
+
+  describe('filters', () => {
+    test('formats dates in a time zone', () => {
+      const at = '2025-03-01T15:30:00Z';
+      expect(renderText('{{ at | date: "iso" }}', { at })).toBe(
+        '2025-03-01T15:30:00.000Z',
+      );
+      // ICU versions differ in the space before AM
+      expect(
+        renderText('{{ at | date: "time", "Asia/Tokyo" }}', { at }),
+      ).toMatch(/^12:30\sAM$/);
+      expect(
+        renderText('{{ at | date: "date" }}', { at }, { timeZone: 'UTC' }),
+      ).toBe('Mar 1, 2025');
+    });
+
+    test('formats numbers and currencies', () => {
+      expect(renderText('{{ n | number }}', { n: 1234567.891 })).toBe(
+        '1,234,567.891',
+      );
+      expect(renderText('{{ n | number: 1 }}', { n: '2.25' })).toBe('2.3');
+      expect(renderText('{{ n | currency: "EUR" }}', { n: 12.5 })).toBe(
+        '€12.50',
+      );
+    });
+
+    test('truncates by characters', () => {
+      expect(renderText('{{ s | truncate: 5 }}', { s: 'abcdefgh' })).toBe(
+        'abcd…',
+      );
+      expect(renderText('{{ s | truncate: 5, "" }}', { s: 'abcdefgh' })).toBe(
+        'abcde',
+      );
+      expect(renderText('{{ s | truncate: 5 }}', { s: 'abc' })).toBe('abc');
+    });
+
+    test('escapes mrkdwn', () => {
+      expect(
+        renderText('{{ s | escape_mrkdwn }}', { s: '<!here> *bold* & co' }),
+      ).toBe('&lt;!here&gt; \u200B*bold\u200B* &amp; co');
+    });
+
+    test('chains into default', () => {
+      expect(renderText('{{ at | date | default: "n/a" }}', { at: null })).toBe(
+        'n/a',
+      );
+      expect(renderText('{{ name | default: "anon" }}', { name: 'Al' })).toBe(
+        'Al',
+      );
+    });
+  });
+
+  describe('errors', () => {
+    const failure = (res: TemplateRenderResult) => {
+      if (res.ok) throw new Error('expected a render error');
+      return res;
+    };
+
+    test('report the block index and path', () => {
+      const res = failure(
+        render(
+          [
+            section('fine'),
+            {
+              type: 'section',
+              fields: [
+                { type: 'mrkdwn', text: 'a' },
+                { type: 'mrkdwn', text: '{{ x | shout }}' },
+              ],
+            },
+          ],
+          { x: 1 },
+        ),
+      );
+      expect(res.blockIndex).toBe(1);
+      expect(res.path).toBe('fields[1].text');
+      expect(res.error).toBe(
+        'render_error:block 1 at fields[1].text: Unknown filter "shout" in {{ x | shout }}',
+      );
+    });
+
+    test('report unbalanced sections', () => {
+      expect(failure(render([section('{{#if a}}x')], {})).error).toContain(
+        '{{#if a}} is never closed',
+      );
+      expect(
+        failure(render([section('{{#if a}}x{{/each}}')], {})).error,
+      ).toContain('{{/each}} closes {{#if}}');
+    });
+
+    test('report failing filters', () => {
+      expect(
+        failure(render([section('{{ n | number }}')], { n: 'abc' })).error,
+      ).toContain('Filter "number" failed');
+      expect(
+        failure(
+          render([section('{{ d | date: "short", "Mars/Base" }}')], {
+            d: '2025-01-01',
+          }),
+        ).error,
+      ).toContain('Filter "date" failed');
+    });
+
+    test('report each over a non-list', () => {
+      expect(
+        failure(render([section('{{#each a}}x{{/each}}')], { a: 'str' })).error,
+      ).toContain('{{#each a}} needs a list');
+    });
+  });
+
+  describe('sandbox', () => {
+    test('rejects prototype paths', () => {
+      for (const path of ['a.__proto__', 'constructor', 'a.prototype']) {
+        const res = render([section(`{{ ${path} }}`)], { a: {} });
+        expect(res.ok).toBe(false);
+      }
+    });
+
+    test('only reads own properties', () => {
+      expect(
+        renderText('[{{ a.toString }}][{{ s.length }}]', { a: {}, s: 'x' }),
+      ).toBe('[][]');
+      expect(render([section('{{ a | valueOf }}')], { a: 1 }).ok).toBe(false);
+    });
+
+    test('bounds loop iterations', () => {
+      const rows = Array.from({ length: 40 }, (_, i) => i);
+      const res = render(
+        [section('{{#each rows}}{{#each @root.rows}}.{{/each}}{{/each}}')],
+        { rows },
+      );
+      expect(res.ok).toBe(false);
+      expect(!res.ok && res.error).toContain('Loops repeat more than 1000');
+    });
+
+    test('bounds output size', () => {
+      const res = render([section('{{#each rows}}{{ big }}{{/each}}')], {
+        big: 'x'.repeat(20_000),
+        rows: [1, 2, 3, 4, 5, 6],
+      });
+      expect(res.ok).toBe(false);
+      expect(!res.ok && res.error).toContain('exceeds 100000 characters');
+    });
+
+    test('bounds section nesting', () => {
+      const text = '{{#if a}}'.repeat(11) + '{{/if}}'.repeat(11);
+      const res = render([section(text)], { a: true });
+      expect(!res.ok && res.error).toContain('deeper than 10 levels');
+    });
+  });
+
+  describe('preview', () => {
+    test('renders despite missing variables and lists them', () => {
+      const res = renderer.previewTemplate({
+        template: template([section('Hi {{ user.name }}')], ['user.name']),
+        variables: {},
+      });
+      expect(res.missingVariables).toEqual(['user.name']);
+      expect(res.render).toEqual({ ok: true, value: [section('Hi ')] });
+    });
+
+    test('lists declared variables and payload fields no tag reads', () => {
+      const res = renderer.previewTemplate({
+        template: template(
+          [
+            section('{{ user }} {{#each rows}}{{ id }}{{/each}}'),
+            '{"type":"section","text":{"type":"mrkdwn","text":"{{ @root.env }}"}}',
+          ],
+          ['user.name', 'amount'],
+        ),
+        variables: { user: { name: 'Ada' }, rows: [], env: 'prod', extra: 1 },
+      });
+      expect(res.unusedVariables).toEqual(['amount', 'extra']);
+    });
+
+    test('does not apply the block limit', () => {
+      const res = renderer.previewTemplate({
+        template: template([{ '{{#each rows}}': section('{{ this }}') }]),
+        variables: { rows: [1, 2, 3] },
+        maxBlocks: 2,
+      });
+      expect(res.render.ok && res.render.value).toHaveLength(3);
+    });
+  });
+});
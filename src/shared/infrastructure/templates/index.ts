@@ -4,3 +4,7 @@
 
 export * from './template.types';
 export * from './template-renderer.service';
+export {
+  isTemplatePlaceholder,
+  templateSectionItems,
+} from './template-language';
@@ -0,0 +1,140 @@
+/**
+ * Template Filters
+ *
+ * Formatting functions applied with `{{ value | filter: arg, arg }}`.
+ * Filters receive the raw value and return a new one, so they chain.
+ * Missing values (undefined, null) format to an empty string; use
+ * `default` to show something else.
+ */
+
+export interface TemplateFilterOptions {
+  /** BCP 47 locale used by number, currency and date */
+  locale: string;
+  /** IANA time zone used by date when none is given */
+  timeZone: string;
+}
+
+export type TemplateFilter = (
+  value: unknown,
+  args: unknown[],
+  options: TemplateFilterOptions,
+) => unknown;
+
+const DATE_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { dateStyle: 'short', timeStyle: 'short' },
+  medium: { dateStyle: 'medium', timeStyle: 'short' },
+  long: { dateStyle: 'long', timeStyle: 'long' },
+  full: { dateStyle: 'full', timeStyle: 'long' },
+  date: { dateStyle: 'medium' },
+  time: { timeStyle: 'short' },
+};
+
+/**
+ * Text of a value as it appears in rendered output
+ */
+export function stringifyTemplateValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value as number | boolean | bigint);
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (typeof value === 'boolean' || !Number.isFinite(n)) {
+    throw new Error(`${stringifyTemplateValue(value)} is not a number`);
+  }
+  return n;
+}
+
+function toInteger(value: unknown, name: string, min: number): number {
+  if (!Number.isInteger(value) || (value as number) < min) {
+    throw new Error(`${name} must be an integer of at least ${min}`);
+  }
+  return value as number;
+}
+
+function toDate(value: unknown): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'string' || typeof value === 'number'
+        ? new Date(value)
+        : new Date(NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${stringifyTemplateValue(value)} is not a date`);
+  }
+  return date;
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  /** `default: fallback` - fallback for missing or empty values */
+  default: (value, [fallback = '']) =>
+    isMissing(value) || value === '' ? fallback : value,
+
+  /** `truncate: length, ellipsis` - at most length characters */
+  truncate: (value, [length = 100, ellipsis = '…']) => {
+    const max = toInteger(length, 'truncate length', 1);
+    const chars = Array.from(stringifyTemplateValue(value));
+    if (chars.length <= max) return chars.join('');
+    const tail = Array.from(stringifyTemplateValue(ellipsis));
+    return (
+      chars.slice(0, Math.max(0, max - tail.length)).join('') + tail.join('')
+    );
+  },
+
+  /**
+   * `escape_mrkdwn` - user text shown as typed: &, < and > cannot start
+   * links or mentions, and *, _, ~ and ` do not format
+   */
+  escape_mrkdwn: (value) =>
+    stringifyTemplateValue(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/[*_~`]/g, '\u200B$&'),
+
+  /** `number: decimals` - grouped digits for the locale */
+  number: (value, [decimals], { locale }) => {
+    if (isMissing(value)) return '';
+    const digits =
+      decimals === undefined ? undefined : toInteger(decimals, 'decimals', 0);
+    return new Intl.NumberFormat(locale, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(toNumber(value));
+  },
+
+  /** `currency: code` - amount in an ISO 4217 currency, USD by default */
+  currency: (value, [code = 'USD'], { locale }) => {
+    if (isMissing(value)) return '';
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: stringifyTemplateValue(code),
+    }).format(toNumber(value));
+  },
+
+  /**
+   * `date: format, timeZone` - format is short, medium (default), long,
+   * full, date, time or iso; timeZone is an IANA name
+   */
+  date: (value, [format = 'medium', timeZone], options) => {
+    if (isMissing(value) || value === '') return '';
+    const date = toDate(value);
+    const name = stringifyTemplateValue(format);
+    if (name === 'iso') return date.toISOString();
+    const style = DATE_FORMATS[name];
+    if (!style) {
+      throw new Error(
+        `unknown date format "${name}"; use ${[...Object.keys(DATE_FORMATS), 'iso'].join(', ')}`,
+      );
+    }
+    return new Intl.DateTimeFormat(options.locale, {
+      ...style,
+      timeZone: stringifyTemplateValue(timeZone ?? options.timeZone),
+    }).format(date);
+  },
+};
@@ -0,0 +1,733 @@
+/**
+ * Template Language
+ *
+ * Moustache-style language of template content blocks:
+ *
+ * - `{{ path }}` outputs a value, `{{ path | filter: arg, arg }}` formats it
+ * - `{{#if cond}}…{{else}}…{{/if}}` and `{{#unless cond}}…{{/unless}}`,
+ *   where cond is a value or a comparison (==, !=, <, <=, >, >=), optionally
+ *   preceded by `not`
+ * - `{{#each path}}…{{else}}…{{/each}}` repeats its body per list item;
+ *   inside, `this` is the item, `@index`, `@first` and `@last` its position,
+ *   and names resolve on the item before outer scopes. `@root` is the data.
+ *
+ * In an array of blocks, an object whose single key is `{{#each path}}`,
+ * `{{#if cond}}` or `{{#unless cond}}` (plus an optional `{{else}}` key)
+ * expands to the blocks it holds, so blocks repeat per item.
+ *
+ * A string that is a single `{{ path }}` holding an object or list becomes
+ * that value, so lists of fields or elements can be passed as data.
+ *
+ * Templates are data, not code: lookups only see own properties of plain
+ * objects and lists, and loops, nesting and output size are bounded.
+ */
+
+import {
+  TEMPLATE_FILTERS,
+  TemplateFilterOptions,
+  stringifyTemplateValue,
+} from './template-filters';
+
+export interface TemplateLanguageLimits {
+  /** Loop iterations across the whole render */
+  maxIterations: number;
+  /** Characters of rendered text across the whole render */
+  maxOutputChars: number;
+  /** Nested sections */
+  maxDepth: number;
+}
+
+export const DEFAULT_TEMPLATE_LANGUAGE_LIMITS: TemplateLanguageLimits = {
+  maxIterations: 1000,
+  maxOutputChars: 100_000,
+  maxDepth: 10,
+};
+
+/**
+ * A template that cannot be parsed or rendered
+ *
+ * path locates the failing string inside the block, e.g. `fields[1].text`.
+ */
+export class TemplateLanguageError extends Error {
+  constructor(
+    message: string,
+    readonly path = '',
+  ) {
+    super(message);
+    this.name = 'TemplateLanguageError';
+  }
+}
+
+type Operand =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; segments: string[] };
+
+interface Expression {
+  operand: Operand;
+  filters: { name: string; args: Operand[] }[];
+}
+
+interface Condition {
+  negate: boolean;
+  left: Expression;
+  op?: ComparisonOp;
+  right?: Expression;
+}
+
+type ComparisonOp = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type SectionKeyword = 'if' | 'unless' | 'each';
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'output'; tag: string; expression: Expression }
+  | {
+      kind: 'section';
+      tag: string;
+      keyword: SectionKeyword;
+      condition: Condition;
+      body: Node[];
+      alternate: Node[];
+    };
+
+interface Scope {
+  data: unknown;
+  parent?: Scope;
+  loop?: { index: number; first: boolean; last: boolean };
+}
+
+const TAG = /{{([\s\S]*?)}}/g;
+const SINGLE_TAG = /^{{([^#/][\s\S]*?)}}$/;
+const SECTION_KEY = /^{{\s*(#if|#unless|#each|else)\b([\s\S]*?)}}$/;
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const TOKEN =
+  /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)(?![\w.])|(==|!=|<=|>=|[<>|:,])|([@A-Za-z_$][\w$]*(?:\.[A-Za-z_$\d][\w$]*|\[\d+\])*))/y;
+
+type Token =
+  | { type: 'string' | 'number'; value: string | number }
+  | { type: 'op' | 'name'; value: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN.lastIndex))) break;
+    const start = TOKEN.lastIndex;
+    const m = TOKEN.exec(source);
+    if (!m) {
+      throw new TemplateLanguageError(
+        `Unexpected "${source.slice(start).trim()}"`,
+      );
+    }
+    if (m[1] !== undefined) {
+      tokens.push({
+        type: 'string',
+        value: m[1].slice(1, -1).replace(/\\(.)/g, '$1'),
+      });
+    } else if (m[2] !== undefined) {
+      tokens.push({ type: 'number', value: Number(m[2]) });
+    } else if (m[3] !== undefined) {
+      tokens.push({ type: 'op', value: m[3] });
+    } else {
+      tokens.push({ type: 'name', value: m[4] });
+    }
+  }
+  return tokens;
+}
+
+class ExpressionParser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string,
+  ) {}
+
+  static condition(source: string): Condition {
+    const parser = new ExpressionParser(tokenize(source), source);
+    const negate = parser.peekName('not') && parser.tokens.length > 1;
+    if (negate) parser.pos++;
+    const left = parser.expression();
+    const next = parser.tokens[parser.pos];
+    let op: ComparisonOp | undefined;
+    let right: Expression | undefined;
+    if (next?.type === 'op' && /^[=!<>]/.test(next.value)) {
+      parser.pos++;
+      op = next.value as ComparisonOp;
+      right = parser.expression();
+    }
+    parser.end();
+    return { negate, left, op, right };
+  }
+
+  static expression(source: string): Expression {
+    const parser = new ExpressionParser(tokenize(source), source);
+    const expression = parser.expression();
+    parser.end();
+    return expression;
+  }
+
+  private expression(): Expression {
+    const operand = this.operand();
+    const filters: Expression['filters'] = [];
+    while (this.peekOp('|')) {
+      this.pos++;
+      const name = this.tokens[this.pos++];
+      if (name?.type !== 'name') throw this.error('Expected a filter name');
+      const args: Operand[] = [];
+      if (this.peekOp(':')) {
+        do {
+          this.pos++;
+          args.push(this.operand());
+        } while (this.peekOp(','));
+      }
+      filters.push({ name: name.value, args });
+    }
+    return { operand, filters };
+  }
+
+  private operand(): Operand {
+    const token = this.tokens[this.pos++];
+    if (!token || token.type === 'op') throw this.error('Expected a value');
+    if (token.type !== 'name') return { kind: 'literal', value: token.value };
+    switch (token.value) {
+      case 'true':
+        return { kind: 'literal', value: true };
+      case 'false':
+        return { kind: 'literal', value: false };
+      case 'null':
+        return { kind: 'literal', value: null };
+    }
+    const segments = token.value.replace(/\[(\d+)\]/g, '.$1').split('.');
+    const forbidden = segments.find((s) => FORBIDDEN_SEGMENTS.has(s));
+    if (forbidden) {
+      throw this.error(`Property "${forbidden}" is not accessible`);
+    }
+    return { kind: 'path', segments };
+  }
+
+  private peekOp(op: string) {
+    const token = this.tokens[this.pos];
+    return token?.type === 'op' && token.value === op;
+  }
+
+  private peekName(name: string) {
+    const token = this.tokens[this.pos];
+    return token?.type === 'name' && token.value === name;
+  }
+
+  private end() {
+    if (this.pos < this.tokens.length) {
+      throw this.error(`Unexpected "${this.tokens[this.pos].value}"`);
+    }
+  }
+
+  private error(message: string) {
+    return new TemplateLanguageError(`${message} in {{${this.source}}}`);
+  }
+}
+
+/**
+ * Parse the tags of a string into nodes
+ */
+function parseString(source: string, maxDepth: number): Node[] {
+  const root: Node[] = [];
+  const open: Extract<Node, { kind: 'section' }>[] = [];
+  const inAlternate: boolean[] = [];
+  const target = (): Node[] => {
+    const section = open[open.length - 1];
+    if (!section) return root;
+    return inAlternate[inAlternate.length - 1]
+      ? section.alternate
+      : section.body;
+  };
+
+  let last = 0;
+  for (const m of source.matchAll(TAG)) {
+    const index = m.index ?? 0;
+    if (index > last) {
+      target().push({ kind: 'text', text: source.slice(last, index) });
+    }
+    last = index + m[0].length;
+    const tag = m[1].trim();
+
+    const opening = /^#(if|unless|each)\b([\s\S]*)$/.exec(tag);
+    if (opening) {
+      if (open.length >= maxDepth) {
+        throw new TemplateLanguageError(
+          `Sections nest deeper than ${maxDepth} levels`,
+        );
+      }
+      const section = parseSection(opening[1], opening[2], m[0]);
+      target().push(section);
+      open.push(section);
+      inAlternate.push(false);
+    } else if (tag === 'else') {
+      if (!open.length || inAlternate[inAlternate.length - 1]) {
+        throw new TemplateLanguageError('Unexpected {{else}}');
+      }
+      inAlternate[inAlternate.length - 1] = true;
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const section = open.pop();
+      inAlternate.pop();
+      if (section?.keyword !== keyword) {
+        throw new TemplateLanguageError(
+          section
+            ? `{{/${keyword}}} closes {{#${section.keyword}}}`
+            : `Unexpected {{/${keyword}}}`,
+        );
+      }
+    } else if (tag.startsWith('#')) {
+      throw new TemplateLanguageError(`Unknown section ${m[0]}`);
+    } else {
+      target().push({
+        kind: 'output',
+        tag: m[0],
+        expression: ExpressionParser.expression(tag),
+      });
+    }
+  }
+
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new TemplateLanguageError(`${unclosed.tag} is never closed`);
+  }
+  if (last < source.length) {
+    root.push({ kind: 'text', text: source.slice(last) });
+  }
+  return root;
+}
+
+function parseSection(
+  keyword: string,
+  argument: string,
+  tag: string,
+): Extract<Node, { kind: 'section' }> {
+  const condition = ExpressionParser.condition(argument);
+  if (keyword === 'each' && (condition.negate || condition.op)) {
+    throw new TemplateLanguageError(`${tag} needs a list, not a condition`);
+  }
+  return {
+    kind: 'section',
+    tag,
+    keyword: keyword as SectionKeyword,
+    condition,
+    body: [],
+    alternate: [],
+  };
+}
+
+/**
+ * Variable paths read by the tags of a block, e.g. `user.name`
+ *
+ * Inside loops, names are listed as written since they may resolve on the
+ * item. `@root.` is dropped; `this` and loop positions are skipped. Tags that
+ * do not parse are ignored, rendering reports them.
+ */
+export function collectTemplatePaths(block: unknown): string[] {
+  const paths = new Set<string>();
+  const addOperand = (operand: Operand) => {
+    if (operand.kind !== 'path') return;
+    const segments =
+      operand.segments[0] === '@root'
+        ? operand.segments.slice(1)
+        : operand.segments;
+    if (!segments.length || segments[0] === 'this') return;
+    if (segments[0].startsWith('@')) return;
+    paths.add(segments.join('.'));
+  };
+  const addExpression = (expression: Expression) => {
+    addOperand(expression.operand);
+    expression.filters.forEach((f) => f.args.forEach(addOperand));
+  };
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      for (const m of value.matchAll(TAG)) {
+        const tag = m[1].trim();
+        try {
+          const opening = /^#(if|unless|each)\b([\s\S]*)$/.exec(tag);
+          if (opening) {
+            const condition = ExpressionParser.condition(opening[2]);
+            addExpression(condition.left);
+            if (condition.right) addExpression(condition.right);
+          } else if (tag !== 'else' && !tag.startsWith('/')) {
+            addExpression(ExpressionParser.expression(tag));
+          }
+        } catch {
+          // Reported when the block renders
+        }
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isPlainObject(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(key);
+        visit(child);
+      }
+    }
+  };
+  visit(block);
+  return [...paths];
+}
+
+/**
+ * Whether a value of a block is only known once rendered
+ */
+export function isTemplatePlaceholder(value: unknown): boolean {
+  return typeof value === 'string' && value.includes('{{');
+}
+
+/**
+ * Items a section object in a list holds, across its branches, or undefined
+ * when the item is not a section
+ */
+export function templateSectionItems(item: unknown): unknown[] | undefined {
+  if (!isPlainObject(item)) return undefined;
+  const keys = Object.keys(item);
+  if (keys.length === 0 || keys.length > 2) return undefined;
+  if (!keys.every((key) => SECTION_KEY.test(key))) return undefined;
+  return keys.flatMap((key): unknown[] => {
+    const content = item[key];
+    if (content === undefined) return [];
+    return Array.isArray(content) ? (content as unknown[]) : [content];
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+}
+
+function hasOwn(value: unknown, key: string): boolean {
+  if (!isPlainObject(value) && !Array.isArray(value)) return false;
+  return Object.getOwnPropertyDescriptor(value, key) !== undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+/**
+ * Renders strings and block trees against one set of variables
+ *
+ * One renderer is used per template render, so its limits apply to the
+ * whole message.
+ */
+export class TemplateLanguageRenderer {
+  private iterations = 0;
+  private outputChars = 0;
+  private readonly root: Scope;
+
+  constructor(
+    variables: Record<string, unknown>,
+    private readonly options: TemplateFilterOptions,
+    private readonly limits: TemplateLanguageLimits = DEFAULT_TEMPLATE_LANGUAGE_LIMITS,
+  ) {
+    this.root = { data: variables };
+  }
+
+  /**
+   * Render a block, or the blocks a section directive expands to
+   */
+  renderBlock(block: unknown): unknown[] {
+    return this.renderArray([block], this.root, '', true);
+  }
+
+  private renderValue(value: unknown, scope: Scope, path: string): unknown {
+    if (typeof value === 'string') {
+      return this.renderString(value, scope, path);
+    }
+    if (Array.isArray(value)) {
+      return this.renderArray(value, scope, path, false);
+    }
+    if (isPlainObject(value)) {
+      const out: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        out[key] = this.renderValue(
+          child,
+          scope,
+          path ? `${path}.${key}` : key,
+        );
+      }
+      return out;
+    }
+    return value;
+  }
+
+  /**
+   * Render list items, expanding section directives in place
+   * @param topLevel - items are blocks, so paths start inside each block
+   */
+  private renderArray(
+    items: unknown[],
+    scope: Scope,
+    path: string,
+    topLevel: boolean,
+  ): unknown[] {
+    const out: unknown[] = [];
+    items.forEach((item, i) => {
+      const itemPath = topLevel ? path : `${path}[${i}]`;
+      const directive = this.parseDirective(item, itemPath);
+      if (!directive) {
+        out.push(this.renderValue(item, scope, itemPath));
+        return;
+      }
+      this.runSection(directive.section, scope, itemPath, (child, branch) => {
+        const content = branch === 'body' ? directive.body : directive.alt;
+        if (content === undefined) return;
+        out.push(
+          ...this.renderArray(
+            Array.isArray(content) ? content : [content],
+            child,
+            itemPath,
+            topLevel,
+          ),
+        );
+      });
+    });
+    return out;
+  }
+
+  private parseDirective(item: unknown, path: string) {
+    if (!isPlainObject(item)) return undefined;
+    const keys = Object.keys(item);
+    if (keys.length === 0 || keys.length > 2) return undefined;
+    const matches = keys.map((key) => SECTION_KEY.exec(key));
+    if (matches.some((m) => !m)) return undefined;
+
+    const opening = matches.filter((m) => m![1] !== 'else');
+    const alternate = keys.find((_, i) => matches[i]![1] === 'else');
+    if (opening.length !== 1) {
+      throw new TemplateLanguageError(
+        'A section block needs exactly one {{#if}}, {{#unless}} or {{#each}} key',
+        path,
+      );
+    }
+    const [tag, keyword, argument] = opening[0]!;
+    try {
+      return {
+        section: parseSection(keyword.slice(1), argument, tag),
+        body: item[tag],
+        alt: alternate === undefined ? undefined : item[alternate],
+      };
+    } catch (error) {
+      throw this.locate(error, path);
+    }
+  }
+
+  private renderString(source: string, scope: Scope, path: string): unknown {
+    if (!source.includes('{{')) return source;
+
+    try {
+      const nodes = parseString(source, this.limits.maxDepth);
+
+      // A lone tag may place a list or object as data
+      const lone = SINGLE_TAG.exec(source.trim());
+      if (lone && nodes.length === 1 && nodes[0].kind === 'output') {
+        const value = this.evaluate(nodes[0].expression, scope, nodes[0].tag);
+        if (typeof value === 'object' && value !== null) {
+          const json = JSON.stringify(value);
+          this.countOutput(json.length);
+          return JSON.parse(json) as unknown;
+        }
+      }
+
+      const parts: string[] = [];
+      this.renderNodes(nodes, scope, parts);
+      return parts.join('');
+    } catch (error) {
+      throw this.locate(error, path);
+    }
+  }
+
+  private renderNodes(nodes: Node[], scope: Scope, parts: string[]) {
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        this.emit(node.text, parts);
+      } else if (node.kind === 'output') {
+        const value = this.evaluate(node.expression, scope, node.tag);
+        this.emit(stringifyTemplateValue(value), parts);
+      } else {
+        this.runSection(node, scope, '', (child, branch) =>
+          this.renderNodes(
+            branch === 'body' ? node.body : node.alternate,
+            child,
+            parts,
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Run a section, calling render once per branch taken
+   */
+  private runSection(
+    section: Extract<Node, { kind: 'section' }>,
+    scope: Scope,
+    path: string,
+    render: (scope: Scope, branch: 'body' | 'alternate') => void,
+  ) {
+    try {
+      if (section.keyword !== 'each') {
+        const pass = this.test(section.condition, scope, section.tag);
+        render(
+          scope,
+          pass === (section.keyword === 'if') ? 'body' : 'alternate',
+        );
+        return;
+      }
+
+      const list = this.evaluate(section.condition.left, scope, section.tag);
+      if (list === undefined || list === null) {
+        render(scope, 'alternate');
+        return;
+      }
+      if (!Array.isArray(list)) {
+        throw new TemplateLanguageError(`${section.tag} needs a list`);
+      }
+      if (list.length === 0) {
+        render(scope, 'alternate');
+        return;
+      }
+      list.forEach((item, index) => {
+        if (++this.iterations > this.limits.maxIterations) {
+          throw new TemplateLanguageError(
+            `Loops repeat more than ${this.limits.maxIterations} times`,
+          );
+        }
+        render(
+          {
+            data: item,
+            parent: scope,
+            loop: {
+              index,
+              first: index === 0,
+              last: index === list.length - 1,
+            },
+          },
+          'body',
+        );
+      });
+    } catch (error) {
+      throw this.locate(error, path);
+    }
+  }
+
+  private test(condition: Condition, scope: Scope, tag: string): boolean {
+    const left = this.evaluate(condition.left, scope, tag);
+    let result: boolean;
+    if (!condition.op) {
+      result = isTruthy(left);
+    } else {
+      const right = this.evaluate(condition.right!, scope, tag);
+      result = compare(left, condition.op, right);
+    }
+    return condition.negate ? !result : result;
+  }
+
+  private evaluate(expression: Expression, scope: Scope, tag: string): unknown {
+    let value = this.resolve(expression.operand, scope);
+    for (const filter of expression.filters) {
+      if (
+        !Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, filter.name)
+      ) {
+        throw new TemplateLanguageError(
+          `Unknown filter "${filter.name}" in ${tag}`,
+        );
+      }
+      const args = filter.args.map((arg) => this.resolve(arg, scope));
+      try {
+        value = TEMPLATE_FILTERS[filter.name](value, args, this.options);
+      } catch (error) {
+        throw new TemplateLanguageError(
+          `Filter "${filter.name}" failed in ${tag}: ${error instanceof Error ? error.message : 'unknown error'}`,
+        );
+      }
+    }
+    return value;
+  }
+
+  private resolve(operand: Operand, scope: Scope): unknown {
+    if (operand.kind === 'literal') return operand.value;
+
+    const [head, ...rest] = operand.segments;
+    let value: unknown;
+    if (head === 'this') {
+      value = scope.data;
+    } else if (head === '@root') {
+      value = this.root.data;
+    } else if (head === '@index' || head === '@first' || head === '@last') {
+      let s: Scope | undefined = scope;
+      while (s && !s.loop) s = s.parent;
+      value = s?.loop?.[head.slice(1) as 'index' | 'first' | 'last'];
+    } else {
+      let s: Scope | undefined = scope;
+      while (s && !hasOwn(s.data, head)) s = s.parent;
+      value = s ? (s.data as Record<string, unknown>)[head] : undefined;
+    }
+
+    for (const key of rest) {
+      if (!hasOwn(value, key)) return undefined;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  private emit(text: string, parts: string[]) {
+    this.countOutput(text.length);
+    parts.push(text);
+  }
+
+  private countOutput(chars: number) {
+    this.outputChars += chars;
+    if (this.outputChars > this.limits.maxOutputChars) {
+      throw new TemplateLanguageError(
+        `Rendered text exceeds ${this.limits.maxOutputChars} characters`,
+      );
+    }
+  }
+
+  /**
+   * Attach the path of the innermost failing string to an error
+   */
+  private locate(error: unknown, path: string): TemplateLanguageError {
+    if (error instanceof TemplateLanguageError) {
+      return error.path
+        ? error
+        : new TemplateLanguageError(error.message, path);
+    }
+    return new TemplateLanguageError(
+      error instanceof Error ? error.message : 'Unknown error',
+      path,
+    );
+  }
+}
+
+function compare(left: unknown, op: ComparisonOp, right: unknown): boolean {
+  switch (op) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+  }
+  // Ordering only compares numbers with numbers and strings with strings
+  if (typeof left !== typeof right) return false;
+  if (typeof left !== 'number' && typeof left !== 'string') return false;
+  const l = left;
+  const r = right as typeof left;
+  switch (op) {
+    case '<':
+      return l < r;
+    case '<=':
+      return l <= r;
+    case '>':
+      return l > r;
+    case '>=':
+      return l >= r;
+  }
+}
@@ -2,16 +2,23 @@
  * Generic Template Renderer Service
  *
  * Provides reusable template rendering logic for any messaging context.
- * Handles JSON block parsing, variable interpolation, and validation.
+ * Handles JSON block parsing, validation, and rendering with the template
+ * language (variables, conditionals, loops, filters; see template-language).
  */
 
 import { Injectable } from '@nestjs/common';
 import type {
   RenderableTemplate,
+  TemplatePreviewResult,
   TemplateRenderOptions,
   TemplateRenderResult,
   TemplateValidationResult,
 } from './template.types';
+import {
+  TemplateLanguageError,
+  TemplateLanguageRenderer,
+  collectTemplatePaths,
+} from './template-language';
 
 @Injectable()
 export class TemplateRendererService {
@@ -70,34 +77,89 @@ export class TemplateRendererService {
       }
     }
 
-    // Simple interpolation pass for text sections: {{var.path}}
-    const rendered = JSON.parse(
-      JSON.stringify(parsedBlocks),
-      (_k, value: unknown) => {
-        if (typeof value === 'string' && value.includes('{{')) {
-          return value.replace(/{{\s*([\w.$[\]]+)\s*}}/g, (_m, p1: string) => {
-            const v = this.getPath(variables, p1);
-            if (v === undefined || v === null) return '';
-            if (typeof v === 'object') return '[object]';
-            if (typeof v === 'number' || typeof v === 'boolean') {
-              return String(v);
-            }
-            return v as string;
-          });
-        }
-        return value;
-      },
-    ) as unknown;
+    const renderer = new TemplateLanguageRenderer(variables, {
+      locale: opts.locale ?? 'en-US',
+      timeZone: opts.timeZone ?? 'UTC',
+    });
+    const rendered: unknown[] = [];
+    for (const [blockIndex, block] of parsedBlocks.entries()) {
+      try {
+        rendered.push(...renderer.renderBlock(block));
+      } catch (error) {
+        const e =
+          error instanceof TemplateLanguageError
+            ? error
+            : new TemplateLanguageError((error as Error).message);
+        return {
+          ok: false,
+          error: `render_error:block ${blockIndex}${e.path ? ` at ${e.path}` : ''}: ${e.message}`,
+          blockIndex,
+          path: e.path || undefined,
+        };
+      }
+    }
+
+    // Loops may have added blocks
+    const expanded = this.validateTemplate(rendered, maxBlocks);
+    if (!expanded.ok) return expanded;
 
     return { ok: true, value: rendered };
   }
 
+  /**
+   * Render a template for review without failing on missing variables
+   *
+   * Missing variables render as empty text and the block limit is not
+   * applied, so callers can report every problem with the output at once.
+   */
+  previewTemplate(opts: TemplateRenderOptions): TemplatePreviewResult {
+    const { template, variables } = opts;
+
+    const missingVariables = (template.variables ?? []).filter((name) => {
+      const val = this.getPath(variables, name);
+      return val === undefined || val === null;
+    });
+
+    const read = new Set(
+      template.contentBlocks.flatMap((block) => {
+        if (typeof block !== 'string') return collectTemplatePaths(block);
+        try {
+          return collectTemplatePaths(JSON.parse(block));
+        } catch {
+          return []; // Reported by the render
+        }
+      }),
+    );
+    const isRead = (name: string) =>
+      [...read].some(
+        (path) =>
+          path === name ||
+          path.startsWith(`${name}.`) ||
+          name.startsWith(`${path}.`),
+      );
+    const unusedVariables = [
+      ...new Set([...(template.variables ?? []), ...Object.keys(variables)]),
+    ].filter((name) => !isRead(name));
+
+    const render = this.renderTemplate({
+      ...opts,
+      template: { ...template, variables: [] },
+      maxBlocks: Infinity,
+    });
+
+    return { render, missingVariables, unusedVariables };
+  }
+
   /**
    * Get nested object property by dot notation path
    */
   private getPath(obj: Record<string, unknown>, path: string): unknown {
     return path.split('.').reduce((acc: unknown, key) => {
-      if (acc && typeof acc === 'object' && key in acc) {
+      if (
+        acc &&
+        typeof acc === 'object' &&
+        Object.prototype.hasOwnProperty.call(acc, key)
+      ) {
         return (acc as Record<string, unknown>)[key];
       }
       return undefined;
@@ -43,6 +43,12 @@ export interface TemplateRenderOptions {
 
   /** Maximum number of blocks allowed (platform-specific) */
   maxBlocks?: number;
+
+  /** Locale of the number, currency and date filters (default en-US) */
+  locale?: string;
+
+  /** Time zone of the date filter when none is given (default UTC) */
+  timeZone?: string;
 }
 
 /**
@@ -50,7 +56,28 @@ export interface TemplateRenderOptions {
  */
 export type TemplateRenderResult =
   | { ok: true; value: unknown }
-  | { ok: false; error: string };
+  | {
+      ok: false;
+      error: string;
+      /** Index of the failing content block */
+      blockIndex?: number;
+      /** Location of the failing string inside the block, e.g. fields[1].text */
+      path?: string;
+    };
+
+/**
+ * Template preview result
+ */
+export interface TemplatePreviewResult {
+  /** Rendered blocks, or the first render error */
+  render: TemplateRenderResult;
+
+  /** Required variables the payload lacks or leaves empty */
+  missingVariables: string[];
+
+  /** Declared variables and payload fields that no tag reads */
+  unusedVariables: string[];
+}
 
 /**
  * Template validation result
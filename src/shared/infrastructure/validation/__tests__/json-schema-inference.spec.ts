@@ -0,0 +1,79 @@
+import { Logger } from '../../../logging';
+import { AjvSchemaValidationService } from '../ajv-schema-validation.service';
+import { inferJsonSchema } from '../json-schema-inference';
+
+function createMockLogger(): jest.Mocked<Logger> {
+  return {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  } as unknown as jest.Mocked<Logger>;
+}
+
+describe('inferJsonSchema', () => {
+  const sample = {
+    user: { name: 'Ada', age: 36, admin: true },
+    tags: ['a', 'b'],
+    items: [{ sku: 'X1', qty: 2 }],
+    empty: [],
+    note: null,
+  };
+
+  test('describes nested objects and arrays', () => {
+    expect(inferJsonSchema(sample)).toEqual({
+      type: 'object',
+      properties: {
+        user: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            age: { type: 'number' },
+            admin: { type: 'boolean' },
+          },
+          required: ['name', 'age', 'admin'],
+        },
+        tags: { type: 'array', items: { type: 'string' } },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { sku: { type: 'string' }, qty: { type: 'number' } },
+            required: ['sku', 'qty'],
+          },
+        },
+        empty: { type: 'array' },
+      },
+      required: ['user', 'tags', 'items', 'empty'],
+    });
+  });
+
+  test('produces a schema the sample itself satisfies', () => {
+    const validator = new AjvSchemaValidationService(createMockLogger());
+    const schema = inferJsonSchema(sample);
+
+    expect(validator.validateTemplatePayloadSchema(schema).isValid).toBe(true);
+    expect(validator.validateData(schema, sample).isValid).toBe(true);
+  });
+});
+
+describe('AjvSchemaValidationService', () => {
+  test('recompiles a schema whose body changed under the same $id', () => {
+    const validator = new AjvSchemaValidationService(createMockLogger());
+    const before = {
+      $id: 'urn:test:vars',
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    };
+    const after = { ...before, required: ['name'] };
+
+    expect(validator.validateData(before, {}).isValid).toBe(true);
+    expect(validator.validateData(after, {})).toEqual(
+      expect.objectContaining({
+        isValid: false,
+        errors: ['Missing required property "name" at root'],
+      }),
+    );
+  });
+});
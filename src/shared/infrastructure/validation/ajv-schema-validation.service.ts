@@ -209,9 +209,14 @@ export class AjvSchemaValidationService {
 
   // --------------------- internals ---------------------
 
-  /** Compile (or fetch cached) validator */
+  /**
+   * Compile (or fetch cached) validator
+   *
+   * Keyed by the schema body rather than $id: stored schemas are edited in
+   * place and keep their $id, so an id key would serve a stale validator.
+   */
   private getOrCompile(schema: JsonSchema): ValidateFunction {
-    const key = schema.$id ?? this.inlineKey(schema);
+    const key = this.inlineKey(schema);
     const cached = this.cache.get(key);
     if (cached) return cached;
 
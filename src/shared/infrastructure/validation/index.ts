@@ -1,4 +1,5 @@
 export * from './ajv-schema-validation.service';
+export * from './json-schema-inference';
 export type {
   JsonSchema,
   JsonSchemaProperty,
@@ -0,0 +1,50 @@
+import type {
+  JsonSchema,
+  JsonSchemaProperty,
+} from './ajv-schema-validation.service';
+
+/**
+ * Infer a JSON Schema from a sample value
+ *
+ * Meant as a starting point to edit, not a faithful description of the data:
+ * every key present in the sample is required, numbers are never narrowed to
+ * integers, strings get no format, and arrays take the shape of their first
+ * item. Null values say nothing about the type, so their keys are left out.
+ */
+export function inferJsonSchema(sample: Record<string, unknown>): JsonSchema {
+  return inferObject(sample);
+}
+
+function inferObject(value: Record<string, unknown>): JsonSchemaProperty {
+  const properties: Record<string, JsonSchemaProperty> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const property = inferProperty(item);
+    if (property) properties[key] = property;
+  }
+  const required = Object.keys(properties);
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+function inferProperty(value: unknown): JsonSchemaProperty | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) {
+    const items = value.length > 0 ? inferProperty(value[0]) : undefined;
+    return items ? { type: 'array', items } : { type: 'array' };
+  }
+  switch (typeof value) {
+    case 'string':
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'object':
+      return inferObject(value as Record<string, unknown>);
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,165 @@
+import { createHmac } from 'crypto';
+import { SlackSignatureUtil } from '../../slack/slack-signature.util';
+
+describe('SlackSignatureUtil', () => {
+  const signingSecret = '8f742231b10e8888abcd99yyyzzz85a5';
+  const body =
+    'payload=%7B%22type%22%3A%22block_actions%22%2C%22team%22%3A%7B%22id%22%3A%22T1%22%7D%7D';
+  const now = 1_760_000_000;
+
+  describe('sign', () => {
+    test('signs `v0:{timestamp}:{body}` with HMAC-SHA256', () => {
+      const expected = createHmac('sha256', signingSecret)
+        .update(`v0:${now}:${body}`)
+        .digest('hex');
+
+      expect(
+        SlackSignatureUtil.sign({ body, signingSecret, timestamp: now }),
+      ).toBe(`v0=${expected}`);
+    });
+  });
+
+  describe('verify', () => {
+    const signature = SlackSignatureUtil.sign({
+      body,
+      signingSecret,
+      timestamp: now,
+    });
+
+    test('accepts a signature produced by sign()', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret,
+          signature,
+          timestamp: String(now),
+          now,
+        }),
+      ).toEqual({ valid: true, timestamp: now });
+    });
+
+    test('rejects a tampered body', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body: `${body}x`,
+          signingSecret,
+          signature,
+          timestamp: String(now),
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'signature_mismatch' });
+    });
+
+    test('rejects a different signing secret', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret: 'another-secret',
+          signature,
+          timestamp: String(now),
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'signature_mismatch' });
+    });
+
+    test('rejects a missing signature', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret,
+          timestamp: String(now),
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'missing_signature' });
+    });
+
+    test('rejects an unknown signature version', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret,
+          signature: signature.replace(/^v0=/, 'v1='),
+          timestamp: String(now),
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'unsupported_version' });
+    });
+
+    test('rejects a non-hex digest', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret,
+          signature: 'v0=not-hex',
+          timestamp: String(now),
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'malformed_signature' });
+    });
+
+    test('requires the timestamp header', () => {
+      expect(
+        SlackSignatureUtil.verify({ body, signingSecret, signature, now }),
+      ).toEqual({ valid: false, reason: 'missing_timestamp' });
+    });
+
+    test('rejects a malformed timestamp', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret,
+          signature,
+          timestamp: 'yesterday',
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'malformed_timestamp' });
+    });
+
+    test('rejects timestamps outside the tolerance window', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret,
+          signature,
+          timestamp: String(now),
+          now: now + 301,
+        }),
+      ).toEqual({ valid: false, reason: 'timestamp_out_of_tolerance' });
+    });
+
+    test('honours a custom tolerance', () => {
+      expect(
+        SlackSignatureUtil.verify({
+          body,
+          signingSecret,
+          signature,
+          timestamp: String(now),
+          now: now + 600,
+          toleranceSeconds: 900,
+        }).valid,
+      ).toBe(true);
+    });
+  });
+
+  describe('checkHeaders', () => {
+    test('accepts fresh, well-formed headers without the secret', () => {
+      expect(
+        SlackSignatureUtil.checkHeaders({
+          signature: `v0=${'ab'.repeat(32)}`,
+          timestamp: String(now),
+          now,
+        }),
+      ).toEqual({ valid: true, timestamp: now });
+    });
+
+    test('rejects a stale timestamp before any secret is needed', () => {
+      expect(
+        SlackSignatureUtil.checkHeaders({
+          signature: `v0=${'ab'.repeat(32)}`,
+          timestamp: String(now - 301),
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'timestamp_out_of_tolerance' });
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { createHmac } from 'crypto';
+import {
+  WebhookSignatureUtil,
+  WEBHOOK_SIGNATURE_HEADERS,
+} from '../../webhook/webhook-signature.util';
+
+describe('WebhookSignatureUtil', () => {
+  const secret = 'whsec_test_secret';
+  const body = JSON.stringify({ event: 'order.created', id: 42 });
+  const now = 1_760_000_000;
+
+  describe('sign', () => {
+    test('signs the raw body when no timestamp is given', () => {
+      const expected = createHmac('sha256', secret).update(body).digest('hex');
+
+      const result = WebhookSignatureUtil.sign({
+        body,
+        secret,
+        algorithm: 'sha256',
+      });
+
+      expect(result.signature).toBe(`sha256=${expected}`);
+      expect(result.headers).toEqual({
+        [WEBHOOK_SIGNATURE_HEADERS.SIGNATURE]: `sha256=${expected}`,
+      });
+    });
+
+    test('signs `{timestamp}.{body}` and emits the timestamp header', () => {
+      const expected = createHmac('sha1', secret)
+        .update(`${now}.${body}`)
+        .digest('hex');
+
+      const result = WebhookSignatureUtil.sign({
+        body,
+        secret,
+        algorithm: 'sha1',
+        timestamp: now,
+      });
+
+      expect(result.signature).toBe(`sha1=${expected}`);
+      expect(result.headers[WEBHOOK_SIGNATURE_HEADERS.TIMESTAMP]).toBe(
+        String(now),
+      );
+    });
+  });
+
+  describe('verify', () => {
+    const signed = WebhookSignatureUtil.sign({
+      body,
+      secret,
+      algorithm: 'sha256',
+      timestamp: now,
+    });
+
+    test('accepts a signature produced by sign()', () => {
+      const result = WebhookSignatureUtil.verify({
+        body,
+        secret,
+        signature: signed.signature,
+        timestamp: String(now),
+        now,
+      });
+
+      expect(result).toEqual({
+        valid: true,
+        algorithm: 'sha256',
+        timestamp: now,
+      });
+    });
+
+    test('rejects a tampered body', () => {
+      const result = WebhookSignatureUtil.verify({
+        body: body.replace('42', '43'),
+        secret,
+        signature: signed.signature,
+        timestamp: String(now),
+        now,
+      });
+
+      expect(result).toEqual({ valid: false, reason: 'signature_mismatch' });
+    });
+
+    test('rejects a wrong secret', () => {
+      const result = WebhookSignatureUtil.verify({
+        body,
+        secret: 'other',
+        signature: signed.signature,
+        timestamp: String(now),
+        now,
+      });
+
+      expect(result).toEqual({ valid: false, reason: 'signature_mismatch' });
+    });
+
+    test('rejects timestamps outside the tolerance window', () => {
+      const result = WebhookSignatureUtil.verify({
+        body,
+        secret,
+        signature: signed.signature,
+        timestamp: String(now),
+        now: now + 301,
+      });
+
+      expect(result).toEqual({
+        valid: false,
+        reason: 'timestamp_out_of_tolerance',
+      });
+    });
+
+    test('rejects a replayed body signed with a different timestamp', () => {
+      const result = WebhookSignatureUtil.verify({
+        body,
+        secret,
+        signature: signed.signature,
+        timestamp: String(now + 10),
+        now: now + 10,
+      });
+
+      expect(result).toEqual({ valid: false, reason: 'signature_mismatch' });
+    });
+
+    test('requires a timestamp when asked to', () => {
+      const unsigned = WebhookSignatureUtil.sign({
+        body,
+        secret,
+        algorithm: 'sha256',
+      });
+
+      expect(
+        WebhookSignatureUtil.verify({
+          body,
+          secret,
+          signature: unsigned.signature,
+          requireTimestamp: true,
+        }),
+      ).toEqual({ valid: false, reason: 'missing_timestamp' });
+      expect(
+        WebhookSignatureUtil.verify({
+          body,
+          secret,
+          signature: unsigned.signature,
+        }),
+      ).toEqual({ valid: true, algorithm: 'sha256', timestamp: undefined });
+    });
+
+    test.each([
+      [undefined, 'missing_signature'],
+      ['', 'missing_signature'],
+      ['deadbeef', 'malformed_signature'],
+      ['md5=deadbeef', 'unsupported_algorithm'],
+      ['sha256=not-hex', 'malformed_signature'],
+    ])('rejects signature header %p with %s', (signature, reason) => {
+      expect(
+        WebhookSignatureUtil.verify({ body, secret, signature, now }),
+      ).toEqual({ valid: false, reason });
+    });
+
+    test('rejects a non-numeric timestamp', () => {
+      expect(
+        WebhookSignatureUtil.verify({
+          body,
+          secret,
+          signature: signed.signature,
+          timestamp: 'yesterday',
+          now,
+        }),
+      ).toEqual({ valid: false, reason: 'malformed_timestamp' });
+    });
+  });
+});
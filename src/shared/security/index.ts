@@ -18,6 +18,12 @@ export * from './data-protection/data-protection.module';
 export * from './monitoring/security-monitoring.service';
 export * from './monitoring/monitoring.module';
 
+// Webhook signing
+export * from './webhook';
+
+// Slack request signing
+export * from './slack';
+
 // Framework configuration
 export interface SecurityFrameworkConfig {
   audit?: import('./audit').AuditConfig;
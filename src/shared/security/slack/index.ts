@@ -0,0 +1 @@
+export * from './slack-signature.util';
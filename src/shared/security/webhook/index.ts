@@ -0,0 +1 @@
+export * from './webhook-signature.util';
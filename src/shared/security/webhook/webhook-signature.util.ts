@@ -0,0 +1,181 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * HMAC algorithms supported for webhook signatures
+ */
+export type WebhookSignatureAlgorithm = 'sha256' | 'sha1';
+
+/**
+ * Header names carrying the signature and the signed timestamp
+ */
+export const WEBHOOK_SIGNATURE_HEADERS = {
+  SIGNATURE: 'x-webhook-signature',
+  TIMESTAMP: 'x-webhook-timestamp',
+} as const;
+
+/**
+ * Default window (seconds) in which a signed timestamp is accepted
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface SignWebhookPayloadInput {
+  /** Exact request body bytes as sent on the wire */
+  body: string;
+  secret: string;
+  algorithm: WebhookSignatureAlgorithm;
+  /** Unix time in seconds; when set it is signed and sent as a header */
+  timestamp?: number;
+}
+
+export interface WebhookSignature {
+  /** Header value, e.g. `sha256=5257a869...` */
+  signature: string;
+  timestamp?: number;
+  /** Headers to merge into the outgoing request */
+  headers: Record<string, string>;
+}
+
+export interface VerifyWebhookSignatureInput {
+  body: string;
+  secret: string;
+  /** Value of the signature header */
+  signature?: string | null;
+  /** Value of the timestamp header, if the sender includes it */
+  timestamp?: string | null;
+  /** Reject signatures without a timestamp header */
+  requireTimestamp?: boolean;
+  toleranceSeconds?: number;
+  /** Current unix time in seconds, injectable for tests */
+  now?: number;
+}
+
+export type WebhookSignatureFailureReason =
+  | 'missing_signature'
+  | 'malformed_signature'
+  | 'unsupported_algorithm'
+  | 'missing_timestamp'
+  | 'malformed_timestamp'
+  | 'timestamp_out_of_tolerance'
+  | 'signature_mismatch';
+
+export type WebhookSignatureVerification =
+  | { valid: true; algorithm: WebhookSignatureAlgorithm; timestamp?: number }
+  | { valid: false; reason: WebhookSignatureFailureReason };
+
+const SUPPORTED_ALGORITHMS: readonly WebhookSignatureAlgorithm[] = [
+  'sha256',
+  'sha1',
+];
+
+/**
+ * Webhook Signature Utility
+ *
+ * Canonical HMAC signing scheme for outbound webhooks, and the matching
+ * verification routine for receivers.
+ *
+ * Signed content is `{timestamp}.{body}` when a timestamp is sent and the
+ * raw body otherwise. The signature header carries `{algorithm}={hex digest}`.
+ */
+export class WebhookSignatureUtil {
+  /**
+   * Build the exact string that is signed
+   */
+  static buildSigningBase(body: string, timestamp?: number): string {
+    return timestamp === undefined ? body : `${timestamp}.${body}`;
+  }
+
+  /**
+   * Sign a payload and return the headers to send with it
+   */
+  static sign(input: SignWebhookPayloadInput): WebhookSignature {
+    const digest = this.digest(
+      input.algorithm,
+      input.secret,
+      this.buildSigningBase(input.body, input.timestamp),
+    );
+    const signature = `${input.algorithm}=${digest}`;
+
+    const headers: Record<string, string> = {
+      [WEBHOOK_SIGNATURE_HEADERS.SIGNATURE]: signature,
+    };
+    if (input.timestamp !== undefined) {
+      headers[WEBHOOK_SIGNATURE_HEADERS.TIMESTAMP] = String(input.timestamp);
+    }
+
+    return { signature, timestamp: input.timestamp, headers };
+  }
+
+  /**
+   * Verify a received signature in constant time
+   */
+  static verify(
+    input: VerifyWebhookSignatureInput,
+  ): WebhookSignatureVerification {
+    if (!input.signature) {
+      return { valid: false, reason: 'missing_signature' };
+    }
+
+    const separator = input.signature.indexOf('=');
+    if (separator <= 0) {
+      return { valid: false, reason: 'malformed_signature' };
+    }
+    const algorithm = input.signature.slice(0, separator);
+    const received = input.signature.slice(separator + 1);
+
+    if (!this.isSupportedAlgorithm(algorithm)) {
+      return { valid: false, reason: 'unsupported_algorithm' };
+    }
+    if (!/^[0-9a-f]+$/i.test(received)) {
+      return { valid: false, reason: 'malformed_signature' };
+    }
+
+    let timestamp: number | undefined;
+    if (input.timestamp) {
+      timestamp = Number(input.timestamp);
+      if (!Number.isInteger(timestamp)) {
+        return { valid: false, reason: 'malformed_timestamp' };
+      }
+      const now = input.now ?? Math.floor(Date.now() / 1000);
+      const tolerance =
+        input.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+      if (Math.abs(now - timestamp) > tolerance) {
+        return { valid: false, reason: 'timestamp_out_of_tolerance' };
+      }
+    } else if (input.requireTimestamp) {
+      return { valid: false, reason: 'missing_timestamp' };
+    }
+
+    const expected = Buffer.from(
+      this.digest(
+        algorithm,
+        input.secret,
+        this.buildSigningBase(input.body, timestamp),
+      ),
+      'hex',
+    );
+    const actual = Buffer.from(received, 'hex');
+
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return { valid: false, reason: 'signature_mismatch' };
+    }
+
+    return { valid: true, algorithm, timestamp };
+  }
+
+  static isSupportedAlgorithm(
+    value: string,
+  ): value is WebhookSignatureAlgorithm {
+    return (SUPPORTED_ALGORITHMS as readonly string[]).includes(value);
+  }
+
+  private static digest(
+    algorithm: WebhookSignatureAlgorithm,
+    secret: string,
+    content: string,
+  ): string {
+    return createHmac(algorithm, secret).update(content, 'utf8').digest('hex');
+  }
+}